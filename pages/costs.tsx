@@ -0,0 +1,8 @@
+import * as React from 'react';
+
+import { AppCosts } from '../src/apps/costs/AppCosts';
+
+import { withNextJSPerPageLayout } from '~/common/layout/withLayout';
+
+
+export default withNextJSPerPageLayout({ type: 'optima' }, () => <AppCosts />);
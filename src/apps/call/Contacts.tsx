@@ -4,6 +4,8 @@ import type { SxProps } from '@mui/joy/styles/types';
 import { Avatar, Box, Card, CardContent, Chip, IconButton, Link as MuiLink, ListDivider, MenuItem, Sheet, Switch, Typography } from '@mui/joy';
 import CallIcon from '@mui/icons-material/Call';
 
+import { DPersona, usePersonas } from '~/modules/persona/store-personas';
+
 import { GitHubProjectIssueCard } from '~/common/components/GitHubProjectIssueCard';
 import { OptimaPanelGroupedList } from '~/common/layout/optima/panel/OptimaPanelGroupedList';
 import { OptimaPanelIn } from '~/common/layout/optima/portals/OptimaPortalsIn';
@@ -12,8 +14,8 @@ import { conversationTitle, DConversation, DConversationId } from '~/common/stor
 import { useChatStore } from '~/common/stores/chat/store-chats';
 
 import type { AppCallIntent } from './AppCall';
-import { MockPersona, useMockPersonas } from './state/useMockPersonas';
 import { useAppCallStore } from './state/store-app-call';
+import { usePurposeStore } from '../chat/components/persona-selector/store-purposes';
 
 
 // number of conversations to show before collapsing
@@ -59,7 +61,7 @@ const ContactCardConversationCall = (props: { conversation: DConversation, onCon
 
 
 function CallContactCard(props: {
-  persona: MockPersona,
+  persona: DPersona,
   callGrayUI: boolean,
   conversations: Readonly<DConversation[]>,
   setCallIntent: (intent: AppCallIntent) => void,
@@ -77,15 +79,15 @@ function CallContactCard(props: {
 
   const handleCallPersona = React.useCallback(() => setCallIntent({
     conversationId: null,
-    personaId: persona.personaId,
+    personaId: persona.id,
     backTo: 'app-call-contacts',
-  }), [persona.personaId, setCallIntent]);
+  }), [persona.id, setCallIntent]);
 
   const handleCallPersonaRe = React.useCallback((conversationId: DConversationId | null) => setCallIntent({
     conversationId: conversationId,
-    personaId: persona.personaId,
+    personaId: persona.id,
     backTo: 'app-call-contacts',
-  }), [persona.personaId, setCallIntent]);
+  }), [persona.id, setCallIntent]);
 
   return (
 
@@ -111,7 +113,7 @@ function CallContactCard(props: {
         <CardContent sx={{ my: 2, display: 'flex' }}>
           {/* Persona Description */}
           <Typography level='body-xs' sx={{ minHeight: '3em', mb: hasConversations ? 1.5 : undefined }}>
-            {typeof persona.description === 'string' ? persona.description : 'Custom persona'}
+            {persona.description || 'Custom persona'}
           </Typography>
 
           {/*{hasConversations && <Divider>*/}
@@ -245,10 +247,14 @@ function ContactsMenuItems() {
 export function Contacts(props: { setCallIntent: (intent: AppCallIntent) => void }) {
 
   // external state
-  const { personas } = useMockPersonas();
+  const allPersonas = usePersonas();
+  const hiddenPurposeIDs = usePurposeStore(state => state.hiddenPurposeIDs);
   const { grayUI, showConversations, showSupport } = useAppCallStore();
   const conversationsByPersona = useConversationsByPersona();
 
+  // derived state
+  const personas = React.useMemo(() => allPersonas.filter(persona => !hiddenPurposeIDs.includes(persona.id)), [allPersonas, hiddenPurposeIDs]);
+
 
   return <>
 
@@ -302,10 +308,10 @@ export function Contacts(props: { setCallIntent: (intent: AppCallIntent) => void
     >
       {personas.map((persona) =>
         <CallContactCard
-          key={persona.personaId}
+          key={persona.id}
           persona={persona}
           callGrayUI={grayUI}
-          conversations={!showConversations ? [] : conversationsByPersona[persona.personaId] || []}
+          conversations={!showConversations ? [] : conversationsByPersona[persona.id] || []}
           setCallIntent={props.setCallIntent}
         />,
       )}
@@ -7,15 +7,18 @@ import CallEndIcon from '@mui/icons-material/CallEnd';
 import CallIcon from '@mui/icons-material/Call';
 import MicIcon from '@mui/icons-material/Mic';
 import MicNoneIcon from '@mui/icons-material/MicNone';
+import MicOffIcon from '@mui/icons-material/MicOff';
+import RecordVoiceOverIcon from '@mui/icons-material/RecordVoiceOver';
 
 import { ScrollToBottom } from '~/common/scroll-to-bottom/ScrollToBottom';
 import { ScrollToBottomButton } from '~/common/scroll-to-bottom/ScrollToBottomButton';
 import { useChatLLMDropdown } from '../chat/components/layout-bar/useLLMDropdown';
 
-import { SystemPurposeId, SystemPurposes } from '../../data';
-
 import { aixChatGenerateContent_DMessage_FromConversation, AixChatGenerateContent_DMessageGuts } from '~/modules/aix/client/aix.client';
-import { speakText } from '~/modules/speex/speex.client';
+import { ASRxListener } from '~/modules/asrx/asrx.listener';
+import { SpeexStreamingSpeaker } from '~/modules/speex/speex.streaming';
+import { personaVoiceSelector, usePersona } from '~/modules/persona/store-personas';
+import { useASRxGlobalEngine } from '~/modules/asrx/store-module-asrx';
 
 import type { OptimaBarControlMethods } from '~/common/layout/optima/bar/OptimaBarDropdown';
 import { AudioPlayer } from '~/common/util/audio/AudioPlayer';
@@ -41,22 +44,30 @@ import { useAppCallStore } from './state/store-app-call';
 
 
 function CallMenu(props: {
+  hasASRxEngine: boolean,
   pushToTalk: boolean,
   setPushToTalk: (pushToTalk: boolean) => void,
 }) {
 
   // external state
-  const { grayUI, toggleGrayUI } = useAppCallStore();
+  const { grayUI, toggleGrayUI, realtimeVoice, toggleRealtimeVoice } = useAppCallStore();
 
+  const isDuplex = realtimeVoice && props.hasASRxEngine;
   const handlePushToTalkToggle = () => props.setPushToTalk(!props.pushToTalk);
 
   return <OptimaPanelGroupedList title='Call'>
 
-    <MenuItem onClick={handlePushToTalkToggle}>
+    <MenuItem disabled={!props.hasASRxEngine} onClick={toggleRealtimeVoice}>
+      <ListItemDecorator><RecordVoiceOverIcon /></ListItemDecorator>
+      {props.hasASRxEngine ? 'Hands-free' : 'Hands-free (needs Transcription)'}
+      <Switch checked={isDuplex} sx={{ ml: 'auto' }} />
+    </MenuItem>
+
+    {!isDuplex && <MenuItem onClick={handlePushToTalkToggle}>
       <ListItemDecorator>{props.pushToTalk ? <MicNoneIcon /> : <MicIcon />}</ListItemDecorator>
       Push to talk
       <Switch checked={props.pushToTalk} onChange={handlePushToTalkToggle} sx={{ ml: 'auto' }} />
-    </MenuItem>
+    </MenuItem>}
 
     <ListDivider />
 
@@ -79,7 +90,8 @@ export function Telephone(props: {
 }) {
 
   // state
-  const [avatarClickCount, setAvatarClickCount] = React.useState<number>(0);// const [micMuted, setMicMuted] = React.useState(false);
+  const [avatarClickCount, setAvatarClickCount] = React.useState<number>(0);
+  const [micMuted, setMicMuted] = React.useState(false);
   const [callElapsedTime, setCallElapsedTime] = React.useState<string>('00:00');
   const [callMessages, setCallMessages] = React.useState<DMessage[]>([]);
   const [personaTextInterim, setPersonaTextInterim] = React.useState<string | null>(null);
@@ -87,9 +99,13 @@ export function Telephone(props: {
   const [stage, setStage] = React.useState<'ring' | 'declined' | 'connected' | 'ended'>('ring');
   const llmDropdownRef = React.useRef<OptimaBarControlMethods>(null);
   const responseAbortController = React.useRef<AbortController | null>(null);
+  const speakerRef = React.useRef<SpeexStreamingSpeaker | null>(null);
+  const listenerRef = React.useRef<ASRxListener | null>(null);
 
   // external state
   const { chatLLMId: modelId, chatLLMDropdown: modelDropdown } = useChatLLMDropdown(llmDropdownRef);
+  const realtimeVoice = useAppCallStore(state => state.realtimeVoice);
+  const hasASRxEngine = !!useASRxGlobalEngine();
   const { chatTitle, reMessages } = useChatStore(useShallow(state => {
     const conversation = props.callIntent.conversationId
       ? state.conversations.find(conversation => conversation.id === props.callIntent.conversationId) ?? null
@@ -99,10 +115,9 @@ export function Telephone(props: {
       reMessages: conversation ? conversation.messages : null,
     };
   }));
-  const persona = SystemPurposes[props.callIntent.personaId as SystemPurposeId] ?? undefined;
-  const personaCallStarters = persona?.call?.starters ?? undefined;
-  // const personaVoiceSelector = React.useMemo(() => personaGetVoiceSelector(persona), [persona]);
-  const personaSystemMessage = persona?.systemMessage ?? undefined;
+  const persona = usePersona(props.callIntent.personaId) ?? undefined;
+  const personaCallStarters = persona?.callStarters ?? undefined;
+  const personaSystemMessage = persona?.systemPrompt ?? '';
 
   // hooks and speech
   const [speechInterim, setSpeechInterim] = React.useState<SpeechResult | null>(null);
@@ -116,6 +131,10 @@ export function Telephone(props: {
   }, []);
   const { recognitionState, startRecognition, stopRecognition, toggleRecognition } = useSpeechRecognition('webSpeechApi', onSpeechResultCallback, 1000);
 
+  // hands-free (duplex): the ASRx listener replaces the speech recognition, and the user can talk over the persona
+  const [listenerState, setListenerState] = React.useState<{ hasSpeech: boolean, transcribing: number, errorMessage: string | null }>({ hasSpeech: false, transcribing: 0, errorMessage: null });
+  const isDuplex = realtimeVoice && hasASRxEngine;
+
   // derived state
   const isRinging = stage === 'ring';
   const isConnected = stage === 'connected';
@@ -136,17 +155,36 @@ export function Telephone(props: {
 
   /// Shortcuts
 
+  const toggleMicMuted = React.useCallback(() => setMicMuted(muted => !muted), []);
+
   useGlobalShortcuts('Telephone', React.useMemo(() => [
-    { key: 'm', ctrl: true, action: toggleRecognition },
-  ], [toggleRecognition]));
+    { key: 'm', ctrl: true, action: isDuplex ? toggleMicMuted : toggleRecognition },
+  ], [isDuplex, toggleMicMuted, toggleRecognition]));
 
   /// CONNECTED
 
   const handleCallStop = () => {
     stopRecognition(false);
+    speakerRef.current?.stop();
     setStage('ended');
   };
 
+  // new speaker for the next reply - the previous is silenced
+  const { personaId } = props.callIntent;
+  const speakerRestart = React.useCallback((): SpeexStreamingSpeaker => {
+    speakerRef.current?.stop();
+    return speakerRef.current = new SpeexStreamingSpeaker(personaVoiceSelector(personaId), { label: 'Call', priority: 'fast' });
+  }, [personaId]);
+
+  // [E] hangup or unmount -> silence
+  React.useEffect(() => {
+    if (!isConnected) return;
+    return () => {
+      speakerRef.current?.stop();
+      speakerRef.current = null;
+    };
+  }, [isConnected]);
+
   // [E] pickup -> seed message and call timer
   React.useEffect(() => {
     if (!isConnected) return;
@@ -167,14 +205,10 @@ export function Telephone(props: {
 
     setCallMessages([createDMessageTextContent('assistant', firstMessage)]); // [state] set assistant:hello message
 
-    // fire/forget - use 'fast' priority for real-time conversation
-    void speakText(firstMessage,
-      undefined,
-      { label: 'Call', priority: 'fast' },
-    );
+    speakerRestart().update(firstMessage, true);
 
     return () => clearInterval(interval);
-  }, [isConnected, personaCallStarters]);
+  }, [isConnected, personaCallStarters, speakerRestart]);
 
   // [E] persona streaming response - upon new user message
   React.useEffect(() => {
@@ -232,6 +266,10 @@ export function Telephone(props: {
     let finalText = '';
     setPersonaTextInterim('💭...');
 
+    // spoken sentence by sentence, while generating - note: not stopped by this effect's cleanup, to
+    // finish speaking after the reply is appended; barge-in, the next reply, and hangup stop it instead
+    const speaker = speakerRestart();
+
     aixChatGenerateContent_DMessage_FromConversation(
       modelId,
       callSystemInstruction,
@@ -241,8 +279,10 @@ export function Telephone(props: {
       { abortSignal: responseAbortController.current.signal },
       (update: AixChatGenerateContent_DMessageGuts, _isDone: boolean) => {
         const updatedText = messageFragmentsReduceText(update.fragments).trim();
-        if (updatedText)
+        if (updatedText) {
           setPersonaTextInterim(finalText = updatedText);
+          speaker.update(updatedText, false);
+        }
       },
     ).then((status) => {
 
@@ -255,12 +295,9 @@ export function Telephone(props: {
       fullMessage.generator = status.lastDMessage.generator;
       setCallMessages(messages => [...messages, fullMessage]); // [state] append assistant:call_response
 
-      // fire/forget - use 'fast' priority for real-time conversation
+      // speak the rest - 'fast' priority for real-time conversation
       if (status.outcome === 'completed' && finalText?.length >= 1)
-        void speakText(finalText,
-          undefined,
-          { label: 'Call', priority: 'fast' },
-        );
+        speaker.update(finalText, true);
 
     }).catch((err: DOMException) => {
       if (err?.name !== 'AbortError') {
@@ -276,21 +313,54 @@ export function Telephone(props: {
       responseAbortController.current?.abort();
       responseAbortController.current = null;
     };
-  }, [callMessages, isConnected, modelId, personaSystemMessage, reMessages]);
+  }, [callMessages, isConnected, modelId, personaSystemMessage, reMessages, speakerRestart]);
 
   // [E] Message interrupter
   const abortTrigger = isConnected && recognitionState.hasSpeech;
   React.useEffect(() => {
-    if (abortTrigger && responseAbortController.current) {
+    if (!abortTrigger) return;
+    if (responseAbortController.current) {
       responseAbortController.current.abort();
       responseAbortController.current = null;
     }
-    // TODO.. abort current speech
+    speakerRef.current?.stop();
   }, [abortTrigger]);
 
 
+  // [E] hands-free listening - barge-in when the user starts talking
+  React.useEffect(() => {
+    if (!isConnected || !isDuplex) return;
+
+    setMicMuted(false);
+    setListenerState({ hasSpeech: false, transcribing: 0, errorMessage: null });
+    const listener = new ASRxListener({
+      onSpeechStart: () => {
+        responseAbortController.current?.abort();
+        responseAbortController.current = null;
+        speakerRef.current?.stop();
+        setListenerState(state => ({ ...state, hasSpeech: true }));
+      },
+      onSpeechEnd: (transcribing) => setListenerState(state => ({ ...state, hasSpeech: false, transcribing: state.transcribing + (transcribing ? 1 : 0) })),
+      onTranscript: (text) => setCallMessages(messages => [...messages, createDMessageTextContent('user', text)]), // [state] append user:speech
+      onTranscribingDone: () => setListenerState(state => ({ ...state, transcribing: Math.max(0, state.transcribing - 1) })),
+      onError: (errorMessage) => setListenerState(state => ({ ...state, errorMessage })),
+    });
+    listenerRef.current = listener;
+    void listener.start();
+
+    return () => {
+      listener.dispose();
+      listenerRef.current = null;
+    };
+  }, [isConnected, isDuplex]);
+
+  React.useEffect(() => {
+    listenerRef.current?.setMuted(micMuted);
+  }, [micMuted]);
+
+
   // [E] continuous speech recognition (reload)
-  const shouldStartRecording = isConnected && !pushToTalk && speechInterim === null && !recognitionState.hasAudio;
+  const shouldStartRecording = isConnected && !isDuplex && !pushToTalk && speechInterim === null && !recognitionState.hasAudio;
   React.useEffect(() => {
     if (shouldStartRecording)
       startRecognition();
@@ -299,10 +369,10 @@ export function Telephone(props: {
 
   // more derived state
   const personaName = persona?.title ?? 'Unknown';
-  const isMicEnabled = recognitionState.isAvailable;
+  const isMicEnabled = isDuplex || recognitionState.isAvailable;
   const isTTSEnabled = true;
   const isEnabled = isMicEnabled && isTTSEnabled;
-  const micErrorMessage = recognitionState.errorMessage;
+  const micErrorMessage = isDuplex ? listenerState.errorMessage : recognitionState.errorMessage;
 
 
   return <>
@@ -312,6 +382,7 @@ export function Telephone(props: {
     {/* -> Panel */}
     <OptimaPanelIn>
       <CallMenu
+        hasASRxEngine={hasASRxEngine}
         pushToTalk={pushToTalk} setPushToTalk={setPushToTalk}
       />
     </OptimaPanelIn>
@@ -338,7 +409,7 @@ export function Telephone(props: {
       callerName={isConnected ? undefined : personaName}
       statusText={isRinging ? '' /*'is calling you'*/ : isDeclined ? 'call declined' : isEnded ? 'call ended' : callElapsedTime}
       regardingText={chatTitle}
-      micError={!isMicEnabled} micErrorMessage={micErrorMessage} speakError={!isTTSEnabled}
+      micError={!isMicEnabled || (isDuplex && !!micErrorMessage)} micErrorMessage={micErrorMessage} speakError={!isTTSEnabled}
     />
 
     {/* Live Transcript, w/ streaming messages, audio indication, etc. */}
@@ -383,6 +454,16 @@ export function Telephone(props: {
               />
             )}
 
+            {/* Hands-free: Listening... / Transcribing... */}
+            {isDuplex && isConnected && (listenerState.hasSpeech || listenerState.transcribing > 0) && (
+              <CallMessage
+                text={<i>{listenerState.hasSpeech ? 'Listening...' : 'Transcribing...'}</i>}
+                variant={listenerState.hasSpeech ? 'soft' : 'outlined'}
+                color='primary'
+                role='user'
+              />
+            )}
+
             {/* Listening... */}
             {recognitionState.isActive && (
               <CallMessage
@@ -409,9 +490,16 @@ export function Telephone(props: {
       {isRinging && <CallButton Icon={CallEndIcon} text='Decline' color='danger' variant='solid' onClick={() => setStage('declined')} />}
       {isRinging && isEnabled && <CallButton Icon={CallIcon} text='Accept' color='success' variant='solid' onClick={() => setStage('connected')} />}
 
-      {/* [Calling] Hang / PTT (mute not enabled yet) */}
+      {/* [Calling] Hang / Mute (hands-free) or PTT */}
       {isConnected && <CallButton Icon={CallEndIcon} text='Hang up' color='danger' variant='soft' onClick={handleCallStop} />}
-      {isConnected && (pushToTalk ? (
+      {isConnected && (isDuplex ? (
+        <CallButton
+          Icon={micMuted ? MicOffIcon : MicIcon} onClick={toggleMicMuted}
+          text={micMuted ? 'Muted' : 'Mute'}
+          color={micMuted ? 'warning' : 'primary'} variant={micMuted ? 'solid' : 'outlined'}
+          sx={!micMuted ? { backgroundColor: 'background.surface' } : undefined}
+        />
+      ) : pushToTalk ? (
           <CallButton
             Icon={MicIcon} onClick={toggleRecognition}
             text={recognitionState.hasSpeech ? 'Listening...' : recognitionState.isActive ? 'Listening' : 'Push To Talk'}
@@ -420,9 +508,6 @@ export function Telephone(props: {
             sx={!recognitionState.isActive ? { backgroundColor: 'background.surface' } : undefined}
           />
         ) : null
-        // <CallButton disabled={true} Icon={MicOffIcon} onClick={() => setMicMuted(muted => !muted)}
-        //               text={micMuted ? 'Muted' : 'Mute'}
-        //               color={micMuted ? 'warning' : undefined} variant={micMuted ? 'solid' : 'outlined'} />
       )}
 
       {/* [ended] Back / Call Again */}
@@ -435,7 +520,7 @@ export function Telephone(props: {
     {avatarClickCount > 10 && (avatarClickCount % 2 === 0) && (
       <Card variant='outlined' sx={{ maxHeight: '25dvh', fontSize: 'sm', overflow: 'auto', whiteSpace: 'pre', py: 0, width: '100%' }}>
         Special commands: Stop, Retry, Try Again, Restart, Goodbye.<br />
-        {JSON.stringify({ ...recognitionState, speechInterim }, null, 2)}
+        {JSON.stringify({ ...recognitionState, speechInterim, isDuplex, listenerState }, null, 2)}
       </Card>
     )}
 
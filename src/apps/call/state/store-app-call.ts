@@ -15,6 +15,9 @@ interface AppCallStore {
   showSupport: boolean;
   toggleShowSupport: () => void;
 
+  realtimeVoice: boolean;
+  toggleRealtimeVoice: () => void;
+
 }
 
 export const useAppCallStore = create<AppCallStore>()(persist(
@@ -29,6 +32,9 @@ export const useAppCallStore = create<AppCallStore>()(persist(
     showSupport: true,
     toggleShowSupport: () => _set(state => ({ showSupport: !state.showSupport })),
 
+    realtimeVoice: true,
+    toggleRealtimeVoice: () => _set(state => ({ realtimeVoice: !state.realtimeVoice })),
+
   }), {
     name: 'app-app-call',
   },
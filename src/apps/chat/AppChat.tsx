@@ -25,7 +25,7 @@ import { ScrollToBottomButton } from '~/common/scroll-to-bottom/ScrollToBottomBu
 import { ShortcutKey, useGlobalShortcuts } from '~/common/components/shortcuts/useGlobalShortcuts';
 import { WorkspaceIdProvider } from '~/common/stores/workspace/WorkspaceIdProvider';
 import { addSnackbar, removeSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
-import { createDMessageFromFragments, createDMessagePlaceholderIncomplete, DMessageMetadata, duplicateDMessageMetadata } from '~/common/stores/chat/chat.message';
+import { createDMessageFromFragments, createDMessagePlaceholderIncomplete, DMessageId, DMessageMetadata, duplicateDMessageMetadata } from '~/common/stores/chat/chat.message';
 import { createErrorContentFragment, createTextContentFragment, DMessageAttachmentFragment, DMessageContentFragment, duplicateDMessageFragments } from '~/common/stores/chat/chat.fragments';
 import { gcChatImageAssets } from '~/common/stores/chat/chat.gc';
 import { getChatLLMId } from '~/common/stores/llms/store-llms';
@@ -295,10 +295,10 @@ export function AppChat() {
     const inputHistory = cHandler.historyViewHeadOrThrow('chat-regenerate-shortcut');
     if (!inputHistory.length) return;
 
-    // remove the last message if assistant's
+    // move the last message to a sibling branch, if assistant's
     const lastMessage = inputHistory[inputHistory.length - 1];
     if (lastMessage.role === 'assistant')
-      cHandler.historyTruncateTo(lastMessage.id, -1);
+      cHandler.historyBranchTo(lastMessage.id, -1);
 
     // generate: NOTE: this will replace the system message correctly
     await handleExecuteAndOutcome('generate-content', focusedPaneConversationId, 'chat-regenerate-last'); // truncate if assistant, then gen-text
@@ -369,6 +369,10 @@ export function AppChat() {
     setTradeConfig({ dir: 'export', conversationId, exportAll });
   }, []);
 
+  const handleConversationExportMessages = React.useCallback((conversationId: DConversationId, messageIds: DMessageId[]) => {
+    setTradeConfig({ dir: 'export', conversationId, exportAll: false, messageIds });
+  }, []);
+
   const handleConversationsImportFromFiles = React.useCallback(
     (files: File[] | null): Promise<void> =>
       importConversationsFromFilesAtRest(files, true)
@@ -719,6 +723,7 @@ export function AppChat() {
                   setIsMessageSelectionMode={setIsMessageSelectionMode}
                   onConversationBranch={handleConversationBranch}
                   onConversationExecuteHistory={handleConversationExecuteHistory}
+                  onConversationExportMessages={handleConversationExportMessages}
                   onConversationNew={handleConversationNewInFocusedPane}
                   onTextDiagram={handleTextDiagram}
                   onTextImagine={handleImagineFromText}
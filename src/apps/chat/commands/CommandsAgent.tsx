@@ -2,14 +2,15 @@ import PsychologyIcon from '@mui/icons-material/Psychology';
 
 import type { ICommandsProvider } from './ICommandsProvider';
 
-export const CommandsReact: ICommandsProvider = {
-  id: 'cmd-mode-react',
+export const CommandsAgent: ICommandsProvider = {
+  id: 'cmd-mode-agent',
   rank: 15,
 
   getCommands: () => [{
-    primary: '/react',
+    primary: '/agent',
+    alternatives: ['/react'],
     arguments: ['prompt'],
-    description: 'Use the AI ReAct strategy to answer your query',
+    description: 'Use a multi-step AI Agent, with tools, to answer your query',
     Icon: PsychologyIcon,
   }],
 
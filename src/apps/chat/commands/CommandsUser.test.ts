@@ -0,0 +1,43 @@
+/// <reference types="node" />
+
+// Tests for the user-defined chat commands: filling the prompt with the text typed after the command.
+//
+// Run:
+// - `npx tsx --test src/apps/chat/commands/CommandsUser.test.ts`
+
+import { describe, test } from 'node:test';
+import { strictEqual } from 'node:assert/strict';
+
+import type { DUserCommand } from './store-commands-user';
+import { userCommandFillPrompt } from './CommandsUser';
+
+
+function command(prompt: string): DUserCommand {
+  return { id: 'c1', name: 'cmd', description: '', prompt, executeMode: 'generate-content', created: 0, updated: 0 };
+}
+
+
+describe('userCommandFillPrompt', () => {
+
+  test('without variables, the text is appended', () => {
+    strictEqual(userCommandFillPrompt(command('Summarize:'), ' the text ', undefined), 'Summarize:\n\nthe text');
+    strictEqual(userCommandFillPrompt(command('Summarize.'), undefined, undefined), 'Summarize.');
+  });
+
+  test('each variable takes a word, the last one the rest', () => {
+    strictEqual(
+      userCommandFillPrompt(command('Translate to {{language}}:\n\n{{text}}'), 'French hello  there\nfriend', undefined),
+      'Translate to French:\n\nhello  there\nfriend',
+    );
+  });
+
+  test('missing arguments', () => {
+    strictEqual(userCommandFillPrompt(command('{{a}} {{b}}'), 'one', undefined), null);
+    strictEqual(userCommandFillPrompt(command('{{a}}'), '  ', undefined), null);
+  });
+
+  test('the text is inserted literally, and nothing is appended', () => {
+    strictEqual(userCommandFillPrompt(command('Explain {{regex}}'), `s/x/$&$'/`, undefined), `Explain s/x/$&$'/`);
+  });
+
+});
@@ -0,0 +1,56 @@
+import TerminalIcon from '@mui/icons-material/Terminal';
+
+import { promptTemplateFill, promptTemplateUserVariables } from '~/modules/prompts/prompts.template';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+
+import type { ICommandsProvider } from './ICommandsProvider';
+import { DUserCommand, useUserCommandsStore } from './store-commands-user';
+
+
+export const CommandsUser: ICommandsProvider = {
+  id: 'cmd-user',
+  rank: 90,
+
+  // read live, as the user edits the commands
+  getCommands: () => useUserCommandsStore.getState().commands
+    .filter(command => !!command.name)
+    .map(command => {
+      const variables = promptTemplateUserVariables(command.prompt);
+      return {
+        primary: `/${command.name}`,
+        arguments: variables.length ? variables.map(variable => variable.name) : undefined,
+        description: command.description || 'Custom command',
+        Icon: TerminalIcon,
+      };
+    }),
+
+};
+
+
+/**
+ * Fills the prompt of the command with the text typed after it: each variable takes a word,
+ * and the last one takes the rest of the text. A command without variables gets the text appended.
+ * @returns null if some of the arguments are missing
+ */
+export function userCommandFillPrompt(command: DUserCommand, userText: string | undefined, assistantLlmId: DLLMId | undefined): string | null {
+  const variables = promptTemplateUserVariables(command.prompt);
+  const text = userText?.trim() ?? '';
+
+  if (!variables.length) {
+    const prompt = promptTemplateFill(command.prompt, {}, assistantLlmId);
+    return text ? `${prompt}\n\n${text}` : prompt;
+  }
+
+  const values: Record<string, string> = {};
+  let rest = text;
+  for (const variable of variables.slice(0, -1)) {
+    const wordMatch = rest.match(/^(\S+)\s*/);
+    if (!wordMatch) return null;
+    values[variable.name] = wordMatch[1];
+    rest = rest.slice(wordMatch[0].length);
+  }
+  if (!rest) return null;
+  values[variables[variables.length - 1].name] = rest;
+  return promptTemplateFill(command.prompt, values, assistantLlmId);
+}
@@ -0,0 +1,248 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Button, Divider, FormControl, FormHelperText, FormLabel, Input, List, ListItem, ListItemButton, ListItemContent, Option, Select, Textarea, Typography } from '@mui/joy';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import { promptTemplateUserVariables } from '~/modules/prompts/prompts.template';
+import { usePersonas } from '~/modules/persona/store-personas';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { useLLMSelect } from '~/common/components/forms/useLLMSelect';
+
+import type { ChatExecuteMode } from '../execute-mode/execute-mode.types';
+import { ExecuteModeItems } from '../execute-mode/execute-mode.items';
+
+import { DUserCommand, DUserCommandData, DUserCommandId, userCommandsActions, useUserCommands } from './store-commands-user';
+import { findAllChatCommands } from './commands.registry';
+
+
+const COMMAND_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/i;
+
+const _styles = {
+  list: {
+    maxHeight: '12rem',
+    overflowY: 'auto',
+    '--ListItem-minHeight': '2.25rem',
+  },
+  row: {
+    display: 'grid',
+    gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+    gap: 2,
+  },
+  promptText: {
+    fontFamily: 'code',
+    fontSize: 'sm',
+  },
+} as const satisfies Record<string, SxProps>;
+
+
+/**
+ * Management of the user-defined chat commands, e.g. /translate.
+ */
+export function UserCommandsModal(props: {
+  onClose: () => void,
+}) {
+
+  // state
+  const [selectedId, setSelectedId] = React.useState<DUserCommandId | null>(null);
+
+  // external state
+  const commands = useUserCommands();
+
+  // derived state
+  const sortedCommands = React.useMemo(() => [...commands].sort((a, b) => a.name.localeCompare(b.name)), [commands]);
+  const command = commands.find(c => c.id === selectedId) ?? null;
+
+
+  // handlers
+
+  const handleCreateCommand = React.useCallback(() => {
+    setSelectedId(userCommandsActions().createCommand());
+  }, []);
+
+  const handleDeleteCommand = React.useCallback((commandId: DUserCommandId) => {
+    userCommandsActions().deleteCommand(commandId);
+    setSelectedId(null);
+  }, []);
+
+
+  return (
+    <GoodModal
+      open
+      title='Chat Commands'
+      dividers
+      autoOverflow
+      onClose={props.onClose}
+      startButton={
+        <Button variant='plain' startDecorator={<AddRoundedIcon />} onClick={handleCreateCommand}>
+          New Command
+        </Button>
+      }
+      sx={{ minWidth: { md: 720 } }}
+    >
+
+      <Typography level='body-sm'>
+        Your own /commands, typed at the start of a message. The {'{{variables}}'} of the prompt are the arguments of the command:
+        each takes a word, and the last one takes the rest of the message.
+      </Typography>
+
+      {!commands.length ? (
+        <Typography level='body-sm' sx={{ fontStyle: 'italic', textAlign: 'center', py: 2 }}>
+          No commands yet.
+        </Typography>
+      ) : (
+        <List size='sm' variant='outlined' sx={_styles.list}>
+          {sortedCommands.map(c => (
+            <ListItem key={c.id}>
+              <ListItemButton selected={c.id === selectedId} onClick={() => setSelectedId(c.id)}>
+                <ListItemContent>
+                  <Typography level='title-sm'>/{c.name}</Typography>
+                  {!!c.description && <Typography level='body-xs' noWrap>{c.description}</Typography>}
+                </ListItemContent>
+              </ListItemButton>
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {!!command && <>
+        <Divider />
+        <UserCommandEditor key={command.id} command={command} onDelete={handleDeleteCommand} />
+      </>}
+
+    </GoodModal>
+  );
+}
+
+
+function UserCommandEditor(props: {
+  command: DUserCommand,
+  onDelete: (commandId: DUserCommandId) => void,
+}) {
+
+  // state
+  const [deleteArmed, setDeleteArmed] = React.useState(false);
+
+  // external state
+  const personas = usePersonas();
+
+  // derived state
+  const { command, onDelete } = props;
+  const { id: commandId } = command;
+  const variables = React.useMemo(() => promptTemplateUserVariables(command.prompt), [command.prompt]);
+  const nameError = !COMMAND_NAME_REGEX.test(command.name) ? 'Letters, digits, - and _ only'
+    // the command itself is in the list; built-ins take precedence on the same name
+    : findAllChatCommands().filter(c => c.primary === `/${command.name}` || c.alternatives?.includes(`/${command.name}`)).length > 1 ? 'This command already exists'
+      : null;
+
+
+  // handlers
+
+  const update = React.useCallback((update: Partial<DUserCommandData>) => {
+    userCommandsActions().updateCommand(commandId, update);
+  }, [commandId]);
+
+  const handleLlmChange = React.useCallback((llmId: DLLMId) => update({ llmId }), [update]);
+
+  const [_llm, llmComponent] = useLLMSelect(command.llmId ?? null, handleLlmChange, {
+    label: '',
+    placeholder: 'Persona or chat model',
+  });
+
+
+  return <>
+
+    <Box sx={_styles.row}>
+      <FormControl error={!!nameError}>
+        <FormLabel>Command</FormLabel>
+        <Input
+          value={command.name}
+          onChange={event => update({ name: event.target.value.trim().replace(/^\//, '') })}
+          startDecorator='/'
+          placeholder='e.g. translate'
+        />
+        {!!nameError && <FormHelperText>{nameError}</FormHelperText>}
+      </FormControl>
+      <FormControl>
+        <FormLabel>Description</FormLabel>
+        <Input
+          value={command.description}
+          onChange={event => update({ description: event.target.value })}
+          placeholder='Optional: shown in the commands list'
+        />
+      </FormControl>
+    </Box>
+
+    <FormControl>
+      <FormLabel>Prompt</FormLabel>
+      <Textarea
+        minRows={4}
+        maxRows={16}
+        value={command.prompt}
+        onChange={event => update({ prompt: event.target.value })}
+        placeholder={'e.g. Translate to {{language}}:\n\n{{text}}'}
+        sx={_styles.promptText}
+      />
+      <FormHelperText>
+        Usage: /{command.name}{variables.map(variable => ` <${variable.name}>`).join('')}
+        {!variables.length && ' - the text after the command is appended to the prompt'}
+      </FormHelperText>
+    </FormControl>
+
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Persona</FormLabel>
+        <Select
+          value={command.personaId ?? '__chat'}
+          onChange={(_event, value) => update({ personaId: !value || value === '__chat' ? undefined : value })}
+        >
+          <Option value='__chat'>Persona of the chat</Option>
+          {personas.map(persona => <Option key={persona.id} value={persona.id}>{persona.symbol} {persona.title}</Option>)}
+        </Select>
+      </FormControl>
+      <FormControl>
+        <FormLabel>Mode</FormLabel>
+        <Select
+          value={command.executeMode}
+          onChange={(_event, value) => value && update({ executeMode: value as ChatExecuteMode })}
+        >
+          {Object.entries(ExecuteModeItems).map(([mode, item]) => (
+            <Option key={mode} value={mode}>{item.label} · {item.description}</Option>
+          ))}
+        </Select>
+      </FormControl>
+    </Box>
+
+    <FormControl>
+      <FormLabel>Model</FormLabel>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flex: 1 }}>{llmComponent}</Box>
+        {!!command.llmId && (
+          <Button variant='plain' color='neutral' onClick={() => update({ llmId: undefined })}>
+            Clear
+          </Button>
+        )}
+      </Box>
+    </FormControl>
+
+    {/* Delete */}
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {!deleteArmed ? (
+        <Button variant='plain' color='neutral' startDecorator={<DeleteOutlineIcon />} onClick={() => setDeleteArmed(true)}>
+          Delete Command
+        </Button>
+      ) : <>
+        <Button variant='plain' color='neutral' onClick={() => setDeleteArmed(false)}>
+          Cancel
+        </Button>
+        <Button variant='solid' color='danger' startDecorator={<DeleteOutlineIcon />} onClick={() => onDelete(commandId)}>
+          Confirm Deletion
+        </Button>
+      </>}
+    </Box>
+
+  </>;
+}
@@ -1,12 +1,13 @@
 import type { ChatCommand, ICommandsProvider } from './ICommandsProvider';
 
+import { CommandsAgent } from './CommandsAgent';
 import { CommandsAlter } from './CommandsAlter';
 import { CommandsDraw } from './CommandsDraw';
 import { CommandsHelp } from './CommandsHelp';
-import { CommandsReact } from './CommandsReact';
+import { CommandsUser } from './CommandsUser';
 
 
-export type CommandsProviderId = 'cmd-ass-t2i' | 'cmd-chat-alter' | 'cmd-help' | 'cmd-mode-react';
+export type CommandsProviderId = 'cmd-ass-t2i' | 'cmd-chat-alter' | 'cmd-help' | 'cmd-mode-agent' | 'cmd-user';
 
 type TextCommandPiece =
   | { type: 'nocmd'; value: string; }
@@ -17,7 +18,8 @@ const ChatCommandsProviders: Record<CommandsProviderId, ICommandsProvider> = {
   'cmd-ass-t2i': CommandsDraw,
   'cmd-chat-alter': CommandsAlter,
   'cmd-help': CommandsHelp,
-  'cmd-mode-react': CommandsReact,
+  'cmd-mode-agent': CommandsAgent,
+  'cmd-user': CommandsUser, // after the built-ins, which take precedence on the same name
 };
 
 export function findAllChatCommands(): ChatCommand[] {
@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { DPersonaId } from '~/modules/persona/store-personas';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { agiUuid } from '~/common/util/idUtils';
+
+import type { ChatExecuteMode } from '../execute-mode/execute-mode.types';
+
+
+/**
+ * User-defined chat command, e.g. /translate: the prompt is a template, whose
+ * {{variables}} are the arguments of the command.
+ */
+export interface DUserCommand {
+  id: DUserCommandId;
+  name: string;                       // without the slash, e.g. 'translate'
+  description: string;
+  prompt: string;
+  llmId?: DLLMId;                     // undefined: the chat model
+  personaId?: DPersonaId;             // undefined: the persona of the chat
+  executeMode: ChatExecuteMode;
+  created: number;
+  updated: number;
+}
+
+export type DUserCommandId = string;
+
+export type DUserCommandData = Pick<DUserCommand, 'name' | 'description' | 'prompt' | 'llmId' | 'personaId' | 'executeMode'>;
+
+
+interface UserCommandsState {
+  commands: DUserCommand[];
+}
+
+interface UserCommandsActions {
+  createCommand: () => DUserCommandId;
+  deleteCommand: (commandId: DUserCommandId) => void;
+  updateCommand: (commandId: DUserCommandId, update: Partial<DUserCommandData>) => void;
+}
+
+type UserCommandsStore = UserCommandsState & UserCommandsActions;
+
+export const useUserCommandsStore = create<UserCommandsStore>()(
+  persist(
+    (set, get) => ({
+
+      // Initial state
+      commands: [],
+
+      // Actions
+      createCommand: () => {
+        // first free name: command, command2, ...
+        const names = get().commands.map(command => command.name);
+        let name = 'command';
+        for (let i = 2; names.includes(name); i++)
+          name = `command${i}`;
+
+        const newCommand: DUserCommand = {
+          id: agiUuid('chat-command'),
+          name,
+          description: '',
+          prompt: '',
+          executeMode: 'generate-content',
+          created: Date.now(),
+          updated: Date.now(),
+        };
+        set(state => ({
+          commands: [...state.commands, newCommand],
+        }));
+        return newCommand.id;
+      },
+
+      deleteCommand: (commandId: DUserCommandId) =>
+        set(state => ({
+          commands: state.commands.filter(command => command.id !== commandId),
+        })),
+
+      updateCommand: (commandId: DUserCommandId, update) =>
+        set(state => ({
+          commands: state.commands.map(command => command.id !== commandId ? command : { ...command, ...update, updated: Date.now() }),
+        })),
+
+    }),
+    {
+      name: 'app-chat-commands',
+    },
+  ),
+);
+
+
+export function useUserCommands(): DUserCommand[] {
+  return useUserCommandsStore(useShallow(state => state.commands));
+}
+
+export function findUserCommand(primary: string): DUserCommand | undefined {
+  return useUserCommandsStore.getState().commands.find(command => `/${command.name}` === primary);
+}
+
+export function userCommandsActions(): UserCommandsActions {
+  return useUserCommandsStore.getState();
+}
@@ -4,15 +4,16 @@ import { useShallow } from 'zustand/react/shallow';
 import type { SxProps } from '@mui/joy/styles/types';
 import { Box, List } from '@mui/joy';
 
-import type { SystemPurposeExample } from '../../../data';
-
 import type { AixReattachMode } from '~/modules/aix/client/aix.client';
 import type { DiagramConfig } from '~/modules/aifn/digrams/DiagramsModal';
+import type { DPersonaExample } from '~/modules/persona/store-personas';
+import { personaVoiceSelector } from '~/modules/persona/store-personas';
 import { speakText } from '~/modules/speex/speex.client';
 
 import type { ConversationHandler } from '~/common/chat-overlay/ConversationHandler';
 import type { DLLMContextTokens } from '~/common/stores/llms/llms.types';
 import { DConversationId, excludeSystemMessages } from '~/common/stores/chat/chat.conversation';
+import { branchesPositions } from '~/common/stores/chat/chat.branches';
 import { ShortcutKey, useGlobalShortcuts } from '~/common/components/shortcuts/useGlobalShortcuts';
 import { clipboardInterceptCtrlCForCleanup } from '~/common/util/clipboardUtils';
 import { convertFilesToDAttachmentFragments } from '~/common/attachment-drafts/attachment.pipeline';
@@ -21,7 +22,7 @@ import { createTextContentFragment, DMessageFragment, DMessageFragmentId } from
 import { openFileForAttaching } from '~/common/components/ButtonAttachFiles';
 import { optimaOpenPreferences } from '~/common/layout/optima/useOptima';
 import { useChatOverlayStore } from '~/common/chat-overlay/store-perchat_vanilla';
-import { useChatStore } from '~/common/stores/chat/store-chats';
+import { getConversationSystemPurposeId, useChatStore } from '~/common/stores/chat/store-chats';
 import { useScrollToBottom } from '~/common/scroll-to-bottom/useScrollToBottom';
 
 import { CMLZeroConversation } from './messages-list/CMLZeroConversation';
@@ -49,6 +50,7 @@ export function ChatMessageList(props: {
   isMessageSelectionMode: boolean,
   onConversationBranch: (conversationId: DConversationId, messageId: string, addSplitPane: boolean) => void,
   onConversationExecuteHistory: (conversationId: DConversationId) => Promise<void>,
+  onConversationExportMessages: (conversationId: DConversationId, messageIds: DMessageId[]) => void,
   onConversationNew: (forceNoRecycle: boolean, isIncognito: boolean) => void,
   onTextDiagram: (diagramConfig: DiagramConfig | null) => void,
   onTextImagine: (conversationId: DConversationId, selectedText: string) => Promise<void>,
@@ -62,29 +64,32 @@ export function ChatMessageList(props: {
   const [selectedMessages, setSelectedMessages] = React.useState<Set<string>>(new Set());
 
   // external state
-  const { notifyBooting } = useScrollToBottom();
+  const { booting, notifyBooting, setStickToBottom } = useScrollToBottom();
   const danger_experimentalHtmlWebUi = useChatAutoSuggestHTMLUI();
   const [showSystemMessages] = useChatShowSystemMessages();
-  const { conversationMessages, historyTokenCount } = useChatStore(useShallow(({ conversations }) => {
+  const { conversationMessages, conversationBranches, historyTokenCount } = useChatStore(useShallow(({ conversations }) => {
     const conversation = conversations.find(conversation => conversation.id === props.conversationId);
     return {
       conversationMessages: conversation ? conversation.messages : stableNoMessages,
+      conversationBranches: conversation?.branches,
       historyTokenCount: conversation ? conversation.tokenCount : 0,
     };
   }));
-  const { _composerInReferenceToCount, ephemerals } = useChatOverlayStore(props.conversationHandler?.conversationOverlayStore ?? null, useShallow(state => ({
+  const { _composerInReferenceToCount, ephemerals, jumpToMessageId } = useChatOverlayStore(props.conversationHandler?.conversationOverlayStore ?? null, useShallow(state => ({
     _composerInReferenceToCount: state.inReferenceTo?.length ?? 0,
     ephemerals: state.ephemerals?.length ? state.ephemerals : null,
+    jumpToMessageId: state.jumpToMessageId,
   })));
 
   // derived state
   const { conversationHandler, conversationId, capabilityHasT2I, onConversationBranch, onConversationExecuteHistory, onTextDiagram, onTextImagine } = props;
   const composerCanAddInReferenceTo = _composerInReferenceToCount < 5;
   const composerHasInReferenceto = _composerInReferenceToCount > 0;
+  const branchPositions = React.useMemo(() => branchesPositions(conversationMessages, conversationBranches), [conversationBranches, conversationMessages]);
 
   // text actions
 
-  const handleRunExample = React.useCallback(async (example: SystemPurposeExample) => {
+  const handleRunExample = React.useCallback(async (example: DPersonaExample) => {
     if (!conversationId || !conversationHandler) return;
 
     // Simple Example Prompt (User text message)
@@ -214,7 +219,8 @@ export function ChatMessageList(props: {
 
   const handleMessageAssistantFrom = React.useCallback(async (messageId: DMessageId, offset: number) => {
     if (conversationId && conversationHandler) {
-      conversationHandler.historyTruncateTo(messageId, offset);
+      // keep what follows as a sibling branch of the new reply
+      conversationHandler.historyBranchTo(messageId, offset);
       await onConversationExecuteHistory(conversationId);
     }
   }, [conversationHandler, conversationId, onConversationExecuteHistory]);
@@ -250,6 +256,17 @@ export function ChatMessageList(props: {
     conversationId && onConversationBranch(conversationId, messageId, true);
   }, [conversationId, onConversationBranch]);
 
+  const handleMessageBranchSwitch = React.useCallback((messageId: DMessageId, direction: -1 | 1) => {
+    conversationHandler?.messageSwitchBranch(messageId, direction);
+  }, [conversationHandler]);
+
+  const handleMessageEditInNewBranch = React.useCallback(async (messageId: DMessageId, fragments: DMessageFragment[], andGenerate: boolean) => {
+    if (!conversationId || !conversationHandler) return;
+    conversationHandler.messageEditInNewBranch(messageId, fragments);
+    if (andGenerate)
+      await onConversationExecuteHistory(conversationId);
+  }, [conversationHandler, conversationId, onConversationExecuteHistory]);
+
   const handleMessageTruncate = React.useCallback((messageId: DMessageId) => {
     conversationHandler?.historyTruncateTo(messageId, 0);
   }, [conversationHandler]);
@@ -299,13 +316,13 @@ export function ChatMessageList(props: {
   const handleTextSpeak = React.useCallback(async (text: string) => {
     // sandwich the speaking with the indicator
     setIsSpeaking(true);
-    const result = await speakText(text, undefined, { label: 'Chat speak' });
+    const result = await speakText(text, personaVoiceSelector(getConversationSystemPurposeId(conversationId)), { label: 'Chat speak' });
     setIsSpeaking(false);
 
     // open voice preferences
     if (!result.success && (result.errorType === 'tts-no-engine' || result.errorType === 'tts-unconfigured'))
       optimaOpenPreferences('voice');
-  }, []);
+  }, [conversationId]);
 
 
   // operate on the local selection set
@@ -339,6 +356,12 @@ export function ChatMessageList(props: {
     setSelectedMessages(new Set());
   }, [conversationHandler, selectedMessages]);
 
+  const { onConversationExportMessages } = props;
+  const handleSelectionExport = React.useCallback(() => {
+    // in conversation order, regardless of the order of selection
+    conversationId && onConversationExportMessages(conversationId, conversationMessages.filter(m => selectedMessages.has(m.id)).map(m => m.id));
+  }, [conversationId, conversationMessages, onConversationExportMessages, selectedMessages]);
+
   const handleSelectionToggleVisibility = React.useCallback(() => {
     for (let selectedMessage of Array.from(selectedMessages))
       conversationHandler?.messageSetUserFlag(selectedMessage, MESSAGE_FLAG_AIX_SKIP, !areAllSelectedMessagesHidden, true);
@@ -368,11 +391,41 @@ export function ChatMessageList(props: {
 
 
   // scroll to the very bottom of a new chat
+  const waitingBootRef = React.useRef(false);
   React.useEffect(() => {
-    if (conversationId)
+    if (conversationId) {
+      waitingBootRef.current = true;
       notifyBooting();
+    }
   }, [conversationId, notifyBooting]);
 
+  React.useEffect(() => {
+    if (booting)
+      waitingBootRef.current = false;
+  }, [booting, conversationId]);
+
+
+  // jump to a message (e.g. from search), once the booting scroll to the bottom is done
+  const listRef = React.useRef<HTMLUListElement>(null);
+  React.useEffect(() => {
+    if (!jumpToMessageId || !conversationHandler || booting || waitingBootRef.current) return;
+
+    // not in the active path (anymore)
+    if (!conversationMessages.some(message => message.id === jumpToMessageId)) {
+      conversationHandler.overlayActions.setJumpToMessageId(null);
+      return;
+    }
+
+    // not rendered yet (e.g. hidden system message)
+    const messageElement = listRef.current?.querySelector<HTMLElement>(`[data-message-id="${CSS.escape(jumpToMessageId)}"]`);
+    if (!messageElement) return;
+
+    conversationHandler.overlayActions.setJumpToMessageId(null);
+    setStickToBottom(false);
+    messageElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    messageElement.focus({ preventScroll: true });
+  }, [booting, conversationHandler, conversationMessages, jumpToMessageId, setStickToBottom]);
+
 
   // style memo
   const listSx: SxProps = React.useMemo(() => ({
@@ -410,7 +463,7 @@ export function ChatMessageList(props: {
     );
 
   return (
-    <List role='chat-messages-list' sx={listSx} onCopy={clipboardInterceptCtrlCForCleanup}>
+    <List ref={listRef} role='chat-messages-list' sx={listSx} onCopy={clipboardInterceptCtrlCForCleanup}>
 
       {props.isMessageSelectionMode && (
         <MessagesSelectionHeader
@@ -419,6 +472,7 @@ export function ChatMessageList(props: {
           onClose={() => props.setIsMessageSelectionMode(false)}
           onSelectAll={handleSelectAll}
           onDeleteMessages={handleSelectionDelete}
+          onExportMessages={handleSelectionExport}
           onToggleVisibility={handleSelectionToggleVisibility}
           areAllMessagesHidden={areAllSelectedMessagesHidden}
         />
@@ -456,16 +510,20 @@ export function ChatMessageList(props: {
               isSpeaking={isSpeaking}
               showAntPromptCaching={props.chatLLMAntPromptCaching}
               showUnsafeHtmlCode={danger_experimentalHtmlWebUi}
+              branchIndex={branchPositions.get(message.id)?.index}
+              branchCount={branchPositions.get(message.id)?.count}
               onAddInReferenceTo={!composerCanAddInReferenceTo ? undefined : handleAddInReferenceTo}
               onMessageAssistantFrom={handleMessageAssistantFrom}
               onMessageBeam={handleMessageBeam}
               onMessageBranch={handleMessageBranch}
+              onMessageBranchSwitch={handleMessageBranchSwitch}
               onMessageContinue={handleMessageContinue}
               onMessageUpstreamResume={handleMessageUpstreamResume}
               onMessageUpstreamDetach={handleMessageUpstreamDetach}
               onMessageUpstreamDelete={handleMessageUpstreamDelete}
               upstreamResumeMode={resumeInFlight[message.id]}
               onMessageDelete={handleMessageDelete}
+              onMessageEditInNewBranch={handleMessageEditInNewBranch}
               onMessageFragmentAppend={handleMessageAppendFragment}
               onMessageFragmentDelete={handleMessageDeleteFragment}
               onMessageFragmentReplace={handleMessageReplaceFragment}
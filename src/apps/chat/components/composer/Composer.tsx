@@ -13,7 +13,12 @@ import type { AppChatIntent } from '../../AppChat';
 import { useChatAutoSuggestAttachmentPrompts, useChatMicTimeoutMsValue } from '../../store-app-chat';
 
 import { useAgiAttachmentPrompts } from '~/modules/aifn/agiattachmentprompts/useAgiAttachmentPrompts';
+import { useASRxRealtimeEngine } from '~/modules/asrx/store-module-asrx';
 import { useBrowseCapability } from '~/modules/browse/store-module-browsing';
+import { PromptLibraryModal } from '~/modules/prompts/PromptLibraryModal';
+import { PromptTemplateFillModal } from '~/modules/prompts/PromptTemplateFillModal';
+import { promptTemplateFill, promptTemplateUserVariables } from '~/modules/prompts/prompts.template';
+import { usePromptTemplatesStore } from '~/modules/prompts/store-prompts';
 
 import { DLLM, getLLMContextTokens, LLM_IF_OAI_Vision } from '~/common/stores/llms/llms.types';
 import { llmChatPricing_adjusted } from '~/common/stores/llms/llms.pricing';
@@ -40,7 +45,7 @@ import { lineHeightTextareaMd, themeBgAppChatComposer } from '~/common/app.theme
 import { optimaOpenPreferences } from '~/common/layout/optima/useOptima';
 import { supportsCameraCapture } from '~/common/components/camera/useCameraCapture';
 import { supportsScreenCapture } from '~/common/util/screenCaptureUtils';
-import { useAttachHandler_CameraOpen, useAttachHandler_Files, useAttachHandler_PasteIntercept, useAttachHandler_ScreenCapture, useAttachHandler_UrlWebLinks } from '~/common/attachment-drafts/attachment-sources/useAttachmentSourceHandlers';
+import { useAttachHandler_CameraOpen, useAttachHandler_Files, useAttachHandler_McpResources, useAttachHandler_PasteIntercept, useAttachHandler_ScreenCapture, useAttachHandler_UrlWebLinks } from '~/common/attachment-drafts/attachment-sources/useAttachmentSourceHandlers';
 import { useChatComposerOverlayStore } from '~/common/chat-overlay/store-perchat_vanilla';
 import { useComposerStartupText, useLogicSherpaStore } from '~/common/logic/store-logic-sherpa';
 import { useOverlayComponents } from '~/common/layout/overlays/useOverlayComponents';
@@ -50,6 +55,7 @@ import { useUXLabsStore } from '~/common/stores/store-ux-labs';
 import type { ActileItem } from './actile/ActileProvider';
 import { providerAttachmentLabels } from './actile/providerAttachmentLabels';
 import { providerCommands } from './actile/providerCommands';
+import { PromptTemplateItem, providerPromptTemplates } from './actile/providerPromptTemplates';
 import { providerStarredMessages, StarredMessageItem } from './actile/providerStarredMessage';
 import { useActileManager } from './actile/useActileManager';
 
@@ -379,7 +385,9 @@ export function Composer(props: {
     }
   }, [chatExecuteMode, composeText, composerTextAreaRef, handleSendAction, micContinuation, noConversation, setComposeText]);
 
-  const { recognitionState, toggleRecognition } = useSpeechRecognition('webSpeechApi', onSpeechResultCallback, chatMicTimeoutMs || 2000);
+  // streaming ASRx engines show the words while speaking, and work in browsers without the Web Speech API
+  const hasASRxRealtime = !!useASRxRealtimeEngine();
+  const { recognitionState, toggleRecognition } = useSpeechRecognition(hasASRxRealtime ? 'asrxRealtime' : 'webSpeechApi', onSpeechResultCallback, chatMicTimeoutMs || 2000);
 
   const micContinuationTrigger = micContinuation && !micIsRunning && !assistantAbortible && !recognitionState.errorMessage;
   const micColor: ColorPaletteProp = recognitionState.errorMessage ? 'danger' : recognitionState.isActive ? 'primary' : recognitionState.hasAudio ? 'primary' : 'neutral';
@@ -516,11 +524,49 @@ export function Composer(props: {
   }, [attachAppendEgoFragments]);
 
 
+  const chatLLMId = props.chatLLM?.id;
+  const onActilePromptTemplate = React.useCallback(async ({ templateId }: PromptTemplateItem) => {
+    // remove the '#' trigger, and remember where to insert the prompt
+    const textArea = composerTextAreaRef.current;
+    if (!textArea) return;
+    const cursorPos = textArea.selectionStart;
+    const triggerStart = textArea.value.lastIndexOf('#', cursorPos);
+    if (triggerStart >= 0)
+      setComposeText(prevText => prevText.substring(0, triggerStart) + prevText.substring(cursorPos));
+    const insertPos = triggerStart >= 0 ? triggerStart : cursorPos;
+
+    // library
+    const template = !templateId ? null : usePromptTemplatesStore.getState().templates.find(t => t.id === templateId);
+    if (!template) {
+      await showPromisedOverlay('composer-prompt-library', { rejectWithValue: false }, ({ onResolve }) => (
+        <PromptLibraryModal onClose={() => onResolve(true)} />
+      ));
+      return;
+    }
+
+    // template: fill in the variables, if any
+    const filledText = !promptTemplateUserVariables(template.text).length
+      ? promptTemplateFill(template.text, {}, chatLLMId)
+      : await showPromisedOverlay<string | null>('composer-prompt-fill', { rejectWithValue: null }, ({ onResolve, onUserReject }) => (
+        <PromptTemplateFillModal template={template} assistantLlmId={chatLLMId} onFilled={onResolve} onClose={onUserReject} />
+      ));
+    if (filledText === null) return;
+
+    setComposeText(prevText => prevText.substring(0, insertPos) + filledText + prevText.substring(insertPos));
+    const newCursorPos = insertPos + filledText.length;
+    setTimeout(() => {
+      composerTextAreaRef.current?.focus();
+      composerTextAreaRef.current?.setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  }, [chatLLMId, composerTextAreaRef, setComposeText, showPromisedOverlay]);
+
+
   const actileProviders = React.useMemo(() => [
     providerAttachmentLabels(conversationOverlayStore, onActileCommandPaste),
     providerCommands(onActileCommandPaste),
+    providerPromptTemplates(onActilePromptTemplate),
     providerStarredMessages(onActileEmbedMessage),
-  ], [conversationOverlayStore, onActileCommandPaste, onActileEmbedMessage]);
+  ], [conversationOverlayStore, onActileCommandPaste, onActileEmbedMessage, onActilePromptTemplate]);
 
   const { actileComponent, actileInterceptKeydown, actileInterceptTextChange } = useActileManager(actileProviders, composerTextAreaRef);
 
@@ -591,6 +637,7 @@ export function Composer(props: {
   const handleOpenCamera = useAttachHandler_CameraOpen(attachAppendFile);
   const handleAttachScreenCapture = useAttachHandler_ScreenCapture(attachAppendFile);
   const { openWebInputDialog, webInputDialogComponent } = useAttachHandler_UrlWebLinks(attachAppendUrl, composeText);
+  const { openMcpResourcesDialog, mcpResourcesDialogComponent } = useAttachHandler_McpResources(attachAppendFile);
   const { openGoogleDrivePicker, googleDrivePickerComponent } = useGoogleDrivePicker(attachAppendCloudFile, isMobile);
 
 
@@ -636,7 +683,7 @@ export function Composer(props: {
           toggleRecognition(false);
         }, description: 'Mic · Stop', level: 4,
       });
-    } else if (browserSpeechRecognitionCapability().mayWork)
+    } else if (hasASRxRealtime || browserSpeechRecognitionCapability().mayWork)
       composerShortcuts.push({
         key: 'm', ctrl: true, action: () => {
           // steal focus from the textarea, in case it has - so that enter cannot work against us
@@ -645,7 +692,7 @@ export function Composer(props: {
         }, description: 'Microphone',
       });
     return composerShortcuts;
-  }, [attachAppendClipboardItems, handleAttachFiles, handleFinishMicAndSend, openWebInputDialog, recognitionState.hasSpeech, recognitionState.isActive, sendStarted, showChatAttachments, toggleRecognition]));
+  }, [attachAppendClipboardItems, handleAttachFiles, handleFinishMicAndSend, hasASRxRealtime, openWebInputDialog, recognitionState.hasSpeech, recognitionState.isActive, sendStarted, showChatAttachments, toggleRecognition]));
 
 
   // ...
@@ -653,7 +700,7 @@ export function Composer(props: {
   const isText = chatExecuteMode === 'generate-content';
   const isTextBeam = chatExecuteMode === 'beam-content';
   const isAppend = chatExecuteMode === 'append-user';
-  const isReAct = chatExecuteMode === 'react-content';
+  const isAgent = chatExecuteMode === 'agent-content';
   const isDraw = chatExecuteMode === 'generate-image';
 
   const showChatInReferenceTo = !!inReferenceTo?.length;
@@ -672,7 +719,7 @@ export function Composer(props: {
   const sendButtonIcon =
     micContinuation ? null
       : isAppend ? <SendIcon sx={{ fontSize: 18 }} />
-        : isReAct ? <PsychologyIcon />
+        : isAgent ? <PsychologyIcon />
           : isTextBeam ? <ChatBeamIcon /> /* <GavelIcon /> */
             : isDraw ? <PhPaintBrush />
               : <TelegramIcon />;
@@ -681,18 +728,18 @@ export function Composer(props: {
     !attEnrichSummary.allCompatible ? 'warning'
       : undefined;
 
-  const showTint: ColorPaletteProp | undefined = isDraw ? 'warning' : isReAct ? 'success' : undefined;
+  const showTint: ColorPaletteProp | undefined = isDraw ? 'warning' : isAgent ? 'success' : undefined;
 
-  // stable randomization of the /verb, between '/draw', '/react'
+  // stable randomization of the /verb, between '/draw', '/agent'
   const placeholderAction = React.useMemo(() => {
-    const actions: string[] = ['/react'];
+    const actions: string[] = ['/agent'];
     if (props.capabilityHasT2I) actions.push('/draw');
     return actions[Math.floor(Math.random() * actions.length)];
   }, [props.capabilityHasT2I]);
 
   let textPlaceholder: string =
     isDraw ? 'Describe what you would like to see...'
-      : isReAct ? 'Ask a multi-step reasoning question...'
+      : isAgent ? 'Ask a multi-step reasoning question...'
         : isTextBeam ? 'Combine insights from multiple AI models...'
           : showChatInReferenceTo ? 'Chat about this...'
             : 'Type'
@@ -762,6 +809,7 @@ export function Composer(props: {
                     onOpenCamera={handleOpenCamera}
                     onOpenGoogleDrivePicker={openGoogleDrivePicker}
                     onOpenWebInput={openWebInputDialog}
+                    onOpenMcpResources={openMcpResourcesDialog}
                   />
                 )}
 
@@ -790,6 +838,7 @@ export function Composer(props: {
                   onOpenCamera={handleOpenCamera}
                   onOpenGoogleDrivePicker={openGoogleDrivePicker}
                   onOpenWebInput={openWebInputDialog}
+                  onOpenMcpResources={openMcpResourcesDialog}
                 />
 
               </Box>
@@ -814,7 +863,7 @@ export function Composer(props: {
 
                   <Textarea
                     variant='outlined'
-                    color={isDraw ? 'warning' : isReAct ? 'success' : undefined}
+                    color={isDraw ? 'warning' : isAgent ? 'success' : undefined}
                     autoFocus={isDesktop}
                     minRows={isMobile ? 3.5 : isDraw ? 4 : agiAttachmentPrompts.hasData ? 3 : showChatInReferenceTo ? 4 : 5}
                     maxRows={isMobile ? 8 : 10}
@@ -919,6 +968,7 @@ export function Composer(props: {
                         whiteSpaceCollapse: 'preserve',
                       },
                       '& > .interim': {
+                        color: 'text.tertiary',
                         textDecoration: 'underline',
                         textDecorationThickness: '0.25em',
                         textDecorationColor: 'rgba(var(--joy-palette-primary-mainChannel) / 0.1)',
@@ -1082,6 +1132,7 @@ export function Composer(props: {
 
       {/* Web Input Dialog (when open) */}
       {webInputDialogComponent}
+      {mcpResourcesDialogComponent}
 
       {/* Actile (when open) */}
       {actileComponent}
@@ -0,0 +1,53 @@
+import { usePromptTemplatesStore } from '~/modules/prompts/store-prompts';
+
+import type { ActileItem, ActileProvider, ActileProviderItems } from './ActileProvider';
+
+
+export interface PromptTemplateItem extends ActileItem {
+  templateId: string | null; // null: open the library
+}
+
+export const providerPromptTemplates = (onTemplateSelect: (item: PromptTemplateItem) => void): ActileProvider<PromptTemplateItem> => ({
+
+  key: 'pprompt',
+
+  get label() {
+    return 'Prompt Library';
+  },
+
+  // only the literal '#' at the start of a line, or ' #' - and only if there are prompts, not to interfere with markdown titles
+  fastCheckTriggerText: (trailingText: string) =>
+    (trailingText === '#' || trailingText.endsWith(' #') || trailingText.endsWith('\n#'))
+    && usePromptTemplatesStore.getState().templates.length > 0,
+
+  fetchItems: async (): ActileProviderItems<PromptTemplateItem> => {
+    const { templates } = usePromptTemplatesStore.getState();
+    const items: PromptTemplateItem[] = [...templates]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(template => ({
+        key: template.id,
+        providerKey: 'pprompt',
+        // data
+        templateId: template.id,
+        // looks
+        label: '#' + template.name,
+        description: [template.folder, template.description].filter(Boolean).join(' · ') || undefined,
+        Icon: undefined,
+      } satisfies PromptTemplateItem));
+    items.push({
+      key: '__library',
+      providerKey: 'pprompt',
+      templateId: null,
+      label: '#…',
+      description: 'Edit the prompts',
+      Icon: undefined,
+    });
+    return {
+      searchPrefix: '#',
+      items,
+    };
+  },
+
+  onItemSelect: item => onTemplateSelect(item as PromptTemplateItem),
+
+});
@@ -15,11 +15,12 @@ import { KeyStroke } from '~/common/components/KeyStroke';
 import { OptimaBarControlMethods, OptimaBarDropdownMemo, OptimaDropdownItems } from '~/common/layout/optima/bar/OptimaBarDropdown';
 import { findModelsServiceOrNull } from '~/common/stores/llms/store-llms';
 import { isDeepEqual } from '~/common/util/hooks/useDeep';
-import { sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
+import { sortLLMsByMetrics, sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
 import { optimaActions, optimaOpenModels } from '~/common/layout/optima/useOptima';
 import { useAllLLMs } from '~/common/stores/llms/hooks/useAllLLMs';
 import { setPrimaryChatModelId, useModelDomain } from '~/common/stores/llms/hooks/useModelDomain';
-import { useUIComplexityMode } from '~/common/stores/store-ui';
+import { useLlmMetricsForSorting } from '~/common/stores/metrics/store-metrics';
+import { useUIComplexityMode, useUIPreferencesStore } from '~/common/stores/store-ui';
 
 
 function LLMDropdown(props: {
@@ -36,6 +37,8 @@ function LLMDropdown(props: {
   // external state
   const uiComplexityMode = useUIComplexityMode();
   const showSymbols = uiComplexityMode !== 'minimal';
+  const modelsSortBy = useUIPreferencesStore(state => state.modelsSortBy);
+  const llmMetrics = useLlmMetricsForSorting(modelsSortBy);
 
   // derived state
   const { chatLlmId, llms, setChatLlmId } = props;
@@ -74,7 +77,7 @@ function LLMDropdown(props: {
     });
 
     // sort by service label so vendor groups appear alphabetically (groups remain contiguous because sort is stable on equal keys)
-    const sortedLLMs = sortLLMsByServiceLabel(filteredLLMs);
+    const sortedLLMs = sortLLMsByServiceLabel(sortLLMsByMetrics(filteredLLMs, modelsSortBy, llmMetrics));
 
     for (const llm of sortedLLMs) {
       // add separators when changing services
@@ -115,7 +118,7 @@ function LLMDropdown(props: {
 
     // otherwise update the cache and return the new items
     return stabilizeLlmOptions.current = llmItems;
-  }, [chatLlmId, llms, filterString]);
+  }, [chatLlmId, filterString, llmMetrics, llms, modelsSortBy]);
 
 
   // "Model Options" button (only on the active item)
@@ -1,10 +1,10 @@
 import * as React from 'react';
 import { useShallow } from 'zustand/react/shallow';
 
-import { SystemPurposeId, SystemPurposes } from '../../../../data';
+import { DPersonaId, personaApplyDefaultChatModel, usePersonas } from '~/modules/persona/store-personas';
 
 import { DConversationId } from '~/common/stores/chat/chat.conversation';
-import { OptimaBarControlMethods, OptimaBarDropdownMemo } from '~/common/layout/optima/bar/OptimaBarDropdown';
+import { OptimaBarControlMethods, OptimaBarDropdownMemo, OptimaDropdownItems } from '~/common/layout/optima/bar/OptimaBarDropdown';
 import { useChatStore } from '~/common/stores/chat/store-chats';
 import { useUIComplexityIsMinimal } from '~/common/stores/store-ui';
 
@@ -13,30 +13,31 @@ import { usePurposeStore } from '../persona-selector/store-purposes';
 
 function PersonaDropdown(props: {
   dropdownRef: React.Ref<OptimaBarControlMethods>,
-  systemPurposeId: SystemPurposeId | null,
-  setSystemPurposeId: (systemPurposeId: SystemPurposeId | null) => void,
+  systemPurposeId: DPersonaId | null,
+  setSystemPurposeId: (systemPurposeId: DPersonaId | null) => void,
 }) {
 
   // external state
+  const personas = usePersonas();
   const hiddenPurposeIDs = usePurposeStore(state => state.hiddenPurposeIDs);
   const zenMode = useUIComplexityIsMinimal();
 
 
-  // filter by key in the object - must be missing the system purpose ids hidden by the user, or be the currently active one
+  // filter the personas - must be missing the ids hidden by the user, or be the currently active one
   const visibleSystemPurposes = React.useMemo(() => {
-    return Object.keys(SystemPurposes)
-      .filter(key => !hiddenPurposeIDs.includes(key as SystemPurposeId) || key === props.systemPurposeId)
-      .reduce((obj, key) => {
-        obj[key as SystemPurposeId] = SystemPurposes[key as SystemPurposeId];
+    return personas
+      .filter(persona => !hiddenPurposeIDs.includes(persona.id) || persona.id === props.systemPurposeId)
+      .reduce((obj, persona) => {
+        obj[persona.id] = { title: persona.title, symbol: persona.symbol };
         return obj;
-      }, {} as typeof SystemPurposes);
-  }, [hiddenPurposeIDs, props.systemPurposeId]);
+      }, {} as OptimaDropdownItems);
+  }, [hiddenPurposeIDs, personas, props.systemPurposeId]);
 
 
   const { setSystemPurposeId } = props;
 
   const handleSystemPurposeChange = React.useCallback((value: string | null) => {
-    setSystemPurposeId(value as (SystemPurposeId | null));
+    setSystemPurposeId(value);
   }, [setSystemPurposeId]);
 
 
@@ -63,9 +64,11 @@ export function usePersonaIdDropdown(conversationId: DConversationId | null, dro
   }));
 
 
-  const handleSetSystemPurposeId = React.useCallback((systemPurposeId: SystemPurposeId | null) => {
-    if (conversationId && systemPurposeId)
+  const handleSetSystemPurposeId = React.useCallback((systemPurposeId: DPersonaId | null) => {
+    if (conversationId && systemPurposeId) {
       useChatStore.getState().setSystemPurposeId(conversationId, systemPurposeId);
+      personaApplyDefaultChatModel(systemPurposeId);
+    }
   }, [conversationId]);
 
   const personaDropdown = React.useMemo(() => {
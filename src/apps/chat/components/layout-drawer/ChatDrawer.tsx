@@ -15,9 +15,14 @@ import FormatPaintOutlinedIcon from '@mui/icons-material/FormatPaintOutlined';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import StarOutlineRoundedIcon from '@mui/icons-material/StarOutlineRounded';
 
+import { SyncStatusButton } from '~/modules/sync/SyncStatusButton';
+import { useSearchIndexResults } from '~/modules/search/search.hooks';
+
 import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMessageId } from '~/common/stores/chat/chat.message';
 import { ChatBeamIcon } from '~/common/components/icons/ChatBeamIcon';
 import { CloseablePopup } from '~/common/components/CloseablePopup';
+import { ConversationsManager } from '~/common/chat-overlay/ConversationsManager';
 import { DFolder, useFolderStore } from '~/common/stores/folders/store-chat-folders';
 import { DebouncedInputMemo } from '~/common/components/DebouncedInput';
 import { FoldersToggleOff } from '~/common/components/icons/FoldersToggleOff';
@@ -99,8 +104,10 @@ function ChatDrawer(props: {
     showRelativeSize, toggleShowRelativeSize,
   } = useChatDrawerFilters();
   const { activeFolder, allFolders, enableFolders, toggleEnableFolders } = useFolders(props.activeFolderId);
+  const { isSearching } = isDrawerSearching(debouncedSearchQuery);
+  const searchIndexResults = useSearchIndexResults(isSearching && searchDepth !== 'titles' ? debouncedSearchQuery : null, searchDepth === 'attachments');
   const { filteredChatsCount, filteredChatIDs, filteredChatsAreEmpty, filteredChatsBarBasis, filteredChatsIncludeActive, renderNavItems } = useChatDrawerRenderItems(
-    props.activeConversationId, props.chatPanesConversationIds, debouncedSearchQuery, activeFolder, allFolders, filterHasBeamOpen, filterHasStars, filterHasImageAssets, filterHasDocFragments, filterIsArchived, navGrouping, searchSorting, showRelativeSize, searchDepth,
+    props.activeConversationId, props.chatPanesConversationIds, debouncedSearchQuery, activeFolder, allFolders, filterHasBeamOpen, filterHasStars, filterHasImageAssets, filterHasDocFragments, filterIsArchived, navGrouping, searchSorting, showRelativeSize, searchDepth, searchIndexResults,
   );
   const [uiComplexityMode, contentScaling] = useUIPreferencesStore(useShallow((state) => [state.complexityMode, state.contentScaling]));
   const zenMode = uiComplexityMode === 'minimal';
@@ -136,6 +143,14 @@ function ChatDrawer(props: {
       optimaCloseDrawer();
   }, [onConversationActivate]);
 
+  const handleConversationActivateMessage = React.useCallback((conversationId: DConversationId, messageId: DMessageId) => {
+    // the messages list will scroll to the message once the conversation is shown
+    ConversationsManager.getHandler(conversationId).overlayActions.setJumpToMessageId(messageId);
+    onConversationActivate(conversationId);
+    if (getIsMobile())
+      optimaCloseDrawer();
+  }, [onConversationActivate]);
+
   const handleConversationsDeleteFiltered = React.useCallback(() => {
     !!filteredChatIDs?.length && onConversationsDelete(filteredChatIDs, false);
   }, [filteredChatIDs, onConversationsDelete]);
@@ -194,7 +209,6 @@ function ChatDrawer(props: {
 
 
   // memoize the group dropdown
-  const { isSearching } = isDrawerSearching(debouncedSearchQuery);
   const groupingComponent = React.useMemo(() => (
     <Dropdown>
       <MenuButton
@@ -417,6 +431,7 @@ function ChatDrawer(props: {
               showSymbols={!showPersonaIcons ? false : zenMode ? false : gifMode ? 'gif' : true}
               bottomBarBasis={filteredChatsBarBasis}
               onConversationActivate={handleConversationActivate}
+              onConversationActivateMessage={handleConversationActivateMessage}
               onConversationBranch={onConversationBranch}
               onConversationDeleteNoConfirmation={handleConversationDeleteNoConfirmation}
               onConversationExport={onConversationsExportDialog}
@@ -499,6 +514,9 @@ function ChatDrawer(props: {
           </ListItemDecorator>
           Export
         </ListItemButton>
+
+        {/* Sync with the other devices (if the server has a database) */}
+        <SyncStatusButton />
       </Box>
 
       <ListItemButton disabled={filteredChatsAreEmpty} onClick={handleConversationsDeleteFiltered}>
@@ -1,5 +1,6 @@
 import * as React from 'react';
 
+import type { SxProps } from '@mui/joy/styles/types';
 import { Avatar, Box, IconButton, ListItem, ListItemButton, ListItemDecorator, Sheet, styled, Tooltip, Typography } from '@mui/joy';
 import AutoFixHighIcon from '@mui/icons-material/AutoFixHigh';
 import CloseRoundedIcon from '@mui/icons-material/CloseRounded';
@@ -13,12 +14,14 @@ import FolderOutlinedIcon from '@mui/icons-material/FolderOutlined';
 import TelegramIcon from '@mui/icons-material/Telegram';
 import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
 
-import { SystemPurposeId, SystemPurposes } from '../../../../data';
-
+import type { DPersonaId } from '~/modules/persona/store-personas';
+import type { SearchMessageHit, SearchSnippet } from '~/modules/search/search.query';
 import { autoConversationTitle } from '~/modules/aifn/autotitle/autoTitle';
+import { usePersona } from '~/modules/persona/store-personas';
 
 import type { DConversationId } from '~/common/stores/chat/chat.conversation';
 import type { DFolder } from '~/common/stores/folders/store-chat-folders';
+import type { DMessageId } from '~/common/stores/chat/chat.message';
 import { ANIM_BUSY_TYPING } from '~/common/util/dMessageUtils';
 import { ChatBeamIcon } from '~/common/components/icons/ChatBeamIcon';
 import { InlineTextarea } from '~/common/components/InlineTextarea';
@@ -39,12 +42,60 @@ export const FadeInButton = styled(IconButton)({
 });
 
 
+const searchHitsSx: SxProps = {
+  flexBasis: '100%',
+  display: 'grid',
+  gap: 0.25,
+  pb: 0.5,
+  minWidth: 0,
+};
+
+const searchHitSx: SxProps = {
+  fontSize: 'xs',
+  lineHeight: 'sm',
+  color: 'text.tertiary',
+  overflowWrap: 'anywhere',
+  borderRadius: 'xs',
+  px: 0.5,
+  mx: -0.5,
+  cursor: 'pointer',
+  // clamp to 2 lines
+  display: '-webkit-box',
+  WebkitLineClamp: 2,
+  WebkitBoxOrient: 'vertical',
+  overflow: 'hidden',
+  '&:hover': {
+    backgroundColor: 'background.level2',
+  },
+  '& mark': {
+    backgroundColor: 'warning.softBg',
+    color: 'text.primary',
+    borderRadius: 'xs',
+  },
+};
+
+
+function SearchSnippetText(props: { snippet: SearchSnippet }) {
+  const { text, highlights } = props.snippet;
+  const segments: React.ReactNode[] = [];
+  let position = 0;
+  for (const [start, end] of highlights) {
+    if (start > position) segments.push(text.slice(position, start));
+    segments.push(<mark key={start}>{text.slice(start, end)}</mark>);
+    position = end;
+  }
+  if (position < text.length) segments.push(text.slice(position));
+  return <>{segments}</>;
+}
+
+
 export const ChatDrawerItemMemo = React.memo(ChatDrawerItem, (prev, next) =>
   // usign a custom function because `ChatNavigationItemData` is a complex object and memo won't work
   isDeepEqual(prev.item, next.item) &&
   prev.showSymbols === next.showSymbols &&
   prev.bottomBarBasis === next.bottomBarBasis &&
   prev.onConversationActivate === next.onConversationActivate &&
+  prev.onConversationActivateMessage === next.onConversationActivateMessage &&
   prev.onConversationBranch === next.onConversationBranch &&
   prev.onConversationDeleteNoConfirmation === next.onConversationDeleteNoConfirmation &&
   prev.onConversationExport === next.onConversationExport &&
@@ -69,8 +120,9 @@ export interface ChatNavigationItemData {
   hasBeamOpen: boolean;
   messageCount: number;
   beingGenerated: boolean;
-  systemPurposeId: SystemPurposeId;
+  systemPurposeId: DPersonaId;
   searchFrequency: number;
+  searchHits?: SearchMessageHit[];
 }
 
 export interface FolderChangeRequest {
@@ -85,6 +137,7 @@ function ChatDrawerItem(props: {
   showSymbols: boolean | 'gif',
   bottomBarBasis: number,
   onConversationActivate: (conversationId: DConversationId, closeMenu: boolean) => void,
+  onConversationActivateMessage: (conversationId: DConversationId, messageId: DMessageId) => void,
   onConversationBranch: (conversationId: DConversationId, messageId: string | null, addSplitPane: boolean) => void,
   onConversationDeleteNoConfirmation: (conversationId: DConversationId) => void,
   onConversationExport: (conversationId: DConversationId, exportAll: boolean) => void,
@@ -97,7 +150,7 @@ function ChatDrawerItem(props: {
   const [deleteArmed, setDeleteArmed] = React.useState(false);
 
   // derived state
-  const { onConversationBranch, onConversationExport, onConversationFolderChange } = props;
+  const { onConversationActivateMessage, onConversationBranch, onConversationExport, onConversationFolderChange } = props;
   const {
     conversationId,
     isActive,
@@ -114,6 +167,7 @@ function ChatDrawerItem(props: {
     beingGenerated,
     systemPurposeId,
     searchFrequency,
+    searchHits,
   } = props.item;
   const isNew = messageCount === 0;
 
@@ -130,6 +184,11 @@ function ChatDrawerItem(props: {
 
   const handleConversationActivate = () => props.onConversationActivate(conversationId, true);
 
+  const handleSearchHitActivate = React.useCallback((event: React.MouseEvent, messageId: DMessageId) => {
+    event.stopPropagation();
+    onConversationActivateMessage(conversationId, messageId);
+  }, [conversationId, onConversationActivateMessage]);
+
 
   // branch
 
@@ -203,8 +262,9 @@ function ChatDrawerItem(props: {
   }, [conversationId, deleteArmed, onConversationDeleteNoConfirmation]);
 
 
-  const personaSymbol = userSymbol || SystemPurposes[systemPurposeId]?.symbol || '❓';
-  const personaImageURI = SystemPurposes[systemPurposeId]?.imageUri ?? undefined;
+  const persona = usePersona(systemPurposeId);
+  const personaSymbol = userSymbol || persona?.symbol || '❓';
+  const personaImageURI = persona?.imageUri ?? undefined;
 
 
   const progress = props.bottomBarBasis ? 100 * (searchFrequency || messageCount) / props.bottomBarBasis : 0;
@@ -296,6 +356,16 @@ function ChatDrawerItem(props: {
 
   </>, [beingGenerated, containsDocAttachments, containsImageAssets, handleTitleEditBegin, handleTitleEditCancel, handleTitleEditChange, hasBeamOpen, isActive, isEditingTitle, isIncognito, isNew, personaImageURI, personaSymbol, props.showSymbols, searchFrequency, title, userFlagsSummary]);
 
+  const searchHitsComponent = React.useMemo(() => !!searchHits?.length && (
+    <Box sx={searchHitsSx}>
+      {searchHits.map(hit => (
+        <Box key={hit.messageId} title='Go to message' onClick={(event) => handleSearchHitActivate(event, hit.messageId)} sx={searchHitSx}>
+          <SearchSnippetText snippet={hit.snippet} />
+        </Box>
+      ))}
+    </Box>
+  ), [handleSearchHitActivate, searchHits]);
+
   const progressBarFixedComponent = React.useMemo(() =>
     progress > 0 && (
       <Box sx={{
@@ -364,6 +434,9 @@ function ChatDrawerItem(props: {
           {titleRowComponent}
         </Box>
 
+        {/* Search matches */}
+        {searchHitsComponent}
+
         {/* buttons row */}
         {isActive && (
           <Box sx={{ display: 'flex', gap: 0.5, minHeight: '2.25rem', alignItems: 'center' }}>
@@ -465,6 +538,9 @@ function ChatDrawerItem(props: {
           border: 'none', // there's a default border of 1px and invisible.. hmm
           position: 'relative', // for the progress bar
           borderRadius: 'sm', // OPTIMA_NAV_RADIUS, // sync with the optima radius, because they need to match
+          ...!!searchHits?.length && {
+            flexWrap: 'wrap', // search matches below the title
+          },
           ...isIncognito && {
             filter: 'contrast(0)',
           },
@@ -473,6 +549,9 @@ function ChatDrawerItem(props: {
 
         {titleRowComponent}
 
+        {/* Search matches */}
+        {searchHitsComponent}
+
         {/* Optional progress bar, underlay */}
         {progressBarFixedComponent}
 
@@ -8,8 +8,11 @@ import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import Done from '@mui/icons-material/Done';
 import EditRoundedIcon from '@mui/icons-material/EditRounded';
 import FolderIcon from '@mui/icons-material/Folder';
+import LibraryBooksOutlinedIcon from '@mui/icons-material/LibraryBooksOutlined';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 
+import { KnowledgeModal } from '~/modules/knowledge/KnowledgeModal';
+
 import { CloseablePopup } from '~/common/components/CloseablePopup';
 import { DFolder, FOLDERS_COLOR_PALETTE, useFolderStore } from '~/common/stores/folders/store-chat-folders';
 import { InlineTextarea } from '~/common/components/InlineTextarea';
@@ -49,6 +52,7 @@ export function FolderListItem(props: {
   // state
   const [deleteArmed, setDeleteArmed] = React.useState(false);
   const [isEditing, setIsEditing] = React.useState(false);
+  const [knowledgeOpen, setKnowledgeOpen] = React.useState(false);
   const [menuAnchorEl, setMenuAnchorEl] = React.useState<null | HTMLAnchorElement>(null);
 
   // DnD Kit sortable
@@ -102,6 +106,15 @@ export function FolderListItem(props: {
   }, []);
 
 
+  // Knowledge
+
+  const handleKnowledgeOpen = React.useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    setKnowledgeOpen(true);
+    handleMenuClose();
+  }, [handleMenuClose]);
+
+
   // Deletion
 
   const handleDeleteButtonShow = React.useCallback((event: React.MouseEvent) => {
@@ -214,6 +227,13 @@ export function FolderListItem(props: {
               Edit
             </MenuItem>
 
+            <MenuItem onClick={handleKnowledgeOpen}>
+              <ListItemDecorator>
+                <LibraryBooksOutlinedIcon />
+              </ListItemDecorator>
+              Knowledge{!!props.folder.knowledgeIds?.length && ` (${props.folder.knowledgeIds.length})`}
+            </MenuItem>
+
             {!deleteArmed ? (
               <MenuItem onClick={handleDeleteButtonShow}>
                 <ListItemDecorator>
@@ -312,6 +332,15 @@ export function FolderListItem(props: {
         )}
 
       </ListItemButton>
+
+      {/* Knowledge collections, bound to this folder or not */}
+      {knowledgeOpen && (
+        <KnowledgeModal
+          initialCollectionId={props.folder.knowledgeIds?.[0]}
+          onClose={() => setKnowledgeOpen(false)}
+        />
+      )}
+
     </ListItem>
   );
 }
@@ -1,5 +1,7 @@
 import * as React from 'react';
 
+import type { SearchIndexResults } from '~/modules/search/search.hooks';
+import { getPersona } from '~/modules/persona/store-personas';
 import { useModuleBeamStore } from '~/modules/beam/store-module-beam';
 
 import type { DFolder } from '~/common/stores/folders/store-chat-folders';
@@ -95,6 +97,7 @@ export function useChatDrawerRenderItems(
   searchSorting: ChatSearchSorting,
   showRelativeSize: boolean,
   searchDepth: ChatSearchDepth,
+  searchIndexResults: SearchIndexResults | null,
 ): ChatDrawerRenderItems {
 
   // state
@@ -130,6 +133,9 @@ export function useChatDrawerRenderItems(
       const chatNavItems = conversationsInFolder
         .map((_c): ChatNavigationItemData | null => {
 
+          // message content is searched in the index, except for incognito chats (not indexed) or if the index is unavailable
+          const searchInIndex = !!searchIndexResults && !_c._isIncognito;
+
           // optimized reduction to find stars/images/docs/and lowercased text for search
           const messageCount = _c.messages.length;
           const messageFlags = new Set<DMessageUserFlag>();
@@ -137,7 +143,7 @@ export function useChatDrawerRenderItems(
           let hasStars = false, hasImages = false, hasDocs = false;
           for (const _m of _c.messages) {
             _m.userFlags?.forEach(flag => messageFlags.add(flag));
-            if (isSearching && searchDepth !== 'titles') {
+            if (isSearching && searchDepth !== 'titles' && !searchInIndex) {
               const messageText = messageFragmentsReduceText(_m.fragments, '\n', searchDepth !== 'attachments');
               if (messageText) lcMessageSearchText += messageText.toLowerCase() + '\n';
             }
@@ -157,10 +163,18 @@ export function useChatDrawerRenderItems(
 
           // set the frequency counters if filtering is enabled
           let searchFrequency: number = 0;
+          let searchHits: ChatNavigationItemData['searchHits'] = undefined;
           if (isSearching) {
             const titleFrequency = title.toLowerCase().split(lcTextQuery).length - 1;
-            const messageFrequency = lcMessageSearchText.split(lcTextQuery).length - 1;
-            searchFrequency = titleFrequency + messageFrequency;
+            if (searchInIndex) {
+              // ranked score of the best matching messages
+              const searchResult = searchIndexResults.get(_c.id);
+              searchFrequency = titleFrequency + (searchResult?.score ?? 0);
+              searchHits = searchResult?.topHits;
+            } else {
+              const messageFrequency = lcMessageSearchText.split(lcTextQuery).length - 1;
+              searchFrequency = titleFrequency + messageFrequency;
+            }
             if (searchFrequency === 0) return null;
           }
 
@@ -193,6 +207,7 @@ export function useChatDrawerRenderItems(
             beingGenerated: !!_c._abortController, // FIXME: when the AbortController is moved at the message level, derive the state in the conv
             systemPurposeId: _c.systemPurposeId,
             searchFrequency,
+            searchHits,
           };
         })
         .filter(item => !!item) as ChatNavigationItemData[];
@@ -247,7 +262,7 @@ export function useChatDrawerRenderItems(
               bucket = getTimeBucket(item.updatedAt || Date.now());
               break;
             case 'persona':
-              bucket = item.systemPurposeId;
+              bucket = getPersona(item.systemPurposeId)?.title || item.systemPurposeId;
               break;
             case 'dimension':
               if (item.messageCount > 20)
@@ -1,15 +1,19 @@
 import * as React from 'react';
 import { useShallow } from 'zustand/react/shallow';
 
-import { Box, Checkbox, IconButton, ListItem, ListItemButton, ListItemDecorator, MenuItem, Switch, Tooltip, Typography } from '@mui/joy';
+import { Box, Checkbox, IconButton, ListItem, ListItemButton, ListItemDecorator, MenuItem, Option, Select, Switch, Tooltip, Typography } from '@mui/joy';
 import AddIcon from '@mui/icons-material/Add';
 import ArchiveOutlinedIcon from '@mui/icons-material/ArchiveOutlined';
 import CleaningServicesOutlinedIcon from '@mui/icons-material/CleaningServicesOutlined';
 import CompressIcon from '@mui/icons-material/Compress';
+import DataObjectIcon from '@mui/icons-material/DataObject';
 import ForkRightIcon from '@mui/icons-material/ForkRight';
+import HandymanOutlinedIcon from '@mui/icons-material/HandymanOutlined';
 import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import LibraryBooksOutlinedIcon from '@mui/icons-material/LibraryBooksOutlined';
 import RestartAltIcon from '@mui/icons-material/RestartAlt';
 import SettingsSuggestOutlinedIcon from '@mui/icons-material/SettingsSuggestOutlined';
+import TerminalIcon from '@mui/icons-material/Terminal';
 import UnarchiveOutlinedIcon from '@mui/icons-material/UnarchiveOutlined';
 
 import type { DConversationId } from '~/common/stores/chat/chat.conversation';
@@ -21,11 +25,20 @@ import { CodiconSplitVerticalRemove } from '~/common/components/icons/CodiconSpl
 import { FormLabelStart } from '~/common/components/forms/FormLabelStart';
 import { OptimaPanelGroupedList, OptimaPanelGroupGutter } from '~/common/layout/optima/panel/OptimaPanelGroupedList';
 import { useChatStore } from '~/common/stores/chat/store-chats'; // may be replaced with a dedicated hook for the chat pane
+import { useClientToolsStore } from '~/modules/tools/store-module-tools';
+import { PromptLibraryModal } from '~/modules/prompts/PromptLibraryModal';
+import { ResponseSchemasModal } from '~/modules/schemas/ResponseSchemasModal';
+import { useResponseSchemas } from '~/modules/schemas/store-schemas';
 
+import { UserCommandsModal } from '../../commands/UserCommandsModal';
 import { useChatShowSystemMessages } from '../../store-app-chat';
 import { panesManagerActions, usePaneDuplicateOrClose } from '../panes/store-panes-manager';
 
 
+// per-chat tool steps choices; 'default' follows the global setting
+const _toolsMaxStepsOptions = [1, 3, 5, 10, 20] as const;
+
+
 function VariformPaneFrame() {
   return (
     <OptimaPanelGroupGutter>
@@ -51,18 +64,34 @@ export function ChatPane(props: {
   setIsMessageSelectionMode: (isMessageSelectionMode: boolean) => void,
 }): React.ReactNode {
 
+  // state
+  const [schemasOpen, setSchemasOpen] = React.useState(false);
+  const [promptsOpen, setPromptsOpen] = React.useState(false);
+  const [commandsOpen, setCommandsOpen] = React.useState(false);
+
   // external state
   const { canAddPane, isMultiPane } = usePaneDuplicateOrClose();
   const [showSystemMessages, setShowSystemMessages] = useChatShowSystemMessages();
 
-  const { isArchived, setArchived } = useChatStore(useShallow((state) => {
+  const chatToolsEnabled = useClientToolsStore(state => state.chatToolsEnabled);
+
+  const responseSchemas = useResponseSchemas();
+
+  const { isArchived, setArchived, toolsMaxSteps, setToolsMaxSteps, responseSchemaId, setResponseSchemaId, systemPurposeId } = useChatStore(useShallow((state) => {
     const conversation = state.conversations.find(_c => _c.id === props.conversationId);
     return {
       isArchived: !conversation ? undefined : !!conversation.isArchived,
       setArchived: state.setArchived,
+      toolsMaxSteps: conversation?.toolsMaxSteps,
+      setToolsMaxSteps: state.setToolsMaxSteps,
+      responseSchemaId: conversation?.responseSchemaId,
+      setResponseSchemaId: state.setResponseSchemaId,
+      systemPurposeId: conversation?.systemPurposeId,
     };
   }));
 
+  const personaSchema = !systemPurposeId ? undefined : responseSchemas.find(schema => schema.personaIds.includes(systemPurposeId));
+
 
   // Window
 
@@ -113,6 +142,15 @@ export function ChatPane(props: {
 
   const handleToggleSystemMessages = () => setShowSystemMessages(!showSystemMessages);
 
+  const handleToolsMaxStepsChange = (_event: any, value: string | null) => {
+    props.conversationId && setToolsMaxSteps(props.conversationId, (!value || value === 'default') ? null : parseInt(value, 10));
+  };
+
+  const handleResponseSchemaChange = (_event: any, value: string | null) => {
+    if (value === 'manage') return setSchemasOpen(true);
+    props.conversationId && setResponseSchemaId(props.conversationId, (!value || value === 'persona') ? undefined : value === 'free' ? null : value);
+  };
+
 
   return <>
 
@@ -211,7 +249,65 @@ export function ChatPane(props: {
         <Switch size='sm' checked={showSystemMessages} disabled={props.disableItems} onChange={handleToggleSystemMessages} sx={{ ml: 'auto' }} />
         {/*<Checkbox size='md' checked={showSystemMessages} disabled={props.disableItems} sx={{ ml: 'auto' }} />*/}
       </ListItemButton>
+      <ListItem>
+        <ListItemDecorator><DataObjectIcon /></ListItemDecorator>
+        Reply Format
+        <Select
+          size='sm' variant='plain'
+          disabled={props.disableItems}
+          value={responseSchemaId === null ? 'free' : responseSchemaId && responseSchemas.some(schema => schema.id === responseSchemaId) ? responseSchemaId : 'persona'}
+          onChange={handleResponseSchemaChange}
+          sx={{ ml: 'auto', minWidth: 100 }}
+        >
+          <Option value='persona'>{personaSchema ? `Persona (${personaSchema.name})` : 'Persona'}</Option>
+          <Option value='free'>Free text</Option>
+          {responseSchemas.map(schema => <Option key={schema.id} value={schema.id}>{schema.name || 'Untitled'}</Option>)}
+          <Option value='manage'>Edit schemas...</Option>
+        </Select>
+      </ListItem>
+      <ListItemButton onClick={() => setPromptsOpen(true)}>
+        <ListItemDecorator><LibraryBooksOutlinedIcon /></ListItemDecorator>
+        Prompt Library
+      </ListItemButton>
+      <ListItemButton onClick={() => setCommandsOpen(true)}>
+        <ListItemDecorator><TerminalIcon /></ListItemDecorator>
+        Chat Commands
+      </ListItemButton>
     </OptimaPanelGroupedList>
 
+    {/* Tools: only when function tools are on */}
+    {chatToolsEnabled && (
+      <OptimaPanelGroupedList title='Tools'>
+        <ListItem>
+          <ListItemDecorator><HandymanOutlinedIcon /></ListItemDecorator>
+          Max Steps
+          <Select
+            size='sm' variant='plain'
+            disabled={props.disableItems}
+            value={toolsMaxSteps ? String(toolsMaxSteps) : 'default'}
+            onChange={handleToolsMaxStepsChange}
+            sx={{ ml: 'auto', minWidth: 100 }}
+          >
+            <Option value='default'>Default</Option>
+            {_toolsMaxStepsOptions.map(steps => <Option key={steps} value={String(steps)}>{steps}</Option>)}
+          </Select>
+        </ListItem>
+      </OptimaPanelGroupedList>
+    )}
+
+    {/* Response schemas editor */}
+    {schemasOpen && (
+      <ResponseSchemasModal
+        initialSchemaId={responseSchemaId || personaSchema?.id}
+        onClose={() => setSchemasOpen(false)}
+      />
+    )}
+
+    {/* Prompt templates editor */}
+    {promptsOpen && <PromptLibraryModal onClose={() => setPromptsOpen(false)} />}
+
+    {/* User commands editor */}
+    {commandsOpen && <UserCommandsModal onClose={() => setCommandsOpen(false)} />}
+
   </>;
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Typography } from '@mui/joy';
+import AltRouteRoundedIcon from '@mui/icons-material/AltRouteRounded';
+
+import type { DMessageGenerator } from '~/common/stores/chat/chat.message';
+import { prettyShortChatModelName } from '~/common/util/dMessageUtils';
+
+
+const containerSx: SxProps = {
+  marginInlineStart: 1.5,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 1,
+  color: 'text.tertiary',
+};
+
+
+/**
+ * Explains that the message was generated by a fallback model, as the requested ones were overloaded or down.
+ */
+export function BlockFailoverNote(props: {
+  generator: DMessageGenerator,
+}) {
+
+  const { failoverFrom, name } = props.generator;
+  if (!failoverFrom?.length) return null;
+
+  const failedModels = failoverFrom.map(f => `${prettyShortChatModelName(f.name)}${f.httpStatus ? ` (${f.httpStatus})` : ''}`).join(', ');
+
+  return (
+    <Box sx={containerSx}>
+      <AltRouteRoundedIcon sx={{ fontSize: 'md' }} />
+      <Typography level='body-xs' textColor='inherit'>
+        Answered by <b>{prettyShortChatModelName(name)}</b>: {failedModels} {failoverFrom.length > 1 ? 'were' : 'was'} unavailable.
+      </Typography>
+    </Box>
+  );
+}
@@ -0,0 +1,49 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, IconButton, Typography } from '@mui/joy';
+import KeyboardArrowLeftIcon from '@mui/icons-material/KeyboardArrowLeft';
+import KeyboardArrowRightIcon from '@mui/icons-material/KeyboardArrowRight';
+
+
+const containerSx: SxProps = {
+  mx: 1.5,
+
+  // layout
+  display: 'flex',
+  alignItems: 'center',
+  gap: 0.25,
+};
+
+
+/**
+ * Branch navigator: `< 2/3 >`, to switch between the siblings of a message.
+ */
+export function BlockOpBranches(props: {
+  branchIndex: number,
+  branchCount: number,
+  alignEnd: boolean,
+  disabled: boolean,
+  onSwitch: (direction: -1 | 1) => void,
+}) {
+
+  const { branchIndex, branchCount, onSwitch } = props;
+
+  return (
+    <Box sx={containerSx} justifyContent={props.alignEnd ? 'flex-end' : 'flex-start'}>
+
+      <IconButton size='sm' disabled={props.disabled || branchIndex <= 0} aria-label='Previous branch' onClick={() => onSwitch(-1)}>
+        <KeyboardArrowLeftIcon />
+      </IconButton>
+
+      <Typography level='body-xs' sx={{ fontVariantNumeric: 'tabular-nums' }}>
+        {branchIndex + 1}/{branchCount}
+      </Typography>
+
+      <IconButton size='sm' disabled={props.disabled || branchIndex >= branchCount - 1} aria-label='Next branch' onClick={() => onSwitch(1)}>
+        <KeyboardArrowRightIcon />
+      </IconButton>
+
+    </Box>
+  );
+}
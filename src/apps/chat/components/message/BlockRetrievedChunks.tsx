@@ -0,0 +1,89 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Button, Chip, Typography } from '@mui/joy';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
+
+import type { DMetaRetrievedChunk } from '~/common/stores/chat/chat.message';
+
+
+const containerSx: SxProps = {
+  mx: 1.5,
+
+  // layout
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'flex-start',
+  gap: 1,
+};
+
+const chunkSx: SxProps = {
+  width: '100%',
+  backgroundColor: 'background.level1',
+  borderRadius: 'sm',
+  p: 1,
+
+  // layout
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 0.5,
+};
+
+const chunkTextSx: SxProps = {
+  maxHeight: '8rem',
+  overflowY: 'auto',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+};
+
+
+/**
+ * The chunks of large documents that were sent in place of their full text (retrieval), collapsed by default.
+ */
+export function BlockRetrievedChunks(props: {
+  chunks: DMetaRetrievedChunk[],
+}) {
+
+  // state
+  const [expanded, setExpanded] = React.useState(false);
+
+  // derived state
+  const { chunks } = props;
+  const docsCount = new Set(chunks.map(chunk => chunk.docTitle)).size;
+
+  return (
+    <Box sx={containerSx}>
+
+      <Button
+        size='sm' variant='plain' color='neutral'
+        startDecorator={<ManageSearchIcon />}
+        endDecorator={expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        onClick={() => setExpanded(on => !on)}
+      >
+        {chunks.length} {chunks.length === 1 ? 'excerpt' : 'excerpts'} from {docsCount} {docsCount === 1 ? 'document' : 'documents'}
+      </Button>
+
+      {expanded && chunks.map((chunk, index) => (
+        <Box key={'chunk-' + index} sx={chunkSx}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography level='title-sm' noWrap sx={{ flex: 1 }}>
+              {chunk.docTitle}
+            </Typography>
+            <Typography level='body-xs'>
+              Section {chunk.chunkIndex + 1}/{chunk.chunksCount}
+            </Typography>
+            <Chip size='sm' variant='soft'>
+              {Math.round(chunk.score * 100)}%
+            </Chip>
+          </Box>
+          <Typography level='body-xs' sx={chunkTextSx}>
+            {chunk.text}
+          </Typography>
+        </Box>
+      ))}
+
+    </Box>
+  );
+}
@@ -0,0 +1,39 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Typography } from '@mui/joy';
+import DataObjectIcon from '@mui/icons-material/DataObject';
+import WarningRoundedIcon from '@mui/icons-material/WarningRounded';
+
+import type { DMetaStructuredOutput } from '~/common/stores/chat/chat.message';
+
+
+const containerSx: SxProps = {
+  marginInlineStart: 1.5,
+  display: 'flex',
+  alignItems: 'center',
+  gap: 1,
+  color: 'text.tertiary',
+};
+
+
+/**
+ * Names the response schema the reply was constrained to, and warns when the reply does not conform to it.
+ */
+export function BlockStructuredOutputNote(props: {
+  structuredOutput: DMetaStructuredOutput,
+}) {
+
+  const { schemaName, validationError } = props.structuredOutput;
+
+  return (
+    <Box sx={validationError ? { ...containerSx, color: 'warning.plainColor' } : containerSx}>
+      {validationError ? <WarningRoundedIcon sx={{ fontSize: 'md' }} /> : <DataObjectIcon sx={{ fontSize: 'md' }} />}
+      <Typography level='body-xs' textColor='inherit'>
+        {!validationError
+          ? <>Reply in the <b>{schemaName}</b> format.</>
+          : <>Does not match <b>{schemaName}</b>: {validationError}</>}
+      </Typography>
+    </Box>
+  );
+}
@@ -34,10 +34,14 @@ import { createTextContentFragment, DMessageFragment, DMessageFragmentId, update
 import { useFragmentBuckets } from '~/common/stores/chat/hooks/useFragmentBuckets';
 import { useUIPreferencesStore } from '~/common/stores/store-ui';
 
+import { BlockFailoverNote } from './BlockFailoverNote';
+import { BlockOpBranches } from './BlockOpBranches';
 import { BlockOpContinue } from './BlockOpContinue';
 import { BlockOpOptions, optionsExtractFromFragments_dangerModifyFragment } from './BlockOpOptions';
 import { BlockOpResolveLinks } from './BlockOpResolveLinks';
 import { BlockOpUpstreamResume } from './BlockOpUpstreamResume';
+import { BlockRetrievedChunks } from './BlockRetrievedChunks';
+import { BlockStructuredOutputNote } from './BlockStructuredOutputNote';
 import { ChatMessageEditAttachments, type EditModeAttachmentsHandle } from './ChatMessageEditAttachments';
 import { ChatMessageInfoPopup } from './ChatMessageInfoPopup';
 import { ChatMessageMenu } from './ChatMessageMenu';
@@ -131,17 +135,21 @@ export function ChatMessage(props: {
   showBlocksDate?: boolean,
   showUnsafeHtmlCode?: boolean,
   adjustContentScaling?: number,
+  branchIndex?: number,
+  branchCount?: number,
   topDecorator?: React.ReactNode,
   onAddInReferenceTo?: (item: DMetaReferenceItem) => void,
   onMessageAssistantFrom?: (messageId: string, offset: number) => Promise<void>,
   onMessageBeam?: (messageId: string) => Promise<void>,
   onMessageBranch?: (messageId: string) => void,
+  onMessageBranchSwitch?: (messageId: string, direction: -1 | 1) => void,
   onMessageContinue?: (messageId: string, continueText: null | string) => void,
   onMessageUpstreamResume?: (generator: DMessageGenerator, messageId: string, mode: AixReattachMode) => Promise<void>,
   onMessageUpstreamDetach?: (messageId: string) => void,
   onMessageUpstreamDelete?: (generator: DMessageGenerator, messageId: string) => Promise<void>,
   upstreamResumeMode?: AixReattachMode, // set by parent while a resume is in flight on this message
   onMessageDelete?: (messageId: string) => void,
+  onMessageEditInNewBranch?: (messageId: DMessageId, fragments: DMessageFragment[], andGenerate: boolean) => Promise<void>,
   onMessageFragmentAppend?: (messageId: DMessageId, fragment: DMessageFragment) => void
   onMessageFragmentDelete?: (messageId: DMessageId, fragmentId: DMessageFragmentId) => void,
   onMessageFragmentReplace?: (messageId: DMessageId, fragmentId: DMessageFragmentId, newFragment: DMessageFragment) => void,
@@ -220,7 +228,7 @@ export function ChatMessage(props: {
 
   const userCommandApprox = !fromUser ? false
     : fragmentFlattenedText.startsWith('/draw ') ? 'draw'
-      : fragmentFlattenedText.startsWith('/react ') ? 'react'
+      : (fragmentFlattenedText.startsWith('/agent ') || fragmentFlattenedText.startsWith('/react ')) ? 'agent'
         : false;
 
 
@@ -228,7 +236,7 @@ export function ChatMessage(props: {
   // const wordsDiff = useWordsDifference(textSubject, props.diffPreviousText, showDiff);
 
 
-  const { onMessageAssistantFrom, onMessageDelete, onMessageFragmentAppend, onMessageFragmentDelete, onMessageFragmentReplace, onMessageContinue, onMessageToggleUserFlag, onMessageUpstreamResume, onMessageUpstreamDetach, onMessageUpstreamDelete } = props;
+  const { onMessageAssistantFrom, onMessageBranchSwitch, onMessageDelete, onMessageEditInNewBranch, onMessageFragmentAppend, onMessageFragmentDelete, onMessageFragmentReplace, onMessageContinue, onMessageToggleUserFlag, onMessageUpstreamResume, onMessageUpstreamDetach, onMessageUpstreamDelete } = props;
 
   const handleFragmentNew = React.useCallback(() => {
     onMessageFragmentAppend?.(messageId, createTextContentFragment(''));
@@ -280,6 +288,10 @@ export function ChatMessage(props: {
     onMessageDelete?.(messageId);
   }, [messageId, onMessageDelete]);
 
+  const handleMessageBranchSwitch = React.useCallback((direction: -1 | 1) => {
+    onMessageBranchSwitch?.(messageId, direction);
+  }, [messageId, onMessageBranchSwitch]);
+
   const handleMessageUserFlagToggle = React.useCallback((flag: DMessageUserFlag, maxPerConversation?: number) => {
     onMessageToggleUserFlag?.(messageId, flag, maxPerConversation);
   }, [messageId, onMessageToggleUserFlag]);
@@ -310,6 +322,18 @@ export function ChatMessage(props: {
     // 1. clear edit state (unmounts EditModeAttachments, triggers cleanup)
     setTextContentEditState(null);
 
+    // 2. user message with replies: edit a copy, in a new branch, so the original and its replies stay reachable
+    const hasEdits = Object.keys(fragmentsEdits).length > 0 || newFragments.length > 0;
+    if (fromUser && !props.isBottom && hasEdits && onMessageEditInNewBranch) {
+      const editedFragments = messageFragments.flatMap((fragment): DMessageFragment[] => {
+        const editedText = fragmentsEdits[fragment.fId];
+        if (editedText === undefined) return [fragment];
+        if (!editedText.length) return [];
+        return [updateFragmentWithEditedText(fragment, editedText) ?? fragment];
+      });
+      return await onMessageEditInNewBranch(messageId, [...editedFragments, ...newFragments], withControl);
+    }
+
     // 2A. apply text fragment edits
     for (const [fragmentId, editedText] of Object.entries(fragmentsEdits))
       handleApplyEdit(fragmentId, editedText);
@@ -321,7 +345,7 @@ export function ChatMessage(props: {
     // 3. if the user pressed Ctrl, we begin a regeneration from here
     if (withControl && onMessageAssistantFrom)
       await onMessageAssistantFrom(messageId, 0);
-  }, [handleApplyEdit, messageId, onMessageAssistantFrom, onMessageFragmentAppend, textContentEditState]);
+  }, [fromUser, handleApplyEdit, messageFragments, messageId, onMessageAssistantFrom, onMessageEditInNewBranch, onMessageFragmentAppend, props.isBottom, textContentEditState]);
 
   const handleEditsApplyClicked = React.useCallback(() => handleApplyAllEdits(false), [handleApplyAllEdits]);
 
@@ -703,6 +727,7 @@ export function ChatMessage(props: {
     <Box
       component='li'
       role='chat-message'
+      data-message-id={messageId /* for jumping to the message */}
       tabIndex={-1 /* for shortcuts navigation */}
       onMouseUp={(ENABLE_BUBBLE && !fromSystem /*&& !isAssistantError*/) ? handleBlocksMouseUp : undefined}
       onTouchEnd={(ENABLE_BUBBLE && !fromSystem /*&& !isAssistantError*/) ? handleBlocksTouchEnd : undefined}
@@ -742,7 +767,7 @@ export function ChatMessage(props: {
                 <IconButton
                   size='sm'
                   variant={opsMenuAnchor ? 'solid' : zenMode ? 'plain' : 'soft'}
-                  color={(fromAssistant || fromSystem || zenMode) ? 'neutral' : userCommandApprox === 'draw' ? 'warning' : userCommandApprox === 'react' ? 'success' : 'primary'}
+                  color={(fromAssistant || fromSystem || zenMode) ? 'neutral' : userCommandApprox === 'draw' ? 'warning' : userCommandApprox === 'agent' ? 'success' : 'primary'}
                   sx={avatarIconSx}
                 >
                   <MoreVertIcon />
@@ -799,6 +824,11 @@ export function ChatMessage(props: {
             <InReferenceToList items={messageMetadata.inReferenceTo} />
           )}
 
+          {/* Retrieved document chunks, sent in place of large documents */}
+          {fromAssistant && !!messageMetadata?.retrievedChunks?.length && (
+            <BlockRetrievedChunks chunks={messageMetadata.retrievedChunks} />
+          )}
+
           {/* [NOT SYSTEM, UNREAL] Image Attachment Fragments - just for a prettier display on top of the message, but is "WRONG" logically as the text comes before the image */}
           {!fromSystem && imageAttachments.length >= 1 && (
             <ImageAttachmentFragments
@@ -810,6 +840,16 @@ export function ChatMessage(props: {
             />
           )}
 
+          {/* Failover note: answered by a fallback model */}
+          {fromAssistant && !!messageGenerator?.failoverFrom?.length && (
+            <BlockFailoverNote generator={messageGenerator} />
+          )}
+
+          {/* Structured output: the response schema, and whether the reply conforms to it */}
+          {fromAssistant && !!messageMetadata?.structuredOutput && (
+            <BlockStructuredOutputNote structuredOutput={messageMetadata.structuredOutput} />
+          )}
+
           {/* Annotation Fragments (absolute top: citations, references) */}
           {annotationFragments.length >= 1 && (
             <VoidFragments
@@ -839,6 +879,7 @@ export function ChatMessage(props: {
             optiAllowSubBlocksMemo={!!messagePendingIncomplete}
             disableMarkdownText={disableMarkdown || fromUser /* User messages are edited as text. Try to have them in plain text. NOTE: This may bite. */}
             showUnsafeHtmlCode={props.showUnsafeHtmlCode}
+            renderLastTextAsJson={fromAssistant && !!messageMetadata?.structuredOutput && !isEditingText}
 
             textEditsState={textContentEditState}
             setEditedText={(!onMessageFragmentReplace || messagePendingIncomplete) ? undefined : handleEditSetText}
@@ -918,6 +959,17 @@ export function ChatMessage(props: {
             />
           )}
 
+          {/* Branch navigator */}
+          {(props.branchCount ?? 0) >= 2 && !!onMessageBranchSwitch && !isEditingText && (
+            <BlockOpBranches
+              branchIndex={props.branchIndex ?? 0}
+              branchCount={props.branchCount ?? 0}
+              alignEnd={!fromAssistant}
+              disabled={!!messagePendingIncomplete}
+              onSwitch={handleMessageBranchSwitch}
+            />
+          )}
+
           {/* Continue Options... */}
           {continuationOptions.length >= 1 && !!onMessageContinue && (
             <BlockOpOptions
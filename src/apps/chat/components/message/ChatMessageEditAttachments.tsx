@@ -9,7 +9,7 @@ import type { AttachmentDraftsStoreApi } from '~/common/attachment-drafts/store-
 import type { DMessageAttachmentFragment } from '~/common/stores/chat/chat.fragments';
 import { AttachmentDraftsList } from '~/common/attachment-drafts/attachment-drafts-ui/AttachmentDraftsList';
 import { AttachmentSourcesMemo } from '~/common/attachment-drafts/attachment-sources/AttachmentSources';
-import { useAttachHandler_CameraOpen, useAttachHandler_Files, useAttachHandler_ScreenCapture, useAttachHandler_UrlWebLinks } from '~/common/attachment-drafts/attachment-sources/useAttachmentSourceHandlers';
+import { useAttachHandler_CameraOpen, useAttachHandler_Files, useAttachHandler_McpResources, useAttachHandler_ScreenCapture, useAttachHandler_UrlWebLinks } from '~/common/attachment-drafts/attachment-sources/useAttachmentSourceHandlers';
 import { createAttachmentDraftsVanillaStore } from '~/common/attachment-drafts/store-attachment-drafts_vanilla';
 import { supportsCameraCapture } from '~/common/components/camera/useCameraCapture';
 import { supportsScreenCapture } from '~/common/util/screenCaptureUtils';
@@ -98,6 +98,7 @@ export const ChatMessageEditAttachments = React.forwardRef<EditModeAttachmentsHa
     const handleOpenCamera = useAttachHandler_CameraOpen(attachAppendFile);
     const handleAttachScreenCapture = useAttachHandler_ScreenCapture(attachAppendFile);
     const { openWebInputDialog, webInputDialogComponent } = useAttachHandler_UrlWebLinks(attachAppendUrl);
+    const { openMcpResourcesDialog, mcpResourcesDialogComponent } = useAttachHandler_McpResources(attachAppendFile);
     const { openGoogleDrivePicker, googleDrivePickerComponent } = useGoogleDrivePicker(attachAppendCloudFile, props.isMobile);
 
     // viewer render props - same pattern as ComposerAttachmentDraftsList.tsx:44-52
@@ -131,6 +132,7 @@ export const ChatMessageEditAttachments = React.forwardRef<EditModeAttachmentsHa
           onOpenCamera={handleOpenCamera}
           onOpenGoogleDrivePicker={openGoogleDrivePicker}
           onOpenWebInput={openWebInputDialog}
+          onOpenMcpResources={openMcpResourcesDialog}
         />
 
         {/* Attachment Drafts list */}
@@ -148,6 +150,7 @@ export const ChatMessageEditAttachments = React.forwardRef<EditModeAttachmentsHa
 
       {/* Modal portals */}
       {webInputDialogComponent}
+      {mcpResourcesDialogComponent}
       {googleDrivePickerComponent}
 
     </>;
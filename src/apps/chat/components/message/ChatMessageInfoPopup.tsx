@@ -2,7 +2,7 @@ import * as React from 'react';
 import TimeAgo from 'react-timeago';
 
 import type { SxProps } from '@mui/joy/styles/types';
-import { Box } from '@mui/joy';
+import { Box, Chip } from '@mui/joy';
 
 import { llmsGetVendorIcon } from '~/modules/llms/components/LLMVendorIcon';
 
@@ -76,6 +76,10 @@ export function ChatMessageInfoPopup(props: {
               <div>Status:</div>
               <div>{stopReason}</div>
             </>}
+            {!!generator.cachedAt && <>
+              <div>Cache:</div>
+              <div><Chip size='sm' variant='soft' color='success'>hit</Chip> from <TimeAgo date={generator.cachedAt} /></div>
+            </>}
           </Box>
         )}
 
@@ -5,6 +5,7 @@ import AttachFileRoundedIcon from '@mui/icons-material/AttachFileRounded';
 import ClearIcon from '@mui/icons-material/Clear';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import ErrorIcon from '@mui/icons-material/ErrorRounded';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
 import TextFieldsIcon from '@mui/icons-material/TextFieldsRounded';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
@@ -133,6 +134,7 @@ export const MessagesSelectionHeader = (props: {
   onClose: () => void,
   onSelectAll: (selected: boolean) => void,
   onDeleteMessages: () => void,
+  onExportMessages: () => void,
   onToggleVisibility: () => void,
   areAllMessagesHidden: boolean,
 }) =>
@@ -161,6 +163,9 @@ export const MessagesSelectionHeader = (props: {
       <Button size='sm' disabled={!props.hasSelected} onClick={props.onDeleteMessages} sx={{ minWidth: { md: 120 } }} endDecorator={<DeleteOutlineIcon />}>
         Delete
       </Button>
+      <Button size='sm' disabled={!props.hasSelected} onClick={props.onExportMessages} sx={{ minWidth: { md: 120 } }} endDecorator={<FileDownloadOutlinedIcon />}>
+        Export
+      </Button>
     </Box>
 
     <IconButton size='sm' onClick={props.onClose}>
@@ -204,7 +209,7 @@ export function CleanerMessage(props: { message: DMessage, selected: boolean, re
 
   const userCommandApprox = messageRole !== 'user' ? false
     : messageText.startsWith('/draw ') ? 'draw'
-      : messageText.startsWith('/react ') ? 'react'
+      : (messageText.startsWith('/agent ') || messageText.startsWith('/react ')) ? 'agent'
         : false;
 
   const backgroundColor = messageBackground(messageRole, userCommandApprox, !!messageUpdated, isAssistantError);
@@ -5,12 +5,17 @@ import { Box, Button, ColorPaletteProp } from '@mui/joy';
 import AbcIcon from '@mui/icons-material/Abc';
 import CodeIcon from '@mui/icons-material/Code';
 import EditRoundedIcon from '@mui/icons-material/EditRounded';
+import MovieOutlinedIcon from '@mui/icons-material/MovieOutlined';
 import PictureAsPdfIcon from '@mui/icons-material/PictureAsPdf';
 import TextFieldsIcon from '@mui/icons-material/TextFields';
+import StopRoundedIcon from '@mui/icons-material/StopRounded';
 import TextureIcon from '@mui/icons-material/Texture';
 
+import { AudioPlayer } from '~/common/util/audio/AudioPlayer';
 import { ContentScaling, themeScalingMap } from '~/common/app.theme';
-import { DMessageAttachmentFragment, DMessageFragmentId, DVMimeType, isDocPart } from '~/common/stores/chat/chat.fragments';
+import { DMessageAttachmentFragment, DMessageFragmentId, DVMimeType, isDocPart, isZyncAssetAudioReferencePartWithDBlob, isZyncAssetVideoReferencePartWithDBlob } from '~/common/stores/chat/chat.fragments';
+import { convert_Base64WithMimeType_To_Blob } from '~/common/util/blobUtils';
+import { getAudioAsset, getVideoAsset } from '~/common/stores/blob/dblobs-portability';
 import { LiveFileIcon } from '~/common/livefile/liveFile.icons';
 import { PhImageSquare } from '~/common/components/icons/phosphor/PhImageSquare';
 import { PhVoice } from '~/common/components/icons/phosphor/PhVoice';
@@ -51,6 +56,8 @@ export function buttonIconForFragment(part: DMessageAttachmentFragment['part']):
                   return PhImageSquare;
                 case 'audio':
                   return PhVoice;
+                case 'video':
+                  return MovieOutlinedIcon;
                 default:
                   const _exhaustiveCheck: never = assetType;
                   return TextureIcon; // missing zync asset type
@@ -113,6 +120,9 @@ export function DocAttachmentFragmentButton(props: {
   toggleSelected: (fragmentId: DMessageFragmentId) => void,
 }) {
 
+  // state
+  const [audioPlayback, setAudioPlayback] = React.useState<AbortController | null>(null);
+
   // external state
   const liveFileMetadata = useLiveFileMetadata(props.fragment.liveFileId);
 
@@ -126,6 +136,30 @@ export function DocAttachmentFragmentButton(props: {
     toggleSelected(fragment.fId);
   }, [fragment.fId, toggleSelected]);
 
+  const handleToggleAudioPlayback = React.useCallback(async () => {
+    if (audioPlayback) return audioPlayback.abort();
+    if (!isZyncAssetAudioReferencePartWithDBlob(fragment.part)) return;
+    const audioAsset = await getAudioAsset(fragment.part._audioDBlobRef!.dataRef.dblobAssetId);
+    if (!audioAsset) return;
+    const abortController = new AbortController();
+    setAudioPlayback(abortController);
+    await AudioPlayer.playUrl(`data:${audioAsset.data.mimeType};base64,${audioAsset.data.base64}`, abortController.signal)
+      .catch(error => console.warn('[DEV] Audio attachment playback error:', error))
+      .finally(() => setAudioPlayback(null));
+  }, [audioPlayback, fragment.part]);
+
+  React.useEffect(() => () => audioPlayback?.abort(), [audioPlayback]);
+
+  const handleOpenVideo = React.useCallback(async () => {
+    if (!isZyncAssetVideoReferencePartWithDBlob(fragment.part)) return;
+    const videoAsset = await getVideoAsset(fragment.part._videoDBlobRef!.dataRef.dblobAssetId);
+    if (!videoAsset) return;
+    const videoBlob = await convert_Base64WithMimeType_To_Blob(videoAsset.data.base64, videoAsset.data.mimeType, 'DocAttachmentFragmentButton');
+    const videoUrl = URL.createObjectURL(videoBlob);
+    window.open(videoUrl, '_blank', 'noopener');
+    setTimeout(() => URL.revokeObjectURL(videoUrl), 60 * 1000); // the new tab has loaded it by then
+  }, [fragment.part]);
+
   // memos
   const buttonSx = React.useMemo((): SxProps => ({
     // from ATTACHMENT_MIN_STYLE
@@ -151,6 +185,50 @@ export function DocAttachmentFragmentButton(props: {
     display: 'flex', flexDirection: 'row',
   }), [isSelected, props.contentScaling]);
 
+  // video attachments: open in a new tab on click
+  const videoDBlobRef = isZyncAssetVideoReferencePartWithDBlob(fragment.part) ? fragment.part._videoDBlobRef : undefined;
+  if (videoDBlobRef) {
+    const durationMs = videoDBlobRef.durationMs;
+    return (
+      <Button
+        size={props.contentScaling === 'md' ? 'md' : 'sm'}
+        variant='soft'
+        color={DocUnselColor}
+        onClick={handleOpenVideo}
+        sx={buttonSx}
+      >
+        <Box sx={{ height: '80%', paddingX: '0.5rem', borderRight: '1px solid', borderRightColor: `${DocUnselColor}.outlinedDisabledBorder`, display: 'flex', alignItems: 'center' }}>
+          <MovieOutlinedIcon />
+        </Box>
+        <Box sx={{ ..._styles.label, paddingX: '0.5rem' }}>
+          {ellipsizeMiddle(fragment.title || 'Video', 28)}{durationMs ? ` · ${Math.round(durationMs / 1000)}s` : ''}
+        </Box>
+      </Button>
+    );
+  }
+
+  // audio attachments: play on click
+  if (isZyncAssetAudioReferencePartWithDBlob(fragment.part)) {
+    const AudioIcon = audioPlayback ? StopRoundedIcon : PhVoice;
+    const durationMs = fragment.part._audioDBlobRef?.durationMs;
+    return (
+      <Button
+        size={props.contentScaling === 'md' ? 'md' : 'sm'}
+        variant='soft'
+        color={DocUnselColor}
+        onClick={handleToggleAudioPlayback}
+        sx={buttonSx}
+      >
+        <Box sx={{ height: '80%', paddingX: '0.5rem', borderRight: '1px solid', borderRightColor: `${DocUnselColor}.outlinedDisabledBorder`, display: 'flex', alignItems: 'center' }}>
+          <AudioIcon />
+        </Box>
+        <Box sx={{ ..._styles.label, paddingX: '0.5rem' }}>
+          {ellipsizeMiddle(fragment.title || 'Audio', 28)}{durationMs ? ` · ${Math.round(durationMs / 1000)}s` : ''}
+        </Box>
+      </Button>
+    );
+  }
+
   // only operate on doc fragments
   if (!isDocPart(fragment.part))
     return 'Unexpected: ' + fragment.part.pt;
@@ -28,6 +28,7 @@ export function BlockPartText_AutoBlocks(props: {
   fitScreen: boolean,
   disableMarkdownText: boolean,
   renderAsWordsDiff?: WordsDiff,
+  renderAsJson?: boolean,
 
   showUnsafeHtmlCode?: boolean,
   optiAllowSubBlocksMemo: boolean,
@@ -75,6 +76,7 @@ export function BlockPartText_AutoBlocks(props: {
       isMobile={props.isMobile}
       showUnsafeHtmlCode={props.showUnsafeHtmlCode}
       renderAsWordsDiff={props.renderAsWordsDiff}
+      renderAsJson={props.renderAsJson}
       codeRenderVariant='enhanced' // was: { props.enhanceCodeBlocks ? 'enhanced' : 'outlined' }
       textRenderVariant={props.disableMarkdownText ? 'text' : 'markdown'}
       optiAllowSubBlocksMemo={props.optiAllowSubBlocksMemo}
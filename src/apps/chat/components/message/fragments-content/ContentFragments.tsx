@@ -61,6 +61,7 @@ export function ContentFragments(props: {
   optiAllowSubBlocksMemo?: boolean,
   disableMarkdownText: boolean,
   showUnsafeHtmlCode?: boolean,
+  renderLastTextAsJson?: boolean, // structured output: the reply is the last text fragment
 
   textEditsState: ChatMessageTextPartEditState | null,
   setEditedText?: (fragmentId: DMessageFragmentId, value: string, applyNow: boolean) => void,
@@ -82,6 +83,7 @@ export function ContentFragments(props: {
   const fromUser = props.messageRole === 'user';
   const isEditingText = !!props.textEditsState;
   const enableRestartFromEdit = !fromAssistant && props.messageRole !== 'system';
+  const jsonTextFragmentIndex = !props.renderLastTextAsJson ? -1 : props.contentFragments.findLastIndex(isTextContentFragment);
 
 
   // solo placeholder - dataStreamViz trigger
@@ -341,6 +343,7 @@ export function ContentFragments(props: {
               isMobile={props.isMobile}
               disableMarkdownText={props.disableMarkdownText}
               // renderWordsDiff={wordsDiff || undefined}
+              renderAsJson={fragmentIndex === jsonTextFragmentIndex}
               showUnsafeHtmlCode={props.showUnsafeHtmlCode}
               optiAllowSubBlocksMemo={!!props.optiAllowSubBlocksMemo}
               optiStreamingLastFragment={!!props.optiAllowSubBlocksMemo && isLastFragment && props.uiComplexityMode === 'minimal'}
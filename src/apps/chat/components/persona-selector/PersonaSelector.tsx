@@ -2,21 +2,29 @@ import * as React from 'react';
 import { useShallow } from 'zustand/react/shallow';
 
 import type { SxProps } from '@mui/joy/styles/types';
-import { Alert, Avatar, Box, Button, Card, CardContent, Checkbox, IconButton, Input, List, ListItem, ListItemButton, Textarea, Tooltip, Typography } from '@mui/joy';
+import { Alert, Avatar, Box, Button, Card, CardContent, Checkbox, Chip, IconButton, Input, List, ListItem, ListItemButton, Textarea, Tooltip, Typography } from '@mui/joy';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
 import ClearIcon from '@mui/icons-material/Clear';
 import DoneIcon from '@mui/icons-material/Done';
 import EditRoundedIcon from '@mui/icons-material/EditRounded';
 import EditNoteIcon from '@mui/icons-material/EditNote';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import FileUploadOutlinedIcon from '@mui/icons-material/FileUploadOutlined';
+import LibraryBooksOutlinedIcon from '@mui/icons-material/LibraryBooksOutlined';
 import SearchIcon from '@mui/icons-material/Search';
 import TelegramIcon from '@mui/icons-material/Telegram';
 
-import { SystemPurposeData, SystemPurposeExample, SystemPurposeId, SystemPurposes } from '../../../../data';
-
+import { DPersona, DPersonaExample, DPersonaId, personaApplyDefaultChatModel, personasStoreActions, usePersonas } from '~/modules/persona/store-personas';
+import { KnowledgeModal } from '~/modules/knowledge/KnowledgeModal';
+import { PersonaEditorModal } from '~/modules/persona/PersonaEditorModal';
 import { YouTubeURLInput } from '~/modules/youtube/YouTubeURLInput';
 import { bareBonesPromptMixer } from '~/modules/persona/pmix/pmix';
+import { personasExportToFile, personasImportFromFile } from '~/modules/persona/personas.io';
+import { useKnowledgeCollections } from '~/modules/knowledge/store-knowledge';
 
 import type { DConversationId } from '~/common/stores/chat/chat.conversation';
 import { ExpanderControlledBox } from '~/common/components/ExpanderControlledBox';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
 import { createDMessageTextContent } from '~/common/stores/chat/chat.message';
 import { lineHeightTextareaMd } from '~/common/app.theme';
 import { navigateToPersonas } from '~/common/app.routes';
@@ -118,13 +126,15 @@ function Tile(props: {
 export function PersonaSelector(props: {
   conversationId: DConversationId,
   isMobile: boolean,
-  runExample: (example: SystemPurposeExample) => void,
+  runExample: (example: DPersonaExample) => void,
 }) {
 
   // state
   const [searchQuery, setSearchQuery] = React.useState('');
-  const [filteredIDs, setFilteredIDs] = React.useState<SystemPurposeId[] | null>(null);
+  const [filteredIDs, setFilteredIDs] = React.useState<DPersonaId[] | null>(null);
   const [editMode, setEditMode] = React.useState(false);
+  const [knowledgeOpen, setKnowledgeOpen] = React.useState(false);
+  const [editedPersonaId, setEditedPersonaId] = React.useState<DPersonaId | null>(null);
 
 
   // external state
@@ -134,13 +144,16 @@ export function PersonaSelector(props: {
   })));
   const [showExamples, showExamplescomponent] = useChipBoolean('Examples', complexityMode === 'extra' && !props.isMobile);
   const [showPrompt, showPromptComponent] = useChipBoolean('Prompt', false);
-  const { systemPurposeId, setSystemPurposeId } = useChatStore(useShallow(state => {
+  const { systemPurposeId, customSystemPrompt, setSystemPurposeId, setCustomSystemPrompt } = useChatStore(useShallow(state => {
     const conversation = state.conversations.find(conversation => conversation.id === props.conversationId);
     return {
       systemPurposeId: conversation ? conversation.systemPurposeId : null,
+      customSystemPrompt: conversation?.customSystemPrompt,
       setSystemPurposeId: conversation ? state.setSystemPurposeId : null,
+      setCustomSystemPrompt: state.setCustomSystemPrompt,
     };
   }));
+  const personas = usePersonas();
   const { hiddenPurposeIDs, toggleHiddenPurposeId } = usePurposeStore(useShallow(state => ({
     hiddenPurposeIDs: state.hiddenPurposeIDs,
     toggleHiddenPurposeId: state.toggleHiddenPurposeId,
@@ -151,29 +164,33 @@ export function PersonaSelector(props: {
 
   // derived state
 
+  const knowledgeCollections = useKnowledgeCollections();
   const isCustomPurpose = systemPurposeId === 'Custom';
   const isYouTubeTranscriber = systemPurposeId === 'YouTubeTranscriber';
+  const personaKnowledgeIds = !systemPurposeId ? [] : knowledgeCollections.filter(c => c.personaIds.includes(systemPurposeId)).map(c => c.id);
 
   const { selectedPurpose, fourExamples } = React.useMemo(() => {
-    const selectedPurpose: SystemPurposeData | null = systemPurposeId ? (SystemPurposes[systemPurposeId] ?? null) : null;
+    const selectedPurpose: DPersona | null = systemPurposeId ? (personas.find(persona => persona.id === systemPurposeId) ?? null) : null;
     // const selectedExample = selectedPurpose?.examples?.length
     //   ? selectedPurpose.examples[Math.floor(Math.random() * selectedPurpose.examples.length)]
     //   : null;
     const fourExamples = selectedPurpose?.examples?.slice(0, 4) ?? null;
     return { selectedPurpose, fourExamples };
-  }, [systemPurposeId]);
+  }, [personas, systemPurposeId]);
 
 
-  const unfilteredPurposeIDs = (filteredIDs && showPersonaFinder) ? filteredIDs : Object.keys(SystemPurposes) as SystemPurposeId[];
+  const unfilteredPurposeIDs = (filteredIDs && showPersonaFinder) ? filteredIDs : personas.map(persona => persona.id);
   const visiblePurposeIDs = editMode ? unfilteredPurposeIDs : unfilteredPurposeIDs.filter(id => !hiddenPurposeIDs.includes(id));
   const hidePersonaCreator = hiddenPurposeIDs.includes(PURPOSE_ID_PERSONA_CREATOR);
 
 
   // Handlers
 
-  const handlePurposeChanged = React.useCallback((purposeId: SystemPurposeId | null) => {
-    if (purposeId && setSystemPurposeId)
+  const handlePurposeChanged = React.useCallback((purposeId: DPersonaId | null) => {
+    if (purposeId && setSystemPurposeId) {
       setSystemPurposeId(props.conversationId, purposeId);
+      personaApplyDefaultChatModel(purposeId);
+    }
   }, [props.conversationId, setSystemPurposeId]);
 
   const handleAppendTranscriptAsMessage = React.useCallback((messageText: string) => {
@@ -185,22 +202,45 @@ export function PersonaSelector(props: {
   }, [props.conversationId]);
 
 
+  // the custom system message belongs to this conversation, not to the 'Custom' persona
   const handleCustomSystemMessageChange = React.useCallback((v: React.ChangeEvent<HTMLTextAreaElement>): void => {
-    // TODO: persist this change? Right now it's reset every time.
-    //       maybe we shall have a "save" button just save on a state to persist between sessions
-    SystemPurposes['Custom'].systemMessage = v.target.value;
-  }, []);
+    setCustomSystemPrompt(props.conversationId, v.target.value);
+  }, [props.conversationId, setCustomSystemPrompt]);
 
   const handleSwitchToCustom = React.useCallback((customText: string) => {
     if (setSystemPurposeId) {
-      SystemPurposes['Custom'].systemMessage = customText;
+      setCustomSystemPrompt(props.conversationId, customText);
       setSystemPurposeId(props.conversationId, 'Custom');
     }
-  }, [props.conversationId, setSystemPurposeId]);
+  }, [props.conversationId, setCustomSystemPrompt, setSystemPurposeId]);
 
   const toggleEditMode = React.useCallback(() => setEditMode(on => !on), []);
 
 
+  // Library
+
+  const handlePersonaCreate = React.useCallback(() => {
+    setEditedPersonaId(personasStoreActions().createPersona({}));
+  }, []);
+
+  const handlePersonasExport = React.useCallback(() => {
+    personasExportToFile(personas.filter(persona => !persona.builtIn)).catch((error: any) => {
+      if (error?.name !== 'AbortError')
+        addSnackbar({ key: 'personas-export', type: 'issue', message: `Could not export the personas: ${error?.message || 'unknown error'}` });
+    });
+  }, [personas]);
+
+  const handlePersonasImport = React.useCallback(() => {
+    personasImportFromFile()
+      .then(imported => {
+        if (!imported) return;
+        personasStoreActions().importPersonas(imported);
+        addSnackbar({ key: 'personas-import', type: 'success', message: `Imported ${imported.length} persona${imported.length === 1 ? '' : 's'}.` });
+      })
+      .catch((error: any) => addSnackbar({ key: 'personas-import', type: 'issue', message: `Could not import the personas: ${error?.message || 'unknown error'}` }));
+  }, []);
+
+
   // Search (filtering)
 
   const handleSearchClear = React.useCallback(() => {
@@ -215,21 +255,18 @@ export function PersonaSelector(props: {
 
     // Filter results based on search term (title and description)
     const lcQuery = query.toLowerCase();
-    const ids = (Object.keys(SystemPurposes) as SystemPurposeId[])
-      .filter(key => SystemPurposes.hasOwnProperty(key))
-      .filter(key => {
-        const purpose = SystemPurposes[key as SystemPurposeId];
-        return purpose.title.toLowerCase().includes(lcQuery)
-          || (typeof purpose.description === 'string' && purpose.description.toLowerCase().includes(lcQuery));
-      });
+    const ids = personas
+      .filter(persona => persona.title.toLowerCase().includes(lcQuery)
+        || persona.description.toLowerCase().includes(lcQuery))
+      .map(persona => persona.id);
 
     setSearchQuery(query);
     setFilteredIDs(ids);
 
     // If there's a search term, activate the first item
     // if (ids.length && systemPurposeId && !ids.includes(systemPurposeId))
-    //   handlePurposeChanged(ids[0] as SystemPurposeId);
-  }, [handleSearchClear]);
+    //   handlePurposeChanged(ids[0]);
+  }, [handleSearchClear, personas]);
 
   const handleSearchOnKeyDown = React.useCallback((e: React.KeyboardEvent<HTMLInputElement>): void => {
     if (e.key == 'Escape')
@@ -297,9 +334,9 @@ export function PersonaSelector(props: {
         </Box>
 
         {/* Personas Tiles */}
-        {visiblePurposeIDs.map((spId: SystemPurposeId) => {
+        {visiblePurposeIDs.map((spId: DPersonaId) => {
           const isActive = systemPurposeId === spId;
-          const systemPurpose = SystemPurposes[spId];
+          const systemPurpose = personas.find(persona => persona.id === spId);
           return (
             <Tile
               key={'tile-' + spId}
@@ -332,6 +369,21 @@ export function PersonaSelector(props: {
           />
         )}
 
+        {/* Library: New, Import, Export */}
+        {editMode && (
+          <Box sx={{ gridColumn: '1 / -1', display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+            <Button size='sm' variant='soft' startDecorator={<AddRoundedIcon />} onClick={handlePersonaCreate}>
+              New Persona
+            </Button>
+            <Button size='sm' variant='plain' color='neutral' startDecorator={<FileUploadOutlinedIcon />} onClick={handlePersonasImport}>
+              Import
+            </Button>
+            <Button size='sm' variant='plain' color='neutral' startDecorator={<FileDownloadOutlinedIcon />} onClick={handlePersonasExport} disabled={!personas.some(persona => !persona.builtIn)}>
+              Export Mine
+            </Button>
+          </Box>
+        )}
+
 
         {/* [row -3] Description */}
         <Box sx={{ gridColumn: '1 / -1', mt: 3, display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 1 }}>
@@ -347,6 +399,16 @@ export function PersonaSelector(props: {
           <Box sx={{ display: 'flex', gap: 1 }}>
             {fourExamples && showExamplescomponent}
             {!isCustomPurpose && showPromptComponent}
+            {!!systemPurposeId && (
+              <Chip variant='outlined' startDecorator={<LibraryBooksOutlinedIcon />} onClick={() => setKnowledgeOpen(true)} sx={{ px: 1.5 }}>
+                Knowledge ({personaKnowledgeIds.length})
+              </Chip>
+            )}
+            {!!selectedPurpose && (
+              <Chip variant='outlined' startDecorator={<EditRoundedIcon />} onClick={() => setEditedPersonaId(selectedPurpose.id)} sx={{ px: 1.5 }}>
+                Edit
+              </Chip>
+            )}
           </Box>
 
         </Box>
@@ -400,19 +462,19 @@ export function PersonaSelector(props: {
                     <Button
                       variant='plain' color='neutral' size='sm'
                       endDecorator={<EditNoteIcon />}
-                      onClick={() => handleSwitchToCustom(bareBonesPromptMixer(selectedPurpose?.systemMessage || 'No system message available', chatLLM?.id))}
+                      onClick={() => handleSwitchToCustom(bareBonesPromptMixer(selectedPurpose?.systemPrompt || 'No system message available', chatLLM?.id))}
                       sx={{ ml: 'auto', my: '-0.25rem' /* absorb the button padding */ }}
                     >
                       Custom
                     </Button>
                   </Box>
                   <Typography level='body-sm' sx={{ whiteSpace: 'break-spaces' }}>
-                    {bareBonesPromptMixer(selectedPurpose?.systemMessage || 'No system message available', chatLLM?.id)}
+                    {bareBonesPromptMixer(selectedPurpose?.systemPrompt || 'No system message available', chatLLM?.id)}
                   </Typography>
-                  {!!selectedPurpose?.systemMessageNotes && (
+                  {!!selectedPurpose?.systemPromptNotes && (
                     <Alert sx={{ m: -1, mt: 1, p: 1 }}>
                       <Typography level='body-xs'>
-                        Prompt notes: {selectedPurpose.systemMessageNotes}
+                        Prompt notes: {selectedPurpose.systemPromptNotes}
                       </Typography>
                     </Alert>
                   )}
@@ -430,7 +492,7 @@ export function PersonaSelector(props: {
             variant='outlined'
             placeholder='Craft your custom system message here…'
             minRows={3}
-            defaultValue={SystemPurposes['Custom']?.systemMessage}
+            defaultValue={customSystemPrompt ?? selectedPurpose?.systemPrompt}
             onChange={handleCustomSystemMessageChange}
             endDecorator={
               <Alert sx={{ flex: 1, p: 1 }}>
@@ -462,6 +524,23 @@ export function PersonaSelector(props: {
 
       </Box>
 
+      {/* Knowledge collections, bound to this persona or not */}
+      {knowledgeOpen && (
+        <KnowledgeModal
+          initialCollectionId={personaKnowledgeIds[0]}
+          onClose={() => setKnowledgeOpen(false)}
+        />
+      )}
+
+      {/* Persona library editor */}
+      {!!editedPersonaId && (
+        <PersonaEditorModal
+          personaId={editedPersonaId}
+          onPersonaDuplicated={setEditedPersonaId}
+          onClose={() => setEditedPersonaId(null)}
+        />
+      )}
+
     </Box>
   );
 }
\ No newline at end of file
@@ -13,7 +13,7 @@ import { textToDrawCommand } from '../commands/CommandsDraw';
 import { _handleExecuteCommand, RET_NO_CMD } from './_handleExecuteCommand';
 import { runImageGenerationUpdatingState } from './image-generate';
 import { runPersonaOnConversationHead } from './chat-persona';
-import { runReActUpdatingState } from './react-tangent';
+import { runAgentUpdatingState } from './agent-tangent';
 
 
 export async function _handleExecute(chatExecuteMode: ChatExecuteMode, conversationId: DConversationId, executeCallerNameDebug: string) {
@@ -55,7 +55,7 @@ export async function _handleExecute(chatExecuteMode: ChatExecuteMode, conversat
 
   // execute a command, if the last message has one
   if (lastMessage.role === 'user') {
-    const cmdRC = await _handleExecuteCommand(lastMessage.id, firstFragment, lastMessage, cHandler, chatLLMId);
+    const cmdRC = await _handleExecuteCommand(lastMessage.id, firstFragment, lastMessage, cHandler, conversationId, chatLLMId);
     if (cmdRC !== RET_NO_CMD) return cmdRC;
   }
 
@@ -94,13 +94,13 @@ export async function _handleExecute(chatExecuteMode: ChatExecuteMode, conversat
 
       return await runImageGenerationUpdatingState(cHandler, imagePrompt, imageInputFragments);
 
-    case 'react-content':
+    case 'agent-content':
       // verify we were called with a single DMessageTextContent
       if (!isTextContentFragment(firstFragment))
         return false;
-      const reactPrompt = firstFragment.part.text;
-      cHandler.messageFragmentReplace(lastMessage.id, firstFragment.fId, createTextContentFragment(`/react ${reactPrompt}`), true);
-      return await runReActUpdatingState(cHandler, reactPrompt, chatLLMId, lastMessage.id);
+      const agentPrompt = firstFragment.part.text;
+      cHandler.messageFragmentReplace(lastMessage.id, firstFragment.fId, createTextContentFragment(`/agent ${agentPrompt}`), true);
+      return await runAgentUpdatingState(conversationId, agentPrompt, chatLLMId, lastMessage.id);
 
     default:
       console.log('Chat execute: issue running', chatExecuteMode, conversationId, lastMessage);
@@ -1,24 +1,27 @@
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
 import type { DLLMId } from '~/common/stores/llms/llms.types';
 import type { DMessage, DMessageId } from '~/common/stores/chat/chat.message';
 import { ConversationHandler } from '~/common/chat-overlay/ConversationHandler';
 import { createTextContentFragment, DMessageFragment, isContentOrAttachmentFragment, isImageRefPart, isTextContentFragment, isZyncAssetImageReferencePart } from '~/common/stores/chat/chat.fragments';
 
 import { extractChatCommand, helpPrettyChatCommands } from '../commands/commands.registry';
+import { findUserCommand } from '../commands/store-commands-user';
 import { runImageGenerationUpdatingState } from './image-generate';
-import { runReActUpdatingState } from './react-tangent';
+import { runAgentUpdatingState } from './agent-tangent';
+import { runUserCommandUpdatingState } from './user-command';
 
 
 export const RET_NO_CMD = 'no-cmd';
 
 
-export async function _handleExecuteCommand(lastMessageId: DMessageId, lastMessageFirstFragment: DMessageFragment, lastMessage: Readonly<DMessage>, cHandler: ConversationHandler, chatLLMId: DLLMId) {
+export async function _handleExecuteCommand(lastMessageId: DMessageId, lastMessageFirstFragment: DMessageFragment, lastMessage: Readonly<DMessage>, cHandler: ConversationHandler, conversationId: DConversationId, chatLLMId: DLLMId) {
 
   // commands must have a first Content DMessageTextPart
   if (!isTextContentFragment(lastMessageFirstFragment))
     return RET_NO_CMD;
 
   // check if we have a command
-  const _chatCommand = extractChatCommand(lastMessageFirstFragment.part.text)[0];
+  const [_chatCommand, _chatCommandText] = extractChatCommand(lastMessageFirstFragment.part.text);
   if (_chatCommand?.type !== 'cmd')
     return RET_NO_CMD;
 
@@ -71,10 +74,22 @@ export async function _handleExecuteCommand(lastMessageId: DMessageId, lastMessa
     //   cHandler.beamInvoke(cHandler.historyViewHead('cmd-mode-beam'), [], null);
     //   return true;
 
-    case 'cmd-mode-react':
-      // create a temporary copy of the message,
+    case 'cmd-mode-agent':
+      return await runAgentUpdatingState(conversationId, userText, chatLLMId, lastMessageId);
 
-      return await runReActUpdatingState(cHandler, userText, chatLLMId, lastMessageId);
+    case 'cmd-user':
+      const userCommandDef = findUserCommand(userCommand);
+      if (!userCommandDef) {
+        cHandler.messageAppendAssistantText('This command is not supported', 'help');
+        return false;
+      }
+      // commands without arguments get the text after them as a separate piece
+      const userCommandText = userText ?? (_chatCommandText?.type === 'nocmd' ? _chatCommandText.value : undefined);
+      const userCommandImageFragments = lastMessage.fragments.slice(1)
+        .filter(fragment => isContentOrAttachmentFragment(fragment) && (
+          isZyncAssetImageReferencePart(fragment.part) || isImageRefPart(fragment.part)
+        ));
+      return await runUserCommandUpdatingState(userCommandDef, userCommandText, cHandler, conversationId, chatLLMId, lastMessageId, lastMessageFirstFragment.fId, userCommandImageFragments);
 
     default:
       cHandler.messageAppendAssistantText('This command is not supported', 'help');
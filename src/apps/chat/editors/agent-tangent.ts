@@ -0,0 +1,69 @@
+import type { AixChatGenerateContent_DMessageGuts } from '~/modules/aix/client/aix.client';
+import { agentGenerateContent } from '~/modules/aifn/agent/agent';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import type { DMessageId } from '~/common/stores/chat/chat.message';
+import { ConversationsManager } from '~/common/chat-overlay/ConversationsManager';
+import { createErrorContentFragment } from '~/common/stores/chat/chat.fragments';
+import { DConversationId, splitSystemMessageFromHistory } from '~/common/stores/chat/chat.conversation';
+
+
+/**
+ * Agent chat function: answers the question in multiple tool-calling steps, streaming the steps into a new assistant message.
+ * @param questionMessageId the message holding the question, which is not sent as-is (e.g. it contains the '/agent' command)
+ */
+export async function runAgentUpdatingState(conversationId: DConversationId, question: string | undefined, assistantLlmId: DLLMId, questionMessageId: DMessageId) {
+  const cHandler = ConversationsManager.getHandler(conversationId);
+  if (!question) {
+    cHandler.messageAppendAssistantText('Issue: no question provided.', 'issue');
+    return false;
+  }
+
+  // the conversation up to the question, as context for the agent
+  const _history = cHandler.historyViewHeadOrThrow('runAgentUpdatingState');
+  const questionIndex = _history.findIndex(message => message.id === questionMessageId);
+  const { chatHistory: priorHistory } = splitSystemMessageFromHistory(questionIndex >= 0 ? _history.slice(0, questionIndex) : _history);
+
+  // create an assistant placeholder message - to be filled as the agent proceeds
+  const assistantModelLabel = 'react-' + assistantLlmId; // HACK: this is used to change the Avatar animation
+  const { assistantMessageId, placeholderFragmentId } = cHandler.messageAppendAssistantPlaceholder(
+    'Thinking...',
+    { generator: { mgt: 'named', name: assistantModelLabel } },
+  );
+
+  // Abort controller for the agent loop
+  const abortController = new AbortController();
+  cHandler.setAbortController(abortController, 'agent-tangent');
+
+  try {
+
+    const { outcome, lastDMessage } = await agentGenerateContent(
+      assistantLlmId,
+      question,
+      priorHistory,
+      conversationId,
+      abortController.signal,
+      (messageOverwrite: AixChatGenerateContent_DMessageGuts, messageComplete: boolean) => {
+        // [Cosmetic Logic] if the content hasn't come yet, don't replace the fragments to still show the placeholder
+        const { fragments, ...rest } = messageOverwrite;
+        const includeFragments = !!fragments?.length || messageComplete || !messageOverwrite.pendingIncomplete;
+        cHandler.messageEdit(assistantMessageId, { ...(includeFragments && { fragments }), ...rest }, messageComplete, false);
+      },
+    );
+
+    if (outcome === 'failed')
+      cHandler.messageEdit(assistantMessageId, lastDMessage, true, false);
+
+    return outcome === 'completed';
+  } catch (error: any) {
+    console.error('Agent error', error);
+
+    const agentError = `Issue: the Agent couldn't answer your question. ${error?.message || error?.toString() || 'Unknown error'}`;
+    cHandler.messageFragmentReplace(assistantMessageId, placeholderFragmentId, createErrorContentFragment(agentError), true);
+
+    return false;
+  } finally {
+    // FIXME: Massive race condition here
+    cHandler.clearAbortController('agent-tangent');
+  }
+}
@@ -1,12 +1,23 @@
-import { aixChatGenerateContent_DMessage_FromConversation, AixChatGenerateContent_DMessageGuts } from '~/modules/aix/client/aix.client';
+import type { AixChatGenerateContent_DMessageGuts } from '~/modules/aix/client/aix.client';
 import { autoChatFollowUps } from '~/modules/aifn/auto-chat-follow-ups/autoChatFollowUps';
 import { autoConversationTitle } from '~/modules/aifn/autotitle/autoTitle';
-
+import { knowledgeAugmentSystemInstruction } from '~/modules/knowledge/knowledge.chat';
+import { mcpServersEnsureToolsLoaded } from '~/modules/mcp/mcp.tools';
+import { personaLlmOptionsOverride, personaVoiceSelector } from '~/modules/persona/store-personas';
+import { ragReduceChatHistory } from '~/modules/rag/rag.chat';
+import { responseSchemaForConversation, responseSchemaToStrictJsonOutput, responseSchemaValidateReply } from '~/modules/schemas/schemas.chat';
+import { clientToolsForChat } from '~/modules/tools/tools.registry';
+import { clientToolsGenerateContentWithLoop } from '~/modules/tools/tools.loop';
+import { useClientToolsStore } from '~/modules/tools/store-module-tools';
+
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
+import { isTextContentFragment } from '~/common/stores/chat/chat.fragments';
 import { DConversationId, splitSystemMessageFromHistory } from '~/common/stores/chat/chat.conversation';
 import type { DLLMId } from '~/common/stores/llms/llms.types';
 import { AudioGenerator } from '~/common/util/audio/AudioGenerator';
 import { ConversationsManager } from '~/common/chat-overlay/ConversationsManager';
-import { DMessage, MESSAGE_FLAG_NOTIFY_COMPLETE, messageWasInterruptedAtStart } from '~/common/stores/chat/chat.message';
+import { DMessage, DMetaRetrievedChunk, MESSAGE_FLAG_NOTIFY_COMPLETE, messageWasInterruptedAtStart } from '~/common/stores/chat/chat.message';
+import { getConversation } from '~/common/stores/chat/store-chats';
 import { getLabsHighPerformance } from '~/common/stores/store-ux-labs';
 
 import { PersonaChatMessageSpeak } from './persona/PersonaChatMessageSpeak';
@@ -58,20 +69,72 @@ export async function runPersonaOnConversationHead(
   const { autoSpeak, autoSuggestDiagrams, autoSuggestHTMLUI, autoSuggestQuestions, autoTitleChat } = getChatAutoAI();
 
   // AutoSpeak
-  const autoSpeaker: PersonaProcessorInterface | null = autoSpeak !== 'off' ? new PersonaChatMessageSpeak(autoSpeak) : null;
+  const autoSpeaker: PersonaProcessorInterface | null = autoSpeak !== 'off' ? new PersonaChatMessageSpeak(autoSpeak, personaVoiceSelector(getConversation(conversationId)?.systemPurposeId)) : null;
 
   // when an abort controller is set, the UI switches to the "stop" mode
   const abortController = new AbortController();
   cHandler.setAbortController(abortController, 'chat-persona');
 
+  // knowledge: the documents of the collections bound to the folder or persona of the conversation
+  const retrievedChunks: DMetaRetrievedChunk[] = [];
+  try {
+    const knowledge = await knowledgeAugmentSystemInstruction(conversationId, getConversation(conversationId)?.systemPurposeId ?? null, chatSystemInstruction, chatHistory, abortController.signal);
+    if (knowledge) {
+      chatSystemInstruction = knowledge.chatSystemInstruction;
+      retrievedChunks.push(...knowledge.retrievedChunks);
+      if (knowledge.retrievalError)
+        addSnackbar({ key: 'chat-knowledge-rag-failed', message: `Knowledge retrieval failed, sending the full documents: ${knowledge.retrievalError}`, type: 'issue' });
+    }
+  } catch (error: any) {
+    // send without the knowledge documents - when aborted, the generation below will stop right away
+    if (!abortController.signal.aborted) {
+      console.warn('runPersonaOnConversationHead: knowledge error', error);
+      addSnackbar({ key: 'chat-knowledge-failed', message: `Knowledge documents could not be added: ${error?.message || 'unknown error'}`, type: 'issue' });
+    }
+  }
+
+  // retrieval: send only the relevant chunks of large documents - the conversation keeps the full documents
+  try {
+    const ragResult = await ragReduceChatHistory(chatHistory, abortController.signal);
+    if (ragResult) {
+      chatHistory = ragResult.chatHistory;
+      retrievedChunks.push(...ragResult.retrievedChunks);
+    }
+  } catch (error: any) {
+    // send the full documents instead
+    if (!abortController.signal.aborted) {
+      console.warn('runPersonaOnConversationHead: retrieval error', error);
+      addSnackbar({ key: 'chat-rag-failed', message: `Retrieval failed, sending the full documents: ${error?.message || 'unknown error'}`, type: 'issue' });
+    }
+  }
+  if (retrievedChunks.length)
+    cHandler.messageEdit(assistantMessageId, { metadata: { retrievedChunks } }, false, false);
+
+  // response schema: the reply is JSON, constrained to the schema of the conversation or of its persona
+  const responseSchema = responseSchemaForConversation(conversationId);
+  const strictJsonOutput = responseSchema ? responseSchemaToStrictJsonOutput(responseSchema) : null;
+  if (responseSchema && strictJsonOutput)
+    cHandler.messageEdit(assistantMessageId, message => ({ metadata: { ...message.metadata, structuredOutput: { schemaName: responseSchema.name } } }), false, false);
+
+  // client-side function tools - none unless enabled - executed in a loop until the model replies without calling any
+  if (useClientToolsStore.getState().chatToolsEnabled)
+    await mcpServersEnsureToolsLoaded();
+  const clientTools = clientToolsForChat();
+  const maxToolSteps = getConversation(conversationId)?.toolsMaxSteps ?? useClientToolsStore.getState().defaultMaxSteps;
+
+  // persona model parameters (e.g. temperature), over the ones of the model
+  const llmOptionsOverride = personaLlmOptionsOverride(getConversation(conversationId)?.systemPurposeId ?? null);
+
   // stream the assistant's messages directly to the state store
-  const messageStatus = await aixChatGenerateContent_DMessage_FromConversation(
+  const messageStatus = await clientToolsGenerateContentWithLoop(
     assistantLlmId,
     chatSystemInstruction,
     chatHistory,
     'conversation',
     conversationId,
-    { abortSignal: abortController.signal, throttleParallelThreads: parallelViewCount },
+    clientTools,
+    maxToolSteps,
+    { abortSignal: abortController.signal, throttleParallelThreads: parallelViewCount, conversationId, fallbackDomainId: 'primaryChat', ...(strictJsonOutput && { strictJsonOutput }), ...(llmOptionsOverride && { llmOptionsOverride }) },
     (messageOverwrite: AixChatGenerateContent_DMessageGuts, messageComplete: boolean) => {
 
       // Note: there was an abort check here, but it removed the last packet, which contained the cause and final text.
@@ -107,6 +170,15 @@ export async function runPersonaOnConversationHead(
     return false;
   }
 
+  // validate the reply against the schema, as not every vendor enforces it
+  if (responseSchema && strictJsonOutput && messageStatus.outcome === 'completed') {
+    const replyFragment = lastDMessage.fragments.findLast(isTextContentFragment);
+    if (replyFragment) {
+      const structuredOutput = responseSchemaValidateReply(strictJsonOutput.schema, responseSchema.name, replyFragment.part.text);
+      cHandler.messageEdit(assistantMessageId, message => ({ metadata: { ...message.metadata, structuredOutput } }), false, false);
+    }
+  }
+
   // notify when complete, if set
   if (cHandler.messageHasUserFlag(assistantMessageId, MESSAGE_FLAG_NOTIFY_COMPLETE)) {
     cHandler.messageSetUserFlag(assistantMessageId, MESSAGE_FLAG_NOTIFY_COMPLETE, false, false);
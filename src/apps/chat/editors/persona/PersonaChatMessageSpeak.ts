@@ -1,4 +1,5 @@
 import type { AixChatGenerateContent_DMessageGuts } from '~/modules/aix/client/aix.client';
+import type { SpeexVoiceSelector } from '~/modules/speex/speex.types';
 import { speakText } from '~/modules/speex/speex.client';
 
 import { isTextContentFragment } from '~/common/stores/chat/chat.fragments';
@@ -12,7 +13,7 @@ export type AutoSpeakType = 'off' | 'firstLine' | 'all';
 export class PersonaChatMessageSpeak implements PersonaProcessorInterface {
   private spokenLine: boolean = false;
 
-  constructor(private autoSpeakType: AutoSpeakType) {
+  constructor(private autoSpeakType: AutoSpeakType, private voiceSelector: SpeexVoiceSelector = undefined) {
   }
 
   handleMessage(accumulatedMessage: Partial<AixChatGenerateContent_DMessageGuts>, messageComplete: boolean) {
@@ -58,6 +59,6 @@ export class PersonaChatMessageSpeak implements PersonaProcessorInterface {
     console.log('📢 TTS:', text);
     this.spokenLine = true;
     // fire/forget: we don't want to stall streaming
-    void speakText(text, undefined, { label: 'Chat message' });
+    void speakText(text, this.voiceSelector, { label: 'Chat message' });
   }
 }
@@ -0,0 +1,76 @@
+import { getPersona } from '~/modules/persona/store-personas';
+import { promptTemplateUserVariables } from '~/modules/prompts/prompts.template';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import type { DMessage, DMessageId } from '~/common/stores/chat/chat.message';
+import type { Immutable } from '~/common/types/immutable.types';
+import { ConversationHandler } from '~/common/chat-overlay/ConversationHandler';
+import { createTextContentFragment, DMessageFragment } from '~/common/stores/chat/chat.fragments';
+import { getConversationSystemPurposeId, useChatStore } from '~/common/stores/chat/store-chats';
+import { llmsStoreState } from '~/common/stores/llms/store-llms';
+
+import type { DUserCommand } from '../commands/store-commands-user';
+import { userCommandFillPrompt } from '../commands/CommandsUser';
+
+import { runAgentUpdatingState } from './agent-tangent';
+import { runImageGenerationUpdatingState } from './image-generate';
+import { runPersonaOnConversationHead } from './chat-persona';
+
+
+/**
+ * User command: replaces the command with its filled-in prompt, then runs it with the model,
+ * persona and execute mode of the command.
+ */
+export async function runUserCommandUpdatingState(
+  command: DUserCommand,
+  userText: string | undefined,
+  cHandler: ConversationHandler,
+  conversationId: DConversationId,
+  chatLLMId: DLLMId,
+  commandMessageId: DMessageId,
+  commandFragmentId: string,
+  imageInputFragments: Immutable<DMessageFragment[]>,
+) {
+
+  // the persona of the command replaces the persona of the chat, as when selected
+  const persona = command.personaId ? getPersona(command.personaId) : null;
+  if (persona && persona.id !== getConversationSystemPurposeId(conversationId)) {
+    useChatStore.getState().setSystemPurposeId(conversationId, persona.id);
+    const history = [...cHandler.historyViewHeadOrThrow('user-command-persona')] as DMessage[];
+    ConversationHandler.inlineUpdatePurposeInHistory(conversationId, history, chatLLMId);
+    cHandler.historyReplace(history);
+  }
+
+  // model: of the command, of the persona, or of the chat - if still available
+  const { llms } = llmsStoreState();
+  const llmId = [command.llmId, persona?.llmId].find(id => !!id && llms.some(llm => llm.id === id)) ?? chatLLMId;
+
+  const prompt = userCommandFillPrompt(command, userText, llmId);
+  if (prompt === null) {
+    const argumentNames = promptTemplateUserVariables(command.prompt).map(variable => variable.name);
+    cHandler.messageAppendAssistantText(`Issue: /${command.name} requires: ${argumentNames.join(', ')}.`, 'issue');
+    return false;
+  }
+
+  // the user message shows the prompt, rather than the command
+  cHandler.messageFragmentReplace(commandMessageId, commandFragmentId, createTextContentFragment(prompt), true);
+
+  switch (command.executeMode) {
+    case 'generate-content':
+      return await runPersonaOnConversationHead(llmId, conversationId);
+
+    case 'beam-content':
+      cHandler.beamInvoke(cHandler.historyViewHeadOrThrow('user-command-beam'), [], null);
+      return true;
+
+    case 'append-user':
+      return true;
+
+    case 'generate-image':
+      return await runImageGenerationUpdatingState(cHandler, prompt, imageInputFragments);
+
+    case 'agent-content':
+      return await runAgentUpdatingState(conversationId, prompt, llmId, commandMessageId);
+  }
+}
@@ -53,10 +53,10 @@ export const ExecuteModeItems: { [key in ChatExecuteMode]: ModeDescription } = {
     sendColor: 'warning',
     sendText: 'Draw',
   },
-  'react-content': {
-    label: 'Reason + Act', //  · α
-    description: 'Answer questions in multiple steps',
+  'agent-content': {
+    label: 'Agent',
+    description: 'Answer questions in multiple steps, with tools',
     sendColor: 'success',
-    sendText: 'ReAct',
+    sendText: 'Agent',
   },
 };
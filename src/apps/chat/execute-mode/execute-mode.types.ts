@@ -3,9 +3,9 @@
  * Was: ChatModeId
  */
 export type ChatExecuteMode =
+  | 'agent-content'
   | 'append-user'
   | 'beam-content'
   | 'generate-content'
   | 'generate-image'
-  | 'react-content'
   ;
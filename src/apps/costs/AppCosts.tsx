@@ -0,0 +1,255 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { Box, Button, Card, Chip, Input, Option, Select, Table, ToggleButtonGroup, Tooltip, Typography } from '@mui/joy';
+
+import type { DModelsService } from '~/common/stores/llms/llms.service.types';
+import { COST_SURFACE_LABELS, costLedgerBuckets, costLedgerGroupBy, costLedgerSum, costPeriodStart, DCostBudget, DCostBudgetPeriod, DCostLedgerEntry } from '~/common/stores/metrics/metrics.ledger';
+import { conversationTitle } from '~/common/stores/chat/chat.conversation';
+import { costLedgerActions, useCostLedgerStore } from '~/common/stores/metrics/store-metrics-ledger';
+import { formatModelsCost } from '~/common/util/costUtils';
+import { launchAppChat } from '~/common/app.routes';
+import { useChatStore } from '~/common/stores/chat/store-chats';
+import { useModelsServices } from '~/common/stores/llms/llms.hooks';
+
+import { AppSmallContainer } from '../AppSmallContainer';
+
+
+// configuration
+const CHART_BUCKETS = { day: 30, week: 12 } as const;
+const TOP_CONVERSATIONS = 10;
+const TOP_MODELS = 10;
+
+
+type Granularity = keyof typeof CHART_BUCKETS;
+
+
+function CostBarChart(props: { buckets: { start: number, cost: number }[], granularity: Granularity }) {
+  const max = Math.max(...props.buckets.map(b => b.cost), 0.0001);
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-end', gap: '2px', height: 160 }}>
+      {props.buckets.map(bucket => {
+        const date = new Date(bucket.start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+        return (
+          <Tooltip key={bucket.start} title={`${props.granularity === 'week' ? 'Week of ' : ''}${date}: ${formatModelsCost(bucket.cost)}`}>
+            <Box sx={{
+              flex: 1,
+              height: `${Math.max(1, 100 * bucket.cost / max)}%`,
+              borderRadius: '2px 2px 0 0',
+              backgroundColor: bucket.cost ? 'primary.solidBg' : 'neutral.outlinedBorder',
+              '&:hover': { backgroundColor: 'primary.solidHoverBg' },
+            }} />
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+}
+
+
+function CostBreakdown(props: { title: string, rows: { key: string, label: React.ReactNode, cost: number, count: number }[] }) {
+  return (
+    <Card variant='outlined' sx={{ gap: 1 }}>
+      <Typography level='title-md'>{props.title}</Typography>
+      {!props.rows.length ? <Typography level='body-sm'>No spending in this period.</Typography> : (
+        <Table size='sm' borderAxis='none' sx={{ '& td:last-child, & th:last-child': { textAlign: 'right' } }}>
+          <tbody>
+            {props.rows.map(row => (
+              <tr key={row.key}>
+                <td style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.label}</td>
+                <td style={{ width: 80 }}><Typography level='body-xs'>{row.count} calls</Typography></td>
+                <td style={{ width: 80 }}>{formatModelsCost(row.cost)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      )}
+    </Card>
+  );
+}
+
+
+function ServiceBudgetRow(props: { service: DModelsService, budget: DCostBudget | undefined, entries: DCostLedgerEntry[] }) {
+
+  const { service, budget } = props;
+  const period: DCostBudgetPeriod = budget?.period ?? 'month';
+  const spent = costLedgerSum(props.entries, costPeriodStart(period), service.id);
+
+  const update = (update: Partial<DCostBudget>) => {
+    const next: DCostBudget = { sId: service.id, period, ...budget, ...update };
+    if (!next.softLimit && !next.hardLimit)
+      costLedgerActions().removeBudget(service.id);
+    else
+      costLedgerActions().setBudget(next);
+  };
+
+  const limitInput = (key: 'softLimit' | 'hardLimit', placeholder: string) => (
+    <Input
+      size='sm'
+      type='number'
+      placeholder={placeholder}
+      startDecorator='$'
+      value={budget?.[key] ?? ''}
+      onChange={event => {
+        const value = parseFloat(event.target.value);
+        update({ [key]: value > 0 ? value : undefined });
+      }}
+      slotProps={{ input: { min: 0, step: 1 } }}
+    />
+  );
+
+  const overHard = !!budget?.hardLimit && spent >= budget.hardLimit;
+  const overSoft = !!budget?.softLimit && spent >= budget.softLimit;
+
+  return (
+    <tr>
+      <td>{service.label}</td>
+      <td>
+        <Select size='sm' value={period} onChange={(_event, value) => value && update({ period: value })}>
+          <Option value='day'>Daily</Option>
+          <Option value='week'>Weekly</Option>
+          <Option value='month'>Monthly</Option>
+        </Select>
+      </td>
+      <td>{limitInput('softLimit', 'Warn at')}</td>
+      <td>{limitInput('hardLimit', 'Block at')}</td>
+      <td>
+        <Chip size='sm' variant='soft' color={overHard ? 'danger' : overSoft ? 'warning' : 'neutral'}>
+          {formatModelsCost(spent)}
+        </Chip>
+      </td>
+    </tr>
+  );
+}
+
+
+export function AppCosts() {
+
+  // state
+  const [granularity, setGranularity] = React.useState<Granularity>('day');
+
+  // external state
+  const { entries, budgets } = useCostLedgerStore(useShallow(state => ({ entries: state.entries, budgets: state.budgets })));
+  const { modelsServices } = useModelsServices();
+  const conversations = useChatStore(state => state.conversations);
+
+
+  // derived state
+
+  const buckets = React.useMemo(() => costLedgerBuckets(entries, granularity, CHART_BUCKETS[granularity]), [entries, granularity]);
+  const since = buckets[0].start;
+
+  const totals = React.useMemo(() => ({
+    today: costLedgerSum(entries, costPeriodStart('day')),
+    week: costLedgerSum(entries, costPeriodStart('week')),
+    month: costLedgerSum(entries, costPeriodStart('month')),
+    period: costLedgerSum(entries, since),
+  }), [entries, since]);
+
+  const surfaceRows = React.useMemo(() => costLedgerGroupBy(entries, since, e => e.surface)
+    .map(g => ({ ...g, label: COST_SURFACE_LABELS[g.key] })), [entries, since]);
+
+  const modelRows = React.useMemo(() => costLedgerGroupBy(entries, since, e => e.llmId)
+    .slice(0, TOP_MODELS)
+    .map(g => ({ ...g, label: g.key })), [entries, since]);
+
+  const conversationRows = React.useMemo(() => costLedgerGroupBy(entries, since, e => e.cId)
+    .slice(0, TOP_CONVERSATIONS)
+    .map(g => {
+      const conversation = conversations.find(c => c.id === g.key);
+      return {
+        ...g,
+        label: !conversation ? <Typography level='body-sm' sx={{ fontStyle: 'italic' }}>Deleted conversation</Typography> : (
+          <Typography level='body-sm' onClick={() => void launchAppChat(g.key)} sx={{ cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}>
+            {conversationTitle(conversation)}
+          </Typography>
+        ),
+      };
+    }), [conversations, entries, since]);
+
+
+  // handlers
+
+  const handleClearHistory = React.useCallback(() => {
+    if (window.confirm('Delete the spending history? The budgets are kept, and restart from zero.'))
+      costLedgerActions().clearEntries();
+  }, []);
+
+
+  return (
+    <AppSmallContainer
+      title='Costs'
+      description='Approximate spending on AI services, from the prices of the models. Set budgets to be warned, or to stop, when a service spends too much.'
+    >
+
+      {/* Totals */}
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))', gap: 2 }}>
+        {([['Today', totals.today], ['This week', totals.week], ['This month', totals.month]] as const).map(([label, cost]) => (
+          <Card key={label} variant='soft'>
+            <Typography level='body-sm'>{label}</Typography>
+            <Typography level='h3'>{formatModelsCost(cost)}</Typography>
+          </Card>
+        ))}
+      </Box>
+
+      {/* Chart */}
+      <Card variant='outlined'>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+          <Typography level='title-md'>
+            {formatModelsCost(totals.period)} in the last {CHART_BUCKETS[granularity]} {granularity === 'day' ? 'days' : 'weeks'}
+          </Typography>
+          <ToggleButtonGroup size='sm' value={granularity} onChange={(_event, value) => value && setGranularity(value)}>
+            <Button value='day'>Daily</Button>
+            <Button value='week'>Weekly</Button>
+          </ToggleButtonGroup>
+        </Box>
+        <CostBarChart buckets={buckets} granularity={granularity} />
+      </Card>
+
+      {/* Breakdowns */}
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+        <CostBreakdown title='By surface' rows={surfaceRows} />
+        <CostBreakdown title='By model' rows={modelRows} />
+      </Box>
+      <CostBreakdown title='Top conversations' rows={conversationRows} />
+
+      {/* Budgets */}
+      <Card variant='outlined' sx={{ gap: 1 }}>
+        <Typography level='title-md'>Budgets</Typography>
+        <Typography level='body-sm'>
+          Past the soft limit you are warned once per period; past the hard limit, new requests to the service are blocked until the next period.
+        </Typography>
+        {!modelsServices.length ? <Typography level='body-sm'>No AI services configured.</Typography> : (
+          <Table size='sm' borderAxis='xBetween'>
+            <thead>
+              <tr>
+                <th>Service</th>
+                <th style={{ width: 110 }}>Period</th>
+                <th>Soft limit</th>
+                <th>Hard limit</th>
+                <th style={{ width: 90 }}>Spent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {modelsServices.map(service => (
+                <ServiceBudgetRow
+                  key={service.id}
+                  service={service}
+                  budget={budgets.find(b => b.sId === service.id)}
+                  entries={entries}
+                />
+              ))}
+            </tbody>
+          </Table>
+        )}
+      </Card>
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <Button size='sm' variant='plain' color='neutral' disabled={!entries.length} onClick={handleClearHistory}>
+          Clear history
+        </Button>
+      </Box>
+
+    </AppSmallContainer>
+  );
+}
@@ -1,9 +1,13 @@
 import * as React from 'react';
 import TimeAgo from 'react-timeago';
 
-import { Typography } from '@mui/joy';
+import { Box, Button, Typography } from '@mui/joy';
+import PersonAddAlt1OutlinedIcon from '@mui/icons-material/PersonAddAlt1Outlined';
+
+import { personasStoreActions } from '~/modules/persona/store-personas';
 
 import { Link } from '~/common/components/Link';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
 import { useUIContentScaling } from '~/common/stores/store-ui';
 
 import { PersonaPromptCard } from './Creator';
@@ -16,6 +20,22 @@ export function Viewer(props: { selectedSimplePersonaId: string }) {
   const contentScaling = useUIContentScaling();
   const { simplePersona } = useSimplePersona(props.selectedSimplePersonaId);
 
+
+  // the created prompt becomes a persona of the library, selectable in the chats
+  const handleAddToPersonas = React.useCallback(() => {
+    if (!simplePersona) return;
+    const thumbnailUrl = simplePersona.inputProvenance?.type === 'youtube' ? simplePersona.inputProvenance.thumbnailUrl : undefined;
+    personasStoreActions().createPersona({
+      title: simplePersona.name || simplePersona.inputProvenance?.type === 'youtube' && simplePersona.inputProvenance.title || 'Created Persona',
+      description: `Created with the Persona Creator${simplePersona.llmLabel ? ` using ${simplePersona.llmLabel}` : ''}.`,
+      symbol: '🎭',
+      ...((simplePersona.pictureUrl || thumbnailUrl) && { imageUri: simplePersona.pictureUrl || thumbnailUrl }),
+      systemPrompt: simplePersona.systemPrompt,
+    });
+    addSnackbar({ key: 'persona-creator-added', type: 'success', message: 'Added to the personas: select it in any chat.' });
+  }, [simplePersona]);
+
+
   if (!simplePersona)
     return <Typography level='body-sm'>Loading Persona...</Typography>;
 
@@ -31,6 +51,12 @@ export function Viewer(props: { selectedSimplePersonaId: string }) {
       contentScaling={contentScaling}
     />
 
+    <Box>
+      <Button variant='soft' startDecorator={<PersonAddAlt1OutlinedIcon />} disabled={!simplePersona.systemPrompt} onClick={handleAddToPersonas}>
+        Add to Personas
+      </Button>
+    </Box>
+
     {/* tell about the Provenances */}
     <Typography level='body-sm' sx={{ mt: 3 }}>
       {simplePersona.inputProvenance?.type === 'youtube' && <>The source was this YouTube video: <Link href={simplePersona.inputProvenance.url} target='_blank'>{simplePersona.inputProvenance.title}</Link>.</>}
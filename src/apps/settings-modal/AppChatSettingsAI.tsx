@@ -1,15 +1,20 @@
 import * as React from 'react';
 
-import { FormControl, ListDivider, Switch } from '@mui/joy';
+import { Box, Button, Chip, ChipDelete, FormControl, ListDivider, Switch } from '@mui/joy';
 import CodeIcon from '@mui/icons-material/Code';
 import EditRoundedIcon from '@mui/icons-material/EditRounded';
 import WarningRoundedIcon from '@mui/icons-material/WarningRounded';
 
+import { aixResponseCacheClear, aixResponseCacheCount } from '~/modules/aix/client/aix.client.cache';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
 import type { DModelDomainId } from '~/common/stores/llms/model.domains.types';
 import { AIVndAntInlineFilesPolicy, useAIPreferencesStore } from '~/common/stores/store-ai';
 import { FormLabelStart } from '~/common/components/forms/FormLabelStart';
 import { FormSelectControl, FormSelectOption } from '~/common/components/forms/FormSelectControl';
 import { useLLMSelect } from '~/common/components/forms/useLLMSelect';
+import { llmsStoreActions, useModelsStore } from '~/common/stores/llms/store-llms';
+import { useLLMs } from '~/common/stores/llms/llms.hooks';
 import { useModelDomain } from '~/common/stores/llms/hooks/useModelDomain';
 
 import type { ChatThinkingPolicy, TokenCountingMethod } from '../chat/store-app-chat';
@@ -40,6 +45,20 @@ const _vndAntInlineFilesOptions: FormSelectOption<AIVndAntInlineFilesPolicy>[] =
   { value: 'inline-file-and-delete', label: 'Embed + Free', description: 'Embed, then free' },
 ] as const;
 
+const _responseCacheTtlOptions: FormSelectOption<string>[] = [
+  { value: '1', label: '1 hour', description: 'Short-lived' },
+  { value: '24', label: '1 day', description: 'Default' },
+  { value: '168', label: '1 week', description: 'Longer reuse' },
+  { value: '720', label: '30 days', description: 'Longest' },
+] as const;
+
+const _videoFrameIntervalOptions: FormSelectOption<string>[] = [
+  { value: '5', label: 'Every 5s', description: 'Detailed' },
+  { value: '10', label: 'Every 10s', description: 'Default' },
+  { value: '30', label: 'Every 30s', description: 'Fewer tokens' },
+  { value: '60', label: 'Every minute', description: 'Long videos' },
+] as const;
+
 const _tokenCountingMethodOptions: FormSelectOption<TokenCountingMethod>[] = [
   {
     value: 'approximate',
@@ -83,6 +102,95 @@ function FormControlDomainModel(props: {
 }
 
 
+const _noFallbacks: DLLMId[] = [];
+
+function FormControlDomainFallbacks(props: {
+  domainId: DModelDomainId,
+  title: React.ReactNode,
+  description?: React.ReactNode,
+}) {
+
+  // external state
+  const fallbackLlmIds = useModelsStore(state => state.modelFallbacks[props.domainId]) ?? _noFallbacks;
+  const fallbackLlms = useLLMs(fallbackLlmIds);
+
+  // handlers
+  const { domainId } = props;
+  const handleAdd = React.useCallback((llmId: DLLMId) => {
+    if (!fallbackLlmIds.includes(llmId))
+      llmsStoreActions().setDomainModelFallbacks(domainId, [...fallbackLlmIds, llmId]);
+  }, [domainId, fallbackLlmIds]);
+
+  const handleRemove = (llmId: DLLMId) => llmsStoreActions().setDomainModelFallbacks(domainId, fallbackLlmIds.filter(id => id !== llmId));
+
+  const [_llm, llmComponent] = useLLMSelect(null, handleAdd, {
+    label: '',
+    placeholder: fallbackLlmIds.length ? 'Then...' : 'Add...',
+  });
+
+  return (
+    <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between', alignItems: 'flex-start' }}>
+      <FormLabelStart
+        title={props.title}
+        description={props.description}
+        tooltip='When the model is overloaded or down (429/5xx errors, after the retries), the request is sent to these models, in order. The message shows which model answered.'
+      />
+      <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: 0.5 }}>
+        {fallbackLlmIds.map((llmId, index) => (
+          <Chip key={llmId} size='sm' variant='outlined' endDecorator={<ChipDelete onDelete={() => handleRemove(llmId)} />}>
+            {index + 1}. {fallbackLlms[index]?.label ?? `${llmId} (missing)`}
+          </Chip>
+        ))}
+        {llmComponent}
+      </Box>
+    </FormControl>
+  );
+}
+
+
+function FormControlResponseCacheDomain(props: {
+  domainId: DModelDomainId,
+  title: React.ReactNode,
+  description: React.ReactNode,
+  tooltip: React.ReactNode,
+}) {
+  const { domainId } = props;
+  const enabled = useAIPreferencesStore(state => state.responseCacheDomains.includes(domainId));
+  return (
+    <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between' }}>
+      <FormLabelStart title={props.title} description={enabled ? props.description : 'Off'} tooltip={props.tooltip} />
+      <Switch checked={enabled} onChange={event => useAIPreferencesStore.getState().setResponseCacheDomain(domainId, event.target.checked)}
+              endDecorator={enabled ? 'On' : 'Off'}
+              slotProps={{ endDecorator: { sx: { minWidth: 26 } } }} />
+    </FormControl>
+  );
+}
+
+function FormControlResponseCacheClear() {
+
+  // state
+  const [count, setCount] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    aixResponseCacheCount().then(setCount).catch(() => setCount(null));
+  }, []);
+
+  const handleClear = React.useCallback(async () => {
+    await aixResponseCacheClear();
+    setCount(0);
+  }, []);
+
+  return (
+    <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between' }}>
+      <FormLabelStart title='Cached replies' description={count === null ? '...' : `${count.toLocaleString()} stored`} />
+      <Button size='sm' variant='outlined' color='neutral' disabled={!count} onClick={handleClear}>
+        Clear
+      </Button>
+    </FormControl>
+  );
+}
+
+
 export function AppChatSettingsAI() {
 
   const {
@@ -95,6 +203,9 @@ export function AppChatSettingsAI() {
     tokenCountingMethod, setTokenCountingMethod,
   } = useChatAutoAI();
   const vndAntInlineFiles = useAIPreferencesStore(state => state.vndAntInlineFiles);
+  const hasResponseCache = useAIPreferencesStore(state => state.responseCacheDomains.length > 0);
+  const responseCacheTtlHours = useAIPreferencesStore(state => state.responseCacheTtlHours);
+  const videoFrameIntervalSec = useAIPreferencesStore(state => state.videoFrameIntervalSec);
 
   const showModelIcons = false; // useUIComplexityMode() === 'extra';
 
@@ -166,6 +277,14 @@ export function AppChatSettingsAI() {
       onChange={setChatThinkingPolicy}
     />
 
+    <FormSelectControl
+      title='Video frames'
+      tooltip='When a video is attached as "Frames + Transcript", one frame is sampled at this interval, and the audio track is transcribed. Long videos are sampled less often, to keep the number of images reasonable.'
+      options={_videoFrameIntervalOptions}
+      value={String(videoFrameIntervalSec)}
+      onChange={value => useAIPreferencesStore.getState().setVideoFrameIntervalSec(parseInt(value, 10))}
+    />
+
     <FormSelectControl<AIVndAntInlineFilesPolicy>
       title='Anthropic Files'
       tooltip={<>
@@ -182,6 +301,37 @@ export function AppChatSettingsAI() {
       onChange={useAIPreferencesStore.getState().setVndAntInlineFiles}
     />
 
+    <ListDivider inset='gutter'>Failover</ListDivider>
+
+    <FormControlDomainFallbacks domainId='primaryChat' title='Chat fallbacks' description='If the chat model fails' />
+    <FormControlDomainFallbacks domainId='fastUtil' title='Utility fallbacks' description='If the utility model fails' />
+    <FormControlDomainFallbacks domainId='codeApply' title='Coding fallbacks' description='If the coding model fails' />
+
+    <ListDivider inset='gutter'>Response Cache</ListDivider>
+
+    <FormControlResponseCacheDomain
+      domainId='fastUtil'
+      title='Cache utility calls'
+      description='Titles, prompts'
+      tooltip='[Utility model]  Identical requests for chat titles and attachment prompts are answered from a local cache, instead of calling the AI service again. Cached replies are free and instant.'
+    />
+    <FormControlResponseCacheDomain
+      domainId='imageCaption'
+      title='Cache captions'
+      description='Same images'
+      tooltip='[Vision model]  Captioning the same image again replays the stored caption, instead of calling the AI service again.'
+    />
+
+    {hasResponseCache && <FormSelectControl
+      title='Keep for'
+      tooltip='How long the cached replies are reused. After this time, the request is sent to the AI service again.'
+      options={_responseCacheTtlOptions}
+      value={String(responseCacheTtlHours)}
+      onChange={value => useAIPreferencesStore.getState().setResponseCacheTtlHours(parseInt(value, 10))}
+    />}
+
+    {hasResponseCache && <FormControlResponseCacheClear />}
+
     <ListDivider inset='gutter'>Automatic AI Functions</ListDivider>
 
     <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between' }}>
@@ -10,7 +10,10 @@ import { optimaActions } from '~/common/layout/optima/useOptima';
 
 import { ASRxConfigureEngines } from '~/modules/asrx/components/ASRxConfigureEngines';
 import { BrowseSettings } from '~/modules/browse/BrowseSettings';
+import { ClientToolsSettings } from '~/modules/tools/ClientToolsSettings';
+import { McpSettings } from '~/modules/mcp/McpSettings';
 import { GoogleSearchSettings } from '~/modules/google/GoogleSearchSettings';
+import { RagSettings } from '~/modules/rag/RagSettings';
 import { T2IConfigureEngines } from '~/modules/t2i/components/T2IConfigureEngines';
 
 import type { SettingsNavId } from './settings.nav';
@@ -198,17 +201,23 @@ function renderSection(nodeId: SettingsNavId, isMobile: boolean, onSelect: (id:
     case 'draw':
       return <Box sx={_styles.block}><T2IConfigureEngines isMobile={isMobile} /></Box>;
 
-    // Tools parent (hub): common search info, then links into Browsing / Custom Search
+    // Tools parent (hub): common search info, then links into Chat Tools / MCP Servers / Browsing / Custom Search / Retrieval
     case 'tools':
       return <>
         <ToolsSearchBanner />
         <ChildNav parentId='tools' onSelect={onSelect} />
         <ToolsDiagnostics />
       </>;
+    case 'tools-functions':
+      return <Box sx={_styles.block}><ClientToolsSettings /></Box>;
+    case 'tools-mcp':
+      return <Box sx={_styles.block}><McpSettings /></Box>;
     case 'tools-browse':
       return <Box sx={_styles.block}><BrowseSettings /></Box>;
     case 'tools-search':
       return <Box sx={_styles.block}><GoogleSearchSettings /></Box>;
+    case 'tools-retrieval':
+      return <Box sx={_styles.block}><RagSettings /></Box>;
 
     case 'labs':
       return <Box sx={_styles.block}><UxLabsSettings /></Box>;
@@ -3,7 +3,10 @@ import * as React from 'react';
 import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
 import ConstructionIcon from '@mui/icons-material/Construction';
 import FormatPaintTwoToneIcon from '@mui/icons-material/FormatPaintTwoTone';
+import HandymanOutlinedIcon from '@mui/icons-material/HandymanOutlined';
+import HubOutlinedIcon from '@mui/icons-material/HubOutlined';
 import LanguageRoundedIcon from '@mui/icons-material/LanguageRounded';
+import ManageSearchIcon from '@mui/icons-material/ManageSearch';
 import MicIcon from '@mui/icons-material/Mic';
 import RecordVoiceOverRoundedIcon from '@mui/icons-material/RecordVoiceOverRounded';
 import ScienceIcon from '@mui/icons-material/Science';
@@ -23,7 +26,7 @@ export type SettingsNavId =
   | 'appearance' | 'ai'
   | 'voice' | 'voice-in' | 'voice-out'
   | 'draw'
-  | 'tools' | 'tools-browse' | 'tools-search'
+  | 'tools' | 'tools-functions' | 'tools-mcp' | 'tools-browse' | 'tools-search' | 'tools-retrieval'
   | 'labs';
 
 export interface SettingsNavNode {
@@ -53,8 +56,11 @@ export const SETTINGS_NAV: SettingsNavNode[] = [
   {
     id: 'tools', label: 'Tools', icon: <ConstructionIcon />,
     children: [
+      { id: 'tools-functions', label: 'Chat Tools', path: 'Tools > Chat Tools', icon: <HandymanOutlinedIcon />, description: 'Let models call tools in chats' },
+      { id: 'tools-mcp', label: 'MCP Servers', path: 'Tools > MCP Servers', icon: <HubOutlinedIcon />, description: 'Connect Model Context Protocol servers' },
       { id: 'tools-browse', label: 'Browsing', path: 'Tools > Browsing', icon: <LanguageRoundedIcon />, description: 'Load web pages into chats' },
       { id: 'tools-search', label: 'Custom Search', path: 'Tools > Custom Search', icon: <SearchIcon />, description: 'Google Programmable Search' },
+      { id: 'tools-retrieval', label: 'Retrieval', path: 'Tools > Retrieval', icon: <ManageSearchIcon />, description: 'Send only the relevant parts of large documents' },
     ],
   },
   { id: 'labs', label: 'Labs', icon: <ScienceIcon /> },
@@ -98,8 +104,11 @@ export function getSettingsNavTopLevelGroup(id: SettingsNavId): SettingsNavId {
     case 'voice-in':
     case 'voice-out':
       return 'voice';
+    case 'tools-functions':
+    case 'tools-mcp':
     case 'tools-browse':
     case 'tools-search':
+    case 'tools-retrieval':
       return 'tools';
     default:
       return id;
@@ -10,6 +10,7 @@ import EventNoteOutlinedIcon from '@mui/icons-material/EventNoteOutlined';
 import GrainIcon from '@mui/icons-material/Grain';
 import IosShareIcon from '@mui/icons-material/IosShare';
 import IosShareOutlinedIcon from '@mui/icons-material/IosShareOutlined';
+import PaidOutlinedIcon from '@mui/icons-material/PaidOutlined';
 // Link icons
 import GitHubIcon from '@mui/icons-material/GitHub';
 import { DiscordIcon } from '~/common/components/icons/3rdparty/DiscordIcon';
@@ -167,6 +168,15 @@ export const navItems: {
       hideDrawer: true,
       hideOnMobile: true,
     },
+    {
+      name: 'Costs',
+      barTitle: 'Costs',
+      icon: PaidOutlinedIcon,
+      type: 'app',
+      route: '/costs',
+      hideDrawer: true,
+      hideOnMobile: true,
+    },
     {
       name: 'Tokenize Text',
       barTitle: 'Tokenization',
@@ -18,6 +18,7 @@ import { isBrowser } from './util/pwaUtils';
 export const ROUTE_INDEX = '/';
 export const ROUTE_APP_CHAT = '/';
 export const ROUTE_APP_CALL = '/call';
+export const ROUTE_APP_COSTS = '/costs';
 export const ROUTE_APP_LINK_CHAT = '/link/chat/[chatLinkId]';
 export const ROUTE_APP_NEWS = '/news';
 export const ROUTE_APP_PERSONAS = '/personas';
@@ -56,6 +57,8 @@ export function useRouterRoute(): string {
 
 export const navigateToIndex = navigateFn(ROUTE_INDEX);
 
+export const navigateToCosts = navigateFn(ROUTE_APP_COSTS);
+
 export const navigateToNews = navigateFn(ROUTE_APP_NEWS);
 
 export const navigateToPersonas = navigateFn(ROUTE_APP_PERSONAS);
@@ -6,6 +6,7 @@ import AbcIcon from '@mui/icons-material/Abc';
 import CodeIcon from '@mui/icons-material/Code';
 import DescriptionOutlinedIcon from '@mui/icons-material/DescriptionOutlined';
 import HtmlIcon from '@mui/icons-material/Html';
+import MovieOutlinedIcon from '@mui/icons-material/MovieOutlined';
 import PermMediaOutlinedIcon from '@mui/icons-material/PermMediaOutlined';
 import PhotoSizeSelectLargeOutlinedIcon from '@mui/icons-material/PhotoSizeSelectLargeOutlined';
 import PhotoSizeSelectSmallOutlinedIcon from '@mui/icons-material/PhotoSizeSelectSmallOutlined';
@@ -24,6 +25,7 @@ import type { AttachmentDraft, AttachmentDraftConverterType, AttachmentDraftId }
 import { DMessageDataRef, DMessageImageRefPart, isImageRefPart, isZyncAssetImageReferencePartWithLegacyDBlob } from '~/common/stores/chat/chat.fragments';
 import { LiveFileIcon } from '~/common/livefile/liveFile.icons';
 import { PhImageSquare } from '~/common/components/icons/phosphor/PhImageSquare';
+import { PhVoice } from '~/common/components/icons/phosphor/PhVoice';
 import { TooltipOutlined } from '~/common/components/TooltipOutlined';
 import { ellipsizeFront, ellipsizeMiddle } from '~/common/util/textUtils';
 
@@ -103,6 +105,10 @@ const converterTypeToIconMap: { [key in AttachmentDraftConverterType]: React.Com
   'image-to-default': PhImageSquare,
   'image-caption': AbcIcon,
   'image-ocr': AbcIcon,
+  'audio-transcribe': AbcIcon,
+  'audio-native': PhVoice,
+  'video-timeline': PermMediaOutlinedIcon,
+  'video-native': MovieOutlinedIcon,
   'pdf-auto': PictureAsPdfIcon,
   'pdf-text': PictureAsPdfIcon,
   'pdf-images': PermMediaOutlinedIcon,
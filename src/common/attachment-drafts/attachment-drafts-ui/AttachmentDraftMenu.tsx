@@ -14,7 +14,7 @@ import VerticalAlignBottomIcon from '@mui/icons-material/VerticalAlignBottom';
 import VisibilityIcon from '@mui/icons-material/Visibility';
 
 import { CloseablePopup } from '~/common/components/CloseablePopup';
-import { DMessageAttachmentFragment, DMessageDocPart, DMessageImageRefPart, isDocPart, isImageRefPart, isZyncAssetImageReferencePartWithLegacyDBlob } from '~/common/stores/chat/chat.fragments';
+import { DMessageAttachmentFragment, DMessageDocPart, DMessageImageRefPart, isDocPart, isImageRefPart, isZyncAssetImageReferencePartWithLegacyDBlob, isZyncAssetReferencePart } from '~/common/stores/chat/chat.fragments';
 import { LiveFileIcon } from '~/common/livefile/liveFile.icons';
 import { copyToClipboard } from '~/common/util/clipboardUtils';
 import { humanReadableBytes } from '~/common/util/textUtils';
@@ -397,6 +397,20 @@ export function AttachmentDraftMenu(props: {
                         </ButtonGroup>
                       </Typography>
                     );
+                  } else if (isZyncAssetReferencePart(part) && part.assetType === 'audio' && part._audioDBlobRef) {
+                    const { dataRef, durationMs } = part._audioDBlobRef;
+                    return (
+                      <Typography key={index} level='body-sm' textColor='primary.softColor'>
+                        {dataRef.mimeType} · {durationMs ? `${Math.round(durationMs / 1000)}s` : 'no duration'} · {humanReadableBytes(dataRef.bytesSize)}
+                      </Typography>
+                    );
+                  } else if (isZyncAssetReferencePart(part) && part.assetType === 'video' && part._videoDBlobRef) {
+                    const { dataRef, durationMs, width, height } = part._videoDBlobRef;
+                    return (
+                      <Typography key={index} level='body-sm' textColor='primary.softColor'>
+                        {dataRef.mimeType} · {width && height ? `${width}x${height}` : 'no resolution'} · {durationMs ? `${Math.round(durationMs / 1000)}s` : 'no duration'} · {humanReadableBytes(dataRef.bytesSize)}
+                      </Typography>
+                    );
                   } else if (isZyncAssetImageReferencePartWithLegacyDBlob(part) || isImageRefPart(part)) {
                     // Unified Image Reference handling (both Zync Asset References with legacy fallback and legacy image_ref)
                     const legacyImageRefPart = isZyncAssetImageReferencePartWithLegacyDBlob(part) ? part._legacyImageRefPart! : part;
@@ -10,6 +10,7 @@ import AttachFileRoundedIcon from '@mui/icons-material/AttachFileRounded';
 import CameraAltOutlinedIcon from '@mui/icons-material/CameraAltOutlined';
 import ContentPasteGoIcon from '@mui/icons-material/ContentPasteGo';
 import FiberManualRecordIcon from '@mui/icons-material/FiberManualRecord';
+import HubOutlinedIcon from '@mui/icons-material/HubOutlined';
 import LanguageRoundedIcon from '@mui/icons-material/LanguageRounded';
 import ScreenshotMonitorIcon from '@mui/icons-material/ScreenshotMonitor';
 
@@ -218,6 +219,7 @@ function AttachmentSources(props: {
   onAttachScreenCapture: (file: File) => void,
   onOpenCamera: () => void,
   onOpenGoogleDrivePicker?: () => void, // optional because requires additional external setup (e.g. user-storage of tokens)
+  onOpenMcpResources?: () => void, // optional, present when MCP servers are enabled
   onOpenWebInput: () => void,
   // live feeds - end action buttons (presence if the callback is set, active state if the boolean is true)
   hasActiveCameraFeed?: boolean,
@@ -336,6 +338,11 @@ function AttachmentSources(props: {
             <RichMenuItem name='Drive' description='Attach Google Drive files' color={props.color} Icon={AddToDriveRoundedIcon} onClick={props.onOpenGoogleDrivePicker} />
           )}
 
+          {/* MCP Resources */}
+          {!props.onlyImages && !!props.onOpenMcpResources && (
+            <RichMenuItem name='MCP' description='Attach server resources' color={props.color} Icon={HubOutlinedIcon} onClick={props.onOpenMcpResources} />
+          )}
+
           {/* Clipboard */}
           {!props.onlyImages && supportsClipboardRead() && (
             // <MenuItem onClick={props.onAttachClipboard}>
@@ -475,6 +482,17 @@ function AttachmentSources(props: {
           />
         )}
 
+        {/* MCP Resources Attachment */}
+        {!props.onlyImages && !!props.onOpenMcpResources && (
+          <RichMenuItem
+            name='MCP'
+            Icon={HubOutlinedIcon}
+            description='Attach resources from MCP servers'
+            onClick={props.onOpenMcpResources}
+            delay={0.05}
+          />
+        )}
+
         {/* Clipboard Attachment */}
         {!props.onlyImages && supportsClipboardRead() && (
           <RichMenuItem
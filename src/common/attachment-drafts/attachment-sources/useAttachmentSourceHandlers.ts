@@ -1,6 +1,9 @@
 import * as React from 'react';
 import type { FileWithHandle } from 'browser-fs-access';
 
+import { McpResourceSelection, useMcpResourcesModal } from '~/modules/mcp/useMcpResourcesModal';
+import { mcpReadResourceOrThrow, mcpResourceContentsToFiles } from '~/modules/mcp/mcp.client';
+
 import type { CameraCaptureDialogOptions } from '~/common/components/camera/useCameraCaptureDialog';
 import type { CameraLiveStream } from '~/common/components/camera/useCameraCapture';
 import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
@@ -14,6 +17,7 @@ import { useWebAttachmentModal } from './useWebAttachmentModal';
 // Each hook wraps one attachment source. Consumers compose only what they need.
 
 type _HandleCameraOpen = (options?: CameraCaptureDialogOptions) => Promise<void>;
+type _HandleMcpResources = (selections: McpResourceSelection[]) => void;
 type _HandleFiles = (files: FileWithHandle[], errorMessage: string | null) => void;
 type _HandlePasteIntercept = (event: React.ClipboardEvent) => void;
 type _HandleScreenCapture = (file: File) => void;
@@ -121,3 +125,37 @@ export function useAttachHandler_UrlWebLinks(attachAppendUrl: AttachmentDraftsAp
   // optional composerText is passed to the modal for URL auto-detection from the current input text
   return useWebAttachmentModal(_handleAttachWebLinks, composerText);
 }
+
+
+/**
+ * Returns `{ openMcpResourcesDialog, mcpResourcesDialogComponent }` for MCP server resources, converted to files.
+ * `openMcpResourcesDialog` is undefined when no MCP servers are enabled. Consumer must render `mcpResourcesDialogComponent`.
+ */
+export function useAttachHandler_McpResources(attachAppendFile: AttachmentDraftsApi['attachAppendFile']) {
+
+  // local handler
+  const _handleAttachResources = React.useCallback<_HandleMcpResources>(async (selections) => {
+
+    // read in parallel, attach sequentially (as files) so conversion pipelines don't race
+    const results = await Promise.allSettled(selections.map(async ({ server, resource }) =>
+      mcpResourceContentsToFiles(resource, await mcpReadResourceOrThrow(server, resource.uri)),
+    ));
+
+    const issueNames: string[] = [];
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      if (result.status === 'rejected') {
+        issueNames.push(selections[i].resource.name);
+        continue;
+      }
+      for (const file of result.value)
+        await attachAppendFile('mcp-resource', file)
+          .catch(() => issueNames.push(file.name));
+    }
+    if (issueNames.length)
+      addSnackbar({ key: 'attach-mcp-fail', message: `Unable to attach: ${issueNames.join(', ')}`, type: 'issue', overrides: { autoHideDuration: 4000 } });
+
+  }, [attachAppendFile]);
+
+  return useMcpResourcesModal(_handleAttachResources);
+}
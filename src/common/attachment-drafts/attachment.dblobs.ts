@@ -1,9 +1,11 @@
-import { addDBImageAsset, DBlobDBContextId, DBlobDBScopeId, deleteDBAsset, gcDBAssetsByScope, transferDBAssetContextScope } from '~/common/stores/blob/dblobs-portability';
+import { addDBAudioAsset, addDBImageAsset, addDBVideoAsset, DBlobDBContextId, DBlobDBScopeId, deleteDBAsset, gcDBAssetsByScope, transferDBAssetContextScope } from '~/common/stores/blob/dblobs-portability';
 import { nanoidToUuidV4 } from '~/common/util/idUtils';
 
 import { CommonImageMimeTypes, imageBlobTransform, LLMImageResizeMode } from '~/common/util/imageUtils';
+import { audioBlobDecode, audioBufferToWavBlob } from '~/common/util/audioUtils';
 import { convert_Base64WithMimeType_To_Blob } from '~/common/util/blobUtils';
-import { DMessageAttachmentFragment, createDMessageDataRefDBlob, createZyncAssetReferenceAttachmentFragment, isImageRefPart, isZyncAssetImageReferencePartWithLegacyDBlob, isZyncAssetReferencePart } from '~/common/stores/chat/chat.fragments';
+import { videoBlobProbe } from '~/common/util/videoUtils';
+import { DMessageAttachmentFragment, createDMessageDataRefDBlob, createZyncAssetReferenceAttachmentFragment, isImageRefPart, isZyncAssetAudioReferencePartWithDBlob, isZyncAssetImageReferencePartWithLegacyDBlob, isZyncAssetReferencePart, isZyncAssetVideoReferencePartWithDBlob } from '~/common/stores/chat/chat.fragments';
 
 import type { AttachmentDraftSource } from './attachment.types';
 
@@ -104,12 +106,181 @@ export async function imageDataToImageAttachmentFragmentViaDBlob(
   }
 }
 
+/**
+ * Converts an audio input to a DBlob and return a DMessageAttachmentFragment, for models with audio inputs.
+ * MP3 and WAV are stored as-is, other formats (m4a, ogg, webm, ..) are re-encoded to a mono WAV.
+ *
+ * @throws with a user-facing message if the audio cannot be decoded, or exceeds the limits
+ */
+export async function audioDataToAudioAttachmentFragmentViaDBlob(
+  inputMime: string,
+  inputAudio: Blob,
+  source: AttachmentDraftSource,
+  title: string,
+  caption: string,
+  limits: { maxDurationSeconds: number, maxBytes: number },
+  scopeId: DBlobDBScopeId = 'attachment-drafts',
+): Promise<DMessageAttachmentFragment> {
+
+  // decode, to know the duration (and to re-encode, if needed)
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await audioBlobDecode(inputAudio);
+  } catch (error) {
+    console.warn('[DEV] audioAttachment: Error decoding audio:', error);
+    throw new Error(`This audio format (${inputMime}) cannot be decoded by the browser.`);
+  }
+  const durationSeconds = audioBuffer.duration;
+  if (durationSeconds > limits.maxDurationSeconds)
+    throw new Error(`Audio is too long for native audio (${Math.round(durationSeconds / 60)} min, max ${Math.round(limits.maxDurationSeconds / 60)} min). Please transcribe it instead.`);
+
+  // pass through the formats the LLM APIs accept, re-encode the others
+  const passThroughMime = _audioPassThroughMimeType(inputMime);
+  const audioBlob = passThroughMime
+    ? new Blob([inputAudio], { type: passThroughMime })
+    : await audioBufferToWavBlob(audioBuffer);
+  if (audioBlob.size > limits.maxBytes)
+    throw new Error(`Audio is too large for native audio (${Math.round(audioBlob.size / 1024 / 1024)} MB, max ${Math.round(limits.maxBytes / 1024 / 1024)} MB). Please transcribe it instead.`);
+
+  // add the audio to the DBlobs DB
+  const dblobAssetId = await addDBAudioAsset(scopeId, audioBlob, {
+    label: title ? 'Audio: ' + title : 'Audio',
+    metadata: {
+      duration: durationSeconds,
+      sampleRate: passThroughMime ? audioBuffer.sampleRate : 16000,
+      channels: passThroughMime ? audioBuffer.numberOfChannels : 1,
+    },
+    origin: { // User originated
+      ot: 'user',
+      source: 'attachment',
+      media: source.media === 'file' ? source.origin : source.media === 'url' ? 'url' : source.media === 'cloud' ? source.provider : 'unknown',
+      url: source.media === 'url' ? source.url : source.media === 'cloud' ? source.webViewLink : undefined,
+      fileName: source.media === 'file' ? source.refPath : source.media === 'cloud' ? source.fileName : undefined,
+    },
+  });
+
+  // the summary stands in for the audio, for models without audio inputs
+  const refTextSummary = `Audio attachment: ${title || 'audio'} (${Math.round(durationSeconds)}s)`;
+
+  return createZyncAssetReferenceAttachmentFragment(
+    title, caption,
+    nanoidToUuidV4(dblobAssetId, 'convert-dblob-to-dasset'),
+    refTextSummary,
+    'audio',
+    undefined,
+    {
+      dataRef: createDMessageDataRefDBlob(dblobAssetId, audioBlob.type, audioBlob.size),
+      durationMs: Math.round(durationSeconds * 1000),
+    },
+  );
+}
+
+function _audioPassThroughMimeType(mimeType: string): 'audio/mpeg' | 'audio/wav' | null {
+  switch (mimeType) {
+    case 'audio/mpeg':
+    case 'audio/mp3':
+      return 'audio/mpeg';
+    case 'audio/wav':
+    case 'audio/wave':
+    case 'audio/x-wav':
+      return 'audio/wav';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Stores a video file as-is into a DBlob, and returns a Zync video asset reference fragment.
+ * Only the formats accepted by the LLM APIs are stored, with size limits for inline transmission.
+ *
+ * @throws with a user-facing message if the video cannot be attached natively
+ */
+export async function videoDataToVideoAttachmentFragmentViaDBlob(
+  inputMime: string,
+  inputVideo: Blob,
+  source: AttachmentDraftSource,
+  title: string,
+  caption: string,
+  limits: { maxBytes: number },
+  scopeId: DBlobDBScopeId = 'attachment-drafts',
+): Promise<DMessageAttachmentFragment> {
+
+  // no re-encoding in the browser: only pass-through formats
+  const videoMime = _videoPassThroughMimeType(inputMime);
+  if (!videoMime)
+    throw new Error(`This video format (${inputMime}) cannot be sent natively. Please use frames and transcript instead.`);
+  if (inputVideo.size > limits.maxBytes)
+    throw new Error(`Video is too large for native video (${Math.round(inputVideo.size / 1024 / 1024)} MB, max ${Math.round(limits.maxBytes / 1024 / 1024)} MB). Please use frames and transcript instead.`);
+
+  // probe, for the duration and resolution
+  let probe: Awaited<ReturnType<typeof videoBlobProbe>>;
+  try {
+    probe = await videoBlobProbe(inputVideo);
+  } catch (error) {
+    console.warn('[DEV] videoAttachment: Error probing video:', error);
+    probe = { durationSec: 0, width: 0, height: 0 };
+  }
+
+  // add the video to the DBlobs DB
+  const videoBlob = new Blob([inputVideo], { type: videoMime });
+  const dblobAssetId = await addDBVideoAsset(scopeId, videoBlob, {
+    label: title ? 'Video: ' + title : 'Video',
+    metadata: {
+      width: probe.width,
+      height: probe.height,
+      duration: probe.durationSec,
+    },
+    origin: { // User originated
+      ot: 'user',
+      source: 'attachment',
+      media: source.media === 'file' ? source.origin : source.media === 'url' ? 'url' : source.media === 'cloud' ? source.provider : 'unknown',
+      url: source.media === 'url' ? source.url : source.media === 'cloud' ? source.webViewLink : undefined,
+      fileName: source.media === 'file' ? source.refPath : source.media === 'cloud' ? source.fileName : undefined,
+    },
+  });
+
+  // the summary stands in for the video, for models without video inputs
+  const refTextSummary = `Video attachment: ${title || 'video'}${probe.durationSec ? ` (${Math.round(probe.durationSec)}s)` : ''}`;
+
+  return createZyncAssetReferenceAttachmentFragment(
+    title, caption,
+    nanoidToUuidV4(dblobAssetId, 'convert-dblob-to-dasset'),
+    refTextSummary,
+    'video',
+    undefined,
+    undefined,
+    {
+      dataRef: createDMessageDataRefDBlob(dblobAssetId, videoBlob.type, videoBlob.size),
+      ...(probe.durationSec > 0 && { durationMs: Math.round(probe.durationSec * 1000) }),
+      ...(probe.width > 0 && { width: probe.width, height: probe.height }),
+    },
+  );
+}
+
+function _videoPassThroughMimeType(mimeType: string): 'video/mp4' | 'video/webm' | 'video/quicktime' | 'video/mpeg' | null {
+  switch (mimeType) {
+    case 'video/mp4':
+    case 'video/webm':
+    case 'video/quicktime':
+    case 'video/mpeg':
+      return mimeType;
+    case 'video/mov':
+      return 'video/quicktime';
+    default:
+      return null;
+  }
+}
+
 /**
  * Remove the DBlob item associated with the given DMessageAttachmentFragment
  */
 export async function removeAttachmentOwnedDBAsset({ part }: DMessageAttachmentFragment) {
   if (isZyncAssetImageReferencePartWithLegacyDBlob(part) && part._legacyImageRefPart?.dataRef.reftype === 'dblob')
     await deleteDBAsset(part._legacyImageRefPart.dataRef.dblobAssetId);
+  else if (isZyncAssetAudioReferencePartWithDBlob(part) && part._audioDBlobRef?.dataRef.reftype === 'dblob')
+    await deleteDBAsset(part._audioDBlobRef.dataRef.dblobAssetId);
+  else if (isZyncAssetVideoReferencePartWithDBlob(part) && part._videoDBlobRef?.dataRef.reftype === 'dblob')
+    await deleteDBAsset(part._videoDBlobRef.dataRef.dblobAssetId);
   else if (isImageRefPart(part) && part.dataRef.reftype === 'dblob')
     await deleteDBAsset(part.dataRef.dblobAssetId);
 }
@@ -120,6 +291,10 @@ export async function removeAttachmentOwnedDBAsset({ part }: DMessageAttachmentF
 export async function transferAttachmentOwnedDBAsset({ part }: DMessageAttachmentFragment, contextId: DBlobDBContextId, scopeId: DBlobDBScopeId) {
   if (isZyncAssetReferencePart(part) && part._legacyImageRefPart?.dataRef.reftype === 'dblob')
     await transferDBAssetContextScope(part._legacyImageRefPart.dataRef.dblobAssetId, contextId, scopeId);
+  else if (isZyncAssetReferencePart(part) && part._audioDBlobRef?.dataRef.reftype === 'dblob')
+    await transferDBAssetContextScope(part._audioDBlobRef.dataRef.dblobAssetId, contextId, scopeId);
+  else if (isZyncAssetReferencePart(part) && part._videoDBlobRef?.dataRef.reftype === 'dblob')
+    await transferDBAssetContextScope(part._videoDBlobRef.dataRef.dblobAssetId, contextId, scopeId);
   else if (isImageRefPart(part) && part.dataRef.reftype === 'dblob')
     await transferDBAssetContextScope(part.dataRef.dblobAssetId, contextId, scopeId);
 }
@@ -1,5 +1,8 @@
 import type { FileWithHandle } from 'browser-fs-access';
 
+import type { ASRxTranscriptSegment } from '~/modules/asrx/asrx.types';
+import { asrxFindGlobalEngine } from '~/modules/asrx/store-module-asrx';
+import { asrxTranscribeBatch } from '~/modules/asrx/protocols/batch/batch.client';
 import { callBrowseFetchPageOrThrow } from '~/modules/browse/browse.client';
 import { extractYoutubeVideoIDFromURL } from '~/modules/youtube/youtube.utils';
 import { imageCaptionFromImageOrThrow } from '~/modules/aifn/image-caption/imageCaptionFromImage';
@@ -7,12 +10,15 @@ import { youTubeGetVideoData } from '~/modules/youtube/useYouTubeTranscript';
 
 import { PLATFORM_IMAGE_MIMETYPE } from '~/common/util/imageUtils';
 import { agiCustomId, agiUuid } from '~/common/util/idUtils';
+import { audioBlobDecode, audioBufferToWavBlob } from '~/common/util/audioUtils';
 import { convert_Base64DataURL_To_Base64WithMimeType, convert_Base64WithMimeType_To_Blob } from '~/common/util/blobUtils';
 import { getDomainModelConfiguration } from '~/common/stores/llms/hooks/useModelDomain';
+import { getVideoFrameIntervalSec } from '~/common/stores/store-ai';
 import { htmlTableToMarkdown } from '~/common/util/htmlTableToMarkdown';
 import { humanReadableHyphenated } from '~/common/util/textUtils';
 import { ocrImageWithProgress, ocrPdfPagesWithProgress } from '~/common/util/ocrUtils';
 import { pdfToImageDataURLs, pdfToText } from '~/common/util/pdfUtils';
+import { videoBlobSampleFrames } from '~/common/util/videoUtils';
 
 import { createDMessageDataInlineText, createDocAttachmentFragment, DMessageAttachmentFragment, DMessageDataInline, DMessageDocPart, DVMimeType, isContentOrAttachmentFragment, isDocPart, specialContentPartToDocAttachmentFragment } from '~/common/stores/chat/chat.fragments';
 
@@ -21,7 +27,7 @@ import type { AttachmentsDraftsStore } from './store-attachment-drafts_slice';
 import { attachmentCloudConverterPrefix, attachmentCloudFetchFile, attachmentCloudGoogleWorkspaceExportMIME, CloudFetchError } from './attachment.cloud';
 import { attachmentGetLiveFileId, attachmentSourceSupportsLiveFile } from './attachment.livefile';
 import { guessInputContentTypeFromMime, heuristicMimeTypeFixup, mimeTypeIsDocX, mimeTypeIsPDF, mimeTypeIsPlainText, mimeTypeIsSupportedImage, reverseLookupMimeType } from './attachment.mimetypes';
-import { imageDataToImageAttachmentFragmentViaDBlob } from './attachment.dblobs';
+import { audioDataToAudioAttachmentFragmentViaDBlob, imageDataToImageAttachmentFragmentViaDBlob, videoDataToVideoAttachmentFragmentViaDBlob } from './attachment.dblobs';
 
 
 const PDF_IMAGE_PAGE_SCALE = 1.5;
@@ -34,6 +40,15 @@ const IMAGE_LOW_TEXT_THRESHOLD = 80; // chars per image - below this, consider t
 const PDF_LOW_TEXT_THRESHOLD = 160; // chars per page - below this, consider the PDF as scanned/image-based
 const PDF_FALLBACK_MAX_IMAGES = 32; // max pages to convert to images when auto-falling back (to respect LLM limits)
 
+// Native audio limits - inline audio travels in the request body (e.g. Gemini caps inline data at 20MB)
+const AUDIO_NATIVE_MAX_BYTES = 20 * 1024 * 1024;
+const AUDIO_NATIVE_MAX_DURATION_SECONDS = 20 * 60;
+
+// Video: native is sent inline as video (inline_video); frames are sampled at the user interval, widened for long videos
+const VIDEO_NATIVE_MAX_BYTES = 20 * 1024 * 1024;
+const VIDEO_TIMELINE_MAX_FRAMES = 24;
+const VIDEO_FRAME_QUALITY = 0.8;
+
 
 // internal mimes, only used to route data within us (source -> input -> converters)
 const INT_MIME_VND_AGI_EGO_FRAGMENTS = 'application/vnd.agi.ego.fragments';
@@ -340,6 +355,23 @@ export function attachmentDefineConverters(source: AttachmentDraftSource, input:
       converters.push({ id: 'image-ocr', name: 'Add Text (OCR)', isCheckbox: true });
       break;
 
+    // Audio
+    case input.mimeType.startsWith('audio/'):
+      const asrxEngineMissing = !asrxFindGlobalEngine();
+      const audioTooLarge = (input.dataSize ?? 0) > 4 * AUDIO_NATIVE_MAX_BYTES; // compressed formats may shrink/grow when re-encoded
+      converters.push({ id: 'audio-transcribe', name: 'Transcribe (ASRx)', disabled: asrxEngineMissing });
+      converters.push({ id: 'audio-native', name: 'Native Audio', disabled: audioTooLarge });
+      converters.push({ id: 'unhandled', name: 'No Audio' });
+      break;
+
+    // Video
+    case input.mimeType.startsWith('video/'):
+      const videoTooLarge = (input.dataSize ?? 0) > VIDEO_NATIVE_MAX_BYTES;
+      converters.push({ id: 'video-timeline', name: 'Frames + Transcript' });
+      converters.push({ id: 'video-native', name: 'Native Video', disabled: videoTooLarge });
+      converters.push({ id: 'unhandled', name: 'No Video' });
+      break;
+
     // PDF
     case mimeTypeIsPDF(input.mimeType):
       converters.push({ id: 'pdf-auto', name: 'Auto', isActive: !autoAddImages });
@@ -452,6 +484,10 @@ function _prepareDocData(source: AttachmentDraftSource, input: Readonly<Attachme
         case 'file-open':
           fileTitle = source.refPath || _lowCollisionRefString('Uploaded File', 6);
           break;
+        case 'mcp-resource':
+          fileTitle = source.refPath || _lowCollisionRefString('MCP Resource', 6);
+          fileCaption = 'MCP Resource';
+          break;
         case 'clipboard-read':
         case 'paste':
           fileTitle = source.refPath || _lowCollisionRefString('Pasted File', 6);
@@ -743,6 +779,108 @@ export async function attachmentPerformConversion(
         break;
 
 
+      // audio to text, through the ASRx engine
+      case 'audio-transcribe':
+        if (!_expectBlob(input.data, 'Audio transcription converter')) break;
+        edit(attachment.id, { outputsConversionProgress: 0.5 });
+        const transcription = await asrxTranscribeBatch(input.data, input.mimeType, undefined, { label: 'Attachment' });
+        if (!transcription.success) {
+          const errorText = `[Transcription failed: ${transcription.errorText}]`;
+          edit(attachment.id, { outputWarnings: [errorText] });
+          newFragments.push(createDocAttachmentFragment(title, caption + ' (Error)', DVMimeType.TextPlain, createDMessageDataInlineText(errorText, 'text/plain'), refString, DOCPART_DEFAULT_VERSION, docMeta));
+          break;
+        }
+        // timestamps and speakers, when the engine provides segments (Deepgram: 'Timestamps' and 'Diarize')
+        const audioTranscript = transcription.segments?.length ? _formatTranscriptSegments(transcription.segments) : transcription.text;
+        newFragments.push(createDocAttachmentFragment(title, caption + ' (Transcript)', DVMimeType.TextPlain, createDMessageDataInlineText(audioTranscript, 'text/plain'), refString, DOCPART_DEFAULT_VERSION, docMeta));
+        break;
+
+      // audio as-is (or re-encoded), for models with audio inputs
+      case 'audio-native':
+        if (!_expectBlob(input.data, 'Native audio converter')) break;
+        try {
+          newFragments.push(await audioDataToAudioAttachmentFragmentViaDBlob(input.mimeType, input.data, source, title, caption, {
+            maxDurationSeconds: AUDIO_NATIVE_MAX_DURATION_SECONDS,
+            maxBytes: AUDIO_NATIVE_MAX_BYTES,
+          }));
+        } catch (error: any) {
+          console.log('[DEV] Failed to attach native audio:', error);
+          edit(attachment.id, { outputWarnings: [error?.message || String(error)] });
+        }
+        break;
+
+
+      // video to sampled frames (images) + transcript of the audio track, and a timeline doc tying them together
+      case 'video-timeline':
+        if (!_expectBlob(input.data, 'Video timeline converter')) break;
+        const videoWarnings: string[] = [];
+
+        // Video -> Frames -> Image fragments
+        let videoFrames: Awaited<ReturnType<typeof videoBlobSampleFrames>>;
+        try {
+          videoFrames = await videoBlobSampleFrames(input.data, getVideoFrameIntervalSec(), VIDEO_TIMELINE_MAX_FRAMES, 'image/jpeg', VIDEO_FRAME_QUALITY);
+        } catch (error: any) {
+          console.log('[DEV] Failed to sample video frames:', error);
+          edit(attachment.id, { outputWarnings: [`This video cannot be decoded by the browser: ${error?.message || String(error)}`] });
+          break;
+        }
+        const frameFragments: DMessageAttachmentFragment[] = [];
+        for (let i = 0; i < videoFrames.frames.length; i++) {
+          const frame = videoFrames.frames[i];
+          const frameF = await imageDataToImageAttachmentFragmentViaDBlob(frame.mimeType, frame.blob, source, `${title} (${_formatTimestamp(frame.timeSec * 1000)})`, caption, false, 'openai-high-res');
+          if (frameF)
+            frameFragments.push(frameF);
+          edit(attachment.id, { outputsConversionProgress: 0.5 * (i + 1) / videoFrames.frames.length });
+        }
+
+        // Video -> Audio track -> WAV -> ASRx transcript
+        let videoTranscriptSegments: ASRxTranscriptSegment[] | undefined;
+        let videoTranscriptText = '';
+        if (!asrxFindGlobalEngine())
+          videoWarnings.push('No transcription engine configured: the audio track was not transcribed.');
+        else {
+          let audioTrack: AudioBuffer | null = null;
+          try {
+            audioTrack = await audioBlobDecode(input.data);
+          } catch (error) {
+            console.log('[DEV] Video has no decodable audio track:', error);
+            videoWarnings.push('No audio track found in this video.');
+          }
+          if (audioTrack) {
+            const audioTrackWav = await audioBufferToWavBlob(audioTrack);
+            const videoTranscription = await asrxTranscribeBatch(audioTrackWav, audioTrackWav.type, undefined, { label: 'Attachment' });
+            if (!videoTranscription.success)
+              videoWarnings.push(`Transcription failed: ${videoTranscription.errorText}`);
+            else {
+              videoTranscriptSegments = videoTranscription.segments;
+              videoTranscriptText = videoTranscription.text;
+            }
+          }
+        }
+        edit(attachment.id, { outputsConversionProgress: 1 });
+
+        // Timeline doc: frames and transcript, interleaved by time
+        const timelineText = _formatVideoTimeline(title, videoFrames.durationSec, videoFrames.frames.map(f => f.timeSec), videoTranscriptSegments, videoTranscriptText);
+        newFragments.push(createDocAttachmentFragment(title, caption + ' (Timeline)', DVMimeType.TextPlain, createDMessageDataInlineText(timelineText, 'text/plain'), refString, DOCPART_DEFAULT_VERSION, docMeta));
+        newFragments.push(...frameFragments);
+        if (videoWarnings.length)
+          edit(attachment.id, { outputWarnings: videoWarnings });
+        break;
+
+      // video as-is, for models with video inputs (Gemini)
+      case 'video-native':
+        if (!_expectBlob(input.data, 'Native video converter')) break;
+        try {
+          newFragments.push(await videoDataToVideoAttachmentFragmentViaDBlob(input.mimeType, input.data, source, title, caption, {
+            maxBytes: VIDEO_NATIVE_MAX_BYTES,
+          }));
+        } catch (error: any) {
+          console.log('[DEV] Failed to attach native video:', error);
+          edit(attachment.id, { outputWarnings: [error?.message || String(error)] });
+        }
+        break;
+
+
       // pdf-auto: intelligent conversion with fallback chain (text → OCR → images)
       case 'pdf-auto':
         if (!_expectBlob(input.data, 'PDF auto converter')) break;
@@ -1095,6 +1233,41 @@ async function _inputDataToString(data: AttachmentDraftInput['data'], debugLocat
   return '';
 }
 
+function _formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${String(Math.floor(totalSeconds / 60)).padStart(2, '0')}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+function _formatTranscriptSegment({ startMs, speaker, text }: ASRxTranscriptSegment): string {
+  return speaker !== undefined ? `[${_formatTimestamp(startMs)}] Speaker ${speaker + 1}: ${text}` : `[${_formatTimestamp(startMs)}] ${text}`;
+}
+
+/**
+ * Formats timed transcript segments as '[mm:ss] Speaker N: text' lines
+ */
+function _formatTranscriptSegments(segments: ASRxTranscriptSegment[]): string {
+  return segments.map(_formatTranscriptSegment).join('\n');
+}
+
+/**
+ * Merges the sampled frames and the transcript by time, so the model can relate what is seen to what is said.
+ * Without timed segments, the transcript follows the frames list.
+ */
+function _formatVideoTimeline(title: string, durationSec: number, frameTimesSec: number[], segments: ASRxTranscriptSegment[] | undefined, transcriptText: string): string {
+  const entries: { ms: number, line: string }[] = frameTimesSec.map((timeSec, index) => ({
+    ms: timeSec * 1000,
+    line: `[${_formatTimestamp(timeSec * 1000)}] <frame ${index + 1}: image '${title} (${_formatTimestamp(timeSec * 1000)})'>`,
+  }));
+  if (segments?.length)
+    entries.push(...segments.map(segment => ({ ms: segment.startMs, line: _formatTranscriptSegment(segment) })));
+  entries.sort((a, b) => a.ms - b.ms);
+
+  const lines = [`Video: ${title} (${_formatTimestamp(durationSec * 1000)}, ${frameTimesSec.length} frames)`, '', ...entries.map(e => e.line)];
+  if (!segments?.length && transcriptText.trim())
+    lines.push('', 'Transcript:', transcriptText.trim());
+  return lines.join('\n');
+}
+
 /**
  * Simple Client-side cleaning of possible HTML
  */
@@ -97,6 +97,7 @@ export type AttachmentDraftSourceOriginFile =
   | 'camera' | 'screencapture'
   | 'live-feed-camera' | 'live-feed-screen'
   | 'file-open'
+  | 'mcp-resource'
   | 'clipboard-read'
   | AttachmentDraftSourceOriginDTO;
 
@@ -174,6 +175,8 @@ export type AttachmentDraftConverterType =
   | 'text' | 'text-cleaner' | 'text-markdown'
   | 'rich-text' | 'rich-text-cleaner' | 'rich-text-markdown' | 'rich-text-table'
   | 'image-original' | 'image-resized-high' | 'image-resized-low' | 'image-ocr' | 'image-caption' | 'image-to-default'
+  | 'audio-transcribe' | 'audio-native'
+  | 'video-timeline' | 'video-native'
   | 'pdf-auto' | 'pdf-text' | 'pdf-images' | 'pdf-images-ocr' | 'pdf-text-and-images'
   | 'docx-to-html'
   | 'url-page-text' | 'url-page-markdown' | 'url-page-html' | 'url-page-null' | 'url-page-image'
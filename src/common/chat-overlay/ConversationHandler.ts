@@ -1,8 +1,7 @@
 import type { StoreApi } from 'zustand';
 
 import { bareBonesPromptMixer } from '~/modules/persona/pmix/pmix';
-
-import { SystemPurposes } from '../../data';
+import { getPersona } from '~/modules/persona/store-personas';
 
 import { BeamStore, createBeamVanillaStore } from '~/modules/beam/store-beam_vanilla';
 import { autoConversationTitle } from '~/modules/aifn/autotitle/autoTitle';
@@ -10,7 +9,7 @@ import { useModuleBeamStore } from '~/modules/beam/store-module-beam';
 
 import type { DConversationId } from '~/common/stores/chat/chat.conversation';
 import type { DLLMId } from '~/common/stores/llms/llms.types';
-import { ChatActions, getConversationSystemPurposeId, isValidConversation, useChatStore } from '~/common/stores/chat/store-chats';
+import { ChatActions, getConversation, getConversationSystemPurposeId, isValidConversation, useChatStore } from '~/common/stores/chat/store-chats';
 import { createDMessageEmpty, createDMessageFromFragments, createDMessagePlaceholderIncomplete, createDMessageTextContent, DMessage, DMessageGenerator, DMessageId, DMessageUserFlag, MESSAGE_FLAG_VND_ANT_CACHE_AUTO, MESSAGE_FLAG_VND_ANT_CACHE_USER, messageHasUserFlag, messageSetUserFlag } from '~/common/stores/chat/chat.message';
 import { createTextContentFragment, DMessageFragment, DMessageFragmentId } from '~/common/stores/chat/chat.fragments';
 import { gcChatImageAssets } from '~/common/stores/chat/chat.gc';
@@ -53,6 +52,8 @@ export class ConversationHandler {
 
   static inlineUpdatePurposeInHistory(conversationId: DConversationId, history: DMessage[], assistantLlmId: DLLMId | undefined): void {
     const purposeId = getConversationSystemPurposeId(conversationId);
+    const personaSystemPrompt = (purposeId === 'Custom' ? getConversation(conversationId)?.customSystemPrompt : undefined)
+      ?? getPersona(purposeId)?.systemPrompt;
     // TODO: HACK: find the persona identiy separately from the "first system message"
     const systemMessageIndex = history.findIndex(m => m.role === 'system');
 
@@ -62,9 +63,9 @@ export class ConversationHandler {
 
     // TODO: move this to a proper persona identity management
     // Update the system message with the current persona's message, if formerly unset
-    if (!systemMessage.updated && purposeId && SystemPurposes[purposeId]?.systemMessage) {
+    if (!systemMessage.updated && purposeId && personaSystemPrompt) {
       systemMessage.purposeId = purposeId;
-      const systemMessageText = bareBonesPromptMixer(SystemPurposes[purposeId].systemMessage, assistantLlmId);
+      const systemMessageText = bareBonesPromptMixer(personaSystemPrompt, assistantLlmId);
       systemMessage.fragments = [createTextContentFragment(systemMessageText)];
 
       // HACK: this is a special case for the 'Custom' persona, to set the message in stone (so it doesn't get updated when switching to another persona)
@@ -163,6 +164,14 @@ export class ConversationHandler {
     _chatStoreActions.editMessage(this.conversationId, messageId, update, messageComplete, touch);
   }
 
+  messageEditInNewBranch(messageId: DMessageId, fragments: DMessageFragment[]): void {
+    _chatStoreActions.editMessageInNewBranch(this.conversationId, messageId, fragments);
+  }
+
+  messageSwitchBranch(messageId: DMessageId, direction: -1 | 1): void {
+    _chatStoreActions.switchMessageBranch(this.conversationId, messageId, direction);
+  }
+
   messagesDelete(messageIds: DMessageId[]): void {
     for (const messageId of messageIds)
       _chatStoreActions.deleteMessage(this.conversationId, messageId);
@@ -217,6 +226,11 @@ export class ConversationHandler {
     _chatStoreActions.historyTruncateToIncluded(this.conversationId, messageId, offset);
   }
 
+  /** Like historyTruncateTo, but keeps the messages after the cut in a sibling branch */
+  historyBranchTo(messageId: DMessageId, offset: number = 0): void {
+    _chatStoreActions.historyBranchToIncluded(this.conversationId, messageId, offset);
+  }
+
   historyViewHeadOrThrow(scope: string): Readonly<DMessage[]> {
     const messages = _chatStoreActions.historyView(this.conversationId);
     if (messages === undefined)
@@ -0,0 +1,30 @@
+import type { StateCreator } from 'zustand/vanilla';
+
+import type { DMessageId } from '~/common/stores/chat/chat.message';
+
+
+/// Navigation Overlay Store: per-chat requests to the messages list ///
+
+interface NavigationOverlayState {
+
+  // message to bring into view, e.g. from a search result - consumed by the list when it gets there
+  jumpToMessageId: DMessageId | null;
+
+}
+
+export interface NavigationOverlayStore extends NavigationOverlayState {
+
+  setJumpToMessageId: (messageId: DMessageId | null) => void;
+
+}
+
+
+export const createNavigationOverlayStoreSlice: StateCreator<NavigationOverlayStore, [], [], NavigationOverlayStore> = (_set, _get) => ({
+
+  // init state
+  jumpToMessageId: null,
+
+  // actions
+  setJumpToMessageId: (messageId) => _set({ jumpToMessageId: messageId }),
+
+});
@@ -6,6 +6,7 @@ import { Release } from '~/common/app.release';
 
 import { ComposerOverlayStore, createComposerOverlayStoreSlice } from './store-perchat-composer_slice';
 import { createEphemeralsOverlayStoreSlice, EphemeralsOverlayStore } from './store-perchat-ephemerals_slice';
+import { createNavigationOverlayStoreSlice, NavigationOverlayStore } from './store-perchat-navigation_slice';
 import { createVariformOverlayStoreSlice, VariformOverlayStore } from './store-perchat-variform_slice';
 
 
@@ -15,7 +16,7 @@ import { createVariformOverlayStoreSlice, VariformOverlayStore } from './store-p
  * This is for now, but if performance is an issue, we can split it back into independent
  * vanilla stores, and just instantiate many of them per each ConversationHandler.
  */
-export type PerChatOverlayStore = AttachmentsDraftsStore & ComposerOverlayStore & EphemeralsOverlayStore & VariformOverlayStore;
+export type PerChatOverlayStore = AttachmentsDraftsStore & ComposerOverlayStore & EphemeralsOverlayStore & NavigationOverlayStore & VariformOverlayStore;
 
 /* Note: at this time there is another overlay stores, beam (vanilla).
  * - EphemeralsStore was based on EventTarget and subscription/unsubscription to it (inside useEffect),
@@ -29,6 +30,8 @@ export const createPerChatVanillaStore = (): StoreApi<PerChatOverlayStore> => cr
   ...createComposerOverlayStoreSlice(...a),
   // Ephemerals: ephemeral messages (ReAct sidebars)
   ...createEphemeralsOverlayStoreSlice(...a),
+  // Navigation: jump to message
+  ...createNavigationOverlayStoreSlice(...a),
   // VariForm: form values
   ...createVariformOverlayStoreSlice(...a),
 
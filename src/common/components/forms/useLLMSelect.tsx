@@ -18,7 +18,8 @@ import { StarIconUnstyled, StarredNoXL2 } from '~/common/components/StarIcons';
 import { TooltipOutlined } from '~/common/components/TooltipOutlined';
 import { findModelsServiceOrNull, getChatLLMId } from '~/common/stores/llms/store-llms';
 import { optimaActions, optimaOpenModels } from '~/common/layout/optima/useOptima';
-import { sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
+import { sortLLMsByMetrics, sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
+import { useLlmMetricsForSorting } from '~/common/stores/metrics/store-metrics';
 import { useToggleableStringSet } from '~/common/util/hooks/useToggleableStringSet';
 import { useUIPreferencesStore } from '~/common/stores/store-ui';
 import { useVisibleLLMs } from '~/common/stores/llms/llms.hooks';
@@ -169,6 +170,8 @@ export function useLLMSelect(
   const starredOnly = useUIPreferencesStore(state => showStarFilter && state.showModelsStarredOnly);
   // const modelsStarredOnTop = useUIPreferencesStore(state => state.modelsStarredOnTop); // unsupported, this creates some issues with groups I believe
   const { llms: _filteredLLMs, hasStarred } = useVisibleLLMs(llmId, starredOnly, false);
+  const modelsSortBy = useUIPreferencesStore(state => state.modelsSortBy);
+  const llmMetrics = useLlmMetricsForSorting(modelsSortBy);
 
   // derived state
   const noIcons = false; //smaller;
@@ -208,7 +211,7 @@ export function useLLMSelect(
 
   const optionsArray = React.useMemo(() => {
     // sort LLMs alphabetically by service label so vendor groups appear in a stable order (groups remain contiguous because sort is stable on equal keys)
-    const sortedLLMs = sortLLMsByServiceLabel(_filteredLLMs);
+    const sortedLLMs = sortLLMsByServiceLabel(sortLLMsByMetrics(_filteredLLMs, modelsSortBy, llmMetrics));
 
     // check if we have multiple services (to show collapsible headers)
     const hasMultipleServices = sortedLLMs.some((llm, i, arr) => i > 0 && llm.sId !== arr[i - 1].sId);
@@ -303,7 +306,7 @@ export function useLLMSelect(
 
       return acc;
     }, [] as React.JSX.Element[]);
-  }, [_filteredLLMs, collapsedServices, llmId, noIcons, optimizeToSingleVisibleId, starredOnly, toggleServiceCollapse]);
+  }, [_filteredLLMs, collapsedServices, llmId, llmMetrics, modelsSortBy, noIcons, optimizeToSingleVisibleId, starredOnly, toggleServiceCollapse]);
 
 
   const onSelectChange = React.useCallback((_event: unknown, value: DLLMId | null) => {
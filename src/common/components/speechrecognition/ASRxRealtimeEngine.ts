@@ -0,0 +1,236 @@
+import type { ASRxRealtimeEvent, ASRxRealtimeSession } from '~/modules/asrx/asrx.types';
+import { asrxTranscribeRealtime } from '~/modules/asrx/protocols/realtime/realtime.client';
+
+import { createSpeechRecognitionResults, IRecognitionEngine, PLACEHOLDER_INTERIM_TRANSCRIPT, SpeechDoneReason, SpeechRecognitionState, SpeechResult } from './useSpeechRecognition';
+
+
+// configuration
+const AUDIO_CHUNK_MS = 250;       // MediaRecorder timeslice: audio is streamed at this cadence
+const FINISH_TIMEOUT_MS = 3000;   // max wait for the last transcripts, after the recording stops
+
+
+/**
+ * Engine which streams the microphone to the ASRx engine (realtime protocol), for live interim results.
+ * The segments are finalized when the speaker pauses, and the recognition is done after `softStopTimeout` of silence.
+ */
+export class ASRxRealtimeEngine implements IRecognitionEngine {
+  public readonly engineType = 'asrxRealtime';
+
+  // save parameters
+  private softStopTimeout: number;
+  private onResultCallback: (result: SpeechResult) => void;
+  private readonly setState: (state: Partial<SpeechRecognitionState>) => void;
+
+  // state
+  private _mediaStream: MediaStream | null = null;
+  private _mediaRecorder: MediaRecorder | null = null;
+  private _session: ASRxRealtimeSession | null = null;
+  private inactivityTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private finishTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private results: SpeechResult = createSpeechRecognitionResults();
+  private withinBeginEnd = false;
+  private disposed = false;
+
+  constructor(
+    _preferredLanguageIgnored: string, // the language of the ASRx engine profile is used
+    softStopTimeout: number,
+    onResultCallback: (result: SpeechResult) => void,
+    setState: (state: Partial<SpeechRecognitionState>) => void,
+  ) {
+    // save parameters
+    this.softStopTimeout = softStopTimeout;
+    this.onResultCallback = onResultCallback;
+    this.setState = setState;
+
+    // all ready
+    setState({ isAvailable: true });
+  }
+
+  async start() {
+    if (!navigator?.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      this.setState({ errorMessage: 'Media devices API not supported.' });
+      return;
+    }
+
+    this.withinBeginEnd = true;
+    this.results = createSpeechRecognitionResults();
+    this.onResultCallback(this.results);
+    this.setState({ isActive: true });
+
+    // microphone
+    try {
+      this._mediaStream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error: any) {
+      console.error('MediaDevices.getUserMedia error:', error);
+      return this._handleError('Microphone access denied or not available.');
+    }
+    if (!this.withinBeginEnd) return this._releaseMicrophone(); // stopped meanwhile
+
+    // streaming session
+    const started = await asrxTranscribeRealtime(undefined, {
+      onEvent: event => this._handleEvent(event),
+      label: 'Dictation',
+    });
+    if (!started.success)
+      return this._handleError(started.errorText);
+    if (!this.withinBeginEnd) return started.session.close();
+    this._session = started.session;
+
+    // stream the audio as it is captured
+    this._mediaRecorder = new MediaRecorder(this._mediaStream);
+    this._mediaRecorder.onstart = () => this.setState({ hasAudio: true });
+    this._mediaRecorder.ondataavailable = (event) => this._session?.sendAudio(event.data);
+    this._mediaRecorder.onstop = () => {
+      this.setState({ hasAudio: false });
+      this._releaseMicrophone();
+      // the last chunk was delivered before this: wait for its transcripts, a little
+      this._session?.finish();
+      this.finishTimeoutId = setTimeout(() => this._session?.close(), FINISH_TIMEOUT_MS);
+    };
+    this._mediaRecorder.onerror = (event) => {
+      console.error('ASRxRealtimeEngine recorder error:', event);
+      this._handleError('Recording failed.');
+    };
+    this._mediaRecorder.start(AUDIO_CHUNK_MS);
+
+    // stop if nothing is said
+    this._reloadInactivityTimeout(Math.max(this.softStopTimeout, 5000), 'api-no-speech');
+  }
+
+  stop(reason: SpeechDoneReason, sendOnDone: boolean) {
+    this.results.doneReason = reason;
+    this.results.flagSendOnDone = sendOnDone;
+    this._clearInactivityTimeout();
+
+    if (this._mediaRecorder?.state === 'recording')
+      this._mediaRecorder.stop(); // -> onstop -> finish -> 'close' -> done
+    else if (this._session)
+      this._session.close();
+    else
+      this._done(); // stopped while starting
+  }
+
+  dispose() {
+    this.disposed = true;
+    this._clearInactivityTimeout();
+    if (this.finishTimeoutId) clearTimeout(this.finishTimeoutId);
+    if (this._mediaRecorder) {
+      this._mediaRecorder.onstart = null;
+      this._mediaRecorder.ondataavailable = null;
+      this._mediaRecorder.onstop = null;
+      this._mediaRecorder.onerror = null;
+      if (this._mediaRecorder.state !== 'inactive')
+        this._mediaRecorder.stop();
+      this._mediaRecorder = null;
+    }
+    this._releaseMicrophone();
+    this._session?.close();
+    this._session = null;
+    this.withinBeginEnd = false;
+  }
+
+  isBetweenBeginEnd() {
+    return this.withinBeginEnd;
+  }
+
+  updateConfiguration(_language: string, softStopTimeout: number, onResultCallback: (result: SpeechResult) => void) {
+    this.softStopTimeout = softStopTimeout;
+    this.onResultCallback = onResultCallback;
+  }
+
+
+  private _handleEvent(event: ASRxRealtimeEvent) {
+    if (this.disposed) return;
+    switch (event.type) {
+      case 'speech-start':
+        this.setState({ hasSpeech: true });
+        break;
+
+      case 'transcript':
+        const text = event.text.trim();
+        if (event.isFinal) {
+          // finalized segment: appended to the transcript
+          if (text)
+            this.results.transcript = (this.results.transcript + ' ').trimStart() + text + ' ';
+          this.results.interimTranscript = '';
+        } else
+          this.results.interimTranscript = text;
+        if (event.speechFinal)
+          this.setState({ hasSpeech: false });
+        this.onResultCallback(this.results);
+
+        // move the deadline: done after this much silence
+        if (this.softStopTimeout > 0)
+          this._reloadInactivityTimeout(this.softStopTimeout, 'continuous-deadline');
+        break;
+
+      case 'utterance-end':
+        this.setState({ hasSpeech: false });
+        break;
+
+      case 'error':
+        this.setState({ errorMessage: event.errorText });
+        this.results.doneReason = 'api-error';
+        break;
+
+      case 'close':
+        this._done();
+        break;
+    }
+  }
+
+  private _done() {
+    if (!this.withinBeginEnd) return;
+    this.withinBeginEnd = false;
+    this._clearInactivityTimeout();
+    if (this.finishTimeoutId) clearTimeout(this.finishTimeoutId);
+    this.finishTimeoutId = null;
+    if (this._mediaRecorder?.state === 'recording') {
+      this._mediaRecorder.onstop = null;
+      this._mediaRecorder.stop();
+    }
+    this._mediaRecorder = null;
+    this._releaseMicrophone();
+    this._session = null;
+    this.setState({ isActive: false, hasAudio: false, hasSpeech: false });
+
+    // the pending interim text is kept, as it was on screen
+    if (this.results.interimTranscript && this.results.interimTranscript !== PLACEHOLDER_INTERIM_TRANSCRIPT)
+      this.results.transcript = (this.results.transcript + ' ').trimStart() + this.results.interimTranscript + ' ';
+    this.results.interimTranscript = '';
+    this.results.done = true;
+    this.results.doneReason = this.results.doneReason ?? 'api-unknown-timeout';
+    this.onResultCallback(this.results);
+  }
+
+  private _handleError(message: string) {
+    this.setState({ errorMessage: message });
+    this.results.doneReason = 'api-error';
+    this._session?.close();
+    this._done();
+  }
+
+  private _releaseMicrophone() {
+    this._mediaStream?.getTracks().forEach(track => track.stop());
+    this._mediaStream = null;
+  }
+
+  private _clearInactivityTimeout() {
+    if (this.inactivityTimeoutId) {
+      clearTimeout(this.inactivityTimeoutId);
+      this.inactivityTimeoutId = null;
+    }
+  }
+
+  private _reloadInactivityTimeout(timeoutMs: number, doneReason: SpeechDoneReason) {
+    this._clearInactivityTimeout();
+    this.inactivityTimeoutId = setTimeout(() => {
+      if (this.disposed) return;
+      this.inactivityTimeoutId = null;
+      this.stop(doneReason, this.results.flagSendOnDone ?? false);
+    }, timeoutMs);
+  }
+
+}
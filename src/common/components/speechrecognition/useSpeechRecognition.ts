@@ -5,6 +5,7 @@ import { useUIPreferencesStore } from '~/common/stores/store-ui';
 
 import { CapabilityBrowserSpeechRecognition } from '../useCapabilities';
 
+import { ASRxRealtimeEngine } from './ASRxRealtimeEngine';
 import { AudioRecorderEngine } from './AudioRecorderEngine';
 import { getSpeechRecognitionClass, WebSpeechApiEngine } from './WebSpeechApiEngine';
 
@@ -37,7 +38,7 @@ export const browserSpeechRecognitionCapability = (): CapabilityBrowserSpeechRec
 
 // Interfaces used by Engines
 
-type RecognitionEngineType = 'webSpeechApi' | 'audioRecorder';
+type RecognitionEngineType = 'webSpeechApi' | 'audioRecorder' | 'asrxRealtime';
 
 export interface IRecognitionEngine {
   engineType: RecognitionEngineType;
@@ -199,6 +200,15 @@ export const useSpeechRecognition = (
           updateState,
         );
         break;
+
+      case 'asrxRealtime':
+        engineRef.current = new ASRxRealtimeEngine(
+          preferredLanguageRef.current,
+          softStopTimeoutRef.current,
+          onResultCallbackRef.current,
+          updateState,
+        );
+        break;
     }
 
     return () => {
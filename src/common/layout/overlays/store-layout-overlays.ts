@@ -27,6 +27,7 @@ export type GlobalOverlayId = // string - disabled so we keep an orderliness
   | 'chat-message-delete-hosted-resource'
   | 'chat-message-auto-embed-notice'
   | 'chat-message-inline-aux'
+  | 'chat-tool-approval'                  // A client-side tool with side effects wants to run - allow?
   | 'livefile-overwrite'
   | 'shortcuts-confirm-close'
   | 'blocks-off-enhance-code'
@@ -36,6 +37,8 @@ export type GlobalOverlayId = // string - disabled so we keep an orderliness
   | 'llms-service-remove'
   | 'composer-unsupported-attachments'    // The LLM does not seem to support this mime type - continue anyway?
   | 'composer-open-or-attach'             // Open a file or attach it to the chat?
+  | 'composer-prompt-fill'                // Fill in the variables of a prompt template
+  | 'composer-prompt-library'             // Edit the prompt templates
 // | 'agi-patch-workflow-save' // make sure we use it
   ;
 
@@ -3,6 +3,9 @@ import { useRouter } from 'next/router';
 
 import { getChatTokenCountingMethod } from '../../apps/chat/store-app-chat';
 
+import { searchIndexerStart } from '~/modules/search/search.indexer';
+import { syncStart } from '~/modules/sync/sync.client';
+
 import { logger } from '~/common/logger/logger.client';
 import { markNewsAsSeen, shallRedirectToNews, sherpaReconfigureBackendModels, sherpaStorageMaintenanceNoChats_delayed } from '~/common/logic/store-logic-sherpa';
 import { navigateToNews, ROUTE_APP_CHAT } from '~/common/app.routes';
@@ -42,6 +45,8 @@ export function ProviderBootstrapLogic(props: { children: React.ReactNode }) {
   const launchPreload = isOnChat && !isRedirectingToNews && getChatTokenCountingMethod() === 'accurate'; // only preload if using TikToken by default
   const launchAutoConf = isOnChat && !isRedirectingToNews;
   const launchStorageGC = true;
+  const launchSearchIndexer = isOnChat && !isRedirectingToNews;
+  const launchSync = !isRedirectingToNews;
 
 
   // [preload] kick-off a preload of the Tiktoken library right when proceeding to the UI
@@ -76,6 +81,22 @@ export function ProviderBootstrapLogic(props: { children: React.ReactNode }) {
 
   }, [launchStorageGC]);
 
+  // [search] keep the full-text search index in sync with the chats
+  React.useEffect(() => {
+    if (!launchSearchIndexer) return;
+
+    return searchIndexerStart();
+
+  }, [launchSearchIndexer]);
+
+  // [sync] sync the chats with the other devices, when enabled
+  React.useEffect(() => {
+    if (!launchSync) return;
+
+    return syncStart();
+
+  }, [launchSync]);
+
   //
   // Render Gates
   //
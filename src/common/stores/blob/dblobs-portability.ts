@@ -6,6 +6,20 @@ export {
   gcDBImageAssets,
 } from '~/modules/dblobs/dblobs.images';
 
+export {
+  // Audio operations
+  addDBAudioAsset,
+  getAudioAsset,
+  gcDBAudioAssets,
+} from '~/modules/dblobs/dblobs.audio';
+
+export {
+  // Video operations
+  addDBVideoAsset,
+  getVideoAsset,
+  gcDBVideoAssets,
+} from '~/modules/dblobs/dblobs.video';
+
 export {
   // Generic operations
   deleteDBAsset,
@@ -28,8 +42,10 @@ export {
 // Re-export select types
 export type {
   DBlobAssetId,
+  DBlobAudioAsset,
   DBlobDBAsset,
   DBlobDBContextId,
   DBlobDBScopeId,
   DBlobImageAsset,
+  DBlobVideoAsset,
 } from '~/modules/dblobs/dblobs.types';
@@ -0,0 +1,171 @@
+import type { DConversationBranches } from './chat.conversation';
+import type { DMessage, DMessageId } from './chat.message';
+
+
+/**
+ * Conversation Branching
+ *
+ * A conversation is a tree of messages, stored as:
+ * - `messages`: the active path, from the root to the leaf - the only one rendered and sent to the models
+ * - `branches`: the inactive siblings, by the ID of the message they follow (or BRANCHES_ROOT_KEY), each
+ *   as the path from the sibling to the leaf of its branch
+ *
+ * Branches within inactive branches are stored in the same map, as the message IDs are unique.
+ * Siblings are ordered by creation time.
+ */
+
+export const BRANCHES_ROOT_KEY = '_root';
+
+type _ActivePathAndBranches = {
+  messages: DMessage[];
+  branches: DConversationBranches | undefined;
+};
+
+export type DMessageBranchPosition = {
+  index: number;  // 0-based position of the message among its siblings
+  count: number;  // number of siblings, including the message
+};
+
+
+function _parentKey(messages: Readonly<DMessage[]>, index: number): string {
+  return index > 0 ? messages[index - 1].id : BRANCHES_ROOT_KEY;
+}
+
+function _detachedMessage(message: DMessage): DMessage {
+  // a message that leaves the active path will not be completed
+  if (!message.pendingIncomplete) return message;
+  const { pendingIncomplete: _, ...rest } = message;
+  return rest;
+}
+
+
+/** Positions of the messages of the active path that have siblings */
+export function branchesPositions(messages: Readonly<DMessage[]>, branches: Readonly<DConversationBranches> | undefined): Map<DMessageId, DMessageBranchPosition> {
+  const positions = new Map<DMessageId, DMessageBranchPosition>();
+  if (!branches) return positions;
+  messages.forEach((message, index) => {
+    const alternatives = branches[_parentKey(messages, index)];
+    if (alternatives?.length)
+      positions.set(message.id, {
+        index: alternatives.filter(tail => tail[0].created < message.created).length,
+        count: alternatives.length + 1,
+      });
+  });
+  return positions;
+}
+
+/** All the messages of the inactive branches */
+export function branchesAllMessages<TMessage = DMessage>(branches: { readonly [parentKey: string]: readonly (readonly TMessage[])[] } | undefined): TMessage[] {
+  return !branches ? [] : Object.values(branches).flatMap(tails => tails.flat());
+}
+
+
+/**
+ * Moves the active path from `fromIndex` to the end into a new inactive branch, so that what
+ * gets appended next becomes its sibling.
+ */
+export function branchesStashTail(messages: DMessage[], branches: DConversationBranches | undefined, fromIndex: number): _ActivePathAndBranches {
+  if (fromIndex < 0 || fromIndex >= messages.length)
+    return { messages, branches };
+  const parentKey = _parentKey(messages, fromIndex);
+  return {
+    messages: messages.slice(0, fromIndex),
+    branches: {
+      ...branches,
+      [parentKey]: [...(branches?.[parentKey] ?? []), messages.slice(fromIndex).map(_detachedMessage)],
+    },
+  };
+}
+
+/** Keeps the first `length` messages of the active path, dropping what follows, including its siblings */
+export function branchesTruncate(messages: DMessage[], branches: DConversationBranches | undefined, length: number): _ActivePathAndBranches {
+  const truncatedMessages = messages.slice(0, length);
+  if (!branches)
+    return { messages: truncatedMessages, branches };
+  const { [_parentKey(truncatedMessages, truncatedMessages.length)]: _droppedSiblings, ...otherBranches } = branches;
+  return { messages: truncatedMessages, branches: branchesPrune(truncatedMessages, otherBranches) };
+}
+
+/**
+ * Activates the previous (-1) or next (+1) sibling of a message of the active path, moving the
+ * current path from the message onwards into an inactive branch.
+ * @returns null if there's no such sibling
+ */
+export function branchesSwitchSibling(messages: DMessage[], branches: DConversationBranches | undefined, messageId: DMessageId, direction: -1 | 1): _ActivePathAndBranches | null {
+  const index = messages.findIndex(m => m.id === messageId);
+  if (index < 0) return null;
+  const parentKey = _parentKey(messages, index);
+  const alternatives = branches?.[parentKey];
+  if (!alternatives?.length) return null;
+
+  const activeTail = messages.slice(index).map(_detachedMessage);
+  const siblings = [activeTail, ...alternatives].sort((a, b) => a[0].created - b[0].created);
+  const targetTail = siblings[siblings.indexOf(activeTail) + direction];
+  if (!targetTail) return null;
+
+  return {
+    messages: [...messages.slice(0, index), ...targetTail],
+    branches: {
+      ...branches,
+      [parentKey]: siblings.filter(tail => tail !== targetTail),
+    },
+  };
+}
+
+/**
+ * Removes messages from the active path, keeping their branches:
+ * - the siblings of the messages that follow a deleted message move up to its parent
+ * - if the path ends where there are siblings (e.g. the last reply was deleted), the latest one becomes active
+ */
+export function branchesDeleteMessages(messages: DMessage[], branches: DConversationBranches | undefined, messageIds: Set<DMessageId>): _ActivePathAndBranches {
+  if (!branches)
+    return { messages: messages.filter(m => !messageIds.has(m.id)), branches };
+
+  const nextBranches = { ...branches };
+  const nextMessages: DMessage[] = [];
+  for (const message of messages) {
+    if (!messageIds.has(message.id)) {
+      nextMessages.push(message);
+      continue;
+    }
+    const orphans = nextBranches[message.id];
+    if (orphans?.length) {
+      const parentKey = _parentKey(nextMessages, nextMessages.length);
+      nextBranches[parentKey] = [...(nextBranches[parentKey] ?? []), ...orphans];
+    }
+    delete nextBranches[message.id];
+  }
+
+  // continue into the latest sibling, if the active path ends at a branching point
+  const leafKey = _parentKey(nextMessages, nextMessages.length);
+  const leafAlternatives = nextBranches[leafKey];
+  if (leafAlternatives?.length) {
+    const latestTail = leafAlternatives.reduce((latest, tail) => tail[0].created >= latest[0].created ? tail : latest);
+    nextMessages.push(...latestTail);
+    nextBranches[leafKey] = leafAlternatives.filter(tail => tail !== latestTail);
+  }
+
+  return { messages: nextMessages, branches: branchesPrune(nextMessages, nextBranches) };
+}
+
+/** Drops the branches that cannot be reached anymore from the active path (e.g. after truncations) */
+export function branchesPrune(messages: Readonly<DMessage[]>, branches: DConversationBranches | undefined): DConversationBranches | undefined {
+  if (!branches) return undefined;
+
+  const reachableIds = new Set<string>([BRANCHES_ROOT_KEY, ...messages.map(m => m.id)]);
+  const reachable: DConversationBranches = {};
+  let grown = true;
+  while (grown) {
+    grown = false;
+    for (const [parentKey, tails] of Object.entries(branches)) {
+      if (parentKey in reachable || !reachableIds.has(parentKey) || !tails.length) continue;
+      reachable[parentKey] = tails;
+      for (const tail of tails)
+        for (const message of tail)
+          reachableIds.add(message.id);
+      grown = true;
+    }
+  }
+
+  return Object.keys(reachable).length ? reachable : undefined;
+}
@@ -1,4 +1,6 @@
-import { defaultSystemPurposeId, SystemPurposeId } from '../../../data';
+import { defaultSystemPurposeId } from '../../../data';
+
+import type { DPersonaId } from '~/modules/persona/store-personas';
 
 import { agiUuid } from '~/common/util/idUtils';
 
@@ -10,7 +12,8 @@ import { DMessage, DMessageId, duplicateDMessage } from './chat.message';
 export interface DConversation {
   id: DConversationId;                // unique identifier for this conversation
 
-  messages: DMessage[];               // linear list of messages in this conversation
+  messages: DMessage[];               // active path of the conversation tree: what's shown and sent to the models
+  branches?: DConversationBranches;   // inactive sibling branches of the tree, see chat.branches.ts
 
   // editable
   userTitle?: string;
@@ -22,9 +25,13 @@ export interface DConversation {
   _isIncognito?: boolean;             // simple implementation: won't store this conversation (note: side effects should be evaluated, images seem to be gc'd correctly, but not sure if this is really incognito)
   userSymbol?: string;                // TODO: let the user customize this - there may be a mapping elsewhere, but this is small enough and will do for now
 
+  toolsMaxSteps?: number;             // max client-side tool round-trips per assistant reply; undefined: use the global default
+  responseSchemaId?: string | null;   // JSON Schema the replies are constrained to; null: free text, undefined: the schema of the persona, if any
+
   // TODO: [x Head] - this should be the system purpose of current head of the conversation
   // there should be the concept of the audience of the current head
-  systemPurposeId: SystemPurposeId;   // system purpose of this conversation
+  systemPurposeId: DPersonaId;   // system purpose of this conversation
+  customSystemPrompt?: string;        // system prompt of the 'Custom' persona, for this conversation only
 
   // when updated is null, we don't have messages yet (timestamps as Date.now())
   created: number;                    // creation timestamp
@@ -45,10 +52,13 @@ export interface DConversation {
 
 export type DConversationId = string;
 
+/** Inactive branches, by the ID of the message they follow: each is a path from a sibling of the next message on, to its leaf */
+export type DConversationBranches = { [parentMessageIdOrRoot: string]: DMessage[][] };
+
 
 // helpers - creation
 
-export function createDConversation(systemPurposeId?: SystemPurposeId): DConversation {
+export function createDConversation(systemPurposeId?: DPersonaId): DConversation {
   return {
     id: agiUuid('chat-dconversation'),
 
@@ -95,6 +105,9 @@ export function duplicateDConversation(conversation: DConversation, lastMessageI
     // userTitle: conversation.userTitle, // undefined
     autoTitle: newTitle,
     userSymbol: conversation.userSymbol,
+    ...(conversation.toolsMaxSteps !== undefined ? { toolsMaxSteps: conversation.toolsMaxSteps } : {}),
+    ...(conversation.responseSchemaId !== undefined ? { responseSchemaId: conversation.responseSchemaId } : {}),
+    ...(conversation.customSystemPrompt !== undefined ? { customSystemPrompt: conversation.customSystemPrompt } : {}),
     ...(conversation.isArchived !== undefined ? { isArchived: conversation.isArchived } : {}), // copy archival state if set
 
     systemPurposeId: conversation.systemPurposeId,
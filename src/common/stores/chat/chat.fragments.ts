@@ -185,7 +185,7 @@ const MAX_ZYNC_REFERENCE_SUMMARY_LEN = 512; // max alt text length for Zync Asse
 
 export type DMessageZyncAssetReferencePart = _DMessageZyncReferencePart<'asset', {
   // denorm fields for quick display
-  assetType: 'image' | 'audio'
+  assetType: 'image' | 'audio' | 'video'
   // to be used during migration, then ignored
   _legacyImageRefPart?: {
     pt: 'image_ref';
@@ -194,6 +194,18 @@ export type DMessageZyncAssetReferencePart = _DMessageZyncReferencePart<'asset',
     width?: number;
     height?: number;
   };
+  // audio stored in the local DBlobs, until Zync assets can hold the data
+  _audioDBlobRef?: {
+    dataRef: Extract<DMessageDataRef, { reftype: 'dblob' }>;
+    durationMs?: number;
+  };
+  // video stored in the local DBlobs, as above
+  _videoDBlobRef?: {
+    dataRef: Extract<DMessageDataRef, { reftype: 'dblob' }>;
+    durationMs?: number;
+    width?: number;
+    height?: number;
+  };
 }>;
 
 // type _DMessageZyncChatReferencePart = _DMessageZyncReferencePart<'chat', { messageAnchor?: string; }>;
@@ -384,6 +396,14 @@ export function isZyncAssetImageReferencePart(part: DMessageContentFragment['par
   return part.pt === 'reference' && part.rt === 'zync' && part.zType === 'asset' && part.assetType === 'image';
 }
 
+export function isZyncAssetAudioReferencePartWithDBlob(part: DMessageContentFragment['part'] | DMessageAttachmentFragment['part']): part is DMessageZyncAssetReferencePart {
+  return part.pt === 'reference' && part.rt === 'zync' && part.zType === 'asset' && part.assetType === 'audio' && part._audioDBlobRef?.dataRef?.reftype === 'dblob';
+}
+
+export function isZyncAssetVideoReferencePartWithDBlob(part: DMessageContentFragment['part'] | DMessageAttachmentFragment['part']): part is DMessageZyncAssetReferencePart {
+  return part.pt === 'reference' && part.rt === 'zync' && part.zType === 'asset' && part.assetType === 'video' && part._videoDBlobRef?.dataRef?.reftype === 'dblob';
+}
+
 export function isZyncAssetImageReferencePartWithLegacyDBlob(part: DMessageContentFragment['part'] | DMessageAttachmentFragment['part']): part is DMessageZyncAssetReferencePart {
   return part.pt === 'reference' && part.rt === 'zync' && part.zType === 'asset' && part.assetType === 'image' && part._legacyImageRefPart?.dataRef?.reftype === 'dblob';
 }
@@ -443,7 +463,7 @@ export function createErrorContentFragment(error: string, hint?: DMessageErrorPa
   return _createContentFragment(_create_Error_Part(error, hint));
 }
 
-export function createZyncAssetReferenceContentFragment(assetUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart']): DMessageContentFragment {
+export function createZyncAssetReferenceContentFragment(assetUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio' | 'video', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart']): DMessageContentFragment {
   return _createContentFragment(createDMessageZyncAssetReferencePart(assetUuid, refSummary, assetType, legacyImageRefPart));
 }
 
@@ -474,8 +494,8 @@ function _createContentFragment(part: DMessageContentFragment['part']): DMessage
 
 /// Attachment Fragments - Creation & Duplication
 
-export function createZyncAssetReferenceAttachmentFragment(title: string, caption: string, assetUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart']): DMessageAttachmentFragment {
-  return _createAttachmentFragment(title, caption, createDMessageZyncAssetReferencePart(assetUuid, refSummary, assetType, legacyImageRefPart), undefined);
+export function createZyncAssetReferenceAttachmentFragment(title: string, caption: string, assetUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio' | 'video', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart'], audioDBlobRef?: DMessageZyncAssetReferencePart['_audioDBlobRef'], videoDBlobRef?: DMessageZyncAssetReferencePart['_videoDBlobRef']): DMessageAttachmentFragment {
+  return _createAttachmentFragment(title, caption, createDMessageZyncAssetReferencePart(assetUuid, refSummary, assetType, legacyImageRefPart, audioDBlobRef, videoDBlobRef), undefined);
 }
 
 export function createDocAttachmentFragment(l1Title: string, caption: string, vdt: DMessageDocMimeType, data: DMessageDataInline, ref: string, version: number, meta?: DMessageDocMeta, liveFileId?: LiveFileId): DMessageAttachmentFragment {
@@ -487,7 +507,7 @@ export function specialContentPartToDocAttachmentFragment(title: string, caption
     case isTextPart(contentPart):
       return createDocAttachmentFragment(title, caption, vdt, createDMessageDataInlineText(contentPart.text, 'text/plain'), ref, 2 /* As we attach our messages, we start from 2 */, docMeta);
     case isZyncAssetReferencePart(contentPart):
-      return createZyncAssetReferenceAttachmentFragment(title, caption, contentPart.zUuid, contentPart.zRefSummary?.text, contentPart.assetType, contentPart._legacyImageRefPart);
+      return createZyncAssetReferenceAttachmentFragment(title, caption, contentPart.zUuid, contentPart.zRefSummary?.text, contentPart.assetType, contentPart._legacyImageRefPart, contentPart._audioDBlobRef, contentPart._videoDBlobRef);
     default:
       return createDocAttachmentFragment('Error', 'Content to Attachment', vdt, createDMessageDataInlineText(`Conversion of '${contentPart.pt}' is not supported yet.`, 'text/plain'), ref, 1 /* error has no version really */, docMeta);
   }
@@ -581,7 +601,7 @@ function _create_Error_Part(error: string, hint?: DMessageErrorPartHint): DMessa
   return { pt: 'error', error, ...(hint && { hint }) };
 }
 
-export function createDMessageZyncAssetReferencePart(zUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart']): DMessageZyncAssetReferencePart {
+export function createDMessageZyncAssetReferencePart(zUuid: ZYNC_Entity.UUID, refSummary: string | undefined, assetType: 'image' | 'audio' | 'video', legacyImageRefPart?: DMessageZyncAssetReferencePart['_legacyImageRefPart'], audioDBlobRef?: DMessageZyncAssetReferencePart['_audioDBlobRef'], videoDBlobRef?: DMessageZyncAssetReferencePart['_videoDBlobRef']): DMessageZyncAssetReferencePart {
   return {
     pt: 'reference',
     rt: 'zync',
@@ -590,6 +610,8 @@ export function createDMessageZyncAssetReferencePart(zUuid: ZYNC_Entity.UUID, re
     ...(refSummary && { zRefSummary: { pt: 'text', text: ellipsizeMiddle(refSummary, MAX_ZYNC_REFERENCE_SUMMARY_LEN) } }),
     assetType,
     ...(legacyImageRefPart && { _legacyImageRefPart: { ...legacyImageRefPart } }),
+    ...(audioDBlobRef && { _audioDBlobRef: { ...audioDBlobRef, dataRef: { ...audioDBlobRef.dataRef } } }),
+    ...(videoDBlobRef && { _videoDBlobRef: { ...videoDBlobRef, dataRef: { ...videoDBlobRef.dataRef } } }),
   };
 }
 
@@ -665,7 +687,7 @@ function _duplicate_Part<TPart extends (DMessageContentFragment | DMessageAttach
           switch (part.zType) {
             case 'asset':
               // Zync Asset Reference: new fragment, with the exact same reference (and fallback, if still in the migration period)
-              return createDMessageZyncAssetReferencePart(part.zUuid, part.zRefSummary?.text, part.assetType, part._legacyImageRefPart ? { ...part._legacyImageRefPart } : undefined) as TPart;
+              return createDMessageZyncAssetReferencePart(part.zUuid, part.zRefSummary?.text, part.assetType, part._legacyImageRefPart ? { ...part._legacyImageRefPart } : undefined, part._audioDBlobRef, part._videoDBlobRef) as TPart;
 
             default:
               const _exhaustiveCheck: never = part.zType;
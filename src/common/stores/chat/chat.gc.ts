@@ -1,8 +1,9 @@
-import { DBlobAssetId, gcDBImageAssets } from '~/common/stores/blob/dblobs-portability';
+import { DBlobAssetId, gcDBAudioAssets, gcDBImageAssets, gcDBVideoAssets } from '~/common/stores/blob/dblobs-portability';
 
 import type { Immutable } from '~/common/types/immutable.types';
 
 import type { DConversation } from './chat.conversation';
+import { branchesAllMessages } from './chat.branches';
 import type { DMessageFragment } from './chat.fragments';
 import { isContentOrAttachmentFragment, isImageRefPart, isZyncAssetReferencePart } from './chat.fragments';
 import { useChatStore } from './store-chats';
@@ -41,6 +42,10 @@ export function collectFragmentAssetIds(fragments: Immutable<DMessageFragment[]>
     // New References to Zync Assets (dblob refs for compatibility/migration)
     if (isZyncAssetReferencePart(fragment.part) && fragment.part._legacyImageRefPart?.dataRef?.reftype === 'dblob')
       assetIds.add(fragment.part._legacyImageRefPart.dataRef.dblobAssetId);
+    if (isZyncAssetReferencePart(fragment.part) && fragment.part._audioDBlobRef?.dataRef?.reftype === 'dblob')
+      assetIds.add(fragment.part._audioDBlobRef.dataRef.dblobAssetId);
+    if (isZyncAssetReferencePart(fragment.part) && fragment.part._videoDBlobRef?.dataRef?.reftype === 'dblob')
+      assetIds.add(fragment.part._videoDBlobRef.dataRef.dblobAssetId);
 
     // Legacy 'image_ref' parts (direct dblob refs)
     if (isImageRefPart(fragment.part) && fragment.part.dataRef?.reftype === 'dblob')
@@ -60,7 +65,7 @@ export async function gcChatImageAssets(conversations?: Immutable<DConversation[
   const chatsAssetIDs: Set<DBlobAssetId> = new Set();
   const _conversations = conversations || useChatStore.getState().conversations;
   for (const chat of _conversations)
-    for (const message of chat.messages)
+    for (const message of [...chat.messages, ...branchesAllMessages(chat.branches)])
       collectFragmentAssetIds(message.fragments, chatsAssetIDs);
 
   // [ASSET-GC-BEAM] Collect additional asset IDs from registered collectors (Beam, scratch chat, etc.)
@@ -78,6 +83,8 @@ export async function gcChatImageAssets(conversations?: Immutable<DConversation[
 
   // perform the GC (set to array)
   await gcDBImageAssets('global', 'app-chat', Array.from(chatsAssetIDs));
+  await gcDBAudioAssets('global', 'app-chat', Array.from(chatsAssetIDs));
+  await gcDBVideoAssets('global', 'app-chat', Array.from(chatsAssetIDs));
 
   // FIXME: [ASSET] will only be able to GC local assets that haven't been uploaded to the cloud - otherwise they could be used,
   //        in which case only the cloud can centralized-GC, or user will have to manually delete them
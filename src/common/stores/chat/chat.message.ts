@@ -63,6 +63,8 @@ export interface DMessageMetadata {
    * If set, has to be honored by the UI and the sending operation.
    */
   initialRecipients?: DMessageRecipientPersona[];
+  retrievedChunks?: DMetaRetrievedChunk[]; // chunks of large documents that were sent in place of their full text, to generate this
+  structuredOutput?: DMetaStructuredOutput; // the reply was constrained to a response schema
   // NOTE: if adding fields, manually update `duplicateDMessageMetadata`
 }
 
@@ -81,6 +83,21 @@ export interface DMessageEntangled {
   count: number;        // total number of chats this was sent to
 }
 
+/** A chunk of a document attachment, retrieved by relevance (RAG). */
+export interface DMetaRetrievedChunk {
+  docTitle: string;
+  chunkIndex: number;
+  chunksCount: number;                // of the document
+  score: number;                      // similarity to the query, 0..1
+  text: string;
+}
+
+/** The response schema a reply was constrained to, and the outcome of its validation on the client. */
+export interface DMetaStructuredOutput {
+  schemaName: string;
+  validationError?: string;           // set when the reply does not conform to the schema (e.g. vendors without native support)
+}
+
 /** Recipient of a message - currently persona-based but extensible for future recipient types. */
 export interface DMessageRecipientPersona {
   rt: 'persona'; // recipient type discriminant
@@ -125,6 +142,12 @@ export type DMessageGenerator = ({
 }) & {
   metrics?: DMetricsChatGenerate_Md;   // medium-sized metrics stored in the message
   providerInfraLabel?: string;         // upstream provider that served the request (e.g., OpenRouter provider routing)
+  failoverFrom?: readonly {            // models that were overloaded or down before this one answered, in order
+    name: string,
+    mId: DLLMId,
+    httpStatus?: number,
+  }[],
+  cachedAt?: number;                   // replayed from the local response cache, where it was stored at this time
   upstreamContainer?:
     | {
       uct: 'vnd.ant.container',
@@ -236,6 +259,12 @@ export function duplicateDMessageMetadata(metadata: Readonly<DMessageMetadata>):
     ...(metadata.initialRecipients?.length ? {
       initialRecipients: metadata.initialRecipients.map(recipient => ({ ...recipient })),
     } : {}),
+    ...(metadata.retrievedChunks?.length ? {
+      retrievedChunks: metadata.retrievedChunks.map(chunk => ({ ...chunk })),
+    } : {}),
+    ...(metadata.structuredOutput ? {
+      structuredOutput: { ...metadata.structuredOutput },
+    } : {}),
   };
 }
 
@@ -248,6 +277,8 @@ export function duplicateDMessageGenerator(generator: Readonly<DMessageGenerator
         // ...(generator.xeOpCode ? { xeOpCode: generator.xeOpCode } : {}),
         ...(generator.metrics ? { metrics: { ...generator.metrics } } : {}),
         ...(generator.providerInfraLabel ? { providerInfraLabel: generator.providerInfraLabel } : {}),
+        ...(generator.failoverFrom ? { failoverFrom: generator.failoverFrom.map(f => ({ ...f })) } : {}),
+        ...(generator.cachedAt ? { cachedAt: generator.cachedAt } : {}),
         ...(generator.upstreamContainer ? { upstreamContainer: { ...generator.upstreamContainer } } : {}),
         ...(generator.upstreamHandle ? { upstreamHandle: { ...generator.upstreamHandle } } : {}),
         ...(generator.tokenStopReason ? { tokenStopReason: generator.tokenStopReason } : {}),
@@ -259,6 +290,8 @@ export function duplicateDMessageGenerator(generator: Readonly<DMessageGenerator
         aix: { ...generator.aix },
         ...(generator.metrics ? { metrics: { ...generator.metrics } } : {}),
         ...(generator.providerInfraLabel ? { providerInfraLabel: generator.providerInfraLabel } : {}),
+        ...(generator.failoverFrom ? { failoverFrom: generator.failoverFrom.map(f => ({ ...f })) } : {}),
+        ...(generator.cachedAt ? { cachedAt: generator.cachedAt } : {}),
         ...(generator.upstreamContainer ? { upstreamContainer: { ...generator.upstreamContainer } } : {}),
         ...(generator.upstreamHandle ? { upstreamHandle: { ...generator.upstreamHandle } } : {}),
         ...(generator.tokenStopReason ? { tokenStopReason: generator.tokenStopReason } : {}),
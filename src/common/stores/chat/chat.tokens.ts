@@ -61,6 +61,12 @@ function _fragmentTokens(llm: DLLM, role: DMessageRole, fragment: DMessageFragme
           const forcedSize = role === 'assistant' ? 512 : undefined;
           return estimateImageTokens(forcedSize || aPart._legacyImageRefPart.width, forcedSize || aPart._legacyImageRefPart.height, fragment.title, llm);
         }
+        // audio attachments: by duration, at the Gemini rate of 32 tokens per second
+        if (aPart.rt === 'zync' && aPart.assetType === 'audio' && aPart._audioDBlobRef?.durationMs)
+          return Math.ceil(aPart._audioDBlobRef.durationMs / 1000 * 32);
+        // video attachments: by duration, at the Gemini rate of 263 tokens per second (1 fps frames + audio)
+        if (aPart.rt === 'zync' && aPart.assetType === 'video' && aPart._videoDBlobRef?.durationMs)
+          return Math.ceil(aPart._videoDBlobRef.durationMs / 1000 * 263);
         // TODO: implement this properly - as we don't have resolutions in the part(!) - and this could be really expensive
         break; // warn
       case 'image_ref':
@@ -1,5 +1,3 @@
-import type { SystemPurposeId } from '../../../data';
-
 import { nanoidToUuidV4 } from '~/common/util/idUtils';
 
 import type { DFolder } from '~/common/stores/folders/store-chat-folders';
@@ -8,7 +6,8 @@ import { liveFileGetAllValidIDs } from '~/common/livefile/store-live-file';
 
 import type { DModelsService } from '~/common/stores/llms/llms.service.types';
 
-import { createDConversation, DConversation, type DConversationId } from './chat.conversation';
+import { branchesAllMessages, branchesPrune } from './chat.branches';
+import { createDConversation, DConversation, type DConversationBranches, type DConversationId } from './chat.conversation';
 import { createDMessageTextContent, DMessage, MESSAGE_FLAG_NOTIFY_COMPLETE, messageSetUserFlag } from './chat.message';
 import { createDMessageZyncAssetReferencePart, createErrorContentFragment, isAttachmentFragment, isContentOrAttachmentFragment, isDocPart, isImageRefPart, isTextContentFragment, isVoidPlaceholderFragment } from './chat.fragments';
 
@@ -35,6 +34,11 @@ export namespace V4ToHeadConverters {
 
     for (const message of c.messages)
       inMemHeadCleanDMessage(message, validLiveFileIDs);
+
+    // fixup .branches
+    c.branches = branchesPrune(c.messages, c.branches);
+    for (const message of branchesAllMessages(c.branches))
+      inMemHeadCleanDMessage(message, validLiveFileIDs);
   }
 
 
@@ -173,9 +177,11 @@ export namespace V3StoreDataToHead {
       created,
     } = ic;
 
-    const cc = createDConversation(systemPurposeId as SystemPurposeId);
+    const cc = createDConversation(systemPurposeId);
     if (id) cc.id = id;
     cc.messages = messages.map(_recreateMessage);
+    if ('branches' in ic && ic.branches)
+      cc.branches = branchesPrune(cc.messages, Object.fromEntries(Object.entries(ic.branches).map(([parentKey, tails]) => [parentKey, tails.map(tail => tail.map(_recreateMessage))])));
     if (userTitle) cc.userTitle = userTitle;
     if (autoTitle) cc.autoTitle = autoTitle;
     if (created) cc.created = created;
@@ -335,6 +341,7 @@ export namespace DataAtRestV1 {
       autoTitle: ec.autoTitle,
       created: ec.created,
       updated: ec.updated,
+      ...(ec.branches && { branches: ec.branches }),
     };
   }
 
@@ -351,6 +358,7 @@ export namespace DataAtRestV1 {
   export type RestChatJsonV1 = {
     id: string;
     messages: (DMessage | V3StoreDataToHead.ImportMessageV3)[];
+    branches?: DConversationBranches; // [2026-10-18] optional: inactive branches of the conversation tree
     systemPurposeId: string;
     userTitle?: string;
     autoTitle?: string;
@@ -2,7 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useShallow } from 'zustand/react/shallow';
 
-import type { SystemPurposeId } from '../../../data';
+import type { DPersonaId } from '~/modules/persona/store-personas';
 
 import type { DLLMId } from '~/common/stores/llms/llms.types';
 import { findLLMOrThrow, getChatLLMId } from '~/common/stores/llms/store-llms';
@@ -13,7 +13,8 @@ import { backupIdbV3, createIDBPersistStorage } from '~/common/util/idbUtils';
 import { workspaceActions } from '~/common/stores/workspace/store-client-workspace';
 import { workspaceForConversationIdentity } from '~/common/stores/workspace/workspace.types';
 
-import { DMessage, DMessageId, DMessageMetadata, MESSAGE_FLAG_AIX_SKIP, messageHasUserFlag } from './chat.message';
+import { branchesDeleteMessages, branchesPrune, branchesStashTail, branchesSwitchSibling, branchesTruncate } from './chat.branches';
+import { DMessage, DMessageId, DMessageMetadata, duplicateDMessage, MESSAGE_FLAG_AIX_SKIP, messageHasUserFlag } from './chat.message';
 import { DMessageFragment, DMessageFragmentId, isVoidThinkingFragment } from './chat.fragments';
 import { V3StoreDataToHead, V4ToHeadConverters } from './chats.converters';
 import { conversationTitle, createDConversation, DConversation, DConversationId, duplicateDConversation } from './chat.conversation';
@@ -30,10 +31,10 @@ interface ChatState {
 export interface ChatActions {
 
   // CRUD conversations
-  prependNewConversation: (personaId: SystemPurposeId | undefined, isIncognito: boolean) => DConversationId;
+  prependNewConversation: (personaId: DPersonaId | undefined, isIncognito: boolean) => DConversationId;
   importConversation: (c: DConversation, preventClash: boolean) => DConversationId;
   branchConversation: (cId: DConversationId, mId: DMessageId | null) => DConversationId | null;
-  deleteConversations: (cIds: DConversationId[], newConversationPersonaId?: SystemPurposeId) => DConversationId;
+  deleteConversations: (cIds: DConversationId[], newConversationPersonaId?: DPersonaId) => DConversationId;
 
   // within a conversation
   isIncognito: (cId: DConversationId) => boolean | undefined;
@@ -41,20 +42,26 @@ export interface ChatActions {
   abortConversationTemp: (cId: DConversationId) => void;
   historyReplace: (cId: DConversationId, messages: DMessage[]) => void;
   historyTruncateToIncluded: (cId: DConversationId, mId: DMessageId, offset: number) => void;
+  historyBranchToIncluded: (cId: DConversationId, mId: DMessageId, offset: number) => void;
   historyStripThinking: (cId: DConversationId, keepCount: number /* 0 = discard all, 1 = keep last */) => void;
   historyView: (cId: DConversationId) => Readonly<DMessage[]> | undefined;
   appendMessage: (cId: DConversationId, message: DMessage) => void;
   deleteMessage: (cId: DConversationId, mId: DMessageId) => void;
   editMessage: (cId: DConversationId, mId: DMessageId, update: Partial<DMessage> | ((message: DMessage) => Partial<DMessage>), removePendingState: boolean, touchUpdated: boolean) => void;
+  editMessageInNewBranch: (cId: DConversationId, mId: DMessageId, fragments: DMessageFragment[]) => void;
+  switchMessageBranch: (cId: DConversationId, mId: DMessageId, direction: -1 | 1) => void;
   appendMessageFragment: (cId: DConversationId, mId: DMessageId, fragment: DMessageFragment, removePendingState: boolean, touchUpdated: boolean) => void;
   deleteMessageFragment: (cId: DConversationId, mId: DMessageId, fId: DMessageFragmentId, removePendingState: boolean, touchUpdated: boolean) => void;
   replaceMessageFragment: (cId: DConversationId, mId: DMessageId, fId: DMessageFragmentId, newFragment: DMessageFragment, removePendingState: boolean, touchUpdated: boolean) => void;
   updateMetadata: (cId: DConversationId, mId: DMessageId, metadataDelta: Partial<DMessageMetadata>, touchUpdated?: boolean) => void;
-  setSystemPurposeId: (cId: DConversationId, personaId: SystemPurposeId) => void;
+  setSystemPurposeId: (cId: DConversationId, personaId: DPersonaId) => void;
+  setCustomSystemPrompt: (cId: DConversationId, customSystemPrompt: string) => void;
   setAutoTitle: (cId: DConversationId, autoTitle: string) => void;
   setUserTitle: (cId: DConversationId, userTitle: string) => void;
   setUserSymbol: (cId: DConversationId, userSymbol: string | null) => void;
   setArchived: (cId: DConversationId, isArchived: boolean) => void;
+  setToolsMaxSteps: (cId: DConversationId, toolsMaxSteps: number | null) => void;
+  setResponseSchemaId: (cId: DConversationId, responseSchemaId: string | null | undefined) => void;
   title: (cId: DConversationId) => string | undefined;
 
   // utility function
@@ -71,7 +78,7 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
       // default state
       conversations: [], // we used to have a default conversation here for zero-state, but we moved it to the merge function
 
-      prependNewConversation: (personaId: SystemPurposeId | undefined, isIncognito: boolean): DConversationId => {
+      prependNewConversation: (personaId: DPersonaId | undefined, isIncognito: boolean): DConversationId => {
         const newConversation = createDConversation(personaId);
         if (isIncognito) newConversation._isIncognito = true;
 
@@ -137,7 +144,7 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
         return branched.id;
       },
 
-      deleteConversations: (conversationIds: DConversationId[], newConversationPersonaId?: SystemPurposeId): DConversationId => {
+      deleteConversations: (conversationIds: DConversationId[], newConversationPersonaId?: DPersonaId): DConversationId => {
         const { conversations } = _get();
 
         // find the index of first conversation to delete
@@ -216,6 +223,7 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
 
           return {
             messages: newMessages,
+            branches: !newMessages.length ? undefined : branchesPrune(newMessages, conversation.branches),
             ...(!!newMessages.length ? {} : {
               autoTitle: undefined,
             }),
@@ -233,19 +241,40 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
 
           conversation._abortController?.abort();
 
-          const truncatedMessages = conversation.messages.slice(0, Math.max(0, messageIndex + 1 + offset));
+          const { messages: truncatedMessages, branches } = branchesTruncate(conversation.messages, conversation.branches, Math.max(0, messageIndex + 1 + offset));
 
           // [workspace]
           // Note: simple chat truncation does not side-effect workspaces
 
           return {
             messages: truncatedMessages,
+            branches,
             tokenCount: updateMessagesTokenCounts(truncatedMessages, false, 'historyTruncateToIncluded'),
             updated: Date.now(),
             _abortController: null,
           };
         }),
 
+      historyBranchToIncluded: (conversationId: DConversationId, messageId: DMessageId, offset: number) =>
+        _get()._editConversation(conversationId, conversation => {
+          const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
+          if (messageIndex < 0 || messageIndex + 1 + offset >= conversation.messages.length)
+            return {};
+
+          conversation._abortController?.abort();
+
+          // the messages after the cut are kept as a sibling branch of what comes next
+          const { messages, branches } = branchesStashTail(conversation.messages, conversation.branches, Math.max(0, messageIndex + 1 + offset));
+
+          return {
+            messages,
+            branches,
+            tokenCount: updateMessagesTokenCounts(messages, false, 'historyBranchToIncluded'),
+            updated: Date.now(),
+            _abortController: null,
+          };
+        }),
+
       historyStripThinking: (conversationId: DConversationId, keepCount: number) =>
         _get()._editConversation(conversationId, ({ messages: _currentMessages }) => {
           let madeChanges = false;
@@ -308,13 +337,14 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
       deleteMessage: (conversationId: DConversationId, messageId: DMessageId) =>
         _get()._editConversation(conversationId, conversation => {
 
-          const messages = conversation.messages.filter(message => message.id !== messageId);
+          const { messages, branches } = branchesDeleteMessages(conversation.messages, conversation.branches, new Set([messageId]));
 
           // [workspace]
           // Note: simple deletion of a message does not side-effect workspaces
 
           return {
             messages,
+            branches,
             tokenCount: _sumMessagesTokenCounts(messages),
             updated: Date.now(),
           };
@@ -352,6 +382,51 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
           };
         }),
 
+      editMessageInNewBranch: (conversationId: DConversationId, messageId: DMessageId, fragments: DMessageFragment[]) =>
+        _get()._editConversation(conversationId, conversation => {
+          const messageIndex = conversation.messages.findIndex(m => m.id === messageId);
+          if (messageIndex < 0)
+            return {};
+
+          conversation._abortController?.abort();
+
+          // the original message and what follows become a sibling branch of the edited copy
+          const editedMessage: DMessage = {
+            ...duplicateDMessage(conversation.messages[messageIndex], false),
+            fragments,
+            created: Date.now(),
+            updated: Date.now(),
+          };
+          updateMessageTokenCount(editedMessage, getChatLLMId(), true, 'editMessageInNewBranch');
+
+          const { messages: stashedMessages, branches } = branchesStashTail(conversation.messages, conversation.branches, messageIndex);
+          const messages = [...stashedMessages, editedMessage];
+
+          return {
+            messages,
+            branches,
+            tokenCount: _sumMessagesTokenCounts(messages),
+            updated: Date.now(),
+            _abortController: null,
+          };
+        }),
+
+      switchMessageBranch: (conversationId: DConversationId, messageId: DMessageId, direction: -1 | 1) =>
+        _get()._editConversation(conversationId, conversation => {
+          const switched = branchesSwitchSibling(conversation.messages, conversation.branches, messageId, direction);
+          if (!switched)
+            return {};
+
+          conversation._abortController?.abort();
+
+          return {
+            messages: switched.messages,
+            branches: switched.branches,
+            tokenCount: updateMessagesTokenCounts(switched.messages, false, 'switchMessageBranch'),
+            _abortController: null,
+          };
+        }),
+
 
       appendMessageFragment: (conversationId: DConversationId, messageId: DMessageId, fragment: DMessageFragment, removePendingState: boolean, touchUpdated: boolean) => {
         _get().editMessage(conversationId, messageId, message => ({
@@ -409,7 +484,7 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
         });
       },
 
-      setSystemPurposeId: (conversationId: DConversationId, personaId: SystemPurposeId) =>
+      setSystemPurposeId: (conversationId: DConversationId, personaId: DPersonaId) =>
         _get()._editConversation(conversationId,
           {
             systemPurposeId: personaId,
@@ -433,6 +508,12 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
         return existing ? conversationTitle(existing) : undefined;
       },
 
+      setCustomSystemPrompt: (conversationId: DConversationId, customSystemPrompt: string) =>
+        _get()._editConversation(conversationId,
+          {
+            customSystemPrompt,
+          }),
+
       setUserSymbol: (conversationId: DConversationId, userSymbol: string | null) =>
         _get()._editConversation(conversationId,
           {
@@ -446,6 +527,18 @@ export const useChatStore = create<ConversationsStore>()(/*devtools(*/
             // updated: Date.now(), // don't update this - the 'entity state' shall update, but not this soft time
           }),
 
+      setToolsMaxSteps: (conversationId: DConversationId, toolsMaxSteps: number | null) =>
+        _get()._editConversation(conversationId,
+          {
+            toolsMaxSteps: toolsMaxSteps ?? undefined,
+          }),
+
+      setResponseSchemaId: (conversationId: DConversationId, responseSchemaId: string | null | undefined) =>
+        _get()._editConversation(conversationId,
+          {
+            responseSchemaId,
+          }),
+
     }),
     {
       name: 'app-chats',
@@ -594,7 +687,7 @@ export function getConversation(conversationId: DConversationId | null): DConver
   return conversationId ? useChatStore.getState().conversations.find(_c => _c.id === conversationId) ?? null : null;
 }
 
-export function getConversationSystemPurposeId(conversationId: DConversationId | null): SystemPurposeId | null {
+export function getConversationSystemPurposeId(conversationId: DConversationId | null): DPersonaId | null {
   return getConversation(conversationId)?.systemPurposeId || null;
 }
 
@@ -10,10 +10,12 @@ export interface DFolder {
   title: string;
   conversationIds: DConversationId[];
   color?: string; // Optional color property
+  knowledgeIds?: string[]; // knowledge collections included in the conversations of this folder
 }
 
 interface FolderState {
   folders: DFolder[];
+  foldersUpdated: number; // last change of the folders, 0 if none yet - the version of the folders for the sync
   enableFolders: boolean; // user setting - default to off until we get enough feedback
 }
 
@@ -24,6 +26,7 @@ interface FolderActions {
   moveFolder: (fromIndex: number, toIndex: number) => void;
   setFolderName: (folderId: string, title: string) => void;
   setFolderColor: (folderId: string, color: string) => void;
+  setFolderKnowledgeBound: (folderId: string, knowledgeId: string, bound: boolean) => void;
   addConversationToFolder: (folderId: string, conversationId: DConversationId) => void;
   removeConversationFromFolder: (folderId: string, conversationId: DConversationId) => void;
   toggleEnableFolders: () => void;
@@ -37,6 +40,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
 
       // Initial state
       folders: [],
+      foldersUpdated: 0,
       enableFolders: false,
 
       // Actions
@@ -46,6 +50,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
             ...state.folders.filter(f => !folders.find(f2 => f2.id === f.id)),
             ...folders,
           ],
+          foldersUpdated: Date.now(),
           enableFolders: enableFolders || state.enableFolders,
         })),
 
@@ -59,12 +64,14 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
 
         set(state => ({
           folders: [...state.folders, newFolder],
+          foldersUpdated: Date.now(),
         }));
       },
 
       deleteFolder: (folderId: string) =>
         set(state => ({
           folders: state.folders.filter(folder => folder.id !== folderId),
+          foldersUpdated: Date.now(),
         })),
 
       moveFolder: (fromIndex: number, toIndex: number) =>
@@ -72,7 +79,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
           const newFolders = [...state.folders];
           const [movedFolder] = newFolders.splice(fromIndex, 1);
           newFolders.splice(toIndex, 0, movedFolder);
-          return { folders: newFolders };
+          return { folders: newFolders, foldersUpdated: Date.now() };
         }),
 
       setFolderName: (folderId: string, title: string) =>
@@ -82,6 +89,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
               ? { ...folder, title }
               : folder,
           ),
+          foldersUpdated: Date.now(),
         })),
 
       setFolderColor: (folderId: string, color: string) =>
@@ -91,6 +99,22 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
               ? { ...folder, color }
               : folder,
           ),
+          foldersUpdated: Date.now(),
+        })),
+
+      setFolderKnowledgeBound: (folderId: string, knowledgeId: string, bound: boolean) =>
+        set(state => ({
+          folders: state.folders.map(folder => {
+            if (folder.id !== folderId) return folder;
+            const knowledgeIds = folder.knowledgeIds ?? [];
+            return {
+              ...folder,
+              knowledgeIds: !bound
+                ? knowledgeIds.filter(id => id !== knowledgeId)
+                : knowledgeIds.includes(knowledgeId) ? knowledgeIds : [...knowledgeIds, knowledgeId],
+            };
+          }),
+          foldersUpdated: Date.now(),
         })),
 
       addConversationToFolder: (folderId: string, conversationId: string) =>
@@ -103,7 +127,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
             }
             return folder;
           });
-          return { folders };
+          return { folders, foldersUpdated: Date.now() };
         }),
 
       removeConversationFromFolder: (folderId: string, conversationId: DConversationId) =>
@@ -113,6 +137,7 @@ export const useFolderStore = create<FolderStore>()(/*devtools(*/
               ? { ...folder, conversationIds: folder.conversationIds.filter(id => id !== conversationId) }
               : folder,
           ),
+          foldersUpdated: Date.now(),
         })),
 
       toggleEnableFolders: () => set(state => ({
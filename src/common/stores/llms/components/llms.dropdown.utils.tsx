@@ -1,5 +1,7 @@
 import { findModelVendor } from '~/modules/llms/vendors/vendors.registry';
 
+import { llmMetricsSortValue, LlmMetricsSlice, LlmMetricsSortKey } from '~/common/stores/metrics/metrics.llms';
+
 import type { DLLM, DLLMId } from '../llms.types';
 import type { DModelsServiceId } from '../llms.service.types';
 import { findModelsServiceOrNull } from '../store-llms';
@@ -65,6 +67,21 @@ export function sortLLMsByServiceLabel<T extends DLLM>(llms: ReadonlyArray<T>):
   return [...llms].sort((a, b) => labelById.get(a.sId)!.localeCompare(labelById.get(b.sId)!));
 }
 
+/**
+ * Stably sort LLMs by a statistic from our own traffic (best first), with the models without data last.
+ * Apply before sorting by service, to order the models within each service.
+ */
+export function sortLLMsByMetrics<T extends DLLM>(llms: ReadonlyArray<T>, sortKey: LlmMetricsSortKey, llmMetrics: LlmMetricsSlice['llmMetrics'] | undefined): T[] {
+  if (sortKey === 'default' || !llmMetrics || llms.length < 2) return [...llms];
+  const valueById = new Map(llms.map(llm => [llm.id, llmMetricsSortValue(llmMetrics[llm.id], sortKey)]));
+  return [...llms].sort((a, b) => {
+    const va = valueById.get(a.id), vb = valueById.get(b.id);
+    if (va === undefined || vb === undefined)
+      return va === vb ? 0 : va === undefined ? 1 : -1;
+    return va - vb;
+  });
+}
+
 /**
  * Group LLMs by service, alphabetically sorted by service label.
  * Preserves intra-service order.
@@ -24,7 +24,7 @@ import { createDModelConfiguration, DModelConfiguration } from '../modelconfigur
  * user did not pick it on the source domain.
  */
 export function llmsResolveDomainModel(
-  state: Pick<LlmsRootState, 'llms'> & LlmsAssignmentsState, // store state
+  state: Pick<LlmsRootState, 'llms'> & Pick<LlmsAssignmentsState, 'modelAssignments'>, // store state
   modelDomainId: DModelDomainId,
   verifyLLMExists: boolean,
   autoDomainFallback: boolean,
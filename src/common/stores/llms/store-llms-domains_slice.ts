@@ -21,6 +21,9 @@ export interface LlmsAssignmentsState {
 
   modelAssignments: _PartialLlmsAssignments;
 
+  // models to fail over to, in order, when the model of the domain is overloaded or down
+  modelFallbacks: Partial<Record<DModelDomainId, DLLMId[]>>;
+
 }
 
 export interface LlmsAssignmentsActions {
@@ -28,6 +31,7 @@ export interface LlmsAssignmentsActions {
   assignDomainModelAuto: (domainId: DModelDomainId) => void;
   assignDomainModelAutoIfStale: (domainId: DModelDomainId, alsoWhenInvisible: boolean) => void; // maintenance operation, at sync
   assignDomainModelId: (domainId: DModelDomainId, llmId: undefined /* -> Auto */ | (DLLMId | null /* DEPRECATE null, shall at best use undefined here */)) => void;
+  setDomainModelFallbacks: (domainId: DModelDomainId, llmIds: DLLMId[]) => void;
 
 }
 
@@ -38,6 +42,7 @@ export const createLlmsAssignmentsSlice: StateCreator<LlmsRootState & LlmsAssign
 
   // init state
   modelAssignments: {},
+  modelFallbacks: {},
 
   // actions
 
@@ -83,9 +88,24 @@ export const createLlmsAssignmentsSlice: StateCreator<LlmsRootState & LlmsAssign
     }));
   },
 
+  setDomainModelFallbacks: (domainId, llmIds) =>
+    _set(state => {
+      const { [domainId]: _removed, ...rest } = state.modelFallbacks;
+      return { modelFallbacks: llmIds.length ? { ...rest, [domainId]: llmIds } : rest };
+    }),
+
 });
 
 
+/**
+ * Next model of the fallback chain of the domain, skipping the models already tried and the ones that no longer exist.
+ */
+export function llmsFallbackNextLlmId(domainId: DModelDomainId, triedLlmIds: ReadonlyArray<DLLMId>): DLLMId | undefined {
+  const { llms, modelFallbacks } = useModelsStore.getState();
+  return modelFallbacks[domainId]?.find(llmId => !triedLlmIds.includes(llmId) && llms.some(llm => llm.id === llmId));
+}
+
+
 // --- Heuristics ---
 
 type RankedVendorLLMs = {
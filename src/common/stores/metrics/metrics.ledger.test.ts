@@ -0,0 +1,52 @@
+/// <reference types="node" />
+
+// Tests for the cost ledger: the roll-up of the older entries into daily totals.
+//
+// Run:
+// - `npx tsx --test src/common/stores/metrics/metrics.ledger.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+
+import { costLedgerGroupBy, costLedgerRollUpDays, costLedgerSum, DCostLedgerEntry } from './metrics.ledger';
+
+
+const at = (day: number, hour: number) => new Date(2025, 0, day, hour).getTime();
+
+function entry(t: number, c: number, llmId: string = 'm1', cId?: string): DCostLedgerEntry {
+  return { t, c, tIn: 10, tOut: 1, sId: 's1', llmId, surface: 'chat', ...(cId && { cId }) };
+}
+
+
+describe('costLedgerRollUpDays', () => {
+
+  const entries = [
+    entry(at(1, 9), 1, 'm1', 'c1'),
+    entry(at(1, 18), 2, 'm1', 'c1'),
+    entry(at(1, 20), 4, 'm2'),
+    entry(at(2, 9), 8, 'm1', 'c1'),
+    entry(at(3, 9), 16, 'm1', 'c1'),
+  ];
+
+  test('one total per day and breakdown before the limit, the rest as is', () => {
+    deepStrictEqual(costLedgerRollUpDays(entries, at(3, 0)), [
+      { t: at(1, 0), c: 3, tIn: 20, tOut: 2, sId: 's1', llmId: 'm1', surface: 'chat', cId: 'c1', n: 2 },
+      { t: at(1, 0), c: 4, tIn: 10, tOut: 1, sId: 's1', llmId: 'm2', surface: 'chat', n: 1 },
+      { t: at(2, 0), c: 8, tIn: 10, tOut: 1, sId: 's1', llmId: 'm1', surface: 'chat', cId: 'c1', n: 1 },
+      entries[4],
+    ]);
+  });
+
+  test('totals and call counts are kept, and rolling up again changes nothing', () => {
+    const rolledUp = costLedgerRollUpDays(entries, at(3, 0));
+    strictEqual(costLedgerSum(rolledUp, 0), costLedgerSum(entries, 0));
+    deepStrictEqual(costLedgerGroupBy(rolledUp, 0, e => e.llmId), costLedgerGroupBy(entries, 0, e => e.llmId));
+    deepStrictEqual(costLedgerRollUpDays(rolledUp, at(3, 0)), rolledUp);
+  });
+
+  test('nothing to roll up', () => {
+    deepStrictEqual(costLedgerRollUpDays(entries, at(1, 0)), entries);
+    deepStrictEqual(costLedgerRollUpDays([], at(3, 0)), []);
+  });
+
+});
@@ -0,0 +1,158 @@
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+
+
+/// Cost Ledger: one entry per chat-generate call, for the time series and breakdowns that the aggregates can't give;
+/// past a few weeks, the entries are rolled up into daily totals
+
+export interface DCostLedgerEntry {
+  t: number;              // Date.now() at completion
+  c: number;              // cost in cents of USD; 0 if free or unknown
+  tIn: number;            // input tokens, including cached
+  tOut: number;
+  sId: DModelsServiceId;
+  llmId: DLLMId;
+  surface: DCostSurface;
+  cId?: DConversationId;  // when the generation is attributable to a conversation
+  n?: number;             // number of calls, when rolled up into a daily total
+}
+
+export type DCostSurface =
+  | 'chat'
+  | 'beam'
+  | 'autotitle'
+  | 'follow-ups'
+  | 'call'
+  | 'other';
+
+export const COST_SURFACE_LABELS: Record<DCostSurface, string> = {
+  'chat': 'Chat',
+  'beam': 'Beam',
+  'autotitle': 'Auto-title',
+  'follow-ups': 'Follow-ups',
+  'call': 'Call',
+  'other': 'Other',
+};
+
+
+/**
+ * Maps the AIX context of a generation to the surface, and to the conversation when the
+ * context reference is a conversation id.
+ */
+export function costLedgerContext(contextName: string, contextRef: string): Pick<DCostLedgerEntry, 'surface' | 'cId'> {
+  switch (contextName) {
+    case 'conversation':
+      return { surface: 'chat', cId: contextRef };
+    case 'beam-scatter':
+    case 'beam-gather':
+      return { surface: 'beam' };
+    case 'chat-ai-title':
+      return { surface: 'autotitle', cId: contextRef };
+    case 'chat-followup-diagram':
+    case 'chat-followup-htmlui':
+      return { surface: 'follow-ups', cId: contextRef };
+    case 'call':
+      return { surface: 'call' };
+    default:
+      return { surface: 'other' };
+  }
+}
+
+
+/// Budgets
+
+export type DCostBudgetPeriod = 'day' | 'week' | 'month';
+
+export interface DCostBudget {
+  sId: DModelsServiceId;
+  period: DCostBudgetPeriod;
+  softLimit?: number; // USD - warns when reached
+  hardLimit?: number; // USD - blocks new generations when reached
+}
+
+/** Start of the current budget period, in local time; weeks start on Monday */
+export function costPeriodStart(period: DCostBudgetPeriod, now: number = Date.now()): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+  if (period === 'week')
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  else if (period === 'month')
+    date.setDate(1);
+  return date.getTime();
+}
+
+
+/// Aggregations
+
+const CENTS_TO_DOLLARS = 0.01;
+
+/** Total in USD of the entries matching the filter */
+export function costLedgerSum(entries: readonly DCostLedgerEntry[], since: number, serviceId?: DModelsServiceId): number {
+  let cents = 0;
+  for (const entry of entries)
+    if (entry.t >= since && (!serviceId || entry.sId === serviceId))
+      cents += entry.c;
+  return cents * CENTS_TO_DOLLARS;
+}
+
+/** Spending in USD per day or week, oldest first, ending with the current one */
+export function costLedgerBuckets(entries: readonly DCostLedgerEntry[], granularity: 'day' | 'week', count: number, now: number = Date.now()): { start: number, cost: number }[] {
+  const buckets: { start: number, cost: number }[] = [];
+  let start = costPeriodStart(granularity, now);
+  for (let i = 0; i < count; i++) {
+    buckets.unshift({ start, cost: 0 });
+    const previous = new Date(start);
+    previous.setDate(previous.getDate() - (granularity === 'week' ? 7 : 1));
+    start = previous.getTime();
+  }
+  for (const entry of entries) {
+    if (entry.t < buckets[0].start) continue;
+    let index = buckets.length - 1;
+    while (index > 0 && entry.t < buckets[index].start) index--;
+    buckets[index].cost += entry.c * CENTS_TO_DOLLARS;
+  }
+  return buckets;
+}
+
+/** Spending in USD grouped by a key, highest first */
+export function costLedgerGroupBy<K extends string>(entries: readonly DCostLedgerEntry[], since: number, keyFn: (entry: DCostLedgerEntry) => K | undefined): { key: K, cost: number, count: number }[] {
+  const groups = new Map<K, { key: K, cost: number, count: number }>();
+  for (const entry of entries) {
+    if (entry.t < since) continue;
+    const key = keyFn(entry);
+    if (key === undefined) continue;
+    const group = groups.get(key) ?? { key, cost: 0, count: 0 };
+    group.cost += entry.c * CENTS_TO_DOLLARS;
+    group.count += entry.n ?? 1;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.cost - a.cost);
+}
+
+
+/// Roll-ups
+
+/**
+ * Rolls up the entries before `before` into one entry per local day, service, model, surface and conversation,
+ * keeping their totals; the later entries are kept as they are. Chronological, as the ledger.
+ */
+export function costLedgerRollUpDays(entries: readonly DCostLedgerEntry[], before: number): DCostLedgerEntry[] {
+  const dayTotals = new Map<string, DCostLedgerEntry>();
+  let index = 0;
+  for (; index < entries.length && entries[index].t < before; index++) {
+    const entry = entries[index];
+    const day = costPeriodStart('day', entry.t);
+    const key = JSON.stringify([day, entry.sId, entry.llmId, entry.surface, entry.cId ?? null]);
+    const total = dayTotals.get(key);
+    if (!total) {
+      dayTotals.set(key, { ...entry, t: day, n: entry.n ?? 1 });
+      continue;
+    }
+    total.c += entry.c;
+    total.tIn += entry.tIn;
+    total.tOut += entry.tOut;
+    total.n = (total.n ?? 1) + (entry.n ?? 1);
+  }
+  return !index ? [...entries] : [...dayTotals.values(), ...entries.slice(index)];
+}
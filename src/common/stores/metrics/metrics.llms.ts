@@ -0,0 +1,197 @@
+import type { StateCreator } from 'zustand';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+
+
+/// Per-model live statistics, from our own traffic: latency, speed, reliability and costs
+
+export type LlmMetricsErrorKind =
+  | 'rate-limit'  // 429 from the upstream
+  | 'server'      // 5xx from the upstream
+  | 'request'     // other 4xx: invalid request, context too long, auth, ...
+  | 'network'     // disconnected or timed out before the end
+  | 'filter'      // stopped by the content filter
+  | 'other';
+
+export const LLM_METRICS_ERROR_LABELS: Record<LlmMetricsErrorKind, string> = {
+  'rate-limit': 'Rate limited',
+  'server': 'Server error',
+  'request': 'Request error',
+  'network': 'Network',
+  'filter': 'Filtered',
+  'other': 'Other',
+};
+
+export interface LlmMetricsEntry {
+  ttftMs?: number;          // time to first token
+  tokensPerSecond?: number; // output speed, after the first token
+  costCents?: number;       // undefined if the model is not priced
+  errorKind?: LlmMetricsErrorKind;
+}
+
+interface LlmMetricsAggregate {
+  requests: number;
+  failures: number;
+  errorKinds: Partial<Record<LlmMetricsErrorKind, number>>;
+
+  // accumulators - with their own counts, as not every response carries every measure
+  ttftSumMs: number;
+  ttftCount: number;
+  speedSum: number;
+  speedCount: number;
+  costSumCents: number;
+  costCount: number;
+
+  firstUsageDate: number; // Date.now()
+  lastUsageDate: number; // Date.now()
+}
+
+function createLlmMetricsAggregate(): LlmMetricsAggregate {
+  return {
+    requests: 0,
+    failures: 0,
+    errorKinds: {},
+    ttftSumMs: 0,
+    ttftCount: 0,
+    speedSum: 0,
+    speedCount: 0,
+    costSumCents: 0,
+    costCount: 0,
+    firstUsageDate: 0,
+    lastUsageDate: 0,
+  };
+}
+
+
+// LLM Metrics Store Slice
+
+interface LlmMetricsState {
+
+  // LLM Metrics
+  llmMetrics: Record<DLLMId, LlmMetricsAggregate>;
+
+}
+
+interface LlmMetricsActions {
+  addLlmGenerateEntry: (llmId: DLLMId, entry: LlmMetricsEntry) => void;
+  resetLlmMetrics: (llmId: DLLMId) => void;
+}
+
+export type LlmMetricsSlice = LlmMetricsState & LlmMetricsActions;
+
+export const createLlmMetricsSlice: StateCreator<LlmMetricsSlice, [], [], LlmMetricsSlice> = (set) => ({
+
+  llmMetrics: {},
+
+  addLlmGenerateEntry: (llmId, entry) => set((state) => ({
+    llmMetrics: {
+      ...state.llmMetrics,
+      [llmId]: updateLlmMetrics(state.llmMetrics[llmId] || createLlmMetricsAggregate(), entry, Date.now()),
+    },
+  })),
+
+  resetLlmMetrics: (llmId) => set((state) => {
+    if (!state.llmMetrics[llmId]) return state;
+    const { [llmId]: _removed, ...llmMetrics } = state.llmMetrics;
+    return { llmMetrics };
+  }),
+
+});
+
+
+/// Aggregation Functions
+
+function updateLlmMetrics(currentMetrics: LlmMetricsAggregate, entry: LlmMetricsEntry, timestamp: number): LlmMetricsAggregate {
+  const newMetrics = { ...currentMetrics };
+
+  newMetrics.requests++;
+  if (entry.errorKind) {
+    newMetrics.failures++;
+    newMetrics.errorKinds = { ...newMetrics.errorKinds, [entry.errorKind]: (newMetrics.errorKinds[entry.errorKind] || 0) + 1 };
+  }
+
+  // the timings of failed requests would skew the averages
+  if (!entry.errorKind) {
+    if (entry.ttftMs !== undefined && entry.ttftMs > 0) {
+      newMetrics.ttftSumMs += entry.ttftMs;
+      newMetrics.ttftCount++;
+    }
+    if (entry.tokensPerSecond !== undefined && entry.tokensPerSecond > 0) {
+      newMetrics.speedSum += entry.tokensPerSecond;
+      newMetrics.speedCount++;
+    }
+  }
+  if (entry.costCents !== undefined) {
+    newMetrics.costSumCents += entry.costCents;
+    newMetrics.costCount++;
+  }
+
+  newMetrics.lastUsageDate = timestamp;
+  if (!newMetrics.firstUsageDate)
+    newMetrics.firstUsageDate = timestamp;
+
+  return newMetrics;
+}
+
+
+/// Summaries
+
+export interface LlmMetricsSummary {
+  requests: number;
+  errorRate: number; // 0..1
+  errorKinds: Partial<Record<LlmMetricsErrorKind, number>>;
+  avgTtftMs?: number;
+  avgTokensPerSecond?: number;
+  avgCost?: number; // USD per message
+  firstUsageDate: number;
+  lastUsageDate: number;
+}
+
+const CENTS_TO_DOLLARS = 0.01;
+
+export function llmMetricsSummary(metrics: LlmMetricsAggregate | undefined): LlmMetricsSummary | null {
+  if (!metrics?.requests) return null;
+  return {
+    requests: metrics.requests,
+    errorRate: metrics.failures / metrics.requests,
+    errorKinds: metrics.errorKinds,
+    avgTtftMs: metrics.ttftCount ? metrics.ttftSumMs / metrics.ttftCount : undefined,
+    avgTokensPerSecond: metrics.speedCount ? metrics.speedSum / metrics.speedCount : undefined,
+    avgCost: metrics.costCount ? metrics.costSumCents * CENTS_TO_DOLLARS / metrics.costCount : undefined,
+    firstUsageDate: metrics.firstUsageDate,
+    lastUsageDate: metrics.lastUsageDate,
+  };
+}
+
+
+/// Sorting
+
+export type LlmMetricsSortKey = 'default' | 'speed' | 'latency' | 'reliability' | 'cost';
+
+export const LLM_METRICS_SORT_LABELS: Record<LlmMetricsSortKey, string> = {
+  default: 'Default',
+  speed: 'Fastest output',
+  latency: 'Quickest first token',
+  reliability: 'Fewest errors',
+  cost: 'Cheapest per message',
+};
+
+/**
+ * Value to sort the models by, ascending (lower is better); undefined when there is no data yet.
+ */
+export function llmMetricsSortValue(metrics: LlmMetricsAggregate | undefined, sortKey: LlmMetricsSortKey): number | undefined {
+  const summary = llmMetricsSummary(metrics);
+  if (!summary) return undefined;
+  switch (sortKey) {
+    case 'speed':
+      return summary.avgTokensPerSecond !== undefined ? -summary.avgTokensPerSecond : undefined;
+    case 'latency':
+      return summary.avgTtftMs;
+    case 'reliability':
+      return summary.errorRate;
+    case 'cost':
+      return summary.avgCost;
+    case 'default':
+      return undefined;
+  }
+}
@@ -0,0 +1,114 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+import { findModelsServiceOrNull } from '~/common/stores/llms/store-llms';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
+import { createIDBPersistStorage } from '~/common/util/idbUtils';
+import { formatModelsCost } from '~/common/util/costUtils';
+
+import { costLedgerRollUpDays, costLedgerSum, costPeriodStart, DCostBudget, DCostBudgetPeriod, DCostLedgerEntry } from './metrics.ledger';
+
+
+// configuration
+const LEDGER_MAX_AGE_MS = 400 * 24 * 60 * 60 * 1000; // a bit over a year, for month-over-month comparisons
+const LEDGER_DETAIL_MAX_AGE_MS = 35 * 24 * 60 * 60 * 1000; // older days are rolled up into daily totals - longer than the budget periods and the daily chart
+const LEDGER_MAX_ENTRIES = 20_000; // backstop: trimmed to 90% when exceeded, so it is not trimmed on every call
+
+
+interface CostLedgerState {
+  entries: DCostLedgerEntry[]; // chronological
+  budgets: DCostBudget[];      // at most one per service
+}
+
+interface CostLedgerActions {
+  appendEntry: (entry: DCostLedgerEntry) => void;
+  clearEntries: () => void;
+  setBudget: (budget: DCostBudget) => void;
+  removeBudget: (serviceId: DModelsServiceId) => void;
+}
+
+type CostLedgerStore = CostLedgerState & CostLedgerActions;
+
+
+export const useCostLedgerStore = create<CostLedgerStore>()(persist(
+  (set) => ({
+
+    entries: [],
+    budgets: [],
+
+    appendEntry: (entry) => set(state => {
+      const last = state.entries.length ? state.entries[state.entries.length - 1] : null;
+      let entries = [...state.entries, entry];
+
+      // housekeeping, on the first call of a day: drop the expired entries, and roll up the older days
+      if ((last && costPeriodStart('day', last.t) !== costPeriodStart('day', entry.t)) || entries.length > LEDGER_MAX_ENTRIES) {
+        const oldest = entry.t - LEDGER_MAX_AGE_MS;
+        entries = costLedgerRollUpDays(entries.filter(e => e.t >= oldest), costPeriodStart('day', entry.t - LEDGER_DETAIL_MAX_AGE_MS));
+        if (entries.length > LEDGER_MAX_ENTRIES)
+          entries = entries.slice(-Math.round(LEDGER_MAX_ENTRIES * 0.9));
+      }
+      return { entries };
+    }),
+
+    clearEntries: () => set({ entries: [] }),
+
+    setBudget: (budget) => set(state => ({
+      budgets: [...state.budgets.filter(b => b.sId !== budget.sId), budget],
+    })),
+
+    removeBudget: (serviceId) => set(state => ({
+      budgets: state.budgets.filter(b => b.sId !== serviceId),
+    })),
+
+  }),
+  {
+    name: 'app-metrics-ledger',
+    storage: createIDBPersistStorage<CostLedgerStore>(), // grows with usage, keep it out of localStorage
+  },
+));
+
+
+export function costLedgerActions(): CostLedgerActions {
+  return useCostLedgerStore.getState();
+}
+
+
+// Budgets
+
+const _softWarnedPeriods = new Set<string>();
+
+const _periodLabels: Record<DCostBudgetPeriod, string> = {
+  day: 'daily',
+  week: 'weekly',
+  month: 'monthly',
+};
+
+/**
+ * Checks the spending of the current period against the budget of the service, if any.
+ * Past the soft limit, warns once per period; past the hard limit, blocks the generation.
+ *
+ * @throws Error if the hard limit of the service budget has been reached
+ */
+export function metricsBudgetCheckOrThrow(serviceId: DModelsServiceId) {
+  const { budgets, entries } = useCostLedgerStore.getState();
+  const budget = budgets.find(b => b.sId === serviceId);
+  if (!budget || (!budget.hardLimit && !budget.softLimit)) return;
+
+  const periodStart = costPeriodStart(budget.period);
+  const spent = costLedgerSum(entries, periodStart, serviceId);
+  const serviceLabel = findModelsServiceOrNull(serviceId)?.label || serviceId;
+
+  if (budget.hardLimit && spent >= budget.hardLimit)
+    throw new Error(`The ${_periodLabels[budget.period]} budget of ${formatModelsCost(budget.hardLimit)} for ${serviceLabel} has been reached (${formatModelsCost(spent)} spent). Raise or remove the limit in the Costs page to continue.`);
+
+  const warnKey = `${serviceId}-${periodStart}`;
+  if (budget.softLimit && spent >= budget.softLimit && !_softWarnedPeriods.has(warnKey)) {
+    _softWarnedPeriods.add(warnKey);
+    addSnackbar({
+      key: 'budget-soft-' + serviceId,
+      type: 'issue',
+      message: `${serviceLabel}: ${formatModelsCost(spent)} spent, over the ${_periodLabels[budget.period]} budget of ${formatModelsCost(budget.softLimit)}.`,
+    });
+  }
+}
@@ -1,24 +1,42 @@
+import * as React from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
-import type { DLLM } from '~/common/stores/llms/llms.types';
+import type { DLLM, DLLMId } from '~/common/stores/llms/llms.types';
 import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
 
 import type { MetricsChatGenerateCost_Md } from './metrics.chatgenerate';
+import { costLedgerActions } from './store-metrics-ledger';
+import { costLedgerContext } from './metrics.ledger';
+import { createLlmMetricsSlice, LlmMetricsEntry, LlmMetricsSlice, LlmMetricsSortKey, llmMetricsSummary } from './metrics.llms';
 import { createServiceMetricsSlice, fallbackEmptyServiceMetricsAggregate, ServiceMetricsSlice } from './metrics.modelservice';
 
 
 // Store: single per-app, using the slices pattern for aggregations
 
-const useMetricsStore = create<ServiceMetricsSlice>()(persist((...a) => ({
+const useMetricsStore = create<ServiceMetricsSlice & LlmMetricsSlice>()(persist((...a) => ({
   ...createServiceMetricsSlice(...a),
+  ...createLlmMetricsSlice(...a),
 }), {
   name: 'app-metrics',
 }));
 
 
-export function metricsStoreAddChatGenerate(costs: MetricsChatGenerateCost_Md, inputTokens: number, outputTokens: number, llm: DLLM, debugCostSource: string) {
+export function metricsStoreAddChatGenerate(costs: MetricsChatGenerateCost_Md, inputTokens: number, outputTokens: number, llm: DLLM, contextName: string, contextRef: string) {
+  const debugCostSource = `aix_chatgenerate-${contextName}`;
   useMetricsStore.getState().addChatGenerateCostEntry(costs, inputTokens, outputTokens, llm.sId || null, debugCostSource);
+
+  // per-generation entry, for the time series and the budgets
+  if (llm.sId)
+    costLedgerActions().appendEntry({
+      t: Date.now(),
+      c: costs.$c ?? 0,
+      tIn: inputTokens,
+      tOut: outputTokens,
+      sId: llm.sId,
+      llmId: llm.id,
+      ...costLedgerContext(contextName, contextRef),
+    });
 }
 
 export function useCostMetricsForLLMService(serviceId?: DModelsServiceId) {
@@ -27,3 +45,22 @@ export function useCostMetricsForLLMService(serviceId?: DModelsServiceId) {
       : fallbackEmptyServiceMetricsAggregate,
   );
 }
+
+
+export function metricsStoreAddLlmGenerate(llmId: DLLMId, entry: LlmMetricsEntry) {
+  useMetricsStore.getState().addLlmGenerateEntry(llmId, entry);
+}
+
+export function metricsStoreResetLlm(llmId: DLLMId) {
+  useMetricsStore.getState().resetLlmMetrics(llmId);
+}
+
+export function useLlmMetricsSummary(llmId: DLLMId | null) {
+  const metrics = useMetricsStore((state) => llmId ? state.llmMetrics[llmId] : undefined);
+  return React.useMemo(() => llmMetricsSummary(metrics), [metrics]);
+}
+
+/** The statistics of all models, only when sorting by them, to not re-render the model lists on every generation */
+export function useLlmMetricsForSorting(sortKey: LlmMetricsSortKey) {
+  return useMetricsStore((state) => sortKey === 'default' ? undefined : state.llmMetrics);
+}
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+import type { DModelDomainId } from '~/common/stores/llms/model.domains.types';
+
 
 /// Global AI Preferences ///
 
@@ -18,6 +20,13 @@ interface AIPreferencesState {
   // Vendors: Gemini/Vertex AI grounding redirect links
   vndGeminiVertexLinks: AIVndGeminiVertexLinksPolicy;
 
+  // Local response cache: replays identical requests of these domains, for the utility calls that opt in
+  responseCacheDomains: DModelDomainId[];
+  responseCacheTtlHours: number;
+
+  // Attachments: seconds between the frames sampled from video files
+  videoFrameIntervalSec: number;
+
 }
 
 interface AIPreferencesActions {
@@ -28,6 +37,13 @@ interface AIPreferencesActions {
   // Vendors: Gemini
   setVndGeminiVertexLinks: (policy: AIVndGeminiVertexLinksPolicy) => void;
 
+  // Response cache
+  setResponseCacheDomain: (domainId: DModelDomainId, enabled: boolean) => void;
+  setResponseCacheTtlHours: (hours: number) => void;
+
+  // Attachments
+  setVideoFrameIntervalSec: (seconds: number) => void;
+
   // Maintenance
   resetToDefaults: () => void;
 
@@ -37,6 +53,9 @@ interface AIPreferencesActions {
 const createAIPreferencesDefaults = (): AIPreferencesState => ({
   vndAntInlineFiles: 'inline-file',
   vndGeminiVertexLinks: 'as-is',
+  responseCacheDomains: [],
+  responseCacheTtlHours: 24,
+  videoFrameIntervalSec: 10,
 });
 
 
@@ -50,6 +69,15 @@ export const useAIPreferencesStore = create<AIPreferencesState & AIPreferencesAc
   // Vendors: Gemini
   setVndGeminiVertexLinks: (vndGeminiVertexLinks: AIVndGeminiVertexLinksPolicy) => _set({ vndGeminiVertexLinks }),
 
+  // Response cache
+  setResponseCacheDomain: (domainId: DModelDomainId, enabled: boolean) => _set(state => ({
+    responseCacheDomains: enabled ? [...state.responseCacheDomains.filter(d => d !== domainId), domainId] : state.responseCacheDomains.filter(d => d !== domainId),
+  })),
+  setResponseCacheTtlHours: (responseCacheTtlHours: number) => _set({ responseCacheTtlHours }),
+
+  // Attachments
+  setVideoFrameIntervalSec: (videoFrameIntervalSec: number) => _set({ videoFrameIntervalSec }),
+
   // Maintenance
   resetToDefaults: () => _set(createAIPreferencesDefaults()),
 
@@ -68,6 +96,16 @@ export function getVndGeminiVertexLinks(): AIVndGeminiVertexLinksPolicy {
   return useAIPreferencesStore.getState().vndGeminiVertexLinks;
 }
 
+/** @returns the time to live of the cached responses for the domain, or null if caching is off for it */
+export function getResponseCacheTtlMs(domainId: DModelDomainId): number | null {
+  const { responseCacheDomains, responseCacheTtlHours } = useAIPreferencesStore.getState();
+  return responseCacheDomains.includes(domainId) ? responseCacheTtlHours * 60 * 60 * 1000 : null;
+}
+
+export function getVideoFrameIntervalSec(): number {
+  return useAIPreferencesStore.getState().videoFrameIntervalSec;
+}
+
 // export function resetAIPreferencesToDefaults(): void {
 //   useAIPreferencesStore.getState().resetToDefaults();
 // }
@@ -3,6 +3,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
 import type { ContentScaling, UIComplexityMode } from '~/common/app.theme';
+import type { LlmMetricsSortKey } from '~/common/stores/metrics/metrics.llms';
 import { BrowserLang } from '~/common/util/pwaUtils';
 import { Release } from '~/common/app.release';
 
@@ -57,6 +58,9 @@ interface UIPreferencesStore {
   modelsStarredOnTop: boolean;
   setModelsStarredOnTop: (modelsStarredOnTop: boolean) => void;
 
+  modelsSortBy: LlmMetricsSortKey; // within each service, by the statistics of our own traffic
+  setModelsSortBy: (modelsSortBy: LlmMetricsSortKey) => void;
+
   composerQuickButton: 'off' | 'call' | 'beam';
   setComposerQuickButton: (composerQuickButton: 'off' | 'call' | 'beam') => void;
 
@@ -135,6 +139,9 @@ export const useUIPreferencesStore = create<UIPreferencesStore>()(
       modelsStarredOnTop: true,
       setModelsStarredOnTop: (modelsStarredOnTop: boolean) => set({ modelsStarredOnTop }),
 
+      modelsSortBy: 'default',
+      setModelsSortBy: (modelsSortBy: LlmMetricsSortKey) => set({ modelsSortBy }),
+
       composerQuickButton: 'beam',
       setComposerQuickButton: (composerQuickButton: 'off' | 'call' | 'beam') => set({ composerQuickButton }),
 
@@ -0,0 +1,64 @@
+/**
+ * Functions to deal with audio files from the frontend: decoding and WAV encoding.
+ * Also see imageUtils.ts and videoUtils.ts for the other media.
+ */
+
+
+// configuration
+const WAV_DEFAULT_SAMPLE_RATE = 16000; // speech quality, and what LLMs resample to anyway
+
+
+/**
+ * Decodes a compressed audio file (mp3, m4a, ogg, webm, ...) to PCM, as supported by the browser.
+ * Uses an OfflineAudioContext, which does not require a user gesture.
+ *
+ * @throws if the format is not supported or the data is corrupted
+ */
+export async function audioBlobDecode(audioBlob: Blob): Promise<AudioBuffer> {
+  const arrayBuffer = await audioBlob.arrayBuffer();
+  const decodeContext = new OfflineAudioContext(1, 1, 44100);
+  return await decodeContext.decodeAudioData(arrayBuffer);
+}
+
+/**
+ * Resamples the decoded audio to mono at the given sample rate, and encodes it as a 16-bit PCM WAV.
+ * Audio -> OfflineAudioContext (downmix + resample) -> RIFF/WAVE
+ */
+export async function audioBufferToWavBlob(audioBuffer: AudioBuffer, sampleRate: number = WAV_DEFAULT_SAMPLE_RATE): Promise<Blob> {
+
+  // downmix and resample
+  const frameCount = Math.max(1, Math.ceil(audioBuffer.duration * sampleRate));
+  const renderContext = new OfflineAudioContext(1, frameCount, sampleRate);
+  const source = renderContext.createBufferSource();
+  source.buffer = audioBuffer;
+  source.connect(renderContext.destination);
+  source.start();
+  const samples = (await renderContext.startRendering()).getChannelData(0);
+
+  // RIFF/WAVE header + PCM16 LE samples
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++)
+      view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);              // block align
+  view.setUint16(34, 16, true);             // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0, offset = 44; i < samples.length; i++, offset += 2) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7FFF, true);
+  }
+
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
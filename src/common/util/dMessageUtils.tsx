@@ -9,9 +9,8 @@ import SettingsSuggestIcon from '@mui/icons-material/SettingsSuggest';
 import SmartToyOutlinedIcon from '@mui/icons-material/SmartToyOutlined';
 import VisibilityOffOutlinedIcon from '@mui/icons-material/VisibilityOffOutlined';
 
-import { SystemPurposeId, SystemPurposes } from '../../data';
-
 import { llmsGetVendorIcon } from '~/modules/llms/components/LLMVendorIcon';
+import { getPersona } from '~/modules/persona/store-personas';
 import { t2iIsPainterName } from '~/modules/t2i/t2i.config';
 
 import type { MetricsChatGenerateCost_Md } from '~/common/stores/metrics/metrics.chatgenerate';
@@ -88,11 +87,11 @@ export const tooltipMetricsGridSx: SxProps = {
 
 
 /** Whole message background color, based on the message role and state */
-export function messageBackground(messageRole: DMessageRole | string, userCommand: 'draw' | 'react' | false, wasEdited: boolean, isAssistantIssue: boolean): string {
+export function messageBackground(messageRole: DMessageRole | string, userCommand: 'draw' | 'agent' | false, wasEdited: boolean, isAssistantIssue: boolean): string {
   switch (messageRole) {
     case 'user':
       return userCommand === 'draw' ? 'warning.softActiveBg'
-        : userCommand === 'react' ? 'success.softHoverBg'
+        : userCommand === 'agent' ? 'success.softHoverBg'
           : 'primary.plainHoverBg'; // was .background.level1
     case 'assistant':
       return isAssistantIssue ? 'danger.softBg' : 'background.surface';
@@ -109,7 +108,7 @@ export function makeMessageAvatarIcon(
   uiComplexityMode: UIComplexityMode,
   messageRole: DMessageRole | string,
   messageGeneratorName: string | undefined,
-  messagePurposeId: SystemPurposeId | string | undefined,
+  messagePurposeId: string | undefined,
   messageIncomplete: boolean,
   messageFlagAixSkip: boolean,
   messageFlaxNotifyComplete: boolean,
@@ -158,7 +157,7 @@ export function makeMessageAvatarIcon(
           />;
 
         // Purpose image (if present)
-        const purposeImage = SystemPurposes[messagePurposeId as SystemPurposeId]?.imageUri ?? undefined;
+        const purposeImage = getPersona(messagePurposeId)?.imageUri ?? undefined;
         if (purposeImage)
           return <Avatar
             variant='plain'
@@ -180,7 +179,7 @@ export function makeMessageAvatarIcon(
       // if (messageIncomplete)
 
       // purpose symbol (if present)
-      const symbol = SystemPurposes[messagePurposeId as SystemPurposeId]?.symbol;
+      const symbol = getPersona(messagePurposeId)?.symbol;
       if (symbol)
         return <Box sx={{
           fontSize: '24px',
@@ -270,6 +269,8 @@ export function useMessageAvatarLabel(
         <Box sx={tooltipSx}>
           {VendorIcon ? <Box sx={tooltipIconContainerSx}><VendorIcon />{generator.name}</Box> : <div>{generator.name}</div>}
           {generator.providerInfraLabel && <div>{vendorId} -&gt; via &lsquo;{generator.providerInfraLabel}&rsquo;</div>}
+          {!!generator.failoverFrom?.length && <div>Failover from {generator.failoverFrom.map(f => f.name).join(', ')}</div>}
+          {!!generator.cachedAt && <div>Replayed from the local cache</div>}
           {(modelId && complexity === 'extra') && <div>{modelId}</div>}
           {metrics && <div>{metrics}</div>}
           {stopReason && <div>{stopReason}</div>}
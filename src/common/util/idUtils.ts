@@ -7,6 +7,7 @@ type UidScope =
   | 'beam-preset-config'
   | 'beam-ray'
   | 'chat-block'
+  | 'chat-command'
   | 'chat-dconversation'
   | 'chat-dmessage'
   | 'chat-dfragment'
@@ -17,15 +18,21 @@ type UidScope =
   | 'dblob-asset'
   | 'draw-prompt'
   | 'event-id'
+  | 'knowledge-collection'
   | 'livefile-item'
   | 'logger'
+  | 'mcp-server'
+  | 'persona'
   | 'persona-creator-chain'
   | 'persona-simple'
   | 'processing-queue-task'
+  | 'prompt-template'
+  | 'response-schema'
   | 'server-storage-deletion-key'
   | 'server-storage-id'
   | 'server-storage-owner'
   | 'snackbar-item'
+  | 'sync-key'
   | 'variform-variable'
   | 'vector-device-id10'
   ;
@@ -31,6 +31,15 @@ export type CommonImageMimeTypes = 'image/png' | 'image/jpeg' | 'image/webp';
 export type LLMImageResizeMode = 'openai-low-res' | 'openai-high-res' | 'google' | 'anthropic' | 'thumbnail-128' | 'thumbnail-256';
 
 
+/**
+ * SVG markup as a standalone image: unlike inline SVG in a page, an SVG image (data URL, blob)
+ * does not render without the namespace, which the SVGs written by models often omit.
+ */
+export function svgAsStandaloneImage(svgCode: string): string {
+  return svgCode.replace(/<svg\b([^>]*)>/i, (tag, attrs: string) =>
+    /\sxmlns\s*=/i.test(attrs) ? tag : `<svg xmlns="http://www.w3.org/2000/svg"${attrs}>`);
+}
+
 /**
  * Converts an SVG string to a PNG Blob via an intermediate canvas.
  */
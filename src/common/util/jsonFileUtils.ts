@@ -0,0 +1,41 @@
+import * as z from 'zod/v4';
+import { fileOpen, fileSave } from 'browser-fs-access';
+
+
+/// JSON files of a given schema, to share data (e.g. personas, prompts) across devices and users
+
+/**
+ * Saves the data as a pretty-printed JSON file.
+ * @throws {DOMException} AbortError if the user closes the save dialog
+ */
+export async function jsonFileSave<TSchema extends z.ZodType>(_schema: TSchema, data: z.output<TSchema>, fileName: string): Promise<void> {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  await fileSave(blob, { fileName, extensions: ['.json'] });
+}
+
+/**
+ * Opens a JSON file chosen by the user, and parses it with the schema.
+ * @returns the parsed data, or null if the user cancelled
+ * @throws {Error} if the file is not valid JSON, or with `mismatchMessage` if it does not match the schema
+ */
+export async function jsonFileOpen<TSchema extends z.ZodType>(schema: TSchema, mismatchMessage: string): Promise<z.output<TSchema> | null> {
+  let file: File;
+  try {
+    file = await fileOpen({ extensions: ['.json'], mimeTypes: ['application/json'] });
+  } catch (error: any) {
+    if (error?.name === 'AbortError') return null;
+    throw error;
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success)
+    throw new Error(mismatchMessage);
+  return parsed.data;
+}
@@ -12,6 +12,9 @@ import { prettyTimestampForFilenames } from './timeUtils';
 
 type AllowedFormats = 'image/png' | 'image/jpeg';
 
+// a video that can't be decoded may neither load nor fail: give up after this long
+const VIDEO_EVENT_TIMEOUT_MS = 20 * 1000;
+
 
 /**
  * Take the current frame of a video element and downloads it as a named PNG file.
@@ -45,6 +48,113 @@ export async function renderVideoFrameAsFile(videoElement: HTMLVideoElement, pre
 }
 
 
+/**
+ * Reads the duration and size of a video file, without decoding frames.
+ *
+ * @throws if the video cannot be decoded by the browser
+ */
+export async function videoBlobProbe(videoBlob: Blob): Promise<{ durationSec: number; width: number; height: number }> {
+  const objectUrl = URL.createObjectURL(videoBlob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'metadata';
+  try {
+    await _videoWaitForEvent(video, 'loadedmetadata', () => video.src = objectUrl);
+    return {
+      durationSec: Number.isFinite(video.duration) ? video.duration : 0,
+      width: video.videoWidth,
+      height: video.videoHeight,
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+export interface VideoSampledFrame {
+  timeSec: number;
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Samples frames from a video file at a regular interval, by seeking an off-screen video element.
+ * The interval is widened when the video is too long for `maxFrames`, so frames always span the full video.
+ * Video File -> <video> -> (seek -> Canvas -> Blob) x N
+ *
+ * @throws if the video cannot be decoded by the browser
+ */
+export async function videoBlobSampleFrames(videoBlob: Blob, intervalSec: number, maxFrames: number, imageFormat: AllowedFormats, imageQuality?: number): Promise<{
+  frames: VideoSampledFrame[];
+  durationSec: number;
+  width: number;
+  height: number;
+}> {
+  const objectUrl = URL.createObjectURL(videoBlob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  try {
+
+    // load metadata (duration, size)
+    await _videoWaitForEvent(video, 'loadeddata', () => video.src = objectUrl);
+    const durationSec = Number.isFinite(video.duration) ? video.duration : 0;
+
+    // timestamps: in the middle of each interval, so that the first frame is not a black fade-in
+    const effectiveInterval = Math.max(intervalSec, durationSec / Math.max(1, maxFrames));
+    const timestamps: number[] = [];
+    for (let t = Math.min(effectiveInterval / 2, durationSec / 2); t < durationSec && timestamps.length < maxFrames; t += effectiveInterval)
+      timestamps.push(t);
+    if (!timestamps.length)
+      timestamps.push(0);
+
+    // seek and capture
+    const frames: VideoSampledFrame[] = [];
+    for (const timeSec of timestamps) {
+      await _videoWaitForEvent(video, 'seeked', () => video.currentTime = timeSec);
+      const canvas = renderVideoFrameToNewCanvas(video);
+      const { blob, actualMimeType } = await asyncCanvasToBlobWithValidation(canvas, imageFormat, imageQuality, 'videoBlobSampleFrames');
+      frames.push({ timeSec, blob, mimeType: actualMimeType, width: canvas.width, height: canvas.height });
+    }
+
+    return { frames, durationSec, width: video.videoWidth, height: video.videoHeight };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+function _videoWaitForEvent(video: HTMLVideoElement, eventName: 'loadedmetadata' | 'loadeddata' | 'seeked', trigger: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error(video.error?.message || 'The video format is not supported by this browser'));
+    };
+    const timeout = setTimeout(() => {
+      cleanup();
+      reject(new Error(`The video could not be read (no '${eventName}' after ${VIDEO_EVENT_TIMEOUT_MS / 1000}s)`));
+    }, VIDEO_EVENT_TIMEOUT_MS);
+    const cleanup = () => {
+      clearTimeout(timeout);
+      video.removeEventListener(eventName, onEvent);
+      video.removeEventListener('error', onError);
+    };
+    video.addEventListener(eventName, onEvent);
+    video.addEventListener('error', onError);
+    trigger();
+  });
+}
+
+
 function _videoPrettyFileName(prefixName: string, renderedFrame: HTMLCanvasElement, imageFormat: AllowedFormats | string /* allowing for the actual mime type to be different */): string {
   const prettyResolution = `${renderedFrame.width}x${renderedFrame.height}`;
   const extensions: { [mime: string]: string } = {
@@ -0,0 +1,89 @@
+/// <reference types="node" />
+
+// Tests for the ZIP writer: the archive is read back from its central directory.
+//
+// Run:
+// - `npx tsx --test src/common/util/zipUtils.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+
+import { zipStoreEntries } from './zipUtils';
+
+
+interface ReadZipEntry {
+  name: string;
+  crc: number;
+  flags: number;
+  data: Uint8Array;
+}
+
+/** Reads a ZIP of stored entries through the central directory, checking it against the local headers */
+function readZip(bytes: Uint8Array): ReadZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  strictEqual(view.getUint32(end, true), 0x06054b50, 'end of central directory');
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  let at = view.getUint32(end + 16, true);
+  strictEqual(at + centralSize, end, 'central directory right before its end record');
+
+  const decoder = new TextDecoder();
+  const entries: ReadZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    strictEqual(view.getUint32(at, true), 0x02014b50, 'central directory record');
+    const flags = view.getUint16(at + 8, true);
+    strictEqual(view.getUint16(at + 10, true), 0, 'stored');
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const name = decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    at += 46 + nameLength;
+
+    strictEqual(view.getUint32(localOffset, true), 0x04034b50, 'local file header');
+    strictEqual(view.getUint32(localOffset + 14, true), crc, 'local crc');
+    strictEqual(view.getUint16(localOffset + 26, true), nameLength, 'local name length');
+    const dataStart = localOffset + 30 + nameLength;
+    entries.push({ name, crc, flags, data: bytes.subarray(dataStart, dataStart + size) });
+  }
+  return entries;
+}
+
+async function zipBytes(entries: Parameters<typeof zipStoreEntries>[0]): Promise<Uint8Array> {
+  return new Uint8Array(await zipStoreEntries(entries).arrayBuffer());
+}
+
+
+describe('zipStoreEntries', () => {
+
+  test('crc-32 of known values', async () => {
+    const entries = readZip(await zipBytes([
+      { name: 'empty', data: '' },
+      { name: 'check', data: '123456789' },
+      { name: 'fox', data: 'The quick brown fox jumps over the lazy dog' },
+    ]));
+    deepStrictEqual(entries.map(e => e.crc), [0, 0xCBF43926, 0x414FA339]);
+  });
+
+  test('names and data read back, strings as UTF-8', async () => {
+    const binary = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    const entries = readZip(await zipBytes([
+      { name: 'word/document.xml', data: '<w:t>héllo ✓</w:t>' },
+      { name: 'media/ünïcode.bin', data: binary },
+    ]));
+    deepStrictEqual(entries.map(e => e.name), ['word/document.xml', 'media/ünïcode.bin']);
+    strictEqual(new TextDecoder().decode(entries[0].data), '<w:t>héllo ✓</w:t>');
+    deepStrictEqual(Array.from(entries[1].data), Array.from(binary));
+    strictEqual(entries[0].flags & 0x0800, 0x0800, 'UTF-8 names flag');
+  });
+
+  test('empty archive', async () => {
+    deepStrictEqual(readZip(await zipBytes([])), []);
+  });
+
+  test('mime type', () => {
+    strictEqual(zipStoreEntries([], 'application/x-test').type, 'application/x-test');
+  });
+
+});
@@ -0,0 +1,95 @@
+/**
+ * Minimal ZIP writer: stored entries (no compression), UTF-8 names. Enough for
+ * container formats such as DOCX, without pulling a compression library.
+ */
+
+export interface ZipEntry {
+  name: string;                       // path in the archive, e.g. 'word/document.xml'
+  data: Uint8Array | string;          // strings are UTF-8 encoded
+}
+
+
+let _crcTable: Uint32Array | null = null;
+
+function _crc32(bytes: Uint8Array): number {
+  if (!_crcTable) {
+    _crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++)
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      _crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++)
+    crc = _crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function _dosDateTime(date: Date): { time: number, date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+
+export function zipStoreEntries(entries: ZipEntry[], mimeType: string = 'application/zip'): Blob {
+  const encoder = new TextEncoder();
+  const { time, date } = _dosDateTime(new Date());
+
+  const chunks: Uint8Array[] = [];
+  const centralChunks: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = _crc32(data);
+
+    // local file header
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);                 // version needed
+    local.setUint16(6, 0x0800, true);             // flags: UTF-8 names
+    local.setUint16(8, 0, true);                  // method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);       // compressed size
+    local.setUint32(22, data.length, true);       // size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);                 // extra length
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    // central directory record
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);               // version made by
+    central.setUint16(6, 20, true);               // version needed
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    // extra, comment, disk, attributes: 0
+    central.setUint32(42, offset, true);
+    centralChunks.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralChunks.reduce((size, chunk) => size + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...chunks, ...centralChunks, new Uint8Array(end.buffer)] as BlobPart[], { type: mimeType });
+}
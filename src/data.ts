@@ -19,6 +19,7 @@ export type SystemPurposeData = {
 
 export type SystemPurposeExample = string | { prompt: string, action?: 'require-data-attachment' };
 
+// built-in catalog: seeds the persona library (store-personas.ts), where the user can edit these
 export const SystemPurposes: { [key in SystemPurposeId]: SystemPurposeData } = {
   Generic: {
     title: 'Default',
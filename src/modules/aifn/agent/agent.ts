@@ -0,0 +1,73 @@
+import type { AixChatGenerateContent_DMessageGuts, AixChatGenerateContent_FromConversation_Result } from '~/modules/aix/client/aix.client';
+import { bareBonesPromptMixer } from '~/modules/persona/pmix/pmix';
+import { clientToolFind } from '~/modules/tools/tools.registry';
+import { clientToolsGenerateContentWithLoop } from '~/modules/tools/tools.loop';
+import type { ClientToolDefinition } from '~/modules/tools/tools.types';
+import { useBrowseStore } from '~/modules/browse/store-module-browsing';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { createDMessageTextContent, DMessage } from '~/common/stores/chat/chat.message';
+
+
+// configuration
+const AGENT_MAX_STEPS = 5;
+
+
+const agentSystemPrompt = (hasBrowse: boolean): string =>
+  `You are a Question Answering AI agent with reasoning ability and access to tools.
+You will receive a Question from the User. Answer it in as many steps as needed: think about what you need to know, call the tools to find out, and reason on their results.
+If a tool result is not related to the question, or you cannot derive the answer from it, try a different tool or query.
+When you have enough information, reply with the answer, concisely, without calling any more tools.
+
+ALWAYS look up on the web when the question is related to live events or factual information, such as sports, news, or weather.
+` + (hasBrowse ? `Open web pages when the search results are not enough to answer.
+` : '') + `
+ALWAYS assume today as {{Today}} when dealing with questions regarding dates.
+Never mention your knowledge cutoff date.`;
+
+
+/**
+ * The tools of the agent: web search, Wikipedia search and (if enabled in the Browse settings) web page fetching,
+ * if available in this configuration.
+ */
+export function agentTools(): ClientToolDefinition[] {
+  const { enableReactTool: enableBrowse } = useBrowseStore.getState();
+  const toolNames = ['web_search', 'wikipedia_search', ...(enableBrowse ? ['fetch_web_page'] : [])];
+  return toolNames
+    .map(toolName => clientToolFind(toolName))
+    .filter((tool): tool is ClientToolDefinition => !!tool && (tool.isAvailable?.() ?? true));
+}
+
+
+/**
+ * Multi-step agent answering a question with native function calling.
+ *
+ * The steps (tool invocations and responses) are part of the generated message, so the trace
+ * of the agent is persisted with the conversation.
+ */
+export async function agentGenerateContent(
+  llmId: DLLMId,
+  question: string,
+  priorHistory: Readonly<DMessage[]>,
+  conversationId: DConversationId,
+  abortSignal: AbortSignal,
+  onUpdate: (update: AixChatGenerateContent_DMessageGuts, isDone: boolean) => void,
+): Promise<AixChatGenerateContent_FromConversation_Result> {
+
+  const tools = agentTools();
+  const hasBrowse = tools.some(tool => tool.fun.name === 'fetch_web_page');
+  const systemInstruction = createDMessageTextContent('system', bareBonesPromptMixer(agentSystemPrompt(hasBrowse), llmId));
+
+  return clientToolsGenerateContentWithLoop(
+    llmId,
+    systemInstruction,
+    [...priorHistory, createDMessageTextContent('user', question)],
+    'chat-react-turn',
+    conversationId,
+    tools,
+    AGENT_MAX_STEPS,
+    { abortSignal, conversationId },
+    onUpdate,
+  );
+}
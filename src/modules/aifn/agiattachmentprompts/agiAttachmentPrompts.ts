@@ -72,7 +72,7 @@ Analyze the provided content to determine its nature, identify any relationships
     aixChatGenerate,
     aixCreateChatGenerateContext('chat-attachment-prompts', attachmentFragments[0].fId),
     false,
-    { abortSignal },
+    { abortSignal, cacheDomainId: 'fastUtil' },
   );
 
   // extract the function call
@@ -192,7 +192,7 @@ export async function autoChatFollowUps(conversationId: string, assistantMessage
       { systemMessage, chatSequence, tools: [aixFunctionCallTool(diagramsTool.fun)], toolsPolicy: { type: 'any' } },
       aixCreateChatGenerateContext('chat-followup-diagram', conversationId),
       false,
-      { abortSignal: 'NON_ABORTABLE' },
+      { abortSignal: 'NON_ABORTABLE', fallbackDomainId: 'codeApply' },
     ).then(({ fragments }) => {
 
       // extract the function call
@@ -243,7 +243,7 @@ export async function autoChatFollowUps(conversationId: string, assistantMessage
       { systemMessage, chatSequence, tools: [aixFunctionCallTool(uiTool.fun)], toolsPolicy: { type: 'any' } },
       aixCreateChatGenerateContext('chat-followup-htmlui', conversationId),
       false,
-      { abortSignal: 'NON_ABORTABLE' },
+      { abortSignal: 'NON_ABORTABLE', fallbackDomainId: 'codeApply' },
     ).then(({ fragments }) => {
 
       // extract the function call
@@ -63,7 +63,7 @@ export async function imageCaptionFromImageOrThrow(
     visionRequest,
     aixCreateChatGenerateContext('aifn-image-caption', contextRef),
     true, // streaming
-    { abortSignal },
+    { abortSignal, cacheDomainId: 'imageCaption' },
     (update, isDone) => {
       // update progress during streaming, 40...90% with every token (so we assume at least 200 tokens)
       if (!isDone && onProgress)
@@ -63,6 +63,8 @@ type ReassemblyState = AixChatGenerateContent_LL & {
   terminationReason: undefined | 'done-client-aborted' | 'issue-client-rpc' | AixWire_Particles.CGEndReason;
   /** Raw token stop reason: undetermined yet or received from the wire on {cg:'end'} */
   dialectStopReason: undefined | AixWire_Particles.GCTokenStopReason;
+  /** HTTP status of the upstream rejection, if the request was rejected (from the wire, or from the client transport) */
+  upstreamHttpStatus: undefined | number;
 };
 
 
@@ -108,6 +110,7 @@ export class ContentReassembler {
       cgMetricsLg: undefined,
       terminationReason: undefined,
       dialectStopReason: undefined,
+      upstreamHttpStatus: undefined,
     };
     this.S = { ...this.initialState }; // we trust the rest of the code to never mutate, always replace
 
@@ -197,6 +200,7 @@ export class ContentReassembler {
       generator: this.S.generator,
       outcome,
       cgMetricsLg: this.S.cgMetricsLg,
+      ...(outcome === 'failed' && this.S.upstreamHttpStatus && { upstreamHttpStatus: this.S.upstreamHttpStatus }),
     };
   }
 
@@ -214,12 +218,14 @@ export class ContentReassembler {
     this.S.dialectStopReason = undefined; // reset, as we assume we can't know (alt: jsut leave it)
   }
 
-  setClientExcepted(errorAsText: string, errorHint?: DMessageErrorPart['hint']): void {
+  setClientExcepted(errorAsText: string, errorHint?: DMessageErrorPart['hint'], httpStatus?: number): void {
     if (DEBUG_PARTICLES)
       console.log('-> aix.p: issue:', errorAsText);
 
     // add the error fragment with the given message
     this._appendErrorFragment(errorAsText, errorHint);
+    if (httpStatus)
+      this.S.upstreamHttpStatus = httpStatus;
 
     if (this.S.terminationReason)
       console.warn(`⚠️ [ContentReassembler] setClientExcepted: overriding server termination '${this.S.terminationReason}' (wire stop: ${this.S.dialectStopReason ?? 'none'})`);
@@ -1101,7 +1107,10 @@ export class ContentReassembler {
     }
   }
 
-  private onCGIssue({ issueId: _issueId /* Redundant as we add an Error Fragment already */, issueText, issueHint }: Extract<AixWire_Particles.ChatGenerateOp, { cg: 'issue' }> & { issueHint?: DMessageErrorPart['hint'] }): void {
+  private onCGIssue({ issueId: _issueId /* Redundant as we add an Error Fragment already */, issueText, issueHttp, issueHint }: Extract<AixWire_Particles.ChatGenerateOp, { cg: 'issue' }> & { issueHint?: DMessageErrorPart['hint'] }): void {
+    if (issueHttp)
+      this.S.upstreamHttpStatus = issueHttp;
+
     // Diagnostic: detect issue particles arriving after a clean termination (e.g. OpenAI rate-limit advisory after response.completed).
     // Behavior unchanged - the issue is still appended - but the warning surfaces that we are mutating a finished message.
     if (this.S.terminationReason && this.S.terminationReason === 'done-dialect')
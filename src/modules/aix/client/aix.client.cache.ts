@@ -0,0 +1,97 @@
+import Dexie from 'dexie';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+
+import type { AixAPI_Model, AixAPIChatGenerate_Request, AixWire_Particles } from '../server/api/aix.wiretypes';
+
+
+/**
+ * A completed response, as the stream of wire particles to replay through the reassembler.
+ * - metrics are not stored: a replayed response costs nothing
+ */
+interface DAixCachedResponse {
+  key: string;                // hash of the model and the request
+  llmId: DLLMId;
+  particles: AixWire_Particles.ChatGenerateOp[];
+  created: number;
+  expires: number;
+}
+
+
+/**
+ * Dexie DB for the local response cache, opt-in per model domain.
+ * Kept separate from the other DBs, as it can be dropped at any time.
+ */
+class BigAgiAixCacheDB extends Dexie {
+  responses!: Dexie.Table<DAixCachedResponse, string>;
+
+  constructor() {
+    super('Big-AGI-AIX-Cache');
+    this.version(1).stores({
+      responses: 'key, expires',
+    });
+  }
+}
+
+// In development mode, reuse the same instance of the DB to avoid re-creating it on every hot reload
+const globalForDexie = globalThis as unknown as {
+  bigAgiAixCacheDB: BigAgiAixCacheDB | undefined;
+};
+
+const _db = globalForDexie.bigAgiAixCacheDB ?? new BigAgiAixCacheDB();
+if (process.env.NODE_ENV !== 'production') globalForDexie.bigAgiAixCacheDB = _db;
+
+const responsesTable = _db.responses;
+
+
+/**
+ * Key of a request: SHA-256 of the model (including its parameters) and of the full request (system instruction, messages, tools).
+ */
+export async function aixResponseCacheKey(llmId: DLLMId, aixModel: AixAPI_Model, aixChatGenerate: AixAPIChatGenerate_Request): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify({ llmId, aixModel, aixChatGenerate }));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+
+// READ
+
+/** @returns the cached response if present and not expired */
+export async function aixResponseCacheGet(key: string): Promise<Pick<DAixCachedResponse, 'particles' | 'created'> | null> {
+  try {
+    const entry = await responsesTable.get(key);
+    if (!entry || entry.expires < Date.now()) return null;
+    return entry;
+  } catch (error) {
+    console.warn('[AIX] Response cache read failed:', error);
+    return null;
+  }
+}
+
+export async function aixResponseCacheCount(): Promise<number> {
+  return await responsesTable.count();
+}
+
+
+// WRITE
+
+export async function aixResponseCachePut(key: string, llmId: DLLMId, particles: AixWire_Particles.ChatGenerateOp[], ttlMs: number): Promise<void> {
+  const now = Date.now();
+  try {
+    // drop the expired entries on the way, so the cache doesn't grow forever
+    await responsesTable.where('expires').below(now).delete();
+    await responsesTable.put({ key, llmId, particles, created: now, expires: now + ttlMs });
+  } catch (error) {
+    console.warn('[AIX] Response cache write failed:', error);
+  }
+}
+
+export async function aixResponseCacheClear(): Promise<void> {
+  await responsesTable.clear();
+}
+
+
+/** Particles worth replaying: everything but the usage metrics, which belong to the original request */
+export function aixResponseCacheIsReplayable(particle: AixWire_Particles.ChatGenerateOp): boolean {
+  return !('cg' in particle) || particle.cg !== 'set-metrics';
+}
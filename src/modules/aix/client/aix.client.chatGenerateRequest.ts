@@ -1,7 +1,7 @@
 import type { Immutable } from '~/common/types/immutable.types';
-import { getImageAsset } from '~/common/stores/blob/dblobs-portability';
+import { getAudioAsset, getImageAsset, getVideoAsset } from '~/common/stores/blob/dblobs-portability';
 
-import { DLLM, LLM_IF_ANT_PromptCaching, LLM_IF_HOTFIX_NoStream, LLM_IF_HOTFIX_NoWebP, LLM_IF_HOTFIX_StripImages, LLM_IF_HOTFIX_StripSys0, LLM_IF_HOTFIX_Sys0ToUsr0 } from '~/common/stores/llms/llms.types';
+import { DLLM, LLM_IF_ANT_PromptCaching, LLM_IF_Inputs_Audio, LLM_IF_Inputs_Video, LLM_IF_HOTFIX_NoStream, LLM_IF_HOTFIX_NoWebP, LLM_IF_HOTFIX_StripImages, LLM_IF_HOTFIX_StripSys0, LLM_IF_HOTFIX_Sys0ToUsr0 } from '~/common/stores/llms/llms.types';
 import { DMessage, DMessageRole, DMetaReferenceItem, MESSAGE_FLAG_AIX_SKIP, MESSAGE_FLAG_VND_ANT_CACHE_AUTO, MESSAGE_FLAG_VND_ANT_CACHE_USER, messageHasUserFlag } from '~/common/stores/chat/chat.message';
 import { DMessageFragment, DMessageImageRefPart, DMessageZyncAssetReferencePart, isContentOrAttachmentFragment, isToolResponseFunctionCallPart, isVoidThinkingFragment } from '~/common/stores/chat/chat.fragments';
 import { Is } from '~/common/util/pwaUtils';
@@ -9,7 +9,7 @@ import { convert_Base64WithMimeType_To_Blob, convert_Blob_To_Base64 } from '~/co
 import { imageBlobConvertType, imageBlobResizeIfNeeded, LLMImageResizeMode } from '~/common/util/imageUtils';
 
 // NOTE: pay particular attention to the "import type", as this is importing from the server-side Zod definitions
-import type { AixAPIChatGenerate_Request, AixMessages_ModelMessage, AixMessages_UserMessage, AixParts_InlineImagePart, AixParts_MetaCacheControl, AixParts_MetaInReferenceToPart, AixParts_ModelAuxPart } from '../server/api/aix.wiretypes';
+import type { AixAPIChatGenerate_Request, AixMessages_ModelMessage, AixMessages_UserMessage, AixParts_InlineAudioPart, AixParts_InlineImagePart, AixParts_InlineVideoPart, AixParts_MetaCacheControl, AixParts_MetaInReferenceToPart, AixParts_ModelAuxPart } from '../server/api/aix.wiretypes';
 
 // TODO: remove console messages to zero, or replace with throws or something
 
@@ -134,6 +134,9 @@ export async function aixCGR_SystemMessage_FromDMessageOrThrow(
                         // dereference the Zync Audio Asset, converting it to an inline buffer
                         throw '[DEV] audio assets from the user are not supported yet';
 
+                      case 'video':
+                        throw '[DEV] video assets from the user are not supported yet';
+
                       case 'image':
                         // dereference the Zync Image Asset, converting it to an inline image
                         const resizeMode = false; // keep the image as-is, do not diminish quality; as any resize was done at the Persona edit time
@@ -322,7 +325,23 @@ export async function aixCGR_ChatSequence_FromDMessagesOrThrow(
 
                       case 'audio':
                         // dereference the Zync Audio Asset, converting it to an inline buffer
-                        throw '[DEV] audio assets from the user are not supported yet';
+                        try {
+                          uMsg.parts.push(await aixConvertZyncAudioAssetRefToInlineAudioOrThrow(refPart));
+                        } catch (error: any) {
+                          if (IGNORE_CGR_NO_IMAGE_DEREFERENCE) console.warn(`Zync audio asset reference from the user missing in the chat generation request because: ${error?.message || error?.toString() || 'Unknown error'} - continuing without`);
+                          else throw error;
+                        }
+                        break;
+
+                      case 'video':
+                        // dereference the Zync Video Asset, converting it to an inline buffer
+                        try {
+                          uMsg.parts.push(await aixConvertZyncVideoAssetRefToInlineVideoOrThrow(refPart));
+                        } catch (error: any) {
+                          if (IGNORE_CGR_NO_IMAGE_DEREFERENCE) console.warn(`Zync video asset reference from the user missing in the chat generation request because: ${error?.message || error?.toString() || 'Unknown error'} - continuing without`);
+                          else throw error;
+                        }
+                        break;
 
                       default:
                         const _exhaustiveCheck: never = at;
@@ -472,6 +491,9 @@ export async function aixCGR_ChatSequence_FromDMessagesOrThrow(
                         // dereference the Zync Audio Asset, converting it to an inline buffer
                         throw '[DEV] audio assets from the assistant are not supported yet';
 
+                      case 'video':
+                        throw '[DEV] video assets from the assistant are not supported yet';
+
                       default:
                         const _exhaustiveCheck: never = at;
                         console.warn('aixCGR_FromDMessages: unexpected Zync asset type from the assistant', at);
@@ -601,6 +623,47 @@ export async function aixConvertZyncImageAssetRefToInlineImageOrThrow(assetRefPa
   throw new Error(`Asset reference ${assetRefPart.zUuid} - Asset system not yet implemented or legacy fallback missing`);
 }
 
+export async function aixConvertZyncAudioAssetRefToInlineAudioOrThrow(assetRefPart: Immutable<DMessageZyncAssetReferencePart>): Promise<AixParts_InlineAudioPart> {
+
+  // during transition period, the audio is in the local DBlobs
+  const dataRef = assetRefPart._audioDBlobRef?.dataRef;
+  if (!dataRef)
+    throw new Error(`Asset reference ${assetRefPart.zUuid} - Asset system not yet implemented or audio data missing`);
+
+  const audioAsset = await getAudioAsset(dataRef.dblobAssetId);
+  if (!audioAsset) {
+    console.warn('Audio asset not found', assetRefPart);
+    throw new Error('Audio asset not found');
+  }
+
+  // the wire only carries wav and mp3 - stored audio is normalized to these when attached
+  const mimeType: string = audioAsset.data.mimeType || dataRef.mimeType;
+  switch (mimeType) {
+    case 'audio/wav':
+      return { pt: 'inline_audio', mimeType: 'audio/wav', base64: audioAsset.data.base64 };
+    case 'audio/mpeg':
+      return { pt: 'inline_audio', mimeType: 'audio/mp3', base64: audioAsset.data.base64 };
+    default:
+      throw new Error(`Audio format ${mimeType} is not supported`);
+  }
+}
+
+export async function aixConvertZyncVideoAssetRefToInlineVideoOrThrow(assetRefPart: Immutable<DMessageZyncAssetReferencePart>): Promise<AixParts_InlineVideoPart> {
+
+  // during transition period, the video is in the local DBlobs
+  const dataRef = assetRefPart._videoDBlobRef?.dataRef;
+  if (!dataRef)
+    throw new Error(`Asset reference ${assetRefPart.zUuid} - Asset system not yet implemented or video data missing`);
+
+  const videoAsset = await getVideoAsset(dataRef.dblobAssetId);
+  if (!videoAsset) {
+    console.warn('Video asset not found', assetRefPart);
+    throw new Error('Video asset not found');
+  }
+
+  return { pt: 'inline_video', mimeType: videoAsset.data.mimeType, base64: videoAsset.data.base64 };
+}
+
 export async function aixConvertImageRefToInlineImageOrThrow(imageRefPart: DMessageImageRefPart, resizeMode: LLMImageResizeMode | false): Promise<AixParts_InlineImagePart> {
 
   // validate
@@ -701,6 +764,14 @@ export async function clientHotFixGenerateRequest_ApplyAll(llmInterfaces: DLLM['
   if (llmInterfaces.includes(LLM_IF_HOTFIX_NoWebP))
     workaroundsCount += await clientHotFixGenerateRequest_ConvertWebP(aixChatGenerate, 'image/jpeg');
 
+  // Replace user audio with a note, for models without audio inputs (e.g. after switching model)
+  if (!llmInterfaces.includes(LLM_IF_Inputs_Audio))
+    workaroundsCount += clientHotFixGenerateRequest_StripUserAudio(aixChatGenerate);
+
+  // Same for video, which only some models (Gemini) accept natively
+  if (!llmInterfaces.includes(LLM_IF_Inputs_Video))
+    workaroundsCount += clientHotFixGenerateRequest_StripUserVideo(aixChatGenerate);
+
   // Disable streaming for select chat models that don't support it (e.g. o1-preview (old) and o1-2024-12-17)
   const hotfixNoStream = llmInterfaces.includes(LLM_IF_HOTFIX_NoStream);
 
@@ -755,6 +826,41 @@ function clientHotFixGenerateRequest_StripImages(aixChatGenerate: AixAPIChatGene
 
 }
 
+/**
+ * Replaces the user audio parts with a text note, for models without audio inputs.
+ * Model audio (e.g. spoken replies) is left to the adapters, which know how to replay it.
+ */
+function clientHotFixGenerateRequest_StripUserAudio(aixChatGenerate: AixAPIChatGenerate_Request): number {
+  let workaroundsCount = 0;
+  for (const message of aixChatGenerate.chatSequence) {
+    if (message.role !== 'user') continue;
+    for (let j = message.parts.length - 1; j >= 0; j--) {
+      if (message.parts[j].pt === 'inline_audio') {
+        workaroundsCount++;
+        message.parts.splice(j, 1, { pt: 'text', text: '[Audio attachment omitted: this model does not accept audio inputs]' });
+      }
+    }
+  }
+  return workaroundsCount;
+}
+
+/**
+ * Replaces the user video parts with a text note, for models without video inputs.
+ */
+function clientHotFixGenerateRequest_StripUserVideo(aixChatGenerate: AixAPIChatGenerate_Request): number {
+  let workaroundsCount = 0;
+  for (const message of aixChatGenerate.chatSequence) {
+    if (message.role !== 'user') continue;
+    for (let j = message.parts.length - 1; j >= 0; j--) {
+      if (message.parts[j].pt === 'inline_video') {
+        workaroundsCount++;
+        message.parts.splice(j, 1, { pt: 'text', text: '[Video attachment omitted: this model does not accept video inputs. Attach it as frames and transcript instead]' });
+      }
+    }
+  }
+  return workaroundsCount;
+}
+
 /**
  * Hot fix for models that don't support WebP images - converts to JPEG or PNG
  */
@@ -6,11 +6,12 @@
 import { capitalizeFirstLetter } from '~/common/util/textUtils';
 
 // IMPORTANT: client-side bundle imports server-side code including stubbed code
-import type { AixAPI_Access, AixAPI_ConnectionOptions_ChatGenerate, AixAPI_Context_ChatGenerate, AixAPI_Model, AixAPI_ResumeHandle, AixAPIChatGenerate_Request, AixWire_Particles } from '../server/api/aix.wiretypes';
+import type { AixAPI_Access, AixAPI_ConnectionOptions_ChatGenerate, AixAPI_Context_ChatGenerate, AixAPI_Model, AixAPI_ResumeHandle, AixAPIChatGenerate_Request, AixAPIEmbeddings_Request, AixWire_Particles } from '../server/api/aix.wiretypes';
 import type { AixDebugObject } from '../server/dispatch/chatGenerate/chatGenerate.debug';
 import { AIX_INSPECTOR_ALLOWED_CONTEXTS, AIX_SECURITY_ONLY_IN_DEV_BUILDS } from '../server/api/aix.security';
 import { createChatGenerateDispatch, createChatGenerateResumeDispatch, executeChatGenerateDelete } from '../server/dispatch/chatGenerate/chatGenerate.dispatch';
 import { executeChatGenerateWithContinuation } from '../server/dispatch/chatGenerate/chatGenerate.continuation';
+import { executeEmbeddings } from '../server/dispatch/embeddings/embeddings.dispatch';
 
 
 // --- Client-side AIX ChatGenerate Executor ---
@@ -72,6 +73,20 @@ export async function clientSideDeleteUpstream(
   return executeChatGenerateDelete(access, handle, abortSignal);
 }
 
+/**
+ * Client-side embeddings - direct to the provider, bypasses the edge proxy.
+ * Matches the `aixRouter.embeddings` server-side procedure. One-shot, non-streaming.
+ */
+export async function clientSideEmbeddings(
+  access: AixAPI_Access,
+  modelId: string,
+  request: AixAPIEmbeddings_Request,
+  abortSignal: AbortSignal,
+) {
+  // keep in sync with the `aixRouter.embeddings` server-side procedure
+  return executeEmbeddings(access, modelId, request, abortSignal);
+}
+
 
 // CSF debug config - lighter than server-side
 function _createClientDebugConfig(access: AixAPI_Access, options: undefined | { debugDispatchRequest?: boolean, debugProfilePerformance?: boolean, debugRequestBodyOverride?: Record<string, unknown> }, chatGenerateContextName: string): AixDebugObject {
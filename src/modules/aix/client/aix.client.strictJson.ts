@@ -0,0 +1,92 @@
+import { createTextContentFragment, DMessageContentFragment, DMessageVoidFragment } from '~/common/stores/chat/chat.fragments';
+
+import type { AixAPI_Access, AixAPI_Model, AixTools_ToolDefinition } from '../server/api/aix.wiretypes';
+
+
+// configuration
+const STRICT_JSON_TOOL_NAME = 'reply_json';
+const STRICT_JSON_WRAP_PROPERTY = 'value';
+
+
+/**
+ * Structured outputs fallback for the models without a native JSON schema mode: the schema becomes the input
+ * of the only function the model must call, and the arguments of the call become the text of the reply.
+ */
+export interface AixStrictJsonToolFallback {
+  tool: AixTools_ToolDefinition;
+  unwrapValue: boolean; // non-object schemas are wrapped in an object, as function inputs must be objects
+}
+
+
+/**
+ * Anthropic added native structured outputs (output_config.format) with Claude 4.5; the older models need the fallback.
+ */
+export function aixStrictJsonNeedsToolFallback(dialect: AixAPI_Access['dialect'], modelId: string): boolean {
+  if (dialect !== 'anthropic')
+    return false;
+
+  // legacy naming: claude-3-5-sonnet-..., claude-3-opus-...
+  if (/claude-\d/.test(modelId))
+    return true;
+
+  // claude-{family}-{major}[-{minor}]-...: the minor is a single digit, dates follow
+  const match = modelId.match(/claude-(?:opus|sonnet|haiku)-(\d+)(?:-(\d)(?!\d))?/);
+  if (!match) return false;
+  const major = parseInt(match[1], 10);
+  const minor = match[2] ? parseInt(match[2], 10) : 0;
+  return major < 4 || (major === 4 && minor < 5);
+}
+
+
+export function aixStrictJsonToolFallback(strictJsonOutput: NonNullable<AixAPI_Model['strictJsonOutput']>): AixStrictJsonToolFallback {
+  const { schema } = strictJsonOutput;
+  const unwrapValue = !(schema?.type === 'object' && schema.properties && typeof schema.properties === 'object');
+  return {
+    tool: {
+      type: 'function_call',
+      function_call: {
+        name: STRICT_JSON_TOOL_NAME,
+        description: `Reply to the user with this function, always${strictJsonOutput.description ? `: ${strictJsonOutput.description}` : '.'}`,
+        input_schema: unwrapValue ? {
+          properties: { [STRICT_JSON_WRAP_PROPERTY]: schema },
+          required: [STRICT_JSON_WRAP_PROPERTY],
+        } : {
+          properties: schema.properties,
+          ...(Array.isArray(schema.required) && schema.required.length && { required: schema.required }),
+        },
+      },
+    },
+    unwrapValue,
+  };
+}
+
+
+/**
+ * Replaces the call of the reply function with a text fragment holding its arguments, as JSON.
+ * While streaming, incomplete arguments are left in place until they parse.
+ */
+export function aixStrictJsonToolFallbackFragments(fallback: AixStrictJsonToolFallback, fragments: (DMessageContentFragment | DMessageVoidFragment)[], isDone: boolean): (DMessageContentFragment | DMessageVoidFragment)[] {
+  const index = fragments.findIndex(fragment =>
+    fragment.ft === 'content' && fragment.part.pt === 'tool_invocation'
+    && fragment.part.invocation.type === 'function_call' && fragment.part.invocation.name === STRICT_JSON_TOOL_NAME);
+  if (index < 0)
+    return fragments;
+
+  const fragment = fragments[index] as DMessageContentFragment;
+  if (fragment.part.pt !== 'tool_invocation' || fragment.part.invocation.type !== 'function_call')
+    return fragments;
+
+  let text: string;
+  const args = fragment.part.invocation.args || '{}';
+  try {
+    const parsed = JSON.parse(args);
+    text = JSON.stringify(fallback.unwrapValue ? parsed?.[STRICT_JSON_WRAP_PROPERTY] ?? null : parsed, null, 2);
+  } catch {
+    if (!isDone) return fragments;
+    text = args; // invalid JSON: kept as-is, the validation will tell
+  }
+
+  // the text the model wrote around the call is a preamble: the reply is the JSON only
+  const jsonFragment = createTextContentFragment(text);
+  return fragments.flatMap(f => f === fragment ? [jsonFragment] : (f.ft === 'content' && f.part.pt === 'text') ? [] : [f]);
+}
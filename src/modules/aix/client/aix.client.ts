@@ -2,8 +2,11 @@ import { findServiceAccessOrThrow } from '~/modules/llms/vendors/vendor.helpers'
 
 import { vertexLinksAutoResolveFragments } from '~/modules/google/vertexai.client';
 
+import type { DModelDomainId } from '~/common/stores/llms/model.domains.types';
+import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+import type { LlmMetricsErrorKind } from '~/common/stores/metrics/metrics.llms';
 import type { MaybePromise } from '~/common/types/useful.types';
-import { AIVndAntInlineFilesPolicy, getVndAntInlineFiles } from '~/common/stores/store-ai';
+import { AIVndAntInlineFilesPolicy, getResponseCacheTtlMs, getVndAntInlineFiles } from '~/common/stores/store-ai';
 import { AudioPlayer } from '~/common/util/audio/AudioPlayer';
 import { DLLM, DLLMId, LLM_IF_GEM_Interactions, LLM_IF_HOTFIX_NoTemperature, LLM_IF_OAI_Responses, LLM_IF_Outputs_Audio, LLM_IF_Outputs_Image, LLM_IF_Outputs_NoText } from '~/common/stores/llms/llms.types';
 import { DMessage, DMessageGenerator, createGeneratorAIX_AutoLabel } from '~/common/stores/chat/chat.message';
@@ -15,16 +18,20 @@ import { findLLMOrThrow } from '~/common/stores/llms/store-llms';
 import { getAixInspectorEnabled } from '~/common/stores/store-ui';
 import { getLabsLosslessImages } from '~/common/stores/store-ux-labs';
 import { llmChatPricing_adjusted } from '~/common/stores/llms/llms.pricing';
-import { metricsStoreAddChatGenerate } from '~/common/stores/metrics/store-metrics';
+import { llmsFallbackNextLlmId } from '~/common/stores/llms/store-llms-domains_slice';
+import { metricsBudgetCheckOrThrow } from '~/common/stores/metrics/store-metrics-ledger';
+import { metricsStoreAddChatGenerate, metricsStoreAddLlmGenerate } from '~/common/stores/metrics/store-metrics';
 import { stripUndefined } from '~/common/util/objectUtils';
 import { videoPlayObjectUrl } from '~/common/util/video/videoPlayManaged';
 import { webGeolocationCached } from '~/common/util/webGeolocationUtils';
 
 
 // NOTE: pay particular attention to the "import type", as this is importing from the server-side Zod definitions
-import type { AixAPI_Access, AixAPI_ConnectionOptions_ChatGenerate, AixAPI_Context_ChatGenerate, AixAPI_Model, AixAPIChatGenerate_Request, AixTools_ToolDefinition, AixTools_ToolsPolicy } from '../server/api/aix.wiretypes';
+import type { AixAPI_Access, AixAPI_ConnectionOptions_ChatGenerate, AixAPI_Context_ChatGenerate, AixAPI_Model, AixAPIChatGenerate_Request, AixAPIEmbeddings_Request, AixAPIEmbeddings_Response, AixTools_ToolDefinition, AixTools_ToolsPolicy, AixWire_Particles } from '../server/api/aix.wiretypes';
 
 import { AixStreamRetry } from './aix.client.retry';
+import { aixResponseCacheGet, aixResponseCacheIsReplayable, aixResponseCacheKey, aixResponseCachePut } from './aix.client.cache';
+import { aixStrictJsonNeedsToolFallback, aixStrictJsonToolFallback, aixStrictJsonToolFallbackFragments, AixStrictJsonToolFallback } from './aix.client.strictJson';
 import { ReassemblerParticleTransforms, ContentReassembler } from './ContentReassembler';
 import { aixCGR_ChatSequence_FromDMessagesOrThrow, aixCGR_FromSimpleText, aixCGR_SystemMessage_FromDMessageOrThrow, AixChatGenerate_TextMessages, clientHotFixGenerateRequest_ApplyAll } from './aix.client.chatGenerateRequest';
 import { aixClassifyStreamingError } from './aix.client.errors';
@@ -233,6 +240,18 @@ interface AixClientOptions {
   llmUserParametersReplacement?: DModelParameterValues; // can replace the 'global' llm user configuration with an alternate config (e.g. persona, or per-chat)
   llmOptionsOverride?: Omit<DModelParameterValues, 'llmRef'>; // overrides (sets/replaces) individual LLM parameters
 
+  // Constrains the response to a JSON schema, for the vendors that support it (the others will reply in free text)
+  strictJsonOutput?: AixAPI_Model['strictJsonOutput'];
+
+  // Failover: when the model is overloaded or down (429/5xx, after the retries) and nothing was generated yet,
+  // re-dispatches to the next model of the fallback chain of this domain
+  fallbackDomainId?: DModelDomainId;
+  // [Failover] Internal - the models that failed before, set when re-dispatching
+  failoverFrom?: DMessageGenerator['failoverFrom'];
+
+  // Response cache: identical requests are replayed from the local cache, if the user enabled caching for this domain
+  cacheDomainId?: DModelDomainId;
+
   // -- Session State - extract? --
   // Cross-turn sandbox/container handles. Caller may pre-populate; resolver walks chat history to fill any unset slot.
   antContainerId?: string;            // [Anthropic Container] Container ID from a prior turn (caller checks expiry before setting)
@@ -409,6 +428,7 @@ export async function aixChatGenerateText_Simple(
 
   // Aix Access
   const llm = findLLMOrThrow(llmId);
+  metricsBudgetCheckOrThrow(llm.sId);
   const { transportAccess: aixAccess, vendor: llmVendor, serviceSettings: llmServiceSettings } = findServiceAccessOrThrow<object, AixAPI_Access>(llm.sId);
 
   // Aix Model
@@ -420,6 +440,7 @@ export async function aixChatGenerateText_Simple(
     systemInstruction,
     typeof aixTextMessages === 'string' ? [{ role: 'user', text: aixTextMessages }] : aixTextMessages,
   );
+  const strictJsonFallback = _aixApplyStrictJsonOutput(clientOptions, aixAccess.dialect, aixModel, aixChatGenerate);
 
   // Aix Context
   const aixContext = aixCreateChatGenerateContext(aixContextName, aixContextRef);
@@ -436,7 +457,7 @@ export async function aixChatGenerateText_Simple(
   // Variable to store the final text
   const state: _AixChatGenerateText_Simple = {
     text: null,
-    generator: createGeneratorAIX_AutoLabel(llm.vId, llm.id),
+    generator: _aixCreateGenerator(llm, clientOptions?.failoverFrom),
     isDone: false,
   };
 
@@ -462,8 +483,9 @@ export async function aixChatGenerateText_Simple(
     state.generator,
     abortSignal,
     clientOptions?.throttleParallelThreads ?? 0,
+    _aixResponseCacheOptions(clientOptions, llm),
     !onTextStreamUpdate ? undefined : async (ll: AixChatGenerateContent_LL, _isDone: boolean /* we want to issue this, in case the next action is an exception */) => {
-      _llToL2Simple(ll, state);
+      _llToL2Simple(!strictJsonFallback ? ll : { ...ll, fragments: aixStrictJsonToolFallbackFragments(strictJsonFallback, ll.fragments as AixChatGenerateContent_DMessageGuts['fragments'], false) }, state);
       if (onTextStreamUpdate && state.text !== null)
         await onTextStreamUpdate(state.text, false, state.generator);
     },
@@ -473,9 +495,15 @@ export async function aixChatGenerateText_Simple(
   state.isDone = true;
 
   // LLM Cost computation & Aggregations
-  _llToL2Simple(llFinal, state);
-  const metrics = _finalizeLlmMetricsWithCosts(cgMetricsLg, llm, `aix_chatgenerate_text-${aixContextName}`);
+  _llToL2Simple(!strictJsonFallback ? llFinal : { ...llFinal, fragments: aixStrictJsonToolFallbackFragments(strictJsonFallback, llFinal.fragments as AixChatGenerateContent_DMessageGuts['fragments'], true) }, state);
+  const metrics = _finalizeLlmMetricsWithCosts(cgMetricsLg, llm, aixContext);
   if (metrics) state.generator = { ...state.generator, metrics };
+  _trackLlmStatistics(llm, { outcome, ...llFinal }, metrics);
+
+  // Failover: re-dispatch to the next model of the chain
+  const failoverLlmId = _aixFailoverNextLlmId(clientOptions, llm, { outcome, ...llFinal });
+  if (failoverLlmId)
+    return aixChatGenerateText_Simple(failoverLlmId, systemInstruction, aixTextMessages, aixContextName, aixContextRef, _aixFailoverClientOptions(clientOptions!, llm, llFinal.upstreamHttpStatus), onTextStreamUpdate);
 
 
   // re-throw the user-initiated abort, as the former function catches it
@@ -601,6 +629,7 @@ export async function aixChatGenerateContent_DMessage_orThrow<TServiceSettings e
 
   // Aix Access
   const llm = findLLMOrThrow(llmId);
+  metricsBudgetCheckOrThrow(llm.sId);
   const { transportAccess: aixAccess, vendor: llmVendor, serviceSettings: llmServiceSettings } = findServiceAccessOrThrow<TServiceSettings, TAccess>(llm.sId);
 
   // Aix Model
@@ -613,6 +642,12 @@ export async function aixChatGenerateContent_DMessage_orThrow<TServiceSettings e
     vndGeminiEnvironmentId: clientOptions?.gemEnvironmentId,
   });
 
+  // Failover: keep the request for the next model of the chain, as the hotfixes below are model-specific
+  const failoverRequest = _aixFailoverNextLlmId(clientOptions, llm, null) ? structuredClone(aixChatGenerate) : null;
+
+  // Structured outputs: after the copy above, as the fallback alters the request for this model only
+  const strictJsonFallback = _aixApplyStrictJsonOutput(clientOptions, aixAccess.dialect, aixModel, aixChatGenerate);
+
   // Client-side late stage model HotFixes - collapse the caller's requested streaming preference into the effective wire-streaming decision after constraints (hotfix gate, model.forceNoStream)
   const { hotfixNoStream } = await clientHotFixGenerateRequest_ApplyAll(llm.interfaces, aixChatGenerate, llmParameters.llmRef || llm.id);
   const wireStreaming = !hotfixNoStream && !aixModel.forceNoStream ? aixStreaming : false;
@@ -622,7 +657,7 @@ export async function aixChatGenerateContent_DMessage_orThrow<TServiceSettings e
   // Aix LL Chat Generation
   const dMessage: AixChatGenerateContent_DMessageGuts = {
     fragments: [],
-    generator: clientOptions.reattachGenerator ?? createGeneratorAIX_AutoLabel(llm.vId, llm.id), // using llm.id (not aixModel.id/ref) so we can re-select them in the UI (Beam)
+    generator: clientOptions.reattachGenerator ?? _aixCreateGenerator(llm, clientOptions.failoverFrom), // using llm.id (not aixModel.id/ref) so we can re-select them in the UI (Beam)
     pendingIncomplete: true,
   };
 
@@ -649,10 +684,12 @@ export async function aixChatGenerateContent_DMessage_orThrow<TServiceSettings e
     dMessage.generator,
     clientOptions.abortSignal,
     clientOptions.throttleParallelThreads ?? 0,
+    _aixResponseCacheOptions(clientOptions, llm),
     async (ll: AixChatGenerateContent_LL, isDone: boolean) => {
       if (isDone) return; // optimization, as there aren't branches between here and the final update below
       if (onStreamingUpdate) {
         _llToDMessageGuts(ll, dMessage);
+        if (strictJsonFallback) dMessage.fragments = aixStrictJsonToolFallbackFragments(strictJsonFallback, dMessage.fragments, false);
         await onStreamingUpdate(dMessage, false);
       }
     },
@@ -660,8 +697,16 @@ export async function aixChatGenerateContent_DMessage_orThrow<TServiceSettings e
 
   // Finalize DMessage
   _llToDMessageGuts(llFinal, dMessage);
-  const metrics = _finalizeLlmMetricsWithCosts(cgMetricsLg, llm, `aix_chatgenerate_content-${aixContext.name}`);
+  if (strictJsonFallback) dMessage.fragments = aixStrictJsonToolFallbackFragments(strictJsonFallback, dMessage.fragments, true);
+  const metrics = _finalizeLlmMetricsWithCosts(cgMetricsLg, llm, aixContext);
   if (metrics) dMessage.generator = { ...dMessage.generator, metrics };
+  _trackLlmStatistics(llm, { outcome, ...llFinal }, metrics);
+
+  // Failover: re-dispatch to the next model of the chain, which restarts the message
+  const failoverLlmId = failoverRequest && _aixFailoverNextLlmId(clientOptions, llm, { outcome, ...llFinal });
+  if (failoverLlmId)
+    return aixChatGenerateContent_DMessage_orThrow(failoverLlmId, failoverRequest, aixContext, aixStreaming, _aixFailoverClientOptions(clientOptions, llm, llFinal.upstreamHttpStatus), onStreamingUpdate);
+
   dMessage.pendingIncomplete = false;
 
   // [#1114] resolve Gemini/Vertex AI grounding redirect links before the final 'done' update, so every
@@ -688,7 +733,65 @@ function _llToDMessageGuts({ fragments, generator }: AixChatGenerateContent_LL,
   dest.generator = generator;
 }
 
-function _finalizeLlmMetricsWithCosts(cgMetricsLg: undefined | DMetricsChatGenerate_Lg, llm: DLLM, debugCostSource: string): undefined | DMetricsChatGenerate_Md {
+/**
+ * Structured outputs: native where the model supports it, or else through a function the model must call.
+ * @returns the fallback to convert the function call back to the JSON reply, if used
+ */
+function _aixApplyStrictJsonOutput(clientOptions: Partial<AixClientOptions> | undefined, dialect: AixAPI_Access['dialect'], aixModel: AixAPI_Model, aixChatGenerate: AixAPIChatGenerate_Request): AixStrictJsonToolFallback | null {
+  const strictJsonOutput = clientOptions?.strictJsonOutput;
+  if (!strictJsonOutput)
+    return null;
+
+  if (!aixStrictJsonNeedsToolFallback(dialect, aixModel.id)) {
+    aixModel.strictJsonOutput = strictJsonOutput;
+    return null;
+  }
+
+  const fallback = aixStrictJsonToolFallback(strictJsonOutput);
+  aixChatGenerate.tools = [...(aixChatGenerate.tools ?? []), fallback.tool];
+  aixChatGenerate.toolsPolicy = { type: 'any' };
+  return fallback;
+}
+
+function _aixCreateGenerator(llm: DLLM, failoverFrom: DMessageGenerator['failoverFrom']): DMessageGenerator {
+  const generator = createGeneratorAIX_AutoLabel(llm.vId, llm.id);
+  return !failoverFrom?.length ? generator : { ...generator, failoverFrom };
+}
+
+/**
+ * The next model to fail over to, when opted in and the model is overloaded or down (429 or 5xx, after the retries) before
+ * generating any content. With a null result, only checks if there is a next model in the chain.
+ */
+function _aixFailoverNextLlmId(clientOptions: Partial<AixClientOptions> | undefined, llm: DLLM, llResult: null | Pick<AixChatGenerateContent_LL_Result, 'outcome' | 'upstreamHttpStatus' | 'fragments'>): DLLMId | undefined {
+  if (!clientOptions?.fallbackDomainId || clientOptions.reattachGenerator)
+    return undefined;
+
+  if (llResult) {
+    const status = llResult.upstreamHttpStatus;
+    if (llResult.outcome !== 'failed' || !status || (status !== 429 && status < 500))
+      return undefined;
+    if (llResult.fragments.some(f => isContentFragment(f) && !isErrorPart(f.part)))
+      return undefined;
+  }
+
+  const triedLlmIds = [...(clientOptions.failoverFrom ?? []).map(f => f.mId), llm.id];
+  return llmsFallbackNextLlmId(clientOptions.fallbackDomainId, triedLlmIds);
+}
+
+function _aixFailoverClientOptions<TOptions extends Partial<AixClientOptions>>(clientOptions: TOptions, llm: DLLM, httpStatus: number | undefined): TOptions {
+  return {
+    ...clientOptions,
+    // the parameters and the sandboxes belong to the model that failed
+    llmUserParametersReplacement: undefined,
+    llmOptionsOverride: undefined,
+    antContainerId: undefined,
+    oaiContainerId: undefined,
+    gemEnvironmentId: undefined,
+    failoverFrom: [...(clientOptions.failoverFrom ?? []), { name: llm.label, mId: llm.id, ...(httpStatus && { httpStatus }) }],
+  };
+}
+
+function _finalizeLlmMetricsWithCosts(cgMetricsLg: undefined | DMetricsChatGenerate_Lg, llm: DLLM, aixContext: AixAPI_Context_ChatGenerate): undefined | DMetricsChatGenerate_Md {
   // Compute the Md metrics from Lg
   let metricsMd = cgMetricsLg ? metricsChatGenerateLgToMd(cgMetricsLg) : undefined;
 
@@ -706,12 +809,46 @@ function _finalizeLlmMetricsWithCosts(cgMetricsLg: undefined | DMetricsChatGener
   const m = metricsMd;
   const inputTokens = (m?.TIn || 0) + (m?.TCacheRead || 0) + (m?.TCacheWrite || 0);
   const outputTokens = (m?.TOut || 0) /* + (m?.TOutR || 0) THIS IS A BREAKDOWN, IT'S ALREADY IN */;
-  metricsStoreAddChatGenerate(costs, inputTokens, outputTokens, llm, debugCostSource);
+  metricsStoreAddChatGenerate(costs, inputTokens, outputTokens, llm, aixContext.name, aixContext.ref);
 
   // Merge costs into a new generator
   return metricsMd;
 }
 
+function _aixResponseCacheOptions(clientOptions: Partial<AixClientOptions> | undefined, llm: DLLM): _AixResponseCacheOptions | null {
+  if (!clientOptions?.cacheDomainId || clientOptions.reattachGenerator)
+    return null;
+  const ttlMs = getResponseCacheTtlMs(clientOptions.cacheDomainId);
+  return ttlMs ? { llmId: llm.id, ttlMs } : null;
+}
+
+/**
+ * Per-model statistics of latency, speed, reliability and cost, from our own traffic. User aborts are not counted.
+ */
+function _trackLlmStatistics(llm: DLLM, llResult: Pick<AixChatGenerateContent_LL_Result, 'outcome' | 'upstreamHttpStatus' | 'fragments' | 'generator'>, metricsMd: undefined | DMetricsChatGenerate_Md) {
+  if (llResult.outcome === 'aborted' || llResult.generator.cachedAt) return;
+  metricsStoreAddLlmGenerate(llm.id, {
+    ttftMs: metricsMd?.dtStart,
+    tokensPerSecond: metricsMd?.vTOutInner,
+    costCents: metricsMd?.$c,
+    errorKind: _classifyLlmStatisticsError(llResult),
+  });
+}
+
+function _classifyLlmStatisticsError(llResult: Pick<AixChatGenerateContent_LL_Result, 'outcome' | 'upstreamHttpStatus' | 'fragments' | 'generator'>): LlmMetricsErrorKind | undefined {
+  if (llResult.outcome !== 'failed')
+    return llResult.generator.tokenStopReason === 'filter' ? 'filter' : undefined;
+
+  const status = llResult.upstreamHttpStatus;
+  if (status === 429) return 'rate-limit';
+  if (status && status >= 500) return 'server';
+  if (status && status >= 400) return 'request';
+
+  const errorHints = llResult.fragments.map(f => isContentFragment(f) && isErrorPart(f.part) ? f.part.hint : undefined);
+  if (errorHints.some(hint => hint === 'aix-net-disconnected' || hint === 'aix-net-unknown' || hint === 'aix-request-exceeded' || hint === 'aix-response-captive'))
+    return 'network';
+  return 'other';
+}
 
 // --- L2 - Content Generation reattachment as DMessage ---
 
@@ -794,6 +931,31 @@ export async function aixDeleteUpstreamContent_orThrow(
 }
 
 
+// --- L2 - Embeddings ---
+
+/**
+ * Embeddings of a batch of texts, with an embedding model of a service.
+ * The embedding models are not listed as LLMs, so the model is addressed by service and id.
+ * Batches are limited to 100 texts (see `AixWire_API_Embeddings.Request_schema`); the caller splits larger sets.
+ */
+export async function aixEmbeddings_orThrow(
+  serviceId: DModelsServiceId,
+  modelId: string,
+  request: AixAPIEmbeddings_Request,
+  abortSignal?: AbortSignal,
+): Promise<AixAPIEmbeddings_Response> {
+  const { transportAccess: aixAccess } = findServiceAccessOrThrow<object, AixAPI_Access>(serviceId);
+
+  // AIX [CSF] Direct embeddings when the vendor supports it
+  if (aixAccess.clientSideFetch) {
+    const { clientSideEmbeddings } = await _loadCsfModuleOrThrow();
+    return await clientSideEmbeddings(aixAccess, modelId, request, abortSignal ?? new AbortController().signal);
+  }
+  // ... otherwise, tRPC embeddings
+  return await apiAsync.aix.embeddings.mutate({ access: aixAccess, model: { id: modelId }, embeddings: request }, { signal: abortSignal });
+}
+
+
 // --- LL Low-Level (Level 1) - Streaming loop with retry/reassembler ---
 
 /**
@@ -815,6 +977,8 @@ export interface AixChatGenerateContent_LL_Result extends AixChatGenerateContent
   outcome: AixChatGenerateTerminal_LL;
   // Lg metrics - kept separate from generator.metrics (Md) because Lg is richer and used for final summaries
   cgMetricsLg?: DMetricsChatGenerate_Lg;
+  // [failed] HTTP status of the upstream rejection, when known - e.g. 429 or 5xx, to fail over to another model
+  upstreamHttpStatus?: number;
 }
 
 /**
@@ -825,6 +989,16 @@ export interface AixChatGenerateContent_LL_Result extends AixChatGenerateContent
  */
 export type AixChatGenerateTerminal_LL = 'completed' | 'aborted' | 'failed';
 
+type _AixResponseCacheOptions = {
+  llmId: DLLMId;
+  ttlMs: number;
+};
+
+async function* _aixReplayParticles(particles: AixWire_Particles.ChatGenerateOp[]): AsyncGenerator<AixWire_Particles.ChatGenerateOp, void> {
+  for (const particle of particles)
+    yield particle;
+}
+
 /**
  * LL (Level 1) - Client-side ChatGenerateContent, with optional streaming.
  *
@@ -853,6 +1027,7 @@ export type AixChatGenerateTerminal_LL = 'completed' | 'aborted' | 'failed';
  * @param initialGenerator generator initial value, which will be updated for every new piece of information received
  * @param abortSignal allows the caller to stop the operation
  * @param throttleParallelThreads allows the caller to limit the number of parallel threads
+ * @param responseCache if set, replays a stored response of the same request instead of calling upstream, and stores the completed ones
  *
  * The output is an accumulator object with the fragments and generator.
  *
@@ -872,6 +1047,7 @@ async function _aixChatGenerateContent_LL(
   initialGenerator: DMessageGenerator,
   abortSignal: AbortSignal,
   throttleParallelThreads: number | undefined,
+  responseCache: _AixResponseCacheOptions | null,
   // optional streaming callback: not fired until the first piece of content
   onGenerateContentUpdate?: (accumulator: AixChatGenerateContent_LL, isDone: boolean) => MaybePromise<void>,
 ): Promise<AixChatGenerateContent_LL_Result> {
@@ -922,9 +1098,16 @@ async function _aixChatGenerateContent_LL(
     particleTransforms.push(createClientAnthropicFileInlineTransform(aixAccess, aixModel.vndAntTransformInlineFiles === 'inline-file-and-delete'));
 
 
+  // Response cache - the key covers the final model and request, after all the hotfixes
+  const cacheOptions = (!initialGenerator.upstreamHandle && !debugRequestBodyOverride) ? responseCache : null;
+  const cacheKey = cacheOptions ? await aixResponseCacheKey(cacheOptions.llmId, aixModel, aixChatGenerate) : null;
+  const cachedResponse = cacheKey ? await aixResponseCacheGet(cacheKey) : null;
+  const cacheRecording: AixWire_Particles.ChatGenerateOp[] | null = (cacheKey && !cachedResponse) ? [] : null;
+
+
   // Particles Reassembler - owns the accumulator, reused across Client-side retries
   const reassembler = new ContentReassembler(
-    initialGenerator,
+    !cachedResponse ? initialGenerator : { ...initialGenerator, cachedAt: cachedResponse.created },
     inspectorTransport,
     inspectorContext,
     particleTransforms,
@@ -969,8 +1152,11 @@ async function _aixChatGenerateContent_LL(
 
     try {
 
+      // restart the recording, as a retry replays the response from the start
+      if (cacheRecording) cacheRecording.length = 0;
+
       // let particleStream: AsyncIterable<AixWire_Particles.ChatGenerateOp, void>;
-      const particleStream = !accumulator_LL.generator.upstreamHandle ? (
+      const particleStream = cachedResponse ? _aixReplayParticles(cachedResponse.particles) : !accumulator_LL.generator.upstreamHandle ? (
 
         // AIX Fesh from Chat Input - [CSF] Direct Execution
         clientSideChatGenerate ? clientSideChatGenerate(
@@ -1026,8 +1212,11 @@ async function _aixChatGenerateContent_LL(
        * - This catch [Error Channel 1]: tRPC/network/transport errors (connection, stream, abort) -> aixClassifyStreamingError
        * - Reassembler catch [Error Channel 2]: particle-processing errors (malformed particles, async work) -> aixClassifyReassemblyError
        */
-      for await (const particle of particleStream)
+      for await (const particle of particleStream) {
         reassembler.enqueueWireParticle(particle);
+        if (cacheRecording && aixResponseCacheIsReplayable(particle))
+          cacheRecording.push(particle);
+      }
 
       // [CSF] generators end cleanly on abort (unlike tRPC which throws) - route to catch
       abortSignal.throwIfAborted();
@@ -1079,7 +1268,7 @@ async function _aixChatGenerateContent_LL(
         reassembler.setClientAborted();
       else {
         const errorHint: DMessageErrorPart['hint'] = `aix-${errorType}`; // MUST MATCH our `aixClassifyStreamingError` hints with 'aix-<type>' in DMessageErrorPart
-        reassembler.setClientExcepted(errorMessage, errorHint);
+        reassembler.setClientExcepted(errorMessage, errorHint, typeof maybeErrorStatusCode === 'number' ? maybeErrorStatusCode : undefined);
       }
       break; // -> terminal: failed or aborted
     }
@@ -1089,6 +1278,11 @@ async function _aixChatGenerateContent_LL(
   // Finalize - classify termination, append error fragments, compute outcome
   const llResult = reassembler.finalizeReassembly();
 
+  // Response cache - store only the clean completions
+  if (cacheOptions && cacheKey && cacheRecording?.length && llResult.outcome === 'completed' && !llResult.generator.tokenStopReason
+    && !llResult.fragments.some(f => isContentFragment(f) && isErrorPart(f.part)))
+    await aixResponseCachePut(cacheKey, cacheOptions.llmId, cacheRecording, cacheOptions.ttlMs);
+
   // final update bypasses decimation entirely and contains complete content
   await onGenerateContentUpdate?.(llResult, true /* only true here */);
 
@@ -5,8 +5,9 @@ import { createTRPCRouter, edgeProcedure } from '~/server/trpc/trpc.server';
 import { _createDebugConfig } from '../dispatch/chatGenerate/chatGenerate.debug';
 import { createChatGenerateDispatch, createChatGenerateResumeDispatch, executeChatGenerateDelete } from '../dispatch/chatGenerate/chatGenerate.dispatch';
 import { executeChatGenerateWithContinuation } from '../dispatch/chatGenerate/chatGenerate.continuation';
+import { executeEmbeddings } from '../dispatch/embeddings/embeddings.dispatch';
 
-import { AixWire_API, AixWire_API_ChatContentGenerate } from './aix.wiretypes';
+import { AixWire_API, AixWire_API_ChatContentGenerate, AixWire_API_Embeddings } from './aix.wiretypes';
 
 
 // --- AIX tRPC Router ---
@@ -92,4 +93,18 @@ export const aixRouter = createTRPCRouter({
       return await executeChatGenerateDelete(input.access, input.upstreamHandle, ctx.reqSignal);
     }),
 
+  /**
+   * Embeddings of a batch of texts. One-shot, non-streaming.
+   * Today: OpenAI (and compatible: Mistral, LM Studio, LocalAI), Gemini, Ollama.
+   */
+  embeddings: edgeProcedure
+    .input(z.object({
+      access: AixWire_API.Access_schema,
+      model: z.object({ id: z.string() }),
+      embeddings: AixWire_API_Embeddings.Request_schema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return await executeEmbeddings(input.access, input.model.id, input.embeddings, ctx.reqSignal);
+    }),
+
 });
@@ -20,6 +20,7 @@ import { openAIAccessSchema } from '~/modules/llms/server/openai/openai.access';
 // Export types
 export type AixParts_DocPart = z.infer<typeof AixWire_Parts.DocPart_schema>;
 export type AixParts_InlineAudioPart = z.infer<typeof AixWire_Parts.InlineAudioPart_schema>;
+export type AixParts_InlineVideoPart = z.infer<typeof AixWire_Parts.InlineVideoPart_schema>;
 export type AixParts_InlineImagePart = z.infer<typeof AixWire_Parts.InlineImagePart_schema>;
 export type AixParts_ModelAuxPart = z.infer<typeof AixWire_Parts.ModelAuxPart_schema>;
 export type AixParts_MetaCacheControl = z.infer<typeof AixWire_Parts.MetaCacheControl_schema>;
@@ -40,6 +41,8 @@ export type AixAPI_Model = z.infer<typeof AixWire_API.Model_schema>;
 export type AixAPI_ResumeHandle = z.infer<typeof AixWire_API.UpstreamHandle_schema>;
 export type AixAPI_ConnectionOptions_ChatGenerate = z.infer<typeof AixWire_API.ConnectionOptionsChatGenerate_schema>;
 export type AixAPIChatGenerate_Request = z.infer<typeof AixWire_API_ChatContentGenerate.Request_schema>;
+export type AixAPIEmbeddings_Request = z.infer<typeof AixWire_API_Embeddings.Request_schema>;
+export type AixAPIEmbeddings_Response = z.infer<typeof AixWire_API_Embeddings.Response_schema>;
 
 
 /// Input Types to AIX
@@ -153,6 +156,15 @@ export namespace AixWire_Parts {
     // durationMs: z.number().optional(),
   });
 
+  export const InlineVideoPart_schema = _BasePart_schema.extend({
+    pt: z.literal('inline_video'),
+    /**
+     * Video attachments, for models with video inputs (Gemini) - inline data is capped at ~20MB by the APIs.
+     */
+    mimeType: z.enum(['video/mp4', 'video/webm', 'video/quicktime', 'video/mpeg']),
+    base64: z.string(),
+  });
+
   // NOTE: different from DMessageImageRefPart, in that the image data is inlined rather than being referred to
   export const InlineImagePart_schema = _BasePart_schema.extend({
     pt: z.literal('inline_image'),
@@ -304,8 +316,9 @@ export namespace AixWire_Content {
     role: z.literal('user'),
     parts: z.array(z.discriminatedUnion('pt', [
       AixWire_Parts.TextPart_schema,
-      // AixWire_Parts.InlineAudioPart_schema,
+      AixWire_Parts.InlineAudioPart_schema, // audio attachments, for models with audio inputs
       AixWire_Parts.InlineImagePart_schema,
+      AixWire_Parts.InlineVideoPart_schema, // video attachments, for models with video inputs
       AixWire_Parts.DocPart_schema,
       AixWire_Parts.MetaCacheControl_schema,
       AixWire_Parts.MetaInReferenceToPart_schema,
@@ -688,6 +701,29 @@ export namespace AixWire_API_ChatContentGenerate {
 
 }
 
+export namespace AixWire_API_Embeddings {
+
+  /// Request
+
+  export const Request_schema = z.object({
+    texts: z.array(z.string()).min(1).max(100), // Gemini's batch limit is the lowest
+    /**
+     * What the texts are for: some models (e.g. Gemini) produce different vectors for
+     * the documents to be retrieved and for the queries that retrieve them.
+     */
+    purpose: z.enum(['document', 'query']),
+    dimensions: z.number().int().min(1).optional(), // for models that support shortened vectors
+  });
+
+  /// Response - one vector per text, in order
+
+  export const Response_schema = z.object({
+    vectors: z.array(z.array(z.number())),
+    dimensions: z.number(),
+  });
+
+}
+
 
 ///  Output Types from AIX
 
@@ -713,7 +749,7 @@ export namespace AixWire_Particles {
   export type ChatControlOp =
   // | { cg: 'start' } // not really used for now
     | { cg: 'end', terminationReason: CGEndReason /* we know why we're sending 'end' */, tokenStopReason?: GCTokenStopReason /* we may or not have gotten a logical token stop reason from the dispatch */, tokenStopError?: string /* optional vendor-composed human-readable detail paired with tokenStopReason */ }
-    | { cg: 'issue', issueId: CGIssueId, issueText: string }
+    | { cg: 'issue', issueId: CGIssueId, issueText: string, issueHttp?: number /* upstream HTTP status, when the service rejected the request */ }
     | { cg: 'aix-info', ait: 'flow-cont' /* important: establishes a checkpoint */, text: string }
     | { cg: 'aix-retry-reset', rScope: 'srv-dispatch' | 'srv-op' | 'cli-ll', rClearStrategy: 'none' | 'since-checkpoint' | 'all', reason: string, attempt: number, maxAttempts: number, delayMs: number, causeHttp?: number, causeConn?: string }
     | { cg: 'set-metrics', metrics: CGSelectMetrics }
@@ -178,8 +178,8 @@ export class ChatGenerateTransmitter implements IParticleTransmitter {
     | 'dispatch-fetch'
     | 'dispatch-read'
     | 'dispatch-parse'
-  >, issueText: string, serverLog: ParticleServerLogLevel) {
-    this._addIssue(issueId, issueText, serverLog);
+  >, issueText: string, serverLog: ParticleServerLogLevel, issueHttp?: number) {
+    this._addIssue(issueId, issueText, serverLog, issueHttp);
     this.setDispatchEnded('issue-dispatch-rpc');
   }
 
@@ -376,7 +376,7 @@ export class ChatGenerateTransmitter implements IParticleTransmitter {
   /**
    * Undocumented, internal, as the IPartTransmitter callers will call setDialectTerminatingIssue instead
    */
-  private _addIssue(issueId: AixWire_Particles.CGIssueId, issueText: string, serverLog: ParticleServerLogLevel) {
+  private _addIssue(issueId: AixWire_Particles.CGIssueId, issueText: string, serverLog: ParticleServerLogLevel, issueHttp?: number) {
     if (serverLog || ENABLE_EXTRA_DEV_MESSAGES || SERVER_DEBUG_WIRE) {
       const logLevel = serverLog === 'srv-warn' ? 'warn' as const : 'log' as const;
       console[logLevel](`Aix.${this.prettyDialect} ${issueId}: ${issueText}`);
@@ -388,6 +388,7 @@ export class ChatGenerateTransmitter implements IParticleTransmitter {
       cg: 'issue',
       issueId,
       issueText,
+      ...(issueHttp && { issueHttp }),
     });
   }
 
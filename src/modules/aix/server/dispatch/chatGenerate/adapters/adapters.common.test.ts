@@ -0,0 +1,52 @@
+/// <reference types="node" />
+
+// Tests for the adapter helpers: the normalization of user-authored JSON Schemas to the OpenAI strict mode.
+//
+// Run:
+// - `npx tsx --test src/modules/aix/server/dispatch/chatGenerate/adapters/adapters.common.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual } from 'node:assert/strict';
+
+import { openAIStrictNormalizeSchema } from './adapters.common';
+
+
+describe('openAIStrictNormalizeSchema', () => {
+
+  test('the default new schema', () => {
+    deepStrictEqual(openAIStrictNormalizeSchema({ type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'] }), {
+      type: 'object', properties: { answer: { type: 'string' } }, required: ['answer'], additionalProperties: false,
+    });
+  });
+
+  test('every object node: closed, with all the properties required', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        author: { type: ['object', 'null'], properties: { name: { type: 'string' }, email: { type: 'string' } }, required: ['email'] },
+        tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' } }, additionalProperties: true } },
+        choice: { anyOf: [{ type: 'object', properties: { a: { type: 'number' } } }, { type: 'string' }] },
+      },
+    };
+    deepStrictEqual(openAIStrictNormalizeSchema(schema), {
+      type: 'object',
+      properties: {
+        title: { type: 'string' },
+        author: { type: ['object', 'null'], properties: { name: { type: 'string' }, email: { type: 'string' } }, required: ['email', 'name'], additionalProperties: false },
+        tags: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' } }, additionalProperties: false, required: ['label'] } },
+        choice: { anyOf: [{ type: 'object', properties: { a: { type: 'number' } }, additionalProperties: false, required: ['a'] }, { type: 'string' }] },
+      },
+      additionalProperties: false,
+      required: ['title', 'author', 'tags', 'choice'],
+    });
+  });
+
+  test('properties named like schema keywords, and the input is not modified', () => {
+    const schema = { type: 'object', properties: { type: { type: 'string' }, required: { type: 'boolean' } } };
+    const copy = structuredClone(schema);
+    deepStrictEqual(openAIStrictNormalizeSchema(schema), { ...schema, additionalProperties: false, required: ['type', 'required'] });
+    deepStrictEqual(schema, copy);
+  });
+
+});
@@ -76,4 +76,25 @@ export function approxInReferenceTo_To_XMLString(irt: AixParts_MetaInReferenceTo
   return refs.length === 1
     ? `<context>User refers to this in particular:<ref>${refs[0]}</ref></context>`
     : `<context>User refers to ${refs.length} items:<ref>${refs.join('</ref><ref>')}</ref></context>`;
-}
\ No newline at end of file
+}
+
+/**
+ * [OpenAI] Structured Outputs in strict mode require `additionalProperties: false` on EVERY 'object' node, and all
+ * of its properties listed in `required` (optional fields are expressed as nullable types) - 400 otherwise.
+ * Recursively normalizes user-authored schemas to that form; the input is not modified.
+ */
+export function openAIStrictNormalizeSchema<T>(node: T): T {
+  if (!node || typeof node !== 'object') return node;
+  if (Array.isArray(node)) return node.map(openAIStrictNormalizeSchema) as T;
+  const obj: Record<string, any> = {};
+  for (const [key, value] of Object.entries(node))
+    obj[key] = openAIStrictNormalizeSchema(value);
+  if (obj.type === 'object' || (Array.isArray(obj.type) && obj.type.includes('object'))) {
+    obj.additionalProperties = false;
+    if (obj.properties && typeof obj.properties === 'object') {
+      const required: unknown[] = Array.isArray(obj.required) ? obj.required : [];
+      obj.required = [...required, ...Object.keys(obj.properties).filter(name => !required.includes(name))];
+    }
+  }
+  return obj as T;
+}
@@ -430,6 +430,13 @@ function* _generateAnthropicMessagesContentBlocks({ parts, role }: AixMessages_C
             yield { role: 'user', content: AnthropicWire_Blocks.ImageBlock(part.mimeType, part.base64) };
             break;
 
+          case 'inline_audio':
+            // the client strips audio for models without audio inputs: this is reached only on misconfiguration
+            throw new Error('Audio attachments are not supported by Anthropic models. Please transcribe the audio instead.');
+
+          case 'inline_video':
+            throw new Error('Video attachments are not supported by Anthropic models. Please attach frames and a transcript instead.');
+
           case 'doc':
             yield { role: 'user', content: AnthropicWire_Blocks.TextBlock(approxDocPart_To_String(part), 'user.doc') };
             break;
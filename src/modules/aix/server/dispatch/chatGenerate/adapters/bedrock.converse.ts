@@ -122,6 +122,15 @@ function* _generateConverseContentBlocks({ parts, role }: AixMessages_ChatMessag
             break;
           }
 
+          case 'inline_audio':
+            // Converse API does not support inline audio in messages
+            console.log('[DEV] [Bedrock Converse] Skipping inline audio part in user message');
+            break;
+
+          case 'inline_video':
+            // the client strips video for models without video inputs: this is reached only on misconfiguration
+            throw new Error('Video attachments are not supported by Bedrock models. Please attach frames and a transcript instead.');
+
           case 'doc':
             yield { role: 'user', content: { text: approxDocPart_To_String(part) } };
             break;
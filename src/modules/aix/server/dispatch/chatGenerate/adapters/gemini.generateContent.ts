@@ -367,6 +367,7 @@ function _toGeminiContents(chatSequence: AixMessages_ChatMessage[], apiRequiresS
 
         case 'inline_audio':
         case 'inline_image':
+        case 'inline_video':
           parts.push(GeminiWire_ContentParts.InlineDataPart(part.mimeType, part.base64));
           if (apiRequiresSignatures)
             partRequiresSignature = true;
@@ -191,6 +191,8 @@ function _buildUserContent(parts: Extract<AixAPIChatGenerate_Request['chatSequen
       case 'inline_image':
         images.push({ type: 'image', data: part.base64, mime_type: part.mimeType });
         break;
+      case 'inline_audio':
+      case 'inline_video':
       case 'meta_cache_control':
         break; // unsupported here; dropped
       default:
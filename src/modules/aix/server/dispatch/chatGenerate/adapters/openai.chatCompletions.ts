@@ -5,7 +5,7 @@ import type { OpenAIDialects } from '~/modules/llms/server/openai/openai.access'
 import { AixAPI_Model, AixAPIChatGenerate_Request, AixMessages_ChatMessage, AixMessages_SystemMessage, AixParts_DocPart, AixParts_InlineAudioPart, AixParts_MetaInReferenceToPart, AixTools_ToolDefinition, AixTools_ToolsPolicy } from '../../../api/aix.wiretypes';
 import { OpenAIWire_API_Chat_Completions, OpenAIWire_ContentParts, OpenAIWire_Messages } from '../../wiretypes/openai.wiretypes';
 
-import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String } from './adapters.common';
+import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String, openAIStrictNormalizeSchema } from './adapters.common';
 
 
 //
@@ -108,7 +108,7 @@ export function aixToOpenAIChatCompletions(openAIDialect: OpenAIDialects, model:
       json_schema: {
         name: model.strictJsonOutput.name || 'response',
         description: model.strictJsonOutput.description,
-        schema: model.strictJsonOutput.schema,
+        schema: openAIStrictNormalizeSchema(model.strictJsonOutput.schema),
         strict: true,
       },
     } : undefined,
@@ -606,6 +606,22 @@ function _toOpenAIMessages(openAIDialect: OpenAIDialects, systemMessage: AixMess
               allowAppend = true;
               break;
 
+            case 'inline_audio':
+              // create a new OpenAI_AudioContentPart (raw base64, not a data URL)
+              const userAudioContentPart = OpenAIWire_ContentParts.OpenAI_AudioContentPart(part.base64, aixAudioPart_to_OpenAIAudioFormat(part));
+
+              // Append to existing content[], or new message
+              if (allowAppend && currentMessage?.role === 'user' && Array.isArray(currentMessage.content))
+                currentMessage.content.push(userAudioContentPart);
+              else
+                chatMessages.push({ role: 'user', content: [userAudioContentPart] });
+              allowAppend = true;
+              break;
+
+            case 'inline_video':
+              // the client strips video for models without video inputs: this is reached only on misconfiguration
+              throw new Error('Video attachments are not supported by this API. Please attach frames and a transcript instead.');
+
             case 'meta_cache_control':
               if (emitCacheBreakpoints)
                 _stampTrailingCacheBreakpoint(chatMessages);
@@ -6,7 +6,7 @@ import { AixAPI_Model, AixAPIChatGenerate_Request, AixMessages_ChatMessage, AixM
 import { OpenAIWire_API_Responses, OpenAIWire_Responses_Items, OpenAIWire_Responses_Tools } from '../../wiretypes/openai.wiretypes';
 
 import { aixDocPart_to_OpenAITextContent, aixMetaRef_to_OpenAIText, aixTexts_to_OpenAIInstructionText } from './openai.chatCompletions';
-import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String } from './adapters.common';
+import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String, openAIStrictNormalizeSchema } from './adapters.common';
 
 
 // configuration
@@ -111,7 +111,7 @@ export function aixToOpenAIResponses(
         type: 'json_schema',
         name: model.strictJsonOutput.name || 'response',
         description: model.strictJsonOutput.description,
-        schema: model.strictJsonOutput.schema,
+        schema: openAIStrictNormalizeSchema(model.strictJsonOutput.schema),
         strict: true,
       },
     };
@@ -467,6 +467,18 @@ function _toOpenAIResponsesRequestInput(systemMessage: AixMessages_SystemMessage
               });
               break;
 
+            case 'inline_audio':
+              // the Responses API has no audio input part: sent as a file, as for the model-side workaround
+              userMessage().content.push({
+                type: 'input_file',
+                file_data: `data:${userPart.mimeType};base64,${userPart.base64}`,
+              });
+              break;
+
+            case 'inline_video':
+              // the client strips video for models without video inputs: this is reached only on misconfiguration
+              throw new Error('Video attachments are not supported by the Responses API. Please attach frames and a transcript instead.');
+
             case 'meta_in_reference_to':
               userMessage().content.push({
                 type: 'input_text',
@@ -4,7 +4,7 @@ import type { AixAPI_Model, AixAPIChatGenerate_Request, AixMessages_ChatMessage,
 import { XAIWire_API_Responses, XAIWire_Responses_Tools } from '../../wiretypes/xai.wiretypes';
 
 import { aixDocPart_to_OpenAITextContent, aixMetaRef_to_OpenAIText, aixTexts_to_OpenAIInstructionText } from './openai.chatCompletions';
-import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String } from './adapters.common';
+import { aixSpillShallFlush, aixSpillSystemToUser, approxDocPart_To_String, openAIStrictNormalizeSchema } from './adapters.common';
 
 
 // configuration
@@ -74,7 +74,7 @@ export function aixToXAIResponses(
         type: 'json_schema',
         name: model.strictJsonOutput.name || 'response',
         description: model.strictJsonOutput.description,
-        schema: model.strictJsonOutput.schema,
+        schema: openAIStrictNormalizeSchema(model.strictJsonOutput.schema),
         strict: true,
       },
     } : undefined,
@@ -267,6 +267,18 @@ function _toXAIResponsesInput(
               });
               break;
 
+            case 'inline_audio':
+              // Convert audio to user file input (workaround)
+              (getUserMessage().content as any[]).push({
+                type: 'input_file',
+                file_data: `data:${part.mimeType};base64,${part.base64}`,
+              });
+              break;
+
+            case 'inline_video':
+              // the client strips video for models without video inputs: this is reached only on misconfiguration
+              throw new Error('Video attachments are not supported by xAI models. Please attach frames and a transcript instead.');
+
             case 'meta_in_reference_to':
               getUserMessage().content.push({
                 type: 'input_text',
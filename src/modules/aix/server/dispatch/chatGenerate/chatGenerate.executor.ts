@@ -192,10 +192,12 @@ async function* _connectToDispatch(
     // upstream rejections that are user/key/policy issues (401 bad key, 402 billing, 403 region/permission, 404 unknown model, 429 quota) log instead of warn;
     // 400/422 and the rest keep warning, as they can signal adapter bugs (malformed requests we generated)
     const demoteToLog = [401, 402, 403, 404, 429];
-    const isUpstreamUserError = error?.name === 'TRPCFetcherError' && error.category === 'http' && demoteToLog.includes(error.httpStatus);
+    const upstreamHttpStatus: number | undefined = error?.name === 'TRPCFetcherError' && error.category === 'http' ? error.httpStatus : undefined;
+    const isUpstreamUserError = !!upstreamHttpStatus && demoteToLog.includes(upstreamHttpStatus);
     const serverLogLevel = _d.consoleLogErrors === 'srv-warn' && isUpstreamUserError ? 'srv-log' : _d.consoleLogErrors;
 
-    chatGenerateTx.setDispatchRpcTerminatingIssue('dispatch-fetch', `**[Service Issue] ${_d.prettyDialect}**: ${dispatchFetchError}${extraDevMessage}`, serverLogLevel);
+    // the HTTP status lets the client fail over to another model on overloads and outages
+    chatGenerateTx.setDispatchRpcTerminatingIssue('dispatch-fetch', `**[Service Issue] ${_d.prettyDialect}**: ${dispatchFetchError}${extraDevMessage}`, serverLogLevel, upstreamHttpStatus);
     yield* chatGenerateTx.flushParticles();
     return null; // signal caller to exit
   }
@@ -0,0 +1,120 @@
+import * as z from 'zod/v4';
+
+import { OPENAI_API_PATHS, openAIAccess } from '~/modules/llms/server/openai/openai.access';
+import { geminiAccess } from '~/modules/llms/server/gemini/gemini.access';
+import { ollamaAccess } from '~/modules/llms/server/ollama/ollama.access';
+
+import { fetchJsonOrTRPCThrow } from '~/server/trpc/trpc.router.fetchers';
+
+import type { AixAPI_Access, AixAPIEmbeddings_Request, AixAPIEmbeddings_Response } from '../../api/aix.wiretypes';
+
+
+// -- Upstream wiretypes (only the fields we use) --
+
+// OpenAI-compatible (OpenAI, Mistral, LM Studio, LocalAI): POST /v1/embeddings
+const _OpenAIEmbeddingsResponse_schema = z.object({
+  data: z.array(z.object({
+    index: z.number(),
+    embedding: z.array(z.number()),
+  })),
+});
+
+// Gemini: POST /v1beta/{model=models/*}:batchEmbedContents
+const GEMINI_BATCH_EMBED_PATH = '/v1beta/{model=models/*}:batchEmbedContents';
+const _GeminiBatchEmbedResponse_schema = z.object({
+  embeddings: z.array(z.object({
+    values: z.array(z.number()),
+  })),
+});
+
+// Ollama: POST /api/embed
+const OLLAMA_EMBED_PATH = '/api/embed';
+const _OllamaEmbedResponse_schema = z.object({
+  embeddings: z.array(z.array(z.number())),
+});
+
+
+/**
+ * Computes the embeddings of a batch of texts, with the embeddings endpoint of the service.
+ * One-shot, non-streaming. Isomorphic: also used by the client for Client-Side Fetch.
+ */
+export async function executeEmbeddings(access: AixAPI_Access, modelId: string, request: AixAPIEmbeddings_Request, abortSignal: AbortSignal): Promise<AixAPIEmbeddings_Response> {
+  const { dialect } = access;
+
+  let vectors: number[][];
+  switch (dialect) {
+
+    case 'gemini':
+      const geminiModelName = modelId.startsWith('models/') ? modelId : `models/${modelId}`;
+      const { url: geminiUrl, headers: geminiHeaders } = geminiAccess(access, geminiModelName, GEMINI_BATCH_EMBED_PATH, false);
+      const geminiResponse = await fetchJsonOrTRPCThrow<object, object>({
+        url: geminiUrl,
+        method: 'POST',
+        headers: geminiHeaders,
+        body: {
+          requests: request.texts.map(text => ({
+            model: geminiModelName,
+            content: { parts: [{ text }] },
+            taskType: request.purpose === 'query' ? 'RETRIEVAL_QUERY' : 'RETRIEVAL_DOCUMENT',
+            ...(request.dimensions ? { outputDimensionality: request.dimensions } : {}),
+          })),
+        },
+        signal: abortSignal,
+        name: 'Aix.Gemini.embeddings',
+      });
+      vectors = _GeminiBatchEmbedResponse_schema.parse(geminiResponse).embeddings.map(e => e.values);
+      break;
+
+    case 'ollama':
+      const { url: ollamaUrl, headers: ollamaHeaders } = ollamaAccess(access, OLLAMA_EMBED_PATH);
+      const ollamaResponse = await fetchJsonOrTRPCThrow<object, object>({
+        url: ollamaUrl,
+        method: 'POST',
+        headers: ollamaHeaders,
+        body: {
+          model: modelId,
+          input: request.texts,
+          ...(request.dimensions ? { dimensions: request.dimensions } : {}),
+        },
+        signal: abortSignal,
+        name: 'Aix.Ollama.embeddings',
+      });
+      vectors = _OllamaEmbedResponse_schema.parse(ollamaResponse).embeddings;
+      break;
+
+    case 'lmstudio':
+    case 'localai':
+    case 'mistral':
+    case 'openai':
+      const { url: oaiUrl, headers: oaiHeaders } = openAIAccess(access, modelId, OPENAI_API_PATHS.embeddings);
+      const oaiResponse = await fetchJsonOrTRPCThrow<object, object>({
+        url: oaiUrl,
+        method: 'POST',
+        headers: oaiHeaders,
+        body: {
+          model: modelId,
+          input: request.texts,
+          // [Mistral] rejects the OpenAI-only 'dimensions'
+          ...(request.dimensions && dialect !== 'mistral' ? { dimensions: request.dimensions } : {}),
+        },
+        signal: abortSignal,
+        name: `Aix.${dialect}.embeddings`,
+      });
+      vectors = _OpenAIEmbeddingsResponse_schema.parse(oaiResponse).data
+        .sort((a, b) => a.index - b.index)
+        .map(d => d.embedding);
+      break;
+
+    default:
+      throw new Error(`Embeddings not supported for dialect '${dialect}'`);
+  }
+
+  // validate: one vector per text, all of the same size
+  if (vectors.length !== request.texts.length)
+    throw new Error(`Embeddings: expected ${request.texts.length} vectors, got ${vectors.length}`);
+  const dimensions = vectors[0]?.length ?? 0;
+  if (!dimensions || vectors.some(v => v.length !== dimensions))
+    throw new Error('Embeddings: empty or inconsistent vectors');
+
+  return { vectors, dimensions };
+}
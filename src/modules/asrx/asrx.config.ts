@@ -14,4 +14,8 @@ export const ASRX_DEFAULTS = {
   OPENAI_MODEL: 'gpt-4o-transcribe',
   OPENAI_HOST: 'https://api.openai.com',
 
+  // Local Whisper - whisper.cpp server (--inference-path /v1/audio/transcriptions), faster-whisper servers, LocalAI
+  LOCALWHISPER_MODEL: 'whisper-1',
+  LOCALWHISPER_HOST: 'http://localhost:8080',
+
 } as const;
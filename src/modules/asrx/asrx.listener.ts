@@ -0,0 +1,223 @@
+/**
+ * ASRx Listener - hands-free microphone listening, for voice conversations.
+ *
+ * Keeps the microphone open, detects the utterances with a simple energy-based
+ * voice activity detector (VAD), and transcribes each utterance with the batch
+ * protocol as soon as the user stops talking. Transcripts are delivered in order.
+ *
+ * `onSpeechStart` fires as soon as the user starts talking, which is the cue for
+ * barge-in: stopping the playback and the generation of the reply.
+ */
+
+import type { ASRxProfileSelector } from './asrx.types';
+import { ASRX_DEBUG } from './asrx.config';
+import { asrxTranscribeBatch } from './protocols/batch/batch.client';
+
+
+// configuration
+const VAD_INTERVAL_MS = 30;
+const VAD_SPEECH_START_MS = 150;      // above the threshold this long, to start an utterance
+const VAD_SPEECH_END_MS = 800;        // below the threshold this long, to end it
+const VAD_MIN_UTTERANCE_MS = 400;     // shorter utterances are noises: not transcribed
+const VAD_MIN_RMS = 0.01;             // absolute floor of the threshold, for quiet rooms
+const VAD_NOISE_FACTOR = 3;           // the threshold is this many times the noise floor
+const VAD_NOISE_ADAPT = 0.05;         // noise floor moving average, adapted while not speaking
+const RECORDER_RESTART_IDLE_MS = 10_000; // restart the idle recorder to drop the old pre-roll
+
+
+export interface ASRxListenerCallbacks {
+  onSpeechStart: () => void;
+  onSpeechEnd: (transcribing: boolean) => void;
+  onTranscript: (text: string) => void;
+  onTranscribingDone: () => void;
+  onError: (errorText: string) => void;
+}
+
+interface _Recording {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  startedAt: number;
+}
+
+
+export class ASRxListener {
+
+  // state
+  private stream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private vadTimer: ReturnType<typeof setInterval> | null = null;
+  private recording: _Recording | null = null;
+  private transcriptions: Promise<void> = Promise.resolve();
+  private readonly abortController = new AbortController();
+
+  // VAD state
+  private muted = false;
+  private speaking = false;
+  private speechStartedAt = 0;
+  private aboveSince = 0;
+  private belowSince = 0;
+  private noiseFloor = VAD_MIN_RMS / VAD_NOISE_FACTOR;
+
+  constructor(
+    private readonly callbacks: ASRxListenerCallbacks,
+    private readonly selector?: ASRxProfileSelector,
+    private readonly languageCode?: string,
+  ) {
+  }
+
+  async start() {
+    if (!navigator?.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined')
+      return this.callbacks.onError('Microphone recording is not supported by this browser.');
+
+    try {
+      // echo cancellation keeps our own voice playback out of the VAD
+      this.stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+    } catch (error: any) {
+      console.error('[ASRx] listener getUserMedia error:', error);
+      return this.callbacks.onError('Microphone access denied or not available.');
+    }
+    if (this.abortController.signal.aborted)
+      return this._releaseStream();
+    this.stream.getAudioTracks().forEach(track => track.enabled = !this.muted);
+
+    this.audioContext = new AudioContext();
+    const analyser = this.audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    this.audioContext.createMediaStreamSource(this.stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+
+    this._startRecording();
+    this.vadTimer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumSquares = 0;
+      for (let i = 0; i < samples.length; i++)
+        sumSquares += samples[i] * samples[i];
+      this._vadUpdate(Math.sqrt(sumSquares / samples.length), Date.now());
+    }, VAD_INTERVAL_MS);
+  }
+
+  /**
+   * While muted the microphone is silenced, and the utterance in progress is dropped.
+   */
+  setMuted(muted: boolean) {
+    if (this.muted === muted) return;
+    this.muted = muted;
+    this.stream?.getAudioTracks().forEach(track => track.enabled = !muted);
+    if (muted && this.speaking) {
+      this.speaking = false;
+      this._restartRecording(false);
+      this.callbacks.onSpeechEnd(false);
+    }
+  }
+
+  dispose() {
+    this.abortController.abort();
+    if (this.vadTimer) {
+      clearInterval(this.vadTimer);
+      this.vadTimer = null;
+    }
+    this._stopRecording(false);
+    void this.audioContext?.close().catch(() => null);
+    this.audioContext = null;
+    this._releaseStream();
+  }
+
+
+  private _vadUpdate(rms: number, now: number) {
+    if (this.muted || !this.recording) return;
+
+    const threshold = Math.max(VAD_MIN_RMS, this.noiseFloor * VAD_NOISE_FACTOR);
+    const isAbove = rms > threshold;
+    if (isAbove) {
+      this.belowSince = 0;
+      if (!this.aboveSince) this.aboveSince = now;
+    } else {
+      this.aboveSince = 0;
+      if (!this.belowSince) this.belowSince = now;
+    }
+
+    if (!this.speaking) {
+      // adapt to the background noise
+      if (!isAbove)
+        this.noiseFloor += (rms - this.noiseFloor) * VAD_NOISE_ADAPT;
+
+      if (this.aboveSince && now - this.aboveSince >= VAD_SPEECH_START_MS) {
+        this.speaking = true;
+        this.speechStartedAt = this.aboveSince;
+        if (ASRX_DEBUG) console.log('[ASRx] listener: speech start', { rms, threshold });
+        this.callbacks.onSpeechStart();
+      } else if (!this.aboveSince && now - this.recording.startedAt >= RECORDER_RESTART_IDLE_MS)
+        this._restartRecording(false);
+      return;
+    }
+
+    if (this.belowSince && now - this.belowSince >= VAD_SPEECH_END_MS) {
+      this.speaking = false;
+      const transcribe = this.belowSince - this.speechStartedAt >= VAD_MIN_UTTERANCE_MS;
+      if (ASRX_DEBUG) console.log('[ASRx] listener: speech end', { durationMs: this.belowSince - this.speechStartedAt, transcribe });
+      this._restartRecording(transcribe);
+      this.callbacks.onSpeechEnd(transcribe);
+    }
+  }
+
+
+  // recording: one recorder per utterance, as each blob must be a complete file
+
+  private _startRecording() {
+    if (!this.stream) return;
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(this.stream);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0)
+        chunks.push(event.data);
+    };
+    recorder.onerror = (event) => {
+      console.error('[ASRx] listener recorder error:', event);
+      this.callbacks.onError('Recording failed.');
+    };
+    recorder.start();
+    this.recording = { recorder, chunks, startedAt: Date.now() };
+  }
+
+  private _stopRecording(transcribe: boolean) {
+    const recording = this.recording;
+    if (!recording) return;
+    this.recording = null;
+    const { recorder, chunks } = recording;
+    recorder.onstop = !transcribe ? null : () => {
+      const mimeType = recorder.mimeType || 'audio/webm';
+      this._enqueueTranscription(new Blob(chunks, { type: mimeType }), mimeType);
+    };
+    if (recorder.state !== 'inactive')
+      recorder.stop();
+  }
+
+  private _restartRecording(transcribe: boolean) {
+    this._stopRecording(transcribe);
+    this._startRecording();
+  }
+
+  private _enqueueTranscription(audio: Blob, mimeType: string) {
+    const signal = this.abortController.signal;
+    const pending = asrxTranscribeBatch(audio, mimeType, this.selector, { signal, label: 'Call', languageCode: this.languageCode });
+    // transcribed in parallel, delivered in order
+    this.transcriptions = this.transcriptions.then(async () => {
+      const result = await pending;
+      if (signal.aborted) return;
+      if (!result.success) {
+        if (result.errorType !== 'asr-aborted')
+          this.callbacks.onError(result.errorText);
+      } else if (result.text.trim())
+        this.callbacks.onTranscript(result.text.trim());
+      this.callbacks.onTranscribingDone();
+    });
+  }
+
+  private _releaseStream() {
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+  }
+
+}
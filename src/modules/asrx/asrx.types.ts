@@ -6,7 +6,7 @@ import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
 
 // ASRx Vendor Types (supported ASR / transcription providers)
 
-export type DASRxVendorType = 'deepgram' | 'openai';
+export type DASRxVendorType = 'deepgram' | 'localwhisper' | 'openai';
 
 
 // ASRx Engines - instances of ASRx Vendor Types - persisted in store-module-asrx
@@ -32,6 +32,7 @@ export type DASRxEngineId = string; // agiUuidV4('asrx.engine.instance')
 // helper for mapping credentials and profile types to the engine type
 interface _TypeMap extends Record<DASRxVendorType, { profile: unknown; credentials: unknown }> {
   'deepgram': { profile: DProfileDeepgram; credentials: DCredentialsApiKey };
+  'localwhisper': { profile: DProfileLocalWhisper; credentials: DCredentialsLLMSService | DCredentialsApiKey };
   'openai': { profile: DProfileOpenAI; credentials: DCredentialsLLMSService | DCredentialsApiKey };
 }
 
@@ -53,6 +54,14 @@ export interface DProfileDeepgram {
   keywords?: string[];     // keyword boosting
 }
 
+export interface DProfileLocalWhisper {
+  dialect: 'localwhisper';
+  asrModel?: string;       // as named by the server, e.g. 'whisper-1' (whisper.cpp ignores it), 'Systran/faster-whisper-small'
+  language?: string;       // ISO-639-1 (undefined = auto-detect)
+  prompt?: string;         // vocabulary/style guidance
+  temperature?: number;    // 0..1
+}
+
 export interface DProfileOpenAI {
   dialect: 'openai';
   asrModel?: 'gpt-4o-transcribe' | 'gpt-4o-mini-transcribe' | 'whisper-1';
@@ -111,6 +120,7 @@ export type ASRxBatchResult =
       language?: string;      // detected or confirmed language (when provided by the vendor)
       confidence?: number;    // 0..1, when provided
       durationMs?: number;    // client-measured round-trip (or vendor-reported when available)
+      segments?: ASRxTranscriptSegment[]; // timed segments, when the vendor/profile provides them (e.g. Deepgram utterances)
     }
   | {
       success: false;
@@ -118,9 +128,54 @@ export type ASRxBatchResult =
       errorText: string;
     };
 
+export interface ASRxTranscriptSegment {
+  startMs: number;
+  endMs?: number;
+  speaker?: number;       // 0-based, with diarization
+  text: string;
+}
+
 export type ASRxErrorType =
   | 'asr-no-engine'       // no engine selected and none available
   | 'asr-unconfigured'    // engine exists but credentials are missing/invalid
   | 'asr-error'           // vendor returned an error status
   | 'asr-exception'       // unexpected exception (network, parsing, ...)
   | 'asr-aborted';        // caller aborted the operation
+
+
+// Realtime transcription (stream audio -> stream interim + final transcripts)
+
+export interface ASRxTranscribeRealtimeOptions {
+  // language override (wins over engine profile's language, when set)
+  languageCode?: string;
+  // receives the events of the session, in order, until 'close'
+  onEvent: (event: ASRxRealtimeEvent) => void;
+  // NorthBridge-style operation metadata (for future use in an ops panel)
+  label?: string;
+  personaUid?: string; // DPersonaUid;
+  conversationId?: DConversationId;
+}
+
+export type ASRxRealtimeEvent =
+  | { type: 'open' }
+  | {
+      type: 'transcript';
+      text: string;           // the transcript of the current segment
+      isFinal: boolean;       // false: interim, will be replaced by the next event; true: final, the next event starts a new segment
+      speechFinal: boolean;   // the speaker paused: the utterance is complete
+    }
+  | { type: 'speech-start' }
+  | { type: 'utterance-end' } // no words for a while, even if the pause was not detected as speechFinal
+  | { type: 'error'; errorType: ASRxErrorType; errorText: string }
+  | { type: 'close' };
+
+export interface ASRxRealtimeSession {
+  readonly model: string;     // `${vendorType}/${asrModel}`
+  sendAudio: (chunk: Blob) => void;  // containerized audio (e.g. MediaRecorder chunks), queued until open
+  finish: () => void;         // no more audio: the last final transcripts arrive, then 'close'
+  close: () => void;          // immediate, pending transcripts are lost
+}
+
+export type ASRxRealtimeStartResult =
+  | { success: true; session: ASRxRealtimeSession }
+  | { success: false; errorType: ASRxErrorType; errorText: string };
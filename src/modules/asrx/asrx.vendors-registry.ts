@@ -1,10 +1,11 @@
-import type { ModelVendorId } from '~/modules/llms/vendors/vendors.registry';
+import type { DModelsService } from '~/common/stores/llms/llms.service.types';
 
 import type { DASRxEngineAny, DASRxVendorType } from './asrx.types';
 import type { ASRxProtocol, IASRxVendor, IASRxVendorAny } from './IASRxVendor';
 
 // vendor imports
 import { ASRxVendorDeepgram } from './vendors/deepgram.vendor';
+import { ASRxVendorLocalWhisper } from './vendors/localwhisper.vendor';
 import { ASRxVendorOpenAI } from './vendors/openai.vendor';
 
 
@@ -12,6 +13,7 @@ import { ASRxVendorOpenAI } from './vendors/openai.vendor';
 
 const _ASRX_VENDOR_REGISTRY: { [key in DASRxVendorType]: IASRxVendor<key> } = {
   deepgram: ASRxVendorDeepgram,
+  localwhisper: ASRxVendorLocalWhisper,
   openai: ASRxVendorOpenAI,
 };
 
@@ -22,9 +24,13 @@ export function asrxFindVendor<TVt extends DASRxVendorType>(vendorType: TVt): IA
   return _ASRX_VENDOR_REGISTRY[vendorType] ?? null;
 }
 
-export function asrxFindVendorForLLMVendor(llmVendorId: ModelVendorId): IASRxVendorAny | null {
-  for (const av of Object.values(_ASRX_VENDOR_REGISTRY))
-    if (av.autoFromLlmVendorIds?.includes(llmVendorId))
+/**
+ * The vendor to auto-link for an LLM service: the first, by priority, which maps from the LLM vendor
+ * and accepts this service (e.g. OpenAI for the native host, Local Whisper for local hosts).
+ */
+export function asrxFindVendorForLLMSource(source: DModelsService): IASRxVendorAny | null {
+  for (const av of _asrxFindAllVendors_Asc())
+    if (av.autoFromLlmVendorIds?.includes(source.vId) && (!av.shouldAutoLinkFromLLMSource || av.shouldAutoLinkFromLLMSource(source)))
       return av;
   return null;
 }
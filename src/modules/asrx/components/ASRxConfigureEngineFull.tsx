@@ -12,7 +12,7 @@ import { FormSwitchControl } from '~/common/components/forms/FormSwitchControl';
 import { FormTextField } from '~/common/components/forms/FormTextField';
 import { useToggleableBoolean } from '~/common/util/hooks/useToggleableBoolean';
 
-import type { DASRxEngine, DASRxEngineAny, DASRxVendorType, DCredentialsApiKey, DProfileDeepgram, DProfileOpenAI } from '../asrx.types';
+import type { DASRxEngine, DASRxEngineAny, DASRxVendorType, DCredentialsApiKey, DProfileDeepgram, DProfileLocalWhisper, DProfileOpenAI } from '../asrx.types';
 import { ASRX_DEFAULTS } from '../asrx.config';
 import { asrxAreCredentialsValid } from '../store-module-asrx';
 
@@ -63,6 +63,8 @@ export function ASRxConfigureEngineFull(props: {
         <Box sx={_styles.sectionBody}>
           {engine.vendorType === 'deepgram' ? (
             <DeepgramParameters engine={engine} onUpdate={onUpdate} />
+          ) : engine.vendorType === 'localwhisper' ? (
+            <LocalWhisperParameters engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
           ) : engine.vendorType === 'openai' ? (
             <OpenAIParameters engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
           ) : (
@@ -163,26 +165,31 @@ function ManualCredentials({ engine, credentials, onUpdate, advancedOn }: {
   }, [credentials, onUpdate]);
 
   // const keyDescription = vendorType === 'deepgram' ? 'Deepgram' : 'OpenAI';
-  const hostDefault = vendorType === 'deepgram' ? 'https://api.deepgram.com' : 'https://api.openai.com';
+  const hostDefault = vendorType === 'deepgram' ? 'https://api.deepgram.com'
+    : vendorType === 'localwhisper' ? ASRX_DEFAULTS.LOCALWHISPER_HOST
+      : 'https://api.openai.com';
+
+  // local servers: the host is what matters, the key is rarely needed
+  const hostRequired = vendorType === 'localwhisper';
 
   return <>
 
     <FormSecretField
       autoCompleteId={`asrx-${vendorType}-key`}
       title='API Key'
-      // description={keyDescription}
+      description={hostRequired ? 'Optional' : undefined}
       value={credentials.apiKey}
       onChange={value => handleCredentialsUpdate({ apiKey: value })}
-      required
+      required={!hostRequired}
       startDecorator={credentials.apiKey ? false : undefined}
       inputSx={{ maxWidth: 210 }}
     />
 
-    {advancedOn && (
+    {(advancedOn || hostRequired) && (
       <FormTextField
         autoCompleteId={`asrx-${vendorType}-host`}
         title='API Host'
-        description='Optional'
+        description={hostRequired ? 'Required' : 'Optional'}
         value={credentials.apiHost ?? ''}
         onChange={text => handleCredentialsUpdate({ apiHost: text || undefined })}
         placeholder={hostDefault}
@@ -247,6 +254,79 @@ function DeepgramParameters({ engine, onUpdate }: {
       onChange={checked => handleProfileUpdate({ diarize: checked || undefined })}
     />
 
+    <FormSwitchControl
+      title='Timestamps'
+      description='Timed utterances, for audio attachments'
+      checked={!!profile.utterances}
+      onChange={checked => handleProfileUpdate({ utterances: checked || undefined })}
+    />
+
+  </>;
+}
+
+
+// --- Local Whisper parameters ---
+
+function LocalWhisperParameters({ engine, onUpdate, isMobile }: {
+  engine: DASRxEngine<'localwhisper'>;
+  onUpdate: (updates: Partial<DASRxEngineAny>) => void;
+  isMobile: boolean;
+}) {
+
+  const { profile } = engine;
+
+  const handleProfileUpdate = React.useCallback((patch: Partial<DProfileLocalWhisper>) => {
+    onUpdate({ profile: { ...profile, ...patch } });
+  }, [onUpdate, profile]);
+
+  return <>
+
+    {/* Model - free-form, as named by the server */}
+    <FormTextField
+      autoCompleteId='asrx-localwhisper-model'
+      title='Model'
+      description={isMobile ? undefined : 'As named by the server'}
+      placeholder={ASRX_DEFAULTS.LOCALWHISPER_MODEL}
+      value={profile.asrModel ?? ''}
+      onChange={text => handleProfileUpdate({ asrModel: text || undefined })}
+      inputSx={{ maxWidth: 210 }}
+    />
+
+    {/* Language */}
+    <FormTextField
+      autoCompleteId='asrx-localwhisper-language'
+      title='Language'
+      description={isMobile ? undefined : 'ISO-639-1, blank = auto'}
+      placeholder='(auto-detect)'
+      value={profile.language ?? ''}
+      onChange={text => handleProfileUpdate({ language: text || undefined })}
+      inputSx={{ maxWidth: 210 }}
+    />
+
+    {/* Prompt */}
+    <FormTextField
+      autoCompleteId='asrx-localwhisper-prompt'
+      title='Prompt'
+      description={isMobile ? undefined : 'Vocabulary / style hint'}
+      placeholder='Optional - e.g. names or jargon'
+      value={profile.prompt ?? ''}
+      onChange={text => handleProfileUpdate({ prompt: text || undefined })}
+      inputSx={{ maxWidth: 210 }}
+    />
+
+    {/* Temperature */}
+    <FormSliderControl
+      title='Temperature'
+      description={(profile.temperature ?? 0).toFixed(1)}
+      min={0}
+      max={1}
+      step={0.1}
+      value={profile.temperature ?? 0}
+      onChange={value => handleProfileUpdate({ temperature: value || undefined })}
+      valueLabelDisplay={profile.temperature ? 'on' : 'auto'}
+      sliderSx={{ maxWidth: 220, my: -0.5 }}
+    />
+
   </>;
 }
 
@@ -13,6 +13,7 @@ import * as React from 'react';
 import { Box, IconButton, ListItemDecorator, MenuItem, Option, Select, Typography } from '@mui/joy';
 // import AutoModeIcon from '@mui/icons-material/AutoMode';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import DnsRoundedIcon from '@mui/icons-material/DnsRounded';
 import GraphicEqRoundedIcon from '@mui/icons-material/GraphicEqRounded';
 import KeyIcon from '@mui/icons-material/Key';
 import LinkIcon from '@mui/icons-material/Link';
@@ -36,6 +37,11 @@ const VENDOR_INFO: { [key in DASRxVendorType]: { label: string; description: str
     description: 'Specialized ASR, fast',
     icon: GraphicEqRoundedIcon,
   },
+  localwhisper: {
+    label: 'Local Whisper',
+    description: 'whisper.cpp, faster-whisper',
+    icon: DnsRoundedIcon,
+  },
   openai: {
     label: 'OpenAI',
     description: 'Whisper / GPT-4o transcribe',
@@ -12,7 +12,7 @@
  */
 
 
-export type ASRxAccess = ASRxAccess_Deepgram | ASRxAccess_OpenAI;
+export type ASRxAccess = ASRxAccess_Deepgram | ASRxAccess_LocalWhisper | ASRxAccess_OpenAI;
 
 export interface ASRxAccess_Deepgram {
   dialect: 'deepgram';
@@ -20,6 +20,12 @@ export interface ASRxAccess_Deepgram {
   apiHost?: string;   // defaults to api.deepgram.com
 }
 
+export interface ASRxAccess_LocalWhisper {
+  dialect: 'localwhisper';
+  apiKey?: string;    // local servers rarely require one
+  apiHost: string;    // the server origin, e.g. http://localhost:8080
+}
+
 export interface ASRxAccess_OpenAI {
   dialect: 'openai';
   apiKey?: string;    // required for hosted openai.com; optional for compat proxies
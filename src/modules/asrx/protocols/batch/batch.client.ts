@@ -12,13 +12,14 @@
  * the key never leaves the browser except to go to the vendor.
  */
 
+import type { DLocalAIServiceSettings } from '~/modules/llms/vendors/localai/localai.vendor';
 import type { DOpenAIServiceSettings } from '~/modules/llms/vendors/openai/openai.vendor';
 
 import { findModelsServiceOrNull } from '~/common/stores/llms/store-llms';
 
 import type { ASRxBatchResult, ASRxProfileSelector, ASRxTranscribeBatchOptions, DASRxEngineAny, DASRxProfileAny } from '../../asrx.types';
 import type { ASRxAccess } from './batch.access';
-import { ASRX_DEBUG } from '../../asrx.config';
+import { ASRX_DEBUG, ASRX_DEFAULTS } from '../../asrx.config';
 import { asrxAreCredentialsValid, asrxFindEngineById, asrxFindGlobalEngine, asrxFindValidEngineByType } from '../../store-module-asrx';
 
 
@@ -48,15 +49,15 @@ export async function asrxTranscribeBatch(
 ): Promise<ASRxBatchResult> {
 
   // 1. Resolve engine
-  const engine = _engineFromSelector(selector);
+  const engine = asrxEngineFromSelector(selector);
   if (!engine)
     return { success: false, errorType: 'asr-no-engine', errorText: 'No ASR engine configured. Please configure a transcription engine in Settings.' };
 
   // 2. Apply profile override from selector (if provided and dialect matches)
-  const effectiveEngine = _engineApplyProfileOverride(engine, selector);
+  const effectiveEngine = asrxEngineApplyProfileOverride(engine, selector);
 
   // 3. Build wire access from credentials (dereferences 'llms-service')
-  const access = _buildBatchWireAccess(effectiveEngine);
+  const access = asrxBuildWireAccess(effectiveEngine);
   if (!access)
     return { success: false, errorType: 'asr-unconfigured', errorText: `Failed to resolve credentials for engine ${effectiveEngine.engineId}` };
 
@@ -87,6 +88,7 @@ export async function asrxTranscribeBatch(
       ...(output.language ? { language: output.language } : {}),
       ...(output.confidence !== undefined ? { confidence: output.confidence } : {}),
       ...(output.durationMs !== undefined ? { durationMs: output.durationMs } : {}),
+      ...(output.segments?.length ? { segments: output.segments } : {}),
     };
   } catch (error: any) {
     // abort -> specific error type so callers can distinguish user-stop from failure
@@ -99,9 +101,9 @@ export async function asrxTranscribeBatch(
 }
 
 
-// -- private helpers --
+// -- engine and access resolution, shared with the realtime protocol --
 
-function _engineFromSelector(selector: ASRxProfileSelector): DASRxEngineAny | null {
+export function asrxEngineFromSelector(selector: ASRxProfileSelector): DASRxEngineAny | null {
   if (selector) {
     // A. most specific: engineId
     if ('engineId' in selector && selector.engineId) {
@@ -120,7 +122,7 @@ function _engineFromSelector(selector: ASRxProfileSelector): DASRxEngineAny | nu
   return asrxFindGlobalEngine();
 }
 
-function _engineApplyProfileOverride(engine: DASRxEngineAny, selector: ASRxProfileSelector): DASRxEngineAny {
+export function asrxEngineApplyProfileOverride(engine: DASRxEngineAny, selector: ASRxProfileSelector): DASRxEngineAny {
   if (!selector || !('profile' in selector) || !selector.profile)
     return engine;
 
@@ -140,7 +142,7 @@ function _engineApplyProfileOverride(engine: DASRxEngineAny, selector: ASRxProfi
  * Dereferences `llms-service` credentials against the live LLM store.
  * Returns null if credentials are unresolvable.
  */
-function _buildBatchWireAccess(engine: DASRxEngineAny): ASRxAccess | null {
+export function asrxBuildWireAccess(engine: DASRxEngineAny): ASRxAccess | null {
   const c = engine.credentials;
 
   // Credential validity precheck - saves us a downstream vendor error
@@ -157,6 +159,13 @@ function _buildBatchWireAccess(engine: DASRxEngineAny): ASRxAccess | null {
             ...(c.apiHost ? { apiHost: c.apiHost } : {}),
           };
 
+        case 'localwhisper':
+          return {
+            dialect: 'localwhisper',
+            ...(c.apiKey ? { apiKey: c.apiKey } : {}),
+            apiHost: c.apiHost || ASRX_DEFAULTS.LOCALWHISPER_HOST,
+          };
+
         case 'openai':
           return {
             dialect: 'openai',
@@ -170,10 +179,29 @@ function _buildBatchWireAccess(engine: DASRxEngineAny): ASRxAccess | null {
       }
 
     case 'llms-service':
-      // Only OpenAI supports llms-service linking (Deepgram credentials are forced api-key by _TypeMap)
-      if (engine.vendorType !== 'openai') return null;
+      // Deepgram credentials are forced api-key by _TypeMap
+      if (engine.vendorType === 'deepgram') return null;
       const service = findModelsServiceOrNull(c.serviceId);
       if (!service) return null;
+
+      // Local Whisper: linked from LocalAI, or from a local OpenAI-compatible service
+      if (engine.vendorType === 'localwhisper') {
+        if (service.vId === 'localai') {
+          const lai = (service.setup || {}) as Partial<DLocalAIServiceSettings>;
+          return {
+            dialect: 'localwhisper',
+            ...(lai.localAIKey ? { apiKey: lai.localAIKey } : {}),
+            apiHost: lai.localAIHost || ASRX_DEFAULTS.LOCALWHISPER_HOST,
+          };
+        }
+        const loai = (service.setup || {}) as Partial<DOpenAIServiceSettings>;
+        return {
+          dialect: 'localwhisper',
+          ...(loai.oaiKey ? { apiKey: loai.oaiKey } : {}),
+          apiHost: loai.oaiHost || ASRX_DEFAULTS.LOCALWHISPER_HOST,
+        };
+      }
+
       const oai = (service.setup || {}) as Partial<DOpenAIServiceSettings>;
       return {
         dialect: 'openai',
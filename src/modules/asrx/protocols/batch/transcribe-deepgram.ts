@@ -5,6 +5,7 @@
  * Auth:     Authorization: Token {apiKey}
  * Body:     raw audio bytes (Content-Type = mimeType)
  * Response: json.results.channels[0].alternatives[0].transcript
+ *           json.results.utterances[] - timed (and with diarization, per-speaker) segments, with `utterances=true`
  *
  * Query parameters carry the profile (model, language, smart_format, ...).
  */
@@ -27,6 +28,12 @@ interface DeepgramWire_Listen_Response {
       }>;
       detected_language?: string;    // some responses
     }>;
+    utterances?: Array<{
+      start?: number;                 // seconds
+      end?: number;                   // seconds
+      transcript?: string;
+      speaker?: number;               // with diarize=true
+    }>;
   };
   metadata?: {
     duration?: number;                // seconds
@@ -115,15 +122,25 @@ export const transcribeDeepgram: TranscribeBackendFn<ASRxAccess_Deepgram> = asyn
     || json.results?.channels?.[0]?.detected_language
     || primary?.languages?.[0];
 
+  const segments = (json.results?.utterances || [])
+    .filter(u => !!u.transcript?.trim())
+    .map(u => ({
+      startMs: Math.round((u.start ?? 0) * 1000),
+      ...(u.end !== undefined ? { endMs: Math.round(u.end * 1000) } : {}),
+      ...(u.speaker !== undefined ? { speaker: u.speaker } : {}),
+      text: u.transcript!.trim(),
+    }));
+
   const result: ASRxCoreTranscribeResult = {
     text,
     model: `deepgram/${model}`,
     ...(detectedLanguage ? { language: detectedLanguage } : {}),
     ...(confidence !== undefined ? { confidence } : {}),
     durationMs: Date.now() - started,
+    ...(segments.length ? { segments } : {}),
   };
 
-  if (ASRX_DEBUG) console.log('[ASRx][Deepgram] response', { chars: text.length, confidence, detectedLanguage });
+  if (ASRX_DEBUG) console.log('[ASRx][Deepgram] response', { chars: text.length, confidence, detectedLanguage, segments: segments.length });
 
   return result;
 };
@@ -6,10 +6,11 @@
  * Body:     multipart/form-data with file + model + options
  * Response: json.text (simple) - `response_format=json` is the default
  *
- * Compatible with OpenAI-compatible proxies that implement the same endpoint.
+ * Compatible with OpenAI-compatible proxies that implement the same endpoint, and with
+ * local Whisper servers (whisper.cpp server, faster-whisper), through `transcribeLocalWhisper`.
  */
 
-import type { ASRxAccess_OpenAI } from './batch.access';
+import type { ASRxAccess_LocalWhisper, ASRxAccess_OpenAI } from './batch.access';
 import type { ASRxCoreTranscribeResult, TranscribeBackendFn } from './transcribe.core';
 
 import { ASRX_DEBUG, ASRX_DEFAULTS } from '../../asrx.config';
@@ -32,9 +33,61 @@ export const transcribeOpenAI: TranscribeBackendFn<ASRxAccess_OpenAI> = async (p
   if (access.dialect !== 'openai' || profile.dialect !== 'openai')
     throw new Error('Mismatched dialect in OpenAI transcribe');
 
+  // Auth - required for api.openai.com, optional for local/proxy hosts
+  const usingDefaultHost = !access.apiHost || access.apiHost.includes('openai.com');
+  if (usingDefaultHost && !access.apiKey)
+    throw new Error('Missing OpenAI API key');
+
+  return _transcribeOpenAICompatible('OpenAI', 'openai', {
+    host: access.apiHost || ASRX_DEFAULTS.OPENAI_HOST,
+    apiKey: access.apiKey,
+    apiOrgId: access.apiOrgId,
+    model: profile.asrModel || ASRX_DEFAULTS.OPENAI_MODEL,
+    language: languageCode ?? profile.language,
+    prompt: profile.prompt,
+    temperature: profile.temperature,
+  }, audio, mimeType, signal);
+};
+
+
+/**
+ * Local Whisper servers: whisper.cpp server, faster-whisper servers (Speaches), LocalAI.
+ * Same endpoint and body; the host is required and the key optional.
+ */
+export const transcribeLocalWhisper: TranscribeBackendFn<ASRxAccess_LocalWhisper> = async (params) => {
+
+  const { access, profile, audio, mimeType, languageCode, signal } = params;
+
+  if (access.dialect !== 'localwhisper' || profile.dialect !== 'localwhisper')
+    throw new Error('Mismatched dialect in Local Whisper transcribe');
+
+  if (!access.apiHost)
+    throw new Error('Missing Local Whisper server host');
+
+  return _transcribeOpenAICompatible('Local Whisper', 'localwhisper', {
+    host: access.apiHost,
+    apiKey: access.apiKey,
+    model: profile.asrModel || ASRX_DEFAULTS.LOCALWHISPER_MODEL,
+    language: languageCode ?? profile.language,
+    prompt: profile.prompt,
+    temperature: profile.temperature,
+  }, audio, mimeType, signal);
+};
+
+
+async function _transcribeOpenAICompatible(
+  vendorName: string,
+  vendorType: 'openai' | 'localwhisper',
+  request: { host: string; apiKey?: string; apiOrgId?: string; model: string; language?: string; prompt?: string; temperature?: number },
+  audio: Uint8Array,
+  mimeType: string,
+  signal?: AbortSignal,
+): Promise<ASRxCoreTranscribeResult> {
+
+  const { apiKey, apiOrgId, model, language, prompt, temperature } = request;
 
   // Resolve host
-  let host = (access.apiHost || ASRX_DEFAULTS.OPENAI_HOST).trim();
+  let host = request.host.trim();
   if (!host.startsWith('http'))
     host = `https://${host}`;
   if (host.endsWith('/'))
@@ -42,31 +95,22 @@ export const transcribeOpenAI: TranscribeBackendFn<ASRxAccess_OpenAI> = async (p
 
   const url = `${host}/v1/audio/transcriptions`;
 
-  // Auth - required for api.openai.com, optional for local/proxy hosts
-  const usingDefaultHost = !access.apiHost || access.apiHost.includes('openai.com');
-  if (usingDefaultHost && !access.apiKey)
-    throw new Error('Missing OpenAI API key');
-
   const headers: HeadersInit = {
-    ...(access.apiKey ? { 'Authorization': `Bearer ${access.apiKey.trim()}` } : {}),
-    ...(access.apiOrgId ? { 'OpenAI-Organization': access.apiOrgId } : {}),
+    ...(apiKey ? { 'Authorization': `Bearer ${apiKey.trim()}` } : {}),
+    ...(apiOrgId ? { 'OpenAI-Organization': apiOrgId } : {}),
     // NOTE: do NOT set Content-Type here - the browser sets it with the multipart boundary
   };
 
-  // Resolve model
-  const model = profile.asrModel || ASRX_DEFAULTS.OPENAI_MODEL;
-  const language = languageCode ?? profile.language;
-
   // Build multipart body
   const formData = new FormData();
   formData.append('file', new Blob([audio as BlobPart], { type: mimeType }), _fileNameForMime(mimeType));
   formData.append('model', model);
   if (language) formData.append('language', language);
-  if (profile.prompt) formData.append('prompt', profile.prompt);
-  if (profile.temperature !== undefined) formData.append('temperature', String(profile.temperature));
+  if (prompt) formData.append('prompt', prompt);
+  if (temperature !== undefined) formData.append('temperature', String(temperature));
   // Default response_format = 'json' - fields: text. We don't request verbose_json here.
 
-  if (ASRX_DEBUG) console.log('[ASRx][OpenAI] POST', { url, model, language, bytes: audio.byteLength });
+  if (ASRX_DEBUG) console.log(`[ASRx][${vendorName}] POST`, { url, model, language, bytes: audio.byteLength });
 
 
   // Fetch
@@ -80,12 +124,12 @@ export const transcribeOpenAI: TranscribeBackendFn<ASRxAccess_OpenAI> = async (p
       signal,
     });
   } catch (error: any) {
-    throw new Error(`OpenAI fetch failed: ${error?.message || 'Unknown error'}`);
+    throw new Error(`${vendorName} fetch failed: ${error?.message || 'Unknown error'}`);
   }
 
   if (!response.ok) {
     const errorText = await response.text().catch(() => '');
-    throw new Error(`OpenAI ${response.status}: ${errorText || response.statusText}`);
+    throw new Error(`${vendorName} ${response.status}: ${errorText || response.statusText}`);
   }
 
   // Parse
@@ -93,21 +137,21 @@ export const transcribeOpenAI: TranscribeBackendFn<ASRxAccess_OpenAI> = async (p
   try {
     json = await response.json();
   } catch (error: any) {
-    throw new Error(`OpenAI response parse failed: ${error?.message || 'Unknown error'}`);
+    throw new Error(`${vendorName} response parse failed: ${error?.message || 'Unknown error'}`);
   }
 
   const text = json.text ?? '';
   const result: ASRxCoreTranscribeResult = {
     text,
-    model: `openai/${model}`,
+    model: `${vendorType}/${model}`,
     ...(json.language ? { language: json.language } : {}),
     durationMs: Date.now() - started,
   };
 
-  if (ASRX_DEBUG) console.log('[ASRx][OpenAI] response', { chars: text.length, language: json.language });
+  if (ASRX_DEBUG) console.log(`[ASRx][${vendorName}] response`, { chars: text.length, language: json.language });
 
   return result;
-};
+}
 
 
 // Helper - derive a filename with a useful extension from the MIME type (OpenAI infers format from filename)
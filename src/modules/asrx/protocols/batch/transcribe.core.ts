@@ -8,9 +8,9 @@
  */
 
 import type { ASRxAccess } from './batch.access';
-import type { DASRxProfileAny } from '../../asrx.types';
+import type { ASRxTranscriptSegment, DASRxProfileAny } from '../../asrx.types';
 import { transcribeDeepgram } from './transcribe-deepgram';
-import { transcribeOpenAI } from './transcribe-openai';
+import { transcribeLocalWhisper, transcribeOpenAI } from './transcribe-openai';
 
 
 // Result shape returned by every vendor adapter (internal to the batch protocol).
@@ -21,6 +21,7 @@ export interface ASRxCoreTranscribeResult {
   language?: string;        // detected or confirmed language, when provided by the vendor
   confidence?: number;      // 0..1, when provided
   durationMs?: number;      // client-measured round-trip (or vendor-reported)
+  segments?: ASRxTranscriptSegment[]; // timed segments, when provided
 }
 
 
@@ -59,6 +60,11 @@ export async function asrxBatchCoreTranscribe(params: {
         throw new Error(`Profile dialect '${profile.dialect}' does not match access dialect 'deepgram'`);
       return await transcribeDeepgram({ access, profile, audio, mimeType, languageCode, signal });
 
+    case 'localwhisper':
+      if (profile.dialect !== 'localwhisper')
+        throw new Error(`Profile dialect '${profile.dialect}' does not match access dialect 'localwhisper'`);
+      return await transcribeLocalWhisper({ access, profile, audio, mimeType, languageCode, signal });
+
     case 'openai':
       if (profile.dialect !== 'openai')
         throw new Error(`Profile dialect '${profile.dialect}' does not match access dialect 'openai'`);
@@ -0,0 +1,90 @@
+/**
+ * ASRx Realtime Client - public `asrxTranscribeRealtime()` entry point.
+ *
+ * Resolves the engine and the access as the batch client does, then opens a
+ * streaming session with the vendor: the caller sends audio chunks as they are
+ * captured, and receives interim and final transcripts while the user talks.
+ *
+ * As for batch, the browser talks directly to the vendor (CSF). Deepgram's live
+ * WebSocket API is the only implementation so far.
+ */
+
+import type { ASRxProfileSelector, ASRxRealtimeStartResult, ASRxTranscribeRealtimeOptions } from '../../asrx.types';
+import { ASRX_DEBUG } from '../../asrx.config';
+import { asrxBuildWireAccess, asrxEngineApplyProfileOverride, asrxEngineFromSelector } from '../batch/batch.client';
+import { asrxFindVendor } from '../../asrx.vendors-registry';
+
+
+// --- CSF: cached dynamic import for client-side streaming, unbundled ---
+
+let _asrxDeepgramLiveModule: typeof import('./transcribe-deepgram-live') | null = null;
+
+async function _getASRxDeepgramLiveModule() {
+  if (!_asrxDeepgramLiveModule)
+    _asrxDeepgramLiveModule = await import('./transcribe-deepgram-live');
+  return _asrxDeepgramLiveModule;
+}
+
+
+/**
+ * Opens a realtime transcription session through the resolved ASRx engine.
+ *
+ * Never throws - failures to start are returned; failures during the session
+ * arrive as an 'error' event, followed by 'close'.
+ */
+export async function asrxTranscribeRealtime(
+  selector: ASRxProfileSelector,
+  options: ASRxTranscribeRealtimeOptions,
+): Promise<ASRxRealtimeStartResult> {
+
+  // 1. Resolve engine, and check that the vendor streams
+  const engine = asrxEngineFromSelector(selector);
+  if (!engine)
+    return { success: false, errorType: 'asr-no-engine', errorText: 'No ASR engine configured. Please configure a transcription engine in Settings.' };
+  if (!asrxFindVendor(engine.vendorType)?.protocols.has('realtime'))
+    return { success: false, errorType: 'asr-unconfigured', errorText: `${engine.label} does not support realtime transcription.` };
+
+  // 2. Apply profile override from selector (if provided and dialect matches)
+  const effectiveEngine = asrxEngineApplyProfileOverride(engine, selector);
+
+  // 3. Build wire access from credentials
+  const access = asrxBuildWireAccess(effectiveEngine);
+  if (!access)
+    return { success: false, errorType: 'asr-unconfigured', errorText: `Failed to resolve credentials for engine ${effectiveEngine.engineId}` };
+
+  if (ASRX_DEBUG) console.log('[ASRx] realtime request', {
+    engineId: effectiveEngine.engineId,
+    vendor: effectiveEngine.vendorType,
+    language: options.languageCode,
+  });
+
+  // 4. Connect via CSF: direct browser -> vendor API
+  try {
+    switch (access.dialect) {
+      case 'deepgram':
+        if (effectiveEngine.profile.dialect !== 'deepgram')
+          throw new Error(`Profile dialect '${effectiveEngine.profile.dialect}' does not match access dialect 'deepgram'`);
+        const { transcribeDeepgramLive } = await _getASRxDeepgramLiveModule();
+        return {
+          success: true,
+          session: transcribeDeepgramLive({
+            access,
+            profile: effectiveEngine.profile,
+            languageCode: options.languageCode,
+            onEvent: options.onEvent,
+          }),
+        };
+
+      case 'localwhisper':
+      case 'openai':
+        return { success: false, errorType: 'asr-unconfigured', errorText: `${effectiveEngine.label} realtime transcription is not supported yet.` };
+
+      default:
+        const _exhaustiveCheck: never = access;
+        return { success: false, errorType: 'asr-unconfigured', errorText: `Unknown ASRx dialect: ${(access as any)?.dialect}` };
+    }
+  } catch (error: any) {
+    if (ASRX_DEBUG) console.error('[ASRx] realtime error', error);
+    return { success: false, errorType: 'asr-exception', errorText: error?.message || 'Realtime transcription failed' };
+  }
+}
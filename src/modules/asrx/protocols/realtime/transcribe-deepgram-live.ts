@@ -0,0 +1,179 @@
+/**
+ * Deepgram live (streaming) transcription adapter.
+ *
+ * Endpoint: WebSocket {host}/v1/listen
+ * Auth:     Sec-WebSocket-Protocol: token, {apiKey} - browsers cannot set headers on WebSockets
+ * Upload:   binary messages with containerized audio (webm/opus from MediaRecorder), as captured
+ * Control:  {"type":"KeepAlive"} while idle, {"type":"CloseStream"} to flush and close
+ * Receive:  Results (interim and final), SpeechStarted, UtteranceEnd, Metadata
+ *
+ * Query parameters carry the profile (model, language, smart_format, ...), as for batch.
+ */
+
+import type { ASRxAccess_Deepgram } from '../batch/batch.access';
+import type { ASRxRealtimeEvent, ASRxRealtimeSession, DProfileDeepgram } from '../../asrx.types';
+import { ASRX_DEBUG, ASRX_DEFAULTS } from '../../asrx.config';
+
+
+// configuration
+const DEEPGRAM_LIVE_ENDPOINTING_MS = 300;     // silence that marks a pause (speech_final)
+const DEEPGRAM_LIVE_UTTERANCE_END_MS = 1000;  // gap between words that marks the end of an utterance (min 1000)
+const DEEPGRAM_LIVE_KEEPALIVE_MS = 8000;      // the server closes after 10s without audio
+
+
+// Upstream Deepgram messages (only the fields we read)
+
+type DeepgramWire_Live_Message =
+  | {
+      type: 'Results';
+      is_final?: boolean;
+      speech_final?: boolean;
+      channel?: { alternatives?: Array<{ transcript?: string; confidence?: number }> };
+    }
+  | { type: 'SpeechStarted' }
+  | { type: 'UtteranceEnd' }
+  | { type: 'Metadata' };
+
+
+export function transcribeDeepgramLive(params: {
+  access: ASRxAccess_Deepgram;
+  profile: DProfileDeepgram;
+  languageCode?: string;
+  onEvent: (event: ASRxRealtimeEvent) => void;
+}): ASRxRealtimeSession {
+
+  const { access, profile, languageCode, onEvent } = params;
+
+  // Resolve host: https -> wss
+  let host = (access.apiHost || ASRX_DEFAULTS.DEEPGRAM_HOST).trim();
+  if (!host.startsWith('http') && !host.startsWith('ws'))
+    host = `https://${host}`;
+  host = host.replace(/^http/, 'ws');
+  if (host.endsWith('/'))
+    host = host.slice(0, -1);
+
+  // Resolve model (default to config)
+  const model = profile.asrModel || ASRX_DEFAULTS.DEEPGRAM_MODEL;
+
+  // Build query params
+  const queryParams = new URLSearchParams();
+  queryParams.set('model', model);
+
+  const language = languageCode ?? profile.language ?? ASRX_DEFAULTS.DEEPGRAM_LANGUAGE;
+  if (language) queryParams.set('language', language);
+
+  if (profile.smartFormat !== undefined) queryParams.set('smart_format', String(profile.smartFormat));
+  if (profile.diarize !== undefined) queryParams.set('diarize', String(profile.diarize));
+  if (profile.keywords?.length)
+    for (const kw of profile.keywords) queryParams.append('keywords', kw);
+
+  queryParams.set('interim_results', 'true');
+  queryParams.set('endpointing', String(DEEPGRAM_LIVE_ENDPOINTING_MS));
+  queryParams.set('utterance_end_ms', String(DEEPGRAM_LIVE_UTTERANCE_END_MS));
+  queryParams.set('vad_events', 'true');
+
+  const url = `${host}/v1/listen?${queryParams.toString()}`;
+  if (ASRX_DEBUG) console.log('[ASRx][Deepgram] WebSocket', { url });
+
+
+  // Connect
+  const socket = new WebSocket(url, ['token', access.apiKey.trim()]);
+  const pendingAudio: Blob[] = [];
+  let keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  let finishRequested = false;
+  let errorEmitted = false;
+  let closed = false;
+
+  const _emitError = (errorText: string) => {
+    if (errorEmitted || closed) return;
+    errorEmitted = true;
+    onEvent({ type: 'error', errorType: 'asr-error', errorText });
+  };
+
+  const _emitClose = () => {
+    if (closed) return;
+    closed = true;
+    if (keepAliveTimer) clearInterval(keepAliveTimer);
+    keepAliveTimer = null;
+    onEvent({ type: 'close' });
+  };
+
+  socket.onopen = () => {
+    onEvent({ type: 'open' });
+    for (const chunk of pendingAudio.splice(0))
+      socket.send(chunk);
+    if (finishRequested)
+      socket.send(JSON.stringify({ type: 'CloseStream' }));
+    keepAliveTimer = setInterval(() => {
+      if (socket.readyState === WebSocket.OPEN)
+        socket.send(JSON.stringify({ type: 'KeepAlive' }));
+    }, DEEPGRAM_LIVE_KEEPALIVE_MS);
+  };
+
+  socket.onmessage = (event: MessageEvent) => {
+    if (closed || typeof event.data !== 'string') return;
+    let message: DeepgramWire_Live_Message;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    switch (message.type) {
+      case 'Results':
+        const text = message.channel?.alternatives?.[0]?.transcript ?? '';
+        const isFinal = !!message.is_final;
+        const speechFinal = !!message.speech_final;
+        // empty interims carry no news; empty finals may still mark the pause
+        if (text || speechFinal)
+          onEvent({ type: 'transcript', text, isFinal, speechFinal });
+        break;
+      case 'SpeechStarted':
+        onEvent({ type: 'speech-start' });
+        break;
+      case 'UtteranceEnd':
+        onEvent({ type: 'utterance-end' });
+        break;
+    }
+  };
+
+  socket.onerror = () => {
+    // the browser hides the details: the close event may tell more
+    if (ASRX_DEBUG) console.error('[ASRx][Deepgram] WebSocket error');
+  };
+
+  socket.onclose = (event: CloseEvent) => {
+    if (ASRX_DEBUG) console.log('[ASRx][Deepgram] WebSocket close', { code: event.code, reason: event.reason });
+    // 1000: normal closure, after CloseStream
+    if (event.code !== 1000 && !(finishRequested && event.code === 1005))
+      _emitError(event.reason
+        ? `Deepgram ${event.code}: ${event.reason}`
+        : `Deepgram connection failed (${event.code}). Please check the API key and the network.`);
+    _emitClose();
+  };
+
+
+  return {
+    model: `deepgram/${model}`,
+
+    sendAudio: (chunk: Blob) => {
+      if (closed || finishRequested || !chunk.size) return;
+      if (socket.readyState === WebSocket.CONNECTING)
+        pendingAudio.push(chunk);
+      else if (socket.readyState === WebSocket.OPEN)
+        socket.send(chunk);
+    },
+
+    finish: () => {
+      if (closed || finishRequested) return;
+      finishRequested = true;
+      if (socket.readyState === WebSocket.OPEN)
+        socket.send(JSON.stringify({ type: 'CloseStream' }));
+    },
+
+    close: () => {
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN)
+        socket.close(1000);
+      _emitClose();
+    },
+  };
+}
@@ -8,7 +8,7 @@ import { agiUuidV4 } from '~/common/util/idUtils';
 import { useModelsStore } from '~/common/stores/llms/store-llms';
 
 import type { DASRxEngineId, DASRxCredentialsAny, DASRxEngine, DASRxEngineAny, DASRxVendorType } from './asrx.types';
-import { asrxFindByVendorPriorityAsc, asrxFindVendor, asrxFindVendorForLLMVendor } from './asrx.vendors-registry';
+import { asrxFindByVendorPriorityAsc, asrxFindVendor, asrxFindVendorForLLMSource } from './asrx.vendors-registry';
 
 
 interface ASRxStoreState {
@@ -132,18 +132,16 @@ export const useASRxStore = create<ASRxStore>()(persist(
 
       // restore or create auto-linked engines
       for (const source of llmsSources) {
-        const vendor = asrxFindVendorForLLMVendor(source.vId);
+        // includes secondary qualifiers: e.g. OpenAI opts out when the LLM service uses a custom host
+        // (likely an OpenAI-compatible proxy that doesn't implement transcription), unless local
+        const vendor = asrxFindVendorForLLMSource(source);
         if (!vendor) continue;
 
-        // secondary qualifier: e.g. OpenAI opts out when the LLM service uses a custom host
-        // (likely an OpenAI-compatible proxy that doesn't implement transcription)
-        if (vendor.shouldAutoLinkFromLLMSource && !vendor.shouldAutoLinkFromLLMSource(source)) continue;
-
-        // check if we already have an auto-linked engine for this service
+        // check if we already have an auto-linked engine for this service (and vendor, which follows the host)
         let existing: DASRxEngineAny | undefined;
         for (const engineId in engines) {
           const e = engines[engineId];
-          if (e.isAutoLinked && e.credentials?.type === 'llms-service' && e.credentials.serviceId === source.id) {
+          if (e.isAutoLinked && e.vendorType === vendor.vendorType && e.credentials?.type === 'llms-service' && e.credentials.serviceId === source.id) {
             existing = e;
             break;
           }
@@ -190,12 +188,13 @@ export const useASRxStore = create<ASRxStore>()(persist(
 
   }), {
     name: 'app-module-asrx',
-    version: 2,
+    version: 3,
 
     // 2: auto-link now requires a client-side key (CSF-only) - force one re-sync so
     //    stale keyless auto-linked engines get re-evaluated and soft-deleted
+    // 3: Local Whisper auto-links from local LLM services - force one re-sync as well
     migrate: (state: unknown, fromVersion) => {
-      if (fromVersion < 2 && state)
+      if (fromVersion < 3 && state)
         return { ...state, hasInitializedLlms: false };
       return state;
     },
@@ -236,6 +235,10 @@ export function useASRxGlobalEngine(): DASRxEngineAny | null {
   return useASRxStore(asrxFindGlobalEngine);
 }
 
+export function useASRxRealtimeEngine(): DASRxEngineAny | null {
+  return useASRxStore(asrxFindRealtimeEngine);
+}
+
 
 // --- Getters ---
 
@@ -268,7 +271,7 @@ export function asrxFindGlobalEngine({ engines, activeEngineId }: ASRxStore = us
   // B. priority fallback: prefer engines with valid credentials, but return any
   //    non-deleted engine as a last resort so the UI doesn't spuriously go to
   //    "no engine" after a deletion when an unconfigured engine remains. The
-  //    transcription path rejects invalid credentials separately in _buildBatchWireAccess.
+  //    transcription path rejects invalid credentials separately in asrxBuildWireAccess.
   const validEngines: DASRxEngineAny[] = [];
   const anyEngines: DASRxEngineAny[] = [];
   for (const engineId in engines) {
@@ -280,6 +283,17 @@ export function asrxFindGlobalEngine({ engines, activeEngineId }: ASRxStore = us
   return asrxFindByVendorPriorityAsc(validEngines) ?? asrxFindByVendorPriorityAsc(anyEngines);
 }
 
+/**
+ * The global engine, if it can stream (realtime protocol) with valid credentials - otherwise
+ * the callers fall back to their non-streaming recognition.
+ */
+export function asrxFindRealtimeEngine(state: ASRxStore = useASRxStore.getState()): DASRxEngineAny | null {
+  const engine = asrxFindGlobalEngine(state);
+  if (!engine || !asrxFindVendor(engine.vendorType)?.protocols.has('realtime')) return null;
+  return asrxAreCredentialsValid(engine.credentials) ? engine : null;
+}
+
+
 
 /**
  * Credential validity:
@@ -287,7 +301,7 @@ export function asrxFindGlobalEngine({ engines, activeEngineId }: ASRxStore = us
  * - 'llms-service' passes when the browser has usable credentials (csfAvailable). ASRx
  *   is CSF-only (no server transcription route), so a server-held env key - a legitimate
  *   configuration for chat - cannot transcribe: such services are not auto-linked either
- *   (see shouldAutoLinkFromLLMSource). Keep this strict: _buildBatchWireAccess relies on
+ *   (see shouldAutoLinkFromLLMSource). Keep this strict: asrxBuildWireAccess relies on
  *   it as the dispatch-time credentials gate.
  */
 export function asrxAreCredentialsValid(credentials: DASRxCredentialsAny): boolean {
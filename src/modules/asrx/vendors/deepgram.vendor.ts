@@ -14,7 +14,7 @@ export const ASRxVendorDeepgram: IASRxVendor<'deepgram'> = {
   capabilities: {
     languageDetection: true,
     diarization: true,
-    interimResults: true,   // available via WebSocket realtime (future)
+    interimResults: true,   // via the WebSocket realtime protocol
     wordTimestamps: true,
   },
 
@@ -0,0 +1,45 @@
+import type { DOpenAIServiceSettings } from '~/modules/llms/vendors/openai/openai.vendor';
+
+import { isLocalUrl } from '~/common/util/urlUtils';
+
+import type { IASRxVendor } from '../IASRxVendor';
+import { ASRX_DEFAULTS } from '../asrx.config';
+
+
+export const ASRxVendorLocalWhisper: IASRxVendor<'localwhisper'> = {
+  vendorType: 'localwhisper',
+  name: 'Local Whisper',
+  protocols: new Set(['batch']),
+  priority: 30,
+
+  // Auto-link: LocalAI serves /v1/audio/transcriptions next to chat; OpenAI-compatible
+  // services only when on a local host (native OpenAI hosts link to the OpenAI vendor)
+  autoFromLlmVendorIds: [
+    'localai',
+    'openai',
+  ],
+
+  shouldAutoLinkFromLLMSource: (source) => {
+    if (source.vId === 'localai') return true;
+    return isLocalUrl((source.setup as Partial<DOpenAIServiceSettings> | undefined)?.oaiHost?.trim());
+  },
+
+  capabilities: {
+    languageDetection: false, // the simple json response doesn't return it
+    diarization: false,
+    interimResults: false,    // batch only
+    wordTimestamps: false,
+  },
+
+  getDefaultCredentials: () => ({
+    type: 'api-key',
+    apiKey: '',
+    apiHost: ASRX_DEFAULTS.LOCALWHISPER_HOST,
+  }),
+
+  getDefaultProfile: () => ({
+    dialect: 'localwhisper',
+    asrModel: ASRX_DEFAULTS.LOCALWHISPER_MODEL,
+    // language: undefined -> auto-detect
+  }),
+};
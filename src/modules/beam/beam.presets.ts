@@ -0,0 +1,51 @@
+import * as z from 'zod/v4';
+
+import { jsonFileOpen, jsonFileSave } from '~/common/util/jsonFileUtils';
+import { prettyTimestampForFilenames } from '~/common/util/timeUtils';
+
+import type { BeamConfigSnapshot } from './store-module-beam';
+import { findFusionFactory } from './gather/instructions/beam.gather.factories';
+
+
+// Beam presets file, to share presets across devices and users
+
+const BEAM_PRESETS_FILE_TYPE = 'beam-presets';
+
+const beamPresetsFile_schema = z.object({
+  type: z.literal(BEAM_PRESETS_FILE_TYPE),
+  version: z.literal(1),
+  presets: z.array(z.object({
+    name: z.string(),
+    rayLlmIds: z.array(z.string()),
+    gatherFactoryId: z.string().refine(factoryId => !!findFusionFactory(factoryId), 'Unknown merge method').nullish(),
+    gatherLlmId: z.string().nullish(),
+    rayOverrides: z.array(z.object({
+      label: z.string().optional(),
+      systemInstruction: z.string().optional(),
+      temperature: z.number().min(0).max(2).optional(),
+      reasoningEffort: z.string().optional(),
+    }).nullable()).optional(),
+  })),
+});
+
+
+/**
+ * @throws {DOMException} AbortError if the user closes the save dialog
+ */
+export async function beamPresetsExportToFile(presets: BeamConfigSnapshot[]): Promise<void> {
+  await jsonFileSave(beamPresetsFile_schema, {
+    type: BEAM_PRESETS_FILE_TYPE,
+    version: 1,
+    presets: presets.map(({ id: _id, ...preset }) => preset),
+  }, `beam_presets_${prettyTimestampForFilenames(false)}.json`);
+}
+
+/**
+ * Note: the models of the presets are referenced by id, and may be missing on other devices.
+ * @returns the presets, or null if the user cancelled
+ * @throws {Error} if the file is not a valid presets file
+ */
+export async function beamPresetsImportFromFile(): Promise<Omit<BeamConfigSnapshot, 'id'>[] | null> {
+  const file = await jsonFileOpen(beamPresetsFile_schema, 'The file does not contain Beam presets');
+  return file?.presets ?? null;
+}
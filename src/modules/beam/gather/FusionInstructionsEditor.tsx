@@ -1,24 +1,25 @@
 import * as React from 'react';
 
 import type { SxProps } from '@mui/joy/styles/types';
-import { Box, Divider, Typography } from '@mui/joy';
+import { Box, Checkbox, Divider, Typography } from '@mui/joy';
 
 import { InlineTextarea } from '~/common/components/InlineTextarea';
 
 import type { BeamStoreApi } from '../store-beam.hooks';
-import type { GatherInstruction } from './instructions/GatherInstruction';
 import type { FusionFactorySpec } from './instructions/beam.gather.factories';
 import type { Instruction } from './instructions/beam.gather.execution';
+import { judgeRubricFromText, judgeRubricToText } from './instructions/JudgeInstruction';
 import { useModuleBeamStore } from '../store-module-beam';
 
 
 // Editor for a ChatInstruction
 function EditableChatInstructionPrompt(props: {
   isEditable: boolean,
-  itemKey: keyof GatherInstruction,
-  itemValue: GatherInstruction['systemPrompt'],
+  itemKey: 'systemPrompt' | 'userPrompt' | 'pairwisePrompt' | 'rubric',
+  itemValue: string,
   label: string,
-  onEdit: (update: Partial<GatherInstruction>) => void,
+  onEdit: (update: Partial<Instruction>) => void,
+  parseText?: (text: string) => Partial<Instruction> | null, // for non-text items
 }) {
 
   // state
@@ -31,11 +32,12 @@ function EditableChatInstructionPrompt(props: {
 
   const handleEditCancel = React.useCallback(() => setIsEditing(false), []);
 
-  const { onEdit } = props;
+  const { onEdit, parseText } = props;
   const handleEdit = React.useCallback((text: string) => {
     setIsEditing(false);
-    text && onEdit({ [props.itemKey]: text });
-  }, [onEdit, props.itemKey]);
+    const update = !text ? null : parseText ? parseText(text) : { [props.itemKey]: text };
+    update && onEdit(update);
+  }, [onEdit, parseText, props.itemKey]);
 
 
   return <>
@@ -80,6 +82,12 @@ function EditableChatInstructionPrompt(props: {
 }
 
 
+function _parseRubricText(text: string): Partial<Instruction> | null {
+  const rubric = judgeRubricFromText(text);
+  return rubric.length ? { rubric } : null;
+}
+
+
 // Editor for any Instruction (specializes the implementation)
 function EditableInstruction(props: {
   instruction: Instruction,
@@ -119,6 +127,42 @@ function EditableInstruction(props: {
         onEdit={handleEditInstructionItem}
       />
     </>
+  ) : (instruction.type === 'judge') ? (
+    <>
+      {gatherShowAllPrompts && (
+        <EditableChatInstructionPrompt
+          isEditable={props.isEditable}
+          itemKey='systemPrompt'
+          itemValue={instruction.systemPrompt}
+          label='System Instruction:'
+          onEdit={handleEditInstructionItem}
+        />
+      )}
+      <EditableChatInstructionPrompt
+        isEditable={props.isEditable}
+        itemKey='rubric'
+        itemValue={judgeRubricToText(instruction.rubric)}
+        label='Rubric (one criterion per line):'
+        onEdit={handleEditInstructionItem}
+        parseText={_parseRubricText}
+      />
+      <Checkbox
+        size='sm'
+        disabled={!props.isEditable}
+        checked={instruction.tournament}
+        onChange={event => handleEditInstructionItem({ tournament: event.target.checked })}
+        label='Pairwise tournament between 5 or more beams'
+      />
+      {gatherShowAllPrompts && instruction.tournament && (
+        <EditableChatInstructionPrompt
+          isEditable={props.isEditable}
+          itemKey='pairwisePrompt'
+          itemValue={instruction.pairwisePrompt}
+          label='Pairwise Instruction:'
+          onEdit={handleEditInstructionItem}
+        />
+      )}
+    </>
   ) : (
     <>
       <Typography level='body-xs' sx={{ minHeight: '2.5rem', display: 'flex', alignItems: 'center' }}>
@@ -10,7 +10,7 @@ import { agiUuid } from '~/common/util/idUtils';
 
 import { CUSTOM_FACTORY_ID, FFactoryId, findFusionFactory, FUSION_FACTORIES, FUSION_FACTORY_DEFAULT } from './instructions/beam.gather.factories';
 import { RootStoreSlice } from '../store-beam_vanilla';
-import { ScatterStoreSlice } from '../scatter/beam.scatter';
+import { BRayJudgement, ScatterStoreSlice } from '../scatter/beam.scatter';
 import { beamMergeStreamedGuts, beamReattachStream } from '../beam.reattach';
 import { gatherStartFusion, gatherStopFusion, Instruction } from './instructions/beam.gather.execution';
 import { updateBeamLastConfig } from '../store-module-beam';
@@ -316,11 +316,16 @@ export const createGatherSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
     // _fusionUpdate(fusion.fusionId, { llmId: currentGatherLlmId });
 
     // start the fusion
-    const { inputHistory, rays, _fusionUpdate } = _get();
+    const { inputHistory, rays, _fusionUpdate, raysSetJudgements } = _get();
     const chatMessages = inputHistory ? [...inputHistory] : [];
-    const rayMessages = rays.map(ray => ray.message).filter(message => !!message.fragments.length);
+    const readyRays = rays.filter(ray => !!ray.message.fragments.length);
+    const rayMessages = readyRays.map(ray => ray.message);
     const onUpdate = (update: FusionUpdateOrFn) => _fusionUpdate(fusion.fusionId, update);
-    gatherStartFusion(fusion, chatMessages, rayMessages, onUpdate);
+    const onRayJudgements = (judgements: BRayJudgement[], winnerIndex: number | null) => raysSetJudgements(
+      Object.fromEntries(judgements.map((judgement, index) => [readyRays[index].rayId, judgement])),
+      winnerIndex !== null ? readyRays[winnerIndex]?.rayId ?? null : null,
+    );
+    gatherStartFusion(fusion, chatMessages, rayMessages, onUpdate, onRayJudgements);
   },
 
   // Gemini Interactions (Deep Research) resume for a merge: re-stream (replay) or one-shot fetch (snapshot)
@@ -0,0 +1,234 @@
+import * as React from 'react';
+import * as z from 'zod/v4';
+
+import { Typography } from '@mui/joy';
+
+import { aixChatGenerateContent_DMessage_FromConversation } from '~/modules/aix/client/aix.client';
+import { bareBonesPromptMixer } from '~/modules/persona/pmix/pmix';
+
+import { createDMessageTextContent, DMessage, messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
+import { createTextContentFragment, isErrorContentFragment, isVoidThinkingFragment } from '~/common/stores/chat/chat.fragments';
+import { getLabsHighPerformance } from '~/common/stores/store-ux-labs';
+
+import type { BaseInstruction, ExecutionInputState } from './beam.gather.execution';
+import type { BRayJudgement } from '../../scatter/beam.scatter';
+
+
+// configuration
+const JUDGE_TOURNAMENT_MIN_RAYS = 5; // with fewer rays, the scores of a single pass decide
+
+
+export interface JudgeCriterion {
+  id: string;
+  label: string;
+  description: string;
+  weight: number;
+}
+
+export interface JudgeInstruction extends BaseInstruction {
+  type: 'judge';
+  rubric: JudgeCriterion[];
+  tournament: boolean; // with many rays, decides the winner with pairwise knockouts, seeded by score
+  systemPrompt: string;
+  userPrompt: string;
+  pairwisePrompt: string;
+}
+
+
+/**
+ * Scores every ray against the rubric with a structured response, then ranks them (optionally with a pairwise
+ * tournament), stores the scores on the rays, and selects the winner. Outputs a summary table.
+ */
+export async function executeJudgeInstruction(_i: JudgeInstruction, inputs: ExecutionInputState, prevStepOutput: string): Promise<string> {
+
+  // validate preconditions
+  if (!_i.rubric.length)
+    throw new Error('The rubric has no criteria');
+  if (inputs.rayMessages.length < 2)
+    throw new Error('Needs two Beams at least');
+  for (let rayMessage of inputs.rayMessages)
+    if (rayMessage.role !== 'assistant')
+      throw new Error('Invalid response role');
+
+  const rayCount = inputs.rayMessages.length;
+  const rubricText = judgeRubricToText(_i.rubric);
+  const chatMessagesWithoutSystem = inputs.chatMessages.filter(_m => (_m.role === 'user' || _m.role === 'assistant'));
+  const rayMessages = inputs.rayMessages.map(_m => ({ ..._m, fragments: _m.fragments.filter(_f => !isVoidThinkingFragment(_f)) }));
+  const mixPrompt = (prompt: string, n: number) => bareBonesPromptMixer(prompt, undefined, {
+    '{{N}}': n.toString(),
+    '{{Rubric}}': rubricText,
+    '{{PrevStepOutput}}': prevStepOutput,
+  });
+
+
+  // 1. Score all the responses at once, so that the scores are relative to each other
+
+  const scoresSchema = z.object({
+    evaluations: z.array(z.object({
+      response: z.number().describe('Number of the response, 1 to N'),
+      scores: z.object(Object.fromEntries(_i.rubric.map(c => [c.id, z.number().describe(`${c.label}, 1-10`)]))),
+      rationale: z.string().describe('One sentence on the strengths and weaknesses'),
+    })),
+  });
+
+  inputs.updateInstructionComponent(_progressText(`Scoring ${rayCount} responses...`));
+  const { evaluations } = await _generateJson(inputs, mixPrompt(_i.systemPrompt, rayCount), [
+    ...chatMessagesWithoutSystem,
+    ...rayMessages,
+    createDMessageTextContent('user', mixPrompt(_i.userPrompt, rayCount)),
+  ], 'beam_judge_scores', scoresSchema);
+  if (!evaluations.length)
+    throw new Error('The judge did not score any response');
+
+  const totalWeight = _i.rubric.reduce((sum, c) => sum + c.weight, 0) || 1;
+  const scored = inputs.rayMessages.map((_m, rayIndex) => {
+    const evaluation = evaluations.find(e => e.response === rayIndex + 1);
+    const criteria = Object.fromEntries(_i.rubric.map(c => [c.id, _clampScore(evaluation?.scores[c.id])]));
+    const weighted = _i.rubric.reduce((sum, c) => sum + c.weight * criteria[c.id], 0) / totalWeight;
+    return {
+      rayIndex,
+      criteria,
+      total: evaluation ? Math.round(10 * weighted) : 0,
+      rationale: evaluation?.rationale?.trim() || undefined,
+      eliminatedInRound: 0, // 0: not in a tournament
+    };
+  });
+
+
+  // 2. Tournament: pairwise knockouts seeded by score, the best seeds facing the worst
+
+  const tournamentLog: string[] = [];
+  if (_i.tournament && rayCount >= JUDGE_TOURNAMENT_MIN_RAYS) {
+    const pairSchema = z.object({
+      winner: z.enum(['A', 'B']).describe('The better response'),
+      reason: z.string().describe('One sentence on why'),
+    });
+
+    let contenders = [...scored].sort((a, b) => b.total - a.total);
+    for (let round = 1; contenders.length > 1; round++) {
+      const advancing: typeof contenders = [];
+      // with an odd count, the top seed advances without a match
+      if (contenders.length % 2)
+        advancing.push(contenders.shift()!);
+      while (contenders.length) {
+        const a = contenders.shift()!;
+        const b = contenders.pop()!;
+        inputs.updateInstructionComponent(_progressText(`Tournament round ${round}: Response ${a.rayIndex + 1} vs. Response ${b.rayIndex + 1}`));
+        const { winner, reason } = await _generateJson(inputs, mixPrompt(_i.systemPrompt, 2), [
+          ...chatMessagesWithoutSystem,
+          rayMessages[a.rayIndex],
+          rayMessages[b.rayIndex],
+          createDMessageTextContent('user', mixPrompt(_i.pairwisePrompt, 2)),
+        ], 'beam_judge_pair', pairSchema);
+        const [won, lost] = winner === 'A' ? [a, b] : [b, a];
+        lost.eliminatedInRound = round;
+        advancing.push(won);
+        tournamentLog.push(`- Round ${round}: **Response ${won.rayIndex + 1}** over Response ${lost.rayIndex + 1} - ${reason.trim()}`);
+      }
+      contenders = advancing.sort((a, b) => b.total - a.total);
+    }
+    contenders[0].eliminatedInRound = Number.MAX_SAFE_INTEGER;
+  }
+
+
+  // 3. Rank, store on the rays, and select the winner
+
+  const ranked = [...scored].sort((a, b) => (b.eliminatedInRound - a.eliminatedInRound) || (b.total - a.total));
+  const judgements: BRayJudgement[] = scored.map(s => ({
+    total: s.total,
+    criteria: s.criteria,
+    rationale: s.rationale,
+    rank: 1 + ranked.indexOf(s),
+    judgeLlmId: inputs.llmId,
+  }));
+  inputs.updateRayJudgements(judgements, ranked[0].rayIndex);
+  inputs.updateInstructionComponent(undefined);
+
+
+  // 4. Summary, as the output of the merge
+
+  const summary = [
+    `| Rank | Response | ${_i.rubric.map(c => c.label).join(' | ')} | Total |`,
+    `|------|----------|${_i.rubric.map(() => '---').join('|')}|-------|`,
+    ...ranked.map((s, index) => `| ${index + 1} | Response ${s.rayIndex + 1}${_generatorLabel(inputs.rayMessages[s.rayIndex])} | ${_i.rubric.map(c => s.criteria[c.id]).join(' | ')} | **${s.total}** |`),
+    '',
+    ...ranked.filter(s => !!s.rationale).map(s => `- **Response ${s.rayIndex + 1}**: ${s.rationale}`),
+    ...(tournamentLog.length ? ['', '**Tournament**', '', ...tournamentLog] : []),
+    '',
+    `**Winner: Response ${ranked[0].rayIndex + 1}**`,
+  ].join('\n');
+
+  inputs.intermediateDMessage.fragments = [createTextContentFragment(summary)];
+  inputs.intermediateDMessage.updated = Date.now();
+  delete inputs.intermediateDMessage.pendingIncomplete;
+  return summary;
+}
+
+
+/** One line per criterion, e.g. `- Correctness (weight 2): is it factually right?` */
+export function judgeRubricToText(rubric: JudgeCriterion[]): string {
+  return rubric.map(c => `- ${c.label}${c.weight !== 1 ? ` (weight ${c.weight})` : ''}: ${c.description}`).join('\n');
+}
+
+/** Inverse of judgeRubricToText, lenient: weights and descriptions are optional */
+export function judgeRubricFromText(text: string): JudgeCriterion[] {
+  const rubric: JudgeCriterion[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*[-*]?\s*([^:(]+?)\s*(?:\(weight\s*([\d.]+)\))?\s*(?::\s*(.*))?$/i);
+    if (!match?.[1]) continue;
+    const id = match[1].toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (!id || rubric.some(c => c.id === id)) continue;
+    const weight = parseFloat(match[2]);
+    rubric.push({ id, label: match[1], description: match[3]?.trim() || '', weight: weight > 0 ? weight : 1 });
+  }
+  return rubric;
+}
+
+
+async function _generateJson<T>(inputs: ExecutionInputState, systemPrompt: string, history: DMessage[], schemaName: string, schema: z.ZodType<T>): Promise<T> {
+
+  const status = await aixChatGenerateContent_DMessage_FromConversation(
+    inputs.llmId,
+    createDMessageTextContent('system', systemPrompt),
+    history,
+    'beam-gather', inputs.contextRef,
+    {
+      abortSignal: inputs.chainAbortController.signal,
+      throttleParallelThreads: getLabsHighPerformance() ? 0 : 1,
+      strictJsonOutput: { name: schemaName, schema: z.toJSONSchema(schema, { io: 'output', unrepresentable: 'throw' }) },
+    },
+    () => undefined, // the summary is written at the end
+  );
+
+  if (status.outcome === 'aborted')
+    throw new Error('Instruction Stopped.');
+  if (status.outcome === 'failed')
+    throw new Error(status.outcomeFailedMessage
+      || status.lastDMessage.fragments.findLast(isErrorContentFragment)?.part?.error
+      || 'Unknown error');
+
+  // models without structured outputs may wrap the JSON in text or code fences
+  const text = messageFragmentsReduceText(status.lastDMessage.fragments);
+  const jsonText = text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1);
+  let parsed: z.ZodSafeParseResult<T> | null = null;
+  try {
+    parsed = schema.safeParse(JSON.parse(jsonText));
+  } catch {
+    // fall through
+  }
+  if (!parsed?.success)
+    throw new Error('Unable to parse the judgement. Please try again, or with a model that supports structured outputs.');
+  return parsed.data;
+}
+
+function _clampScore(score: number | undefined): number {
+  return Math.min(10, Math.max(1, Math.round(score ?? 1)));
+}
+
+function _generatorLabel(message: DMessage): string {
+  return message.generator?.name ? ` (${message.generator.name})` : '';
+}
+
+function _progressText(text: string): React.ReactNode {
+  return <Typography level='body-sm' sx={{ opacity: 0.5 }}>{text}</Typography>;
+}
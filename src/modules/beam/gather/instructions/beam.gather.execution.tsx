@@ -7,7 +7,9 @@ import { createDMessageEmpty, DMessage } from '~/common/stores/chat/chat.message
 import { createPlaceholderVoidFragment } from '~/common/stores/chat/chat.fragments';
 
 import type { BFusion, FusionUpdateOrFn } from '../beam.gather';
+import type { BRayJudgement } from '../../scatter/beam.scatter';
 import { executeGatherInstruction, GatherInstruction } from './GatherInstruction';
+import { executeJudgeInstruction, JudgeInstruction } from './JudgeInstruction';
 import { GATHER_PLACEHOLDER } from '../../beam.config';
 import { executeUserInputChecklistInstruction, UserInputChecklistInstruction } from './UserInputChecklistInstruction';
 
@@ -29,11 +31,12 @@ export interface ExecutionInputState {
   readonly chainAbortController: AbortController;
   readonly updateProgressComponent: (component: React.ReactNode) => void;
   readonly updateInstructionComponent: (component: React.ReactNode) => void;
+  readonly updateRayJudgements: (judgements: BRayJudgement[], winnerIndex: number | null) => void; // parallel to rayMessages
   // output1 -> input2
   readonly intermediateDMessage: DMessage;
 }
 
-export type Instruction = GatherInstruction | UserInputChecklistInstruction;
+export type Instruction = GatherInstruction | JudgeInstruction | UserInputChecklistInstruction;
 
 
 export function gatherStartFusion(
@@ -41,6 +44,7 @@ export function gatherStartFusion(
   chatMessages: DMessage[],
   rayMessages: DMessage[],
   onUpdateBFusion: (update: FusionUpdateOrFn) => void,
+  onRayJudgements: ExecutionInputState['updateRayJudgements'],
 ) {
 
   // abort any current fusion
@@ -74,6 +78,7 @@ export function gatherStartFusion(
     chainAbortController: new AbortController(),
     updateProgressComponent: (component: React.ReactNode) => onUpdateBFusion({ fusingProgressComponent: component }),
     updateInstructionComponent: (component: React.ReactNode) => onUpdateBFusion({ fusingInstructionComponent: component }),
+    updateRayJudgements: onRayJudgements,
     // output1 -> input2
     intermediateDMessage: createDMessageEmpty('assistant'), // [state] assistant:Fusion_pending
   };
@@ -119,6 +124,8 @@ export function gatherStartFusion(
       switch (instruction.type) {
         case 'gather':
           return executeGatherInstruction(instruction, inputState, precedingValue);
+        case 'judge':
+          return executeJudgeInstruction(instruction, inputState, precedingValue);
         case 'user-input-checklist':
           return executeUserInputChecklistInstruction(instruction, inputState, precedingValue);
         default:
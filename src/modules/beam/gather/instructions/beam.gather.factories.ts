@@ -1,6 +1,7 @@
 import type { SvgIcon } from '@mui/joy';
 import BuildRoundedIcon from '@mui/icons-material/BuildRounded';
 import CheckBoxOutlinedIcon from '@mui/icons-material/CheckBoxOutlined';
+import GavelRoundedIcon from '@mui/icons-material/GavelRounded';
 import MediationOutlinedIcon from '@mui/icons-material/MediationOutlined';
 import TableViewRoundedIcon from '@mui/icons-material/TableViewRounded';
 
@@ -163,6 +164,39 @@ Only work with the provided {{N}} responses. Begin with listing the criteria.`.t
       },
     ],
   },
+  {
+    factoryId: 'judge',
+    shortLabel: 'Judge',
+    addLabel: 'Add Judge',
+    cardTitle: 'Judgement',
+    Icon: GavelRoundedIcon as typeof SvgIcon,
+    description: 'A model scores every reply against a rubric, ranks them, and selects the best one.',
+    createInstructions: () => [
+      {
+        type: 'judge',
+        label: 'Judging',
+        rubric: [
+          { id: 'correctness', label: 'Correctness', description: 'Factually and technically right, free of errors and unsupported claims', weight: 2 },
+          { id: 'completeness', label: 'Completeness', description: 'Addresses every part of the user request, with the necessary detail', weight: 1 },
+          { id: 'style', label: 'Style', description: 'Clear, well organized, and of an appropriate length and tone', weight: 1 },
+        ],
+        tournament: true,
+        systemPrompt: `
+You are an impartial expert judge, evaluating {{N}} AI-generated responses to the last user message of the conversation.
+
+Evaluate each response on its own merits against the following rubric, scoring every criterion from 1 (very poor) to 10 (excellent):
+{{Rubric}}
+
+Be strict and consistent: use the full range of scores, do not favor longer responses, and do not let the order of the responses influence you.`.trim(),
+        userPrompt: `
+Score each of the {{N}} responses above against every criterion of the rubric, numbering the responses from 1 to {{N}} in the order they were presented.
+For each response, add a one-sentence rationale of its main strengths and weaknesses.`.trim(),
+        pairwisePrompt: `
+Compare the two responses above, Response A (the first) and Response B (the second), against the rubric.
+Declare which one better answers my last message overall, with a one-sentence reason.`.trim(),
+      },
+    ],
+  },
   {
     factoryId: CUSTOM_FACTORY_ID,
     shortLabel: 'Custom',
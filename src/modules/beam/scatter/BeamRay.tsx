@@ -1,7 +1,7 @@
 import * as React from 'react';
 
 import type { SxProps } from '@mui/joy/styles/types';
-import { Box, IconButton, Typography } from '@mui/joy';
+import { Box, Chip, IconButton, Typography } from '@mui/joy';
 import CheckCircleOutlineRoundedIcon from '@mui/icons-material/CheckCircleOutlineRounded';
 import ContentCopyIcon from '@mui/icons-material/ContentCopy';
 import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
@@ -10,6 +10,7 @@ import RemoveCircleOutlineRoundedIcon from '@mui/icons-material/RemoveCircleOutl
 import ReplayRoundedIcon from '@mui/icons-material/ReplayRounded';
 import StopRoundedIcon from '@mui/icons-material/StopRounded';
 import TelegramIcon from '@mui/icons-material/Telegram';
+import TuneRoundedIcon from '@mui/icons-material/TuneRounded';
 
 import type { AixReattachMode } from '~/modules/aix/client/aix.client';
 import type { ModelVendorId } from '~/modules/llms/vendors/vendors.registry';
@@ -32,7 +33,8 @@ import { BeamUpstreamResume } from '../BeamUpstreamResume';
 import { BeamStoreApi, useBeamStore } from '../store-beam.hooks';
 import { BEAM_SHOW_REASONING_ICON, GATHER_COLOR, SCATTER_COLOR, SCATTER_RAY_SHOW_DRAG_HANDLE } from '../beam.config';
 import { TooltipOutlined } from '~/common/components/TooltipOutlined';
-import { rayIsError, rayIsImported, rayIsScattering, rayIsSelectable, rayIsUserSelected } from './beam.scatter';
+import { BeamRayOverrides } from './BeamRayOverrides';
+import { BRayJudgement, BRayOverrides, rayHasOverrides, rayIsError, rayIsImported, rayIsScattering, rayIsSelectable, rayIsUserSelected } from './beam.scatter';
 import { useBeamCardScrolling, useBeamScatterShowLettering } from '../store-module-beam';
 import { useMessageAvatarLabel } from '~/common/util/dMessageUtils';
 
@@ -71,16 +73,20 @@ export const rayControlsMobileSx: SxProps = {
 const RayControlsMemo = React.memo(RayControls);
 
 function RayControls(props: {
+  hasOverrides: boolean,
   isEmpty: boolean,
   isMobile: boolean,
   isRemovable: boolean,
   isScattering: boolean,
+  judgement?: BRayJudgement,
   llmComponent: React.ReactNode,
   llmShowReasoning?: boolean,
   llmVendorId: undefined | ModelVendorId,
   onIconClick: (event: React.MouseEvent) => void,
   onRemove: () => void,
   onToggleGenerate: () => void,
+  onToggleOverrides: () => void,
+  overridesLabel?: string,
   rayLetter?: string,
   rayAvatarTooltip: React.ReactNode,
   // isLlmLinked: boolean,
@@ -125,6 +131,22 @@ function RayControls(props: {
     {/*  </GoodTooltip>*/}
     {/*)}*/}
 
+    {/* Per-ray settings */}
+    <GoodTooltip title={props.overridesLabel || (props.hasOverrides ? 'Custom settings' : 'Settings for this beam')}>
+      <IconButton size='sm' variant={props.hasOverrides ? 'soft' : 'plain'} color={props.hasOverrides ? 'primary' : 'neutral'} onClick={props.onToggleOverrides}>
+        <TuneRoundedIcon />
+      </IconButton>
+    </GoodTooltip>
+
+    {/* Judge score */}
+    {!!props.judgement && (
+      <TooltipOutlined asLargePane title={<RayJudgementDetails judgement={props.judgement} />} placement='top-end'>
+        <Chip size='sm' variant={props.judgement.rank === 1 ? 'solid' : 'soft'} color={props.judgement.rank === 1 ? 'success' : 'neutral'}>
+          #{props.judgement.rank} · {props.judgement.total}
+        </Chip>
+      </TooltipOutlined>
+    )}
+
     {!props.isScattering ? (
       <GoodTooltip title='Generate'>
         <IconButton size='sm' variant='plain' color='success' onClick={props.onToggleGenerate}>
@@ -150,6 +172,29 @@ function RayControls(props: {
 }
 
 
+function RayJudgementDetails(props: { judgement: BRayJudgement }) {
+  const { judgement } = props;
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: 'auto auto', columnGap: 2, rowGap: 0.5, fontSize: 'sm', maxWidth: 360 }}>
+      <Typography level='title-sm' sx={{ gridColumn: '1 / -1' }}>
+        Rank #{judgement.rank}, score {judgement.total}/100
+      </Typography>
+      {Object.entries(judgement.criteria).map(([criterionId, score]) => (
+        <React.Fragment key={criterionId}>
+          <span style={{ textTransform: 'capitalize' }}>{criterionId.replaceAll('_', ' ')}</span>
+          <b>{score}/10</b>
+        </React.Fragment>
+      ))}
+      {!!judgement.rationale && (
+        <Typography level='body-xs' sx={{ gridColumn: '1 / -1', mt: 0.5 }}>
+          {judgement.rationale}
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+
 export function BeamRay(props: {
   beamStore: BeamStoreApi,
   hadImportedRays: boolean,
@@ -160,6 +205,9 @@ export function BeamRay(props: {
   // linkedLlmId: DLLMId | null,
 }) {
 
+  // state
+  const [showOverrides, setShowOverrides] = React.useState(false);
+
   // external state
   const ray = useBeamStore(props.beamStore, store => store.rays.find(ray => ray.rayId === props.rayId) ?? null);
   const cardScrolling = useBeamCardScrolling();
@@ -172,7 +220,8 @@ export function BeamRay(props: {
   const isSelected = rayIsUserSelected(ray);
   const isImported = rayIsImported(ray);
   const showUseButtons = isSelectable && !isScattering;
-  const { removeRay, rayToggleScattering, raySetLlmId } = props.beamStore.getState();
+  const hasOverrides = rayHasOverrides(ray);
+  const { removeRay, rayToggleScattering, raySetLlmId, raySetOverrides } = props.beamStore.getState();
   const { tooltip: rayAvatarTooltip } = useMessageAvatarLabel(ray?.message, 'pro');
 
   // This old code used the Gather LLM as Ray fallback - but now we use the last Scatter LLM as fallback
@@ -227,6 +276,12 @@ export function BeamRay(props: {
     removeRay(props.rayId);
   }, [props.rayId, removeRay]);
 
+  const handleToggleOverrides = React.useCallback(() => setShowOverrides(on => !on), []);
+
+  const handleOverridesChange = React.useCallback((overrides: BRayOverrides | undefined) => {
+    raySetOverrides(props.rayId, overrides);
+  }, [props.rayId, raySetOverrides]);
+
   const handleRayToggleGenerate = React.useCallback(() => {
     rayToggleScattering(props.rayId);
   }, [props.rayId, rayToggleScattering]);
@@ -263,22 +318,37 @@ export function BeamRay(props: {
 
       {/* Controls Row */}
       <RayControlsMemo
+        hasOverrides={hasOverrides}
         isEmpty={!isSelectable}
         isMobile={props.isMobile}
         isRemovable={props.isRemovable}
         isScattering={isScattering}
+        judgement={ray?.judgement}
         llmComponent={llmComponent}
         llmShowReasoning={llmShowReasoning}
         llmVendorId={llmOrNull?.vId}
         onIconClick={handleDebugPrint}
         onRemove={handleRayRemove}
         onToggleGenerate={handleRayToggleGenerate}
+        onToggleOverrides={handleToggleOverrides}
+        overridesLabel={hasOverrides ? ray?.rayOverrides?.label : undefined}
         rayLetter={showLettering ? 'R' + (1 + props.rayIndexWeak) : undefined}
         rayAvatarTooltip={rayAvatarTooltip}
         // isLlmLinked={isLlmLinked}
         // onLink={handleLlmLink}
       />
 
+      {/* Per-ray settings */}
+      {showOverrides && (
+        <BeamRayOverrides
+          llmId={llmId}
+          overrides={ray?.rayOverrides}
+          disabled={isScattering}
+          onChange={handleOverridesChange}
+          onClose={handleToggleOverrides}
+        />
+      )}
+
       {/* Show issue, if any */}
       {!!ray?.scatterIssue && <InlineError error={ray.scatterIssue} />}
 
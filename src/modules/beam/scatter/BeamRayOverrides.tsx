@@ -0,0 +1,130 @@
+import * as React from 'react';
+
+import { Box, FormControl, FormLabel, IconButton, Input, Option, Select, Textarea } from '@mui/joy';
+import CloseRoundedIcon from '@mui/icons-material/CloseRounded';
+
+import { usePersonas } from '~/modules/persona/store-personas';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+
+import { BRayOverrides, rayEffortValuesForLlm } from './beam.scatter';
+
+
+const _DEFAULT = '_default';
+
+
+/**
+ * Per-ray settings: persona / system instruction, temperature and reasoning effort.
+ * Unset values follow the chat.
+ */
+export function BeamRayOverrides(props: {
+  llmId: DLLMId | null,
+  overrides: BRayOverrides | undefined,
+  disabled: boolean,
+  onChange: (overrides: BRayOverrides | undefined) => void,
+  onClose: () => void,
+}) {
+
+  // state
+  const [systemDraft, setSystemDraft] = React.useState<string | null>(null);
+
+  // external state
+  const personas = usePersonas();
+
+  // derived state
+  const { overrides, onChange } = props;
+  const effortValues = React.useMemo(() => rayEffortValuesForLlm(props.llmId), [props.llmId]);
+  const personaId = personas.find(persona => overrides?.label === persona.title && overrides?.systemInstruction === persona.systemPrompt)?.id ?? null;
+
+
+  // handlers
+
+  const update = React.useCallback((update: Partial<BRayOverrides>) => {
+    const next: BRayOverrides = { ...overrides, ...update };
+    // drop the unset values, and the overrides altogether when empty
+    for (const key of Object.keys(next) as (keyof BRayOverrides)[])
+      if (next[key] === undefined || next[key] === '')
+        delete next[key];
+    onChange(Object.keys(next).length ? next : undefined);
+  }, [onChange, overrides]);
+
+  const handlePersonaChange = React.useCallback((_event: unknown, value: string | null) => {
+    const persona = value && value !== _DEFAULT ? personas.find(persona => persona.id === value) ?? null : null;
+    setSystemDraft(null);
+    update({ label: persona?.title, systemInstruction: persona?.systemPrompt });
+  }, [personas, update]);
+
+  const handleSystemCommit = React.useCallback(() => {
+    if (systemDraft === null) return;
+    update({ systemInstruction: systemDraft.trim() || undefined, label: systemDraft.trim() ? overrides?.label : undefined });
+    setSystemDraft(null);
+  }, [overrides?.label, systemDraft, update]);
+
+  const handleTemperatureChange = React.useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(event.target.value);
+    update({ temperature: isNaN(value) ? undefined : Math.min(2, Math.max(0, value)) });
+  }, [update]);
+
+
+  return (
+    <Box sx={{ display: 'grid', gap: 1, gridTemplateColumns: '1fr 1fr', position: 'relative' }}>
+
+      <IconButton size='sm' onClick={props.onClose} sx={{ position: 'absolute', top: 0, right: 0 }}>
+        <CloseRoundedIcon />
+      </IconButton>
+
+      <FormControl size='sm' sx={{ gridColumn: '1 / -1', mr: 4 }}>
+        <FormLabel>Persona</FormLabel>
+        <Select size='sm' disabled={props.disabled} value={personaId ?? (overrides?.systemInstruction ? null : _DEFAULT)} placeholder='Custom' onChange={handlePersonaChange}>
+          <Option value={_DEFAULT}>Same as the chat</Option>
+          {personas.filter(persona => persona.id !== 'Custom').map(persona => (
+            <Option key={persona.id} value={persona.id}>{persona.symbol} {persona.title}</Option>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size='sm' sx={{ gridColumn: '1 / -1' }}>
+        <FormLabel>System instruction</FormLabel>
+        <Textarea
+          size='sm'
+          disabled={props.disabled}
+          minRows={2}
+          maxRows={6}
+          placeholder='Same as the chat'
+          value={systemDraft ?? overrides?.systemInstruction ?? ''}
+          onChange={event => setSystemDraft(event.target.value)}
+          onBlur={handleSystemCommit}
+        />
+      </FormControl>
+
+      <FormControl size='sm'>
+        <FormLabel>Temperature</FormLabel>
+        <Input
+          size='sm'
+          type='number'
+          disabled={props.disabled}
+          placeholder='Default'
+          value={overrides?.temperature ?? ''}
+          onChange={handleTemperatureChange}
+          slotProps={{ input: { min: 0, max: 2, step: 0.1 } }}
+        />
+      </FormControl>
+
+      {effortValues.length > 0 && (
+        <FormControl size='sm'>
+          <FormLabel>Reasoning effort</FormLabel>
+          <Select
+            size='sm'
+            disabled={props.disabled}
+            value={overrides?.reasoningEffort && effortValues.includes(overrides.reasoningEffort) ? overrides.reasoningEffort : _DEFAULT}
+            onChange={(_event, value) => update({ reasoningEffort: value && value !== _DEFAULT ? value : undefined })}
+          >
+            <Option value={_DEFAULT}>Default</Option>
+            {effortValues.map(value => <Option key={value} value={value}>{value}</Option>)}
+          </Select>
+        </FormControl>
+      )}
+
+    </Box>
+  );
+}
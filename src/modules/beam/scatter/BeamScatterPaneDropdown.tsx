@@ -4,14 +4,16 @@ import { Box, Button, DialogContent, DialogTitle, Dropdown, FormControl, FormLab
 import CheckRoundedIcon from '@mui/icons-material/CheckRounded';
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import DriveFileRenameOutlineRoundedIcon from '@mui/icons-material/DriveFileRenameOutlineRounded';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import FileUploadOutlinedIcon from '@mui/icons-material/FileUploadOutlined';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import SchoolRoundedIcon from '@mui/icons-material/SchoolRounded';
 
-
-
-import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
 
 import type { BeamStoreApi } from '../store-beam.hooks';
+import { beamPresetsExportToFile, beamPresetsImportFromFile } from '../beam.presets';
+import { beamRaysConfig } from './beam.scatter';
 import { useModuleBeamStore } from '../store-module-beam';
 
 
@@ -36,7 +38,7 @@ function DialogNamePreset(props: {
       <ModalDialog>
         <ModalClose />
         <DialogTitle>Save Preset</DialogTitle>
-        <DialogContent>Store the Models configuration.</DialogContent>
+        <DialogContent>Store the models, their settings, and the merge method.</DialogContent>
         <form onSubmit={(event: React.FormEvent<HTMLFormElement>) => {
           event.preventDefault();
           if (name.trim())
@@ -67,7 +69,7 @@ export function BeamScatterDropdown(props: {
 
   // external state
   const {
-    presets, addPreset, deletePreset,
+    presets, addPreset, importPresets, deletePreset,
     cardAdd, toggleCardAdd,
     cardScrolling, toggleCardScrolling,
     scatterShowPrevMessages, toggleScatterShowPrevMessages,
@@ -83,11 +85,28 @@ export function BeamScatterDropdown(props: {
 
   const handlePresetSave = React.useCallback((presetName: string) => {
     const { rays, currentGatherLlmId, currentFactoryId } = props.beamStore.getState();
-    const rayLlmIds = rays.map(ray => ray.rayLlmId).filter(Boolean) as DLLMId[];
-    addPreset(presetName, rayLlmIds, currentGatherLlmId, currentFactoryId);
+    const { rayLlmIds, rayOverrides } = beamRaysConfig(rays);
+    addPreset(presetName, rayLlmIds, currentGatherLlmId, currentFactoryId, rayOverrides);
     handleClosePresetNaming();
   }, [addPreset, handleClosePresetNaming, props.beamStore]);
 
+  const handlePresetsExport = React.useCallback(() => {
+    beamPresetsExportToFile(useModuleBeamStore.getState().presets).catch((error: any) => {
+      if (error?.name !== 'AbortError')
+        addSnackbar({ key: 'beam-presets-export', type: 'issue', message: `Could not export the presets: ${error?.message || 'unknown error'}` });
+    });
+  }, []);
+
+  const handlePresetsImport = React.useCallback(() => {
+    beamPresetsImportFromFile()
+      .then(presets => {
+        if (!presets) return;
+        importPresets(presets);
+        addSnackbar({ key: 'beam-presets-import', type: 'success', message: `Imported ${presets.length} Beam preset${presets.length === 1 ? '' : 's'}.` });
+      })
+      .catch((error: any) => addSnackbar({ key: 'beam-presets-import', type: 'issue', message: `Could not import the presets: ${error?.message || 'unknown error'}` }));
+  }, [importPresets]);
+
   const handlePresetLoad = React.useCallback((presetId: string) => {
     const preset = useModuleBeamStore.getState().presets.find(preset => preset.id === presetId);
     preset && props.beamStore.getState().loadBeamConfig(preset);
@@ -114,7 +133,7 @@ export function BeamScatterDropdown(props: {
 
       <Menu placement='right-end' sx={{ minWidth: 200, zIndex: 'var(--joy-zIndex-modal)' /* on top of its own modal in FS */ }}>
         <ListItem>
-          <Typography level='body-sm'>Model Presets</Typography>
+          <Typography level='body-sm'>Presets</Typography>
         </ListItem>
 
         {/* Save New */}
@@ -146,6 +165,22 @@ export function BeamScatterDropdown(props: {
           </MenuItem>,
         )}
 
+        {/* Share */}
+        <MenuItem onClick={handlePresetsImport}>
+          <ListItemDecorator>
+            <FileUploadOutlinedIcon />
+          </ListItemDecorator>
+          Import ...
+        </MenuItem>
+        {presets.length > 0 && (
+          <MenuItem onClick={handlePresetsExport}>
+            <ListItemDecorator>
+              <FileDownloadOutlinedIcon />
+            </ListItemDecorator>
+            Export all ...
+          </MenuItem>
+        )}
+
         {/*<ListDivider inset='startContent' />*/}
 
         <ListItem>
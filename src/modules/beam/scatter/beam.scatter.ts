@@ -1,13 +1,15 @@
 import type { StateCreator } from 'zustand/vanilla';
 
 import { AixChatGenerateContent_DMessageGuts, AixReattachMode, aixChatGenerateContent_DMessage_FromConversation } from '~/modules/aix/client/aix.client';
+import { bareBonesPromptMixer } from '~/modules/persona/pmix/pmix';
 
 import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { DModelParameterId, DModelParameterRegistry, DModelParameterValues } from '~/common/stores/llms/llms.parameters';
 import { abortWithReason } from '~/common/util/errorUtils';
 import { agiUuid } from '~/common/util/idUtils';
-import { createDMessageEmpty, DMessage, duplicateDMessage, messageWasInterruptedAtStart } from '~/common/stores/chat/chat.message';
+import { createDMessageEmpty, createDMessageTextContent, DMessage, duplicateDMessage, messageWasInterruptedAtStart } from '~/common/stores/chat/chat.message';
 import { createPlaceholderVoidFragment, DMessageFragment, DMessageFragmentId } from '~/common/stores/chat/chat.fragments';
-import { findLLMOrThrow } from '~/common/stores/llms/store-llms';
+import { findLLMOrThrow, llmsStoreState } from '~/common/stores/llms/store-llms';
 import { getLabsHighPerformance } from '~/common/stores/store-ux-labs';
 import { splitSystemMessageFromHistory } from '~/common/stores/chat/chat.conversation';
 
@@ -24,19 +26,38 @@ export interface BRay {
   status: 'empty' | 'scattering' | 'success' | 'stopped' | 'error';
   message: DMessage;
   rayLlmId: DLLMId | null;
+  rayOverrides?: BRayOverrides;
   scatterIssue?: string;
   genAbortController?: AbortController;
   userSelected: boolean;
   imported: boolean;
+  judgement?: BRayJudgement; // set by a Judge merge, cleared when regenerated
 }
 
+/** Per-ray changes to the chat settings, e.g. to beam the same model at different temperatures, or as different experts */
+export interface BRayOverrides {
+  label?: string;             // e.g. the name of the expert persona
+  systemInstruction?: string; // replaces the system message of the chat
+  temperature?: number;
+  reasoningEffort?: string;   // applied to the effort parameter of the ray model, if it has one with this value
+}
+
+export interface BRayJudgement {
+  total: number;                    // 0-100, weighted over the rubric
+  criteria: Record<string, number>; // criterion id -> 1-10
+  rationale?: string;
+  rank: number;                     // 1: best
+  judgeLlmId: DLLMId;
+}
 
-export function createBRayEmpty(llmId: DLLMId | null): BRay {
+
+export function createBRayEmpty(llmId: DLLMId | null, rayOverrides?: BRayOverrides): BRay {
   return {
     rayId: agiUuid('beam-ray'),
     status: 'empty',
     message: createDMessageEmpty('assistant'), // [state] assistant:Ray_empty
     rayLlmId: llmId,
+    rayOverrides,
     userSelected: false,
     imported: false,
   };
@@ -57,7 +78,13 @@ function rayScatterStart(ray: BRay, llmId: DLLMId | null, inputHistory: DMessage
     return { ...ray, scatterIssue: `Invalid conversation history (${inputHistory?.length})` };
 
   // split pre dynamic-personas
-  const { chatSystemInstruction: scatterSystemInstruction, chatHistory: scatterInputHistory } = splitSystemMessageFromHistory(inputHistory);
+  const { chatSystemInstruction, chatHistory: scatterInputHistory } = splitSystemMessageFromHistory(inputHistory);
+
+  // per-ray overrides
+  const scatterSystemInstruction = ray.rayOverrides?.systemInstruction?.trim()
+    ? createDMessageTextContent('system', bareBonesPromptMixer(ray.rayOverrides.systemInstruction, llmId))
+    : chatSystemInstruction;
+  const llmOptionsOverride = rayOverridesToLlmOptions(ray.rayOverrides, llmId);
 
 
   const abortController = new AbortController();
@@ -83,7 +110,7 @@ function rayScatterStart(ray: BRay, llmId: DLLMId | null, inputHistory: DMessage
     scatterSystemInstruction,
     scatterInputHistory,
     'beam-scatter', ray.rayId,
-    { abortSignal: abortController.signal, throttleParallelThreads: getLabsHighPerformance() ? 0 : !playNice ? 1 : rays.length },
+    { abortSignal: abortController.signal, throttleParallelThreads: getLabsHighPerformance() ? 0 : !playNice ? 1 : rays.length, llmOptionsOverride },
     onMessageUpdated,
   )
     .then((status) => {
@@ -114,6 +141,7 @@ function rayScatterStart(ray: BRay, llmId: DLLMId | null, inputHistory: DMessage
     status: 'scattering',
     message: newMessage,
     rayLlmId: llmId,
+    rayOverrides: ray.rayOverrides,
     scatterIssue: undefined,
     genAbortController: abortController,
     userSelected: false,
@@ -131,6 +159,51 @@ function rayScatterStop(ray: BRay): BRay {
 }
 
 
+const _EFFORT_PARAM_IDS = ['llmVndAntEffort', 'llmVndGemEffort', 'llmVndOaiEffort', 'llmVndMiscEffort'] as const satisfies readonly DModelParameterId[];
+
+type _EffortParamId = typeof _EFFORT_PARAM_IDS[number];
+
+function _isEffortParamId(paramId: DModelParameterId): paramId is _EffortParamId {
+  return (_EFFORT_PARAM_IDS as readonly DModelParameterId[]).includes(paramId);
+}
+
+function _findEffortParamSpec(llmId: DLLMId | null) {
+  const llm = !llmId ? undefined : llmsStoreState().llms.find(llm => llm.id === llmId);
+  for (const spec of llm?.parameterSpecs ?? [])
+    if (_isEffortParamId(spec.paramId))
+      return { ...spec, paramId: spec.paramId };
+  return undefined;
+}
+
+/** The reasoning effort values the model accepts, if it has an effort parameter */
+export function rayEffortValuesForLlm(llmId: DLLMId | null): string[] {
+  const spec = _findEffortParamSpec(llmId);
+  if (!spec) return [];
+  const registry = DModelParameterRegistry[spec.paramId];
+  return [...(spec.enumValues as readonly string[] | undefined) ?? ('values' in registry ? registry.values : [])];
+}
+
+function _setEffortValue<K extends _EffortParamId>(options: DModelParameterValues, paramId: K, value: DModelParameterValues[K]) {
+  options[paramId] = value;
+}
+
+function rayOverridesToLlmOptions(overrides: BRayOverrides | undefined, llmId: DLLMId): DModelParameterValues | undefined {
+  if (!overrides) return undefined;
+  const options: DModelParameterValues = {};
+  if (overrides.temperature !== undefined)
+    options.llmTemperature = overrides.temperature;
+  const effortSpec = _findEffortParamSpec(llmId);
+  if (effortSpec && overrides.reasoningEffort && rayEffortValuesForLlm(llmId).includes(overrides.reasoningEffort))
+    _setEffortValue(options, effortSpec.paramId, overrides.reasoningEffort as DModelParameterValues[_EffortParamId]);
+  return Object.keys(options).length ? options : undefined;
+}
+
+export function rayHasOverrides(ray: BRay | null): boolean {
+  const overrides = ray?.rayOverrides;
+  return !!overrides && (!!overrides.systemInstruction?.trim() || overrides.temperature !== undefined || !!overrides.reasoningEffort);
+}
+
+
 export function rayIsError(ray: BRay | null): boolean {
   return ray?.status === 'error';
 }
@@ -156,6 +229,16 @@ export function rayIsImported(ray: BRay | null): boolean {
 }
 
 
+/** The rays part of a Beam config, for presets and for the next Beam */
+export function beamRaysConfig(rays: BRay[]): { rayLlmIds: DLLMId[], rayOverrides: (BRayOverrides | null)[] } {
+  const configuredRays = rays.filter(ray => !!ray.rayLlmId);
+  return {
+    rayLlmIds: configuredRays.map(ray => ray.rayLlmId!),
+    rayOverrides: configuredRays.map(ray => rayHasOverrides(ray) ? ray.rayOverrides! : null),
+  };
+}
+
+
 /// Scatter Store Slice ///
 
 interface ScatterStateSlice {
@@ -174,8 +257,8 @@ export const reInitScatterStateSlice = (prevRays: BRay[]): ScatterStateSlice =>
   prevRays.forEach(rayScatterStop);
 
   return {
-    // recreate empty rays to match the previous count, with the same llms too
-    rays: prevRays.map(prevRay => createBRayEmpty(prevRay.rayLlmId)),
+    // recreate empty rays to match the previous count, with the same llms and overrides too
+    rays: prevRays.map(prevRay => createBRayEmpty(prevRay.rayLlmId, prevRay.rayOverrides)),
     hadImportedRays: false,
 
     isScattering: false,
@@ -189,15 +272,17 @@ export interface ScatterStoreSlice extends ScatterStateSlice {
   setRayCount: (count: number) => void;
   removeRay: (rayId: BRayId) => void;
   importRays: (messages: DMessage[], raysLlmIdFallback: DLLMId | null) => void;
-  setRayLlmIds: (rayLlmIds: DLLMId[]) => void;
+  setRayLlmIds: (rayLlmIds: DLLMId[], rayOverrides?: (BRayOverrides | null)[]) => void;
   startScatteringAll: (restart: boolean) => void;
   stopScatteringAll: () => void;
   rayToggleScattering: (rayId: BRayId) => void;
   rayReattach: (rayId: BRayId, mode: AixReattachMode) => void;
   rayClearUpstreamHandle: (rayId: BRayId) => void;
   raySetLlmId: (rayId: BRayId, llmId: DLLMId | null) => void;
+  raySetOverrides: (rayId: BRayId, overrides: BRayOverrides | undefined) => void;
   rayDeleteFragment: (rayId: BRayId, fragmentId: DMessageFragmentId) => void;
   rayReplaceFragment: (rayId: BRayId, fragmentId: DMessageFragmentId, newFragment: DMessageFragment) => void;
+  raysSetJudgements: (judgements: Record<BRayId, BRayJudgement>, winnerRayId: BRayId | null) => void;
   _rayUpdate: (rayId: BRayId, update: Partial<BRay> | ((ray: BRay) => Partial<BRay>)) => void;
 
   _storeLastScatterConfig: () => void;
@@ -299,7 +384,7 @@ export const createScatterSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
     _syncRaysStateToScatter();
   },
 
-  setRayLlmIds: (rayLlmIds: DLLMId[]) => {
+  setRayLlmIds: (rayLlmIds: DLLMId[], rayOverrides?: (BRayOverrides | null)[]) => {
     const { setRayCount, _storeLastScatterConfig, _syncRaysStateToScatter } = _get();
     // NOTE: the behavior was to only enlarge the set, but turns out that the UX would be less intuitive
     // if (rayLlmIds.length > rays.length)
@@ -308,6 +393,8 @@ export const createScatterSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
       rays: state.rays.map((ray, index): BRay => index >= rayLlmIds.length ? ray : {
         ...ray,
         rayLlmId: rayLlmIds[index] || null,
+        // without overrides (e.g. older presets), the rays go back to the chat settings
+        rayOverrides: rayOverrides?.[index] ?? undefined,
       }),
     }));
     _storeLastScatterConfig();
@@ -396,6 +483,14 @@ export const createScatterSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
     _storeLastScatterConfig();
   },
 
+  raySetOverrides: (rayId: BRayId, overrides: BRayOverrides | undefined) => {
+    const { _rayUpdate, _storeLastScatterConfig } = _get();
+    _rayUpdate(rayId, {
+      rayOverrides: overrides,
+    });
+    _storeLastScatterConfig();
+  },
+
   rayDeleteFragment: (rayId: BRayId, fragmentId: DMessageFragmentId) =>
     _get()._rayUpdate(rayId, (ray) => {
       // Find the fragment to delete
@@ -436,6 +531,15 @@ export const createScatterSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
       };
     }),
 
+  raysSetJudgements: (judgements: Record<BRayId, BRayJudgement>, winnerRayId: BRayId | null) =>
+    _set(state => ({
+      rays: state.rays.map((ray): BRay => ({
+        ...ray,
+        judgement: judgements[ray.rayId],
+        userSelected: ray.rayId === winnerRayId,
+      })),
+    })),
+
   _rayUpdate: (rayId: BRayId, update: Partial<BRay> | ((ray: BRay) => Partial<BRay>)) =>
     _set(state => ({
       rays: state.rays.map(ray => (ray.rayId === rayId)
@@ -445,9 +549,7 @@ export const createScatterSlice: StateCreator<RootStoreSlice & ScatterStoreSlice
     })),
 
   _storeLastScatterConfig: () => {
-    updateBeamLastConfig({
-      rayLlmIds: _get().rays.map(ray => ray.rayLlmId).filter(Boolean) as DLLMId[],
-    });
+    updateBeamLastConfig(beamRaysConfig(_get().rays));
   },
 
   _syncRaysStateToScatter: () => {
@@ -136,7 +136,7 @@ const createRootSlice: StateCreator<BeamStore, [], [], RootStoreSlice> = (_set,
   loadBeamConfig: (preset: BeamConfigSnapshot | null) => {
     if (preset) {
       const { setRayLlmIds, setCurrentGatherLlmId, setCurrentFactoryId } = _get();
-      preset.rayLlmIds?.length && setRayLlmIds(preset.rayLlmIds);
+      preset.rayLlmIds?.length && setRayLlmIds(preset.rayLlmIds, preset.rayOverrides);
       preset.gatherLlmId && setCurrentGatherLlmId(preset.gatherLlmId);
       preset.gatherFactoryId && setCurrentFactoryId(preset.gatherFactoryId);
     }
@@ -5,6 +5,7 @@ import type { DConversationId } from '~/common/stores/chat/chat.conversation';
 import type { DLLMId } from '~/common/stores/llms/llms.types';
 import { agiUuid } from '~/common/util/idUtils';
 
+import type { BRayOverrides } from './scatter/beam.scatter';
 import type { FFactoryId } from './gather/instructions/beam.gather.factories';
 
 
@@ -16,6 +17,7 @@ export interface BeamConfigSnapshot {
   rayLlmIds: DLLMId[];
   gatherFactoryId?: FFactoryId | null;  // added post launch
   gatherLlmId?: DLLMId | null;          // added post launch
+  rayOverrides?: (BRayOverrides | null)[]; // parallel to rayLlmIds
 }
 
 
@@ -37,7 +39,8 @@ interface ModuleBeamState {
 }
 
 interface ModuleBeamStore extends ModuleBeamState {
-  addPreset: (name: string, rayLlmIds: DLLMId[], gatherLlmId: DLLMId | null, gatherFactoryId: FFactoryId | null) => void;
+  addPreset: (name: string, rayLlmIds: DLLMId[], gatherLlmId: DLLMId | null, gatherFactoryId: FFactoryId | null, rayOverrides?: (BRayOverrides | null)[]) => void;
+  importPresets: (presets: Omit<BeamConfigSnapshot, 'id'>[]) => void;
   deletePreset: (id: string) => void;
   renamePreset: (id: string, name: string) => void;
 
@@ -70,16 +73,24 @@ export const useModuleBeamStore = create<ModuleBeamStore>()(persist(
     openBeamConversationIds: {},
 
 
-    addPreset: (name, rayLlmIds, gatherLlmId, gatherFactoryId) => _set(state => ({
+    addPreset: (name, rayLlmIds, gatherLlmId, gatherFactoryId, rayOverrides) => _set(state => ({
       presets: [...state.presets, {
         id: agiUuid('beam-preset-config'),
         name,
         rayLlmIds,
         gatherLlmId: gatherLlmId ?? undefined,
         gatherFactoryId: gatherFactoryId ?? undefined,
+        rayOverrides: rayOverrides?.some(Boolean) ? rayOverrides : undefined,
       }],
     })),
 
+    importPresets: (presets) => _set(state => ({
+      presets: [...state.presets, ...presets.map(preset => ({
+        ...preset,
+        id: agiUuid('beam-preset-config'),
+      }))],
+    })),
+
     deletePreset: (id) => _set(state => ({
       presets: state.presets.filter(preset => preset.id !== id),
     })),
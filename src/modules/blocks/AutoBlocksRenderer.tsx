@@ -7,6 +7,7 @@ import { BlocksContainer } from './BlocksContainers';
 import { EnhancedRenderCode } from './enhanced-code/EnhancedRenderCode';
 import { RenderDangerousHtml } from './danger-html/RenderDangerousHtml';
 import { RenderImageURL } from './image/RenderImageURL';
+import { RenderJsonTree } from './json-tree/RenderJsonTree';
 import { RenderMarkdown, RenderMarkdownMemo } from './markdown/RenderMarkdown';
 import { RenderPlainText } from './plaintext/RenderPlainText';
 import { RenderWordsDiff, WordsDiff } from './wordsdiff/RenderWordsDiff';
@@ -49,6 +50,7 @@ export function AutoBlocksRenderer(props: {
 
   renderAsCodeWithTitle?: string;
   renderAsWordsDiff?: WordsDiff;
+  renderAsJson?: boolean;
 
   blocksProcessor?: 'diagram',
   codeRenderVariant?: AutoBlocksCodeRenderVariant /* default: outlined */,
@@ -91,6 +93,7 @@ export function AutoBlocksRenderer(props: {
     props.renderAsCodeWithTitle,
     fromSystem,
     props.renderAsWordsDiff,
+    !!props.renderAsJson,
     props.blocksProcessor === 'diagram',
   );
 
@@ -238,6 +241,15 @@ export function AutoBlocksRenderer(props: {
                 sx={scaledTypographySx}
               />
             );
+
+          case 'json-tree-bk':
+            return (
+              <RenderJsonTree
+                key={'json-tree-bk-' + index}
+                json={bkInput.json}
+                sx={scaledCodeSx}
+              />
+            );
         }
       })}
 
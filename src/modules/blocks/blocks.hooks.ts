@@ -62,7 +62,7 @@ function areBlocksEqualIdIgnored(block1: RenderBlockInputs[number] | undefined,
  *   as part of the the running text, in which case the growing text will be
  *   reassigned (when it's chopped to before the code block, in the next call)
  */
-export function useAutoBlocksMemoSemiStable(text: string, forceAsFenced: string | undefined, forceAsMarkdown: boolean, forceAsWordsDiff: WordsDiff | undefined, selectSingleCodeBlock: boolean): RenderBlockInputs {
+export function useAutoBlocksMemoSemiStable(text: string, forceAsFenced: string | undefined, forceAsMarkdown: boolean, forceAsWordsDiff: WordsDiff | undefined, forceAsJson: boolean, selectSingleCodeBlock: boolean): RenderBlockInputs {
 
   // state - previous blocks, to stabilize objects
   const prevBlocksRef = React.useRef<RenderBlockInputs>([]);
@@ -76,6 +76,8 @@ export function useAutoBlocksMemoSemiStable(text: string, forceAsFenced: string
       newBlocks = [{ bkt: 'md-bk', content: text }];
     else if (forceAsWordsDiff && forceAsWordsDiff.length >= 1)
       newBlocks = [{ bkt: 'txt-diffs-bk', wordsDiff: forceAsWordsDiff }];
+    else if (forceAsJson)
+      newBlocks = [_jsonTreeBlockOrFenced(text)];
     else {
       newBlocks = parseBlocksFromText(text);
       if (selectSingleCodeBlock && newBlocks.length > 1)
@@ -100,5 +102,14 @@ export function useAutoBlocksMemoSemiStable(text: string, forceAsFenced: string
     prevTextRef.current = text;
 
     return recycledBlocks;
-  }, [forceAsFenced, forceAsMarkdown, forceAsWordsDiff, selectSingleCodeBlock, text]);
+  }, [forceAsFenced, forceAsJson, forceAsMarkdown, forceAsWordsDiff, selectSingleCodeBlock, text]);
+}
+
+/** JSON tree once the text parses (e.g. at the end of streaming), fenced JSON until then */
+function _jsonTreeBlockOrFenced(text: string): RenderBlockInputs[number] {
+  try {
+    return { bkt: 'json-tree-bk', json: JSON.parse(text) };
+  } catch {
+    return { bkt: 'code-bk', title: 'json', code: text, lines: countLines(text), isPartial: true };
+  }
 }
\ No newline at end of file
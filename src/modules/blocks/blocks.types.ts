@@ -33,4 +33,8 @@ type BlockInput = {
   /* Rendered as red/green text diffs */
   bkt: 'txt-diffs-bk';
   wordsDiff: WordsDiff;
+} | {
+  /* (Structured output) Rendered as a collapsible JSON tree */
+  bkt: 'json-tree-bk';
+  json: unknown;
 });
\ No newline at end of file
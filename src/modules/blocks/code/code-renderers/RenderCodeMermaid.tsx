@@ -20,6 +20,7 @@ import { patchSvgString } from './RenderCodeSVG';
  * options are updated accordingly.
  */
 const MERMAID_CDN_FILE: string = 'https://cdn.jsdelivr.net/npm/mermaid@11.4.1/dist/mermaid.min.js';
+const MERMAID_RENDER_LOAD_TIMEOUT_MS = 30 * 1000; // renders outside of React give up if the script neither loads nor fails
 
 interface MermaidAPI {
   initialize: (config: any) => void;
@@ -116,6 +117,36 @@ function useMermaidLoader() {
   return { mermaidAPI, isSuccess: !!mermaidAPI, hasStartedLoading: loadingStarted, error: loadingError };
 }
 
+/**
+ * Renders outside of React (e.g. document exports), loading Mermaid first if needed.
+ */
+export async function mermaidRenderSvgOrThrow(mermaidCode: string): Promise<string> {
+  _loadMermaidFromCDN();
+  const mermaidAPI = useMermaidStore.getState().mermaidAPI ?? await new Promise<MermaidAPI>((resolve, reject) => {
+    const _check = ({ mermaidAPI, loadingError }: MermaidAPIStore) => {
+      if (!mermaidAPI && !loadingError) return false;
+      mermaidAPI ? resolve(mermaidAPI) : reject(new Error(loadingError!));
+      return true;
+    };
+    if (_check(useMermaidStore.getState())) return;
+    // a stalled script is a loading error: this and the next renders fail, until the script loads after all
+    const timeoutId = setTimeout(() => {
+      if (!useMermaidStore.getState().mermaidAPI)
+        useMermaidStore.setState({ loadingError: `Script load timeout for ${MERMAID_CDN_FILE}` });
+    }, MERMAID_RENDER_LOAD_TIMEOUT_MS);
+    const unsubscribe = useMermaidStore.subscribe(state => {
+      if (!_check(state)) return;
+      clearTimeout(timeoutId);
+      unsubscribe();
+    });
+  });
+  const elementId = `mermaid-${Math.random().toString(36).substring(2, 9)}`;
+  const { svg } = await mermaidAPI.render(elementId, mermaidCode);
+  if (!svg) throw new Error('No SVG returned.');
+  return svg;
+}
+
+
 type MermaidResult =
   | { success: true; svg: string }
   | { success: false; error: string };
@@ -0,0 +1,120 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, IconButton, Tooltip } from '@mui/joy';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+
+import { copyToClipboard } from '~/common/util/clipboardUtils';
+
+
+// configuration
+const EXPANDED_DEPTH = 2; // levels expanded at first; deeper objects and arrays start collapsed
+
+
+const _styles = {
+  container: {
+    position: 'relative',
+    mx: 1.5,
+    p: 1.5,
+    overflowX: 'auto',
+    whiteSpace: 'pre',
+  },
+  copyButton: {
+    position: 'absolute',
+    top: 4,
+    right: 4,
+  },
+  children: {
+    pl: 2.5,
+    borderLeft: '1px dashed',
+    borderColor: 'divider',
+    ml: '0.35em',
+  },
+  toggle: {
+    cursor: 'pointer',
+    userSelect: 'none',
+    '&:hover': { color: 'primary.plainColor' },
+  },
+  key: { color: 'primary.plainColor' },
+  string: { color: 'success.plainColor' },
+  number: { color: 'warning.plainColor' },
+  literal: { color: 'danger.plainColor' },
+  summary: { color: 'text.tertiary' },
+} as const satisfies Record<string, SxProps>;
+
+
+function JsonValue(props: { value: unknown }) {
+  const { value } = props;
+  if (typeof value === 'string')
+    return <Box component='span' sx={_styles.string}>{JSON.stringify(value)}</Box>;
+  if (typeof value === 'number')
+    return <Box component='span' sx={_styles.number}>{String(value)}</Box>;
+  return <Box component='span' sx={_styles.literal}>{String(value)}</Box>; // boolean, null
+}
+
+
+function JsonNode(props: { name?: string | number, value: unknown, depth: number, isLast: boolean }) {
+
+  const { name, value, depth, isLast } = props;
+  const isArray = Array.isArray(value);
+  const isContainer = isArray || (!!value && typeof value === 'object');
+
+  // state
+  const [expanded, setExpanded] = React.useState(depth < EXPANDED_DEPTH);
+
+  const keyLabel = name === undefined ? null
+    : typeof name === 'number' ? <Box component='span' sx={_styles.summary}>{name}: </Box>
+      : <><Box component='span' sx={_styles.key}>{JSON.stringify(name)}</Box>: </>;
+  const comma = isLast ? '' : ',';
+
+  if (!isContainer)
+    return <div>{keyLabel}<JsonValue value={value} />{comma}</div>;
+
+  const entries: [string | number, unknown][] = isArray ? value.map((item, index) => [index, item]) : Object.entries(value as object);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  if (!entries.length)
+    return <div>{keyLabel}{open}{close}{comma}</div>;
+
+  return <>
+    <div>
+      {keyLabel}
+      <Box component='span' sx={_styles.toggle} onClick={() => setExpanded(on => !on)}>
+        {expanded ? '▾ ' : '▸ '}{open}
+      </Box>
+      {!expanded && <>
+        <Box component='span' sx={_styles.summary}> {entries.length} {isArray ? (entries.length === 1 ? 'item' : 'items') : (entries.length === 1 ? 'key' : 'keys')} </Box>
+        {close}{comma}
+      </>}
+    </div>
+    {expanded && <>
+      <Box sx={_styles.children}>
+        {entries.map(([childName, childValue], index) => (
+          <JsonNode key={childName} name={childName} value={childValue} depth={depth + 1} isLast={index === entries.length - 1} />
+        ))}
+      </Box>
+      <div>{close}{comma}</div>
+    </>}
+  </>;
+}
+
+
+/**
+ * Collapsible tree of a JSON value, e.g. a reply constrained to a response schema.
+ */
+export function RenderJsonTree(props: { json: unknown, sx?: SxProps }) {
+
+  const { json } = props;
+  const handleCopy = React.useCallback(() => copyToClipboard(JSON.stringify(json, null, 2), 'JSON'), [json]);
+
+  return (
+    <Box sx={{ ...props.sx, ..._styles.container }}>
+      <Tooltip title='Copy JSON'>
+        <IconButton size='sm' variant='plain' onClick={handleCopy} sx={_styles.copyButton}>
+          <ContentCopyIcon />
+        </IconButton>
+      </Tooltip>
+      <JsonNode value={json} depth={0} isLast />
+    </Box>
+  );
+}
@@ -79,8 +79,8 @@ export function BrowseSettings() {
     </FormControl>
 
     <FormControl disabled={!mayWork}>
-      <Checkbox size='sm' label='ReAct' checked={inReact} onChange={(event) => setEnableReactTool(event.target.checked)} />
-      <FormHelperText sx={_styleHelperText}>Enables loadURL() in ReAct</FormHelperText>
+      <Checkbox size='sm' label='Agent' checked={inReact} onChange={(event) => setEnableReactTool(event.target.checked)} />
+      <FormHelperText sx={_styleHelperText}>Lets the Agent open web pages</FormHelperText>
     </FormControl>
 
     <FormControl disabled>
@@ -53,6 +53,16 @@ export const useBrowseStore = create<BrowseState>()(
 );
 
 
+function _isValidWssEndpoint(wssEndpoint: string): boolean {
+  return (wssEndpoint?.startsWith('wss://') && wssEndpoint?.length > 10) || (wssEndpoint?.startsWith('ws://') && wssEndpoint?.length > 9);
+}
+
+/** Non-reactive version of `useBrowseCapability().mayWork`, for use outside of components */
+export function getBrowseMayWork(): boolean {
+  const { wssEndpoint } = useBrowseStore.getState();
+  return getBackendCapabilities().hasBrowsing || (!!wssEndpoint && _isValidWssEndpoint(wssEndpoint));
+}
+
 export function useBrowseCapability(): CapabilityBrowsing {
   // server config
   const isServerConfig = getBackendCapabilities().hasBrowsing;
@@ -62,7 +72,7 @@ export function useBrowseCapability(): CapabilityBrowsing {
 
   // derived state
   const isClientConfig = !!wssEndpoint;
-  const isClientValid = (wssEndpoint?.startsWith('wss://') && wssEndpoint?.length > 10) || (wssEndpoint?.startsWith('ws://') && wssEndpoint?.length > 9);
+  const isClientValid = _isValidWssEndpoint(wssEndpoint);
   const mayWork = isServerConfig || (isClientConfig && isClientValid);
 
   return {
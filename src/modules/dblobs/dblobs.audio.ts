@@ -0,0 +1,51 @@
+import { convert_Blob_To_Base64 } from '~/common/util/blobUtils';
+
+import { _addDBAsset, gcDBAssetsByScope, getDBAsset } from './dblobs.db';
+import { _createAssetObject, DBlobAssetId, DBlobAssetType, DBlobAudioAsset, DBlobDBContextId, DBlobDBScopeId } from './dblobs.types';
+
+
+export async function addDBAudioAsset(
+  scopeId: DBlobDBScopeId,
+  audioBlob: Blob,
+  audio: {
+    label: string,
+    origin: DBlobAudioAsset['origin'],
+    metadata: DBlobAudioAsset['metadata'],
+  },
+): Promise<DBlobAssetId> {
+
+  // Blob -> base64
+  const base64Data = await convert_Blob_To_Base64(audioBlob, 'addDBAudioAsset');
+  const audioType = audioBlob.type; // We assume the mime type is supported (mpeg, wav)
+
+  const assetData: DBlobAudioAsset['data'] = {
+    base64: base64Data,
+    mimeType: audioType as any,
+  };
+
+  // create the audio asset object
+  const audioAsset = _createAssetObject(
+    DBlobAssetType.AUDIO,
+    audio.label,
+    assetData,
+    audio.origin,
+    audio.metadata,
+  );
+
+  // DB add
+  return _addDBAsset<typeof audioAsset>(audioAsset, 'global', scopeId);
+}
+
+
+// R
+
+export async function getAudioAsset(id: DBlobAssetId) {
+  return await getDBAsset<DBlobAudioAsset>(id);
+}
+
+
+// D
+
+export async function gcDBAudioAssets(contextId: DBlobDBContextId, scopeId: DBlobDBScopeId, keepIds: DBlobAssetId[]) {
+  await gcDBAssetsByScope(contextId, scopeId, DBlobAssetType.AUDIO, keepIds);
+}
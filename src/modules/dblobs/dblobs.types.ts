@@ -17,7 +17,7 @@ export type DBlobDBScopeId = 'app-chat' | 'app-draw' | 'attachment-drafts';
 
 // Assets
 
-export type DBlobAsset = DBlobImageAsset | DBlobAudioAsset; // | DBlobVideoAsset | DBlobDocumentAsset | DBlobTextAsset;
+export type DBlobAsset = DBlobImageAsset | DBlobAudioAsset | DBlobVideoAsset; // | DBlobDocumentAsset | DBlobTextAsset;
 
 export type DBlobImageAsset = DBlobAssetImplV1<
   /* assetType: */ DBlobAssetType.IMAGE,
@@ -31,7 +31,12 @@ export type DBlobAudioAsset = DBlobAssetImplV1<
   /* metadata: */ AudioAssetMetadata
 >;
 
-// type DBlobVideoAsset = DBlobAssetImplV1<DBlobAssetType.VIDEO, DBlobDataMimeType.VIDEO_MP4, VideoAssetMetadata>;
+export type DBlobVideoAsset = DBlobAssetImplV1<
+  /* assetType: */ DBlobAssetType.VIDEO,
+  /* data: <mime> */ DBlobMimeType.VIDEO_MP4 | DBlobMimeType.VIDEO_WEBM | DBlobMimeType.VIDEO_QUICKTIME | DBlobMimeType.VIDEO_MPEG,
+  /* metadata: */ VideoAssetMetadata
+>;
+
 // type DBlobDocumentAsset = DBlobAssetImplV1<DBlobAssetType.DOCUMENT, DBlobDataMimeType.DOCUMENT_PDF, DocumentAssetMetadata>;
 // type DBlobTextAsset = DBlobAssetImplV1<DBlobAssetType.TEXT, DBlobDataMimeType.DOCUMENT_PLAIN, {}>;
 
@@ -61,7 +66,7 @@ export type DBlobAssetId = string;
 export enum DBlobAssetType {
   IMAGE = 'image',
   AUDIO = 'audio',
-  // VIDEO = 'video',
+  VIDEO = 'video',
   // DOCUMENT = 'document',
   // EGO = 'ego',
 }
@@ -81,7 +86,7 @@ interface DBlobAssetData<M extends DBlobMimeType> {
 export enum DBlobMimeType {
   IMG_PNG = 'image/png', IMG_JPEG = 'image/jpeg', IMG_WEBP = 'image/webp',
   AUDIO_MPEG = 'audio/mpeg', AUDIO_WAV = 'audio/wav',
-  // VIDEO_MP4 = 'video/mp4',
+  VIDEO_MP4 = 'video/mp4', VIDEO_WEBM = 'video/webm', VIDEO_QUICKTIME = 'video/quicktime', VIDEO_MPEG = 'video/mpeg',
   // DOCUMENT_PDF = 'application/pdf', DOCUMENT_PLAIN = 'text/plain', DOCUMENT_HTML = 'text/html',
 }
 
@@ -165,7 +170,7 @@ interface AudioAssetMetadata {
   // genre?: string; // Genre of the audio (optional)
 }
 
-/*interface VideoMetadata {
+interface VideoAssetMetadata {
   width: number;
   height: number;
   duration: number; // Duration in seconds
@@ -177,7 +182,7 @@ interface AudioAssetMetadata {
   // genre?: string; // Genre of the video (optional)
 }
 
-interface DocumentMetadata {
+/*interface DocumentMetadata {
   pageCount: number; // Number of pages in the document
   author?: string; // Author of the document (optional)
   title?: string; // Title of the document (optional)
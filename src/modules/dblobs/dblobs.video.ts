@@ -0,0 +1,51 @@
+import { convert_Blob_To_Base64 } from '~/common/util/blobUtils';
+
+import { _addDBAsset, gcDBAssetsByScope, getDBAsset } from './dblobs.db';
+import { _createAssetObject, DBlobAssetId, DBlobAssetType, DBlobDBContextId, DBlobDBScopeId, DBlobVideoAsset } from './dblobs.types';
+
+
+export async function addDBVideoAsset(
+  scopeId: DBlobDBScopeId,
+  videoBlob: Blob,
+  video: {
+    label: string,
+    origin: DBlobVideoAsset['origin'],
+    metadata: DBlobVideoAsset['metadata'],
+  },
+): Promise<DBlobAssetId> {
+
+  // Blob -> base64
+  const base64Data = await convert_Blob_To_Base64(videoBlob, 'addDBVideoAsset');
+  const videoType = videoBlob.type; // We assume the mime type is supported (mp4, webm, mov, mpeg)
+
+  const assetData: DBlobVideoAsset['data'] = {
+    base64: base64Data,
+    mimeType: videoType as any,
+  };
+
+  // create the video asset object
+  const videoAsset = _createAssetObject(
+    DBlobAssetType.VIDEO,
+    video.label,
+    assetData,
+    video.origin,
+    video.metadata,
+  );
+
+  // DB add
+  return _addDBAsset<typeof videoAsset>(videoAsset, 'global', scopeId);
+}
+
+
+// R
+
+export async function getVideoAsset(id: DBlobAssetId) {
+  return await getDBAsset<DBlobVideoAsset>(id);
+}
+
+
+// D
+
+export async function gcDBVideoAssets(contextId: DBlobDBContextId, scopeId: DBlobDBScopeId, keepIds: DBlobAssetId[]) {
+  await gcDBAssetsByScope(contextId, scopeId, DBlobAssetType.VIDEO, keepIds);
+}
@@ -1,3 +1,5 @@
+import { getBackendCapabilities } from '~/modules/backend/store-backend-capabilities';
+
 import { apiAsync } from '~/common/util/trpc.client';
 
 import { Search } from './search.types';
@@ -7,6 +9,12 @@ import { useGoogleSearchStore } from './store-module-google';
 export const isValidGoogleCloudApiKey = (apiKey?: string) => !!apiKey && apiKey.trim()?.length >= 39;
 export const isValidGoogleCseId = (cseId?: string) => !!cseId && cseId.trim()?.length >= 17;
 
+/** True if searches can be performed, with either the server-side or the client-side keys */
+export function isGoogleSearchConfigured(): boolean {
+  const { googleCloudApiKey, googleCSEId } = useGoogleSearchStore.getState();
+  return getBackendCapabilities().hasGoogleCustomSearch || (isValidGoogleCloudApiKey(googleCloudApiKey) && isValidGoogleCseId(googleCSEId));
+}
+
 
 /**
  * This function either returns the Search JSON response, or throws a descriptive error string
@@ -0,0 +1,381 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Alert, Box, Button, Checkbox, Divider, FormControl, FormHelperText, FormLabel, IconButton, Input, List, ListItem, ListItemContent, ListItemDecorator, Option, Radio, RadioGroup, Select, Sheet, Typography } from '@mui/joy';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import ClearIcon from '@mui/icons-material/Clear';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import DescriptionOutlinedIcon from '@mui/icons-material/DescriptionOutlined';
+
+import { useBrowseCapability } from '~/modules/browse/store-module-browsing';
+import { usePersonas } from '~/modules/persona/store-personas';
+import { useRagStore } from '~/modules/rag/store-module-rag';
+
+import type { AttachmentDraftsStoreApi } from '~/common/attachment-drafts/store-attachment-drafts_slice';
+import { AttachmentDraftsList } from '~/common/attachment-drafts/attachment-drafts-ui/AttachmentDraftsList';
+import { AttachmentSourcesMemo } from '~/common/attachment-drafts/attachment-sources/AttachmentSources';
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { createAttachmentDraftsVanillaStore } from '~/common/attachment-drafts/store-attachment-drafts_vanilla';
+import { estimateTokensForFragments } from '~/common/stores/chat/chat.tokens';
+import { isDocPart } from '~/common/stores/chat/chat.fragments';
+import { useAttachHandler_Files, useAttachHandler_UrlWebLinks } from '~/common/attachment-drafts/attachment-sources/useAttachmentSourceHandlers';
+import { useAttachmentDrafts } from '~/common/attachment-drafts/useAttachmentDrafts';
+import { useFolderStore } from '~/common/stores/folders/store-chat-folders';
+import { useLLM } from '~/common/stores/llms/llms.hooks';
+import { useModelDomain } from '~/common/stores/llms/hooks/useModelDomain';
+
+import { DKnowledgeCollection, DKnowledgeCollectionId, DKnowledgeMode, knowledgeStoreActions, useKnowledgeCollections } from './store-knowledge';
+
+
+const _styles = {
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 1,
+  },
+  docsList: {
+    '--ListItem-minHeight': '2.25rem',
+    '--ListItemDecorator-size': '2rem',
+  },
+  docSize: {
+    fontSize: 'xs',
+    color: 'text.tertiary',
+    fontVariantNumeric: 'tabular-nums',
+    whiteSpace: 'nowrap',
+  },
+  addDocs: {
+    p: 1,
+    borderRadius: 'sm',
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 1,
+  },
+  bindings: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(10rem, 1fr))',
+    gap: 1,
+  },
+} as const satisfies Record<string, SxProps>;
+
+
+/**
+ * Management of the knowledge collections: documents, inclusion mode, and bindings to folders and personas.
+ */
+export function KnowledgeModal(props: {
+  initialCollectionId?: DKnowledgeCollectionId,
+  onClose: () => void,
+}) {
+
+  // state
+  const [selectedId, setSelectedId] = React.useState<DKnowledgeCollectionId | null>(props.initialCollectionId ?? null);
+
+  // external state
+  const collections = useKnowledgeCollections();
+
+  // derived state
+  const collection = collections.find(c => c.id === selectedId) ?? collections[0] ?? null;
+
+
+  // handlers
+
+  const handleCreateCollection = React.useCallback(() => {
+    setSelectedId(knowledgeStoreActions().createCollection('New Collection'));
+  }, []);
+
+  const handleDeleteCollection = React.useCallback((collectionId: DKnowledgeCollectionId) => {
+    // unbind from the folders first
+    const { folders, setFolderKnowledgeBound } = useFolderStore.getState();
+    folders.forEach(folder => folder.knowledgeIds?.includes(collectionId) && setFolderKnowledgeBound(folder.id, collectionId, false));
+    knowledgeStoreActions().deleteCollection(collectionId);
+    setSelectedId(null);
+  }, []);
+
+
+  return (
+    <GoodModal
+      open
+      title='Knowledge'
+      dividers
+      autoOverflow
+      onClose={props.onClose}
+      startButton={
+        <Button variant='plain' startDecorator={<AddRoundedIcon />} onClick={handleCreateCollection}>
+          New Collection
+        </Button>
+      }
+      sx={{ minWidth: { md: 640 } }}
+    >
+
+      <Typography level='body-sm'>
+        Collections of documents that are included in every conversation of the folders and personas they are bound to.
+      </Typography>
+
+      {!collection ? (
+        <Typography level='body-sm' sx={{ fontStyle: 'italic', textAlign: 'center', py: 2 }}>
+          No collections yet.
+        </Typography>
+      ) : <>
+
+        {collections.length >= 2 && (
+          <Select value={collection.id} onChange={(_, value) => value && setSelectedId(value)}>
+            {collections.map(c => (
+              <Option key={c.id} value={c.id}>
+                {c.title || 'Untitled'} · {c.docs.length} {c.docs.length === 1 ? 'document' : 'documents'}
+              </Option>
+            ))}
+          </Select>
+        )}
+
+        <KnowledgeCollectionEditor key={collection.id} collection={collection} onDelete={handleDeleteCollection} />
+
+      </>}
+
+    </GoodModal>
+  );
+}
+
+
+function KnowledgeCollectionEditor(props: {
+  collection: DKnowledgeCollection,
+  onDelete: (collectionId: DKnowledgeCollectionId) => void,
+}) {
+
+  // state
+  const [deleteArmed, setDeleteArmed] = React.useState(false);
+
+  // external state
+  const { domainModelId: chatLLMId } = useModelDomain('primaryChat');
+  const chatLLM = useLLM(chatLLMId);
+  const folders = useFolderStore(useShallow(state => state.folders));
+  const hasEmbeddings = useRagStore(state => !!state.embeddingServiceId);
+  const personas = usePersonas();
+
+  // derived state
+  const { collection, onDelete } = props;
+  const { id: collectionId, docs } = collection;
+
+  const { docsTokens, totalTokens, totalChars } = React.useMemo(() => {
+    const docsTokens = docs.map(doc => chatLLM ? estimateTokensForFragments(chatLLM, 'system', [doc], false, 'KnowledgeModal') : null);
+    return {
+      docsTokens,
+      totalTokens: chatLLM ? docsTokens.reduce((sum: number, tokens) => sum + (tokens ?? 0), 0) : null,
+      totalChars: docs.reduce((sum, doc) => sum + (isDocPart(doc.part) ? doc.part.data.text.length : 0), 0),
+    };
+  }, [chatLLM, docs]);
+
+  const contextTokens = chatLLM?.contextTokens ?? null;
+  const overflowsContext = collection.mode === 'full' && !!totalTokens && !!contextTokens && totalTokens > contextTokens / 2;
+
+
+  // handlers
+
+  const handleModeChange = React.useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    knowledgeStoreActions().setCollectionMode(collectionId, event.target.value as DKnowledgeMode);
+  }, [collectionId]);
+
+
+  return <>
+
+    {/* Title */}
+    <FormControl>
+      <FormLabel>Name</FormLabel>
+      <Input
+        value={collection.title}
+        onChange={event => knowledgeStoreActions().setCollectionTitle(collectionId, event.target.value)}
+        placeholder='Collection name'
+      />
+    </FormControl>
+
+    {/* Documents */}
+    <Box sx={_styles.section}>
+      <FormLabel>Documents</FormLabel>
+      {docs.length > 0 && (
+        <List size='sm' sx={_styles.docsList}>
+          {docs.map((doc, index) => (
+            <ListItem
+              key={doc.fId}
+              endAction={
+                <IconButton size='sm' aria-label='Remove document' onClick={() => knowledgeStoreActions().removeCollectionDoc(collectionId, doc.fId)}>
+                  <ClearIcon />
+                </IconButton>
+              }
+            >
+              <ListItemDecorator><DescriptionOutlinedIcon /></ListItemDecorator>
+              <ListItemContent sx={{ minWidth: 0 }}>
+                <Typography level='body-sm' noWrap>{doc.title || (isDocPart(doc.part) ? doc.part.l1Title : 'Document')}</Typography>
+              </ListItemContent>
+              <Typography sx={_styles.docSize}>
+                {docsTokens[index] !== null ? `${docsTokens[index]!.toLocaleString()} tokens` : `${(isDocPart(doc.part) ? doc.part.data.text.length : 0).toLocaleString()} chars`}
+              </Typography>
+            </ListItem>
+          ))}
+        </List>
+      )}
+      <KnowledgeAddDocuments collectionId={collectionId} />
+      <FormHelperText>
+        {docs.length} {docs.length === 1 ? 'document' : 'documents'} · {totalChars.toLocaleString()} characters
+        {totalTokens !== null && <> · {totalTokens.toLocaleString()} tokens{chatLLM ? ` (${chatLLM.label})` : ''}</>}
+      </FormHelperText>
+      {overflowsContext && (
+        <Alert variant='soft' color='warning'>
+          This collection takes more than half of the context window of {chatLLM?.label}. Consider including only the relevant parts.
+        </Alert>
+      )}
+    </Box>
+
+    {/* Mode */}
+    <FormControl>
+      <FormLabel>Include</FormLabel>
+      <RadioGroup orientation='horizontal' value={collection.mode} onChange={handleModeChange}>
+        <Radio value='full' label='Full documents' />
+        <Radio value='retrieved' label='Relevant parts' />
+      </RadioGroup>
+      <FormHelperText>
+        {collection.mode === 'full'
+          ? 'The whole documents are sent with every message.'
+          : hasEmbeddings
+            ? 'Only the parts relevant to your last message are sent.'
+            : 'Requires an embeddings service, in Settings > Tools > Retrieval. Until then, the full documents are sent.'}
+      </FormHelperText>
+    </FormControl>
+
+    <Divider />
+
+    {/* Bindings */}
+    <Box sx={_styles.section}>
+      <FormLabel>Folders</FormLabel>
+      {!folders.length ? (
+        <Typography level='body-xs'>No folders. Create folders in the chats list to bind collections to them.</Typography>
+      ) : (
+        <Box sx={_styles.bindings}>
+          {folders.map(folder => (
+            <Checkbox
+              key={folder.id}
+              size='sm'
+              label={folder.title}
+              checked={!!folder.knowledgeIds?.includes(collectionId)}
+              onChange={event => useFolderStore.getState().setFolderKnowledgeBound(folder.id, collectionId, event.target.checked)}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+
+    <Box sx={_styles.section}>
+      <FormLabel>Personas</FormLabel>
+      <Box sx={_styles.bindings}>
+        {personas.map(persona => (
+          <Checkbox
+            key={persona.id}
+            size='sm'
+            label={`${persona.symbol} ${persona.title}`}
+            checked={collection.personaIds.includes(persona.id)}
+            onChange={event => knowledgeStoreActions().setCollectionPersonaBound(collectionId, persona.id, event.target.checked)}
+          />
+        ))}
+      </Box>
+    </Box>
+
+    <Divider />
+
+    {/* Delete */}
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {!deleteArmed ? (
+        <Button variant='plain' color='neutral' startDecorator={<DeleteOutlineIcon />} onClick={() => setDeleteArmed(true)}>
+          Delete Collection
+        </Button>
+      ) : <>
+        <Button variant='plain' color='neutral' onClick={() => setDeleteArmed(false)}>
+          Cancel
+        </Button>
+        <Button variant='solid' color='danger' startDecorator={<DeleteOutlineIcon />} onClick={() => onDelete(collectionId)}>
+          Confirm Deletion
+        </Button>
+      </>}
+    </Box>
+
+  </>;
+}
+
+
+const _noop = () => {};
+
+/**
+ * Files and web pages are converted to documents with the attachments pipeline, then added to the collection.
+ */
+function KnowledgeAddDocuments(props: { collectionId: DKnowledgeCollectionId }) {
+
+  // state
+  const storeApiRef = React.useRef<AttachmentDraftsStoreApi | null>(null);
+  if (!storeApiRef.current) storeApiRef.current = createAttachmentDraftsVanillaStore(); // created only on mount
+
+  // external state
+  const {
+    attachmentDrafts,
+    attachAppendClipboardItems, attachAppendFile, attachAppendUrl,
+    attachmentsTakeFragmentsByType,
+  } = useAttachmentDrafts(storeApiRef.current, false, false, undefined, false);
+  const browseCapability = useBrowseCapability();
+
+  // derived state
+  const isConverting = attachmentDrafts.some(draft => draft.outputsConverting);
+  const hasDocs = attachmentDrafts.some(draft => draft.outputFragments.some(fragment => fragment.part.pt === 'doc'));
+
+
+  // [effect] cleanup on unmount
+  React.useEffect(() => {
+    const store = storeApiRef.current;
+    return () => {
+      store?.getState().removeAllAttachmentDrafts();
+    };
+  }, []);
+
+
+  // handlers
+
+  const handleAttachFiles = useAttachHandler_Files(attachAppendFile);
+  const { openWebInputDialog, webInputDialogComponent } = useAttachHandler_UrlWebLinks(attachAppendUrl);
+
+  const { collectionId } = props;
+  const handleAddDocuments = React.useCallback(() => {
+    const docFragments = attachmentsTakeFragmentsByType('doc', null, true);
+    knowledgeStoreActions().appendCollectionDocs(collectionId, docFragments);
+    storeApiRef.current?.getState().removeAllAttachmentDrafts(); // non-doc leftovers (e.g. images) are not kept
+  }, [attachmentsTakeFragmentsByType, collectionId]);
+
+
+  return <>
+
+    <Sheet variant='soft' sx={_styles.addDocs}>
+
+      <AttachmentSourcesMemo
+        mode='inline-buttons'
+        canBrowse={browseCapability.mayWork}
+        hasCamera={false}
+        hasScreenCapture={false}
+        onAttachClipboard={attachAppendClipboardItems}
+        onAttachFiles={handleAttachFiles}
+        onAttachScreenCapture={_noop /* hidden */}
+        onOpenCamera={_noop /* hidden */}
+        onOpenWebInput={openWebInputDialog}
+      />
+
+      {attachmentDrafts.length > 0 && <>
+        <AttachmentDraftsList
+          attachmentDraftsStoreApi={storeApiRef.current!}
+          attachmentDrafts={attachmentDrafts}
+          buttonsCanWrap
+        />
+        <Button size='sm' disabled={isConverting || !hasDocs} onClick={handleAddDocuments} sx={{ ml: 'auto' }}>
+          Add to Collection
+        </Button>
+      </>}
+
+    </Sheet>
+
+    {webInputDialogComponent}
+
+  </>;
+}
@@ -0,0 +1,101 @@
+import { ragChatQuery, ragExcerptsText, ragRetrievedChunksMetadata } from '~/modules/rag/rag.chat';
+import { ragRetrieveTopChunks, RagDocument } from '~/modules/rag/rag.retrieval';
+import { useRagStore } from '~/modules/rag/store-module-rag';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import { createDMessageFromFragments, DMessage, DMetaRetrievedChunk } from '~/common/stores/chat/chat.message';
+import { DMessageAttachmentFragment, isDocPart } from '~/common/stores/chat/chat.fragments';
+import { useFolderStore } from '~/common/stores/folders/store-chat-folders';
+
+import { DKnowledgeCollection, useKnowledgeStore } from './store-knowledge';
+
+
+export interface KnowledgeChatResult {
+  chatSystemInstruction: DMessage;
+  retrievedChunks: DMetaRetrievedChunk[];
+  retrievalError: string | null;    // retrieval failed, and the full documents were included instead
+}
+
+
+/**
+ * The knowledge collections bound to the folder of the conversation, or to its persona.
+ */
+export function knowledgeCollectionsForConversation(conversationId: DConversationId, personaId: string | null): DKnowledgeCollection[] {
+  const folderKnowledgeIds = useFolderStore.getState().folders
+    .filter(folder => folder.conversationIds.includes(conversationId))
+    .flatMap(folder => folder.knowledgeIds ?? []);
+  return useKnowledgeStore.getState().collections.filter(collection =>
+    folderKnowledgeIds.includes(collection.id) || (!!personaId && collection.personaIds.includes(personaId)),
+  );
+}
+
+
+/**
+ * Appends the documents of the bound knowledge collections to the system instruction: in full, or
+ * only their chunks relevant to the last user message, depending on the collection.
+ * The conversation is not modified.
+ *
+ * @returns null when no documents are bound to the conversation
+ */
+export async function knowledgeAugmentSystemInstruction(
+  conversationId: DConversationId,
+  personaId: string | null,
+  chatSystemInstruction: DMessage | null,
+  chatHistory: Readonly<DMessage[]>,
+  abortSignal: AbortSignal,
+): Promise<KnowledgeChatResult | null> {
+
+  const collections = knowledgeCollectionsForConversation(conversationId, personaId);
+  const fullDocs = collections.filter(c => c.mode === 'full').flatMap(c => c.docs);
+  const retrievedDocs = collections.filter(c => c.mode === 'retrieved').flatMap(c => c.docs);
+  if (!fullDocs.length && !retrievedDocs.length)
+    return null;
+
+  let retrievedChunks: DMetaRetrievedChunk[] = [];
+  let retrievalError: string | null = null;
+  let retrievedFragments: DMessageAttachmentFragment[] = retrievedDocs;
+
+  const query = ragChatQuery(chatHistory);
+  if (retrievedDocs.length && query) {
+    try {
+      const { topK, chunkChars } = useRagStore.getState();
+      const documents = retrievedDocs.map(_ragDocument);
+      const topChunks = await ragRetrieveTopChunks(documents, query, topK, chunkChars, abortSignal);
+
+      // keep only the documents with relevant chunks, replaced by their excerpts
+      retrievedFragments = retrievedDocs.flatMap((fragment, docIndex) => {
+        const docChunks = topChunks.filter(chunk => chunk.docIndex === docIndex).sort((a, b) => a.chunkIndex - b.chunkIndex);
+        if (!docChunks.length || !isDocPart(fragment.part)) return [];
+        return [{
+          ...fragment,
+          part: { ...fragment.part, data: { ...fragment.part.data, text: ragExcerptsText(docChunks) } },
+        } as DMessageAttachmentFragment];
+      });
+      retrievedChunks = ragRetrievedChunksMetadata(topChunks, documents);
+    } catch (error: any) {
+      if (abortSignal.aborted) throw error;
+      retrievalError = error?.message || 'unknown error';
+    }
+  }
+
+  const systemInstruction = chatSystemInstruction ?? createDMessageFromFragments('system', []);
+  return {
+    chatSystemInstruction: {
+      ...systemInstruction,
+      fragments: [...systemInstruction.fragments, ...fullDocs, ...retrievedFragments],
+    },
+    retrievedChunks,
+    retrievalError,
+  };
+}
+
+
+function _ragDocument(fragment: DMessageAttachmentFragment): RagDocument {
+  const docPart = isDocPart(fragment.part) ? fragment.part : null;
+  return {
+    ref: docPart?.ref ?? fragment.fId,
+    version: docPart?.version ?? 1,
+    title: fragment.title || docPart?.l1Title || '',
+    text: docPart?.data.text ?? '',
+  };
+}
@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { DMessageAttachmentFragment } from '~/common/stores/chat/chat.fragments';
+import { agiUuid } from '~/common/util/idUtils';
+import { createIDBPersistStorage } from '~/common/util/idbUtils';
+
+
+/**
+ * Knowledge collection: a named set of documents that is included in the conversations
+ * of the folders and personas it is bound to, so that they don't have to be re-attached.
+ */
+export interface DKnowledgeCollection {
+  id: DKnowledgeCollectionId;
+  title: string;
+  /**
+   * How the documents are included in the conversations:
+   * - full: the whole text, in the system instruction
+   * - retrieved: only the chunks relevant to the last user message (requires an embeddings service)
+   */
+  mode: DKnowledgeMode;
+  docs: DMessageAttachmentFragment[]; // 'doc' attachment fragments
+  personaIds: string[];               // personas (system purposes) this is bound to; folders reference collections instead
+  created: number;
+  updated: number;
+}
+
+export type DKnowledgeCollectionId = string;
+export type DKnowledgeMode = 'full' | 'retrieved';
+
+
+interface KnowledgeState {
+  collections: DKnowledgeCollection[];
+}
+
+interface KnowledgeActions {
+  createCollection: (title: string) => DKnowledgeCollectionId;
+  deleteCollection: (collectionId: DKnowledgeCollectionId) => void;
+  setCollectionTitle: (collectionId: DKnowledgeCollectionId, title: string) => void;
+  setCollectionMode: (collectionId: DKnowledgeCollectionId, mode: DKnowledgeMode) => void;
+  appendCollectionDocs: (collectionId: DKnowledgeCollectionId, docs: DMessageAttachmentFragment[]) => void;
+  removeCollectionDoc: (collectionId: DKnowledgeCollectionId, fragmentId: DMessageAttachmentFragment['fId']) => void;
+  setCollectionPersonaBound: (collectionId: DKnowledgeCollectionId, personaId: string, bound: boolean) => void;
+}
+
+type KnowledgeStore = KnowledgeState & KnowledgeActions;
+
+export const useKnowledgeStore = create<KnowledgeStore>()(
+  persist(
+    (set) => {
+
+      const _updateCollection = (collectionId: DKnowledgeCollectionId, update: (collection: DKnowledgeCollection) => Partial<DKnowledgeCollection>) =>
+        set(state => ({
+          collections: state.collections.map(collection => collection.id !== collectionId ? collection : {
+            ...collection,
+            ...update(collection),
+            updated: Date.now(),
+          }),
+        }));
+
+      return {
+
+        // Initial state
+        collections: [],
+
+        // Actions
+        createCollection: (title: string) => {
+          const newCollection: DKnowledgeCollection = {
+            id: agiUuid('knowledge-collection'),
+            title,
+            mode: 'full',
+            docs: [],
+            personaIds: [],
+            created: Date.now(),
+            updated: Date.now(),
+          };
+          set(state => ({
+            collections: [...state.collections, newCollection],
+          }));
+          return newCollection.id;
+        },
+
+        deleteCollection: (collectionId: DKnowledgeCollectionId) =>
+          set(state => ({
+            collections: state.collections.filter(collection => collection.id !== collectionId),
+          })),
+
+        setCollectionTitle: (collectionId: DKnowledgeCollectionId, title: string) =>
+          _updateCollection(collectionId, () => ({ title })),
+
+        setCollectionMode: (collectionId: DKnowledgeCollectionId, mode: DKnowledgeMode) =>
+          _updateCollection(collectionId, () => ({ mode })),
+
+        appendCollectionDocs: (collectionId: DKnowledgeCollectionId, docs: DMessageAttachmentFragment[]) =>
+          _updateCollection(collectionId, collection => ({
+            docs: [...collection.docs, ...docs.filter(doc => doc.part.pt === 'doc')],
+          })),
+
+        removeCollectionDoc: (collectionId: DKnowledgeCollectionId, fragmentId: DMessageAttachmentFragment['fId']) =>
+          _updateCollection(collectionId, collection => ({
+            docs: collection.docs.filter(doc => doc.fId !== fragmentId),
+          })),
+
+        setCollectionPersonaBound: (collectionId: DKnowledgeCollectionId, personaId: string, bound: boolean) =>
+          _updateCollection(collectionId, collection => ({
+            personaIds: !bound
+              ? collection.personaIds.filter(id => id !== personaId)
+              : collection.personaIds.includes(personaId) ? collection.personaIds : [...collection.personaIds, personaId],
+          })),
+
+      };
+    },
+    {
+      name: 'app-knowledge',
+      storage: createIDBPersistStorage<KnowledgeStore>(), // documents can be large, keep them out of localStorage
+    },
+  ),
+);
+
+
+export function useKnowledgeCollections(): DKnowledgeCollection[] {
+  return useKnowledgeStore(useShallow(state => state.collections));
+}
+
+export function knowledgeStoreActions(): KnowledgeActions {
+  return useKnowledgeStore.getState();
+}
@@ -29,6 +29,7 @@ import { useLLM, useModelsServices } from '~/common/stores/llms/llms.hooks';
 
 import { LLMOptionsClone } from './LLMOptionsClone';
 import { LLMOptionsGlobal } from './LLMOptionsGlobal';
+import { LLMOptionsStatistics } from './LLMOptionsStatistics';
 import { LLMVendorIconSprite } from '../components/LLMVendorIconSprite';
 
 
@@ -493,6 +494,11 @@ export function LLMOptionsModal(props: { id: DLLMId, context?: ModelOptionsConte
       </Box>}
 
 
+      {/* Live Statistics */}
+
+      <LLMOptionsStatistics llmId={llm.id} />
+
+
       {/* Details Text */}
 
       {showDetails && <FormControl orientation='horizontal' sx={{ flexWrap: 'nowrap', gap: 1 }}>
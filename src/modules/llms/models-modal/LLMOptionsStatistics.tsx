@@ -0,0 +1,58 @@
+import * as React from 'react';
+import TimeAgo from 'react-timeago';
+
+import { Box, Chip, FormControl, Link, Typography } from '@mui/joy';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { FormLabelStart } from '~/common/components/forms/FormLabelStart';
+import { LLM_METRICS_ERROR_LABELS, LlmMetricsErrorKind } from '~/common/stores/metrics/metrics.llms';
+import { formatModelsCost } from '~/common/util/costUtils';
+import { metricsStoreResetLlm, useLlmMetricsSummary } from '~/common/stores/metrics/store-metrics';
+
+
+/**
+ * Live statistics of the model, from the responses to our own requests.
+ */
+export function LLMOptionsStatistics(props: { llmId: DLLMId }) {
+
+  // external state
+  const summary = useLlmMetricsSummary(props.llmId);
+
+  const { llmId } = props;
+  const handleReset = React.useCallback(() => metricsStoreResetLlm(llmId), [llmId]);
+
+  if (!summary) return null;
+
+  const errorKinds = Object.entries(summary.errorKinds) as [LlmMetricsErrorKind, number][];
+
+  return (
+    <FormControl orientation='horizontal' sx={{ flexWrap: 'nowrap', gap: 1 }}>
+      <FormLabelStart title='Usage' description={`${summary.requests.toLocaleString()} requests`} sx={{ minWidth: 80 }} />
+
+      <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {summary.avgTtftMs !== undefined && <Chip size='sm' variant='soft'>
+            First token: <b>{(summary.avgTtftMs / 1000).toFixed(2)}s</b>
+          </Chip>}
+          {summary.avgTokensPerSecond !== undefined && <Chip size='sm' variant='soft'>
+            Speed: <b>{Math.round(summary.avgTokensPerSecond).toLocaleString()}</b> tok/s
+          </Chip>}
+          <Chip size='sm' variant='soft' color={summary.errorRate >= 0.1 ? 'warning' : 'neutral'}>
+            Errors: <b>{(100 * summary.errorRate).toFixed(1)}%</b>
+          </Chip>
+          {summary.avgCost !== undefined && <Chip size='sm' variant='soft'>
+            Per message: <b>{formatModelsCost(summary.avgCost)}</b>
+          </Chip>}
+        </Box>
+
+        <Typography level='body-xs'>
+          {errorKinds.length > 0 && <>errors: {errorKinds.map(([kind, count]) => `${LLM_METRICS_ERROR_LABELS[kind]} ${count}`).join(' · ')}<br /></>}
+          last used <TimeAgo date={summary.lastUsageDate} /> · since <TimeAgo date={summary.firstUsageDate} />{' · '}
+          <Link component='button' level='body-xs' onClick={handleReset}>reset</Link>
+        </Typography>
+
+      </Box>
+    </FormControl>
+  );
+}
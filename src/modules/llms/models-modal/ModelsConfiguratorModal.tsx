@@ -12,6 +12,7 @@ import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
 import { joyKeepPopup } from '~/common/components/CloseablePopup';
 
 import type { DModelsService, DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+import { LLM_METRICS_SORT_LABELS, LlmMetricsSortKey } from '~/common/stores/metrics/metrics.llms';
 import { AppBreadcrumbs } from '~/common/components/AppBreadcrumbs';
 import { ConfirmationModal } from '~/common/components/modals/ConfirmationModal';
 import { GoodModal } from '~/common/components/modals/GoodModal';
@@ -66,13 +67,15 @@ export function ModelsConfiguratorModal(props: {
   const isMobile = useIsMobile();
   const hasLLMs = useHasLLMs();
   const { showPromisedOverlay } = useOverlayComponents();
-  const { showModelsFn, setShowModelsFn, showModelsHidden, setShowModelsHidden, starredOnTop, setStarredOnTop } = useUIPreferencesStore(useShallow(state => ({
+  const { showModelsFn, setShowModelsFn, showModelsHidden, setShowModelsHidden, starredOnTop, setStarredOnTop, modelsSortBy, setModelsSortBy } = useUIPreferencesStore(useShallow(state => ({
     showModelsFn: state.showModelsFn,
     setShowModelsFn: state.setShowModelsFn,
     showModelsHidden: state.showModelsHidden,
     setShowModelsHidden: state.setShowModelsHidden,
     starredOnTop: state.modelsStarredOnTop,
     setStarredOnTop: state.setModelsStarredOnTop,
+    modelsSortBy: state.modelsSortBy,
+    setModelsSortBy: state.setModelsSortBy,
   })));
   const { dcStatus, dcHasEligible, dcAllEnabled, dcNoneEnabled, handleEnableAllDC, handleDisableAllDC } = useAllServicesDCStatus(modelsServices);
 
@@ -286,6 +289,15 @@ export function ModelsConfiguratorModal(props: {
                 Show Starred on Top
               </MenuItem>
 
+              <SubMenuItem label='Sort by Usage' minWidth={220} isMobile={isMobile}>
+                <ListDivider>From your requests</ListDivider>
+                {Object.entries(LLM_METRICS_SORT_LABELS).map(([sortKey, sortLabel]) => (
+                  <MenuItem key={sortKey} selected={modelsSortBy === sortKey} onClick={() => setModelsSortBy(sortKey as LlmMetricsSortKey)}>
+                    {sortLabel}
+                  </MenuItem>
+                ))}
+              </SubMenuItem>
+
               <ListDivider />
 
               <MenuItem onClick={joyKeepPopup(() => setShowModelsHidden(!showModelsHidden))}>
@@ -326,7 +338,7 @@ export function ModelsConfiguratorModal(props: {
       );
 
     return undefined;
-  }, [activeHasFreeLLMs, activeService?.label, dcAllEnabled, dcHasEligible, dcNoneEnabled, dcStatus.eligible, dcStatus.enabled, handleDisableAllDC, handleEnableAllDC, handleHideAllModels, handleMainMenuOpenChange, handleRefreshModels, handleRemoveClones, handleResetAllParameters, handleResetVisibility, handleShowAllModels, handleShowOnlyFree, handleShowOnlyPaid, handleShowWizard, hasAnyServices, hasLLMs, isMobile, isRefreshing, isTabSetup, isTabWizard, mainMenuOpen, setShowModelsFn, setShowModelsHidden, setStarredOnTop, showModelsFn, showModelsHidden, starredOnTop, subMenuHost]);
+  }, [activeHasFreeLLMs, activeService?.label, dcAllEnabled, dcHasEligible, dcNoneEnabled, dcStatus.eligible, dcStatus.enabled, handleDisableAllDC, handleEnableAllDC, handleHideAllModels, handleMainMenuOpenChange, handleRefreshModels, handleRemoveClones, handleResetAllParameters, handleResetVisibility, handleShowAllModels, handleShowOnlyFree, handleShowOnlyPaid, handleShowWizard, hasAnyServices, hasLLMs, isMobile, isRefreshing, isTabSetup, isTabWizard, mainMenuOpen, modelsSortBy, setModelsSortBy, setShowModelsFn, setShowModelsHidden, setStarredOnTop, showModelsFn, showModelsHidden, starredOnTop, subMenuHost]);
 
 
   // custom done button for wizard mode (combines start and close buttons)
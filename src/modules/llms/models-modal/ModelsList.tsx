@@ -14,8 +14,9 @@ import { GoodTooltip } from '~/common/components/GoodTooltip';
 import { PhGearSixIcon } from '~/common/components/icons/phosphor/PhGearSixIcon';
 import { STAR_EMOJI, StarredToggle, starredToggleStyle } from '~/common/components/StarIcons';
 import { findModelsServiceOrNull, llmsStoreActions } from '~/common/stores/llms/store-llms';
-import { sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
+import { sortLLMsByMetrics, sortLLMsByServiceLabel } from '~/common/stores/llms/components/llms.dropdown.utils';
 import { useLLMsByService } from '~/common/stores/llms/llms.hooks';
+import { useLlmMetricsForSorting } from '~/common/stores/metrics/store-metrics';
 import { useIsMobile } from '~/common/components/useMatchMedia';
 import { useModelDomains } from '~/common/stores/llms/hooks/useModelDomains';
 import { useUIPreferencesStore } from '~/common/stores/store-ui';
@@ -285,6 +286,8 @@ export function ModelsList(props: {
   // external state
   const isMobile = useIsMobile();
   const showModelsFn = useUIPreferencesStore(state => state.showModelsFn);
+  const modelsSortBy = useUIPreferencesStore(state => state.modelsSortBy);
+  const llmMetrics = useLlmMetricsForSorting(modelsSortBy);
   const domainAssignments = useModelDomains();
   const llms = useLLMsByService(props.filterServiceId === null ? false : props.filterServiceId);
 
@@ -301,7 +304,8 @@ export function ModelsList(props: {
     // are we showing multiple services
     const showAllServices = !props.filterServiceId;
     // sort by service label so vendor groups appear alphabetically when showing all services (single-service view keeps existing order)
-    const orderedLLMs = showAllServices ? sortLLMsByServiceLabel(llms) : llms;
+    const metricsSortedLLMs = sortLLMsByMetrics(llms, modelsSortBy, llmMetrics);
+    const orderedLLMs = showAllServices ? sortLLMsByServiceLabel(metricsSortedLLMs) : metricsSortedLLMs;
     const hasManyServices = orderedLLMs.length >= 2 && orderedLLMs.some(llm => llm.sId !== orderedLLMs[0].sId);
     let lastGroupLabel = '';
 
@@ -347,7 +351,7 @@ export function ModelsList(props: {
     }
 
     return items;
-  }, [domainAssignments, handleModelClicked, handleModelSetHidden, handleModelSetStarred, isMobile, llms, props.filterServiceId, props.showHiddenModels, showModelsFn]);
+  }, [domainAssignments, handleModelClicked, handleModelSetHidden, handleModelSetStarred, isMobile, llmMetrics, llms, modelsSortBy, props.filterServiceId, props.showHiddenModels, showModelsFn]);
 
   return (
     <List size={!isMobile ? undefined : 'sm'} sx={props.sx}>
@@ -58,6 +58,8 @@ export const OPENAI_API_PATHS = {
 
   audioSpeech: '/v1/audio/speech',
 
+  embeddings: '/v1/embeddings',
+
   // xAI-specific (different models endpoint)
   xaiLanguageModels: '/v1/language-models',
 } as const;
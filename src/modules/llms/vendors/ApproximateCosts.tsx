@@ -1,10 +1,11 @@
 import * as React from 'react';
 import TimeAgo from 'react-timeago';
 
-import { Box, Chip } from '@mui/joy';
+import { Box, Chip, Link } from '@mui/joy';
 
 import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
 import { formatModelsCost } from '~/common/util/costUtils';
+import { navigateToCosts } from '~/common/app.routes';
 import { useCostMetricsForLLMService } from '~/common/stores/metrics/store-metrics';
 import { useIsMobile } from '~/common/components/useMatchMedia';
 import { useUIComplexityMode } from '~/common/stores/store-ui';
@@ -80,6 +81,7 @@ export function ApproximateCosts(props: {
             Starting <TimeAgo date={firstUsageDate} /> we counted {usageCount?.toLocaleString()} requests
             {(partialMessageUsages > usageCount / 10) ? ` (${partialMessageUsages} of which were partial)` : ''}
             {' '}and {(totalInputTokens + totalOutputTokens).toLocaleString()} tokens.</span>
+            {' '}<Link component='button' level='body-sm' onClick={() => void navigateToCosts()}>Spending and budgets</Link>
             {/*<ExternalLink href='https://console.anthropic.com/settings/usage'>Anthropic usage</ExternalLink>*/}
             <Chip
               size='sm'
@@ -0,0 +1,197 @@
+import * as React from 'react';
+
+import { Box, Button, Chip, IconButton, Option, Select, Sheet, Switch, Typography } from '@mui/joy';
+import AddIcon from '@mui/icons-material/Add';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import RefreshIcon from '@mui/icons-material/Refresh';
+
+import { FormInputKey } from '~/common/components/forms/FormInputKey';
+import { FormTextField } from '~/common/components/forms/FormTextField';
+import { TooltipOutlined } from '~/common/components/TooltipOutlined';
+import { asValidURL } from '~/common/util/urlUtils';
+
+import { McpServerConfig, McpServerId, useMcpStore } from './store-module-mcp';
+import { mcpServerLoadToolsOrThrow, mcpServerUnloadTools } from './mcp.tools';
+
+
+type _ServerStatus = { state: 'loading' } | { state: 'ok', toolCount: number } | { state: 'error', message: string };
+
+
+const _styles = {
+  server: {
+    p: 1.5,
+    borderRadius: 'sm',
+    display: 'grid',
+    gap: 0.5,
+  },
+  serverHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 1,
+  },
+  serverUrl: {
+    fontFamily: 'code',
+    fontSize: 'xs',
+    wordBreak: 'break-all',
+  },
+} as const;
+
+
+function McpServerItem(props: {
+  server: McpServerConfig,
+  status?: _ServerStatus,
+  onReload: (server: McpServerConfig) => void,
+}) {
+
+  const { server, status, onReload } = props;
+
+  const handleToggleEnabled = (event: React.ChangeEvent<HTMLInputElement>) => {
+    useMcpStore.getState().updateServer(server.id, { enabled: event.target.checked });
+    if (event.target.checked)
+      onReload({ ...server, enabled: true });
+  };
+
+  const handleRemove = () => {
+    mcpServerUnloadTools(server.id);
+    useMcpStore.getState().removeServer(server.id);
+  };
+
+  return (
+    <Sheet variant='outlined' sx={_styles.server}>
+      <Box sx={_styles.serverHeader}>
+        <Switch size='sm' checked={server.enabled} onChange={handleToggleEnabled} />
+        <Typography level='title-sm' sx={{ flex: 1 }}>{server.label}</Typography>
+        <Chip size='sm' variant='soft'>{server.transport === 'sse' ? 'SSE' : 'HTTP'}</Chip>
+        <TooltipOutlined title='Reload tools'>
+          <IconButton size='sm' disabled={!server.enabled || status?.state === 'loading'} onClick={() => onReload(server)}>
+            <RefreshIcon />
+          </IconButton>
+        </TooltipOutlined>
+        <TooltipOutlined title='Remove server'>
+          <IconButton size='sm' onClick={handleRemove}>
+            <DeleteOutlineIcon />
+          </IconButton>
+        </TooltipOutlined>
+      </Box>
+      <Typography level='body-xs' sx={_styles.serverUrl}>{server.url}</Typography>
+      {server.enabled && !!status && (
+        <Typography level='body-xs' color={status.state === 'error' ? 'danger' : undefined}>
+          {status.state === 'loading' ? 'Connecting...'
+            : status.state === 'ok' ? `${status.toolCount} tool${status.toolCount === 1 ? '' : 's'} available`
+              : status.message}
+        </Typography>
+      )}
+    </Sheet>
+  );
+}
+
+
+export function McpSettings() {
+
+  // state
+  const [statuses, setStatuses] = React.useState<Record<McpServerId, _ServerStatus>>({});
+  const [newLabel, setNewLabel] = React.useState('');
+  const [newUrl, setNewUrl] = React.useState('');
+  const [newTransport, setNewTransport] = React.useState<McpServerConfig['transport']>('streamable-http');
+  const [newAuthToken, setNewAuthToken] = React.useState('');
+
+  // external state
+  const servers = useMcpStore(state => state.servers);
+
+  // derived
+  const newUrlValid = !!asValidURL(newUrl.trim());
+
+
+  const handleReload = React.useCallback(async (server: McpServerConfig) => {
+    setStatuses(prev => ({ ...prev, [server.id]: { state: 'loading' } }));
+    let status: _ServerStatus;
+    try {
+      status = { state: 'ok', toolCount: await mcpServerLoadToolsOrThrow(server) };
+    } catch (error: any) {
+      status = { state: 'error', message: error?.message || 'Connection error' };
+    }
+    setStatuses(prev => ({ ...prev, [server.id]: status }));
+  }, []);
+
+  // [effect] show the status of the enabled servers, reloading their tools
+  React.useEffect(() => {
+    for (const server of useMcpStore.getState().servers)
+      if (server.enabled)
+        void handleReload(server);
+  }, [handleReload]);
+
+  const handleAddServer = () => {
+    const url = asValidURL(newUrl.trim());
+    if (!url) return;
+    const server: Omit<McpServerConfig, 'id'> = {
+      label: newLabel.trim() || new URL(url).hostname,
+      transport: newTransport,
+      url,
+      authToken: newAuthToken.trim(),
+      enabled: true,
+    };
+    const id = useMcpStore.getState().addServer(server);
+    setNewLabel('');
+    setNewUrl('');
+    setNewAuthToken('');
+    void handleReload({ ...server, id });
+  };
+
+
+  return <>
+
+    <Typography level='body-sm'>
+      Connect Model Context Protocol servers: their tools become available to chats (when Chat Tools are on), and their resources can be attached to messages.
+    </Typography>
+
+    {servers.map(server => (
+      <McpServerItem key={server.id} server={server} status={statuses[server.id]} onReload={handleReload} />
+    ))}
+
+    <FormTextField
+      autoCompleteId='mcp-server-label'
+      title='Name'
+      placeholder='My Server'
+      value={newLabel} onChange={setNewLabel}
+    />
+
+    <FormTextField
+      autoCompleteId='mcp-server-url'
+      title='Server URL'
+      placeholder='https://.../mcp'
+      isError={!!newUrl && !newUrlValid}
+      value={newUrl} onChange={setNewUrl}
+    />
+
+    <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+      <Typography level='title-sm'>Transport</Typography>
+      <Select
+        variant='outlined'
+        value={newTransport}
+        onChange={(_event, value) => value && setNewTransport(value)}
+        slotProps={{ root: { sx: { minWidth: '180px' } } }}
+      >
+        <Option value='streamable-http'>Streamable HTTP</Option>
+        <Option value='sse'>SSE (legacy)</Option>
+      </Select>
+    </Box>
+
+    <FormInputKey
+      autoCompleteId='mcp-server-token' label='Bearer Token'
+      value={newAuthToken} onChange={setNewAuthToken}
+      required={false}
+      placeholder='Optional'
+    />
+
+    <Button
+      variant='soft'
+      disabled={!newUrlValid}
+      startDecorator={<AddIcon />}
+      onClick={handleAddServer}
+      sx={{ ml: 'auto' }}
+    >
+      Add Server
+    </Button>
+
+  </>;
+}
@@ -0,0 +1,62 @@
+import { apiAsync } from '~/common/util/trpc.client';
+
+import type { McpCallToolResult, McpResourceContents, McpResourceDescriptor, McpToolDescriptor } from './server/mcp.router';
+import { mcpServerAccess, McpServerConfig } from './store-module-mcp';
+
+
+/**
+ * Client-side access to the MCP servers, through our server (no CORS limits, and works with SSE).
+ * All functions throw readable errors.
+ */
+
+export async function mcpListToolsOrThrow(server: McpServerConfig): Promise<{ serverName?: string, tools: McpToolDescriptor[] }> {
+  return _rethrowReadable(server, apiAsync.mcp.listTools.query({ access: mcpServerAccess(server) }));
+}
+
+export async function mcpCallToolOrThrow(server: McpServerConfig, toolName: string, args: Record<string, any>, abortSignal?: AbortSignal): Promise<McpCallToolResult> {
+  return _rethrowReadable(server, apiAsync.mcp.callTool.mutate({ access: mcpServerAccess(server), name: toolName, arguments: args }, { signal: abortSignal }));
+}
+
+export async function mcpListResourcesOrThrow(server: McpServerConfig): Promise<{ serverName?: string, resources: McpResourceDescriptor[] }> {
+  return _rethrowReadable(server, apiAsync.mcp.listResources.query({ access: mcpServerAccess(server) }));
+}
+
+export async function mcpReadResourceOrThrow(server: McpServerConfig, uri: string): Promise<McpResourceContents[]> {
+  const { contents } = await _rethrowReadable(server, apiAsync.mcp.readResource.query({ access: mcpServerAccess(server), uri }));
+  return contents;
+}
+
+
+/**
+ * Converts the contents of a resource to files, so they go through the regular attachment pipeline
+ * (text, PDF, images, etc.).
+ */
+export function mcpResourceContentsToFiles(resource: McpResourceDescriptor, contents: McpResourceContents[]): File[] {
+  return contents.map((content, index) => {
+    const mimeType = content.mimeType || resource.mimeType || (content.text !== undefined ? 'text/plain' : 'application/octet-stream');
+    const fileName = _resourceFileName(resource, content, contents.length > 1 ? index : undefined);
+    if (content.blob !== undefined) {
+      const bytes = Uint8Array.from(atob(content.blob), c => c.charCodeAt(0));
+      return new File([bytes], fileName, { type: mimeType });
+    }
+    return new File([content.text ?? ''], fileName, { type: mimeType });
+  });
+}
+
+function _resourceFileName(resource: McpResourceDescriptor, content: McpResourceContents, index?: number): string {
+  // prefer the last path segment of the URI, which usually carries the extension
+  const uriTail = content.uri.split(/[/\\]/).filter(Boolean).pop() || '';
+  const baseName = (uriTail.includes('.') ? uriTail : resource.name) || 'resource';
+  return index === undefined ? baseName : `${index + 1}-${baseName}`;
+}
+
+
+async function _rethrowReadable<T>(server: McpServerConfig, promise: Promise<T>): Promise<T> {
+  try {
+    return await promise;
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.warn(`[MCP] ${server.label}: ${errorMessage}`);
+    throw new Error(`${server.label}: ${errorMessage}`);
+  }
+}
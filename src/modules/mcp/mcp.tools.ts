@@ -0,0 +1,208 @@
+import * as z from 'zod/v4';
+
+import type { AixTools_FunctionCallDefinition, OpenAPI_Schema } from '~/modules/aix/server/api/aix.wiretypes';
+import type { ClientToolDefinition, ClientToolName } from '~/modules/tools/tools.types';
+import { clientToolsRegister, clientToolsUnregister } from '~/modules/tools/tools.registry';
+
+import type { McpCallToolResult, McpToolDescriptor } from './server/mcp.router';
+import { McpServerConfig, McpServerId, useMcpStore } from './store-module-mcp';
+import { mcpCallToolOrThrow, mcpListToolsOrThrow } from './mcp.client';
+
+
+type _OpenApiSchemaObject = z.infer<typeof OpenAPI_Schema.Object_schema>;
+
+const _openApiTypes = ['string', 'number', 'integer', 'boolean', 'array', 'object'] as const;
+
+// configuration
+const MCP_LOAD_RETRY_MS = 5 * 60 * 1000; // servers that failed to load are not retried before this
+const MCP_LOAD_WAIT_MS = 3 * 1000; // longer loads complete in the background, for the next messages
+
+
+// function names registered for each server, to replace them when the server is reloaded
+const _serverToolNames = new Map<McpServerId, ClientToolName[]>();
+
+// loads in progress, and the time after which the servers that failed can be retried
+const _serverLoads = new Map<McpServerId, Promise<void>>();
+const _serverRetryAfter = new Map<McpServerId, number>();
+
+
+/**
+ * Lists the tools of a server and registers them as client tools, replacing the previous ones.
+ * @returns the number of tools registered
+ * @throws Error if the server cannot be reached
+ */
+export async function mcpServerLoadToolsOrThrow(server: McpServerConfig): Promise<number> {
+  const { tools } = await mcpListToolsOrThrow(server);
+  const clientTools = tools.map(tool => _mcpToolToClientTool(server, tool));
+
+  mcpServerUnloadTools(server.id);
+  clientToolsRegister(clientTools);
+  _serverToolNames.set(server.id, clientTools.map(tool => tool.fun.name));
+  return clientTools.length;
+}
+
+export function mcpServerUnloadTools(serverId: McpServerId): void {
+  clientToolsUnregister(_serverToolNames.get(serverId) ?? []);
+  _serverToolNames.delete(serverId);
+  _serverRetryAfter.delete(serverId);
+}
+
+/**
+ * Loads the tools of the enabled servers that were not loaded yet in this session, waiting at most a few seconds.
+ * Servers that fail are retried only after a while, so chats still start right away without them.
+ */
+export async function mcpServersEnsureToolsLoaded(): Promise<void> {
+  const now = Date.now();
+  const loads = useMcpStore.getState().servers
+    .filter(s => s.enabled && !_serverToolNames.has(s.id) && (_serverRetryAfter.get(s.id) ?? 0) <= now)
+    .map(server => {
+      let load = _serverLoads.get(server.id);
+      if (!load) {
+        load = mcpServerLoadToolsOrThrow(server)
+          .then(() => undefined)
+          .catch((error: any) => {
+            console.warn(`[MCP] could not load the tools of '${server.label}':`, error?.message || error);
+            _serverRetryAfter.set(server.id, Date.now() + MCP_LOAD_RETRY_MS);
+          })
+          .finally(() => _serverLoads.delete(server.id));
+        _serverLoads.set(server.id, load);
+      }
+      return load;
+    });
+  if (!loads.length)
+    return;
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    Promise.all(loads),
+    new Promise<void>(resolve => timeoutId = setTimeout(resolve, MCP_LOAD_WAIT_MS)),
+  ]);
+  clearTimeout(timeoutId);
+}
+
+
+// MCP -> Client Tool
+
+function _mcpToolToClientTool(server: McpServerConfig, tool: McpToolDescriptor): ClientToolDefinition {
+  const functionName = _mcpFunctionName(server, tool.name);
+  const description = tool.description || tool.title || tool.name;
+  const title = tool.title || tool.annotations?.title || tool.name;
+  return {
+    fun: {
+      name: functionName,
+      description,
+      // the server validates the arguments against its own schema
+      inputSchema: z.looseObject({}),
+    },
+    wireDefinition: _mcpToolWireDefinition(functionName, description, tool.inputSchema),
+    label: `${title} (${server.label})`,
+    uiDescription: description.length > 120 ? description.slice(0, 117) + '...' : description,
+    origin: 'mcp',
+    // tools are assumed to have side effects, unless the server says otherwise
+    sideEffects: tool.annotations?.readOnlyHint !== true,
+    isAvailable: () => !!useMcpStore.getState().servers.find(s => s.id === server.id)?.enabled,
+    execute: async (args, { abortSignal }) => {
+      // re-read the server, in case the configuration changed after loading
+      const currentServer = useMcpStore.getState().servers.find(s => s.id === server.id);
+      if (!currentServer)
+        throw new Error(`MCP server '${server.label}' was removed.`);
+      return _mcpCallToolResultToObject(await mcpCallToolOrThrow(currentServer, tool.name, args, abortSignal));
+    },
+  };
+}
+
+/**
+ * Server-prefixed name, to avoid collisions, within the 64 chars [a-zA-Z0-9_-] limits of function names.
+ * The prefix is the label, readable by the model, and part of the id, as labels can be the same on several servers.
+ */
+function _mcpFunctionName(server: McpServerConfig, toolName: string): string {
+  const label = (server.label || 'mcp').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 12) || 'mcp';
+  const idPart = server.id.replace(/[^a-zA-Z0-9]+/g, '').slice(0, 6);
+  const name = toolName.replace(/[^a-zA-Z0-9_-]+/g, '_');
+  return `${label}_${idPart}__${name}`.slice(0, 64);
+}
+
+function _mcpCallToolResultToObject(result: McpCallToolResult): object {
+  const texts = result.content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return String(part.text ?? '');
+      case 'resource':
+        return String((part.resource as any)?.text ?? `[resource: ${(part.resource as any)?.uri}]`);
+      case 'resource_link':
+        return `[resource: ${part.uri}]`;
+      default:
+        // images and audio are not forwarded to the model, for now
+        return `[${part.type}${part.mimeType ? `: ${part.mimeType}` : ''}]`;
+    }
+  });
+
+  if (result.isError)
+    throw new Error(texts.join('\n') || 'The tool reported an error.');
+
+  return result.structuredContent ?? { content: texts.join('\n') };
+}
+
+
+// JSON Schema -> OpenAPI subset (as accepted by the AIX wire)
+
+function _mcpToolWireDefinition(name: string, description: string, inputSchema: McpToolDescriptor['inputSchema']): AixTools_FunctionCallDefinition {
+  const properties = inputSchema?.properties && typeof inputSchema.properties === 'object' ? inputSchema.properties as Record<string, unknown> : {};
+  const required = Array.isArray(inputSchema?.required) ? (inputSchema.required as unknown[]).filter((r): r is string => typeof r === 'string') : [];
+  const hasInputs = Object.keys(properties).length > 0;
+  return {
+    type: 'function_call',
+    function_call: {
+      name,
+      description,
+      ...(hasInputs && {
+        input_schema: {
+          properties: Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, _jsonSchemaToOpenApi(value)])),
+          ...(!!required.length && { required }),
+        },
+      }),
+    },
+  };
+}
+
+function _jsonSchemaToOpenApi(schema: unknown, depth: number = 0): _OpenApiSchemaObject {
+  if (!schema || typeof schema !== 'object' || depth > 8)
+    return { type: 'string' };
+  const s = schema as Record<string, any>;
+
+  // unions: use the first non-null alternative
+  const alternatives: unknown[] | undefined = s.anyOf || s.oneOf;
+  if (!s.type && Array.isArray(alternatives)) {
+    const nonNull = alternatives.filter(a => (a as any)?.type !== 'null');
+    const converted = _jsonSchemaToOpenApi(nonNull[0], depth + 1);
+    return {
+      ...converted,
+      ...(s.description && { description: s.description }),
+      ...(nonNull.length < alternatives.length && { nullable: true }),
+    };
+  }
+
+  // type: may be an array (e.g. ['string', 'null']) or missing
+  let type: unknown = s.type;
+  let nullable = s.nullable === true;
+  if (Array.isArray(type)) {
+    nullable = nullable || type.includes('null');
+    type = type.find(t => t !== 'null');
+  }
+  if (!type)
+    type = s.properties ? 'object' : s.items ? 'array' : 'string';
+  const safeType = _openApiTypes.includes(type as any) ? type as _OpenApiSchemaObject['type'] : 'string';
+
+  return {
+    type: safeType,
+    ...(typeof s.description === 'string' && { description: s.description }),
+    ...(nullable && { nullable }),
+    ...(Array.isArray(s.enum) && { enum: s.enum }),
+    ...(typeof s.format === 'string' && { format: s.format }),
+    ...(safeType === 'object' && s.properties && typeof s.properties === 'object' && {
+      properties: Object.fromEntries(Object.entries(s.properties).map(([key, value]) => [key, _jsonSchemaToOpenApi(value, depth + 1)])),
+    }),
+    ...(safeType === 'object' && Array.isArray(s.required) && { required: s.required }),
+    ...(safeType === 'array' && { items: _jsonSchemaToOpenApi(s.items, depth + 1) }),
+  };
+}
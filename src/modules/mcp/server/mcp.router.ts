@@ -0,0 +1,129 @@
+import * as z from 'zod/v4';
+import { TRPCError } from '@trpc/server';
+
+import { createTRPCRouter, publicProcedure } from '~/server/trpc/trpc.server';
+
+import { McpServerAccess, mcpServerAccessSchema, McpSession, mcpSessionOpenOrThrow } from './mcp.session';
+
+
+// configuration
+const MAX_LIST_PAGES = 10; // pagination guard for tools/resources listings
+
+
+// Output schemas - the subset of the MCP types that we use
+
+const mcpToolSchema = z.object({
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  inputSchema: z.record(z.string(), z.any()).optional(),
+  annotations: z.object({
+    title: z.string().optional(),
+    readOnlyHint: z.boolean().optional(),
+  }).optional(),
+});
+export type McpToolDescriptor = z.infer<typeof mcpToolSchema>;
+
+const mcpResourceSchema = z.object({
+  uri: z.string(),
+  name: z.string(),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+});
+export type McpResourceDescriptor = z.infer<typeof mcpResourceSchema>;
+
+const mcpResourceContentsSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(), // either...
+  blob: z.string().optional(), // ...or base64 data
+});
+export type McpResourceContents = z.infer<typeof mcpResourceContentsSchema>;
+
+const mcpCallToolResultSchema = z.object({
+  // text, image, audio, resource_link, resource - we let the client pick what it understands
+  content: z.array(z.looseObject({ type: z.string() })).default([]),
+  structuredContent: z.record(z.string(), z.any()).optional(),
+  isError: z.boolean().optional(),
+});
+export type McpCallToolResult = z.infer<typeof mcpCallToolResultSchema>;
+
+
+export const mcpRouter = createTRPCRouter({
+
+  /** Lists the tools of a server (all pages) */
+  listTools: publicProcedure
+    .input(z.object({ access: mcpServerAccessSchema }))
+    .query(async ({ input, signal }) => _withMcpSession(input.access, signal, async (session) => ({
+      serverName: session.serverName,
+      tools: await _listAllPages(session, 'tools/list', 'tools', mcpToolSchema),
+    }))),
+
+  /** Executes a tool on the server */
+  callTool: publicProcedure
+    .input(z.object({
+      access: mcpServerAccessSchema,
+      name: z.string(),
+      arguments: z.record(z.string(), z.any()),
+    }))
+    .mutation(async ({ input, signal }) => _withMcpSession(input.access, signal, async (session) => {
+      const result = await session.request('tools/call', { name: input.name, arguments: input.arguments });
+      return mcpCallToolResultSchema.parse(result ?? {});
+    })),
+
+  /** Lists the resources of a server (all pages) */
+  listResources: publicProcedure
+    .input(z.object({ access: mcpServerAccessSchema }))
+    .query(async ({ input, signal }) => _withMcpSession(input.access, signal, async (session) => ({
+      serverName: session.serverName,
+      resources: await _listAllPages(session, 'resources/list', 'resources', mcpResourceSchema),
+    }))),
+
+  /** Reads the contents of a resource */
+  readResource: publicProcedure
+    .input(z.object({
+      access: mcpServerAccessSchema,
+      uri: z.string(),
+    }))
+    .query(async ({ input, signal }) => _withMcpSession(input.access, signal, async (session) => {
+      const result = await session.request<{ contents?: unknown[] }>('resources/read', { uri: input.uri });
+      return { contents: z.array(mcpResourceContentsSchema).parse(result?.contents ?? []) };
+    })),
+
+});
+
+
+async function _withMcpSession<T>(access: McpServerAccess, abortSignal: AbortSignal | undefined, operation: (session: McpSession) => Promise<T>): Promise<T> {
+  let session: McpSession | undefined;
+  try {
+    session = await mcpSessionOpenOrThrow(access, abortSignal);
+    return await operation(session);
+  } catch (error: any) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `[MCP] ${error instanceof z.ZodError ? 'unexpected server response' : error?.message || 'connection error'}`,
+      cause: error,
+    });
+  } finally {
+    await session?.close();
+  }
+}
+
+async function _listAllPages<TItem>(session: McpSession, method: string, itemsKey: string, itemSchema: z.ZodType<TItem>): Promise<TItem[]> {
+  const items: TItem[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = await session.request<Record<string, any>>(method, cursor ? { cursor } : undefined);
+    // skip items we can't understand, rather than failing the whole listing
+    for (const item of result?.[itemsKey] ?? []) {
+      const parsed = itemSchema.safeParse(item);
+      if (parsed.success)
+        items.push(parsed.data);
+    }
+    cursor = result?.nextCursor;
+    if (!cursor) break;
+  }
+  return items;
+}
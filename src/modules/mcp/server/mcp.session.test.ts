@@ -0,0 +1,170 @@
+/// <reference types="node" />
+
+// Tests for the MCP client session, against a local stub MCP server that speaks both
+// transports (Streamable HTTP and the legacy HTTP+SSE), with a single 'echo' tool and
+// a single text resource.
+//
+// Run:
+// - `npx tsx --test src/modules/mcp/server/mcp.session.test.ts`
+
+import { after, before, describe, test } from 'node:test';
+import { deepStrictEqual, ok, rejects, strictEqual } from 'node:assert/strict';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+import { McpServerAccess, mcpSessionOpenOrThrow } from './mcp.session';
+
+
+// Stub MCP server
+
+const STUB_SESSION_ID = 'stub-session-1';
+const STUB_TOKEN = 'secret-token';
+
+function stubHandleRpc(message: any): object | null {
+  // notifications get no response
+  if (message.id === undefined)
+    return null;
+  const reply = (result: object) => ({ jsonrpc: '2.0', id: message.id, result });
+  switch (message.method) {
+    case 'initialize':
+      return reply({ protocolVersion: message.params.protocolVersion, capabilities: { tools: {}, resources: {} }, serverInfo: { name: 'stub', version: '1.0' } });
+    case 'tools/list':
+      return reply({
+        tools: [{
+          name: 'echo',
+          description: 'Echoes the text',
+          inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+        }],
+      });
+    case 'tools/call':
+      return reply({ content: [{ type: 'text', text: `echo: ${message.params.arguments.text}` }] });
+    case 'resources/read':
+      return reply({ contents: [{ uri: message.params.uri, mimeType: 'text/plain', text: 'hello resource' }] });
+    default:
+      return { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } };
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req)
+    chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function createStubServer(): Server {
+  const sseStreams = new Map<string, ServerResponse>();
+  let sseSessionCount = 0;
+
+  return createServer(async (req, res) => {
+    if (req.headers.authorization !== `Bearer ${STUB_TOKEN}`) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    // Streamable HTTP: JSON replies, except 'tools/call', which replies over SSE after a notification
+    if (req.url === '/mcp' && req.method === 'POST') {
+      const message = await readBody(req);
+      if (message.method !== 'initialize' && req.headers['mcp-session-id'] !== STUB_SESSION_ID) {
+        res.writeHead(400).end();
+        return;
+      }
+      const response = stubHandleRpc(message);
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+      if (message.method === 'tools/call') {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        res.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 1 } })}\n\n`);
+        res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': STUB_SESSION_ID }).end(JSON.stringify(response));
+      return;
+    }
+    if (req.url === '/mcp' && req.method === 'DELETE') {
+      res.writeHead(200).end();
+      return;
+    }
+
+    // Legacy SSE: the stream announces the endpoint, responses travel on the stream
+    if (req.url === '/sse' && req.method === 'GET') {
+      const sessionId = String(++sseSessionCount);
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(`event: endpoint\ndata: /messages?sessionId=${sessionId}\n\n`);
+      sseStreams.set(sessionId, res);
+      req.on('close', () => sseStreams.delete(sessionId));
+      return;
+    }
+    if (req.url?.startsWith('/messages') && req.method === 'POST') {
+      const sseStream = sseStreams.get(new URL(req.url, 'http://stub').searchParams.get('sessionId') || '');
+      const response = stubHandleRpc(await readBody(req));
+      res.writeHead(202).end();
+      if (response)
+        sseStream?.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+}
+
+
+describe('MCP session', () => {
+
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = createStubServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  for (const transport of ['streamable-http', 'sse'] as const) {
+
+    const access = (): McpServerAccess => ({ transport, url: `${baseUrl}${transport === 'sse' ? '/sse' : '/mcp'}`, authToken: STUB_TOKEN });
+
+    test(`${transport}: initialize, list and call tools, read resources`, async () => {
+      const session = await mcpSessionOpenOrThrow(access());
+      try {
+        strictEqual(session.serverName, 'stub');
+
+        const { tools } = await session.request('tools/list');
+        deepStrictEqual(tools.map((t: any) => t.name), ['echo']);
+
+        const callResult = await session.request('tools/call', { name: 'echo', arguments: { text: 'hi' } });
+        deepStrictEqual(callResult.content, [{ type: 'text', text: 'echo: hi' }]);
+
+        const { contents } = await session.request('resources/read', { uri: 'file:///notes.txt' });
+        strictEqual(contents[0].text, 'hello resource');
+      } finally {
+        await session.close();
+      }
+    });
+
+    test(`${transport}: JSON-RPC errors are thrown`, async () => {
+      const session = await mcpSessionOpenOrThrow(access());
+      try {
+        await rejects(session.request('unknown/method'), /Method not found/);
+      } finally {
+        await session.close();
+      }
+    });
+
+  }
+
+  test('HTTP errors are thrown', async () => {
+    await rejects(mcpSessionOpenOrThrow({ transport: 'streamable-http', url: `${baseUrl}/mcp` }), (error: Error) => {
+      ok(error.message.includes('401'));
+      return true;
+    });
+  });
+
+});
@@ -0,0 +1,313 @@
+import * as z from 'zod/v4';
+
+import { createFastEventSourceDemuxer } from '~/modules/aix/server/dispatch/stream.demuxer.fastsse';
+
+
+// configuration
+const MCP_PROTOCOL_VERSION = '2025-06-18';
+const MCP_CLIENT_INFO = { name: 'big-agi', version: '2.0' } as const;
+const MCP_CONNECT_TIMEOUT = 15 * 1000;
+const MCP_REQUEST_TIMEOUT = 60 * 1000;
+
+
+/**
+ * How to reach an MCP server. Two transports are supported:
+ * - 'streamable-http': the current transport, JSON-RPC POSTs with JSON or SSE responses
+ * - 'sse': the legacy transport, a long-lived GET event stream + POSTs to the announced endpoint
+ */
+export const mcpServerAccessSchema = z.object({
+  transport: z.enum(['streamable-http', 'sse']),
+  url: z.url(),
+  authToken: z.string().trim().optional(), // sent as a Bearer token
+});
+
+export type McpServerAccess = z.infer<typeof mcpServerAccessSchema>;
+
+
+/** A connected and initialized session with an MCP server; sessions are short-lived (one operation) */
+export interface McpSession {
+  readonly serverName: string | undefined;
+  request: <TResult = any>(method: string, params?: object) => Promise<TResult>;
+  close: () => Promise<void>;
+}
+
+
+/**
+ * Connects to an MCP server and performs the initialization handshake.
+ * @throws Error with a readable message on connection, HTTP or JSON-RPC errors
+ */
+export async function mcpSessionOpenOrThrow(access: McpServerAccess, abortSignal?: AbortSignal): Promise<McpSession> {
+
+  const transport = access.transport === 'sse'
+    ? await _connectSseTransport(access, abortSignal)
+    : _connectStreamableHttpTransport(access, abortSignal);
+
+  let nextRequestId = 1;
+  const request = async <TResult>(method: string, params?: object): Promise<TResult> => {
+    const id = nextRequestId++;
+    const response = await _withTimeout(transport.request({ jsonrpc: '2.0', id, method, ...(params && { params }) }), MCP_REQUEST_TIMEOUT, `MCP '${method}'`);
+    return _unwrapJsonRpcResponseOrThrow(response, method);
+  };
+
+  try {
+    const initResult = await request<{ protocolVersion?: string, serverInfo?: { name?: string } }>('initialize', {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: MCP_CLIENT_INFO,
+    });
+    transport.setProtocolVersion(initResult?.protocolVersion || MCP_PROTOCOL_VERSION);
+    await transport.notify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    return {
+      serverName: initResult?.serverInfo?.name || undefined,
+      request,
+      close: transport.close,
+    };
+  } catch (error) {
+    await transport.close();
+    throw error;
+  }
+}
+
+
+// JSON-RPC
+
+type _JsonRpcMessage = {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: object;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+};
+
+function _unwrapJsonRpcResponseOrThrow(response: _JsonRpcMessage, method: string) {
+  if (response.error)
+    throw new Error(`MCP '${method}' error ${response.error.code}: ${response.error.message || 'unknown error'}`);
+  return response.result;
+}
+
+function _isResponseTo(message: _JsonRpcMessage, id: number | string | undefined): boolean {
+  return message.id !== undefined && message.id === id && ('result' in message || 'error' in message);
+}
+
+
+// Transports
+
+interface _McpTransport {
+  request: (message: _JsonRpcMessage) => Promise<_JsonRpcMessage>;
+  notify: (message: _JsonRpcMessage) => Promise<void>;
+  setProtocolVersion: (version: string) => void;
+  close: () => Promise<void>;
+}
+
+function _authHeaders(access: McpServerAccess): Record<string, string> {
+  return access.authToken ? { 'Authorization': `Bearer ${access.authToken}` } : {};
+}
+
+
+/**
+ * Streamable HTTP: every message is a POST; responses come back either as a JSON body or as an
+ * SSE stream that carries the response (possibly after server notifications, which we skip).
+ */
+function _connectStreamableHttpTransport(access: McpServerAccess, abortSignal?: AbortSignal): _McpTransport {
+  let sessionId: string | undefined;
+  let protocolVersion: string | undefined;
+
+  const headers = () => ({
+    ..._authHeaders(access),
+    ...(sessionId && { 'Mcp-Session-Id': sessionId }),
+    ...(protocolVersion && { 'MCP-Protocol-Version': protocolVersion }),
+  });
+
+  const post = async (message: _JsonRpcMessage): Promise<Response> => {
+    const response = await fetch(access.url, {
+      method: 'POST',
+      headers: {
+        ...headers(),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal: abortSignal,
+    });
+    if (!response.ok) {
+      await response.body?.cancel().catch(() => null);
+      throw new Error(`MCP server responded with ${response.status} ${response.statusText}`.trim());
+    }
+    sessionId = response.headers.get('mcp-session-id') || sessionId;
+    return response;
+  };
+
+  return {
+    request: async (message) => {
+      const response = await post(message);
+      if ((response.headers.get('content-type') || '').includes('text/event-stream'))
+        return await _readSseUntilResponse(response, message.id);
+      const json = await response.json();
+      // batched responses are allowed by the spec
+      const reply = Array.isArray(json) ? json.find(m => _isResponseTo(m, message.id)) : json;
+      if (!reply || !_isResponseTo(reply, message.id))
+        throw new Error('MCP server sent an invalid response');
+      return reply;
+    },
+    notify: async (message) => {
+      const response = await post(message);
+      await response.body?.cancel().catch(() => null);
+    },
+    setProtocolVersion: (version) => protocolVersion = version,
+    close: async () => {
+      // explicit session termination is optional for servers, so errors are not relevant
+      if (sessionId)
+        await fetch(access.url, { method: 'DELETE', headers: headers() }).then(r => r.body?.cancel()).catch(() => null);
+    },
+  };
+}
+
+
+/**
+ * Legacy HTTP+SSE: a GET opens the event stream, whose first 'endpoint' event tells where to POST
+ * messages; all the responses arrive on the event stream.
+ */
+async function _connectSseTransport(access: McpServerAccess, abortSignal?: AbortSignal): Promise<_McpTransport> {
+
+  // the stream lives until close() or the caller's abort
+  const streamAbort = new AbortController();
+  const onCallerAbort = () => streamAbort.abort();
+  abortSignal?.addEventListener('abort', onCallerAbort);
+
+  const close = async () => {
+    abortSignal?.removeEventListener('abort', onCallerAbort);
+    streamAbort.abort();
+  };
+
+  const response = await fetch(access.url, {
+    headers: { ..._authHeaders(access), 'Accept': 'text/event-stream' },
+    signal: streamAbort.signal,
+  }).catch((error) => {
+    void close();
+    throw error;
+  });
+  if (!response.ok || !response.body) {
+    await close();
+    throw new Error(`MCP server responded with ${response.status} ${response.statusText}`.trim());
+  }
+
+  // dispatch the events: endpoint first, then responses to the pending requests
+  const pending = new Map<number | string, (message: _JsonRpcMessage | Error) => void>();
+  let resolveEndpoint: (endpoint: string | Error) => void = () => null;
+  const endpointPromise = new Promise<string | Error>(resolve => resolveEndpoint = resolve);
+
+  void _readSseEvents(response, (eventName, data) => {
+    if (eventName === 'endpoint') {
+      resolveEndpoint(new URL(data.trim(), access.url).href);
+      return false;
+    }
+    let message: _JsonRpcMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return false;
+    }
+    const resolver = message.id !== undefined ? pending.get(message.id) : undefined;
+    if (resolver && _isResponseTo(message, message.id)) {
+      pending.delete(message.id!);
+      resolver(message);
+    }
+    return false;
+  }).then(() => {
+    const closedError = new Error('MCP server closed the event stream');
+    resolveEndpoint(closedError);
+    pending.forEach(resolver => resolver(closedError));
+    pending.clear();
+  });
+
+  const endpoint = await _withTimeout(endpointPromise, MCP_CONNECT_TIMEOUT, 'MCP endpoint event').catch(error => error as Error);
+  if (endpoint instanceof Error) {
+    await close();
+    throw endpoint;
+  }
+
+  const post = async (message: _JsonRpcMessage) => {
+    const postResponse = await fetch(endpoint, {
+      method: 'POST',
+      headers: { ..._authHeaders(access), 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: streamAbort.signal,
+    });
+    await postResponse.body?.cancel().catch(() => null);
+    if (!postResponse.ok)
+      throw new Error(`MCP server responded with ${postResponse.status} ${postResponse.statusText}`.trim());
+  };
+
+  return {
+    request: async (message) => {
+      const reply = new Promise<_JsonRpcMessage | Error>(resolve => pending.set(message.id!, resolve));
+      try {
+        await post(message);
+        const result = await _withTimeout(reply, MCP_REQUEST_TIMEOUT, `MCP '${message.method}'`);
+        if (result instanceof Error)
+          throw result;
+        return result;
+      } finally {
+        // the reply will not be awaited anymore after a failed post or a timeout
+        pending.delete(message.id!);
+      }
+    },
+    notify: post,
+    setProtocolVersion: () => null, // not used by this transport
+    close,
+  };
+}
+
+
+// SSE helpers
+
+/** Reads the events of a response body until the callback returns true or the stream ends */
+async function _readSseEvents(response: Response, onEvent: (eventName: string, data: string) => boolean): Promise<void> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder('utf-8');
+  const demuxer = createFastEventSourceDemuxer();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      const events = done ? demuxer.flushRemaining() : demuxer.demux(decoder.decode(value, { stream: true }));
+      for (const event of events)
+        if (event.type === 'event' && onEvent(event.name || 'message', event.data))
+          return;
+      if (done)
+        return;
+    }
+  } catch {
+    // aborted or broken stream: the caller handles the missing events
+  } finally {
+    reader.cancel().catch(() => null);
+  }
+}
+
+async function _readSseUntilResponse(response: Response, id: _JsonRpcMessage['id']): Promise<_JsonRpcMessage> {
+  let reply: _JsonRpcMessage | undefined;
+  await _readSseEvents(response, (eventName, data) => {
+    if (eventName !== 'message') return false;
+    try {
+      const message: _JsonRpcMessage = JSON.parse(data);
+      if (_isResponseTo(message, id))
+        reply = message;
+    } catch {
+      // ignore non-JSON events
+    }
+    return !!reply;
+  });
+  if (!reply)
+    throw new Error('MCP server closed the stream without a response');
+  return reply;
+}
+
+
+function _withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timeoutId: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
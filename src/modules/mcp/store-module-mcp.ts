@@ -0,0 +1,65 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import { agiUuid } from '~/common/util/idUtils';
+
+import type { McpServerAccess } from './server/mcp.session';
+
+
+export type McpServerId = string;
+
+export interface McpServerConfig {
+  id: McpServerId;
+  label: string;
+  transport: McpServerAccess['transport'];
+  url: string;
+  authToken: string; // empty if not needed
+  enabled: boolean;
+}
+
+
+interface ModuleMcpStore {
+
+  // user-registered MCP servers
+
+  servers: McpServerConfig[];
+  addServer: (server: Omit<McpServerConfig, 'id'>) => McpServerId;
+  updateServer: (serverId: McpServerId, update: Partial<Omit<McpServerConfig, 'id'>>) => void;
+  removeServer: (serverId: McpServerId) => void;
+
+}
+
+export const useMcpStore = create<ModuleMcpStore>()(
+  persist(
+    (set) => ({
+
+      servers: [],
+
+      addServer: (server) => {
+        const id = agiUuid('mcp-server');
+        set(({ servers }) => ({ servers: [...servers, { ...server, id }] }));
+        return id;
+      },
+
+      updateServer: (serverId, update) => set(({ servers }) => ({
+        servers: servers.map(s => s.id !== serverId ? s : { ...s, ...update }),
+      })),
+
+      removeServer: (serverId) => set(({ servers }) => ({
+        servers: servers.filter(s => s.id !== serverId),
+      })),
+
+    }),
+    {
+      name: 'app-module-mcp',
+    }),
+);
+
+
+export function mcpServerAccess(server: McpServerConfig): McpServerAccess {
+  return {
+    transport: server.transport,
+    url: server.url.trim(),
+    ...(!!server.authToken.trim() && { authToken: server.authToken.trim() }),
+  };
+}
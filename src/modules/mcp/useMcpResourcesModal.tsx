@@ -0,0 +1,176 @@
+import * as React from 'react';
+
+import { Box, Button, Checkbox, CircularProgress, Divider, List, ListItem, Typography } from '@mui/joy';
+import HubOutlinedIcon from '@mui/icons-material/HubOutlined';
+
+import { GoodModal } from '~/common/components/modals/GoodModal';
+
+import type { McpResourceDescriptor } from './server/mcp.router';
+import { McpServerConfig, McpServerId, useMcpStore } from './store-module-mcp';
+import { mcpListResourcesOrThrow } from './mcp.client';
+
+
+export type McpResourceSelection = {
+  server: McpServerConfig;
+  resource: McpResourceDescriptor;
+};
+
+type _ServerResources = {
+  server: McpServerConfig;
+  resources: McpResourceDescriptor[];
+  error?: string;
+};
+
+
+const _styles = {
+  list: {
+    maxHeight: '50vh',
+    overflow: 'auto',
+    '--ListItem-paddingY': '0.25rem',
+  },
+  description: {
+    fontSize: 'xs',
+    color: 'text.tertiary',
+  },
+} as const;
+
+
+function McpResourcesModal(props: {
+  onClose: () => void,
+  onAttachResources: (selections: McpResourceSelection[]) => void,
+}) {
+
+  // state
+  const [serverResources, setServerResources] = React.useState<_ServerResources[] | null>(null);
+  const [selectedKeys, setSelectedKeys] = React.useState<Set<string>>(new Set());
+
+  // [effect] list the resources of all the enabled servers
+  React.useEffect(() => {
+    let cancelled = false;
+    const servers = useMcpStore.getState().servers.filter(s => s.enabled);
+    void Promise.all(servers.map(async (server): Promise<_ServerResources> => {
+      try {
+        return { server, resources: (await mcpListResourcesOrThrow(server)).resources };
+      } catch (error: any) {
+        return { server, resources: [], error: error?.message || 'Connection error' };
+      }
+    })).then(results => !cancelled && setServerResources(results));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+
+  // handlers
+
+  const toggleSelected = (key: string) => setSelectedKeys(prev => {
+    const next = new Set(prev);
+    if (!next.delete(key))
+      next.add(key);
+    return next;
+  });
+
+  const { onAttachResources, onClose } = props;
+
+  const handleAttach = () => {
+    const selections: McpResourceSelection[] = [];
+    for (const { server, resources } of serverResources ?? [])
+      for (const resource of resources)
+        if (selectedKeys.has(_selectionKey(server.id, resource.uri)))
+          selections.push({ server, resource });
+    onAttachResources(selections);
+    onClose();
+  };
+
+
+  return (
+    <GoodModal
+      open
+      onClose={onClose}
+      title='Attach MCP Resources'
+      titleStartDecorator={<HubOutlinedIcon />}
+      closeText='Cancel'
+      hideBottomClose
+    >
+
+      {!serverResources ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+          <CircularProgress size='sm' />
+        </Box>
+      ) : !serverResources.length ? (
+        <Typography level='body-sm'>
+          No MCP servers are enabled. Add them in Settings &gt; Tools &gt; MCP Servers.
+        </Typography>
+      ) : (
+        <List size='sm' sx={_styles.list}>
+          {serverResources.map(({ server, resources, error }) => <React.Fragment key={server.id}>
+            <ListItem sticky>
+              <Typography level='title-sm'>{server.label}</Typography>
+            </ListItem>
+            {error ? (
+              <ListItem><Typography level='body-xs' color='danger'>{error}</Typography></ListItem>
+            ) : !resources.length ? (
+              <ListItem><Typography level='body-xs'>No resources</Typography></ListItem>
+            ) : resources.map(resource => {
+              const key = _selectionKey(server.id, resource.uri);
+              return (
+                <ListItem key={key}>
+                  <Checkbox
+                    size='sm'
+                    checked={selectedKeys.has(key)}
+                    onChange={() => toggleSelected(key)}
+                    label={<Box>
+                      <div>{resource.title || resource.name}</div>
+                      <Box sx={_styles.description}>{resource.description || resource.uri}</Box>
+                    </Box>}
+                  />
+                </ListItem>
+              );
+            })}
+          </React.Fragment>)}
+        </List>
+      )}
+
+      <Divider />
+
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+        <Button variant='plain' color='neutral' onClick={onClose}>
+          Cancel
+        </Button>
+        <Button disabled={!selectedKeys.size} onClick={handleAttach} sx={{ minWidth: 120 }}>
+          Attach {selectedKeys.size > 1 ? `(${selectedKeys.size})` : ''}
+        </Button>
+      </Box>
+
+    </GoodModal>
+  );
+}
+
+function _selectionKey(serverId: McpServerId, uri: string) {
+  return `${serverId}|${uri}`;
+}
+
+
+export function useMcpResourcesModal(onAttachResources: (selections: McpResourceSelection[]) => void) {
+
+  // state
+  const [open, setOpen] = React.useState(false);
+
+  // external state
+  const hasEnabledServers = useMcpStore(state => state.servers.some(s => s.enabled));
+
+  const openMcpResourcesDialog = React.useCallback(() => setOpen(true), []);
+
+  const mcpResourcesDialogComponent = React.useMemo(() => open && (
+    <McpResourcesModal
+      onClose={() => setOpen(false)}
+      onAttachResources={onAttachResources}
+    />
+  ), [onAttachResources, open]);
+
+  return {
+    // undefined when there's nothing to pick from, so the source can be hidden
+    openMcpResourcesDialog: hasEnabledServers ? openMcpResourcesDialog : undefined,
+    mcpResourcesDialogComponent,
+  };
+}
@@ -0,0 +1,373 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Alert, Avatar, Box, Button, Checkbox, Divider, FormControl, FormHelperText, FormLabel, Input, Option, Select, Textarea, Typography } from '@mui/joy';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+
+import { SpeexVoiceSelect } from '~/modules/speex/components/SpeexVoiceSelect';
+import { knowledgeStoreActions, useKnowledgeCollections } from '~/modules/knowledge/store-knowledge';
+import { useSpeexEngines } from '~/modules/speex/store-module-speex';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { FormNumberInput } from '~/common/components/forms/FormNumberInput';
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
+import { useLLMSelect } from '~/common/components/forms/useLLMSelect';
+
+import { PromptVariableRegistry } from './pmix/pmix.parameters';
+import { DPersona, DPersonaExample, DPersonaId, DPersonaLlmParameters, personasStoreActions, usePersona } from './store-personas';
+import { personasExportToFile } from './personas.io';
+
+
+// configuration
+const TEMPERATURE_OPTIONS = [0, 0.2, 0.5, 0.7, 1, 1.3] as const;
+
+const _styles = {
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: 2,
+  },
+  avatar: {
+    '--Avatar-size': '3.5rem',
+    fontSize: '2rem',
+    borderRadius: 'sm',
+  },
+  row: {
+    display: 'grid',
+    gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+    gap: 2,
+  },
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 1,
+  },
+  bindings: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(10rem, 1fr))',
+    gap: 1,
+  },
+} as const satisfies Record<string, SxProps>;
+
+
+function _examplesToText(examples: DPersonaExample[]): string {
+  return examples.map(example => typeof example === 'string' ? example : example.prompt).join('\n');
+}
+
+function _textToExamples(text: string, previous: DPersonaExample[]): DPersonaExample[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).map(prompt =>
+    // keep the action of the examples which did not change
+    previous.find((example): example is Exclude<DPersonaExample, string> => typeof example === 'object' && example.prompt === prompt) ?? prompt,
+  );
+}
+
+
+/**
+ * Editor of a persona of the library: identity, prompt, starters, default model, voice and knowledge.
+ * Changes are saved as they are made.
+ */
+export function PersonaEditorModal(props: {
+  personaId: DPersonaId,
+  onPersonaDuplicated?: (personaId: DPersonaId) => void,
+  onClose: () => void,
+}) {
+
+  // state
+  const [deleteArmed, setDeleteArmed] = React.useState(false);
+  const [resetCount, setResetCount] = React.useState(0); // re-mounts the editor, to reload the text areas
+
+  // external state
+  const persona = usePersona(props.personaId);
+
+
+  // handlers
+
+  const { personaId, onClose, onPersonaDuplicated } = props;
+
+  const handleDuplicate = React.useCallback(() => {
+    const newPersonaId = personasStoreActions().duplicatePersona(personaId);
+    if (newPersonaId)
+      onPersonaDuplicated?.(newPersonaId);
+  }, [onPersonaDuplicated, personaId]);
+
+  const handleExport = React.useCallback(() => {
+    if (!persona) return;
+    personasExportToFile([persona]).catch((error: any) => {
+      if (error?.name !== 'AbortError')
+        addSnackbar({ key: 'personas-export', type: 'issue', message: `Could not export the persona: ${error?.message || 'unknown error'}` });
+    });
+  }, [persona]);
+
+  const handleReset = React.useCallback(() => {
+    personasStoreActions().resetBuiltInPersona(personaId);
+    setResetCount(count => count + 1);
+  }, [personaId]);
+
+  const handleDelete = React.useCallback(() => {
+    personasStoreActions().deletePersona(personaId);
+    onClose();
+  }, [onClose, personaId]);
+
+
+  return (
+    <GoodModal
+      open
+      title={!persona ? 'Persona' : persona.builtIn ? 'Edit Built-in Persona' : 'Edit Persona'}
+      dividers
+      autoOverflow
+      onClose={onClose}
+      startButton={!persona ? undefined : (
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant='plain' color='neutral' startDecorator={<ContentCopyIcon />} onClick={handleDuplicate}>
+            Duplicate
+          </Button>
+          <Button variant='plain' color='neutral' startDecorator={<FileDownloadOutlinedIcon />} onClick={handleExport}>
+            Export
+          </Button>
+        </Box>
+      )}
+      sx={{ minWidth: { md: 720 } }}
+    >
+
+      {!persona ? (
+        <Typography level='body-sm' sx={{ fontStyle: 'italic', textAlign: 'center', py: 2 }}>
+          This persona has been removed.
+        </Typography>
+      ) : <>
+
+        <PersonaEditor key={`${persona.id}-${resetCount}`} persona={persona} />
+
+        <Divider />
+
+        {/* Reset / Delete */}
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {persona.builtIn ? (
+            <Button variant='plain' color='neutral' startDecorator={<RestartAltIcon />} onClick={handleReset}>
+              Reset to Default
+            </Button>
+          ) : !deleteArmed ? (
+            <Button variant='plain' color='neutral' startDecorator={<DeleteOutlineIcon />} onClick={() => setDeleteArmed(true)}>
+              Delete Persona
+            </Button>
+          ) : <>
+            <Button variant='plain' color='neutral' onClick={() => setDeleteArmed(false)}>
+              Cancel
+            </Button>
+            <Button variant='solid' color='danger' startDecorator={<DeleteOutlineIcon />} onClick={handleDelete}>
+              Confirm Deletion
+            </Button>
+          </>}
+        </Box>
+
+      </>}
+
+    </GoodModal>
+  );
+}
+
+
+function PersonaEditor(props: { persona: DPersona }) {
+
+  // state - text areas are edited as text, and stored as arrays
+  const { persona } = props;
+  const [examplesText, setExamplesText] = React.useState(() => _examplesToText(persona.examples));
+  const [callStartersText, setCallStartersText] = React.useState(() => (persona.callStarters ?? []).join('\n'));
+
+  // external state
+  const knowledgeCollections = useKnowledgeCollections();
+  const speexEngines = useSpeexEngines();
+
+
+  // handlers
+
+  const { id: personaId } = persona;
+
+  const update = React.useCallback((changes: Partial<DPersona>) => {
+    personasStoreActions().updatePersona(personaId, changes);
+  }, [personaId]);
+
+  const updateLlmParameters = React.useCallback((parameters: Partial<DPersonaLlmParameters>) => {
+    const llmParameters: DPersonaLlmParameters = { ...persona.llmParameters, ...parameters };
+    for (const key of Object.keys(llmParameters) as (keyof DPersonaLlmParameters)[])
+      if (llmParameters[key] === undefined)
+        delete llmParameters[key];
+    update({ llmParameters: Object.keys(llmParameters).length ? llmParameters : undefined });
+  }, [persona.llmParameters, update]);
+
+  const handleExamplesChange = React.useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setExamplesText(event.target.value);
+    update({ examples: _textToExamples(event.target.value, persona.examples) });
+  }, [persona.examples, update]);
+
+  const handleCallStartersChange = React.useCallback((event: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setCallStartersText(event.target.value);
+    const callStarters = event.target.value.split('\n').map(line => line.trim()).filter(Boolean);
+    update({ callStarters: callStarters.length ? callStarters : undefined });
+  }, [update]);
+
+  const handleLlmChange = React.useCallback((llmId: DLLMId) => update({ llmId }), [update]);
+
+  const handleVoiceIdChange = React.useCallback((voiceId: string) => {
+    if (persona.voice)
+      update({ voice: { ...persona.voice, voiceId } });
+  }, [persona.voice, update]);
+
+
+  // derived state
+  const voiceEngine = !persona.voice ? null : speexEngines.find(engine => engine.engineId === persona.voice?.engineId) ?? null;
+
+  const [_llm, llmComponent] = useLLMSelect(persona.llmId ?? null, handleLlmChange, {
+    label: '',
+    placeholder: 'Current chat model',
+  });
+
+
+  return <>
+
+    {/* Identity */}
+    <Box sx={_styles.header}>
+      <Avatar variant='plain' src={persona.imageUri} sx={_styles.avatar}>
+        {persona.symbol}
+      </Avatar>
+      <FormControl sx={{ flex: 1 }}>
+        <FormLabel>Name</FormLabel>
+        <Input value={persona.title} onChange={event => update({ title: event.target.value })} placeholder='e.g. Tutor' />
+      </FormControl>
+      <FormControl sx={{ width: '5rem' }}>
+        <FormLabel>Symbol</FormLabel>
+        <Input value={persona.symbol} onChange={event => update({ symbol: event.target.value })} placeholder='🤖' />
+      </FormControl>
+    </Box>
+
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Description</FormLabel>
+        <Input value={persona.description} onChange={event => update({ description: event.target.value })} placeholder='Optional: shown under the tiles' />
+      </FormControl>
+      <FormControl>
+        <FormLabel>Avatar Image</FormLabel>
+        <Input value={persona.imageUri ?? ''} onChange={event => update({ imageUri: event.target.value.trim() || undefined })} placeholder='Optional: https://...' />
+      </FormControl>
+    </Box>
+
+    {/* System Prompt */}
+    <FormControl>
+      <FormLabel>System Prompt</FormLabel>
+      <Textarea
+        minRows={6}
+        maxRows={18}
+        value={persona.systemPrompt}
+        onChange={event => update({ systemPrompt: event.target.value })}
+        placeholder='You are ...'
+      />
+      <FormHelperText>
+        Variables are replaced when the chat starts: {Object.keys(PromptVariableRegistry).join(', ')}.
+      </FormHelperText>
+    </FormControl>
+
+    <FormControl>
+      <FormLabel>Prompt Notes</FormLabel>
+      <Input value={persona.systemPromptNotes ?? ''} onChange={event => update({ systemPromptNotes: event.target.value || undefined })} placeholder='Optional: shown below the prompt' />
+    </FormControl>
+
+    {/* Starters */}
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Example Prompts</FormLabel>
+        <Textarea minRows={3} maxRows={8} value={examplesText} onChange={handleExamplesChange} placeholder='One per line' />
+      </FormControl>
+      <FormControl>
+        <FormLabel>Call Starters</FormLabel>
+        <Textarea minRows={3} maxRows={8} value={callStartersText} onChange={handleCallStartersChange} placeholder='One per line, e.g. Hey, what&apos;s up?' />
+      </FormControl>
+    </Box>
+
+    <Divider />
+
+    {/* Model */}
+    <Box sx={_styles.section}>
+      <FormLabel>Default Model</FormLabel>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Box sx={{ flex: 1 }}>{llmComponent}</Box>
+        {!!persona.llmId && (
+          <Button variant='plain' color='neutral' onClick={() => update({ llmId: undefined })}>
+            Clear
+          </Button>
+        )}
+      </Box>
+      <FormHelperText>Selected for the chat when switching to this persona.</FormHelperText>
+    </Box>
+
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Temperature</FormLabel>
+        <Select
+          value={persona.llmParameters?.llmTemperature === undefined ? 'default' : String(persona.llmParameters.llmTemperature)}
+          onChange={(_event, value) => value && updateLlmParameters({ llmTemperature: value === 'default' ? undefined : Number(value) })}
+        >
+          <Option value='default'>Model default</Option>
+          {TEMPERATURE_OPTIONS.map(temperature => <Option key={temperature} value={String(temperature)}>{temperature}</Option>)}
+        </Select>
+      </FormControl>
+      <FormNumberInput
+        title='Max Tokens'
+        description='Output length'
+        min={16}
+        initialValue={4096}
+        value={persona.llmParameters?.llmResponseTokens ?? undefined}
+        onChange={llmResponseTokens => updateLlmParameters({ llmResponseTokens })}
+      />
+    </Box>
+
+    <Divider />
+
+    {/* Voice */}
+    <Box sx={_styles.section}>
+      <FormLabel>Voice</FormLabel>
+      <Box sx={_styles.row}>
+        <Select
+          value={persona.voice?.engineId ?? 'default'}
+          onChange={(_event, value) => value && update({ voice: value === 'default' ? undefined : { engineId: value } })}
+        >
+          <Option value='default'>Default voice</Option>
+          {speexEngines.map(engine => <Option key={engine.engineId} value={engine.engineId}>{engine.label}</Option>)}
+        </Select>
+        {!!voiceEngine && (
+          <SpeexVoiceSelect engine={voiceEngine} voiceId={persona.voice?.voiceId ?? null} onVoiceChange={handleVoiceIdChange} autoPreview />
+        )}
+      </Box>
+      {!!persona.voice && !voiceEngine && (
+        <Alert color='warning' variant='soft'>
+          The voice engine of this persona was removed: the default voice will be used.
+        </Alert>
+      )}
+    </Box>
+
+    <Divider />
+
+    {/* Knowledge */}
+    <Box sx={_styles.section}>
+      <FormLabel>Knowledge</FormLabel>
+      {!knowledgeCollections.length ? (
+        <Typography level='body-xs'>No knowledge collections yet.</Typography>
+      ) : (
+        <Box sx={_styles.bindings}>
+          {knowledgeCollections.map(collection => (
+            <Checkbox
+              key={collection.id}
+              size='sm'
+              label={collection.title || 'Untitled'}
+              checked={collection.personaIds.includes(personaId)}
+              onChange={event => knowledgeStoreActions().setCollectionPersonaBound(collection.id, personaId, event.target.checked)}
+            />
+          ))}
+        </Box>
+      )}
+    </Box>
+
+  </>;
+}
@@ -0,0 +1,61 @@
+import * as z from 'zod/v4';
+
+import { jsonFileOpen, jsonFileSave } from '~/common/util/jsonFileUtils';
+import { prettyTimestampForFilenames } from '~/common/util/timeUtils';
+
+import type { DPersona } from './store-personas';
+
+
+// Personas file, to share personas across devices and users
+
+const PERSONAS_FILE_TYPE = 'personas';
+
+const personasFile_schema = z.object({
+  type: z.literal(PERSONAS_FILE_TYPE),
+  version: z.literal(1),
+  personas: z.array(z.object({
+    title: z.string(),
+    description: z.string().optional().default(''),
+    symbol: z.string().optional().default('🤖'),
+    imageUri: z.string().optional(),
+    systemPrompt: z.string(),
+    systemPromptNotes: z.string().optional(),
+    examples: z.array(z.union([
+      z.string(),
+      z.object({ prompt: z.string(), action: z.literal('require-data-attachment').optional() }),
+    ])).optional().default([]),
+    callStarters: z.array(z.string()).optional(),
+    llmId: z.string().optional(),
+    llmParameters: z.object({
+      llmTemperature: z.number().min(0).max(2).nullable().optional(),
+      llmResponseTokens: z.number().int().positive().nullable().optional(),
+    }).optional(),
+  })),
+});
+
+export type DPersonaImport = z.infer<typeof personasFile_schema>['personas'][number];
+
+
+/**
+ * Note: the voice and the bound knowledge are not exported, as they reference local engines and documents.
+ * @throws {DOMException} AbortError if the user closes the save dialog
+ */
+export async function personasExportToFile(personas: DPersona[]): Promise<void> {
+  await jsonFileSave(personasFile_schema, {
+    type: PERSONAS_FILE_TYPE,
+    version: 1,
+    personas: personas.map(({ id: _id, builtIn: _builtIn, created: _created, updated: _updated, voice: _voice, highlighted: _highlighted, ...persona }) => persona),
+  }, personas.length === 1
+    ? `persona_${personas[0].title.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}.json`
+    : `personas_${prettyTimestampForFilenames(false)}.json`);
+}
+
+/**
+ * Note: the default models are referenced by id, and may be missing on other devices.
+ * @returns the personas, or null if the user cancelled
+ * @throws {Error} if the file is not a valid personas file
+ */
+export async function personasImportFromFile(): Promise<DPersonaImport[] | null> {
+  const file = await jsonFileOpen(personasFile_schema, 'The file does not contain personas');
+  return file?.personas ?? null;
+}
@@ -0,0 +1,242 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import { SystemPurposeId, SystemPurposes } from '../../data';
+
+import type { SpeexEngineId, SpeexVoiceSelector } from '~/modules/speex/speex.types';
+import { speexFindEngineById } from '~/modules/speex/store-module-speex';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import type { DModelParameterValues } from '~/common/stores/llms/llms.parameters';
+import { agiUuid } from '~/common/util/idUtils';
+import { llmsStoreActions, llmsStoreState } from '~/common/stores/llms/store-llms';
+
+
+/**
+ * Persona: who the assistant is in a conversation. The built-in personas are seeded from
+ * the `SystemPurposes` catalog, and can be edited (and reset); the user can create more.
+ *
+ * The conversations reference personas by id (`systemPurposeId`), and so do the knowledge
+ * collections and response schemas that are bound to them.
+ */
+export interface DPersona {
+  id: DPersonaId;
+  title: string;
+  description: string;
+  symbol: string;                     // emoji, shown when there's no image
+  imageUri?: string;                  // avatar: URL or data URL
+  systemPrompt: string;               // may contain pmix variables, e.g. {{LocaleNow}}
+  systemPromptNotes?: string;
+  examples: DPersonaExample[];        // conversation starters
+  callStarters?: string[];            // first words in voice calls
+  llmId?: DLLMId;                     // default chat model, selected together with the persona
+  llmParameters?: DPersonaLlmParameters; // applied to the chat generations of the conversations with this persona
+  voice?: DPersonaVoice;              // TTS voice, instead of the global one
+  highlighted?: boolean;
+  builtIn?: true;                     // seeded from the catalog: can be reset, not deleted
+  created: number;
+  updated: number;
+}
+
+export type DPersonaId = string; // built-ins: the SystemPurposeId, others: agiUuid('persona')
+
+export type DPersonaExample = string | { prompt: string, action?: 'require-data-attachment' };
+
+export type DPersonaLlmParameters = Pick<DModelParameterValues, 'llmTemperature' | 'llmResponseTokens'>;
+
+export interface DPersonaVoice {
+  engineId: SpeexEngineId;
+  voiceId?: string;
+}
+
+
+// built-in catalog
+
+function _createBuiltInPersona(purposeId: SystemPurposeId): DPersona {
+  const purpose = SystemPurposes[purposeId];
+  return {
+    id: purposeId,
+    title: purpose.title,
+    description: typeof purpose.description === 'string' ? purpose.description : '',
+    symbol: purpose.symbol,
+    ...(purpose.imageUri && { imageUri: purpose.imageUri }),
+    systemPrompt: purpose.systemMessage,
+    ...(purpose.systemMessageNotes && { systemPromptNotes: purpose.systemMessageNotes }),
+    examples: purpose.examples ? [...purpose.examples] : [],
+    ...(purpose.call?.starters && { callStarters: [...purpose.call.starters] }),
+    ...(purpose.highlighted && { highlighted: true }),
+    builtIn: true,
+    created: 0,
+    updated: 0,
+  };
+}
+
+function _createBuiltInPersonas(): DPersona[] {
+  return (Object.keys(SystemPurposes) as SystemPurposeId[]).map(_createBuiltInPersona);
+}
+
+export function isBuiltInPersonaId(personaId: DPersonaId): personaId is SystemPurposeId {
+  return SystemPurposes.hasOwnProperty(personaId);
+}
+
+
+// store
+
+interface PersonasState {
+  personas: DPersona[];
+}
+
+interface PersonasActions {
+  createPersona: (persona: Partial<Omit<DPersona, 'id' | 'builtIn' | 'created' | 'updated'>>) => DPersonaId;
+  duplicatePersona: (personaId: DPersonaId) => DPersonaId | null;
+  importPersonas: (personas: Partial<Omit<DPersona, 'id' | 'builtIn' | 'created' | 'updated'>>[]) => void;
+  updatePersona: (personaId: DPersonaId, update: Partial<Omit<DPersona, 'id' | 'builtIn' | 'created' | 'updated'>>) => void;
+  deletePersona: (personaId: DPersonaId) => void;
+  resetBuiltInPersona: (personaId: DPersonaId) => void;
+}
+
+type PersonasStore = PersonasState & PersonasActions;
+
+export const usePersonasStore = create<PersonasStore>()(persist(
+  (set, get) => ({
+
+    // Initial state
+    personas: _createBuiltInPersonas(),
+
+    // Actions
+    createPersona: (persona) => {
+      const newPersona: DPersona = {
+        title: 'New Persona',
+        description: '',
+        symbol: '🤖',
+        systemPrompt: 'You are an AI assistant.\nCurrent date: {{Today}}',
+        examples: [],
+        ...persona,
+        id: agiUuid('persona'),
+        created: Date.now(),
+        updated: Date.now(),
+      };
+      set(state => ({
+        personas: [...state.personas, newPersona],
+      }));
+      return newPersona.id;
+    },
+
+    duplicatePersona: (personaId) => {
+      const source = get().personas.find(p => p.id === personaId);
+      if (!source) return null;
+      const { id: _id, builtIn: _builtIn, created: _created, updated: _updated, ...rest } = source;
+      return get().createPersona({ ...rest, title: `${source.title} (copy)` });
+    },
+
+    importPersonas: (personas) => {
+      // imported personas are always new, even if previously exported from here
+      for (const persona of personas)
+        get().createPersona(persona);
+    },
+
+    updatePersona: (personaId, update) =>
+      set(state => ({
+        personas: state.personas.map(persona => persona.id !== personaId ? persona : {
+          ...persona,
+          ...update,
+          updated: Date.now(),
+        }),
+      })),
+
+    deletePersona: (personaId) =>
+      set(state => ({
+        personas: state.personas.filter(persona => persona.id !== personaId || persona.builtIn),
+      })),
+
+    resetBuiltInPersona: (personaId) => {
+      if (!isBuiltInPersonaId(personaId)) return;
+      set(state => ({
+        personas: state.personas.map(persona => persona.id !== personaId ? persona : _createBuiltInPersona(personaId)),
+      }));
+    },
+
+  }),
+  {
+    name: 'app-personas',
+    version: 1,
+
+    // built-ins follow the catalog (from app updates) until edited, and new built-ins are added
+    merge: (persistedState, currentState) => {
+      const merged = { ...currentState, ...(persistedState as Partial<PersonasState>) };
+      merged.personas = merged.personas.map(persona =>
+        persona.builtIn && !persona.updated && isBuiltInPersonaId(persona.id) ? _createBuiltInPersona(persona.id) : persona,
+      );
+      const missingBuiltIns = currentState.personas.filter(builtIn => !merged.personas.some(p => p.id === builtIn.id));
+      if (missingBuiltIns.length)
+        merged.personas = [...merged.personas, ...missingBuiltIns];
+      return merged;
+    },
+  },
+));
+
+
+// Imperative getters/actions (for use outside React)
+
+export function getPersona(personaId: DPersonaId | null | undefined): DPersona | null {
+  if (!personaId) return null;
+  return usePersonasStore.getState().personas.find(persona => persona.id === personaId) ?? null;
+}
+
+export function personasStoreActions(): PersonasActions {
+  return usePersonasStore.getState();
+}
+
+/**
+ * Selects the default chat model of the persona, if it has one and the model is still available.
+ */
+export function personaApplyDefaultChatModel(personaId: DPersonaId): void {
+  const llmId = getPersona(personaId)?.llmId;
+  if (llmId && llmsStoreState().llms.some(llm => llm.id === llmId))
+    llmsStoreActions().assignDomainModelId('primaryChat', llmId);
+}
+
+/**
+ * The model parameters of the persona, to be applied over the ones of the chat model.
+ */
+export function personaLlmOptionsOverride(personaId: DPersonaId | null): DPersonaLlmParameters | undefined {
+  const llmParameters = getPersona(personaId)?.llmParameters;
+  return llmParameters && Object.keys(llmParameters).length ? llmParameters : undefined;
+}
+
+/**
+ * The TTS voice of the persona, or undefined for the global voice (also if the engine was removed).
+ */
+export function personaVoiceSelector(personaId: DPersonaId | null | undefined): SpeexVoiceSelector {
+  const voice = getPersona(personaId)?.voice;
+  const engine = !voice ? null : speexFindEngineById(voice.engineId, true);
+  if (!voice || !engine)
+    return undefined;
+  if (!voice.voiceId)
+    return { engineId: engine.engineId };
+  switch (engine.vendorType) {
+    case 'elevenlabs':
+    case 'inworld':
+    case 'localtts':
+    case 'openai':
+      return { engineId: engine.engineId, voice: { dialect: engine.vendorType, ttsVoiceId: voice.voiceId } };
+    case 'webspeech':
+      return { engineId: engine.engineId, voice: { dialect: 'webspeech', ttsVoiceURI: voice.voiceId } };
+    case 'localai':
+      return { engineId: engine.engineId }; // voices are models, part of the engine configuration
+    default:
+      const _exhaustiveCheck: never = engine;
+      return undefined;
+  }
+}
+
+
+// React hooks
+
+export function usePersonas(): DPersona[] {
+  return usePersonasStore(state => state.personas);
+}
+
+export function usePersona(personaId: DPersonaId | null | undefined): DPersona | null {
+  return usePersonasStore(state => !personaId ? null : state.personas.find(persona => persona.id === personaId) ?? null);
+}
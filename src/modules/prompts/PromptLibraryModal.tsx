@@ -0,0 +1,297 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Button, Chip, Divider, FormControl, FormHelperText, FormLabel, IconButton, Input, List, ListItem, ListItemButton, ListItemContent, Option, Select, Textarea, Typography } from '@mui/joy';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import ClearIcon from '@mui/icons-material/Clear';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
+import FileUploadOutlinedIcon from '@mui/icons-material/FileUploadOutlined';
+import SearchIcon from '@mui/icons-material/Search';
+
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { addSnackbar } from '~/common/components/snackbar/useSnackbarsStore';
+
+import { DPromptTemplate, DPromptTemplateId, promptTemplatesActions, usePromptTemplates } from './store-prompts';
+import { promptTemplateUserVariables } from './prompts.template';
+import { promptTemplatesExportToFile, promptTemplatesImportFromFile } from './prompts.io';
+
+
+const _styles = {
+  filters: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 1,
+  },
+  list: {
+    maxHeight: '14rem',
+    overflowY: 'auto',
+    '--ListItem-minHeight': '2.25rem',
+  },
+  row: {
+    display: 'grid',
+    gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' },
+    gap: 2,
+  },
+  templateText: {
+    fontFamily: 'code',
+    fontSize: 'sm',
+  },
+} as const satisfies Record<string, SxProps>;
+
+
+// unique folder names, sorted, without the root
+function _templatesFolders(templates: DPromptTemplate[]): string[] {
+  return [...new Set(templates.map(template => template.folder).filter(Boolean))].sort();
+}
+
+function _templatesTags(templates: DPromptTemplate[]): string[] {
+  return [...new Set(templates.flatMap(template => template.tags))].sort();
+}
+
+
+/**
+ * Management of the prompt templates: text with variables, folders and tags, import/export.
+ */
+export function PromptLibraryModal(props: {
+  initialTemplateId?: DPromptTemplateId,
+  onClose: () => void,
+}) {
+
+  // state
+  const [selectedId, setSelectedId] = React.useState<DPromptTemplateId | null>(props.initialTemplateId ?? null);
+  const [searchQuery, setSearchQuery] = React.useState('');
+  const [folderFilter, setFolderFilter] = React.useState<string | null>(null);
+  const [tagFilter, setTagFilter] = React.useState<string | null>(null);
+
+  // external state
+  const templates = usePromptTemplates();
+
+  // derived state
+  const folders = React.useMemo(() => _templatesFolders(templates), [templates]);
+  const tags = React.useMemo(() => _templatesTags(templates), [templates]);
+  const filteredTemplates = React.useMemo(() => {
+    const lcQuery = searchQuery.trim().toLowerCase();
+    return templates
+      .filter(template => folderFilter === null || template.folder === folderFilter)
+      .filter(template => tagFilter === null || template.tags.includes(tagFilter))
+      .filter(template => !lcQuery || template.name.toLowerCase().includes(lcQuery) || template.description.toLowerCase().includes(lcQuery))
+      .sort((a, b) => a.folder.localeCompare(b.folder) || a.name.localeCompare(b.name));
+  }, [folderFilter, searchQuery, tagFilter, templates]);
+  const template = templates.find(t => t.id === selectedId) ?? null;
+
+
+  // handlers
+
+  const handleCreateTemplate = React.useCallback(() => {
+    setSelectedId(promptTemplatesActions().createTemplate({ folder: folderFilter ?? '', tags: tagFilter ? [tagFilter] : [] }));
+  }, [folderFilter, tagFilter]);
+
+  const handleDeleteTemplate = React.useCallback((templateId: DPromptTemplateId) => {
+    promptTemplatesActions().deleteTemplate(templateId);
+    setSelectedId(null);
+  }, []);
+
+  const handleExport = React.useCallback(() => {
+    promptTemplatesExportToFile(filteredTemplates).catch((error: any) => {
+      if (error?.name !== 'AbortError')
+        addSnackbar({ key: 'prompts-export', type: 'issue', message: `Could not export the prompts: ${error?.message || 'unknown error'}` });
+    });
+  }, [filteredTemplates]);
+
+  const handleImport = React.useCallback(() => {
+    promptTemplatesImportFromFile()
+      .then(imported => {
+        if (!imported) return;
+        promptTemplatesActions().importTemplates(imported);
+        addSnackbar({ key: 'prompts-import', type: 'success', message: `Imported ${imported.length} prompt${imported.length === 1 ? '' : 's'}.` });
+      })
+      .catch((error: any) => addSnackbar({ key: 'prompts-import', type: 'issue', message: `Could not import the prompts: ${error?.message || 'unknown error'}` }));
+  }, []);
+
+
+  return (
+    <GoodModal
+      open
+      title='Prompt Library'
+      dividers
+      autoOverflow
+      onClose={props.onClose}
+      startButton={
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button variant='plain' startDecorator={<AddRoundedIcon />} onClick={handleCreateTemplate}>
+            New Prompt
+          </Button>
+          <Button variant='plain' color='neutral' startDecorator={<FileUploadOutlinedIcon />} onClick={handleImport}>
+            Import
+          </Button>
+          <Button variant='plain' color='neutral' startDecorator={<FileDownloadOutlinedIcon />} disabled={!filteredTemplates.length} onClick={handleExport}>
+            Export
+          </Button>
+        </Box>
+      }
+      sx={{ minWidth: { md: 720 } }}
+    >
+
+      <Typography level='body-sm'>
+        Reusable prompts, inserted in the composer by typing <code>#</code>. Write {'{{variables}}'} where the prompt changes: they are asked for when the prompt is used.
+      </Typography>
+
+      {/* Filters */}
+      {templates.length >= 2 && (
+        <Box sx={_styles.filters}>
+          <Input
+            size='sm'
+            value={searchQuery}
+            onChange={event => setSearchQuery(event.target.value)}
+            placeholder='Search prompts…'
+            startDecorator={<SearchIcon />}
+            endDecorator={searchQuery && <IconButton size='sm' onClick={() => setSearchQuery('')}><ClearIcon /></IconButton>}
+            sx={{ flex: 1, minWidth: '10rem' }}
+          />
+          {folders.length > 0 && (
+            <Select size='sm' value={folderFilter ?? '__all'} onChange={(_event, value) => setFolderFilter(!value || value === '__all' ? null : value)}>
+              <Option value='__all'>All folders</Option>
+              {folders.map(folder => <Option key={folder} value={folder}>{folder}</Option>)}
+            </Select>
+          )}
+          {tags.map(tag => (
+            <Chip key={tag} size='sm' variant={tagFilter === tag ? 'solid' : 'outlined'} color={tagFilter === tag ? 'primary' : 'neutral'} onClick={() => setTagFilter(tagFilter === tag ? null : tag)}>
+              #{tag}
+            </Chip>
+          ))}
+        </Box>
+      )}
+
+      {/* Templates */}
+      {!templates.length ? (
+        <Typography level='body-sm' sx={{ fontStyle: 'italic', textAlign: 'center', py: 2 }}>
+          No prompts yet.
+        </Typography>
+      ) : (
+        <List size='sm' variant='outlined' sx={_styles.list}>
+          {filteredTemplates.map(t => (
+            <ListItem key={t.id}>
+              <ListItemButton selected={t.id === selectedId} onClick={() => setSelectedId(t.id)}>
+                <ListItemContent>
+                  <Typography level='title-sm'>{t.folder && <Typography level='body-xs'>{t.folder} / </Typography>}{t.name || 'Untitled'}</Typography>
+                  {!!t.description && <Typography level='body-xs' noWrap>{t.description}</Typography>}
+                </ListItemContent>
+              </ListItemButton>
+            </ListItem>
+          ))}
+          {!filteredTemplates.length && (
+            <ListItem>
+              <Typography level='body-xs'>No prompts match the filters.</Typography>
+            </ListItem>
+          )}
+        </List>
+      )}
+
+      {!!template && <>
+        <Divider />
+        <PromptTemplateEditor key={template.id} template={template} folders={folders} onDelete={handleDeleteTemplate} />
+      </>}
+
+    </GoodModal>
+  );
+}
+
+
+function PromptTemplateEditor(props: {
+  template: DPromptTemplate,
+  folders: string[],
+  onDelete: (templateId: DPromptTemplateId) => void,
+}) {
+
+  // state
+  const [deleteArmed, setDeleteArmed] = React.useState(false);
+  const [tagsText, setTagsText] = React.useState(() => props.template.tags.join(', '));
+
+  // derived state
+  const { template, onDelete } = props;
+  const { id: templateId } = template;
+  const variables = React.useMemo(() => promptTemplateUserVariables(template.text), [template.text]);
+
+
+  // handlers
+
+  const handleTagsChange = React.useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setTagsText(event.target.value);
+    const tags = event.target.value.split(',').map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+    promptTemplatesActions().updateTemplate(templateId, { tags: [...new Set(tags)] });
+  }, [templateId]);
+
+
+  return <>
+
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Name</FormLabel>
+        <Input
+          value={template.name}
+          onChange={event => promptTemplatesActions().updateTemplate(templateId, { name: event.target.value })}
+          placeholder='e.g. Code Review'
+        />
+      </FormControl>
+      <FormControl>
+        <FormLabel>Folder</FormLabel>
+        <Input
+          value={template.folder}
+          onChange={event => promptTemplatesActions().updateTemplate(templateId, { folder: event.target.value.trim() })}
+          placeholder={props.folders.length ? `e.g. ${props.folders[0]}` : 'Optional'}
+        />
+      </FormControl>
+    </Box>
+
+    <Box sx={_styles.row}>
+      <FormControl>
+        <FormLabel>Description</FormLabel>
+        <Input
+          value={template.description}
+          onChange={event => promptTemplatesActions().updateTemplate(templateId, { description: event.target.value })}
+          placeholder='Optional: shown when picking the prompt'
+        />
+      </FormControl>
+      <FormControl>
+        <FormLabel>Tags</FormLabel>
+        <Input value={tagsText} onChange={handleTagsChange} placeholder='Comma separated, e.g. code, review' />
+      </FormControl>
+    </Box>
+
+    <FormControl>
+      <FormLabel>Prompt</FormLabel>
+      <Textarea
+        minRows={6}
+        maxRows={20}
+        value={template.text}
+        onChange={event => promptTemplatesActions().updateTemplate(templateId, { text: event.target.value })}
+        placeholder={'e.g. Review this {{language}} code for bugs:\n\n{{code}}'}
+        sx={_styles.templateText}
+      />
+      <FormHelperText>
+        {!variables.length
+          ? 'No variables: the prompt is inserted as is. Prompt variables such as {{Today}} are replaced too.'
+          : `Variables, asked for when inserting: ${variables.map(variable => variable.name).join(', ')}.`}
+      </FormHelperText>
+    </FormControl>
+
+    {/* Delete */}
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {!deleteArmed ? (
+        <Button variant='plain' color='neutral' startDecorator={<DeleteOutlineIcon />} onClick={() => setDeleteArmed(true)}>
+          Delete Prompt
+        </Button>
+      ) : <>
+        <Button variant='plain' color='neutral' onClick={() => setDeleteArmed(false)}>
+          Cancel
+        </Button>
+        <Button variant='solid' color='danger' startDecorator={<DeleteOutlineIcon />} onClick={() => onDelete(templateId)}>
+          Confirm Deletion
+        </Button>
+      </>}
+    </Box>
+
+  </>;
+}
@@ -0,0 +1,87 @@
+import * as React from 'react';
+
+import { Box, Button, FormControl, FormLabel, Textarea, Typography } from '@mui/joy';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { GoodModal } from '~/common/components/modals/GoodModal';
+
+import type { DPromptTemplate } from './store-prompts';
+import { promptTemplateFill, promptTemplateUserVariables } from './prompts.template';
+
+
+/**
+ * Asks for the values of the variables of a template, then returns the filled-in prompt.
+ */
+export function PromptTemplateFillModal(props: {
+  template: DPromptTemplate,
+  assistantLlmId: DLLMId | undefined,
+  onFilled: (text: string) => void,
+  onClose: () => void,
+}) {
+
+  // state
+  const [values, setValues] = React.useState<Record<string, string>>({});
+
+  // derived state
+  const { template, assistantLlmId, onFilled } = props;
+  const variables = React.useMemo(() => promptTemplateUserVariables(template.text), [template.text]);
+  const isComplete = variables.every(variable => !!values[variable.name]?.trim());
+
+
+  // handlers
+
+  const handleSubmit = React.useCallback((event?: React.FormEvent) => {
+    event?.preventDefault();
+    onFilled(promptTemplateFill(template.text, values, assistantLlmId));
+  }, [assistantLlmId, onFilled, template.text, values]);
+
+  const handleKeyDown = React.useCallback((event: React.KeyboardEvent) => {
+    // ctrl+enter submits, as the fields are multi-line
+    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey) && isComplete)
+      handleSubmit();
+  }, [handleSubmit, isComplete]);
+
+
+  return (
+    <GoodModal
+      open
+      title={template.name || 'Prompt'}
+      onClose={props.onClose}
+      hideBottomClose
+      sx={{ minWidth: { md: 520 } }}
+    >
+      <form onSubmit={handleSubmit}>
+        <Box sx={{ display: 'grid', gap: 2 }}>
+
+          {!!template.description && (
+            <Typography level='body-sm'>{template.description}</Typography>
+          )}
+
+          {variables.map((variable, idx) => (
+            <FormControl key={variable.name}>
+              <FormLabel>{variable.name}</FormLabel>
+              <Textarea
+                autoFocus={idx === 0}
+                minRows={1}
+                maxRows={8}
+                value={values[variable.name] ?? ''}
+                onChange={event => setValues(values => ({ ...values, [variable.name]: event.target.value }))}
+                onKeyDown={handleKeyDown}
+              />
+            </FormControl>
+          ))}
+
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+            <Button variant='plain' color='neutral' onClick={props.onClose}>
+              Cancel
+            </Button>
+            <Button type='submit' disabled={!isComplete}>
+              Insert
+            </Button>
+          </Box>
+
+        </Box>
+      </form>
+    </GoodModal>
+  );
+}
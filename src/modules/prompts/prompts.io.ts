@@ -0,0 +1,44 @@
+import * as z from 'zod/v4';
+
+import { jsonFileOpen, jsonFileSave } from '~/common/util/jsonFileUtils';
+import { prettyTimestampForFilenames } from '~/common/util/timeUtils';
+
+import type { DPromptTemplate, DPromptTemplateData } from './store-prompts';
+
+
+// Prompt templates file, to share prompts across devices and users
+
+const PROMPTS_FILE_TYPE = 'prompt-templates';
+
+const promptsFile_schema = z.object({
+  type: z.literal(PROMPTS_FILE_TYPE),
+  version: z.literal(1),
+  templates: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional().default(''),
+    text: z.string(),
+    folder: z.string().optional().default(''),
+    tags: z.array(z.string()).optional().default([]),
+  })),
+});
+
+
+/**
+ * @throws {DOMException} AbortError if the user closes the save dialog
+ */
+export async function promptTemplatesExportToFile(templates: DPromptTemplate[]): Promise<void> {
+  await jsonFileSave(promptsFile_schema, {
+    type: PROMPTS_FILE_TYPE,
+    version: 1,
+    templates: templates.map(({ name, description, text, folder, tags }) => ({ name, description, text, folder, tags })),
+  }, `prompts_${prettyTimestampForFilenames(false)}.json`);
+}
+
+/**
+ * @returns the templates, or null if the user cancelled
+ * @throws {Error} if the file is not a valid prompt templates file
+ */
+export async function promptTemplatesImportFromFile(): Promise<DPromptTemplateData[] | null> {
+  const file = await jsonFileOpen(promptsFile_schema, 'The file does not contain prompt templates');
+  return file?.templates ?? null;
+}
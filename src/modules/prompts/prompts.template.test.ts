@@ -0,0 +1,51 @@
+/// <reference types="node" />
+
+// Tests for the prompt templates: user variables, and filling them in.
+//
+// Run:
+// - `npx tsx --test src/modules/prompts/prompts.template.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+
+import { promptTemplateFill, promptTemplateUserVariables } from './prompts.template';
+
+
+describe('promptTemplateUserVariables', () => {
+
+  test('unique by name, in order, without the prompt mixer variables', () => {
+    const variables = promptTemplateUserVariables('{{ language }} {{Today}} {{topic}} {{language}}');
+    deepStrictEqual(variables.map(v => v.name), ['language', 'topic']);
+  });
+
+});
+
+
+describe('promptTemplateFill', () => {
+
+  test('values are inserted literally', () => {
+    strictEqual(promptTemplateFill('Replace with {{ pattern }}.', { pattern: `$& $' $\` $1` }, undefined), `Replace with $& $' $\` $1.`);
+  });
+
+  test('all the spellings of a placeholder get the value', () => {
+    strictEqual(promptTemplateFill('{{name}} and {{ name }}', { name: 'x' }, undefined), 'x and x');
+  });
+
+  test('multi-line templates keep their blank lines and their lines', () => {
+    const template = 'Translate to {{language}}:\n\n\n\n{{text}}\n\nModel: {{LLM.LowRL:think step by step}}\nEnd';
+    strictEqual(
+      promptTemplateFill(template, { language: 'French', text: 'one\n\ntwo' }, undefined),
+      'Translate to French:\n\n\n\none\n\ntwo\n\nModel: think step by step\nEnd',
+    );
+  });
+
+  test('no instructions are appended', () => {
+    strictEqual(promptTemplateFill('Just {{this}}', { this: 'that' }, undefined), 'Just that');
+  });
+
+  test('prompt mixer variables are replaced, unknown ones are kept', () => {
+    const filled = promptTemplateFill('{{Today}} {{missing}}', {}, undefined);
+    strictEqual(/^\d{4}-\d{2}-\d{2} {{missing}}$/.test(filled), true);
+  });
+
+});
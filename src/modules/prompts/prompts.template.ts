@@ -0,0 +1,62 @@
+import { PPromptMixerContext, PromptVariableRegistry } from '~/modules/persona/pmix/pmix.parameters';
+
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { BrowserLang, Is } from '~/common/util/pwaUtils';
+
+
+// {{name}}, the same placeholders as the prompt mixer, with the user-chosen names
+const USER_VARIABLE_REGEX = /{{\s*([^{}:]+?)\s*}}/g;
+
+
+export interface PromptTemplateVariable {
+  placeholder: string;                // as in the text, e.g. '{{ language }}'
+  name: string;                       // e.g. 'language'
+}
+
+/**
+ * The variables of the template the user has to fill in: the ones which are not prompt mixer
+ * variables (such as {{Today}}, which are replaced automatically). Unique by name, in order.
+ */
+export function promptTemplateUserVariables(text: string): PromptTemplateVariable[] {
+  const variables: PromptTemplateVariable[] = [];
+  for (const match of text.matchAll(USER_VARIABLE_REGEX)) {
+    const [placeholder, name] = match;
+    if (`{{${name}}}` in PromptVariableRegistry || name.startsWith('LLM.'))
+      continue;
+    if (!variables.some(variable => variable.name === name))
+      variables.push({ placeholder, name });
+  }
+  return variables;
+}
+
+/**
+ * Replaces the user variables with their values, and the prompt mixer variables.
+ *
+ * Unlike the system prompt mixer, this leaves the rest of the text as written: no auto-suggest
+ * instructions are appended, blank lines are kept, and values are inserted literally.
+ */
+export function promptTemplateFill(text: string, values: Record<string, string>, assistantLlmId: DLLMId | undefined): string {
+  const context: PPromptMixerContext = {
+    assistantLlmId,
+    deviceIsDesktop: Is.Desktop,
+    deviceBrowserLang: BrowserLang.orUS,
+    lowHourPrecision: false,
+  };
+
+  // pattern variables, e.g. {{LLM.LowRL:...}}, keep their content unless the model excludes it
+  for (const definition of Object.values(PromptVariableRegistry)) {
+    if (!definition.pattern) continue;
+    const keepContent = !definition.dependencies?.assistantLlmId || !assistantLlmId || definition.replace(context) !== null;
+    text = text.replace(definition.pattern, (_match, content: string) => keepContent ? content : '');
+  }
+
+  // a function replacer, so that '$&' and the like in the values are not expanded
+  return text.replace(USER_VARIABLE_REGEX, (placeholder: string, name: string) => {
+    if (name in values)
+      return values[name];
+    const definition = PromptVariableRegistry[`{{${name}}}`];
+    if (!definition || definition.pattern || (definition.dependencies?.assistantLlmId && !assistantLlmId))
+      return placeholder;
+    return definition.replace(context) ?? '';
+  });
+}
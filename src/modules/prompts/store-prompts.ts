@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
+
+import { agiUuid } from '~/common/util/idUtils';
+
+
+/**
+ * Prompt template: a reusable prompt, inserted in the composer. The text can contain the
+ * prompt mixer variables (e.g. {{Today}}) and user variables (e.g. {{language}}), which are
+ * filled in when the template is used.
+ */
+export interface DPromptTemplate {
+  id: DPromptTemplateId;
+  name: string;
+  description: string;
+  text: string;
+  folder: string;                     // '' for the root
+  tags: string[];
+  created: number;
+  updated: number;
+}
+
+export type DPromptTemplateId = string;
+
+export type DPromptTemplateData = Pick<DPromptTemplate, 'name' | 'description' | 'text' | 'folder' | 'tags'>;
+
+
+interface PromptTemplatesState {
+  templates: DPromptTemplate[];
+}
+
+interface PromptTemplatesActions {
+  createTemplate: (data: Partial<DPromptTemplateData>) => DPromptTemplateId;
+  deleteTemplate: (templateId: DPromptTemplateId) => void;
+  updateTemplate: (templateId: DPromptTemplateId, update: Partial<DPromptTemplateData>) => void;
+  importTemplates: (templates: DPromptTemplateData[]) => void;
+}
+
+type PromptTemplatesStore = PromptTemplatesState & PromptTemplatesActions;
+
+export const usePromptTemplatesStore = create<PromptTemplatesStore>()(
+  persist(
+    (set) => ({
+
+      // Initial state
+      templates: [],
+
+      // Actions
+      createTemplate: (data) => {
+        const newTemplate: DPromptTemplate = {
+          name: 'New Prompt',
+          description: '',
+          text: '',
+          folder: '',
+          tags: [],
+          ...data,
+          id: agiUuid('prompt-template'),
+          created: Date.now(),
+          updated: Date.now(),
+        };
+        set(state => ({
+          templates: [...state.templates, newTemplate],
+        }));
+        return newTemplate.id;
+      },
+
+      deleteTemplate: (templateId: DPromptTemplateId) =>
+        set(state => ({
+          templates: state.templates.filter(template => template.id !== templateId),
+        })),
+
+      updateTemplate: (templateId: DPromptTemplateId, update) =>
+        set(state => ({
+          templates: state.templates.map(template => template.id !== templateId ? template : { ...template, ...update, updated: Date.now() }),
+        })),
+
+      // imported templates are always new, even if previously exported from here
+      importTemplates: (templates) =>
+        set(state => ({
+          templates: [...state.templates, ...templates.map((data): DPromptTemplate => ({
+            ...data,
+            id: agiUuid('prompt-template'),
+            created: Date.now(),
+            updated: Date.now(),
+          }))],
+        })),
+
+    }),
+    {
+      name: 'app-prompt-templates',
+    },
+  ),
+);
+
+
+export function usePromptTemplates(): DPromptTemplate[] {
+  return usePromptTemplatesStore(useShallow(state => state.templates));
+}
+
+export function promptTemplatesActions(): PromptTemplatesActions {
+  return usePromptTemplatesStore.getState();
+}
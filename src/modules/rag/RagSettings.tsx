@@ -0,0 +1,132 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { Button, Typography } from '@mui/joy';
+
+import { FormSelectControl, FormSelectOption } from '~/common/components/forms/FormSelectControl';
+import { FormSliderControl } from '~/common/components/forms/FormSliderControl';
+import { FormSwitchControl } from '~/common/components/forms/FormSwitchControl';
+import { FormTextField } from '~/common/components/forms/FormTextField';
+import { useModelsServices } from '~/common/stores/llms/llms.hooks';
+
+import { deleteAllRagDocVectors } from './rag.db';
+import { RAG_EMBEDDING_VENDORS, RAG_MAX_TOP_K, useRagStore } from './store-module-rag';
+
+
+export function RagSettings() {
+
+  // state
+  const [cleared, setCleared] = React.useState(false);
+
+  // external state
+  const { modelsServices } = useModelsServices();
+  const {
+    ragEnabled, setRagEnabled,
+    embeddingServiceId, embeddingModelId, setEmbeddingModel,
+    topK, setTopK,
+    chunkChars, setChunkChars,
+    minDocChars, setMinDocChars,
+  } = useRagStore(useShallow(state => ({
+    ragEnabled: state.ragEnabled, setRagEnabled: state.setRagEnabled,
+    embeddingServiceId: state.embeddingServiceId, embeddingModelId: state.embeddingModelId, setEmbeddingModel: state.setEmbeddingModel,
+    topK: state.topK, setTopK: state.setTopK,
+    chunkChars: state.chunkChars, setChunkChars: state.setChunkChars,
+    minDocChars: state.minDocChars, setMinDocChars: state.setMinDocChars,
+  })));
+
+  // derived state
+  const serviceOptions = React.useMemo((): FormSelectOption<string>[] => modelsServices
+    .filter(service => service.vId in RAG_EMBEDDING_VENDORS)
+    .map(service => ({ value: service.id, label: service.label, description: 'Embeddings service' })), [modelsServices]);
+  const embeddingService = modelsServices.find(service => service.id === embeddingServiceId);
+  const defaultModelId = embeddingService ? RAG_EMBEDDING_VENDORS[embeddingService.vId] || '' : '';
+
+
+  // handlers
+
+  const handleServiceChange = React.useCallback((serviceId: string) => {
+    setEmbeddingModel(serviceId, ''); // the model of the previous service would not apply
+  }, [setEmbeddingModel]);
+
+  const handleModelIdChange = React.useCallback((modelId: string) => {
+    setEmbeddingModel(embeddingServiceId, modelId);
+  }, [embeddingServiceId, setEmbeddingModel]);
+
+  const handleClearVectors = React.useCallback(() => {
+    deleteAllRagDocVectors()
+      .then(() => setCleared(true))
+      .catch(error => console.error('[RAG] clear vectors error', error));
+  }, []);
+
+
+  return <>
+
+    <Typography level='body-sm'>
+      Split large documents attached to chats into chunks, and send only the chunks most relevant to your last message, instead of the full text.
+      Chunks are embedded once and stored in this browser.
+    </Typography>
+
+    <FormSwitchControl
+      title='Retrieval'
+      description={ragEnabled ? 'Large documents are chunked' : 'Documents are sent whole'}
+      checked={ragEnabled}
+      onChange={setRagEnabled}
+    />
+
+    <FormSelectControl
+      title='Embeddings'
+      tooltip='OpenAI, Gemini, Mistral, Ollama, LM Studio and LocalAI services are supported.'
+      disabled={!ragEnabled}
+      options={serviceOptions}
+      value={embeddingService ? embeddingService.id : undefined}
+      onChange={handleServiceChange}
+      placeholder={serviceOptions.length ? 'Select a service' : 'No supported services'}
+    />
+
+    <FormTextField
+      autoCompleteId='rag-embedding-model'
+      title='Embedding Model'
+      description={defaultModelId ? `Default: ${defaultModelId}` : 'Required'}
+      disabled={!ragEnabled || !embeddingService}
+      placeholder={defaultModelId || 'model id'}
+      isError={!!embeddingService && !defaultModelId && !embeddingModelId.trim()}
+      value={embeddingModelId}
+      onChange={handleModelIdChange}
+    />
+
+    <FormSliderControl
+      title='Chunks'
+      description='Sent per reply'
+      disabled={!ragEnabled}
+      min={1} max={RAG_MAX_TOP_K} step={1}
+      valueLabelDisplay='auto'
+      value={topK}
+      onChange={setTopK}
+    />
+
+    <FormSliderControl
+      title='Chunk Size'
+      description={`${chunkChars.toLocaleString()} characters`}
+      disabled={!ragEnabled}
+      min={500} max={4000} step={250}
+      valueLabelDisplay='auto'
+      value={chunkChars}
+      onChange={setChunkChars}
+    />
+
+    <FormSliderControl
+      title='Large Documents'
+      description={`Over ${minDocChars.toLocaleString()} characters`}
+      disabled={!ragEnabled}
+      min={2000} max={100000} step={1000}
+      valueLabelDisplay='auto'
+      value={minDocChars}
+      onChange={setMinDocChars}
+    />
+
+    <Button variant='outlined' color='neutral' size='sm' disabled={cleared} onClick={handleClearVectors} sx={{ alignSelf: 'flex-start' }}>
+      {cleared ? 'Stored Chunks Cleared' : 'Clear Stored Chunks'}
+    </Button>
+
+  </>;
+}
@@ -0,0 +1,121 @@
+import type { DMessage, DMetaRetrievedChunk } from '~/common/stores/chat/chat.message';
+import { DMessageAttachmentFragment, DMessageDocPart, isAttachmentFragment, isContentFragment, isDocPart, isTextPart } from '~/common/stores/chat/chat.fragments';
+import { frontendHashString } from '~/common/util/textUtils';
+
+import { ragRetrieveTopChunks, RagDocument, RagScoredChunk } from './rag.retrieval';
+import { useRagStore } from './store-module-rag';
+
+
+export interface RagChatHistoryResult {
+  chatHistory: Readonly<DMessage[]>;
+  retrievedChunks: DMetaRetrievedChunk[];
+}
+
+
+/**
+ * Replaces the text of the large document attachments of the chat with their chunks that are most
+ * relevant to the last user message. The messages are copied, the conversation is not modified.
+ *
+ * @returns null when disabled or not applicable (no large documents, or no question to retrieve for)
+ * @throws on embedding errors - the caller decides whether to send the full documents instead
+ */
+export async function ragReduceChatHistory(chatHistory: Readonly<DMessage[]>, abortSignal: AbortSignal): Promise<RagChatHistoryResult | null> {
+  const { ragEnabled, topK, chunkChars, minDocChars } = useRagStore.getState();
+  if (!ragEnabled)
+    return null;
+
+  const query = ragChatQuery(chatHistory);
+  if (!query)
+    return null;
+
+  // the large documents, once each
+  const documents: RagDocument[] = [];
+  const documentIndexByKey = new Map<string, number>();
+  for (const message of chatHistory) {
+    for (const fragment of message.fragments) {
+      const docPart = _largeDocPart(fragment, minDocChars);
+      if (!docPart) continue;
+      const key = _docKey(docPart);
+      if (documentIndexByKey.has(key)) continue;
+      documentIndexByKey.set(key, documents.length);
+      documents.push({
+        ref: docPart.ref,
+        version: docPart.version ?? 1,
+        title: (fragment as DMessageAttachmentFragment).title || docPart.l1Title,
+        text: docPart.data.text,
+      });
+    }
+  }
+  if (!documents.length)
+    return null;
+
+  const topChunks = await ragRetrieveTopChunks(documents, query, topK, chunkChars, abortSignal);
+
+  // replace the text of the documents with their retrieved chunks, in document order
+  const chunksByDocIndex = new Map<number, RagScoredChunk[]>();
+  for (const chunk of topChunks)
+    chunksByDocIndex.set(chunk.docIndex, [...(chunksByDocIndex.get(chunk.docIndex) ?? []), chunk]);
+
+  const reducedHistory = chatHistory.map((message): DMessage => {
+    if (!message.fragments.some(fragment => !!_largeDocPart(fragment, minDocChars)))
+      return message;
+    return {
+      ...message,
+      fragments: message.fragments.map(fragment => {
+        const docPart = _largeDocPart(fragment, minDocChars);
+        if (!docPart) return fragment;
+        const docIndex = documentIndexByKey.get(_docKey(docPart))!;
+        const docChunks = (chunksByDocIndex.get(docIndex) ?? []).sort((a, b) => a.chunkIndex - b.chunkIndex);
+        return {
+          ...fragment,
+          part: { ...docPart, data: { ...docPart.data, text: ragExcerptsText(docChunks) } },
+        } as DMessageAttachmentFragment;
+      }),
+    };
+  });
+
+  return {
+    chatHistory: reducedHistory,
+    retrievedChunks: ragRetrievedChunksMetadata(topChunks, documents),
+  };
+}
+
+
+/** The question to retrieve for: the text of the last user message */
+export function ragChatQuery(chatHistory: Readonly<DMessage[]>): string {
+  const lastUserMessage = chatHistory.findLast(message => message.role === 'user');
+  return !lastUserMessage ? '' : lastUserMessage.fragments
+    .map(fragment => isContentFragment(fragment) && isTextPart(fragment.part) ? fragment.part.text : '')
+    .join('\n').trim();
+}
+
+/** The text that replaces a document: its retrieved chunks, in document order */
+export function ragExcerptsText(docChunks: RagScoredChunk[]): string {
+  if (!docChunks.length)
+    return '[No part of this document is relevant to the question; its content is omitted.]';
+  return [
+    `[Excerpts: ${docChunks.length} of ${docChunks[0].chunksCount} sections of this document, selected by relevance to the question. The other sections are omitted.]`,
+    ...docChunks.map(chunk => `[Section ${chunk.chunkIndex + 1}/${chunk.chunksCount}]\n${chunk.text}`),
+  ].join('\n\n');
+}
+
+/** The retrieved chunks, to be recorded on the generated message */
+export function ragRetrievedChunksMetadata(topChunks: RagScoredChunk[], documents: RagDocument[]): DMetaRetrievedChunk[] {
+  return topChunks.map((chunk): DMetaRetrievedChunk => ({
+    docTitle: documents[chunk.docIndex].title,
+    chunkIndex: chunk.chunkIndex,
+    chunksCount: chunk.chunksCount,
+    score: Math.round(chunk.score * 1000) / 1000,
+    text: chunk.text,
+  }));
+}
+
+
+function _largeDocPart(fragment: DMessage['fragments'][number], minDocChars: number): DMessageDocPart | null {
+  if (!isAttachmentFragment(fragment) || !isDocPart(fragment.part)) return null;
+  return fragment.part.data.text.length >= minDocChars ? fragment.part : null;
+}
+
+function _docKey(docPart: DMessageDocPart): string {
+  return `${docPart.ref}@${docPart.version ?? 1}|${frontendHashString(docPart.data.text)}`;
+}
@@ -0,0 +1,57 @@
+// configuration
+const CHUNK_OVERLAP_RATIO = 0.1;
+const CHUNK_MIN_BREAK_RATIO = 0.5; // don't break before half of the chunk, to avoid tiny chunks
+
+// preferred breaks, from the strongest
+const BREAK_PATTERNS = [/\n\s*\n/g, /\n/g, /[.!?]\s/g, /\s/g];
+
+
+export interface RagTextChunk {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Splits a text into chunks of up to `chunkChars` characters, breaking at paragraphs,
+ * lines, sentences or words when possible, with a small overlap between chunks.
+ */
+export function ragChunkText(text: string, chunkChars: number): RagTextChunk[] {
+  const chunks: RagTextChunk[] = [];
+  const overlap = Math.floor(chunkChars * CHUNK_OVERLAP_RATIO);
+
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + chunkChars);
+    if (end < text.length)
+      end = _findBreak(text, start + Math.floor(chunkChars * CHUNK_MIN_BREAK_RATIO), end) ?? end;
+
+    const chunkText = text.slice(start, end).trim();
+    if (chunkText)
+      chunks.push({ start, end, text: chunkText });
+    if (end >= text.length)
+      break;
+
+    // next chunk: overlap the end of this one, starting at a word
+    let nextStart = Math.max(start + 1, end - overlap);
+    const space = text.indexOf(' ', nextStart);
+    if (space >= 0 && space < end)
+      nextStart = space + 1;
+    start = nextStart;
+  }
+
+  return chunks;
+}
+
+/** Position right after the last strongest break in [from, to), if any */
+function _findBreak(text: string, from: number, to: number): number | null {
+  const window = text.slice(from, to);
+  for (const pattern of BREAK_PATTERNS) {
+    let lastBreak = -1;
+    for (const match of window.matchAll(pattern))
+      lastBreak = match.index + match[0].length;
+    if (lastBreak > 0)
+      return from + lastBreak;
+  }
+  return null;
+}
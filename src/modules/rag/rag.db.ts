@@ -0,0 +1,83 @@
+import Dexie from 'dexie';
+
+
+// configuration
+const MAX_STORED_DOCS = 200; // least recently used docs are evicted beyond this
+
+
+/**
+ * The chunks of a document, with their embeddings for a given model.
+ */
+export interface DRagDocVectors {
+  id: string;                 // see `ragDocVectorsId`
+  docRef: string;             // DMessageDocPart.ref
+  modelKey: string;           // embedding service and model (at its default dimensions)
+  chunks: { start: number, end: number, text: string }[];
+  vectors: Float32Array[];    // one per chunk, normalized to unit length
+  lastUsed: number;
+}
+
+
+/**
+ * Key of the vectors of a document: the document is identified by its ref and version, plus
+ * a hash of the text, as a doc may be edited in place without bumping the version.
+ */
+export function ragDocVectorsId(modelKey: string, docRef: string, docVersion: number, textHash: string): string {
+  return `${modelKey}|${docRef}@${docVersion}|${textHash}`;
+}
+
+
+/**
+ * Dexie DB for the document vectors - a cache that can be dropped at any time, as all
+ * the vectors can be recomputed from the documents.
+ */
+class BigAgiVectorsDB extends Dexie {
+  docs!: Dexie.Table<DRagDocVectors, string>;
+
+  constructor() {
+    super('Big-AGI-Vectors');
+    this.version(1).stores({
+      docs: 'id, lastUsed',
+    });
+  }
+}
+
+// In development mode, reuse the same instance of the DB to avoid re-creating it on every hot reload
+const globalForDexie = globalThis as unknown as {
+  bigAgiVectorsDB: BigAgiVectorsDB | undefined;
+};
+
+const _db = globalForDexie.bigAgiVectorsDB ?? new BigAgiVectorsDB();
+if (process.env.NODE_ENV !== 'production') globalForDexie.bigAgiVectorsDB = _db;
+
+const docsTable = _db.docs;
+
+
+// READ
+
+export async function getRagDocVectors(id: string): Promise<DRagDocVectors | undefined> {
+  const doc = await docsTable.get(id);
+  if (doc)
+    void docsTable.update(id, { lastUsed: Date.now() });
+  return doc;
+}
+
+export async function getRagDocsCount(): Promise<number> {
+  return await docsTable.count();
+}
+
+
+// WRITE
+
+export async function putRagDocVectors(doc: DRagDocVectors): Promise<void> {
+  await docsTable.put(doc);
+
+  // evict the least recently used
+  const excess = await docsTable.count() - MAX_STORED_DOCS;
+  if (excess > 0)
+    await docsTable.orderBy('lastUsed').limit(excess).delete();
+}
+
+export async function deleteAllRagDocVectors(): Promise<void> {
+  await docsTable.clear();
+}
@@ -0,0 +1,129 @@
+import { aixEmbeddings_orThrow } from '~/modules/aix/client/aix.client';
+
+import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+import { findModelsServiceOrNull } from '~/common/stores/llms/store-llms';
+import { frontendHashString } from '~/common/util/textUtils';
+
+import { DRagDocVectors, getRagDocVectors, putRagDocVectors, ragDocVectorsId } from './rag.db';
+import { RAG_EMBEDDING_VENDORS, useRagStore } from './store-module-rag';
+import { ragChunkText } from './rag.chunker';
+
+
+// configuration
+const EMBEDDINGS_BATCH_SIZE = 64; // texts per request, below the AIX limit
+
+
+export interface RagDocument {
+  ref: string;
+  version: number;
+  title: string;
+  text: string;
+}
+
+export interface RagScoredChunk {
+  docIndex: number;           // index in the retrieved documents
+  chunkIndex: number;
+  chunksCount: number;        // of the document
+  start: number;
+  end: number;
+  text: string;
+  score: number;              // cosine similarity to the query
+}
+
+interface _RagEmbeddingModel {
+  serviceId: DModelsServiceId;
+  modelId: string;
+  modelKey: string;
+}
+
+
+/**
+ * Embedding model from the settings, or throws with a user-readable reason.
+ */
+function _ragEmbeddingModelOrThrow(): _RagEmbeddingModel {
+  const { embeddingServiceId, embeddingModelId } = useRagStore.getState();
+  const service = embeddingServiceId ? findModelsServiceOrNull(embeddingServiceId) : null;
+  if (!service)
+    throw new Error('No embeddings service selected. Configure it in Settings > Tools > Retrieval.');
+  if (!(service.vId in RAG_EMBEDDING_VENDORS))
+    throw new Error(`Embeddings are not supported by ${service.label}.`);
+  const modelId = embeddingModelId.trim() || RAG_EMBEDDING_VENDORS[service.vId] || '';
+  if (!modelId)
+    throw new Error(`No embedding model set for ${service.label}.`);
+  return { serviceId: service.id, modelId, modelKey: `${service.id}/${modelId}` };
+}
+
+
+/**
+ * Retrieves the `topK` chunks of the documents that are most similar to the query, across all documents.
+ * The documents are chunked and embedded on first use, then the vectors are reused from the local store.
+ */
+export async function ragRetrieveTopChunks(documents: RagDocument[], query: string, topK: number, chunkChars: number, abortSignal: AbortSignal): Promise<RagScoredChunk[]> {
+  const model = _ragEmbeddingModelOrThrow();
+
+  // document vectors - sequentially, to not flood the service
+  const docsVectors: DRagDocVectors[] = [];
+  for (const document of documents)
+    docsVectors.push(await _ensureDocVectors(document, model, chunkChars, abortSignal));
+
+  // query vector
+  const { vectors: [queryVector] } = await aixEmbeddings_orThrow(model.serviceId, model.modelId, { texts: [query], purpose: 'query' }, abortSignal);
+  const query32 = _normalizedVector(queryVector);
+
+  // rank all the chunks
+  const scored: RagScoredChunk[] = [];
+  docsVectors.forEach((docVectors, docIndex) => {
+    docVectors.vectors.forEach((vector, chunkIndex) => {
+      if (vector.length !== query32.length) return; // model changed dimensions - skip rather than mis-score
+      scored.push({
+        docIndex,
+        chunkIndex,
+        chunksCount: docVectors.chunks.length,
+        ...docVectors.chunks[chunkIndex],
+        score: _dot(vector, query32),
+      });
+    });
+  });
+  return scored.sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+
+async function _ensureDocVectors(document: RagDocument, model: _RagEmbeddingModel, chunkChars: number, abortSignal: AbortSignal): Promise<DRagDocVectors> {
+  const id = ragDocVectorsId(`${model.modelKey}/${chunkChars}`, document.ref, document.version, frontendHashString(document.text));
+  const cached = await getRagDocVectors(id);
+  if (cached)
+    return cached;
+
+  // chunk, prefixing the title to each chunk for context
+  const chunks = ragChunkText(document.text, chunkChars);
+  const chunkTexts = chunks.map(chunk => document.title ? `${document.title}\n\n${chunk.text}` : chunk.text);
+
+  const vectors: Float32Array[] = [];
+  for (let i = 0; i < chunkTexts.length; i += EMBEDDINGS_BATCH_SIZE) {
+    const batch = await aixEmbeddings_orThrow(model.serviceId, model.modelId, { texts: chunkTexts.slice(i, i + EMBEDDINGS_BATCH_SIZE), purpose: 'document' }, abortSignal);
+    vectors.push(...batch.vectors.map(_normalizedVector));
+  }
+
+  const docVectors: DRagDocVectors = {
+    id,
+    docRef: document.ref,
+    modelKey: model.modelKey,
+    chunks,
+    vectors,
+    lastUsed: Date.now(),
+  };
+  await putRagDocVectors(docVectors);
+  return docVectors;
+}
+
+function _normalizedVector(vector: number[]): Float32Array {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return Float32Array.from(vector, v => v / norm);
+}
+
+function _dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++)
+    sum += a[i] * b[i];
+  return sum;
+}
@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import type { ModelVendorId } from '~/modules/llms/vendors/vendors.registry';
+
+import type { DModelsServiceId } from '~/common/stores/llms/llms.service.types';
+
+
+// configuration
+export const RAG_DEFAULT_TOP_K = 6;
+export const RAG_MAX_TOP_K = 20;
+export const RAG_DEFAULT_CHUNK_CHARS = 1500;
+export const RAG_DEFAULT_MIN_DOC_CHARS = 12000;
+
+/**
+ * Vendors with an embeddings endpoint supported by AIX, and their default embedding model.
+ * Embedding models are not listed with the chat models, so the model id is entered by the user.
+ */
+export const RAG_EMBEDDING_VENDORS: Partial<Record<ModelVendorId, string>> = {
+  googleai: 'gemini-embedding-001',
+  lmstudio: '',
+  localai: '',
+  mistral: 'mistral-embed',
+  ollama: 'nomic-embed-text',
+  openai: 'text-embedding-3-small',
+};
+
+
+interface ModuleRagStore {
+
+  // Chat: retrieve the relevant chunks of large documents, instead of sending them whole
+
+  ragEnabled: boolean;
+  setRagEnabled: (ragEnabled: boolean) => void;
+
+  // embedding model: a service and a model id (empty: the vendor default)
+  embeddingServiceId: DModelsServiceId | null;
+  embeddingModelId: string;
+  setEmbeddingModel: (embeddingServiceId: DModelsServiceId | null, embeddingModelId: string) => void;
+
+  // number of chunks injected across all the large documents of the chat
+  topK: number;
+  setTopK: (topK: number) => void;
+
+  // chunk size, in characters
+  chunkChars: number;
+  setChunkChars: (chunkChars: number) => void;
+
+  // documents shorter than this are always sent whole
+  minDocChars: number;
+  setMinDocChars: (minDocChars: number) => void;
+
+}
+
+export const useRagStore = create<ModuleRagStore>()(
+  persist(
+    (set) => ({
+
+      ragEnabled: false,
+      setRagEnabled: (ragEnabled: boolean) => set({ ragEnabled }),
+
+      embeddingServiceId: null,
+      embeddingModelId: '',
+      setEmbeddingModel: (embeddingServiceId: DModelsServiceId | null, embeddingModelId: string) => set({ embeddingServiceId, embeddingModelId }),
+
+      topK: RAG_DEFAULT_TOP_K,
+      setTopK: (topK: number) => set({ topK: Math.max(1, Math.min(RAG_MAX_TOP_K, Math.round(topK) || RAG_DEFAULT_TOP_K)) }),
+
+      chunkChars: RAG_DEFAULT_CHUNK_CHARS,
+      setChunkChars: (chunkChars: number) => set({ chunkChars }),
+
+      minDocChars: RAG_DEFAULT_MIN_DOC_CHARS,
+      setMinDocChars: (minDocChars: number) => set({ minDocChars }),
+
+    }),
+    {
+      name: 'app-module-rag',
+    }),
+);
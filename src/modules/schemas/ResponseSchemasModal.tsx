@@ -0,0 +1,209 @@
+import * as React from 'react';
+
+import type { SxProps } from '@mui/joy/styles/types';
+import { Box, Button, Checkbox, Divider, FormControl, FormHelperText, FormLabel, Input, Option, Select, Textarea, Typography } from '@mui/joy';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import { usePersonas } from '~/modules/persona/store-personas';
+
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { useChatStore } from '~/common/stores/chat/store-chats';
+
+import { DResponseSchema, DResponseSchemaId, responseSchemasActions, useResponseSchemas } from './store-schemas';
+import { responseSchemaParseOrThrow } from './schemas.chat';
+
+
+const _styles = {
+  section: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: 1,
+  },
+  schemaJson: {
+    fontFamily: 'code',
+    fontSize: 'sm',
+  },
+  bindings: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fill, minmax(10rem, 1fr))',
+    gap: 1,
+  },
+} as const satisfies Record<string, SxProps>;
+
+
+/**
+ * Management of the response schemas: JSON Schema, and bindings to personas.
+ */
+export function ResponseSchemasModal(props: {
+  initialSchemaId?: DResponseSchemaId,
+  onClose: () => void,
+}) {
+
+  // state
+  const [selectedId, setSelectedId] = React.useState<DResponseSchemaId | null>(props.initialSchemaId ?? null);
+
+  // external state
+  const schemas = useResponseSchemas();
+
+  // derived state
+  const schema = schemas.find(s => s.id === selectedId) ?? schemas[0] ?? null;
+
+
+  // handlers
+
+  const handleCreateSchema = React.useCallback(() => {
+    setSelectedId(responseSchemasActions().createSchema('new_schema'));
+  }, []);
+
+  const handleDeleteSchema = React.useCallback((schemaId: DResponseSchemaId) => {
+    // conversations set to this schema go back to their persona's
+    const { conversations, setResponseSchemaId } = useChatStore.getState();
+    conversations.forEach(c => c.responseSchemaId === schemaId && setResponseSchemaId(c.id, undefined));
+    responseSchemasActions().deleteSchema(schemaId);
+    setSelectedId(null);
+  }, []);
+
+
+  return (
+    <GoodModal
+      open
+      title='Response Schemas'
+      dividers
+      autoOverflow
+      onClose={props.onClose}
+      startButton={
+        <Button variant='plain' startDecorator={<AddRoundedIcon />} onClick={handleCreateSchema}>
+          New Schema
+        </Button>
+      }
+      sx={{ minWidth: { md: 640 } }}
+    >
+
+      <Typography level='body-sm'>
+        JSON Schemas the replies are constrained to, in the conversations set to them and in those of the personas they are bound to.
+      </Typography>
+
+      {!schema ? (
+        <Typography level='body-sm' sx={{ fontStyle: 'italic', textAlign: 'center', py: 2 }}>
+          No schemas yet.
+        </Typography>
+      ) : <>
+
+        {schemas.length >= 2 && (
+          <Select value={schema.id} onChange={(_, value) => value && setSelectedId(value)}>
+            {schemas.map(s => <Option key={s.id} value={s.id}>{s.name || 'Untitled'}</Option>)}
+          </Select>
+        )}
+
+        <ResponseSchemaEditor key={schema.id} schema={schema} onDelete={handleDeleteSchema} />
+
+      </>}
+
+    </GoodModal>
+  );
+}
+
+
+function ResponseSchemaEditor(props: {
+  schema: DResponseSchema,
+  onDelete: (schemaId: DResponseSchemaId) => void,
+}) {
+
+  // state
+  const [deleteArmed, setDeleteArmed] = React.useState(false);
+
+  // external state
+  const personas = usePersonas();
+
+  // derived state
+  const { schema, onDelete } = props;
+  const { id: schemaId } = schema;
+
+  const schemaError = React.useMemo(() => {
+    try {
+      responseSchemaParseOrThrow(schema.schemaJson);
+      return null;
+    } catch (error: any) {
+      return error?.message || 'Invalid schema';
+    }
+  }, [schema.schemaJson]);
+
+
+  return <>
+
+    {/* Name */}
+    <FormControl>
+      <FormLabel>Name</FormLabel>
+      <Input
+        value={schema.name}
+        onChange={event => responseSchemasActions().updateSchema(schemaId, { name: event.target.value })}
+        placeholder='e.g. product_review'
+      />
+      <FormHelperText>Sent to the model as the name of the format.</FormHelperText>
+    </FormControl>
+
+    {/* Description */}
+    <FormControl>
+      <FormLabel>Description</FormLabel>
+      <Input
+        value={schema.description}
+        onChange={event => responseSchemasActions().updateSchema(schemaId, { description: event.target.value })}
+        placeholder='Optional: what the reply contains'
+      />
+    </FormControl>
+
+    {/* JSON Schema */}
+    <FormControl error={!!schemaError}>
+      <FormLabel>JSON Schema</FormLabel>
+      <Textarea
+        minRows={8}
+        maxRows={20}
+        value={schema.schemaJson}
+        onChange={event => responseSchemasActions().updateSchema(schemaId, { schemaJson: event.target.value })}
+        sx={_styles.schemaJson}
+      />
+      <FormHelperText>
+        {schemaError ?? 'Valid. Replies are validated against it too, as some models only follow it on a best-effort basis.'}
+      </FormHelperText>
+    </FormControl>
+
+    <Divider />
+
+    {/* Bindings */}
+    <Box sx={_styles.section}>
+      <FormLabel>Personas</FormLabel>
+      <Typography level='body-xs'>A persona replies in one format at most: binding it here unbinds it from other schemas.</Typography>
+      <Box sx={_styles.bindings}>
+        {personas.map(persona => (
+          <Checkbox
+            key={persona.id}
+            size='sm'
+            label={`${persona.symbol} ${persona.title}`}
+            checked={schema.personaIds.includes(persona.id)}
+            onChange={event => responseSchemasActions().setSchemaPersonaBound(schemaId, persona.id, event.target.checked)}
+          />
+        ))}
+      </Box>
+    </Box>
+
+    <Divider />
+
+    {/* Delete */}
+    <Box sx={{ display: 'flex', gap: 1 }}>
+      {!deleteArmed ? (
+        <Button variant='plain' color='neutral' startDecorator={<DeleteOutlineIcon />} onClick={() => setDeleteArmed(true)}>
+          Delete Schema
+        </Button>
+      ) : <>
+        <Button variant='plain' color='neutral' onClick={() => setDeleteArmed(false)}>
+          Cancel
+        </Button>
+        <Button variant='solid' color='danger' startDecorator={<DeleteOutlineIcon />} onClick={() => onDelete(schemaId)}>
+          Confirm Deletion
+        </Button>
+      </>}
+    </Box>
+
+  </>;
+}
@@ -0,0 +1,82 @@
+import * as z from 'zod/v4';
+
+import type { AixAPI_Model } from '~/modules/aix/server/api/aix.wiretypes';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMetaStructuredOutput } from '~/common/stores/chat/chat.message';
+import { getConversation } from '~/common/stores/chat/store-chats';
+
+import { DResponseSchema, useResponseSchemasStore } from './store-schemas';
+
+
+/**
+ * Parses and checks the JSON Schema of a response schema.
+ * @throws Error with a user-readable message if it is not valid JSON, or not a schema we can validate replies with
+ */
+export function responseSchemaParseOrThrow(schemaJson: string): Record<string, unknown> {
+  let jsonSchema: unknown;
+  try {
+    jsonSchema = JSON.parse(schemaJson);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON: ${error?.message || 'parse error'}`);
+  }
+  if (!jsonSchema || typeof jsonSchema !== 'object' || Array.isArray(jsonSchema))
+    throw new Error('The schema must be a JSON object, e.g. { "type": "object", "properties": { ... } }');
+  try {
+    z.fromJSONSchema(jsonSchema as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch (error: any) {
+    throw new Error(`Unsupported schema: ${error?.message || 'conversion error'}`);
+  }
+  return jsonSchema as Record<string, unknown>;
+}
+
+
+/**
+ * The response schema of the conversation: its own if set, or else the one bound to its persona.
+ */
+export function responseSchemaForConversation(conversationId: DConversationId): DResponseSchema | null {
+  const conversation = getConversation(conversationId);
+  if (!conversation || conversation.responseSchemaId === null)
+    return null;
+  const { schemas } = useResponseSchemasStore.getState();
+  if (conversation.responseSchemaId)
+    return schemas.find(schema => schema.id === conversation.responseSchemaId) ?? null;
+  return schemas.find(schema => schema.personaIds.includes(conversation.systemPurposeId)) ?? null;
+}
+
+
+/**
+ * The structured output request for AIX, which maps to the native feature of each vendor.
+ * @returns null if the schema is not valid (anymore), in which case the reply is free text
+ */
+export function responseSchemaToStrictJsonOutput(schema: DResponseSchema): AixAPI_Model['strictJsonOutput'] | null {
+  try {
+    return {
+      name: schema.name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64) || 'response',
+      ...(schema.description.trim() && { description: schema.description.trim() }),
+      schema: responseSchemaParseOrThrow(schema.schemaJson),
+    };
+  } catch {
+    return null;
+  }
+}
+
+
+/**
+ * Validates a reply against the schema, as some vendors only follow it on a best-effort basis.
+ */
+export function responseSchemaValidateReply(jsonSchema: Record<string, unknown>, schemaName: string, replyText: string): DMetaStructuredOutput {
+  let value: unknown;
+  try {
+    value = JSON.parse(replyText);
+  } catch {
+    return { schemaName, validationError: 'The reply is not valid JSON.' };
+  }
+
+  const result = z.fromJSONSchema(jsonSchema as Parameters<typeof z.fromJSONSchema>[0]).safeParse(value);
+  if (result.success)
+    return { schemaName };
+
+  const issues = result.error.issues.slice(0, 3).map(issue => `${issue.path.length ? issue.path.join('.') + ': ' : ''}${issue.message}`);
+  return { schemaName, validationError: issues.join('; ') + (result.error.issues.length > 3 ? '; ...' : '') };
+}
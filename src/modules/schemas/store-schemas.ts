@@ -0,0 +1,111 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useShallow } from 'zustand/react/shallow';
+
+import { agiUuid } from '~/common/util/idUtils';
+
+
+/**
+ * Response schema: a JSON Schema the replies are constrained to, in the conversations set to it
+ * and in those of the personas it is bound to.
+ */
+export interface DResponseSchema {
+  id: DResponseSchemaId;
+  name: string;                       // also the name of the schema sent to the model: letters, digits, '_' and '-'
+  description: string;                // optional hint for the model, sent with the schema
+  schemaJson: string;                 // JSON Schema, as edited by the user (validated before use)
+  personaIds: string[];               // personas (system purposes) whose conversations reply in this format by default
+  created: number;
+  updated: number;
+}
+
+export type DResponseSchemaId = string;
+
+
+const _newSchemaJson = JSON.stringify({
+  type: 'object',
+  properties: {
+    answer: { type: 'string' },
+  },
+  required: ['answer'],
+  additionalProperties: false,
+}, null, 2);
+
+
+interface ResponseSchemasState {
+  schemas: DResponseSchema[];
+}
+
+interface ResponseSchemasActions {
+  createSchema: (name: string) => DResponseSchemaId;
+  deleteSchema: (schemaId: DResponseSchemaId) => void;
+  updateSchema: (schemaId: DResponseSchemaId, update: Partial<Pick<DResponseSchema, 'name' | 'description' | 'schemaJson'>>) => void;
+  setSchemaPersonaBound: (schemaId: DResponseSchemaId, personaId: string, bound: boolean) => void;
+}
+
+type ResponseSchemasStore = ResponseSchemasState & ResponseSchemasActions;
+
+export const useResponseSchemasStore = create<ResponseSchemasStore>()(
+  persist(
+    (set) => ({
+
+      // Initial state
+      schemas: [],
+
+      // Actions
+      createSchema: (name: string) => {
+        const newSchema: DResponseSchema = {
+          id: agiUuid('response-schema'),
+          name,
+          description: '',
+          schemaJson: _newSchemaJson,
+          personaIds: [],
+          created: Date.now(),
+          updated: Date.now(),
+        };
+        set(state => ({
+          schemas: [...state.schemas, newSchema],
+        }));
+        return newSchema.id;
+      },
+
+      deleteSchema: (schemaId: DResponseSchemaId) =>
+        set(state => ({
+          schemas: state.schemas.filter(schema => schema.id !== schemaId),
+        })),
+
+      updateSchema: (schemaId: DResponseSchemaId, update) =>
+        set(state => ({
+          schemas: state.schemas.map(schema => schema.id !== schemaId ? schema : { ...schema, ...update, updated: Date.now() }),
+        })),
+
+      // a persona replies in one format at most: binding moves it from the other schemas
+      setSchemaPersonaBound: (schemaId: DResponseSchemaId, personaId: string, bound: boolean) =>
+        set(state => ({
+          schemas: state.schemas.map(schema => {
+            const isBound = schema.personaIds.includes(personaId);
+            const shouldBind = bound && schema.id === schemaId;
+            if (isBound === shouldBind || (!bound && schema.id !== schemaId)) return schema;
+            return {
+              ...schema,
+              personaIds: shouldBind ? [...schema.personaIds, personaId] : schema.personaIds.filter(id => id !== personaId),
+              updated: Date.now(),
+            };
+          }),
+        })),
+
+    }),
+    {
+      name: 'app-response-schemas',
+    },
+  ),
+);
+
+
+export function useResponseSchemas(): DResponseSchema[] {
+  return useResponseSchemasStore(useShallow(state => state.schemas));
+}
+
+export function responseSchemasActions(): ResponseSchemasActions {
+  return useResponseSchemasStore.getState();
+}
@@ -0,0 +1,108 @@
+import Dexie from 'dexie';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMessageId, DMessageRole } from '~/common/stores/chat/chat.message';
+
+
+/**
+ * A searchable document: the text of one message, split by kind so that attachments
+ * can be excluded from searches.
+ */
+export interface DSearchMessageDoc {
+  id: string;                 // `${conversationId}/${messageId}/${kind}`
+  conversationId: DConversationId;
+  messageId: DMessageId;
+  kind: DSearchDocKind;
+  role: DMessageRole;
+  model: string;              // lowercase name (and id) of the generating model, or ''
+  created: number;
+  text: string;               // original text, for phrases and snippets
+  terms: string[];            // unique terms - the multiEntry index makes this the inverted index
+  length: number;             // number of terms (not unique), for ranking
+}
+
+export type DSearchDocKind = 'content' | 'attachments';
+
+/**
+ * The indexed state of a conversation, to only re-index what changed.
+ */
+export interface DSearchConversationState {
+  id: DConversationId;
+  signature: string;
+}
+
+
+/**
+ * Dexie DB for the full-text search index
+ * - messages: one or two docs per message of the active path
+ * - conversations: signature of what's indexed for each conversation
+ *
+ * Kept separate from the assets DB, as the whole index can be dropped and rebuilt from the chats.
+ */
+class BigAgiSearchDB extends Dexie {
+  messages!: Dexie.Table<DSearchMessageDoc, string>;
+  conversations!: Dexie.Table<DSearchConversationState, string>;
+
+  constructor() {
+    super('Big-AGI-Search');
+    this.version(1).stores({
+      messages: 'id, conversationId, *terms',
+      conversations: 'id',
+    });
+  }
+}
+
+// In development mode, reuse the same instance of the DB to avoid re-creating it on every hot reload
+const globalForDexie = globalThis as unknown as {
+  bigAgiSearchDB: BigAgiSearchDB | undefined;
+};
+
+const _db = globalForDexie.bigAgiSearchDB ?? new BigAgiSearchDB();
+if (process.env.NODE_ENV !== 'production') globalForDexie.bigAgiSearchDB = _db;
+
+const messagesTable = _db.messages;
+const conversationsTable = _db.conversations;
+
+
+// READ
+
+export async function getSearchIndexedSignatures(): Promise<Map<DConversationId, string>> {
+  const states = await conversationsTable.toArray();
+  return new Map(states.map(state => [state.id, state.signature]));
+}
+
+export async function getSearchDocsCount(): Promise<number> {
+  return await messagesTable.count();
+}
+
+export async function getSearchDocIdsByTerm(term: string): Promise<string[]> {
+  return await messagesTable.where('terms').equals(term).primaryKeys();
+}
+
+export async function getSearchDocIdsByTermPrefix(termPrefix: string): Promise<string[]> {
+  // the same doc is returned once per matching term
+  return Array.from(new Set(await messagesTable.where('terms').startsWith(termPrefix).primaryKeys()));
+}
+
+export async function getSearchDocs(ids: string[]): Promise<DSearchMessageDoc[]> {
+  return (await messagesTable.bulkGet(ids)).filter(doc => !!doc);
+}
+
+
+// WRITE
+
+export async function replaceSearchConversationDocs(conversationId: DConversationId, signature: string, docs: DSearchMessageDoc[]): Promise<void> {
+  await _db.transaction('rw', messagesTable, conversationsTable, async () => {
+    await messagesTable.where('conversationId').equals(conversationId).delete();
+    await messagesTable.bulkPut(docs);
+    await conversationsTable.put({ id: conversationId, signature });
+  });
+}
+
+export async function deleteSearchConversationDocs(conversationIds: DConversationId[]): Promise<void> {
+  if (!conversationIds.length) return;
+  await _db.transaction('rw', messagesTable, conversationsTable, async () => {
+    await messagesTable.where('conversationId').anyOf(conversationIds).delete();
+    await conversationsTable.bulkDelete(conversationIds);
+  });
+}
@@ -0,0 +1,40 @@
+import * as React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+
+import { searchIndexQuery, SearchConversationResult } from './search.query';
+import { searchParseQuery, searchQueryIsEmpty } from './search.text';
+
+
+export type SearchIndexResults = Map<DConversationId, SearchConversationResult>;
+
+
+/**
+ * Live results from the search index, updated as the index changes.
+ * While a new query is running, the results of the previous one are returned.
+ *
+ * @returns null if not searching, if the query has no indexable terms (e.g. only short words or operators),
+ *          or if the index is unavailable: the caller shall then filter in memory
+ */
+export function useSearchIndexResults(textQuery: string | null, includeAttachments: boolean): SearchIndexResults | null {
+
+  const lastResults = React.useRef<SearchIndexResults | null>(null);
+
+  const results = useLiveQuery(async (): Promise<SearchIndexResults | null> => {
+    if (!textQuery) return null;
+    const query = searchParseQuery(textQuery);
+    if (searchQueryIsEmpty(query)) return null;
+    try {
+      const conversationResults = await searchIndexQuery(query, includeAttachments);
+      return new Map(conversationResults.map(result => [result.conversationId, result]));
+    } catch (error) {
+      console.error('[Search] query error', error);
+      return null;
+    }
+  }, [includeAttachments, textQuery]);
+
+  if (results !== undefined)
+    lastResults.current = results;
+  return !textQuery ? null : results !== undefined ? results : lastResults.current;
+}
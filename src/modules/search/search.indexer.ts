@@ -0,0 +1,174 @@
+import type { DConversation, DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMessage } from '~/common/stores/chat/chat.message';
+import { frontendHashString } from '~/common/util/textUtils';
+import { useChatStore } from '~/common/stores/chat/store-chats';
+
+import { deleteSearchConversationDocs, DSearchDocKind, DSearchMessageDoc, getSearchIndexedSignatures, replaceSearchConversationDocs } from './search.db';
+import { searchMessageText, searchTextTerms } from './search.text';
+
+
+// configuration
+const INDEXER_DEBOUNCE_MS = 1000;
+const INDEXER_YIELD_EVERY = 20; // conversations, to not block the UI on the first full sync
+const DEBUG_INDEXER = false;
+
+
+/**
+ * Incremental indexer of the chats into the search DB.
+ *
+ * On start, the index is synced with the chats (after the chat store is rehydrated), by comparing
+ * the signatures of the conversations. Then the store is watched, and the conversations that changed
+ * are re-indexed in batches. Only the active path is indexed, and messages are indexed once complete.
+ * Incognito conversations are never indexed.
+ *
+ * @returns a function to stop the indexer
+ */
+export function searchIndexerStart(): () => void {
+  let stopped = false;
+  let unsubscribe: (() => void) | null = null;
+  let debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  // indexed state: signature by conversation, and the last seen conversation objects, to skip the unchanged ones quickly
+  let indexedSignatures: Map<DConversationId, string> | null = null;
+  const seenConversations = new Map<DConversationId, DConversation>();
+
+  let isSyncing = false;
+  let syncAgain = false;
+
+  const sync = async () => {
+    if (isSyncing) {
+      syncAgain = true;
+      return;
+    }
+    isSyncing = true;
+    try {
+      do {
+        syncAgain = false;
+        indexedSignatures ??= await getSearchIndexedSignatures();
+        await _syncConversations(useChatStore.getState().conversations, indexedSignatures, seenConversations, () => stopped);
+      } while (syncAgain && !stopped);
+    } catch (error) {
+      console.error('[Search] indexing error', error);
+    } finally {
+      isSyncing = false;
+    }
+  };
+
+  const begin = () => {
+    if (stopped) return;
+    void sync();
+    unsubscribe = useChatStore.subscribe((state, prevState) => {
+      if (state.conversations === prevState.conversations) return;
+      if (debounceTimeout) clearTimeout(debounceTimeout);
+      debounceTimeout = setTimeout(() => {
+        debounceTimeout = null;
+        void sync();
+      }, INDEXER_DEBOUNCE_MS);
+    });
+  };
+
+  // wait for the chats to be loaded
+  let unsubscribeHydration: (() => void) | null = null;
+  if (useChatStore.persist.hasHydrated())
+    begin();
+  else
+    unsubscribeHydration = useChatStore.persist.onFinishHydration(begin);
+
+  return () => {
+    stopped = true;
+    unsubscribeHydration?.();
+    unsubscribe?.();
+    if (debounceTimeout) clearTimeout(debounceTimeout);
+  };
+}
+
+
+async function _syncConversations(
+  conversations: DConversation[],
+  indexedSignatures: Map<DConversationId, string>,
+  seenConversations: Map<DConversationId, DConversation>,
+  isStopped: () => boolean,
+) {
+  let checked = 0, updated = 0;
+
+  // index the new and changed conversations
+  const currentIds = new Set<DConversationId>();
+  for (const conversation of conversations) {
+    if (isStopped()) return;
+    if (conversation._isIncognito) continue;
+    currentIds.add(conversation.id);
+
+    // quick skip (same object)
+    if (seenConversations.get(conversation.id) === conversation) continue;
+
+    const sources = _conversationSources(conversation);
+    const signature = _sourcesSignature(sources);
+    if (indexedSignatures.get(conversation.id) !== signature) {
+      await replaceSearchConversationDocs(conversation.id, signature, sources.map(_messageDoc));
+      indexedSignatures.set(conversation.id, signature);
+      updated++;
+    }
+    seenConversations.set(conversation.id, conversation);
+    if (++checked % INDEXER_YIELD_EVERY === 0)
+      await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  // remove the deleted conversations
+  const removedIds = Array.from(indexedSignatures.keys()).filter(id => !currentIds.has(id));
+  if (removedIds.length) {
+    await deleteSearchConversationDocs(removedIds);
+    removedIds.forEach(id => {
+      indexedSignatures.delete(id);
+      seenConversations.delete(id);
+    });
+  }
+
+  if (DEBUG_INDEXER && (updated || removedIds.length))
+    console.log(`[Search] indexed ${updated}, removed ${removedIds.length} conversations`);
+}
+
+type _DocSource = {
+  conversationId: DConversationId;
+  message: DMessage;
+  kind: DSearchDocKind;
+  text: string;
+};
+
+function _conversationSources(conversation: DConversation): _DocSource[] {
+  const sources: _DocSource[] = [];
+  for (const message of conversation.messages) {
+    if (message.pendingIncomplete) continue;
+    const { content, attachments } = searchMessageText(message);
+    if (content) sources.push({ conversationId: conversation.id, message, kind: 'content', text: content });
+    if (attachments) sources.push({ conversationId: conversation.id, message, kind: 'attachments', text: attachments });
+  }
+  return sources;
+}
+
+function _sourcesSignature(sources: _DocSource[]): string {
+  return frontendHashString(sources.map(({ message, kind, text }) =>
+    `${message.id}:${kind}:${message.role}:${message.created}:${_messageModel(message)}:${text.length}:${frontendHashString(text)}`,
+  ).join('|'));
+}
+
+function _messageDoc({ conversationId, message, kind, text }: _DocSource): DSearchMessageDoc {
+  const terms = searchTextTerms(text);
+  return {
+    id: `${conversationId}/${message.id}/${kind}`,
+    conversationId,
+    messageId: message.id,
+    kind,
+    role: message.role,
+    model: _messageModel(message),
+    created: message.created,
+    text,
+    terms: Array.from(new Set(terms)),
+    length: terms.length,
+  };
+}
+
+function _messageModel({ generator }: DMessage): string {
+  return !generator ? ''
+    : generator.mgt === 'aix' ? `${generator.name} ${generator.aix.mId}`.toLowerCase()
+      : generator.name.toLowerCase();
+}
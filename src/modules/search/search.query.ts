@@ -0,0 +1,180 @@
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMessageId } from '~/common/stores/chat/chat.message';
+
+import { DSearchMessageDoc, getSearchDocIdsByTerm, getSearchDocIdsByTermPrefix, getSearchDocs, getSearchDocsCount } from './search.db';
+import { SearchQuery, searchQueryIsEmpty, searchTextMatchRanges, searchTextTerms } from './search.text';
+
+
+// configuration
+const MAX_CANDIDATE_DOCS = 2000;     // matching docs to rank, after the filters
+const CANDIDATE_DOCS_BATCH = 500;
+const MAX_HITS_PER_CONVERSATION = 2;
+const SNIPPET_CONTEXT_BEFORE = 40;
+const SNIPPET_LENGTH = 160;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const PHRASE_BONUS = 2;
+
+
+export interface SearchConversationResult {
+  conversationId: DConversationId;
+  score: number;
+  hitsCount: number;          // matching messages
+  topHits: SearchMessageHit[];
+}
+
+export interface SearchMessageHit {
+  messageId: DMessageId;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [start: number, end: number][];
+}
+
+
+/**
+ * Searches the index: all terms must match (the last as a prefix), and the matches are ranked with BM25.
+ * Conversations are ranked by the sum of the scores of their best messages.
+ */
+export async function searchIndexQuery(query: SearchQuery, includeAttachments: boolean): Promise<SearchConversationResult[]> {
+  if (searchQueryIsEmpty(query))
+    return [];
+
+  // candidates: intersect the docs of each term, starting from the rarest
+  const termDocIds = new Map<string, string[]>();
+  for (const term of query.terms)
+    termDocIds.set(term, await getSearchDocIdsByTerm(term));
+  const prefixDocIds = query.prefixTerm ? await getSearchDocIdsByTermPrefix(query.prefixTerm) : null;
+
+  const postings = [...termDocIds.values(), ...(prefixDocIds ? [prefixDocIds] : [])].sort((a, b) => a.length - b.length);
+  let candidateIds = postings[0];
+  for (const ids of postings.slice(1)) {
+    if (!candidateIds.length) break;
+    const idsSet = new Set(ids);
+    candidateIds = candidateIds.filter(id => idsSet.has(id));
+  }
+  if (!candidateIds.length)
+    return [];
+
+  // load and filter the candidates, in batches, up to the maximum of matching docs
+  const lcTexts = new Map<DSearchMessageDoc, string>();
+  const matchingDocs: DSearchMessageDoc[] = [];
+  for (let i = 0; i < candidateIds.length && matchingDocs.length < MAX_CANDIDATE_DOCS; i += CANDIDATE_DOCS_BATCH) {
+    for (const doc of await getSearchDocs(candidateIds.slice(i, i + CANDIDATE_DOCS_BATCH))) {
+      if ((!includeAttachments && doc.kind === 'attachments')
+        || (query.fromRole && doc.role !== query.fromRole)
+        || (query.model && !doc.model.includes(query.model))
+        || (query.before !== null && doc.created >= query.before)
+        || (query.after !== null && doc.created < query.after))
+        continue;
+      const lcText = doc.text.toLowerCase();
+      if (query.phrases.length) {
+        const normalizedText = lcText.replace(/\s+/g, ' ');
+        if (!query.phrases.every(phrase => normalizedText.includes(phrase)))
+          continue;
+      }
+      lcTexts.set(doc, lcText);
+      if (matchingDocs.push(doc) >= MAX_CANDIDATE_DOCS)
+        break;
+    }
+  }
+  if (!matchingDocs.length)
+    return [];
+
+  // score the docs
+  const docsCount = Math.max(await getSearchDocsCount(), 1);
+  const idf = (docFrequency: number) => Math.log(1 + (docsCount - docFrequency + 0.5) / (docFrequency + 0.5));
+  const termsIdf = new Map<string, number>(Array.from(termDocIds, ([term, ids]) => [term, idf(ids.length)]));
+  const prefixIdf = prefixDocIds ? idf(prefixDocIds.length) : 0;
+  const avgLength = matchingDocs.reduce((sum, doc) => sum + doc.length, 0) / matchingDocs.length || 1;
+
+  const isQueryTerm = (term: string) => termsIdf.has(term) || (!!query.prefixTerm && term.startsWith(query.prefixTerm));
+
+  const hitsByConversation = new Map<DConversationId, SearchMessageHit[]>();
+  for (const doc of matchingDocs) {
+
+    // term frequencies
+    const termFrequencies = new Map<string, number>();
+    let prefixFrequency = 0;
+    for (const term of searchTextTerms(doc.text)) {
+      if (termsIdf.has(term))
+        termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1);
+      if (query.prefixTerm && term.startsWith(query.prefixTerm))
+        prefixFrequency++;
+    }
+
+    const lengthNorm = 1 - BM25_B + BM25_B * doc.length / avgLength;
+    const bm25 = (frequency: number, termIdf: number) => termIdf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * lengthNorm);
+    let score = query.phrases.length * PHRASE_BONUS;
+    termFrequencies.forEach((frequency, term) => score += bm25(frequency, termsIdf.get(term)!));
+    if (prefixFrequency)
+      score += bm25(prefixFrequency, prefixIdf);
+
+    const hits = hitsByConversation.get(doc.conversationId) ?? [];
+    hits.push({ messageId: doc.messageId, score, snippet: _createSnippet(lcTexts.get(doc)!, doc.text, query.phrases, isQueryTerm) });
+    hitsByConversation.set(doc.conversationId, hits);
+  }
+
+  // rank the conversations
+  return Array.from(hitsByConversation, ([conversationId, hits]): SearchConversationResult => {
+    // a message may match in both its content and attachments: keep the best
+    const bestHits = new Map<DMessageId, SearchMessageHit>();
+    for (const hit of hits.sort((a, b) => b.score - a.score))
+      if (!bestHits.has(hit.messageId))
+        bestHits.set(hit.messageId, hit);
+    const topHits = Array.from(bestHits.values()).slice(0, MAX_HITS_PER_CONVERSATION);
+    return {
+      conversationId,
+      score: topHits.reduce((sum, hit) => sum + hit.score, 0),
+      hitsCount: bestHits.size,
+      topHits,
+    };
+  }).sort((a, b) => b.score - a.score);
+}
+
+
+function _createSnippet(lcText: string, text: string, phrases: string[], isQueryTerm: (term: string) => boolean): SearchSnippet {
+
+  // matches: terms and phrases (a phrase may span across whitespace variations, so we only highlight exact occurrences)
+  const matches = searchTextMatchRanges(lcText, isQueryTerm);
+  for (const phrase of phrases) {
+    const phraseIndex = lcText.indexOf(phrase);
+    if (phraseIndex >= 0)
+      matches.push([phraseIndex, phraseIndex + phrase.length]);
+  }
+  matches.sort((a, b) => a[0] - b[0]);
+
+  // window around the first match, snapped to whitespace
+  const firstMatch = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, firstMatch - SNIPPET_CONTEXT_BEFORE);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space >= 0 && space < firstMatch) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > firstMatch) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const highlights: SearchSnippet['highlights'] = [];
+  for (const [matchStart, matchEnd] of matches) {
+    if (matchStart < start || matchEnd > end) continue;
+    const rangeStart = matchStart - start + prefix.length;
+    const last = highlights[highlights.length - 1];
+    if (last && rangeStart <= last[1]) // merge overlaps (e.g. terms within a phrase)
+      last[1] = Math.max(last[1], matchEnd - start + prefix.length);
+    else
+      highlights.push([rangeStart, matchEnd - start + prefix.length]);
+  }
+
+  return {
+    text: prefix + text.slice(start, end).replace(/\s/g, ' ') + suffix, // 1:1, to keep the highlights
+    highlights,
+  };
+}
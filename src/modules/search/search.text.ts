@@ -0,0 +1,173 @@
+import type { DMessage, DMessageRole } from '~/common/stores/chat/chat.message';
+import { DMessageAttachmentFragment, DMessageContentFragment, isAttachmentFragment, isContentFragment, isDocPart, isImageRefPart, isTextPart, isZyncAssetImageReferencePart } from '~/common/stores/chat/chat.fragments';
+
+
+// configuration
+const TERM_MIN_LENGTH = 2;
+const TERM_MAX_LENGTH = 40;
+const DOC_MAX_TEXT_LENGTH = 100_000; // large attachments are indexed up to this length
+
+const TERM_REGEX = /[\p{L}\p{N}]+/gu;
+
+
+// Terms
+
+/** Lowercase terms of a text, in order, including duplicates */
+export function searchTextTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const [term] of text.toLowerCase().matchAll(TERM_REGEX))
+    if (term.length >= TERM_MIN_LENGTH && term.length <= TERM_MAX_LENGTH)
+      terms.push(term);
+  return terms;
+}
+
+/** Positions of the terms of a (lowercase) text that match, for highlighting */
+export function searchTextMatchRanges(lcText: string, isMatch: (term: string) => boolean): [start: number, end: number][] {
+  const ranges: [number, number][] = [];
+  for (const match of lcText.matchAll(TERM_REGEX))
+    if (isMatch(match[0]))
+      ranges.push([match.index, match.index + match[0].length]);
+  return ranges;
+}
+
+
+// Message text extraction
+
+export type SearchMessageText = {
+  content: string;      // text fragments and the alt text of images
+  attachments: string;  // title and text of documents, and the alt text of attached images
+};
+
+const _messageTextCache = new WeakMap<DMessage['fragments'], SearchMessageText>();
+
+/**
+ * Extracts the searchable text of a message; cached by fragments, which are immutable.
+ */
+export function searchMessageText(message: DMessage): SearchMessageText {
+  let text = _messageTextCache.get(message.fragments);
+  if (!text) {
+    const content: string[] = [];
+    const attachments: string[] = [];
+    for (const fragment of message.fragments) {
+      if (isContentFragment(fragment)) {
+        const fragmentText = _contentPartText(fragment.part);
+        if (fragmentText) content.push(fragmentText);
+      } else if (isAttachmentFragment(fragment)) {
+        const fragmentText = _attachmentPartText(fragment.part);
+        if (fragmentText) attachments.push(fragment.title ? `${fragment.title}\n${fragmentText}` : fragmentText);
+      }
+    }
+    text = {
+      content: content.join('\n').slice(0, DOC_MAX_TEXT_LENGTH),
+      attachments: attachments.join('\n').slice(0, DOC_MAX_TEXT_LENGTH),
+    };
+    _messageTextCache.set(message.fragments, text);
+  }
+  return text;
+}
+
+function _contentPartText(part: DMessageContentFragment['part']): string | undefined {
+  if (isTextPart(part))
+    return part.text;
+  return _imagePartAltText(part);
+}
+
+function _attachmentPartText(part: DMessageAttachmentFragment['part']): string | undefined {
+  if (isDocPart(part))
+    return part.data.text;
+  return _imagePartAltText(part);
+}
+
+function _imagePartAltText(part: DMessageContentFragment['part'] | DMessageAttachmentFragment['part']): string | undefined {
+  if (isImageRefPart(part))
+    return part.altText;
+  if (isZyncAssetImageReferencePart(part))
+    return part.zRefSummary?.text || part._legacyImageRefPart?.altText;
+  return undefined;
+}
+
+
+// Query
+
+export interface SearchQuery {
+  terms: string[];              // all required, from words and phrases
+  prefixTerm: string | null;    // the last word, matched as a prefix, as it may still be being typed
+  phrases: string[];            // lowercase, whitespace-normalized
+  fromRole: DMessageRole | null;
+  model: string | null;         // lowercase substring of the model name or id
+  before: number | null;        // timestamp, exclusive
+  after: number | null;         // timestamp, inclusive
+}
+
+const QUERY_ITEMS_REGEX = /(\w+):("[^"]*"?|\S+)|"([^"]*)"?|(\S+)/g;
+
+/**
+ * Parses a search query, with the operators:
+ * - "exact phrase"
+ * - from:user, from:assistant, from:system
+ * - model:name (a part of the name or id of the model)
+ * - before:YYYY-MM-DD, after:YYYY-MM-DD (also YYYY-MM)
+ */
+export function searchParseQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { terms: [], prefixTerm: null, phrases: [], fromRole: null, model: null, before: null, after: null };
+  const words: string[] = [];
+  let lastIsWord = false;
+
+  for (const [item, operator, operand, phrase, word] of query.matchAll(QUERY_ITEMS_REGEX)) {
+    lastIsWord = false;
+    if (operator !== undefined) {
+      const value = operand.replace(/^"|"$/g, '').trim().toLowerCase();
+      switch (operator.toLowerCase()) {
+        case 'from':
+          if (value === 'user' || value === 'assistant' || value === 'system') {
+            parsed.fromRole = value;
+            continue;
+          }
+          break;
+        case 'model':
+          if (value) {
+            parsed.model = value;
+            continue;
+          }
+          break;
+        case 'before':
+        case 'after':
+          const date = _parseDate(value);
+          if (date !== null) {
+            parsed[operator.toLowerCase() as 'before' | 'after'] = date;
+            continue;
+          }
+          break;
+      }
+      // not an operator: search the text as-is
+      words.push(item);
+      lastIsWord = true;
+    } else if (phrase !== undefined) {
+      const lcPhrase = phrase.toLowerCase().replace(/\s+/g, ' ').trim();
+      if (lcPhrase) {
+        parsed.phrases.push(lcPhrase);
+        parsed.terms.push(...searchTextTerms(lcPhrase));
+      }
+    } else if (word !== undefined) {
+      words.push(word);
+      lastIsWord = true;
+    }
+  }
+
+  const wordTerms = searchTextTerms(words.join(' '));
+  if (lastIsWord && wordTerms.length)
+    parsed.prefixTerm = wordTerms.pop()!;
+  parsed.terms = Array.from(new Set([...parsed.terms, ...wordTerms]));
+  return parsed;
+}
+
+export function searchQueryIsEmpty(query: SearchQuery): boolean {
+  return !query.terms.length && !query.prefixTerm;
+}
+
+function _parseDate(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (!match) return null;
+  const date = new Date(parseInt(match[1]), parseInt(match[2]) - 1, match[3] ? parseInt(match[3]) : 1);
+  return isNaN(date.getTime()) ? null : date.getTime();
+}
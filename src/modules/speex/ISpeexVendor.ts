@@ -17,7 +17,7 @@ export interface ISpeexVendor<TVt extends DSpeexVendorType> {
   readonly name: string;
   readonly protocol: 'rpc' | 'webspeech';
   readonly location: 'browser' | 'local' | 'cloud';
-  readonly priority: number;  // display priority (lower = higher priority): elevenlabs=10, localai=20, openai=30, webspeech=100
+  readonly priority: number;  // display priority (lower = higher priority): elevenlabs=10, localai=20, localtts=25, openai=30, webspeech=100
 
   // auto-detection info
   readonly autoFromLlmVendorIds?: ModelVendorId[];
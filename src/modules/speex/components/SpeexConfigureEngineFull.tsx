@@ -16,7 +16,7 @@ import { FormTextField } from '~/common/components/forms/FormTextField';
 import { TooltipOutlined } from '~/common/components/TooltipOutlined';
 import { useToggleableBoolean } from '~/common/util/hooks/useToggleableBoolean';
 
-import type { DCredentialsApiKey, DSpeexEngine, DSpeexEngineAny, DSpeexVendorType, DVoiceElevenLabs, DVoiceInworld, DVoiceLocalAI, DVoiceOpenAI, DVoiceWebSpeech } from '../speex.types';
+import type { DCredentialsApiKey, DSpeexEngine, DSpeexEngineAny, DSpeexVendorType, DVoiceElevenLabs, DVoiceInworld, DVoiceLocalAI, DVoiceLocalTTS, DVoiceOpenAI, DVoiceWebSpeech } from '../speex.types';
 import { SPEEX_DEFAULTS, SPEEX_PREVIEW_STREAM, SPEEX_PREVIEW_TEXT } from '../speex.config';
 import { SpeexVoiceAutocomplete } from './SpeexVoiceAutocomplete';
 import { SpeexVoiceSelect } from './SpeexVoiceSelect';
@@ -182,6 +182,8 @@ export function SpeexConfigureEngineFull(props: {
             <InworldConfig engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
           ) : engine.vendorType === 'localai' ? (
             <LocalAIConfig engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
+          ) : engine.vendorType === 'localtts' ? (
+            <LocalTTSConfig engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
           ) : engine.vendorType === 'openai' ? (
             <OpenAIConfig engine={engine} onUpdate={onUpdate} isMobile={isMobile} />
           ) : engine.vendorType === 'webspeech' ? (
@@ -227,10 +229,11 @@ export function SpeexConfigureEngineFull(props: {
               credentials={manualCredentials}
               onUpdate={handleCredentialsUpdate}
               vendorType={engine.vendorType}
-              showHost={engine.vendorType === 'localai' || (hasAdvancedHost && advanced.on)}
-              hostRequired={engine.vendorType === 'localai'}
+              showHost={engine.vendorType === 'localai' || engine.vendorType === 'localtts' || (hasAdvancedHost && advanced.on)}
+              hostRequired={engine.vendorType === 'localai' || engine.vendorType === 'localtts'}
               hostPlaceholder={
                 engine.vendorType === 'localai' ? 'http://localhost:8080'
+                  : engine.vendorType === 'localtts' ? SPEEX_DEFAULTS.LOCALTTS_HOST
                   : engine.vendorType === 'elevenlabs' ? 'https://api.elevenlabs.io'
                     : 'https://api.openai.com'
               }
@@ -413,6 +416,66 @@ function LocalAIConfig({ engine, onUpdate, isMobile }: {
 }
 
 
+function LocalTTSConfig({ engine, onUpdate, isMobile }: {
+  engine: DSpeexEngine<'localtts'>,
+  onUpdate: (updates: Partial<DSpeexEngine<'localtts'>>) => void;
+  isMobile: boolean;
+}) {
+  const { voice } = engine;
+
+  const handleVoiceChange = React.useCallback((ttsVoiceId: DVoiceLocalTTS['ttsVoiceId']) => {
+    const { ttsVoiceId: _, ...restVoice } = voice;
+    onUpdate({
+      voice: {
+        ...restVoice,
+        ...(ttsVoiceId && { ttsVoiceId }),
+      },
+    });
+  }, [onUpdate, voice]);
+
+  const handleSpeedChange = React.useCallback((value: number) => {
+    onUpdate({ voice: { ...voice, ttsSpeed: value } });
+  }, [onUpdate, voice]);
+
+  return <>
+
+    <FormTextField
+      autoCompleteId='speex-localtts-model'
+      title='Model'
+      description={isMobile ? undefined : 'As named by the server'}
+      placeholder={SPEEX_DEFAULTS.LOCALTTS_MODEL}
+      value={voice.ttsModel ?? ''}
+      onChange={(text) => onUpdate({ voice: { ...voice, ttsModel: text || undefined } })}
+      inputSx={{ maxWidth: 220 }}
+    />
+
+    {/* Voice: autocomplete with the server voices (if listed) + free-form input */}
+    <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between', alignItems: 'center', overflow: 'hidden' }}>
+      <FormLabelStart title='Voice' description={isMobile ? undefined : 'Select or type'} />
+      <SpeexVoiceAutocomplete
+        engine={engine}
+        value={voice.ttsVoiceId}
+        onValueChange={handleVoiceChange}
+        placeholder={`e.g., ${SPEEX_DEFAULTS.LOCALTTS_VOICE}`}
+      />
+    </FormControl>
+
+    <FormSliderControl
+      title='Speed'
+      description={`${voice.ttsSpeed ?? 1}x`}
+      min={0.5}
+      max={2}
+      step={0.25}
+      value={voice.ttsSpeed ?? 1}
+      onChange={handleSpeedChange}
+      valueLabelDisplay={voice.ttsSpeed && voice.ttsSpeed !== 1 ? 'on' : 'auto'}
+      sliderSx={{ maxWidth: 220, my: -0.5 }}
+    />
+
+  </>;
+}
+
+
 function OpenAIConfig({ engine, onUpdate, isMobile }: {
   engine: DSpeexEngine<'openai'>,
   onUpdate: (updates: Partial<DSpeexEngineAny>) => void;
@@ -14,6 +14,7 @@ import { Box, IconButton, ListItemDecorator, MenuItem, Option, Select, Typograph
 import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
 import KeyIcon from '@mui/icons-material/Key';
 import LinkIcon from '@mui/icons-material/Link';
+import DnsRoundedIcon from '@mui/icons-material/DnsRounded';
 import RecordVoiceOverRoundedIcon from '@mui/icons-material/RecordVoiceOverRounded';
 
 import { ButtonServiceAdd } from '~/common/components/ButtonServiceAdd';
@@ -37,6 +38,7 @@ const VENDOR_INFO: { [key in DSpeexVendorType]: { label: string; description: st
   elevenlabs: { label: 'ElevenLabs', description: 'Premium voices', icon: ElevenLabsIcon, addable: true },
   inworld: { label: 'Inworld', description: 'Expressive AI voices', icon: InworldIcon, addable: true },
   localai: { label: 'LocalAI', description: 'Self-hosted TTS', icon: LocalAIIcon, addable: true },
+  localtts: { label: 'Local TTS', description: 'Kokoro, Piper servers', icon: DnsRoundedIcon, addable: true },
   openai: { label: 'OpenAI', description: 'Reliable', icon: OpenAIIcon, addable: true },
   webspeech: { label: 'System Voice', description: 'Browser built-in', icon: RecordVoiceOverRoundedIcon },
 } as const;
@@ -20,6 +20,8 @@ export function speexVendorTypeLabel(vendorType: DSpeexVendorType): string {
       return 'OpenAI';
     case 'localai':
       return 'LocalAI';
+    case 'localtts':
+      return 'Local TTS';
     case 'webspeech':
       return 'System';
   }
@@ -5,7 +5,7 @@
  * - Selecting from fetched voice/model list (suggestions)
  * - Typing custom value (free-form)
  *
- * Used by LocalAI where models can be selected from list or typed manually.
+ * Used by LocalAI and Local TTS, where models and voices can be selected from list or typed manually.
  */
 
 import * as React from 'react';
@@ -37,7 +37,7 @@ async function _getSpeexCsfModule() {
 // --- /CSF
 
 
-type _DSpeexEngineRPC = DSpeexEngine<'elevenlabs'> | DSpeexEngine<'inworld'> | DSpeexEngine<'localai'> | DSpeexEngine<'openai'>;
+type _DSpeexEngineRPC = DSpeexEngine<'elevenlabs'> | DSpeexEngine<'inworld'> | DSpeexEngine<'localai'> | DSpeexEngine<'localtts'> | DSpeexEngine<'openai'>;
 
 
 /**
@@ -185,6 +185,7 @@ function _buildRPCWireAccess({ credentials: c, vendorType }: _DSpeexEngineRPC):
           };
 
         case 'localai':
+        case 'localtts':
         case 'openai':
           return {
             dialect: vendorType,
@@ -225,6 +226,23 @@ function _buildRPCWireAccess({ credentials: c, vendorType }: _DSpeexEngineRPC):
             ...(lai.localAIHost && { apiHost: lai.localAIHost }),
           };
 
+        case 'localtts':
+          // linked from a local OpenAI-compatible service (see SpeexVendorLocalTTS), or from LocalAI
+          if (service.vId === 'localai') {
+            const lai = (service.setup || {}) as DLocalAIServiceSettings;
+            return {
+              dialect: vendorType,
+              ...(lai.localAIKey && { apiKey: lai.localAIKey }),
+              ...(lai.localAIHost && { apiHost: lai.localAIHost }),
+            };
+          }
+          const loai = (service.setup || {}) as DOpenAIServiceSettings;
+          return {
+            dialect: vendorType,
+            ...(loai.oaiKey && { apiKey: loai.oaiKey }),
+            ...(loai.oaiHost && { apiHost: loai.oaiHost }),
+          };
+
         default:
           const _exhaustiveCheck: never = vendorType;
           return null;
@@ -247,6 +265,7 @@ function _shouldUseCSF({ credentials: c, vendorType }: _DSpeexEngineRPC): boolea
           return false; // Inworld has blocked CORS policy - never CSF
 
         case 'localai':
+        case 'localtts':
           return isLocalUrl(c.apiHost);
 
         default:
@@ -272,6 +291,14 @@ function _shouldUseCSF({ credentials: c, vendorType }: _DSpeexEngineRPC): boolea
           const oai = (service.setup || {}) as DOpenAIServiceSettings;
           return !!oai.csf;
 
+        case 'localtts':
+          if (service.vId === 'localai') {
+            const lai = (service.setup || {}) as DLocalAIServiceSettings;
+            return lai.csf || isLocalUrl(lai.localAIHost);
+          }
+          const loai = (service.setup || {}) as DOpenAIServiceSettings;
+          return !!loai.csf || isLocalUrl(loai.oaiHost);
+
         default:
           return false;
       }
@@ -47,9 +47,9 @@ export namespace SpeexWire {
   });
 
   export const AccessOpenAI_schema = z.object({
-    dialect: z.enum(['localai', 'openai']),
-    apiKey: z.string().optional(),  // openai: required, localai: optional
-    apiHost: z.string().optional(), // localai: required, openai: optional
+    dialect: z.enum(['localai', 'localtts', 'openai']),
+    apiKey: z.string().optional(),  // openai: required, localai/localtts: optional
+    apiHost: z.string().optional(), // localai/localtts: required, openai: optional
     apiOrgId: z.string().optional(),   // openai only
   });
 
@@ -81,6 +81,13 @@ export namespace SpeexWire {
     ttsLanguage: z.string().optional(),  // for multilingual models like xtts_v2
   });
 
+  export const VoiceLocalTTS_schema = z.object({
+    dialect: z.literal('localtts'),
+    ttsModel: z.string().optional(),     // e.g., 'kokoro'
+    ttsVoiceId: z.string().optional(),   // e.g., 'af_heart'
+    ttsSpeed: z.number().min(0.25).max(4.0).optional(),
+  });
+
   export const VoiceOpenAI_schema = z.object({
     dialect: z.literal('openai'),
     ttsModel: z.enum(['tts-1', 'tts-1-hd', 'gpt-4o-mini-tts']).optional(),
@@ -90,7 +97,7 @@ export namespace SpeexWire {
   });
 
   export const Voice_schema = z.discriminatedUnion('dialect',
-    [VoiceElevenLabs_schema, VoiceInworld_schema, VoiceLocalAI_schema, VoiceOpenAI_schema],
+    [VoiceElevenLabs_schema, VoiceInworld_schema, VoiceLocalAI_schema, VoiceLocalTTS_schema, VoiceOpenAI_schema],
   );
 
 
@@ -41,6 +41,11 @@ interface LocalAIWire_ListModels_Response {
   data: Array<{ id: string; object: 'model' }>;
 }
 
+// Local TTS servers: GET /v1/audio/voices (Kokoro-FastAPI: names; others: objects)
+interface LocalTTSWire_ListVoices_Response {
+  voices?: Array<string | { id?: string; voice_id?: string; name?: string }>;
+}
+
 
 /**
  * Synthesize speech using OpenAI-compatible/similar TTS API.
@@ -67,6 +72,17 @@ export const synthesizeOpenAIProtocol: SynthesizeBackendFn<SpeexWire_Access_Open
   // request.body
   let body: OpenAIWire_TTS_Request | LocalAIWire_TTS_Request;
   switch (access.dialect) {
+    case 'localtts':
+      if (voice.dialect !== 'localtts') throw new Error('Voice dialect mismatch for Local TTS access');
+      body = {
+        input: text,
+        model: voice.ttsModel || SPEEX_DEFAULTS.LOCALTTS_MODEL,
+        voice: voice.ttsVoiceId || SPEEX_DEFAULTS.LOCALTTS_VOICE,
+        ...(voice.ttsSpeed !== undefined ? { speed: voice.ttsSpeed } : {}),
+        response_format: 'mp3', // MP3 for MediaSource compatibility
+      } satisfies OpenAIWire_TTS_Request;
+      break;
+
     case 'localai':
       if (voice.dialect !== 'localai') throw new Error('Voice dialect mismatch for LocalAI access');
       body = {
@@ -94,7 +110,7 @@ export const synthesizeOpenAIProtocol: SynthesizeBackendFn<SpeexWire_Access_Open
   }
 
   // connect
-  const dialectName = access.dialect === 'localai' ? 'LocalAI' : 'OpenAI';
+  const dialectName = access.dialect === 'localai' ? 'LocalAI' : access.dialect === 'localtts' ? 'Local TTS' : 'OpenAI';
   let response: Response;
   try {
     if (SPEEX_DEBUG) console.log(`[Speex][OpenAI] POST (stream=${streaming})`, { url, headers, body });
@@ -191,6 +207,43 @@ export async function listVoicesLocalAIOrThrow(access: SpeexWire_Access_OpenAI):
 }
 
 
+//
+// List Voices - Local TTS servers
+//
+
+export async function listVoicesLocalTTSOrThrow(access: SpeexWire_Access_OpenAI): Promise<SpeexWire_ListVoices_Output> {
+  if (access.dialect !== 'localtts')
+    throw new Error('listVoicesLocalTTS requires localtts dialect');
+
+  const { host, apiKey } = _resolveAccess(access);
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json',
+    ...(!apiKey ? {} : { 'Authorization': `Bearer ${apiKey}` }),
+  };
+
+  // servers without a voices endpoint (e.g. openedai-speech) take the OpenAI voice names
+  let voicesResponse: LocalTTSWire_ListVoices_Response;
+  try {
+    voicesResponse = await fetchJsonOrTRPCThrow<LocalTTSWire_ListVoices_Response>({
+      url: `${host}/v1/audio/voices`,
+      headers,
+      name: 'Local TTS',
+    });
+  } catch (error: any) {
+    console.log('[DEV] Speex: listVoicesLocalTTS: no voices endpoint, using the OpenAI voice names:', error.message);
+    return { voices: listVoicesOpenAI() };
+  }
+
+  const voices: SpeexWire_ListVoices_Output['voices'] = [];
+  for (const v of voicesResponse.voices ?? []) {
+    const id = typeof v === 'string' ? v : v.id || v.voice_id;
+    if (id)
+      voices.push({ id, name: (typeof v !== 'string' && v.name) || id });
+  }
+  return { voices: voices.length ? voices : listVoicesOpenAI() };
+}
+
+
 // Helpers
 
 function _resolveAccess(access: Readonly<SpeexWire_Access_OpenAI>): { host: string; apiKey: string } {
@@ -200,10 +253,10 @@ function _resolveAccess(access: Readonly<SpeexWire_Access_OpenAI>): { host: stri
   let host = isOpenAI
     ? (access.apiHost || 'https://api.openai.com').trim()
     : (access.apiHost || '').trim();
-  if (!host) throw new Error('LocalAI requires a host URL');
+  if (!host) throw new Error(`${access.dialect === 'localtts' ? 'Local TTS' : 'LocalAI'} requires a host URL`);
   if (!host.startsWith('http')) {
     // noinspection HttpUrlsUsage
-    host = isOpenAI ? `https://${host}` : `http://${host}`; // LocalAI is often local, default to http
+    host = isOpenAI ? `https://${host}` : `http://${host}`; // LocalAI and local TTS servers are often local, default to http
   }
   if (host.endsWith('/'))
     host = host.slice(0, -1);
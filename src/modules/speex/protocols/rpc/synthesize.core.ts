@@ -11,7 +11,7 @@
 import type { SpeexSpeechParticle, SpeexWire_Access, SpeexWire_ListVoices_Output, SpeexWire_Synthesize_Input, SpeexWire_Voice } from './rpc.wiretypes';
 import { listVoicesElevenLabs, synthesizeElevenLabs } from './synthesize-elevenlabs';
 import { listVoicesInworld, synthesizeInworld } from './synthesize-inworld';
-import { listVoicesLocalAIOrThrow, listVoicesOpenAI, synthesizeOpenAIProtocol } from './synthesize-openai';
+import { listVoicesLocalAIOrThrow, listVoicesLocalTTSOrThrow, listVoicesOpenAI, synthesizeOpenAIProtocol } from './synthesize-openai';
 
 
 // Synthesis RPC backend function spec
@@ -52,6 +52,7 @@ export async function* speexRpcCoreSynthesize(input: SpeexWire_Synthesize_Input,
         break;
 
       case 'localai':
+      case 'localtts':
       case 'openai':
         yield* synthesizeOpenAIProtocol({ access, text, voice, streaming, languageCode, priority, signal });
         break;
@@ -82,6 +83,9 @@ export async function speexRpcCoreListVoices(access: SpeexWire_Access): Promise<
     case 'localai':
       return await listVoicesLocalAIOrThrow(access);
 
+    case 'localtts':
+      return await listVoicesLocalTTSOrThrow(access);
+
     default:
       const _exhaustiveCheck: never = access;
       return { voices: [] };
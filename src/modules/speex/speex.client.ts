@@ -202,7 +202,8 @@ function _speakRawText_withHandle(
     case 'elevenlabs':
     case 'inworld':
     case 'openai':
-    case 'localai': {
+    case 'localai':
+    case 'localtts': {
 
       const abortController = new AbortController();
       let audioPlayer: AudioAutoPlayer | undefined;
@@ -22,6 +22,11 @@ export const SPEEX_DEFAULTS = {
   // LocalAI - kokoro is a high-quality neural TTS
   LOCALAI_MODEL: 'kokoro',
 
+  // Local TTS servers (OpenAI-compatible) - kokoro is the most common, the voice ids are the server's
+  LOCALTTS_MODEL: 'kokoro',
+  LOCALTTS_VOICE: 'af_heart',
+  LOCALTTS_HOST: 'http://localhost:8880', // Kokoro-FastAPI default port
+
   // Inworld - high-quality, low-latency TTS with voice cloning
   INWORLD_MODEL: 'inworld-tts-1.5-max',       // best quality (~200ms latency, $10/1M chars)
   INWORLD_MODEL_FAST: 'inworld-tts-1.5-mini', // fastest (<100ms latency, $5/1M chars)
@@ -65,6 +65,30 @@ export function speex_textStripMarkdown(inputText: string): string {
 // --- Text Chunking ---
 
 
+/**
+ * Splits the complete sentences off the start of streaming text, to speak them while the rest is generated.
+ * A sentence ends at . ! ? followed by whitespace, at their full-width forms, or at a line break.
+ * Sentences shorter than `minLength` are joined to the next, to avoid choppy playback.
+ *
+ * @returns the complete sentences, and the length of text they span (the rest is still incomplete)
+ */
+export function speex_splitCompleteSentences(text: string, minLength: number = 24): { sentences: string[], consumedLength: number } {
+  const sentences: string[] = [];
+  const sentenceEnd = /[.!?]+["'”’)\]]*\s+|[。！？]+|\n+/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = sentenceEnd.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence.length >= minLength) {
+      sentences.push(sentence);
+      start = end;
+    }
+  }
+  return { sentences, consumedLength: start };
+}
+
+
 /**
  * Splits text into chunks for progressive TTS synthesis.
  *
@@ -0,0 +1,57 @@
+import type { SpeexSpeakTextOptions, SpeexSynthesizeOptions, SpeexVoiceSelector } from './speex.types';
+import { speakText } from './speex.client';
+import { speex_splitCompleteSentences } from './speex.processing';
+
+
+/**
+ * Speaks text while it is being generated: every complete sentence is queued as soon as it
+ * arrives, and spoken in order. `stop()` silences it at once, e.g. when the user talks over it.
+ */
+export class SpeexStreamingSpeaker {
+
+  private readonly abortController = new AbortController();
+  private queuedLength = 0;   // chars of the streamed text already queued for speaking
+  private playback: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly voiceSelector: SpeexVoiceSelector,
+    private readonly options?: SpeexSpeakTextOptions & SpeexSynthesizeOptions,
+  ) {
+  }
+
+  /**
+   * Feeds the whole text so far. When done, the last (possibly incomplete) sentence is queued too.
+   */
+  update(fullText: string, isDone: boolean) {
+    if (this.abortController.signal.aborted || fullText.length <= this.queuedLength)
+      return;
+
+    const pendingText = fullText.slice(this.queuedLength);
+    if (isDone) {
+      this.queuedLength = fullText.length;
+      this._enqueue(pendingText);
+      return;
+    }
+
+    const { sentences, consumedLength } = speex_splitCompleteSentences(pendingText);
+    this.queuedLength += consumedLength;
+    sentences.forEach(sentence => this._enqueue(sentence));
+  }
+
+  /** Stops the current sentence and drops the queued ones. */
+  stop() {
+    this.abortController.abort();
+  }
+
+  private _enqueue(text: string) {
+    if (!text.trim()) return;
+    const signal = this.abortController.signal;
+    this.playback = this.playback
+      .then(async () => {
+        if (!signal.aborted)
+          await speakText(text, this.voiceSelector, { maxChunkLength: false, ...this.options }, signal);
+      })
+      .catch(error => console.warn('[Speex] streaming speaker error:', error));
+  }
+
+}
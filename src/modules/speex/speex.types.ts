@@ -8,7 +8,7 @@ import type { SpeexWire_VoiceOption } from './protocols/rpc/rpc.wiretypes';
 
 // Speex Vendor Types (supported TTS providers)
 
-export type DSpeexVendorType = 'elevenlabs' | 'inworld' | 'localai' | 'openai' | 'webspeech';
+export type DSpeexVendorType = 'elevenlabs' | 'inworld' | 'localai' | 'localtts' | 'openai' | 'webspeech';
 
 
 // Speex Engines - instances of TTS Vendors Types - persisted in store-module-speex
@@ -36,6 +36,7 @@ interface _TypeMap extends Record<DSpeexVendorType, { voice: unknown; credential
   'elevenlabs': { voice: DVoiceElevenLabs; credentials: DCredentialsApiKey };
   'inworld': { voice: DVoiceInworld; credentials: DCredentialsApiKey };
   'localai': { voice: DVoiceLocalAI; credentials: DCredentialsLLMSService | DCredentialsApiKey };
+  'localtts': { voice: DVoiceLocalTTS; credentials: DCredentialsLLMSService | DCredentialsApiKey };
   'openai': { voice: DVoiceOpenAI; credentials: DCredentialsLLMSService | DCredentialsApiKey };
   'webspeech': { voice: DVoiceWebSpeech; credentials: DCredentialsNone };
 }
@@ -74,6 +75,14 @@ export interface DVoiceLocalAI {
   ttsLanguage?: string;  // Language code for multilingual models (e.g., 'en', 'fr' for xtts_v2)
 }
 
+// OpenAI-compatible local TTS servers (Kokoro-FastAPI, openedai-speech with Piper, Speaches, ...)
+export interface DVoiceLocalTTS {
+  dialect: 'localtts';
+  ttsModel?: string;     // Model name as known by the server (e.g., 'kokoro', 'tts-1' for Piper in openedai-speech)
+  ttsVoiceId?: string;   // Voice name as known by the server (e.g., 'af_heart' for Kokoro, 'alloy')
+  ttsSpeed?: number;     // 0.25-4.0, if the server supports it
+}
+
 export interface DVoiceOpenAI {
   dialect: 'openai';
   ttsModel: 'tts-1' | 'tts-1-hd' | 'gpt-4o-mini-tts';
@@ -1,4 +1,4 @@
-import type { ModelVendorId } from '~/modules/llms/vendors/vendors.registry';
+import type { DModelsService } from '~/common/stores/llms/llms.service.types';
 
 import type { DSpeexEngineAny, DSpeexVendorType } from './speex.types';
 import type { ISpeexVendor, ISpeexVendorAny } from './ISpeexVendor';
@@ -7,6 +7,7 @@ import type { ISpeexVendor, ISpeexVendorAny } from './ISpeexVendor';
 import { SpeexVendorElevenLabs } from './vendors/elevenlabs.vendor';
 import { SpeexVendorInworld } from './vendors/inworld.vendor';
 import { SpeexVendorLocalAI } from './vendors/localai.vendor';
+import { SpeexVendorLocalTTS } from './vendors/localtts.vendor';
 import { SpeexVendorOpenAI } from './vendors/openai.vendor';
 import { SpeexVendorWebSpeech } from './vendors/webspeech.vendor';
 
@@ -17,6 +18,7 @@ const _SPEEX_VENDOR_REGISTRY: { [key in DSpeexVendorType]: ISpeexVendor<key> } =
   elevenlabs: SpeexVendorElevenLabs,
   inworld: SpeexVendorInworld,
   localai: SpeexVendorLocalAI,
+  localtts: SpeexVendorLocalTTS,
   openai: SpeexVendorOpenAI,
   webspeech: SpeexVendorWebSpeech,
 };
@@ -28,9 +30,13 @@ export function speexFindVendor<TVt extends DSpeexVendorType>(vendorType: TVt):
   return _SPEEX_VENDOR_REGISTRY[vendorType] ?? null;
 }
 
-export function speexFindVendorForLLMVendor(llmVendorId: ModelVendorId): ISpeexVendorAny | null {
-  for (const sv of Object.values(_SPEEX_VENDOR_REGISTRY))
-    if (sv.autoFromLlmVendorIds?.includes(llmVendorId))
+/**
+ * The vendor to auto-link for an LLM service: the first, by priority, which maps from the LLM vendor
+ * and accepts this service (e.g. OpenAI for the native host, Local TTS for local hosts).
+ */
+export function speexFindVendorForLLMSource(source: DModelsService): ISpeexVendorAny | null {
+  for (const sv of _speexFindAllVendors_Asc())
+    if (sv.autoFromLlmVendorIds?.includes(source.vId) && (!sv.shouldAutoLinkFromLLMSource || sv.shouldAutoLinkFromLLMSource(source)))
       return sv;
   return null;
 }
@@ -9,7 +9,7 @@ import { agiUuidV4 } from '~/common/util/idUtils';
 import { useModelsStore } from '~/common/stores/llms/store-llms';
 
 import type { DSpeexCredentialsAny, DSpeexEngine, DSpeexEngineAny, DSpeexVendorType, SpeexEngineId } from './speex.types';
-import { speexFindByVendorPriorityAsc, speexFindVendor, speexFindVendorForLLMVendor } from './speex.vendors-registry';
+import { speexFindByVendorPriorityAsc, speexFindVendor, speexFindVendorForLLMSource } from './speex.vendors-registry';
 import { webspeechHBestVoiceDeferred, webspeechIsSupported } from './protocols/webspeech/webspeech.client';
 
 
@@ -181,17 +181,15 @@ export const useSpeexStore = create<SpeexStore>()(persist(
 
       // restore or create auto-linked engines
       for (const source of llmsSources) {
-        const vendor = speexFindVendorForLLMVendor(source.vId);
+        // includes secondary qualifiers: e.g. OpenAI only links native OpenAI hosts, Local TTS only local hosts
+        const vendor = speexFindVendorForLLMSource(source);
         if (!vendor) continue;
 
-        // allow secondary qualifier: e.g. OpenAI only links native OpenAI hosts, not OpenAI-compatible customs
-        if (vendor.shouldAutoLinkFromLLMSource && !vendor.shouldAutoLinkFromLLMSource(source)) continue;
-
-        // check if we already have an auto-linked engine for this service
+        // check if we already have an auto-linked engine for this service (and vendor, which follows the host)
         let existing: DSpeexEngineAny | undefined;
         for (const engineId in engines) {
           const e = engines[engineId];
-          if (e.isAutoLinked && e.credentials?.type === 'llms-service' && e.credentials.serviceId === source.id) {
+          if (e.isAutoLinked && e.vendorType === vendor.vendorType && e.credentials?.type === 'llms-service' && e.credentials.serviceId === source.id) {
             existing = e;
             break;
           }
@@ -239,7 +237,14 @@ export const useSpeexStore = create<SpeexStore>()(persist(
 
   }), {
     name: 'app-module-speex',
-    version: 1,
+    version: 2,
+
+    // 2: Local TTS auto-links from local OpenAI-compatible services - force one re-sync
+    migrate: (state: unknown, fromVersion) => {
+      if (fromVersion < 2 && state)
+        return { ...state, hasInitializedLlms: false };
+      return state;
+    },
 
     // Performs the business logic here
     onRehydrateStorage: () => (store) => {
@@ -0,0 +1,53 @@
+import type { DOpenAIServiceSettings } from '~/modules/llms/vendors/openai/openai.vendor';
+
+import { isLocalUrl } from '~/common/util/urlUtils';
+
+import type { ISpeexVendor } from '../ISpeexVendor';
+import { SPEEX_DEFAULTS } from '../speex.config';
+
+
+/**
+ * Local TTS Vendor - self-hosted servers with an OpenAI-compatible /v1/audio/speech endpoint
+ *
+ * Covers Kokoro-FastAPI, openedai-speech (Piper, XTTS), Speaches and similar servers, for
+ * offline deployments. Models and voices are free-form, as each server names its own.
+ *
+ * @see https://github.com/remsky/Kokoro-FastAPI
+ * @see https://github.com/matatonic/openedai-speech
+ */
+export const SpeexVendorLocalTTS: ISpeexVendor<'localtts'> = {
+  vendorType: 'localtts',
+  name: 'Local TTS',
+  protocol: 'rpc',
+  location: 'local',
+  priority: 25,
+
+  // Auto-link: OpenAI-compatible LLM services on a local host (e.g. a local gateway serving speech too);
+  // native OpenAI hosts link to the OpenAI vendor instead
+  autoFromLlmVendorIds: [
+    'openai',
+  ],
+
+  shouldAutoLinkFromLLMSource: (source) => {
+    return isLocalUrl((source?.setup as Partial<DOpenAIServiceSettings> | undefined)?.oaiHost?.trim());
+  },
+
+  capabilities: {
+    streaming: true,
+    voiceListing: true, // GET /v1/audio/voices where available
+    speedControl: true,
+    pitchControl: false,
+  },
+
+  getDefaultCredentials: () => ({
+    type: 'api-key',
+    apiKey: '',
+    apiHost: SPEEX_DEFAULTS.LOCALTTS_HOST,
+  }),
+
+  getDefaultVoice: () => ({
+    dialect: 'localtts',
+    ttsModel: SPEEX_DEFAULTS.LOCALTTS_MODEL,
+    ttsVoiceId: SPEEX_DEFAULTS.LOCALTTS_VOICE,
+  }),
+};
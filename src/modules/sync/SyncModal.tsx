@@ -0,0 +1,117 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { Alert, Box, Button, FormControl, FormHelperText, FormLabel, IconButton, Input, Switch, Typography } from '@mui/joy';
+import CloudSyncOutlinedIcon from '@mui/icons-material/CloudSyncOutlined';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { copyToClipboard } from '~/common/util/clipboardUtils';
+
+import { syncNow } from './sync.client';
+import { useSyncStore } from './store-module-sync';
+
+
+/**
+ * Sync configuration: enable, and share the key with the other devices.
+ */
+export function SyncModal(props: { onClose: () => void }) {
+
+  // state
+  const [keyDraft, setKeyDraft] = React.useState<string | null>(null);
+
+  // external state
+  const { syncEnabled, syncKey, status, lastError, lastSyncAt, setSyncEnabled, setSyncKey } = useSyncStore(useShallow(state => ({
+    syncEnabled: state.syncEnabled,
+    syncKey: state.syncKey,
+    status: state.status,
+    lastError: state.lastError,
+    lastSyncAt: state.lastSyncAt,
+    setSyncEnabled: state.setSyncEnabled,
+    setSyncKey: state.setSyncKey,
+  })));
+
+  // derived state
+  const isKeyDraftValid = !!keyDraft && keyDraft.trim().length >= 16;
+
+
+  // handlers
+
+  const handleEnabledChange = React.useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    setSyncEnabled(event.target.checked);
+    if (event.target.checked)
+      void syncNow();
+  }, [setSyncEnabled]);
+
+  const handleKeyApply = React.useCallback(() => {
+    if (!keyDraft || !isKeyDraftValid) return;
+    setSyncKey(keyDraft.trim());
+    setKeyDraft(null);
+    void syncNow();
+  }, [isKeyDraftValid, keyDraft, setSyncKey]);
+
+
+  return (
+    <GoodModal
+      open
+      title='Sync'
+      titleStartDecorator={<CloudSyncOutlinedIcon />}
+      onClose={props.onClose}
+      startButton={
+        <Button variant='plain' disabled={!syncEnabled} loading={status === 'syncing'} onClick={() => void syncNow()}>
+          Sync Now
+        </Button>
+      }
+    >
+
+      <Typography level='body-sm'>
+        Keep your chats and folders in sync across your devices, through the database of this server.
+        Images and other attachments that are stored in the browser are not synced.
+      </Typography>
+
+      <FormControl orientation='horizontal' sx={{ justifyContent: 'space-between', alignItems: 'center' }}>
+        <FormLabel>Sync chats</FormLabel>
+        <Switch checked={syncEnabled} onChange={handleEnabledChange} endDecorator={syncEnabled ? 'On' : 'Off'} />
+      </FormControl>
+
+      {syncEnabled && <>
+
+        <FormControl>
+          <FormLabel>Sync key</FormLabel>
+          <Input
+            value={keyDraft ?? syncKey}
+            onChange={event => setKeyDraft(event.target.value)}
+            endDecorator={keyDraft === null ? (
+              <IconButton aria-label='Copy the sync key' onClick={() => copyToClipboard(syncKey, 'Sync key')}>
+                <ContentCopyIcon />
+              </IconButton>
+            ) : (
+              <Button size='sm' disabled={!isKeyDraftValid} onClick={handleKeyApply}>
+                Use
+              </Button>
+            )}
+            slotProps={{ input: { spellCheck: false, autoComplete: 'off' } }}
+            sx={{ fontFamily: 'code' }}
+          />
+          <FormHelperText>
+            {keyDraft === null
+              ? 'Paste this key on your other devices to sync with them. Keep it secret: anyone with the key can read your chats.'
+              : 'Enter the key of your other device (at least 16 characters). The chats of this device will be synced with its chats.'}
+          </FormHelperText>
+        </FormControl>
+
+        {status === 'error' && !!lastError && (
+          <Alert variant='soft' color='danger'>
+            Sync failed: {lastError}
+          </Alert>
+        )}
+
+        <Box sx={{ fontSize: 'sm', color: 'text.tertiary' }}>
+          {status === 'syncing' ? 'Syncing...' : lastSyncAt ? `Last synced ${new Date(lastSyncAt).toLocaleString()}` : 'Not synced yet'}
+        </Box>
+
+      </>}
+
+    </GoodModal>
+  );
+}
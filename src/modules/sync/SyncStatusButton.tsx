@@ -0,0 +1,58 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { IconButton, Tooltip } from '@mui/joy';
+import CloudDoneOutlinedIcon from '@mui/icons-material/CloudDoneOutlined';
+import CloudOffOutlinedIcon from '@mui/icons-material/CloudOffOutlined';
+import CloudSyncOutlinedIcon from '@mui/icons-material/CloudSyncOutlined';
+import SyncProblemOutlinedIcon from '@mui/icons-material/SyncProblemOutlined';
+
+import { SyncModal } from './SyncModal';
+import { isSyncAvailable } from './sync.client';
+import { useSyncStore } from './store-module-sync';
+
+
+/**
+ * Sync status in the chats drawer, and access to the sync configuration. Hidden without a server database.
+ */
+export function SyncStatusButton() {
+
+  // state
+  const [modalOpen, setModalOpen] = React.useState(false);
+
+  // external state
+  const { status, lastError, lastSyncAt } = useSyncStore(useShallow(state => ({
+    status: state.status,
+    lastError: state.lastError,
+    lastSyncAt: state.lastSyncAt,
+  })));
+
+  if (!isSyncAvailable())
+    return null;
+
+  const tooltip =
+    status === 'off' ? 'Sync is off - click to sync your chats across devices'
+      : status === 'syncing' ? 'Syncing...'
+        : status === 'error' ? `Sync failed: ${lastError || 'unknown error'}`
+          : lastSyncAt ? `Synced at ${new Date(lastSyncAt).toLocaleTimeString()}` : 'Sync is on';
+
+  return <>
+
+    <Tooltip title={tooltip}>
+      <IconButton
+        aria-label='Sync'
+        color={status === 'error' ? 'danger' : 'neutral'}
+        onClick={() => setModalOpen(true)}
+        sx={{ mx: 0.5 }}
+      >
+        {status === 'off' ? <CloudOffOutlinedIcon />
+          : status === 'syncing' ? <CloudSyncOutlinedIcon />
+            : status === 'error' ? <SyncProblemOutlinedIcon />
+              : <CloudDoneOutlinedIcon />}
+      </IconButton>
+    </Tooltip>
+
+    {modalOpen && <SyncModal onClose={() => setModalOpen(false)} />}
+
+  </>;
+}
@@ -0,0 +1,18 @@
+import { createTRPCRouter } from '~/server/trpc/trpc.server';
+
+import { syncPullProcedure, syncPushProcedure } from './sync';
+
+
+export const syncRouter = createTRPCRouter({
+
+  /**
+   * Read the conversations and folders changed since the revisions known by the device
+   */
+  pull: syncPullProcedure,
+
+  /**
+   * Write the conversations and folders changed on the device, merging them with the stored ones
+   */
+  push: syncPushProcedure,
+
+});
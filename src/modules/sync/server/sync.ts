@@ -0,0 +1,282 @@
+import * as z from 'zod/v4';
+
+import { Prisma } from '@prisma/client';
+
+import { prismaDb } from '~/server/prisma/prismaDb';
+import { publicProcedure } from '~/server/trpc/trpc.server';
+
+
+// configuration
+const MAX_PULL_CONVERSATIONS = 50;  // the client pulls again while there's more
+const MAX_PUSH_CONVERSATIONS = 20;  // the client pushes in batches
+const MIN_SYNC_KEY_LENGTH = 16;
+
+
+/// Zod schemas
+
+const syncKeySchema = z.string().min(MIN_SYNC_KEY_LENGTH).max(256);
+
+const syncMessageSchema = z.object({
+  id: z.string(),
+  updated: z.number(),
+  data: z.record(z.string(), z.any()), // DMessage
+});
+
+const syncPullInputSchema = z.object({
+  syncKey: syncKeySchema,
+  knownRevisions: z.record(z.string(), z.number()), // conversationId -> last pulled revision
+  knownFoldersRevision: z.number(),
+});
+
+const syncPulledConversationSchema = z.union([
+  z.object({
+    id: z.string(),
+    revision: z.number(),
+    updated: z.number(),
+    deleted: z.literal(false),
+    data: z.record(z.string(), z.any()), // conversation without messages, see the client
+    messages: z.array(syncMessageSchema), // changed since the known revision
+    deletedMessages: z.array(z.object({ id: z.string(), updated: z.number() })), // deleted since the known revision
+  }),
+  z.object({
+    id: z.string(),
+    revision: z.number(),
+    updated: z.number(),
+    deleted: z.literal(true),
+  }),
+]);
+
+export const syncPullOutputSchema = z.object({
+  conversations: z.array(syncPulledConversationSchema),
+  hasMore: z.boolean(),
+  folders: z.object({
+    revision: z.number(),
+    updated: z.number(),
+    data: z.array(z.any()), // DFolder[]
+  }).nullable(), // null if not changed since the known revision
+});
+
+const syncPushInputSchema = z.object({
+  syncKey: syncKeySchema,
+  conversations: z.array(z.union([
+    z.object({
+      id: z.string(),
+      baseRevision: z.number(), // the last revision pulled by the client, 0 if new
+      updated: z.number(),
+      deleted: z.literal(false),
+      data: z.record(z.string(), z.any()),
+      messages: z.array(syncMessageSchema), // all the messages of the conversation
+    }),
+    z.object({
+      id: z.string(),
+      baseRevision: z.number(),
+      updated: z.number(),
+      deleted: z.literal(true),
+    }),
+  ])).max(MAX_PUSH_CONVERSATIONS),
+  folders: z.object({
+    updated: z.number(),
+    data: z.array(z.any()),
+  }).optional(),
+});
+
+export const syncPushOutputSchema = z.object({
+  revisions: z.record(z.string(), z.object({
+    previous: z.number(), // the revision before this push, to tell whether the client missed changes from other devices
+    current: z.number(),
+  })),
+  foldersRevision: z.number().optional(),
+});
+
+
+export type SyncPullInput = z.infer<typeof syncPullInputSchema>;
+export type SyncPullOutput = z.infer<typeof syncPullOutputSchema>;
+export type SyncPushInput = z.infer<typeof syncPushInputSchema>;
+export type SyncPushOutput = z.infer<typeof syncPushOutputSchema>;
+
+
+/// Operations
+
+/**
+ * The key is a secret shared among the devices of a user; only its hash is stored.
+ */
+export async function syncOwnerIdFromKey(syncKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(syncKey));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+
+/**
+ * Returns the conversations that changed since the revisions known by the client, with only
+ * their changed messages, and the folders if changed.
+ */
+export async function syncPull(ownerId: string, { knownRevisions, knownFoldersRevision }: Omit<SyncPullInput, 'syncKey'>): Promise<SyncPullOutput> {
+
+  // find the changed conversations (deleted ones only if the client has them)
+  const heads = await prismaDb.syncConversation.findMany({
+    select: { id: true, revision: true, isDeleted: true },
+    where: { ownerId },
+    orderBy: { updated: 'desc' },
+  });
+  const changedHeads = heads.filter(head => head.revision > (knownRevisions[head.id] ?? 0) && (!head.isDeleted || head.id in knownRevisions));
+
+  const conversations: SyncPullOutput['conversations'] = [];
+  for (const { id } of changedHeads.slice(0, MAX_PULL_CONVERSATIONS)) {
+    const knownRevision = knownRevisions[id] ?? 0;
+    const conversation = await prismaDb.syncConversation.findUnique({
+      where: { ownerId_id: { ownerId, id } },
+      include: {
+        messages: {
+          where: {
+            revision: { gt: knownRevision },
+            ...(!knownRevision && { isDeleted: false }), // new to the client: no need for tombstones
+          },
+        },
+      },
+    });
+    if (!conversation) continue;
+
+    if (conversation.isDeleted) {
+      conversations.push({ id, revision: conversation.revision, updated: conversation.updated, deleted: true });
+      continue;
+    }
+
+    conversations.push({
+      id,
+      revision: conversation.revision,
+      updated: conversation.updated,
+      deleted: false,
+      data: conversation.data as Record<string, any>,
+      messages: conversation.messages
+        .filter(message => !message.isDeleted)
+        .map(message => ({ id: message.id, updated: message.updated, data: message.data as Record<string, any> })),
+      deletedMessages: conversation.messages
+        .filter(message => message.isDeleted)
+        .map(message => ({ id: message.id, updated: message.updated })),
+    });
+  }
+
+  // folders, if changed
+  const folders = await prismaDb.syncFolders.findUnique({ where: { ownerId } });
+
+  return {
+    conversations,
+    hasMore: changedHeads.length > MAX_PULL_CONVERSATIONS,
+    folders: folders && folders.revision > knownFoldersRevision
+      ? { revision: folders.revision, updated: folders.updated, data: folders.data as any[] }
+      : null,
+  };
+}
+
+
+/**
+ * Stores the conversations changed by the client, merging them at the message level: the most recently
+ * updated version of each message wins, and so do the conversation properties (title, order of the messages..).
+ * Messages that the client doesn't have anymore, and that it had seen, are deleted.
+ */
+export async function syncPush(ownerId: string, { conversations, folders }: Omit<SyncPushInput, 'syncKey'>): Promise<SyncPushOutput> {
+
+  const revisions: SyncPushOutput['revisions'] = {};
+
+  for (const pushed of conversations) {
+    revisions[pushed.id] = await prismaDb.$transaction(async (tx) => {
+
+      const existing = await tx.syncConversation.findUnique({
+        select: { revision: true, updated: true, isDeleted: true },
+        where: { ownerId_id: { ownerId, id: pushed.id } },
+      });
+      const previous = existing?.revision ?? 0;
+      const current = previous + 1;
+
+      // deletion: wins if more recent than the last change
+      if (pushed.deleted) {
+        if (!existing || existing.isDeleted || existing.updated > pushed.updated)
+          return { previous, current: previous };
+        await tx.syncMessage.deleteMany({ where: { ownerId, conversationId: pushed.id } });
+        await tx.syncConversation.update({
+          // the revision condition fails this transaction if another push happened meanwhile
+          where: { ownerId_id: { ownerId, id: pushed.id }, revision: previous },
+          data: { revision: current, updated: pushed.updated, data: {}, isDeleted: true, deletedAt: new Date() },
+        });
+        return { previous, current };
+      }
+
+      // conversation properties: last writer wins
+      const pushedWins = !existing || pushed.updated >= existing.updated;
+      if (!existing) {
+        await tx.syncConversation.create({
+          data: { ownerId, id: pushed.id, revision: current, updated: pushed.updated, data: pushed.data },
+        });
+      } else {
+        await tx.syncConversation.update({
+          where: { ownerId_id: { ownerId, id: pushed.id }, revision: previous },
+          data: {
+            revision: current,
+            ...(pushedWins && { updated: pushed.updated, data: pushed.data, isDeleted: false, deletedAt: null }),
+          },
+        });
+      }
+
+      // messages: last writer wins, per message
+      const storedMessages = !existing ? [] : await tx.syncMessage.findMany({
+        select: { id: true, revision: true, updated: true, isDeleted: true },
+        where: { ownerId, conversationId: pushed.id },
+      });
+      const storedById = new Map(storedMessages.map(message => [message.id, message]));
+      for (const message of pushed.messages) {
+        const stored = storedById.get(message.id);
+        if (stored && (stored.updated > message.updated || (stored.updated === message.updated && !stored.isDeleted))) continue; // older or unchanged
+        await tx.syncMessage.upsert({
+          where: { ownerId_conversationId_id: { ownerId, conversationId: pushed.id, id: message.id } },
+          create: { ownerId, conversationId: pushed.id, id: message.id, revision: current, updated: message.updated, data: message.data },
+          update: { revision: current, updated: message.updated, data: message.data, isDeleted: false },
+        });
+      }
+
+      // messages that the client has seen and removed: tombstones for the other devices
+      const pushedIds = new Set(pushed.messages.map(message => message.id));
+      const removedIds = storedMessages
+        .filter(stored => !stored.isDeleted && !pushedIds.has(stored.id) && stored.revision <= pushed.baseRevision && stored.updated <= pushed.updated)
+        .map(stored => stored.id);
+      if (removedIds.length)
+        await tx.syncMessage.updateMany({
+          where: { ownerId, conversationId: pushed.id, id: { in: removedIds } },
+          data: { revision: current, updated: pushed.updated, data: Prisma.DbNull, isDeleted: true },
+        });
+
+      return { previous, current };
+    });
+  }
+
+  // folders: last writer wins, as a whole
+  let foldersRevision: number | undefined;
+  if (folders) {
+    const existing = await prismaDb.syncFolders.findUnique({ select: { revision: true, updated: true }, where: { ownerId } });
+    if (!existing || folders.updated >= existing.updated) {
+      const { revision } = await prismaDb.syncFolders.upsert({
+        select: { revision: true },
+        where: { ownerId },
+        create: { ownerId, revision: 1, updated: folders.updated, data: folders.data },
+        update: { revision: { increment: 1 }, updated: folders.updated, data: folders.data },
+      });
+      foldersRevision = revision;
+    }
+  }
+
+  return { revisions, foldersRevision };
+}
+
+
+/// tRPC procedures
+
+export const syncPullProcedure =
+  publicProcedure
+    .input(syncPullInputSchema)
+    .output(syncPullOutputSchema)
+    .mutation(async ({ input: { syncKey, ...input } }) => syncPull(await syncOwnerIdFromKey(syncKey), input));
+
+export const syncPushProcedure =
+  publicProcedure
+    .input(syncPushInputSchema)
+    .output(syncPushOutputSchema)
+    .mutation(async ({ input: { syncKey, ...input } }) => syncPush(await syncOwnerIdFromKey(syncKey), input));
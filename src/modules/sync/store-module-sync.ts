@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import { agiUuid } from '~/common/util/idUtils';
+
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error';
+
+/** What the server and this device last agreed on, for a conversation */
+export interface SyncedConversation {
+  revision: number; // last revision pulled from (or pushed to) the server
+  updated: number;  // local 'updated' at that time: changed since if greater
+}
+
+
+interface ModuleSyncStore {
+
+  // Sync of conversations and folders with the server database, across the devices sharing the key
+
+  syncEnabled: boolean;
+  setSyncEnabled: (syncEnabled: boolean) => void;
+
+  // secret shared by the devices of the user; changing it starts over
+  syncKey: string;
+  setSyncKey: (syncKey: string) => void;
+
+  // bookkeeping
+  syncedConversations: Record<DConversationId, SyncedConversation>;
+  syncedFolders: { revision: number, hash: string } | null;
+  deletedConversations: Record<DConversationId, number>; // when synced conversations were deleted here, until pushed
+  lastSyncAt: number | null;
+
+  // not persisted
+  status: SyncStatus;
+  lastError: string | null;
+
+}
+
+export const useSyncStore = create<ModuleSyncStore>()(
+  persist(
+    (set) => ({
+
+      syncEnabled: false,
+      setSyncEnabled: (syncEnabled: boolean) => set(state => ({
+        syncEnabled,
+        syncKey: state.syncKey || agiUuid('sync-key') + agiUuid('sync-key'),
+        status: syncEnabled ? 'idle' : 'off',
+        lastError: null,
+      })),
+
+      syncKey: '',
+      setSyncKey: (syncKey: string) => set({
+        syncKey,
+        syncedConversations: {},
+        syncedFolders: null,
+        deletedConversations: {},
+        lastSyncAt: null,
+        lastError: null,
+      }),
+
+      syncedConversations: {},
+      syncedFolders: null,
+      deletedConversations: {},
+      lastSyncAt: null,
+
+      status: 'off',
+      lastError: null,
+
+    }),
+    {
+      name: 'app-module-sync',
+      partialize: ({ status, lastError, ...state }) => state,
+      onRehydrateStorage: () => (state) => {
+        if (state) state.status = state.syncEnabled ? 'idle' : 'off';
+      },
+    },
+  ),
+);
@@ -0,0 +1,314 @@
+import { getBackendCapabilities } from '~/modules/backend/store-backend-capabilities';
+
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import type { DMessage } from '~/common/stores/chat/chat.message';
+import { DFolder, useFolderStore } from '~/common/stores/folders/store-chat-folders';
+import { apiAsyncNode } from '~/common/util/trpc.client';
+import { frontendHashString } from '~/common/util/textUtils';
+import { useChatStore } from '~/common/stores/chat/store-chats';
+
+import type { SyncPullOutput, SyncPushInput } from './server/sync';
+import { SyncedConversation, useSyncStore } from './store-module-sync';
+import { syncMergeMessages, syncMessageStamp } from './sync.merge';
+
+
+// configuration
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_DEBOUNCE_MS = 10 * 1000; // after local changes
+const PUSH_BATCH_SIZE = 20;         // conversations per push; matches the server limit
+
+
+type SyncPulledConversation = SyncPullOutput['conversations'][number];
+
+/** The conversation as stored on the server: without its messages, which are stored one by one, but with their order */
+type SyncConversationData = Omit<DConversation, 'messages' | 'tokenCount' | '_abortController' | '_isIncognito'> & { messageIds: string[] };
+
+
+export function isSyncAvailable(): boolean {
+  return getBackendCapabilities().hasDB;
+}
+
+
+let _syncInFlight: Promise<boolean> | null = null;
+
+/**
+ * Pulls the changes from the other devices, then pushes the local ones.
+ * Concurrent calls share the same run.
+ *
+ * @returns true if the sync succeeded; errors are reported in the store
+ */
+export function syncNow(): Promise<boolean> {
+  if (!_syncInFlight)
+    _syncInFlight = _syncOnce().finally(() => _syncInFlight = null);
+  return _syncInFlight;
+}
+
+/**
+ * Syncs periodically, and shortly after local changes, while enabled.
+ *
+ * @returns a function to stop
+ */
+export function syncStart(): () => void {
+  let stopped = false;
+  let debounceTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const maybeSync = () => {
+    const { syncEnabled } = useSyncStore.getState();
+    if (!stopped && syncEnabled && isSyncAvailable())
+      void syncNow();
+  };
+
+  const interval = setInterval(maybeSync, SYNC_INTERVAL_MS);
+
+  const unsubscribeChats = useChatStore.subscribe((state, prevState) => {
+    if (state.conversations === prevState.conversations) return;
+    _recordDeletions(state.conversations, prevState.conversations);
+    if (debounceTimeout) clearTimeout(debounceTimeout);
+    debounceTimeout = setTimeout(() => {
+      debounceTimeout = null;
+      maybeSync();
+    }, SYNC_DEBOUNCE_MS);
+  });
+
+  const handleVisibilityChange = () => document.visibilityState === 'visible' && maybeSync();
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+
+  // first sync once the chats are loaded
+  let unsubscribeHydration: (() => void) | null = null;
+  if (useChatStore.persist.hasHydrated())
+    maybeSync();
+  else
+    unsubscribeHydration = useChatStore.persist.onFinishHydration(maybeSync);
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    unsubscribeChats();
+    unsubscribeHydration?.();
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    if (debounceTimeout) clearTimeout(debounceTimeout);
+  };
+}
+
+
+async function _syncOnce(): Promise<boolean> {
+  const { syncKey } = useSyncStore.getState();
+  useSyncStore.setState({ status: 'syncing' });
+  try {
+    await _pullAll(syncKey);
+    await _pushChanged(syncKey);
+    useSyncStore.setState(state => ({
+      status: 'idle', lastError: null, lastSyncAt: Date.now(),
+      // the deletions of the conversations no longer synced are settled: pushed, or deleted elsewhere too
+      deletedConversations: Object.fromEntries(Object.entries(state.deletedConversations).filter(([id]) => !!state.syncedConversations[id])),
+    }));
+    return true;
+  } catch (error: any) {
+    console.warn('[Sync] failed:', error);
+    useSyncStore.setState({ status: 'error', lastError: error?.message || 'Unknown error' });
+    return false;
+  }
+}
+
+
+// Pull
+
+async function _pullAll(syncKey: string) {
+  let hasMore = true;
+  while (hasMore) {
+    const { syncedConversations, syncedFolders } = useSyncStore.getState();
+    const pulled = await apiAsyncNode.sync.pull.mutate({
+      syncKey,
+      knownRevisions: Object.fromEntries(Object.entries(syncedConversations).map(([id, synced]) => [id, synced.revision])),
+      knownFoldersRevision: syncedFolders?.revision ?? 0,
+    });
+
+    const nextSynced = { ...syncedConversations };
+    for (const conversation of pulled.conversations) {
+      const synced = _applyPulledConversation(conversation, syncedConversations[conversation.id]);
+      if (synced === 'skipped') continue;
+      if (synced) nextSynced[conversation.id] = synced;
+      else delete nextSynced[conversation.id];
+    }
+    useSyncStore.setState({ syncedConversations: nextSynced });
+
+    if (pulled.folders)
+      _applyPulledFolders(pulled.folders.revision, pulled.folders.updated, pulled.folders.data as DFolder[]);
+
+    // stop if no progress is possible (e.g. the remaining conversations are busy)
+    hasMore = pulled.hasMore && pulled.conversations.some(c => nextSynced[c.id]?.revision !== syncedConversations[c.id]?.revision);
+  }
+}
+
+function _applyPulledConversation(pulled: SyncPulledConversation, synced: SyncedConversation | undefined): SyncedConversation | null | 'skipped' {
+  const { conversations, importConversation, deleteConversations, _editConversation } = useChatStore.getState();
+  const local = conversations.find(c => c.id === pulled.id);
+
+  // don't touch conversations that are being generated; they'll be merged at the next sync
+  if (local?._abortController)
+    return 'skipped';
+
+  const localStamp = !local ? 0 : local.updated ?? local.created;
+  const localChanged = !!local && (!synced || localStamp > synced.updated);
+
+  // deleted on another device: delete here, unless changed here afterwards
+  if (pulled.deleted) {
+    if (local && localChanged && localStamp > pulled.updated)
+      return { revision: pulled.revision, updated: synced?.updated ?? 0 };
+    if (local)
+      deleteConversations([pulled.id]);
+    return null;
+  }
+
+  // the remote messages, in their order: the changed ones, or the local copies of the unchanged ones
+  const { messageIds, ...remoteProperties } = pulled.data as SyncConversationData;
+  const changedById = new Map(pulled.messages.map(m => [m.id, m.data as DMessage]));
+  const localById = new Map(local?.messages.map(m => [m.id, m]));
+  const remoteMessages = messageIds
+    .map(id => changedById.get(id) ?? localById.get(id))
+    .filter((m): m is DMessage => !!m);
+  const orphanMessages = pulled.messages // changed, but not in the order (e.g. pushed by a device that lost the order)
+    .filter(m => !messageIds.includes(m.id))
+    .map(m => m.data as DMessage)
+    .sort((a, b) => a.created - b.created);
+  remoteMessages.push(...orphanMessages);
+  const deletedStamps = new Map(pulled.deletedMessages.map(m => [m.id, m.updated]));
+
+  // new here
+  if (!local) {
+    importConversation({
+      ...remoteProperties,
+      id: pulled.id,
+      messages: remoteMessages.filter(m => !deletedStamps.has(m.id)),
+      tokenCount: 0,
+      _abortController: null,
+    }, false);
+    return { revision: pulled.revision, updated: pulled.updated };
+  }
+
+  // merge: message by message, and the properties of the latest change
+  const remoteWins = pulled.updated >= localStamp;
+  const mergedMessages = remoteWins
+    ? syncMergeMessages(remoteMessages, local.messages, deletedStamps)
+    : syncMergeMessages(local.messages, remoteMessages, deletedStamps);
+  const mergedStamp = Math.max(localStamp, pulled.updated);
+  _editConversation(pulled.id, {
+    ...(remoteWins && remoteProperties),
+    id: pulled.id,
+    messages: mergedMessages,
+    updated: mergedStamp,
+  });
+
+  // local changes not pushed yet remain to be pushed
+  return { revision: pulled.revision, updated: localChanged ? synced?.updated ?? 0 : mergedStamp };
+}
+
+function _applyPulledFolders(revision: number, remoteUpdated: number, remoteFolders: DFolder[]) {
+  const { syncedFolders } = useSyncStore.getState();
+  const { folders: localFolders, foldersUpdated: localUpdated } = useFolderStore.getState();
+
+  // first sync of this device: keep its folders too, they'll be pushed
+  if (!syncedFolders) {
+    const remoteIds = new Set(remoteFolders.map(f => f.id));
+    const localOnlyFolders = localFolders.filter(f => !remoteIds.has(f.id));
+    useFolderStore.setState({ folders: [...remoteFolders, ...localOnlyFolders], foldersUpdated: localOnlyFolders.length ? Date.now() : remoteUpdated });
+    useSyncStore.setState({ syncedFolders: { revision, hash: _foldersHash(remoteFolders) } });
+    return;
+  }
+
+  // changed here too: the latest change wins - the local version will be pushed
+  if (_foldersHash(localFolders) !== syncedFolders.hash && localUpdated >= remoteUpdated) {
+    useSyncStore.setState({ syncedFolders: { revision, hash: syncedFolders.hash } });
+    return;
+  }
+
+  useFolderStore.setState({ folders: remoteFolders, foldersUpdated: remoteUpdated });
+  useSyncStore.setState({ syncedFolders: { revision, hash: _foldersHash(remoteFolders) } });
+}
+
+
+// Push
+
+/** Stamps the deletions of synced conversations, so that edits made elsewhere afterwards win over them */
+function _recordDeletions(conversations: DConversation[], prevConversations: DConversation[]) {
+  const { syncedConversations, deletedConversations } = useSyncStore.getState();
+  const ids = new Set(conversations.map(c => c.id));
+  const deletedIds = prevConversations.filter(c => !ids.has(c.id) && syncedConversations[c.id]).map(c => c.id);
+  if (deletedIds.length)
+    useSyncStore.setState({ deletedConversations: { ...deletedConversations, ...Object.fromEntries(deletedIds.map(id => [id, Date.now()])) } });
+}
+
+async function _pushChanged(syncKey: string) {
+  const { conversations } = useChatStore.getState();
+  const { syncedConversations, syncedFolders, deletedConversations } = useSyncStore.getState();
+
+  // changed (or new) conversations, skipping the ones not persisted locally either
+  const changed: SyncPushInput['conversations'] = conversations
+    .filter(c => !c._isIncognito && !c._abortController && (c.messages.length || c.userTitle || c.autoTitle))
+    .filter(c => !syncedConversations[c.id] || (c.updated ?? c.created) > syncedConversations[c.id].updated)
+    .map(c => ({
+      id: c.id,
+      baseRevision: syncedConversations[c.id]?.revision ?? 0,
+      updated: c.updated ?? c.created,
+      deleted: false as const,
+      data: _conversationData(c),
+      messages: c.messages
+        .filter(m => !m.pendingIncomplete)
+        .map(m => ({ id: m.id, updated: syncMessageStamp(m), data: m })),
+    }));
+
+  // synced conversations deleted here, as of their deletion; if not recorded (e.g. deleted while sync was off), as of the last sync
+  const localIds = new Set(conversations.map(c => c.id));
+  const deleted: SyncPushInput['conversations'] = Object.entries(syncedConversations)
+    .filter(([id]) => !localIds.has(id))
+    .map(([id, synced]) => ({ id, baseRevision: synced.revision, updated: deletedConversations[id] ?? synced.updated, deleted: true as const }));
+
+  // folders, as a whole
+  const { folders, foldersUpdated } = useFolderStore.getState();
+  const foldersHash = _foldersHash(folders);
+  const foldersChanged = foldersHash !== (syncedFolders?.hash ?? _foldersHash([]));
+
+  const toPush = [...changed, ...deleted];
+  const batches: SyncPushInput['conversations'][] = [];
+  for (let i = 0; i < toPush.length; i += PUSH_BATCH_SIZE)
+    batches.push(toPush.slice(i, i + PUSH_BATCH_SIZE));
+  if (!batches.length && foldersChanged)
+    batches.push([]);
+
+  for (const [batchIndex, batch] of batches.entries()) {
+    const pushFolders = batchIndex === 0 && foldersChanged;
+    const { revisions, foldersRevision } = await apiAsyncNode.sync.push.mutate({
+      syncKey,
+      conversations: batch,
+      ...(pushFolders && { folders: { updated: foldersUpdated, data: folders } }),
+    });
+
+    const nextSynced = { ...useSyncStore.getState().syncedConversations };
+    for (const pushed of batch) {
+      const result = revisions[pushed.id];
+      if (!result) continue;
+      if (pushed.deleted) {
+        if (result.current > result.previous)
+          delete nextSynced[pushed.id];
+        continue;
+      }
+      // if other devices pushed meanwhile, keep the former revision so that their changes are pulled next time
+      const revision = result.previous === pushed.baseRevision ? result.current : pushed.baseRevision;
+      nextSynced[pushed.id] = { revision, updated: pushed.updated };
+    }
+    useSyncStore.setState({
+      syncedConversations: nextSynced,
+      ...(pushFolders && foldersRevision !== undefined && { syncedFolders: { revision: foldersRevision, hash: foldersHash } }),
+    });
+  }
+}
+
+
+function _conversationData(conversation: DConversation): SyncConversationData {
+  const { messages, tokenCount, _abortController, _isIncognito, ...properties } = conversation;
+  return { ...properties, messageIds: messages.filter(m => !m.pendingIncomplete).map(m => m.id) };
+}
+
+function _foldersHash(folders: DFolder[]): string {
+  return frontendHashString(JSON.stringify(folders));
+}
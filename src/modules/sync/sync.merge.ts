@@ -0,0 +1,46 @@
+import type { DMessage, DMessageId } from '~/common/stores/chat/chat.message';
+
+
+/** Timestamp of the last change of a message, for last-writer-wins */
+export function syncMessageStamp(message: Pick<DMessage, 'created' | 'updated'>): number {
+  return message.updated ?? message.created;
+}
+
+
+/**
+ * Merges two versions of the messages of a conversation, message by message:
+ * - the order is the one of `primary` (the version with the latest change to the conversation)
+ * - the messages only in `secondary` are kept, after the message they follow there
+ * - for messages in both, the most recently updated version wins
+ * - deleted messages are dropped, unless updated after their deletion
+ */
+export function syncMergeMessages(primary: Readonly<DMessage[]>, secondary: Readonly<DMessage[]>, deletedStamps: ReadonlyMap<DMessageId, number>): DMessage[] {
+
+  const isDeleted = (message: DMessage) => {
+    const deletedStamp = deletedStamps.get(message.id);
+    return deletedStamp !== undefined && deletedStamp >= syncMessageStamp(message);
+  };
+
+  const secondaryById = new Map(secondary.map(message => [message.id, message]));
+  const merged: DMessage[] = [];
+  for (const message of primary) {
+    const other = secondaryById.get(message.id);
+    const winner = other && syncMessageStamp(other) > syncMessageStamp(message) ? other : message;
+    if (!isDeleted(winner))
+      merged.push(winner);
+  }
+
+  // insert the messages only in secondary after their predecessor (or at the top, if none)
+  const primaryIds = new Set(primary.map(message => message.id));
+  let predecessorId: DMessageId | null = null;
+  for (const message of secondary) {
+    if (!primaryIds.has(message.id) && !isDeleted(message)) {
+      const predecessorIndex = predecessorId ? merged.findIndex(m => m.id === predecessorId) : -1;
+      merged.splice(predecessorIndex + 1, 0, message);
+    }
+    if (merged.some(m => m.id === message.id))
+      predecessorId = message.id;
+  }
+
+  return merged;
+}
@@ -0,0 +1,89 @@
+import * as React from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { Box, Checkbox, FormControl, FormHelperText, FormLabel, Typography } from '@mui/joy';
+
+import { FormSliderControl } from '~/common/components/forms/FormSliderControl';
+import { FormSwitchControl } from '~/common/components/forms/FormSwitchControl';
+
+import { CLIENT_TOOLS_MAX_STEPS_LIMIT, useClientToolsStore } from './store-module-tools';
+import { clientToolsList } from './tools.registry';
+
+
+const _styleHelperText = {
+  fontSize: 'xs',
+} as const;
+
+
+export function ClientToolsSettings() {
+
+  // external state
+  const {
+    chatToolsEnabled, setChatToolsEnabled,
+    disabledToolNames, setToolEnabled,
+    autoApproveToolNames, setToolAutoApprove,
+    defaultMaxSteps, setDefaultMaxSteps,
+  } = useClientToolsStore(useShallow(state => ({
+    chatToolsEnabled: state.chatToolsEnabled, setChatToolsEnabled: state.setChatToolsEnabled,
+    disabledToolNames: state.disabledToolNames, setToolEnabled: state.setToolEnabled,
+    autoApproveToolNames: state.autoApproveToolNames, setToolAutoApprove: state.setToolAutoApprove,
+    defaultMaxSteps: state.defaultMaxSteps, setDefaultMaxSteps: state.setDefaultMaxSteps,
+  })));
+
+  // not reactive to registry changes, but re-evaluated when the settings change
+  const tools = clientToolsList();
+
+
+  return <>
+
+    <Typography level='body-sm'>
+      Let models call tools that run in this browser during chats, such as web search or a calculator. Results are sent back to the model until it answers.
+    </Typography>
+
+    <FormSwitchControl
+      title='Chat Tools'
+      description={chatToolsEnabled ? 'Offered to models' : 'Disabled'}
+      checked={chatToolsEnabled}
+      onChange={setChatToolsEnabled}
+    />
+
+    <FormSliderControl
+      title='Max Steps'
+      description='Tool rounds per reply'
+      disabled={!chatToolsEnabled}
+      min={1} max={CLIENT_TOOLS_MAX_STEPS_LIMIT} step={1}
+      valueLabelDisplay='auto'
+      value={defaultMaxSteps}
+      onChange={setDefaultMaxSteps}
+    />
+
+    <FormLabel>Available tools:</FormLabel>
+
+    {tools.map(tool => {
+      const name = tool.fun.name;
+      const isAvailable = tool.isAvailable?.() ?? true;
+      const isEnabled = !disabledToolNames.includes(name);
+      return (
+        <FormControl key={name} disabled={!chatToolsEnabled || !isAvailable}>
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+            <Checkbox size='sm' label={tool.label} checked={isEnabled && isAvailable} onChange={(event) => setToolEnabled(name, event.target.checked)} />
+            {tool.sideEffects && (
+              <Checkbox
+                size='sm' variant='outlined'
+                label='Auto-approve'
+                disabled={!chatToolsEnabled || !isAvailable || !isEnabled}
+                checked={autoApproveToolNames.includes(name)}
+                onChange={(event) => setToolAutoApprove(name, event.target.checked)}
+              />
+            )}
+          </Box>
+          <FormHelperText sx={_styleHelperText}>
+            {isAvailable ? tool.uiDescription : `${tool.uiDescription} - not configured`}
+            {tool.sideEffects && !autoApproveToolNames.includes(name) && ' - asks before running'}
+          </FormHelperText>
+        </FormControl>
+      );
+    })}
+
+  </>;
+}
@@ -0,0 +1,107 @@
+import * as React from 'react';
+
+import { Box, Button, Divider, Typography } from '@mui/joy';
+import ConstructionIcon from '@mui/icons-material/Construction';
+
+import { GoodModal } from '~/common/components/modals/GoodModal';
+import { useLayoutOverlaysStore } from '~/common/layout/overlays/store-layout-overlays';
+
+
+export type ToolApprovalDecision = 'allow' | 'always' | 'deny';
+
+
+const _styles = {
+  args: {
+    fontFamily: 'code',
+    fontSize: 'sm',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+    maxHeight: '40vh',
+    overflow: 'auto',
+    p: 1.5,
+    borderRadius: 'sm',
+    backgroundColor: 'background.level1',
+  } as const,
+} as const;
+
+
+function ToolApprovalModal(props: {
+  toolLabel: string,
+  functionName: string,
+  argsJson: string,
+  onDecision: (decision: ToolApprovalDecision) => void,
+}) {
+
+  const { onDecision } = props;
+
+  // pretty-print the arguments, if they are valid JSON
+  const prettyArgs = React.useMemo(() => {
+    try {
+      return JSON.stringify(JSON.parse(props.argsJson || '{}'), null, 2);
+    } catch {
+      return props.argsJson;
+    }
+  }, [props.argsJson]);
+
+  return (
+    <GoodModal
+      open
+      title={`Allow ${props.toolLabel}?`}
+      titleStartDecorator={<ConstructionIcon />}
+      onClose={() => onDecision('deny')}
+      disableBackdropClose
+      hideBottomClose
+    >
+      <Divider />
+
+      <Typography level='body-sm'>
+        The model wants to call <Box component='span' sx={{ fontFamily: 'code' }}>{props.functionName}</Box> with:
+      </Typography>
+
+      <Box sx={_styles.args}>{prettyArgs}</Box>
+
+      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+        <Button autoFocus variant='plain' color='neutral' onClick={() => onDecision('deny')}>
+          Deny
+        </Button>
+        <Button variant='soft' color='primary' onClick={() => onDecision('always')}>
+          Always Allow
+        </Button>
+        <Button variant='solid' color='primary' onClick={() => onDecision('allow')}>
+          Allow Once
+        </Button>
+      </Box>
+    </GoodModal>
+  );
+}
+
+
+// serializes approvals: one modal at a time, even with parallel calls or multiple chat panes
+let _approvalQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Asks the user to approve a tool call. Usable outside of React, as it injects the modal in the global overlays.
+ * Resolves to 'deny' if the operation is aborted while waiting.
+ */
+export function clientToolRequestApproval(toolLabel: string, functionName: string, argsJson: string, abortSignal: AbortSignal): Promise<ToolApprovalDecision> {
+  const decision = _approvalQueue.then(() => new Promise<ToolApprovalDecision>((resolve) => {
+    if (abortSignal.aborted)
+      return resolve('deny');
+
+    const { appendOverlay, removeOverlay } = useLayoutOverlaysStore.getState();
+
+    const handleDecision = (decision: ToolApprovalDecision) => {
+      abortSignal.removeEventListener('abort', handleAbort);
+      removeOverlay('chat-tool-approval');
+      resolve(decision);
+    };
+    const handleAbort = () => handleDecision('deny');
+    abortSignal.addEventListener('abort', handleAbort);
+
+    appendOverlay('chat-tool-approval', (
+      <ToolApprovalModal toolLabel={toolLabel} functionName={functionName} argsJson={argsJson} onDecision={handleDecision} />
+    ));
+  }));
+  _approvalQueue = decision;
+  return decision;
+}
@@ -0,0 +1,66 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+import type { ClientToolName } from './tools.types';
+
+
+// configuration
+export const CLIENT_TOOLS_DEFAULT_MAX_STEPS = 5;
+export const CLIENT_TOOLS_MAX_STEPS_LIMIT = 20;
+
+
+interface ModuleClientToolsStore {
+
+  // Chat function tools
+
+  chatToolsEnabled: boolean;
+  setChatToolsEnabled: (chatToolsEnabled: boolean) => void;
+
+  // tools are on by default, this lists the ones the user turned off
+  disabledToolNames: ClientToolName[];
+  setToolEnabled: (toolName: ClientToolName, enabled: boolean) => void;
+
+  // side-effecting tools that the user allowed to run without asking
+  autoApproveToolNames: ClientToolName[];
+  setToolAutoApprove: (toolName: ClientToolName, autoApprove: boolean) => void;
+
+  // maximum number of tool round-trips per assistant reply, unless overridden by the conversation
+  defaultMaxSteps: number;
+  setDefaultMaxSteps: (defaultMaxSteps: number) => void;
+
+}
+
+export const useClientToolsStore = create<ModuleClientToolsStore>()(
+  persist(
+    (set) => ({
+
+      chatToolsEnabled: false,
+      setChatToolsEnabled: (chatToolsEnabled: boolean) => set({ chatToolsEnabled }),
+
+      disabledToolNames: [],
+      setToolEnabled: (toolName: ClientToolName, enabled: boolean) => set(({ disabledToolNames }) => ({
+        disabledToolNames: enabled
+          ? disabledToolNames.filter(name => name !== toolName)
+          : disabledToolNames.includes(toolName) ? disabledToolNames : [...disabledToolNames, toolName],
+      })),
+
+      autoApproveToolNames: [],
+      setToolAutoApprove: (toolName: ClientToolName, autoApprove: boolean) => set(({ autoApproveToolNames }) => ({
+        autoApproveToolNames: !autoApprove
+          ? autoApproveToolNames.filter(name => name !== toolName)
+          : autoApproveToolNames.includes(toolName) ? autoApproveToolNames : [...autoApproveToolNames, toolName],
+      })),
+
+      defaultMaxSteps: CLIENT_TOOLS_DEFAULT_MAX_STEPS,
+      setDefaultMaxSteps: (defaultMaxSteps: number) => set({ defaultMaxSteps: clampClientToolsMaxSteps(defaultMaxSteps) }),
+
+    }),
+    {
+      name: 'app-module-tools',
+    }),
+);
+
+
+export function clampClientToolsMaxSteps(steps: number): number {
+  return Math.max(1, Math.min(CLIENT_TOOLS_MAX_STEPS_LIMIT, Math.round(steps) || CLIENT_TOOLS_DEFAULT_MAX_STEPS));
+}
@@ -0,0 +1,155 @@
+import * as z from 'zod/v4';
+
+import { callApiSearchGoogle, isGoogleSearchConfigured } from '~/modules/google/search.client';
+import { callBrowseFetchPageOrThrow } from '~/modules/browse/browse.client';
+import { getBrowseMayWork } from '~/modules/browse/store-module-browsing';
+
+import { frontendSideFetch } from '~/common/util/clientFetchers';
+
+import type { ClientToolDefinition } from './tools.types';
+import { calculatorEvaluateOrThrow } from './tools.calculator';
+
+
+// configuration
+const WEB_SEARCH_MAX_RESULTS = 10;
+const WEB_PAGE_MAX_CHARS = 48_000;
+const WIKIPEDIA_MAX_RESULTS = 5;
+
+
+const webSearchTool: ClientToolDefinition = {
+  fun: {
+    name: 'web_search',
+    description: 'Searches the web with Google and returns the top results (title, link and snippet). Use for recent events, facts you are unsure of, or to find pages to read with fetch_web_page.',
+    inputSchema: z.object({
+      query: z.string().describe('The search query, as you would type it in a search engine'),
+      num_results: z.number().describe(`Number of results to return, 1 to ${WEB_SEARCH_MAX_RESULTS}. Defaults to 5.`).optional(),
+    }),
+  },
+  label: 'Web Search',
+  uiDescription: 'Google Programmable Search',
+  origin: 'builtin',
+  sideEffects: false,
+  isAvailable: isGoogleSearchConfigured,
+  execute: async ({ query, num_results }) => {
+    if (!query || typeof query !== 'string')
+      throw new Error('Missing query');
+    const items = Math.max(1, Math.min(WEB_SEARCH_MAX_RESULTS, Number(num_results) || 5));
+    const { pages } = await callApiSearchGoogle(query, items);
+    return { results: pages };
+  },
+};
+
+
+const fetchWebPageTool: ClientToolDefinition = {
+  fun: {
+    name: 'fetch_web_page',
+    description: 'Loads a web page and returns its content as text. Use to read pages from search results or links given by the user.',
+    inputSchema: z.object({
+      url: z.string().describe('The full URL of the page, e.g. https://example.com/page'),
+    }),
+  },
+  label: 'Fetch Web Page',
+  uiDescription: 'Loads pages through the Browsing service',
+  origin: 'builtin',
+  sideEffects: true, // reaches out to arbitrary URLs chosen by the model
+  isAvailable: getBrowseMayWork,
+  execute: async ({ url }) => {
+    if (!url || typeof url !== 'string')
+      throw new Error('Missing url');
+    const page = await callBrowseFetchPageOrThrow(url);
+    if (!page.content)
+      throw new Error(page.file ? `The URL points to a file, but only web pages are supported: ${page.url}` : 'No content received');
+    const text = page.content.markdown || page.content.text || page.content.html || '';
+    if (!text)
+      throw new Error('Could not read the page content');
+    return {
+      url: page.url,
+      ...(page.title && { title: page.title }),
+      content: text.length > WEB_PAGE_MAX_CHARS ? text.slice(0, WEB_PAGE_MAX_CHARS) + '\n[...truncated]' : text,
+    };
+  },
+};
+
+
+const wikipediaSearchTool: ClientToolDefinition = {
+  fun: {
+    name: 'wikipedia_search',
+    description: 'Searches the English Wikipedia and returns the best matching articles with a short snippet each. Use when the user asks to look something up on Wikipedia, or for encyclopedic background.',
+    inputSchema: z.object({
+      query: z.string().describe('The topic to search for, e.g. Django (web framework)'),
+    }),
+  },
+  label: 'Wikipedia',
+  uiDescription: 'Searches English Wikipedia articles',
+  origin: 'builtin',
+  sideEffects: false,
+  execute: async ({ query }) => {
+    if (!query || typeof query !== 'string')
+      throw new Error('Missing query');
+    const response = await frontendSideFetch(
+      `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&srlimit=${WIKIPEDIA_MAX_RESULTS}&format=json&origin=*`,
+    );
+    if (!response.ok)
+      throw new Error(`Wikipedia error: ${response.status}`);
+    const data = await response.json();
+    const results: { title?: string, snippet?: string }[] = data?.query?.search ?? [];
+    return {
+      results: results.map(({ title, snippet }) => ({
+        title,
+        url: `https://en.wikipedia.org/wiki/${encodeURIComponent((title || '').replaceAll(' ', '_'))}`,
+        // snippets come with search-match <span> highlights
+        snippet: (snippet || '').replace(/<[^>]+>/g, ''),
+      })),
+    };
+  },
+};
+
+
+const calculatorTool: ClientToolDefinition = {
+  fun: {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, the constants pi and e, and the functions abs, sqrt, cbrt, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan, atan2, floor, ceil, round, trunc, pow, min, max.',
+    inputSchema: z.object({
+      expression: z.string().describe('The expression to evaluate, e.g. (1.5 + 2) * sqrt(16) / 3'),
+    }),
+  },
+  label: 'Calculator',
+  uiDescription: 'Sandboxed arithmetic, no code execution',
+  origin: 'builtin',
+  sideEffects: false,
+  execute: async ({ expression }) => ({
+    expression,
+    result: calculatorEvaluateOrThrow(expression),
+  }),
+};
+
+
+const currentTimeTool: ClientToolDefinition = {
+  fun: {
+    name: 'get_current_time',
+    description: 'Returns the current date and time of the user, with their time zone.',
+    inputSchema: z.object({}),
+  },
+  label: 'Current Time',
+  uiDescription: 'Date, time and time zone of this device',
+  origin: 'builtin',
+  sideEffects: false,
+  execute: async () => {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'long' }),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'unknown',
+      unix_ms: now.getTime(),
+    };
+  },
+};
+
+
+export const CLIENT_TOOLS_BUILTINS: ClientToolDefinition[] = [
+  webSearchTool,
+  fetchWebPageTool,
+  wikipediaSearchTool,
+  calculatorTool,
+  currentTimeTool,
+];
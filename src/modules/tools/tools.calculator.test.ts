@@ -0,0 +1,38 @@
+/// <reference types="node" />
+
+// Tests for the sandboxed calculator: arithmetic, and the rejection of anything else.
+//
+// Run:
+// - `npx tsx --test src/modules/tools/tools.calculator.test.ts`
+
+import { describe, test } from 'node:test';
+import { strictEqual, throws } from 'node:assert/strict';
+
+import { calculatorEvaluateOrThrow } from './tools.calculator';
+
+
+describe('calculatorEvaluateOrThrow', () => {
+
+  test('precedence, right-associative powers, functions and constants', () => {
+    strictEqual(calculatorEvaluateOrThrow('1 + 2 * 3'), 7);
+    strictEqual(calculatorEvaluateOrThrow('2 ^ 3 ^ 2'), 512);
+    strictEqual(calculatorEvaluateOrThrow('-(2 + 3) % 4'), -1);
+    strictEqual(calculatorEvaluateOrThrow('sqrt(16) + abs(-2)'), 6);
+    strictEqual(calculatorEvaluateOrThrow('2 * pi'), calculatorEvaluateOrThrow('tau'));
+  });
+
+  test('inherited object members are unknown identifiers', () => {
+    // identifiers are lowercased, so 'constructor' is the one member of Object.prototype they can name
+    throws(() => calculatorEvaluateOrThrow('constructor(1)'), /Unknown function 'constructor'/);
+    throws(() => calculatorEvaluateOrThrow('constructor'), /Unknown identifier 'constructor'/);
+    throws(() => calculatorEvaluateOrThrow('toString()'), /Unknown function 'tostring'/);
+  });
+
+  test('errors', () => {
+    throws(() => calculatorEvaluateOrThrow(' '), /Empty expression/);
+    throws(() => calculatorEvaluateOrThrow('1 / 0'), /infinite/);
+    throws(() => calculatorEvaluateOrThrow('sqrt(1, 2)'), /expects 1 argument/);
+    throws(() => calculatorEvaluateOrThrow('1 +'), /Unexpected end/);
+  });
+
+});
@@ -0,0 +1,254 @@
+/**
+ * Sandboxed arithmetic evaluator for the 'calculator' tool.
+ *
+ * This is a small recursive-descent parser, NOT `eval` or `Function`: only numbers, the operators
+ * below, parentheses, and a fixed set of constants and Math functions are understood - anything
+ * else is a syntax error. This is what makes it safe to run model-generated expressions.
+ *
+ * Grammar (lowest to highest precedence):
+ *   expr    := term (('+' | '-') term)*
+ *   term    := unary (('*' | '/' | '%') unary)*
+ *   unary   := ('+' | '-') unary | power
+ *   power   := primary (('^' | '**') unary)?      -- right-associative
+ *   primary := number | constant | func '(' args ')' | '(' expr ')'
+ */
+
+// configuration
+const MAX_EXPRESSION_LENGTH = 1000;
+const MAX_NESTING_DEPTH = 64;
+
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI,
+};
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic', fn: (...args: number[]) => number }> = {
+  abs: { arity: 1, fn: Math.abs },
+  sqrt: { arity: 1, fn: Math.sqrt },
+  cbrt: { arity: 1, fn: Math.cbrt },
+  exp: { arity: 1, fn: Math.exp },
+  ln: { arity: 1, fn: Math.log },
+  log: { arity: 1, fn: Math.log10 },
+  log2: { arity: 1, fn: Math.log2 },
+  sin: { arity: 1, fn: Math.sin },
+  cos: { arity: 1, fn: Math.cos },
+  tan: { arity: 1, fn: Math.tan },
+  asin: { arity: 1, fn: Math.asin },
+  acos: { arity: 1, fn: Math.acos },
+  atan: { arity: 1, fn: Math.atan },
+  floor: { arity: 1, fn: Math.floor },
+  ceil: { arity: 1, fn: Math.ceil },
+  round: { arity: 1, fn: Math.round },
+  trunc: { arity: 1, fn: Math.trunc },
+  pow: { arity: 2, fn: Math.pow },
+  atan2: { arity: 2, fn: Math.atan2 },
+  min: { arity: 'variadic', fn: Math.min },
+  max: { arity: 'variadic', fn: Math.max },
+};
+
+
+type Token =
+  | { t: 'num', v: number }
+  | { t: 'id', v: string }
+  | { t: 'op', v: '+' | '-' | '*' | '/' | '%' | '^' | '(' | ')' | ',' };
+
+
+function _tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+
+    // whitespace
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    // numbers: 12, 1.5, .5, 1e-3 (no thousands separators: ',' separates function arguments)
+    if (/[0-9.]/.test(c)) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(input.slice(i));
+      if (!match)
+        throw new Error(`Invalid number at position ${i}`);
+      tokens.push({ t: 'num', v: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    // identifiers: constants and functions
+    if (/[a-zA-Z]/.test(c)) {
+      const match = /^[a-zA-Z][a-zA-Z0-9]*/.exec(input.slice(i))!;
+      tokens.push({ t: 'id', v: match[0].toLowerCase() });
+      i += match[0].length;
+      continue;
+    }
+
+    // '**' is an alias of '^'
+    if (c === '*' && input[i + 1] === '*') {
+      tokens.push({ t: 'op', v: '^' });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/%^(),'.includes(c)) {
+      tokens.push({ t: 'op', v: c as Extract<Token, { t: 'op' }>['v'] });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character '${c}' at position ${i}`);
+  }
+  return tokens;
+}
+
+
+class _Parser {
+  private pos = 0;
+  private depth = 0;
+
+  constructor(private readonly tokens: Token[]) {
+  }
+
+  parse(): number {
+    const value = this.expr();
+    if (this.pos < this.tokens.length)
+      throw new Error('Unexpected input after the end of the expression');
+    return value;
+  }
+
+  private peekOp(...ops: string[]): string | null {
+    const token = this.tokens[this.pos];
+    return (token?.t === 'op' && ops.includes(token.v)) ? token.v : null;
+  }
+
+  private expectOp(op: string) {
+    if (!this.peekOp(op))
+      throw new Error(`Expected '${op}'`);
+    this.pos++;
+  }
+
+  private enter() {
+    if (++this.depth > MAX_NESTING_DEPTH)
+      throw new Error('Expression is too deeply nested');
+  }
+
+  private expr(): number {
+    let value = this.term();
+    let op: string | null;
+    while ((op = this.peekOp('+', '-'))) {
+      this.pos++;
+      const rhs = this.term();
+      value = op === '+' ? value + rhs : value - rhs;
+    }
+    return value;
+  }
+
+  private term(): number {
+    let value = this.unary();
+    let op: string | null;
+    while ((op = this.peekOp('*', '/', '%'))) {
+      this.pos++;
+      const rhs = this.unary();
+      value = op === '*' ? value * rhs : op === '/' ? value / rhs : value % rhs;
+    }
+    return value;
+  }
+
+  private unary(): number {
+    const op = this.peekOp('+', '-');
+    if (op) {
+      this.pos++;
+      this.enter();
+      const value = this.unary();
+      this.depth--;
+      return op === '-' ? -value : value;
+    }
+    return this.power();
+  }
+
+  private power(): number {
+    const base = this.primary();
+    if (this.peekOp('^')) {
+      this.pos++;
+      this.enter();
+      const exponent = this.unary(); // right-associative, and allows 2^-1
+      this.depth--;
+      return Math.pow(base, exponent);
+    }
+    return base;
+  }
+
+  private primary(): number {
+    const token = this.tokens[this.pos];
+    if (!token)
+      throw new Error('Unexpected end of the expression');
+
+    if (token.t === 'num') {
+      this.pos++;
+      return token.v;
+    }
+
+    if (token.t === 'id') {
+      this.pos++;
+
+      // function call
+      if (this.peekOp('(')) {
+        const func = Object.hasOwn(FUNCTIONS, token.v) ? FUNCTIONS[token.v] : undefined;
+        if (!func)
+          throw new Error(`Unknown function '${token.v}'`);
+        this.pos++;
+        this.enter();
+        const args: number[] = [];
+        if (!this.peekOp(')')) {
+          args.push(this.expr());
+          while (this.peekOp(',')) {
+            this.pos++;
+            args.push(this.expr());
+          }
+        }
+        this.expectOp(')');
+        this.depth--;
+        if (func.arity !== 'variadic' && args.length !== func.arity)
+          throw new Error(`Function '${token.v}' expects ${func.arity} argument(s), got ${args.length}`);
+        if (func.arity === 'variadic' && !args.length)
+          throw new Error(`Function '${token.v}' expects at least one argument`);
+        return func.fn(...args);
+      }
+
+      // constant
+      if (Object.hasOwn(CONSTANTS, token.v))
+        return CONSTANTS[token.v];
+      throw new Error(`Unknown identifier '${token.v}'`);
+    }
+
+    if (token.v === '(') {
+      this.pos++;
+      this.enter();
+      const value = this.expr();
+      this.expectOp(')');
+      this.depth--;
+      return value;
+    }
+
+    throw new Error(`Unexpected '${token.v}'`);
+  }
+}
+
+
+/**
+ * Evaluates an arithmetic expression without executing any code.
+ * @throws Error on syntax errors, unknown identifiers, or non-finite results
+ */
+export function calculatorEvaluateOrThrow(expression: string): number {
+  if (!expression?.trim())
+    throw new Error('Empty expression');
+  if (expression.length > MAX_EXPRESSION_LENGTH)
+    throw new Error(`Expression too long (max ${MAX_EXPRESSION_LENGTH} characters)`);
+
+  const result = new _Parser(_tokenize(expression)).parse();
+  if (!Number.isFinite(result))
+    throw new Error(Number.isNaN(result) ? 'The result is not a number' : 'The result is infinite');
+  return result;
+}
@@ -0,0 +1,92 @@
+import { create_FunctionCallResponse_ContentFragment, DMessageContentFragment, DMessageFragment, DMessageToolInvocationPart, isContentFragment, isToolInvocationPart, isToolResponsePart } from '~/common/stores/chat/chat.fragments';
+
+import type { ClientToolExecutionContext } from './tools.types';
+import { clientToolFind } from './tools.registry';
+import { clientToolRequestApproval } from './ToolApprovalModal';
+import { useClientToolsStore } from './store-module-tools';
+
+
+type _FunctionCallInvocation = DMessageToolInvocationPart & { invocation: { type: 'function_call' } };
+
+
+/**
+ * Function calls in the fragments that don't have a response yet - i.e. the model is waiting on us.
+ * Upstream-executed tools (e.g. code execution) come with their own response, so they are never pending.
+ */
+export function clientToolsFindPendingInvocations(fragments: Readonly<DMessageFragment[]>): _FunctionCallInvocation[] {
+  const contentParts = fragments.filter(isContentFragment).map(f => f.part);
+  const respondedIds = new Set(contentParts.filter(isToolResponsePart).map(p => p.id));
+  return contentParts.filter((p): p is _FunctionCallInvocation =>
+    isToolInvocationPart(p) && p.invocation.type === 'function_call' && !respondedIds.has(p.id),
+  );
+}
+
+
+/**
+ * Executes function calls sequentially, asking for the user approval when needed, and returns
+ * one `tool_response` fragment per invocation. Never throws: failures become error responses
+ * that are sent back to the model, so it can recover (e.g. retry with different arguments).
+ */
+export async function clientToolsExecuteInvocations(
+  invocations: _FunctionCallInvocation[],
+  context: ClientToolExecutionContext,
+  onToolStart?: (functionName: string) => void,
+): Promise<DMessageContentFragment[]> {
+  const responses: DMessageContentFragment[] = [];
+  for (const { id, invocation } of invocations) {
+    const { name } = invocation;
+
+    // once aborted, answer all the remaining calls, to keep the invocation/response pairing valid
+    if (context.abortSignal.aborted) {
+      responses.push(_errorResponse(id, name, 'The user stopped the operation.'));
+      continue;
+    }
+
+    const tool = clientToolFind(name);
+    if (!tool) {
+      responses.push(_errorResponse(id, name, `Unknown tool '${name}'.`));
+      continue;
+    }
+
+    // validate the arguments
+    let args: Record<string, any>;
+    try {
+      args = invocation.args ? JSON.parse(invocation.args) : {};
+    } catch {
+      responses.push(_errorResponse(id, name, 'The arguments are not valid JSON.'));
+      continue;
+    }
+    const parsedArgs = tool.fun.inputSchema.safeParse(args);
+    if (!parsedArgs.success) {
+      responses.push(_errorResponse(id, name, `Invalid arguments: ${parsedArgs.error.issues.map(i => `${i.path.join('.') || 'input'}: ${i.message}`).join('; ')}`));
+      continue;
+    }
+
+    // user approval gate
+    if (tool.sideEffects && !useClientToolsStore.getState().autoApproveToolNames.includes(name)) {
+      const decision = await clientToolRequestApproval(tool.label, name, invocation.args, context.abortSignal);
+      if (decision === 'always')
+        useClientToolsStore.getState().setToolAutoApprove(name, true);
+      else if (decision === 'deny') {
+        responses.push(_errorResponse(id, name, 'The user denied this tool call.'));
+        continue;
+      }
+    }
+
+    // execute
+    onToolStart?.(name);
+    try {
+      const result = await tool.execute(parsedArgs.data as Record<string, any>, context);
+      responses.push(create_FunctionCallResponse_ContentFragment(id, false, name, JSON.stringify(result), 'client'));
+    } catch (error: any) {
+      responses.push(_errorResponse(id, name, error?.message || error?.toString() || 'Unknown error'));
+    }
+  }
+  return responses;
+}
+
+
+function _errorResponse(id: string, functionName: string, errorMessage: string): DMessageContentFragment {
+  // NOTE: the result is still a JSON object, as required by the AIX validation of tool responses
+  return create_FunctionCallResponse_ContentFragment(id, errorMessage, functionName, JSON.stringify({ error: errorMessage }), 'client');
+}
@@ -0,0 +1,136 @@
+import type { AixAPI_Context_ChatGenerate, AixAPI_Model } from '~/modules/aix/server/api/aix.wiretypes';
+import { aixChatGenerateContent_DMessage_FromConversation, AixChatGenerateContent_DMessageGuts, AixChatGenerateContent_FromConversation_Result } from '~/modules/aix/client/aix.client';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DModelDomainId } from '~/common/stores/llms/model.domains.types';
+import type { DModelParameterValues } from '~/common/stores/llms/llms.parameters';
+import type { DLLMId } from '~/common/stores/llms/llms.types';
+import { create_FunctionCallResponse_ContentFragment, createPlaceholderVoidFragment } from '~/common/stores/chat/chat.fragments';
+import { createDMessageFromFragments, DMessage, DMessageGenerator } from '~/common/stores/chat/chat.message';
+
+import type { ClientToolDefinition } from './tools.types';
+import { clientToolFind, clientToolsToAixTools } from './tools.registry';
+import { clientToolsExecuteInvocations, clientToolsFindPendingInvocations } from './tools.execute';
+
+
+/**
+ * Generates an assistant message, executing the client tools the model calls, until it replies
+ * without calling any or `maxSteps` generations are done.
+ *
+ * All the steps accumulate in the same message: [invocations, responses]* + final reply, so the
+ * trace is persisted with the message. `onUpdate` receives the whole message so far, and `isDone`
+ * only once at the end. Without tools, this is a plain L3 generation.
+ */
+export async function clientToolsGenerateContentWithLoop(
+  llmId: DLLMId,
+  chatSystemInstruction: null | Pick<DMessage, 'fragments' | 'metadata' | 'userFlags'>,
+  chatHistory: Readonly<DMessage[]>,
+  aixContextName: AixAPI_Context_ChatGenerate['name'],
+  aixContextRef: AixAPI_Context_ChatGenerate['ref'],
+  tools: ClientToolDefinition[],
+  maxSteps: number,
+  options: {
+    abortSignal: AbortSignal,
+    throttleParallelThreads?: number,
+    conversationId: DConversationId | null,
+    fallbackDomainId?: DModelDomainId,
+    strictJsonOutput?: AixAPI_Model['strictJsonOutput'],
+    llmOptionsOverride?: Omit<DModelParameterValues, 'llmRef'>,
+  },
+  onUpdate: (update: AixChatGenerateContent_DMessageGuts, isDone: boolean) => void,
+): Promise<AixChatGenerateContent_FromConversation_Result> {
+
+  const { abortSignal, throttleParallelThreads, conversationId, fallbackDomainId, strictJsonOutput, llmOptionsOverride } = options;
+  const aixTools = tools.length ? clientToolsToAixTools(tools) : undefined;
+
+  // fragments of the previous steps: invocations and their responses
+  let stepsFragments: AixChatGenerateContent_DMessageGuts['fragments'] = [];
+  let lastUpdateWasDone = false;
+
+  // after a failover, the next steps continue with the model that answered, and keep the note
+  let stepLlmId = llmId;
+  let failoverFrom: DMessageGenerator['failoverFrom'];
+  const withFailover = (update: AixChatGenerateContent_DMessageGuts): AixChatGenerateContent_DMessageGuts =>
+    !failoverFrom || update.generator.failoverFrom ? update : { ...update, generator: { ...update.generator, failoverFrom } };
+
+  const emit = (update: AixChatGenerateContent_DMessageGuts, isDone: boolean) => {
+    lastUpdateWasDone = isDone;
+    onUpdate(update, isDone);
+  };
+
+  let result: AixChatGenerateContent_FromConversation_Result;
+  for (let step = 0; ; step++) {
+
+    // the message so far is part of the history of the next step, so the model sees the tool responses
+    const priorFragments = stepsFragments;
+    const stepHistory = !priorFragments.length ? chatHistory
+      : [...chatHistory, createDMessageFromFragments('assistant', priorFragments)];
+
+    result = await aixChatGenerateContent_DMessage_FromConversation(
+      stepLlmId,
+      chatSystemInstruction,
+      stepHistory,
+      aixContextName,
+      aixContextRef,
+      {
+        abortSignal,
+        throttleParallelThreads,
+        ...(fallbackDomainId && { fallbackDomainId }),
+        ...(strictJsonOutput && { strictJsonOutput }),
+        ...(llmOptionsOverride && { llmOptionsOverride }),
+        ...(aixTools && { tools: aixTools, toolsPolicy: { type: 'auto' } }),
+      },
+      (update: AixChatGenerateContent_DMessageGuts, isDone: boolean) => {
+        // not done if the model is waiting for tool results - we'll know for sure after the call
+        const mayContinue = isDone && !!aixTools && clientToolsFindPendingInvocations(update.fragments).length > 0;
+        emit(withFailover(!priorFragments.length ? update : { ...update, fragments: [...priorFragments, ...update.fragments] }), isDone && !mayContinue);
+      },
+    );
+    result = { ...result, lastDMessage: withFailover(result.lastDMessage) };
+
+    const stepGenerator = result.lastDMessage.generator;
+    if (stepGenerator?.mgt === 'aix' && stepGenerator.failoverFrom?.length) {
+      stepLlmId = stepGenerator.aix.mId;
+      failoverFrom = stepGenerator.failoverFrom;
+    }
+
+    const stepFragments = result.lastDMessage.fragments;
+    stepsFragments = [...priorFragments, ...stepFragments];
+    if (priorFragments.length)
+      result = { ...result, lastDMessage: { ...result.lastDMessage, fragments: stepsFragments } };
+
+    // done, unless the model is waiting for the results of function calls
+    const pendingInvocations = !aixTools || result.outcome !== 'completed' ? [] : clientToolsFindPendingInvocations(stepFragments);
+    if (!pendingInvocations.length)
+      break;
+
+    // step limit: answer the calls with errors, to keep the history valid, and stop here
+    if (step + 1 >= maxSteps) {
+      const limitMessage = `Tool step limit reached (${maxSteps}). Not executed.`;
+      stepsFragments = [...stepsFragments, ...pendingInvocations.map(({ id, invocation }) =>
+        create_FunctionCallResponse_ContentFragment(id, limitMessage, invocation.name, JSON.stringify({ error: limitMessage }), 'client'),
+      )];
+      result = { ...result, lastDMessage: { ...result.lastDMessage, fragments: stepsFragments } };
+      break;
+    }
+
+    // execute the calls, showing progress in a trailing placeholder
+    const stepMessage = result.lastDMessage;
+    const toolResponses = await clientToolsExecuteInvocations(pendingInvocations, { conversationId, abortSignal }, (functionName) => {
+      const toolLabel = clientToolFind(functionName)?.label || functionName;
+      emit({ ...stepMessage, fragments: [...stepsFragments, createPlaceholderVoidFragment(`Running ${toolLabel}...`)], pendingIncomplete: true }, false);
+    });
+    stepsFragments = [...stepsFragments, ...toolResponses];
+    result = { ...result, lastDMessage: { ...result.lastDMessage, fragments: stepsFragments } };
+    emit({ ...result.lastDMessage, pendingIncomplete: true }, false);
+
+    if (abortSignal.aborted)
+      break;
+  }
+
+  // final notification, if held back (e.g. step limit, abort during tools)
+  if (!lastUpdateWasDone)
+    emit({ ...result.lastDMessage, pendingIncomplete: false }, true);
+
+  return result;
+}
@@ -0,0 +1,50 @@
+import type { AixTools_ToolDefinition } from '~/modules/aix/server/api/aix.wiretypes';
+import { aixFunctionCallTool } from '~/modules/aix/client/aix.client.fromSimpleFunction';
+
+import type { ClientToolDefinition, ClientToolName } from './tools.types';
+import { CLIENT_TOOLS_BUILTINS } from './tools.builtins';
+import { useClientToolsStore } from './store-module-tools';
+
+
+// all the known client tools, by function name
+const _clientTools = new Map<ClientToolName, ClientToolDefinition>(
+  CLIENT_TOOLS_BUILTINS.map(tool => [tool.fun.name, tool]),
+);
+
+
+export function clientToolsRegister(tools: ClientToolDefinition[]): void {
+  for (const tool of tools) {
+    if (_clientTools.has(tool.fun.name))
+      console.warn(`[DEV] clientToolsRegister: replacing tool '${tool.fun.name}'`);
+    _clientTools.set(tool.fun.name, tool);
+  }
+}
+
+export function clientToolsUnregister(toolNames: ClientToolName[]): void {
+  for (const name of toolNames)
+    _clientTools.delete(name);
+}
+
+export function clientToolsList(): ClientToolDefinition[] {
+  return Array.from(_clientTools.values());
+}
+
+export function clientToolFind(toolName: ClientToolName): ClientToolDefinition | undefined {
+  return _clientTools.get(toolName);
+}
+
+
+/**
+ * The tools to offer to the model in a chat turn: none if the feature is off, otherwise
+ * the ones not disabled by the user and available in the current configuration.
+ */
+export function clientToolsForChat(): ClientToolDefinition[] {
+  const { chatToolsEnabled, disabledToolNames } = useClientToolsStore.getState();
+  if (!chatToolsEnabled)
+    return [];
+  return clientToolsList().filter(tool => !disabledToolNames.includes(tool.fun.name) && (tool.isAvailable?.() ?? true));
+}
+
+export function clientToolsToAixTools(tools: ClientToolDefinition[]): AixTools_ToolDefinition[] {
+  return tools.map(tool => tool.wireDefinition ?? aixFunctionCallTool(tool.fun));
+}
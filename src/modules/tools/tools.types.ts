@@ -0,0 +1,46 @@
+import type { AixClientFunctionCallToolDefinition } from '~/modules/aix/client/aix.client.fromSimpleFunction';
+import type { AixTools_FunctionCallDefinition } from '~/modules/aix/server/api/aix.wiretypes';
+
+import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+
+
+/**
+ * A function tool that runs on the client (browser), as opposed to upstream-hosted tools (e.g. native
+ * web search) or server-side tools. The model emits a function call, we execute it here and send back
+ * the result as a `tool_response`.
+ */
+export interface ClientToolDefinition {
+  /** Function definition sent to the model; `fun.name` is also the unique id of the tool */
+  fun: AixClientFunctionCallToolDefinition;
+
+  /** Ready-made wire definition, for tools described by JSON Schema (e.g. MCP); when set, `fun.inputSchema` is only used to validate */
+  wireDefinition?: AixTools_FunctionCallDefinition;
+
+  // UI
+  label: string;
+  uiDescription: string;
+
+  /** Where the tool comes from - 'builtin' tools ship with the app, 'mcp' tools are listed by the user's MCP servers */
+  origin: 'builtin' | 'mcp';
+
+  /** Side-effecting tools (e.g. reaching out to arbitrary URLs) are gated by a user approval, unless auto-approved */
+  sideEffects: boolean;
+
+  /** Returns false if the tool can't work in the current configuration (e.g. missing keys) */
+  isAvailable?: () => boolean;
+
+  /**
+   * Runs the tool. Must return a JSON object (not an array or primitive), as some upstream
+   * APIs (e.g. Gemini) only accept objects as function responses.
+   * @throws Error with a user/model-readable message, which becomes an error response
+   */
+  execute: (args: Record<string, any>, context: ClientToolExecutionContext) => Promise<object>;
+}
+
+export type ClientToolName = ClientToolDefinition['fun']['name'];
+
+
+export interface ClientToolExecutionContext {
+  conversationId: DConversationId | null;
+  abortSignal: AbortSignal;
+}
@@ -1,28 +1,40 @@
 import * as React from 'react';
 
-import { Box, Button, Grid, Typography } from '@mui/joy';
+import { Box, Button, Grid, ToggleButtonGroup, Typography } from '@mui/joy';
 import DoneIcon from '@mui/icons-material/Done';
 import FileDownloadOutlinedIcon from '@mui/icons-material/FileDownloadOutlined';
 
 import { getBackendCapabilities } from '~/modules/backend/store-backend-capabilities';
 
-import type { DConversationId } from '~/common/stores/chat/chat.conversation';
+import type { DMessageId } from '~/common/stores/chat/chat.message';
+import { conversationTitle, DConversation, DConversationId } from '~/common/stores/chat/chat.conversation';
 import { GoodTooltip } from '~/common/components/GoodTooltip';
 import { KeyStroke } from '~/common/components/KeyStroke';
 import { getConversation } from '~/common/stores/chat/store-chats';
 import { humanReadableBytes } from '~/common/util/textUtils';
+import { useFolderStore } from '~/common/stores/folders/store-chat-folders';
 
 import { ChatLinkExport } from './link/ChatLinkExport';
 import { FlashBackup } from './BackupRestore';
-import { downloadAllJsonV1B, downloadSingleChat } from './trade.client';
+import { downloadAllJsonV1B, downloadChatsDocument, downloadSingleChat } from './trade.client';
 
 
 export type ExportConfig = {
   dir: 'export',
   conversationId: DConversationId | null,
   exportAll: boolean,
+  messageIds?: DMessageId[], // a selection of messages of the conversation, for the document export
 };
 
+type DocumentScope = 'chat' | 'folder' | 'selection';
+type DocumentFormat = 'html' | 'pdf' | 'docx';
+
+const documentFormats: { format: DocumentFormat, label: string }[] = [
+  { format: 'html', label: 'Export · HTML' },
+  { format: 'pdf', label: 'Print · PDF' },
+  { format: 'docx', label: 'Export · Word' },
+];
+
 
 /**
  * Export Buttons and functionality
@@ -35,12 +47,17 @@ export function ExportChats(props: { config: ExportConfig, onClose: () => void }
   const [downloadedAllState, setDownloadedAllState] = React.useState<'busy' | 'ok' | 'fail' | null>(null);
   const [downloadAllError, setDownloadAllError] = React.useState<string | null>(null);
   const [downloadAllInfo, setDownloadAllInfo] = React.useState<string | null>(null);
+  const [documentScope, setDocumentScope] = React.useState<DocumentScope>(props.config.messageIds?.length ? 'selection' : 'chat');
+  const [documentState, setDocumentState] = React.useState<{ format: DocumentFormat, status: 'busy' | 'ok' | 'fail' } | null>(null);
+  const [documentError, setDocumentError] = React.useState<string | null>(null);
 
   // external state
   const enableSharing = getBackendCapabilities().hasDB;
+  const conversationFolder = useFolderStore(state => !props.config.conversationId ? null
+    : state.folders.find(folder => folder.conversationIds.includes(props.config.conversationId!)) ?? null);
 
   // derived state
-  const { exportAll } = props.config;
+  const { exportAll, messageIds } = props.config;
 
 
   // download chats
@@ -65,6 +82,30 @@ export function ExportChats(props: { config: ExportConfig, onClose: () => void }
       .catch((error: any) => setDownloadedMarkdownState(error?.name === 'AbortError' ? null : 'fail'));
   };
 
+  const handleDownloadConversationDocument = (format: DocumentFormat) => {
+    if (!props.config.conversationId || documentState?.status === 'busy') return;
+    const conversation = getConversation(props.config.conversationId);
+    if (!conversation) return;
+
+    let conversations: DConversation[] = [conversation];
+    let title = conversationTitle(conversation);
+    if (documentScope === 'folder' && conversationFolder) {
+      conversations = conversationFolder.conversationIds.map(id => getConversation(id)).filter(c => !!c) as DConversation[];
+      title = conversationFolder.title;
+    }
+
+    setDocumentState({ format, status: 'busy' });
+    setDocumentError(null);
+    downloadChatsDocument(conversations, documentScope === 'selection' ? messageIds ?? null : null, format, title)
+      .then(() => setDocumentState({ format, status: 'ok' }))
+      .catch((error: any) => {
+        if (error?.name === 'AbortError')
+          return setDocumentState(null);
+        setDocumentState({ format, status: 'fail' });
+        setDocumentError(error?.message || 'Unknown error exporting the document.');
+      });
+  };
+
   const handleDownloadAllConversationsJSON = () => {
     if (downloadedAllState === 'busy') return;
     setDownloadedAllState('busy');
@@ -123,6 +164,41 @@ export function ExportChats(props: { config: ExportConfig, onClose: () => void }
             Export · Markdown
           </Button>
 
+          {/* Readable document */}
+          <Typography level='body-sm' sx={{ mt: 1 }}>
+            Export a <strong>readable document</strong>:
+          </Typography>
+
+          {(!!conversationFolder || !!messageIds?.length) && (
+            <ToggleButtonGroup size='sm' value={documentScope} onChange={(_event, value) => value && setDocumentScope(value)} sx={{ '& > *': { flex: 1 } }}>
+              <Button value='chat'>This chat</Button>
+              {!!conversationFolder && <Button value='folder'>Folder</Button>}
+              {!!messageIds?.length && <Button value='selection'>{messageIds.length} Selected</Button>}
+            </ToggleButtonGroup>
+          )}
+
+          {documentFormats.map(({ format, label }) => {
+            const status = documentState?.format === format ? documentState.status : null;
+            return (
+              <Button
+                key={format}
+                variant='soft' disabled={!hasConversation || documentState?.status === 'busy'} loading={status === 'busy'}
+                color={status === 'ok' ? 'success' : status === 'fail' ? 'warning' : 'primary'}
+                endDecorator={status === 'ok' ? <DoneIcon /> : status === 'fail' ? '✘' : <FileDownloadOutlinedIcon />}
+                sx={{ minWidth: 240, justifyContent: 'space-between' }}
+                onClick={() => handleDownloadConversationDocument(format)}
+              >
+                {label}
+              </Button>
+            );
+          })}
+
+          {!!documentError && (
+            <Typography level='body-xs' color='danger' sx={{ maxWidth: 240 }}>
+              {documentError}
+            </Typography>
+          )}
+
           {enableSharing && (
             <ChatLinkExport
               conversationId={props.config.conversationId}
@@ -19,7 +19,7 @@ export type ImportConfig = { dir: 'import' };
 
 /**
  * Components and functionality to import conversations
- * Supports our own JSON/backup files
+ * Supports our own JSON/backup files, and the data exports of ChatGPT, Claude and Gemini
  */
 export function ImportChats(props: { onConversationActivate: (conversationId: DConversationId) => void, onClose: () => void }) {
 
@@ -62,6 +62,11 @@ export function ImportChats(props: { onConversationActivate: (conversationId: DC
         </Button>
       </GoodTooltip>
 
+      <Typography level='body-xs' sx={{ maxWidth: 240 }}>
+        Also opens the conversations.json of ChatGPT and Claude exports (unzipped),
+        and the Gemini Apps MyActivity.json from Google Takeout.
+      </Typography>
+
       {/* Restore from a backup file */}
       <FlashRestore unlockRestore={true} />
 
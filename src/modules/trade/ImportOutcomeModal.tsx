@@ -10,11 +10,13 @@ import { GoodModal } from '~/common/components/modals/GoodModal';
 type ConversationOutcome = {
   success: true;
   fileName: string;
+  format?: string; // e.g. 'ChatGPT', for the exports of other apps
   conversation: DConversation;
   importedConversationId?: DConversationId;
 } | {
   success: false;
   fileName: string;
+  format?: string;
   error: string;
 }
 
@@ -38,6 +40,19 @@ export function ImportOutcomeModal(props: { outcome: ImportedOutcome, onClose: (
   const hasAnyResults = successes.length > 0 || failures.length > 0;
   const hasAnyFailures = failures.length > 0;
 
+  // per-file summary, when importing several files or the exports of other apps
+  const fileSummaries = React.useMemo(() => {
+    const summaries = new Map<string, { format?: string, imported: number, failed: number }>();
+    for (const c of conversations) {
+      const summary = summaries.get(c.fileName) ?? { imported: 0, failed: 0 };
+      summary.format ??= c.format;
+      c.success ? summary.imported++ : summary.failed++;
+      summaries.set(c.fileName, summary);
+    }
+    return [...summaries.entries()];
+  }, [conversations]);
+  const showFileSummaries = fileSummaries.length > 1 || fileSummaries.some(([_, summary]) => !!summary.format);
+
   return (
     <GoodModal open title={hasAnyResults ? hasAnyFailures ? 'Import issues' : 'Import successful' : 'Import failed'} strongerTitle onClose={props.onClose}>
 
@@ -55,6 +70,16 @@ export function ImportOutcomeModal(props: { outcome: ImportedOutcome, onClose: (
         </Typography>
       </>}
 
+      {showFileSummaries && (
+        <List size='sm'>
+          {fileSummaries.map(([fileName, summary]) =>
+            <ListItem key={'file-' + fileName} sx={{ display: 'list-item' }}>
+              <b>{fileName}</b>{summary.format && ` (${summary.format})`}: {summary.imported} imported{summary.failed > 0 && `, ${summary.failed} with issues`}
+            </ListItem>,
+          )}
+        </List>
+      )}
+
       {!!props.outcome.servicesOutcome?.added && (
         <Alert variant='soft' color='success'>
           <Typography>
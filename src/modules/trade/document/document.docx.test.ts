@@ -0,0 +1,89 @@
+/// <reference types="node" />
+
+// Tests for the DOCX export: the package parts, and the conversion of markdown to WordprocessingML.
+//
+// Run:
+// - `npx tsx --test src/modules/trade/document/document.docx.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+
+import type { DocChat } from './document.model';
+import { docChatsToDocx } from './document.docx';
+
+
+/** The files of a ZIP of stored entries, by name, from its central directory */
+async function unzip(blob: Blob): Promise<Map<string, string>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  const files = new Map<string, string>();
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const size = view.getUint32(at + 24, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const dataStart = view.getUint32(at + 42, true) + 30 + nameLength;
+    files.set(decoder.decode(bytes.subarray(at + 46, at + 46 + nameLength)), decoder.decode(bytes.subarray(dataStart, dataStart + size)));
+    at += 46 + nameLength;
+  }
+  return files;
+}
+
+function chatOf(markdown: string): DocChat[] {
+  return [{ title: 'Chat', updated: 0, messages: [{ role: 'assistant', sender: 'Assistant', created: 0, blocks: [{ bt: 'markdown', text: markdown }] }] }];
+}
+
+async function bodyOf(markdown: string): Promise<string> {
+  const documentXml = (await unzip(await docChatsToDocx(chatOf(markdown), 'Title'))).get('word/document.xml')!;
+  const body = documentXml.slice(documentXml.indexOf('<w:body>') + 8, documentXml.indexOf('<w:sectPr>'));
+  // skip the title, the export date, the sender and the message date
+  return body.split('</w:p>').slice(4).join('</w:p>');
+}
+
+/** [text, formatting] of the runs, e.g. ['bold', 'b'] */
+function runsOf(body: string): [string, string][] {
+  return Array.from(body.matchAll(/<w:r>(?:<w:rPr>(.*?)<\/w:rPr>)?<w:t xml:space="preserve">(.*?)<\/w:t><\/w:r>/g), ([, rPr, text]) => [
+    text,
+    [rPr?.includes('<w:b/>') && 'b', rPr?.includes('<w:i/>') && 'i', rPr?.includes('Consolas') && 'code'].filter(Boolean).join(','),
+  ]);
+}
+
+
+describe('docChatsToDocx', () => {
+
+  test('package parts', async () => {
+    const files = await unzip(await docChatsToDocx(chatOf('Hello'), 'Title'));
+    deepStrictEqual([...files.keys()], ['[Content_Types].xml', '_rels/.rels', 'docProps/core.xml', 'word/document.xml', 'word/styles.xml', 'word/_rels/document.xml.rels']);
+    ok(files.get('docProps/core.xml')!.includes('<dc:title>Title</dc:title>'));
+  });
+
+  test('snake_case is not emphasis', async () => {
+    const runs = runsOf(await bodyOf('set my_var_name and snake__double__case to _this_'));
+    deepStrictEqual(runs, [['set my_var_name and snake__double__case to ', ''], ['this', 'i']]);
+  });
+
+  test('inline formatting', async () => {
+    const runs = runsOf(await bodyOf('**bold** __strong__ *it* `a_b_c` [link](https://x.y)'));
+    deepStrictEqual(runs.filter(([, format]) => format), [['bold', 'b'], ['strong', 'b'], ['it', 'i'], ['a_b_c', 'code']]);
+    ok(runs.some(([text]) => text === ' (https://x.y)'));
+  });
+
+  test('text is escaped, and characters invalid in XML are dropped', async () => {
+    const body = await bodyOf('a < b && c > "d"\u0001');
+    ok(body.includes('a &lt; b &amp;&amp; c &gt; &quot;d&quot;</w:t>'));
+    ok(!body.includes('\u0001'));
+  });
+
+  test('blocks: heading, list, quote, table and code', async () => {
+    const body = await bodyOf('# Head\n\n- item\n> quote\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n```py\nx_1 = 2\n\n```\nafter');
+    ok(body.includes('<w:pStyle w:val="Heading2"/></w:pPr><w:r><w:t xml:space="preserve">Head</w:t>'));
+    ok(body.includes('<w:t xml:space="preserve">•</w:t></w:r><w:r><w:tab/></w:r><w:r><w:t xml:space="preserve">item</w:t>'));
+    ok(body.includes('<w:pStyle w:val="Quote"/>'));
+    strictEqual(body.match(/<w:tc>/g)?.length, 4);
+    strictEqual(body.match(/<w:pStyle w:val="Code"\/>/g)?.length, 2, 'code lines, including the empty one');
+    ok(body.includes('x_1 = 2'));
+    ok(body.endsWith('<w:r><w:t xml:space="preserve">after</w:t></w:r></w:p>'));
+  });
+
+});
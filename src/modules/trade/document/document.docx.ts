@@ -0,0 +1,328 @@
+import { Brand } from '~/common/app.config';
+import { convert_Base64WithMimeType_To_Blob } from '~/common/util/blobUtils';
+import { imageBlobConvertType, imageBlobGetDimensions, renderSVGToPNGBlob, svgAsStandaloneImage } from '~/common/util/imageUtils';
+import { zipStoreEntries, ZipEntry } from '~/common/util/zipUtils';
+
+import type { DocBlock, DocChat } from './document.model';
+
+
+// DOCX (WordprocessingML), written directly: Word has no collapsible sections or script-rendered
+// diagrams, so reasoning becomes muted text, and diagrams become pictures
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const EMU_PER_PIXEL = 9525;
+const IMAGE_MAX_WIDTH_EMU = 6 * 914400; // 6 inches, the text width of a Letter/A4 page with default margins
+const DIAGRAM_RENDER_SCALE = 2; // diagrams are rasterized at @2x, and shown at their size
+
+const NS_W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const NS_R = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+
+interface DocxImage {
+  rId: string;
+  fileName: string;
+  bytes: Uint8Array;
+  widthEmu: number;
+  heightEmu: number;
+}
+
+/** Collects the pictures while writing the body, as they become parts of the package */
+class DocxImages {
+  readonly images: DocxImage[] = [];
+
+  /** @param pixelRatio the image pixels per displayed pixel, e.g. 2 for images rendered @2x */
+  async addFromBlob(blob: Blob, pixelRatio: number = 1): Promise<DocxImage | null> {
+    try {
+      // Word supports png, jpeg and gif - not webp
+      if (blob.type !== 'image/png' && blob.type !== 'image/jpeg' && blob.type !== 'image/gif')
+        blob = (await imageBlobConvertType(blob, 'image/png', 1)).blob;
+      const dimensions = await imageBlobGetDimensions(blob);
+      const width = dimensions.width / pixelRatio;
+      const height = dimensions.height / pixelRatio;
+      const scale = Math.min(1, IMAGE_MAX_WIDTH_EMU / (width * EMU_PER_PIXEL));
+      const index = this.images.length + 1;
+      const image: DocxImage = {
+        rId: `rIdImage${index}`,
+        fileName: `image${index}.${blob.type.split('/')[1] || 'png'}`,
+        bytes: new Uint8Array(await blob.arrayBuffer()),
+        widthEmu: Math.round(width * EMU_PER_PIXEL * scale),
+        heightEmu: Math.round(height * EMU_PER_PIXEL * scale),
+      };
+      this.images.push(image);
+      return image;
+    } catch (error) {
+      console.log('[DEV] Export: image not added to the document', error);
+      return null;
+    }
+  }
+}
+
+
+/**
+ * Renders the chats to a DOCX file.
+ */
+export async function docChatsToDocx(chats: DocChat[], title: string): Promise<Blob> {
+  const images = new DocxImages();
+
+  let body = _paragraph(title, { style: 'Title' })
+    + _paragraph(`Exported from ${Brand.Title.Base} on ${new Date().toLocaleString()}.`, { style: 'Subtle' });
+
+  for (const chat of chats) {
+    if (chats.length > 1)
+      body += _paragraph(chat.title, { style: 'Heading1', pageBreakBefore: chat !== chats[0] });
+    for (const message of chat.messages) {
+      body += _paragraph(message.sender, { style: 'Sender' })
+        + _paragraph(new Date(message.created).toLocaleString(), { style: 'Subtle' });
+      for (const block of message.blocks)
+        body += await _blockToDocx(block, images);
+    }
+  }
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${NS_W}" xmlns:r="${NS_R}" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><w:body>${body}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  const entries: ZipEntry[] = [
+    { name: '[Content_Types].xml', data: _contentTypesXml() },
+    { name: '_rels/.rels', data: _packageRelsXml() },
+    { name: 'docProps/core.xml', data: _corePropsXml(title) },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: _stylesXml() },
+    { name: 'word/_rels/document.xml.rels', data: _documentRelsXml(images.images) },
+    ...images.images.map(image => ({ name: `word/media/${image.fileName}`, data: image.bytes })),
+  ];
+  return zipStoreEntries(entries, DOCX_MIME_TYPE);
+}
+
+
+// blocks
+
+async function _blockToDocx(block: DocBlock, images: DocxImages): Promise<string> {
+  switch (block.bt) {
+    case 'markdown':
+      return await _markdownToDocx(block.text, images, undefined);
+
+    case 'reasoning':
+      return _paragraph('Reasoning', { style: 'Subtle' }) + await _markdownToDocx(block.text, images, 'Reasoning');
+
+    case 'image':
+      const image = await images.addFromBlob(await convert_Base64WithMimeType_To_Blob(block.base64, block.mimeType, 'docx-export'));
+      return image ? _imageParagraph(image, block.title) : _paragraph(`[${block.title}]`, { style: 'Subtle' });
+
+    case 'attachment':
+      return _paragraph(`📎 ${block.title}`, { style: 'Subtle' }) + _codeParagraphs(block.text);
+
+    case 'error':
+      return _paragraph(block.text, { style: 'Error' });
+  }
+}
+
+/**
+ * Markdown, block by block: headings, lists, quotes, tables, code (and diagrams) and paragraphs.
+ */
+async function _markdownToDocx(markdown: string, images: DocxImages, paragraphStyle: string | undefined): Promise<string> {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let xml = '';
+  let pendingText: string[] = [];
+
+  const flushParagraph = () => {
+    if (pendingText.length)
+      xml += _paragraph(pendingText.join(' '), { style: paragraphStyle, inline: true });
+    pendingText = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // fenced code
+    const fence = line.match(/^\s*```\s*([\w-]*)/);
+    if (fence) {
+      flushParagraph();
+      const codeLines: string[] = [];
+      while (++i < lines.length && !/^\s*```\s*$/.test(lines[i]))
+        codeLines.push(lines[i]);
+      const code = codeLines.join('\n');
+      const language = fence[1];
+      if (language === 'mermaid' || language === 'svg') {
+        const picture = await _diagramToImage(language, code, images);
+        if (picture) {
+          xml += _imageParagraph(picture, language === 'mermaid' ? 'Diagram' : 'SVG');
+          continue;
+        }
+      }
+      xml += _codeParagraphs(code);
+      continue;
+    }
+
+    // tables: header, separator, rows
+    if (/^\s*\|.*\|\s*$/.test(line) && i + 1 < lines.length && /^\s*\|[\s:|-]+\|\s*$/.test(lines[i + 1])) {
+      flushParagraph();
+      const rows = [line];
+      i++;
+      while (i + 1 < lines.length && /^\s*\|.*\|\s*$/.test(lines[i + 1]))
+        rows.push(lines[++i]);
+      xml += _table(rows.map(row => row.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim())));
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const numbered = line.match(/^(\s*)(\d+[.)])\s+(.*)$/);
+    const quote = line.match(/^>\s?(.*)$/);
+
+    if (heading) {
+      flushParagraph();
+      xml += _paragraph(heading[2], { style: `Heading${Math.min(heading[1].length + 1, 4)}`, inline: true });
+    } else if (bullet) {
+      flushParagraph();
+      xml += _paragraph(bullet[2], { style: paragraphStyle, indentLevel: 1 + Math.floor(bullet[1].length / 2), prefix: '•\t', inline: true });
+    } else if (numbered) {
+      flushParagraph();
+      xml += _paragraph(numbered[3], { style: paragraphStyle, indentLevel: 1 + Math.floor(numbered[1].length / 2), prefix: `${numbered[2]}\t`, inline: true });
+    } else if (quote) {
+      flushParagraph();
+      xml += _paragraph(quote[1], { style: 'Quote', inline: true });
+    } else if (!line.trim() || /^\s*([-*_])\s*\1\s*\1[\s\-*_]*$/.test(line)) {
+      flushParagraph();
+    } else {
+      pendingText.push(line.trim());
+    }
+  }
+  flushParagraph();
+  return xml;
+}
+
+async function _diagramToImage(language: 'mermaid' | 'svg', code: string, images: DocxImages): Promise<DocxImage | null> {
+  try {
+    const svg = language === 'mermaid'
+      ? await (await import('~/modules/blocks/code/code-renderers/RenderCodeMermaid')).mermaidRenderSvgOrThrow(code)
+      : code;
+    const png = await renderSVGToPNGBlob(svgAsStandaloneImage(svg), false, DIAGRAM_RENDER_SCALE);
+    return png ? await images.addFromBlob(png, DIAGRAM_RENDER_SCALE) : null;
+  } catch (error) {
+    console.log('[DEV] Export: diagram not rendered', error);
+    return null;
+  }
+}
+
+
+// WordprocessingML
+
+function _xmlEscape(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '') // not allowed in XML
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function _run(text: string, props: { bold?: boolean, italic?: boolean, code?: boolean, link?: boolean } = {}): string {
+  // in schema order, as Word requires
+  const rPr = (props.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : '')
+    + (props.bold ? '<w:b/>' : '') + (props.italic ? '<w:i/>' : '')
+    + (props.link ? '<w:color w:val="0969DA"/><w:u w:val="single"/>' : '')
+    + (props.code ? '<w:shd w:val="clear" w:color="auto" w:fill="EFF1F3"/>' : '');
+  return text.split('\t').map((piece, idx) =>
+    (idx ? `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}<w:tab/></w:r>` : '')
+    + (piece ? `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ''}<w:t xml:space="preserve">${_xmlEscape(piece)}</w:t></w:r>` : ''),
+  ).join('');
+}
+
+// **bold**, *italic*, _italic_, `code`, [text](url)
+// underscores only delimit at word boundaries, as in CommonMark, so that snake_case stays as-is
+const INLINE_MARKDOWN_REGEX = /\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)]\(([^)\s]+)\)/g;
+
+function _inlineRuns(text: string): string {
+  let runs = '';
+  let last = 0;
+  for (const match of text.matchAll(INLINE_MARKDOWN_REGEX)) {
+    runs += _run(text.slice(last, match.index));
+    const bold = match[1] ?? match[2];
+    const italic = match[3] ?? match[4];
+    if (bold !== undefined) runs += _run(bold, { bold: true });
+    else if (italic !== undefined) runs += _run(italic, { italic: true });
+    else if (match[5] !== undefined) runs += _run(match[5], { code: true });
+    else runs += _run(match[6], { link: true }) + _run(` (${match[7]})`);
+    last = match.index! + match[0].length;
+  }
+  return runs + _run(text.slice(last));
+}
+
+function _paragraph(text: string, options: { style?: string, inline?: boolean, indentLevel?: number, prefix?: string, pageBreakBefore?: boolean }): string {
+  const pPr = (options.style ? `<w:pStyle w:val="${options.style}"/>` : '')
+    + (options.pageBreakBefore ? '<w:pageBreakBefore/>' : '')
+    + (options.indentLevel ? `<w:ind w:left="${360 * options.indentLevel}" w:hanging="360"/>` : '');
+  const runs = (options.prefix ? _run(options.prefix) : '') + (options.inline ? _inlineRuns(text) : _run(text));
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${runs}</w:p>`;
+}
+
+function _codeParagraphs(code: string): string {
+  return code.split('\n').map(line => _paragraph(line, { style: 'Code' })).join('');
+}
+
+function _table(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D0D7DE"/>`;
+  const tblPr = `<w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`;
+  const grid = `<w:tblGrid>${'<w:gridCol/>'.repeat(columns)}</w:tblGrid>`;
+  const trs = rows.map((row, rowIdx) => '<w:tr>' + Array.from({ length: columns }, (_, colIdx) => {
+    const cellText = row[colIdx] ?? '';
+    const runs = rowIdx === 0 ? _run(cellText.replace(/\*\*/g, ''), { bold: true }) : _inlineRuns(cellText);
+    return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr><w:p>${runs}</w:p></w:tc>`;
+  }).join('') + '</w:tr>').join('');
+  // an empty paragraph after, or Word merges adjacent tables
+  return `<w:tbl>${tblPr}${grid}${trs}</w:tbl><w:p/>`;
+}
+
+function _imageParagraph(image: DocxImage, title: string): string {
+  const id = image.rId.replace(/\D/g, '');
+  return `<w:p><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+    + `<wp:extent cx="${image.widthEmu}" cy="${image.heightEmu}"/><wp:docPr id="${id}" name="${_xmlEscape(title)}"/>`
+    + `<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>`
+    + `<pic:nvPicPr><pic:cNvPr id="${id}" name="${image.fileName}"/><pic:cNvPicPr/></pic:nvPicPr>`
+    + `<pic:blipFill><a:blip r:embed="${image.rId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+    + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${image.widthEmu}" cy="${image.heightEmu}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+    + `</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+}
+
+
+// package parts
+
+function _contentTypesXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/><Default Extension="gif" ContentType="image/gif"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+}
+
+function _packageRelsXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+}
+
+function _documentRelsXml(images: DocxImage[]): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${images.map(image =>
+    `<Relationship Id="${image.rId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${image.fileName}"/>`).join('')}</Relationships>`;
+}
+
+function _corePropsXml(title: string): string {
+  const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${_xmlEscape(title)}</dc:title><dc:creator>${_xmlEscape(Brand.Title.Base)}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created></cp:coreProperties>`;
+}
+
+function _stylesXml(): string {
+  const style = (id: string, name: string, pPr: string, rPr: string) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:qFormat/><w:pPr>${pPr}</w:pPr><w:rPr>${rPr}</w:rPr></w:style>`;
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${NS_W}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>`
+    + `<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>`
+    + style('Title', 'Title', '<w:spacing w:after="60"/>', '<w:b/><w:sz w:val="40"/>')
+    + style('Heading1', 'heading 1', '<w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/>', '<w:b/><w:sz w:val="32"/>')
+    + style('Heading2', 'heading 2', '<w:keepNext/><w:spacing w:before="240" w:after="80"/><w:outlineLvl w:val="1"/>', '<w:b/><w:sz w:val="28"/>')
+    + style('Heading3', 'heading 3', '<w:keepNext/><w:spacing w:before="200" w:after="60"/><w:outlineLvl w:val="2"/>', '<w:b/><w:sz w:val="24"/>')
+    + style('Heading4', 'heading 4', '<w:keepNext/><w:spacing w:before="160" w:after="40"/><w:outlineLvl w:val="3"/>', '<w:b/><w:i/><w:sz w:val="22"/>')
+    + style('Sender', 'Sender', '<w:keepNext/><w:pBdr><w:top w:val="single" w:sz="4" w:space="6" w:color="D0D7DE"/></w:pBdr><w:spacing w:before="240" w:after="0"/>', '<w:b/>')
+    + style('Subtle', 'Subtle', '<w:keepNext/>', '<w:color w:val="656D76"/><w:sz w:val="18"/>')
+    + style('Reasoning', 'Reasoning', '<w:ind w:left="360"/>', '<w:i/><w:color w:val="656D76"/><w:sz w:val="20"/>')
+    + style('Quote', 'Quote', '<w:pBdr><w:left w:val="single" w:sz="12" w:space="8" w:color="D0D7DE"/></w:pBdr><w:ind w:left="360"/>', '<w:color w:val="57606A"/>')
+    + style('Code', 'Code', '<w:shd w:val="clear" w:color="auto" w:fill="F6F8FA"/><w:spacing w:after="0" w:line="240" w:lineRule="auto"/>', '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="18"/>')
+    + style('Error', 'Error', '', '<w:color w:val="CF222E"/>')
+    + `</w:styles>`;
+}
@@ -0,0 +1,198 @@
+import * as React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import type { Components as ReactMarkdownComponents } from 'react-markdown';
+import { default as ReactMarkdown } from 'react-markdown';
+import { default as rehypeKatex } from 'rehype-katex';
+import { default as remarkGfm } from 'remark-gfm';
+import { default as remarkMath } from 'remark-math';
+
+import { highlightCode, inferCodeLanguage } from '~/modules/blocks/code/code-highlight/codePrism';
+import { mermaidRenderSvgOrThrow } from '~/modules/blocks/code/code-renderers/RenderCodeMermaid';
+
+import { Brand } from '~/common/app.config';
+import { svgAsStandaloneImage } from '~/common/util/imageUtils';
+
+import type { DocBlock, DocChat } from './document.model';
+
+
+// Self-contained HTML: no scripts and no external resources, so it opens anywhere - also offline, and in mail clients
+
+const MERMAID_BLOCK_REGEX = /```mermaid[^\n]*\n([\s\S]*?)```/g;
+
+const _documentCss = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; line-height: 1.55; color: #1f2328; background: #fff; max-width: 52rem; margin: 0 auto; padding: 2rem 1.5rem; }
+  header.doc { border-bottom: 1px solid #d0d7de; margin-bottom: 2rem; }
+  header.doc p, .meta { color: #656d76; font-size: 0.85rem; }
+  nav ol { padding-left: 1.25rem; }
+  section.chat { margin-bottom: 3rem; }
+  section.chat + section.chat { border-top: 2px solid #d0d7de; padding-top: 2rem; break-before: page; }
+  article.message { margin: 1.25rem 0; padding: 0.75rem 1rem; border-radius: 8px; border: 1px solid #d0d7de; break-inside: avoid-page; }
+  article.message.user { background: #f6f8fa; }
+  article.message.system { background: #fff8c5; }
+  .sender { font-weight: 600; font-size: 0.9rem; }
+  pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; white-space: pre-wrap; word-break: break-word; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+  :not(pre) > code { background: #eff1f3; border-radius: 4px; padding: 0.1em 0.3em; font-size: 0.9em; }
+  table { border-collapse: collapse; margin: 0.75rem 0; }
+  th, td { border: 1px solid #d0d7de; padding: 0.35rem 0.6rem; text-align: left; }
+  img { max-width: 100%; height: auto; }
+  figure { margin: 0.75rem 0; }
+  figcaption { color: #656d76; font-size: 0.8rem; }
+  details { margin: 0.5rem 0; border: 1px solid #d0d7de; border-radius: 6px; padding: 0.4rem 0.75rem; }
+  details > summary { cursor: pointer; color: #656d76; font-size: 0.85rem; }
+  details.reasoning { background: #fbfbfc; font-size: 0.9rem; }
+  .error { color: #cf222e; }
+  .token.comment, .token.prolog, .token.doctype, .token.cdata { color: #6e7781; }
+  .token.punctuation { color: #24292f; }
+  .token.property, .token.tag, .token.boolean, .token.number, .token.constant, .token.symbol, .token.deleted { color: #0550ae; }
+  .token.selector, .token.attr-name, .token.string, .token.char, .token.builtin, .token.inserted { color: #0a3069; }
+  .token.operator, .token.entity, .token.url { color: #953800; }
+  .token.atrule, .token.attr-value, .token.keyword { color: #cf222e; }
+  .token.function, .token.class-name { color: #8250df; }
+  .token.regex, .token.important, .token.variable { color: #953800; }
+  @media print { body { max-width: none; padding: 0; } details { border: none; padding: 0; } }
+`;
+
+
+/**
+ * Renders the chats to a single HTML file: markdown, highlighted code, diagrams and images.
+ */
+export async function docChatsToHtml(chats: DocChat[], title: string): Promise<string> {
+  const diagrams = await _renderMermaidDiagrams(chats);
+  const body = renderToStaticMarkup(<DocChatsHtml chats={chats} title={title} diagrams={diagrams} />);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="${_escapeHtml(Brand.Title.Base)}">
+<title>${_escapeHtml(title)}</title>
+<style>${_documentCss}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function _escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function _svgDataUri(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgAsStandaloneImage(svg))}`;
+}
+
+// diagrams render asynchronously, before the (synchronous) markdown rendering: by code
+async function _renderMermaidDiagrams(chats: DocChat[]): Promise<Map<string, string>> {
+  const diagrams = new Map<string, string>();
+  for (const chat of chats)
+    for (const message of chat.messages)
+      for (const block of message.blocks) {
+        if (block.bt !== 'markdown') continue;
+        for (const match of block.text.matchAll(MERMAID_BLOCK_REGEX)) {
+          const code = match[1].trim();
+          if (diagrams.has(code)) continue;
+          try {
+            diagrams.set(code, await mermaidRenderSvgOrThrow(code));
+          } catch (error) {
+            console.log('[DEV] Export: mermaid diagram not rendered', error);
+          }
+        }
+      }
+  return diagrams;
+}
+
+
+function DocChatsHtml(props: { chats: DocChat[], title: string, diagrams: Map<string, string> }) {
+  const { chats, diagrams } = props;
+  return <>
+    <header className='doc'>
+      <h1>{props.title}</h1>
+      <p>Exported from {Brand.Title.Base} on {new Date().toLocaleString()}.</p>
+      {chats.length > 1 && (
+        <nav>
+          <ol>
+            {chats.map((chat, idx) => <li key={idx}><a href={`#chat-${idx + 1}`}>{chat.title}</a></li>)}
+          </ol>
+        </nav>
+      )}
+    </header>
+    {chats.map((chat, idx) => (
+      <section key={idx} id={`chat-${idx + 1}`} className='chat'>
+        {chats.length > 1 && <h2>{chat.title}</h2>}
+        {chat.messages.map((message, mIdx) => (
+          <article key={mIdx} className={`message ${message.role}`}>
+            <div className='sender'>{message.sender}</div>
+            <div className='meta'>{new Date(message.created).toLocaleString()}</div>
+            {message.blocks.map((block, bIdx) => <DocBlockHtml key={bIdx} block={block} diagrams={diagrams} />)}
+          </article>
+        ))}
+      </section>
+    ))}
+  </>;
+}
+
+function DocBlockHtml(props: { block: DocBlock, diagrams: Map<string, string> }) {
+  const { block, diagrams } = props;
+  switch (block.bt) {
+    case 'markdown':
+      return <DocMarkdownHtml text={block.text} diagrams={diagrams} />;
+    case 'reasoning':
+      return (
+        <details className='reasoning'>
+          <summary>Reasoning</summary>
+          <DocMarkdownHtml text={block.text} diagrams={diagrams} />
+        </details>
+      );
+    case 'image':
+      return (
+        <figure>
+          <picture><img src={`data:${block.mimeType};base64,${block.base64}`} alt={block.title} /></picture>
+          {block.title !== 'Image' && <figcaption>{block.title}</figcaption>}
+        </figure>
+      );
+    case 'attachment':
+      return (
+        <details>
+          <summary>📎 {block.title}</summary>
+          <pre><code>{block.text}</code></pre>
+        </details>
+      );
+    case 'error':
+      return <p className='error'>{block.text}</p>;
+  }
+}
+
+function DocMarkdownHtml(props: { text: string, diagrams: Map<string, string> }) {
+  const { diagrams } = props;
+
+  const components = React.useMemo((): ReactMarkdownComponents => ({
+    // code blocks are rendered by 'code', as highlighted code, diagrams or pictures
+    pre: ({ children }) => <>{children}</>,
+    code: ({ className, children }) => {
+      const code = String(children ?? '');
+      const language = /language-([\w-]+)/.exec(className || '')?.[1] ?? '';
+      if (!language && !code.includes('\n'))
+        return <code>{children}</code>;
+
+      const svg = language === 'mermaid' ? diagrams.get(code.trim()) : language === 'svg' ? code : undefined;
+      if (svg)
+        return <figure><picture><img src={_svgDataUri(svg)} alt={language === 'mermaid' ? 'Diagram' : 'SVG'} /></picture></figure>;
+
+      const highlighted = highlightCode(inferCodeLanguage(language, code), code.replace(/\n$/, ''), false);
+      return <pre><code dangerouslySetInnerHTML={{ __html: highlighted }} /></pre>;
+    },
+  }), [diagrams]);
+
+  return (
+    <ReactMarkdown
+      components={components}
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeKatex, { output: 'mathml' }]]}
+    >
+      {props.text}
+    </ReactMarkdown>
+  );
+}
@@ -0,0 +1,112 @@
+import { aixConvertImageRefToInlineImageOrThrow, aixConvertZyncImageAssetRefToInlineImageOrThrow } from '~/modules/aix/client/aix.client.chatGenerateRequest';
+import { getPersona } from '~/modules/persona/store-personas';
+
+import { Brand } from '~/common/app.config';
+import { conversationTitle, DConversation } from '~/common/stores/chat/chat.conversation';
+import type { DMessage, DMessageId, DMessageRole } from '~/common/stores/chat/chat.message';
+import { DMessageFragment, isAttachmentFragment, isContentFragment, isDocPart, isErrorPart, isImageRefPart, isTextPart, isVoidFragment, isZyncAssetImageReferencePart } from '~/common/stores/chat/chat.fragments';
+import { prettyShortChatModelName } from '~/common/util/dMessageUtils';
+
+
+/**
+ * A conversation (or part of it) ready to be rendered as a document: the images are loaded,
+ * and the fragments are reduced to what a reader sees.
+ */
+export interface DocChat {
+  title: string;
+  updated: number;
+  messages: DocMessage[];
+}
+
+export interface DocMessage {
+  role: DMessageRole;
+  sender: string;                     // e.g. 'You', or 'Developer · GPT-4o'
+  created: number;
+  blocks: DocBlock[];
+}
+
+export type DocBlock =
+  | { bt: 'markdown', text: string }
+  | { bt: 'reasoning', text: string }
+  | { bt: 'image', title: string, mimeType: string, base64: string }
+  | { bt: 'attachment', title: string, text: string }
+  | { bt: 'error', text: string };
+
+
+/**
+ * @param messageIds only these messages (e.g. a selection), in conversation order; otherwise all but the system messages
+ */
+export async function conversationToDocChat(conversation: Readonly<DConversation>, messageIds: DMessageId[] | null): Promise<DocChat> {
+  const messages = messageIds
+    ? conversation.messages.filter(m => messageIds.includes(m.id))
+    : conversation.messages.filter(m => m.role !== 'system');
+
+  const docMessages: DocMessage[] = [];
+  for (const message of messages) {
+    const blocks: DocBlock[] = [];
+    for (const fragment of message.fragments)
+      blocks.push(...await _fragmentToDocBlocks(fragment));
+    if (blocks.length)
+      docMessages.push({ role: message.role, sender: _messageSender(message, conversation), created: message.created, blocks });
+  }
+
+  return {
+    title: conversationTitle(conversation as DConversation, Brand.Title.Common + ' Chat'),
+    updated: conversation.updated || conversation.created,
+    messages: docMessages,
+  };
+}
+
+function _messageSender(message: DMessage, conversation: Readonly<DConversation>): string {
+  switch (message.role) {
+    case 'user':
+      return 'You';
+    case 'system':
+      return 'System';
+    case 'assistant':
+      const persona = getPersona(message.purposeId || conversation.systemPurposeId || null);
+      const modelName = message.generator?.name ? prettyShortChatModelName(message.generator.name) : '';
+      return [persona ? `${persona.symbol} ${persona.title}`.trim() : 'Assistant', modelName].filter(Boolean).join(' · ');
+  }
+}
+
+async function _fragmentToDocBlocks(fragment: DMessageFragment): Promise<DocBlock[]> {
+
+  if (isContentFragment(fragment) || isAttachmentFragment(fragment)) {
+    const part = fragment.part;
+    const title = isAttachmentFragment(fragment) ? fragment.title : '';
+
+    // images: inlined from the local blobs
+    if (isZyncAssetImageReferencePart(part) || isImageRefPart(part)) {
+      try {
+        const image = isZyncAssetImageReferencePart(part)
+          ? await aixConvertZyncImageAssetRefToInlineImageOrThrow(part, false)
+          : await aixConvertImageRefToInlineImageOrThrow(part, false);
+        return [{ bt: 'image', title: title || 'Image', mimeType: image.mimeType, base64: image.base64 }];
+      } catch (error: any) {
+        return [{ bt: 'error', text: `Image not available: ${error?.message || 'unknown error'}` }];
+      }
+    }
+
+    if (isAttachmentFragment(fragment))
+      return isDocPart(fragment.part) ? [{ bt: 'attachment', title: fragment.title || fragment.part.l1Title, text: fragment.part.data.text }] : [];
+
+    if (isTextPart(fragment.part))
+      return fragment.part.text ? [{ bt: 'markdown', text: fragment.part.text }] : [];
+    if (isErrorPart(fragment.part))
+      return [{ bt: 'error', text: fragment.part.error }];
+
+    // tool invocations and responses, hosted resources: not for readers
+    return [];
+  }
+
+  if (isVoidFragment(fragment)) {
+    const part = fragment.part;
+    if (part.pt === 'ma' && part.aText)
+      return [{ bt: 'reasoning', text: part.aText }];
+    if (part.pt === 'annotations' && part.annotations.length)
+      return [{ bt: 'markdown', text: '**Sources**\n\n' + part.annotations.map(a => `- [${a.title || a.url}](${a.url})`).join('\n') }];
+  }
+
+  return [];
+}
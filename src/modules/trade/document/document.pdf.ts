@@ -0,0 +1,41 @@
+// configuration
+const PRINT_CLEANUP_TIMEOUT_MS = 60 * 1000;
+
+
+/**
+ * PDF through the browser: prints the self-contained HTML from a hidden frame, and the user
+ * picks "Save as PDF" in the print dialog. This keeps the fidelity of the HTML (diagrams,
+ * math, highlighting) without shipping a PDF renderer.
+ */
+export async function printHtmlAsPdf(html: string, fileTitle: string): Promise<void> {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+
+  const loaded = new Promise<void>(resolve => iframe.onload = () => resolve());
+  iframe.srcdoc = html;
+  document.body.appendChild(iframe);
+  await loaded;
+
+  const frameWindow = iframe.contentWindow;
+  if (!frameWindow) {
+    iframe.remove();
+    throw new Error('Printing is not available');
+  }
+
+  // images (data URLs) must be decoded, or they could be missing from the first pages
+  await Promise.all(Array.from(frameWindow.document.images).map(image => image.decode().catch(() => null)));
+
+  // the title of the page is the default name of the PDF
+  const previousTitle = document.title;
+  document.title = fileTitle;
+  const cleanup = () => {
+    document.title = previousTitle;
+    iframe.remove();
+  };
+  frameWindow.addEventListener('afterprint', cleanup, { once: true });
+  setTimeout(() => iframe.isConnected && cleanup(), PRINT_CLEANUP_TIMEOUT_MS);
+
+  frameWindow.focus();
+  frameWindow.print();
+}
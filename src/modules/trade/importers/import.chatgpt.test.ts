@@ -0,0 +1,94 @@
+/// <reference types="node" />
+
+// Tests for the ChatGPT importer: the walk of the message tree, along the branch on screen.
+//
+// Run:
+// - `npx tsx --test src/modules/trade/importers/import.chatgpt.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import { messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { isChatGPTExport, loadConversationsFromChatGPT } from './import.chatgpt';
+
+
+// fixture: an edited conversation - 'a-old' is the reply before the regeneration, 'a-new' the one on screen
+const NODES: [id: string, parent: string | null, message: object | null][] = [
+  ['root', null, null],
+  ['sys', 'root', { author: { role: 'system' }, content: { content_type: 'text', parts: [''] }, metadata: { is_visually_hidden_from_conversation: true } }],
+  ['u1', 'sys', { author: { role: 'user' }, create_time: 1700000000, content: { content_type: 'text', parts: ['Hello'] } }],
+  ['a-old', 'u1', { author: { role: 'assistant' }, create_time: 1700000010, content: { content_type: 'text', parts: ['Old reply'] } }],
+  ['thoughts', 'u1', { author: { role: 'assistant' }, create_time: 1700000020, content: { content_type: 'thoughts', thoughts: [{ summary: 'Greeting', content: 'The user greets' }] } }],
+  ['search', 'thoughts', { author: { role: 'assistant' }, create_time: 1700000021, content: { content_type: 'text', parts: ['{"query":"hi"}'] }, recipient: 'web' }],
+  ['tool', 'search', { author: { role: 'tool' }, create_time: 1700000022, content: { content_type: 'text', parts: ['results'] } }],
+  ['a-new', 'tool', { author: { role: 'assistant' }, create_time: 1700000030, content: { content_type: 'text', parts: ['New reply'] }, metadata: { model_slug: 'gpt-4o' } }],
+  ['u2', 'a-new', { author: { role: 'user' }, create_time: 1700000040, content: { content_type: 'multimodal_text', parts: [{ content_type: 'image_asset_pointer' }, 'What is this?'] } }],
+  ['a-code', 'u2', { author: { role: 'assistant' }, create_time: 1700000050, content: { content_type: 'code', language: 'python', text: 'print(1)' }, recipient: 'python' }],
+  ['a-last', 'a-code', { author: { role: 'assistant' }, create_time: 1700000060, content: { content_type: 'text', parts: ['A picture'] } }],
+];
+
+function chatGPTExport(currentNode: string | null) {
+  const mapping = Object.fromEntries(NODES.map(([id, parent, message]) => [id, {
+    id, parent, message,
+    children: NODES.filter(([, p]) => p === id).map(([childId]) => childId),
+  }]));
+  return [{ id: 'c1', title: 'Greetings', create_time: 1700000000, update_time: 1700000060, mapping, current_node: currentNode }];
+}
+
+function importConversations(conversations: object[]): ImportedOutcome['conversations'] {
+  const outcome: ImportedOutcome = { conversations: [], activateConversationId: null, modelServices: [] };
+  ok(isChatGPTExport(conversations));
+  loadConversationsFromChatGPT('conversations.json', conversations, outcome);
+  return outcome.conversations;
+}
+
+function messagesOf(conversation: DConversation): [role: string, text: string][] {
+  return conversation.messages.map(m => [m.role, messageFragmentsReduceText(m.fragments)]);
+}
+
+
+describe('loadConversationsFromChatGPT', () => {
+
+  test('follows the current branch, from the root', () => {
+    const [result] = importConversations(chatGPTExport('a-last'));
+    ok(result.success);
+    deepStrictEqual(messagesOf(result.conversation), [
+      ['user', 'Hello'],
+      ['assistant', 'New reply'],
+      ['user', 'What is this?'],
+      ['assistant', '```python\nprint(1)\n```\n\nA picture'],
+    ]);
+    strictEqual(result.conversation.autoTitle, 'Greetings');
+    strictEqual(result.conversation.created, 1700000000 * 1000);
+    strictEqual(result.conversation.messages[1].created, 1700000030 * 1000);
+    deepStrictEqual(result.conversation.messages[1].generator, { mgt: 'named', name: 'gpt-4o' });
+  });
+
+  test('reasoning goes with the reply that follows it', () => {
+    const [result] = importConversations(chatGPTExport('a-last'));
+    ok(result.success);
+    const reply = result.conversation.messages[1];
+    deepStrictEqual(reply.fragments.map(f => f.ft), ['void', 'content']);
+    deepStrictEqual(reply.fragments[0].part, { pt: 'ma', aType: 'reasoning', aText: 'The user greets' });
+  });
+
+  test('another branch, and the most recent leaf without current node', () => {
+    const [older] = importConversations(chatGPTExport('a-old'));
+    ok(older.success);
+    deepStrictEqual(messagesOf(older.conversation), [['user', 'Hello'], ['assistant', 'Old reply']]);
+
+    const [latest] = importConversations(chatGPTExport(null));
+    ok(latest.success);
+    strictEqual(latest.conversation.messages.length, 4);
+  });
+
+  test('conversations without messages are reported', () => {
+    const [result] = importConversations([{ id: 'c2', title: 'Nothing', mapping: { root: { id: 'root', parent: null, children: [], message: null } }, current_node: 'root' }]);
+    ok(!result.success);
+    strictEqual(result.error, 'Empty conversation: Nothing');
+  });
+
+});
@@ -0,0 +1,133 @@
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import type { DMessage } from '~/common/stores/chat/chat.message';
+import { createModelAuxVoidFragment, createTextContentFragment, DMessageFragment } from '~/common/stores/chat/chat.fragments';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { createImportedConversation, createImportedMessage, importedTimestamp, pushImportedConversations } from './import.utils';
+
+
+// ChatGPT data export: conversations.json, in the zip received by email
+// Each conversation is a tree of messages (edits and regenerations are branches); `current_node` is the leaf of the branch on screen.
+
+interface ChatGPTConversation {
+  id?: string;
+  title?: string | null;
+  create_time?: number | null;
+  update_time?: number | null;
+  mapping: Record<string, ChatGPTNode>;
+  current_node?: string | null;
+}
+
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  children?: string[];
+  message?: ChatGPTMessage | null;
+}
+
+interface ChatGPTMessage {
+  author: { role: 'user' | 'assistant' | 'system' | 'tool' };
+  create_time?: number | null;
+  content?: {
+    content_type: 'text' | 'multimodal_text' | 'code' | 'thoughts' | string;
+    parts?: unknown[];              // strings, or objects for images (not in the json)
+    text?: string;                  // code
+    language?: string;              // code
+    thoughts?: { summary?: string, content?: string }[];
+  };
+  metadata?: {
+    model_slug?: string;
+    is_visually_hidden_from_conversation?: boolean;
+  };
+  recipient?: string;               // 'all', or a tool
+}
+
+
+export function isChatGPTExport(obj: any): obj is ChatGPTConversation[] {
+  return Array.isArray(obj) && obj.length > 0 && obj.every(c => !!c && typeof c === 'object' && typeof c.mapping === 'object');
+}
+
+export function loadConversationsFromChatGPT(fileName: string, conversations: ChatGPTConversation[], outcome: ImportedOutcome) {
+  pushImportedConversations(fileName, 'ChatGPT', conversations.map(c => {
+    try {
+      return _chatGPTConversation(c) ?? `Empty conversation: ${c.title || c.id || 'untitled'}`;
+    } catch (error: any) {
+      return `Invalid conversation: ${c.title || c.id || 'untitled'} (${error?.message || 'unknown error'})`;
+    }
+  }), outcome);
+}
+
+
+function _chatGPTConversation(c: ChatGPTConversation): DConversation | null {
+  const created = importedTimestamp(c.create_time, Date.now());
+
+  // the current branch: from the leaf, up to the root
+  const path: ChatGPTMessage[] = [];
+  const visited = new Set<string>();
+  let nodeId = c.current_node ?? _lastLeafId(c.mapping);
+  while (nodeId && c.mapping[nodeId] && !visited.has(nodeId)) {
+    visited.add(nodeId);
+    const node = c.mapping[nodeId];
+    if (node.message)
+      path.unshift(node.message);
+    nodeId = node.parent ?? null;
+  }
+
+  const messages: DMessage[] = [];
+  let pendingReasoning: string[] = [];
+  for (const m of path) {
+    const role = m.author?.role;
+    if (m.metadata?.is_visually_hidden_from_conversation || (role !== 'user' && role !== 'assistant' && role !== 'system'))
+      continue;
+
+    // reasoning comes as separate messages, before the reply
+    if (m.content?.content_type === 'thoughts') {
+      pendingReasoning.push(...(m.content.thoughts ?? []).map(t => t.content || t.summary || '').filter(Boolean));
+      continue;
+    }
+
+    const text = _chatGPTMessageText(m);
+    if (!text || (m.recipient && m.recipient !== 'all' && m.content?.content_type !== 'code'))
+      continue;
+
+    const fragments: DMessageFragment[] = [];
+    if (role === 'assistant' && pendingReasoning.length) {
+      fragments.push(createModelAuxVoidFragment('reasoning', pendingReasoning.join('\n\n')));
+      pendingReasoning = [];
+    }
+    fragments.push(createTextContentFragment(text));
+
+    // a reply can be split in several messages (e.g. code, then the answer): merge them
+    const previous = messages[messages.length - 1];
+    if (role === 'assistant' && previous?.role === 'assistant') {
+      previous.fragments.push(...fragments);
+      continue;
+    }
+    messages.push(createImportedMessage(role, fragments, importedTimestamp(m.create_time, created), m.metadata?.model_slug));
+  }
+
+  if (!messages.some(m => m.role !== 'system'))
+    return null;
+  return createImportedConversation(c.title ?? undefined, messages, created, importedTimestamp(c.update_time, created));
+}
+
+function _chatGPTMessageText(m: ChatGPTMessage): string {
+  const content = m.content;
+  switch (content?.content_type) {
+    case 'text':
+    case 'multimodal_text':
+      // images are not in conversations.json, only their pointers
+      return (content.parts ?? []).filter((part): part is string => typeof part === 'string').join('\n').trim();
+    case 'code':
+      return !content.text ? '' : '```' + (content.language && content.language !== 'unknown' ? content.language : '') + '\n' + content.text + '\n```';
+    default:
+      return '';
+  }
+}
+
+// older exports may miss the current node: take the most recent leaf
+function _lastLeafId(mapping: Record<string, ChatGPTNode>): string | null {
+  const leaves = Object.values(mapping).filter(node => !node.children?.length && node.message);
+  leaves.sort((a, b) => (b.message?.create_time ?? 0) - (a.message?.create_time ?? 0));
+  return leaves[0]?.id ?? null;
+}
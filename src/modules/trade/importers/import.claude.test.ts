@@ -0,0 +1,110 @@
+/// <reference types="node" />
+
+// Tests for the Claude importer: the branch of the latest message, by parent uuid, and the documents.
+//
+// Run:
+// - `npx tsx --test src/modules/trade/importers/import.claude.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import { messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { isClaudeExport, loadConversationsFromClaude } from './import.claude';
+
+
+const ROOT_UUID = '00000000-0000-4000-8000-000000000000';
+
+// fixture: the first reply was retried ('a-retry'), and the question after it edited ('q2-edit')
+function claudeMessage(uuid: string, parent: string | undefined, sender: 'human' | 'assistant', text: string, minute: number) {
+  return { uuid, parent_message_uuid: parent, sender, text, created_at: `2024-05-01T10:${String(minute).padStart(2, '0')}:00Z` };
+}
+
+const BRANCHED_MESSAGES = [
+  claudeMessage('q1', ROOT_UUID, 'human', 'Question', 0),
+  claudeMessage('a', 'q1', 'assistant', 'Answer', 1),
+  claudeMessage('a-retry', 'q1', 'assistant', 'Better answer', 2),
+  claudeMessage('q2', 'a-retry', 'human', 'Follow-up', 3),
+  claudeMessage('a2', 'q2', 'assistant', 'Reply', 4),
+  claudeMessage('q2-edit', 'a-retry', 'human', 'Edited follow-up', 5),
+  claudeMessage('a2-edit', 'q2-edit', 'assistant', 'Edited reply', 6),
+];
+
+function importConversations(conversations: object[]): ImportedOutcome['conversations'] {
+  const outcome: ImportedOutcome = { conversations: [], activateConversationId: null, modelServices: [] };
+  ok(isClaudeExport(conversations));
+  loadConversationsFromClaude('conversations.json', conversations, outcome);
+  return outcome.conversations;
+}
+
+function messagesOf(conversation: DConversation): [role: string, text: string][] {
+  return conversation.messages.map(m => [m.role, messageFragmentsReduceText(m.fragments, '\n\n', true)]);
+}
+
+
+describe('loadConversationsFromClaude', () => {
+
+  test('the branch of the latest message, by parent uuid', () => {
+    const [result] = importConversations([{ uuid: 'c1', name: 'Branches', created_at: '2024-05-01T10:00:00Z', updated_at: '2024-05-01T10:06:00Z', chat_messages: BRANCHED_MESSAGES }]);
+    ok(result.success);
+    deepStrictEqual(messagesOf(result.conversation), [
+      ['user', 'Question'],
+      ['assistant', 'Better answer'],
+      ['user', 'Edited follow-up'],
+      ['assistant', 'Edited reply'],
+    ]);
+    strictEqual(result.conversation.autoTitle, 'Branches');
+    strictEqual(result.conversation.messages[3].created, Date.parse('2024-05-01T10:06:00Z'));
+    deepStrictEqual(result.conversation.messages[3].generator, { mgt: 'named', name: 'Claude' });
+  });
+
+  test('without parent uuids, the messages are taken in order', () => {
+    const messages = BRANCHED_MESSAGES.slice(0, 2).map(({ parent_message_uuid: _parent, ...m }) => m);
+    const [result] = importConversations([{ uuid: 'c1', chat_messages: messages }]);
+    ok(result.success);
+    deepStrictEqual(messagesOf(result.conversation), [['user', 'Question'], ['assistant', 'Answer']]);
+  });
+
+  test('content blocks: text and thinking', () => {
+    const [result] = importConversations([{
+      uuid: 'c1', chat_messages: [{
+        uuid: 'a', sender: 'assistant', text: 'ignored', content: [
+          { type: 'thinking', thinking: 'Let me think' },
+          { type: 'text', text: 'One' },
+          { type: 'tool_use' },
+          { type: 'text', text: 'Two' },
+        ],
+      }],
+    }]);
+    ok(result.success);
+    const [message] = result.conversation.messages;
+    deepStrictEqual(message.fragments[0].part, { pt: 'ma', aType: 'reasoning', aText: 'Let me think' });
+    strictEqual(messageFragmentsReduceText(message.fragments), 'One\n\nTwo');
+  });
+
+  test('attachments are plain text documents', () => {
+    const [result] = importConversations([{
+      uuid: 'c1', chat_messages: [{
+        uuid: 'q', sender: 'human', text: 'Summarize',
+        attachments: [{ file_name: 'report.pdf', file_type: 'pdf', extracted_content: 'The report' }, { file_name: 'empty.txt', file_type: 'txt' }],
+      }],
+    }]);
+    ok(result.success);
+    const attachments = result.conversation.messages[0].fragments.filter(f => f.ft === 'attachment');
+    strictEqual(attachments.length, 1);
+    const part = attachments[0].part;
+    ok(part.pt === 'doc');
+    strictEqual(part.vdt, 'text/plain');
+    deepStrictEqual(part.data, { idt: 'text', text: 'The report', mimeType: 'text/plain' });
+    strictEqual(part.meta?.srcFileName, 'report.pdf');
+  });
+
+  test('conversations without messages are reported', () => {
+    const [result] = importConversations([{ uuid: 'c2', name: 'Nothing', chat_messages: [] }]);
+    ok(!result.success);
+    strictEqual(result.error, 'Empty conversation: Nothing');
+  });
+
+});
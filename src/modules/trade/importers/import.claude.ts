@@ -0,0 +1,96 @@
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import type { DMessage } from '~/common/stores/chat/chat.message';
+import { createDMessageDataInlineText, createDocAttachmentFragment, createModelAuxVoidFragment, createTextContentFragment, DMessageFragment } from '~/common/stores/chat/chat.fragments';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { createImportedConversation, createImportedMessage, importedTimestamp, pushImportedConversations } from './import.utils';
+
+
+// Claude.ai data export: conversations.json, in the zip of Settings > Privacy > Export data
+// Messages are in order; recent exports also link them to their parent, to tell apart the branches of edits and retries.
+
+interface ClaudeConversation {
+  uuid: string;
+  name?: string;
+  created_at?: string;
+  updated_at?: string;
+  chat_messages: ClaudeMessage[];
+}
+
+interface ClaudeMessage {
+  uuid: string;
+  parent_message_uuid?: string;
+  sender: 'human' | 'assistant';
+  text?: string;
+  content?: { type: 'text' | 'thinking' | 'tool_use' | 'tool_result' | string, text?: string, thinking?: string }[];
+  created_at?: string;
+  attachments?: { file_name?: string, file_type?: string /* extension, e.g. 'pdf' */, extracted_content?: string }[]; // documents, with their text
+}
+
+
+export function isClaudeExport(obj: any): obj is ClaudeConversation[] {
+  return Array.isArray(obj) && obj.length > 0 && obj.every(c => !!c && typeof c === 'object' && typeof c.uuid === 'string' && Array.isArray(c.chat_messages));
+}
+
+export function loadConversationsFromClaude(fileName: string, conversations: ClaudeConversation[], outcome: ImportedOutcome) {
+  pushImportedConversations(fileName, 'Claude', conversations.map(c => {
+    try {
+      return _claudeConversation(c) ?? `Empty conversation: ${c.name || c.uuid}`;
+    } catch (error: any) {
+      return `Invalid conversation: ${c.name || c.uuid} (${error?.message || 'unknown error'})`;
+    }
+  }), outcome);
+}
+
+
+function _claudeConversation(c: ClaudeConversation): DConversation | null {
+  const created = importedTimestamp(c.created_at, Date.now());
+
+  const messages: DMessage[] = [];
+  for (const m of _claudeCurrentBranch(c.chat_messages)) {
+    const fragments: DMessageFragment[] = [];
+
+    // content: text and thinking blocks (tool uses are not replayable), or the plain text in older exports
+    const textParts: string[] = [];
+    for (const block of m.content ?? []) {
+      if (block.type === 'thinking' && block.thinking)
+        fragments.push(createModelAuxVoidFragment('reasoning', block.thinking));
+      else if (block.type === 'text' && block.text)
+        textParts.push(block.text);
+    }
+    const text = (textParts.length ? textParts.join('\n\n') : m.text ?? '').trim();
+    if (text)
+      fragments.push(createTextContentFragment(text));
+
+    // documents, with the text Claude extracted from them - plain text, whatever the type of the original file
+    for (const attachment of m.attachments ?? []) {
+      if (!attachment.extracted_content) continue;
+      const title = attachment.file_name || 'Attachment';
+      fragments.push(createDocAttachmentFragment(title, 'Imported from Claude', 'text/plain', createDMessageDataInlineText(attachment.extracted_content, 'text/plain'), title, 1, {
+        ...(attachment.file_name && { srcFileName: attachment.file_name }),
+      }));
+    }
+
+    if (fragments.length)
+      messages.push(createImportedMessage(m.sender === 'human' ? 'user' : 'assistant', fragments, importedTimestamp(m.created_at, created), m.sender === 'assistant' ? 'Claude' : undefined));
+  }
+
+  if (!messages.length)
+    return null;
+  return createImportedConversation(c.name, messages, created, importedTimestamp(c.updated_at, created));
+}
+
+function _claudeCurrentBranch(messages: ClaudeMessage[]): ClaudeMessage[] {
+  if (!messages.length || !messages.every(m => !!m.parent_message_uuid))
+    return messages;
+
+  // from the most recent message, up to the root
+  const byId = new Map(messages.map(m => [m.uuid, m]));
+  const branch: ClaudeMessage[] = [];
+  let message: ClaudeMessage | undefined = messages.reduce((last, m) => importedTimestamp(m.created_at, 0) >= importedTimestamp(last.created_at, 0) ? m : last);
+  while (message && !branch.includes(message)) {
+    branch.unshift(message);
+    message = byId.get(message.parent_message_uuid!);
+  }
+  return branch;
+}
@@ -0,0 +1,77 @@
+/// <reference types="node" />
+
+// Tests for the Gemini importer: the prompts of the activity, grouped in conversations by time.
+//
+// Run:
+// - `npx tsx --test src/modules/trade/importers/import.gemini.test.ts`
+
+import { describe, test } from 'node:test';
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import { messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { isGeminiActivityExport, loadConversationsFromGeminiActivity } from './import.gemini';
+
+
+function geminiActivity(title: string, time: string, replyHtml?: string) {
+  return { header: 'Gemini Apps', title, time, products: ['Gemini Apps'], ...(replyHtml && { safeHtmlItem: [{ html: replyHtml }] }) };
+}
+
+// fixture: in reverse order, as in Takeout; 29 minutes apart, then 31, then an activity that is not a prompt
+const ACTIVITIES = [
+  geminiActivity('Used an Extension', '2024-05-01T11:30:00Z'),
+  geminiActivity('Prompted Third question', '2024-05-01T11:00:00Z', '<p>Third answer</p>'),
+  geminiActivity('Prompted Second question', '2024-05-01T10:29:00Z', '<p>Second <b>answer</b></p>'),
+  geminiActivity('Prompted First question\nwith details', '2024-05-01T10:00:00Z', '<p>First answer</p>'),
+];
+
+function importConversations(activities: object[]): ImportedOutcome['conversations'] {
+  const outcome: ImportedOutcome = { conversations: [], activateConversationId: null, modelServices: [] };
+  ok(isGeminiActivityExport(activities));
+  loadConversationsFromGeminiActivity('MyActivity.json', activities, outcome);
+  return outcome.conversations;
+}
+
+function messagesOf(conversation: DConversation): [role: string, text: string][] {
+  return conversation.messages.map(m => [m.role, messageFragmentsReduceText(m.fragments)]);
+}
+
+
+describe('loadConversationsFromGeminiActivity', () => {
+
+  test('prompts within 30 minutes are the same conversation, most recent first', () => {
+    const [latest, earlier, ...rest] = importConversations(ACTIVITIES);
+    strictEqual(rest.length, 0);
+    ok(latest.success && earlier.success);
+
+    deepStrictEqual(messagesOf(earlier.conversation), [
+      ['user', 'First question\nwith details'],
+      ['assistant', 'First answer'],
+      ['user', 'Second question'],
+      ['assistant', 'Second **answer**'],
+    ]);
+    strictEqual(earlier.conversation.autoTitle, 'First question');
+    strictEqual(earlier.conversation.created, Date.parse('2024-05-01T10:00:00Z'));
+    strictEqual(earlier.conversation.updated, Date.parse('2024-05-01T10:29:00Z'));
+
+    deepStrictEqual(messagesOf(latest.conversation), [['user', 'Third question'], ['assistant', 'Third answer']]);
+  });
+
+  test('attached files are named in the prompt, and long titles are shortened', () => {
+    const [result] = importConversations([{ ...geminiActivity('Prompted ' + 'word '.repeat(20), '2024-05-01T10:00:00Z'), attachedFiles: ['a.png', 'b.pdf'] }]);
+    ok(result.success);
+    deepStrictEqual(messagesOf(result.conversation), [['user', 'word '.repeat(20).trim() + '\n\n(attached: a.png, b.pdf)']]);
+    strictEqual(result.conversation.autoTitle!.length, 60);
+    ok(result.conversation.autoTitle!.endsWith('…'));
+  });
+
+  test('an activity without prompts is reported', () => {
+    const [result, ...rest] = importConversations([geminiActivity('Used an Extension', '2024-05-01T10:00:00Z')]);
+    strictEqual(rest.length, 0);
+    ok(!result.success);
+    strictEqual(result.error, 'No prompts found in the activity');
+  });
+
+});
@@ -0,0 +1,81 @@
+import { convertHtmlToMarkdown } from '~/common/attachment-drafts/file-converters/HtmlToMarkdown';
+import type { DConversation } from '~/common/stores/chat/chat.conversation';
+import type { DMessage } from '~/common/stores/chat/chat.message';
+import { createTextContentFragment } from '~/common/stores/chat/chat.fragments';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+import { createImportedConversation, createImportedMessage, importedTimestamp, pushImportedConversations } from './import.utils';
+
+
+// Google Takeout, "My Activity" > "Gemini Apps" in JSON format: My Activity/Gemini Apps/MyActivity.json
+// Each activity is a prompt and its reply; there are no conversations, so the activities close in time are grouped together.
+
+const PROMPT_TITLE_PREFIX = 'Prompted ';
+const CONVERSATION_GAP_MS = 30 * 60 * 1000;
+const TITLE_MAX_LENGTH = 60;
+
+interface GeminiActivity {
+  header?: string;                  // 'Gemini Apps', formerly 'Bard'
+  title?: string;                   // 'Prompted <prompt>', or other activities
+  time?: string;
+  products?: string[];
+  safeHtmlItem?: { html?: string }[];
+  attachedFiles?: string[];         // names only
+}
+
+
+export function isGeminiActivityExport(obj: any): obj is GeminiActivity[] {
+  return Array.isArray(obj) && obj.length > 0 && obj.every(a => !!a && typeof a === 'object' && typeof a.header === 'string' && typeof a.time === 'string')
+    && obj.some(a => a.header === 'Gemini Apps' || a.header === 'Bard' || a.products?.includes('Gemini Apps'));
+}
+
+export function loadConversationsFromGeminiActivity(fileName: string, activities: GeminiActivity[], outcome: ImportedOutcome) {
+  const prompts = activities
+    .filter(a => a.title?.startsWith(PROMPT_TITLE_PREFIX))
+    .sort((a, b) => importedTimestamp(a.time, 0) - importedTimestamp(b.time, 0));
+
+  if (!prompts.length) {
+    outcome.conversations.push({ success: false, fileName, format: 'Gemini', error: 'No prompts found in the activity' });
+    return;
+  }
+
+  // group the prompts of the same session
+  const groups: GeminiActivity[][] = [];
+  let lastTime = -Infinity;
+  for (const activity of prompts) {
+    const time = importedTimestamp(activity.time, 0);
+    if (time - lastTime > CONVERSATION_GAP_MS)
+      groups.push([]);
+    groups[groups.length - 1].push(activity);
+    lastTime = time;
+  }
+
+  pushImportedConversations(fileName, 'Gemini', groups.map(group => {
+    try {
+      return _geminiConversation(group);
+    } catch (error: any) {
+      return `Invalid activity of ${group[0].time} (${error?.message || 'unknown error'})`;
+    }
+  }), outcome);
+}
+
+
+function _geminiConversation(activities: GeminiActivity[]): DConversation {
+  const messages: DMessage[] = [];
+  for (const activity of activities) {
+    const time = importedTimestamp(activity.time, Date.now());
+
+    let prompt = activity.title!.slice(PROMPT_TITLE_PREFIX.length).trim();
+    if (activity.attachedFiles?.length)
+      prompt += `\n\n(attached: ${activity.attachedFiles.join(', ')})`;
+    messages.push(createImportedMessage('user', [createTextContentFragment(prompt)], time));
+
+    const reply = (activity.safeHtmlItem ?? []).map(item => item.html ? convertHtmlToMarkdown(item.html).trim() : '').filter(Boolean).join('\n\n');
+    if (reply)
+      messages.push(createImportedMessage('assistant', [createTextContentFragment(reply)], time, 'Gemini'));
+  }
+
+  const firstLine = activities[0].title!.slice(PROMPT_TITLE_PREFIX.length).trim().split('\n')[0];
+  const title = firstLine.length > TITLE_MAX_LENGTH ? firstLine.slice(0, TITLE_MAX_LENGTH - 1).trim() + '…' : firstLine;
+  return createImportedConversation(title, messages, messages[0].created, messages[messages.length - 1].created);
+}
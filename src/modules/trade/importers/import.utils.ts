@@ -0,0 +1,53 @@
+import { createDConversation, DConversation } from '~/common/stores/chat/chat.conversation';
+import { createDMessageFromFragments, DMessage, DMessageRole } from '~/common/stores/chat/chat.message';
+import type { DMessageFragment } from '~/common/stores/chat/chat.fragments';
+
+import type { ImportedOutcome } from '../ImportOutcomeModal';
+
+
+/**
+ * Timestamps of the exports: unix seconds (ChatGPT) or ISO strings (Claude, Google Takeout)
+ */
+export function importedTimestamp(value: number | string | null | undefined, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value))
+    return Math.round(value * 1000);
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed))
+      return parsed;
+  }
+  return fallback;
+}
+
+export function createImportedMessage(role: DMessageRole, fragments: DMessageFragment[], created: number, generatorName?: string): DMessage {
+  const message = createDMessageFromFragments(role, fragments);
+  message.created = created;
+  message.updated = created;
+  if (generatorName && role === 'assistant')
+    message.generator = { mgt: 'named', name: generatorName };
+  return message;
+}
+
+export function createImportedConversation(title: string | undefined, messages: DMessage[], created: number, updated: number): DConversation {
+  const conversation = createDConversation();
+  conversation.messages = messages;
+  if (title?.trim())
+    conversation.autoTitle = title.trim();
+  conversation.created = created;
+  conversation.updated = updated;
+  return conversation;
+}
+
+/**
+ * Adds the conversations of an export to the outcome, most recent first - the import
+ * goes in reverse, so the most recent ends up on top, and activated.
+ */
+export function pushImportedConversations(fileName: string, format: string, conversations: (DConversation | string /* error */)[], outcome: ImportedOutcome) {
+  const updatedOf = (c: DConversation | string) => typeof c === 'string' ? 0 : c.updated || c.created;
+  for (const conversation of [...conversations].sort((a, b) => updatedOf(b) - updatedOf(a))) {
+    if (typeof conversation === 'string')
+      outcome.conversations.push({ success: false, fileName, format, error: conversation });
+    else
+      outcome.conversations.push({ success: true, fileName, format, conversation });
+  }
+}
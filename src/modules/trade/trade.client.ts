@@ -1,6 +1,6 @@
 import { fileOpen, fileSave, FileWithHandle } from 'browser-fs-access';
 
-import { SystemPurposeId, SystemPurposes } from '../../data';
+import { getPersona } from '~/modules/persona/store-personas';
 
 import { Brand } from '~/common/app.config';
 import { DataAtRestV1 } from '~/common/stores/chat/chats.converters';
@@ -8,13 +8,17 @@ import { Release } from '~/common/app.release';
 import { capitalizeFirstLetter } from '~/common/util/textUtils';
 import { conversationTitle, DConversation, excludeSystemMessages } from '~/common/stores/chat/chat.conversation';
 import { llmsStoreActions, llmsStoreState } from '~/common/stores/llms/store-llms';
-import { messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
+import { DMessageId, messageFragmentsReduceText } from '~/common/stores/chat/chat.message';
 import { prettyShortChatModelName } from '~/common/util/dMessageUtils';
 import { prettyTimestampForFilenames } from '~/common/util/timeUtils';
 import { useChatStore } from '~/common/stores/chat/store-chats';
 import { useFolderStore } from '~/common/stores/folders/store-chat-folders';
 
 import type { ImportedOutcome } from './ImportOutcomeModal';
+import { isChatGPTExport, loadConversationsFromChatGPT } from './importers/import.chatgpt';
+import { isClaudeExport, loadConversationsFromClaude } from './importers/import.claude';
+import { isGeminiActivityExport, loadConversationsFromGeminiActivity } from './importers/import.gemini';
+import { conversationToDocChat, DocChat } from './document/document.model';
 
 
 export function tradeFileVariant() {
@@ -26,6 +30,7 @@ export function tradeFileVariant() {
 
 /**
  * Load conversations from the given Files (we don't need/use the handle here, as no LiveFile is involved in the import)
+ * - our own JSON files and backups, and the data exports of ChatGPT, Claude and Gemini (Google Takeout)
  * @param files The files to import, if null the user may have cancelled the request
  * @param preventClash If true, the importer will not overwrite existing conversations with the same ID
  * @param restoreModelServices If true, model services (incl. API keys) found in backup files are restored, add-only - keep OFF for casual surfaces (drag-drop), ON only for deliberate restore (Import dialog)
@@ -43,7 +48,20 @@ export async function importConversationsFromFilesAtRest(files: File[] | null, p
     try {
       const fileString = await file.text();
       const fileObject = JSON.parse(fileString);
-      loadConversationsFromAtRestV1(fileName, fileObject, outcome);
+      switch (true) {
+        case isChatGPTExport(fileObject):
+          loadConversationsFromChatGPT(fileName, fileObject, outcome);
+          break;
+        case isClaudeExport(fileObject):
+          loadConversationsFromClaude(fileName, fileObject, outcome);
+          break;
+        case isGeminiActivityExport(fileObject):
+          loadConversationsFromGeminiActivity(fileName, fileObject, outcome);
+          break;
+        default:
+          loadConversationsFromAtRestV1(fileName, fileObject, outcome);
+          break;
+      }
     } catch (error: any) {
       outcome.conversations.push({
         success: false,
@@ -214,6 +232,47 @@ export async function downloadSingleChat(conversation: DConversation, format: 'j
   });
 }
 
+/**
+ * Export conversations as a readable document: self-contained HTML, PDF (through the print dialog), or DOCX
+ * @param messageIds only these messages, for the export of a selection of a single conversation
+ * @throws {DOMException} AbortError if the user closes the save dialog
+ * @throws {Error} if there is nothing to export, or the file could not be saved
+ */
+export async function downloadChatsDocument(conversations: DConversation[], messageIds: DMessageId[] | null, format: 'html' | 'pdf' | 'docx', title: string) {
+
+  const chats: DocChat[] = [];
+  for (const conversation of conversations) {
+    const chat = await conversationToDocChat(conversation, messageIds);
+    if (chat.messages.length)
+      chats.push(chat);
+  }
+  if (!chats.length)
+    throw new Error('Nothing to export.');
+
+  const fileTitle = title.replace(/[^a-z0-9]/gi, '-').toLowerCase() || 'untitled';
+  const fileName = `conversation_${fileTitle}_${prettyTimestampForFilenames(false)}`;
+
+  // renderers are loaded on demand, as they pull markdown, math and diagram rendering
+  switch (format) {
+    case 'html':
+      const { docChatsToHtml } = await import('./document/document.html');
+      const html = await docChatsToHtml(chats, title);
+      await fileSave(new Blob([html], { type: 'text/html' }), { fileName: `${fileName}.html`, extensions: ['.html'] });
+      break;
+
+    case 'pdf':
+      const [htmlModule, { printHtmlAsPdf }] = await Promise.all([import('./document/document.html'), import('./document/document.pdf')]);
+      await printHtmlAsPdf(await htmlModule.docChatsToHtml(chats, title), fileName);
+      break;
+
+    case 'docx':
+      const { docChatsToDocx } = await import('./document/document.docx');
+      const docx = await docChatsToDocx(chats, title);
+      await fileSave(docx, { fileName: `${fileName}.docx`, extensions: ['.docx'] });
+      break;
+  }
+}
+
 /**
  * Primitive rendering of a Conversation to Markdown
  */
@@ -232,9 +291,10 @@ export function conversationToMarkdown(conversation: DConversation, hideSystemMe
         break;
       case 'assistant':
         const purpose = message.purposeId || conversation.systemPurposeId || null;
-        senderName = `${purpose || 'Assistant'} · *${prettyShortChatModelName(message.generator?.name || '')}*`.trim();
-        if (purpose && purpose in SystemPurposes)
-          senderName = `${SystemPurposes[purpose as SystemPurposeId]?.symbol || ''} ${senderName}`.trim();
+        const persona = getPersona(purpose);
+        senderName = `${persona?.title || purpose || 'Assistant'} · *${prettyShortChatModelName(message.generator?.name || '')}*`.trim();
+        if (persona)
+          senderName = `${persona.symbol || ''} ${senderName}`.trim();
         break;
       case 'user':
         senderName = '👤 You';